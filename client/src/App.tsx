@@ -25,7 +25,19 @@ import TeacherManagement from "./components/coordinator/TeacherManagement";
 import CourseManagement from "./components/coordinator/CourseManagement";
 import TimetableManagement from "./components/coordinator/TimetableManagement";
 import DepartmentManagement from "./components/coordinator/DepartmentManagement";
+import RoomManagement from "./components/coordinator/RoomManagement";
+import TimetableVersions from "./components/coordinator/TimetableVersions";
+import AcademicCalendar from "./components/coordinator/AcademicCalendar";
+import SecurityEvents from "./components/coordinator/SecurityEvents";
+import FraudFindings from "./components/coordinator/FraudFindings";
+import StudentDevices from "./components/coordinator/StudentDevices";
+import AttendancePolicies from "./components/coordinator/AttendancePolicies";
+import LeaveRequestReview from "./components/teacher/LeaveRequestReview";
+import LeaveRequests from "./components/student/LeaveRequests";
+import AttendanceDisputes from "./components/teacher/AttendanceDisputes";
+import AttendanceAudit from "./components/coordinator/AttendanceAudit";
 import AttendancePage from "./components/coordinator/AttendancePage";
+import TeacherAvailability from "./components/teacher/TeacherAvailability";
 import AnalyticsDashboard from "./components/coordinator/AnalyticsDashboard";
 import StudentEnrollment from "./components/coordinator/StudentEnrollment";
 import TeacherDashboard from "./pages/TeacherDashboard";
@@ -136,9 +148,25 @@ const coordinatorRoutes = [
   { path: "/coordinator", component: CoordinatorDashboard, exact: true },
   { path: "/students", component: EnhancedStudentManagement, exact: false },
   { path: "/students/:id", component: StudentProfileDashboard, exact: false },
+  {
+    path: "/teachers/:id/availability",
+    component: TeacherAvailability,
+    exact: true,
+  }, // Before /teachers so it is not swallowed by the list route
   { path: "/teachers", component: TeacherManagement, exact: false },
   { path: "/courses", component: CourseManagement, exact: false },
   { path: "/departments", component: DepartmentManagement, exact: false },
+  { path: "/rooms", component: RoomManagement, exact: false },
+  {
+    path: "/timetable/versions",
+    component: TimetableVersions,
+    exact: false,
+  },
+  {
+    path: "/timetable/calendar",
+    component: AcademicCalendar,
+    exact: false,
+  },
   {
     path: "/timetable/generate",
     component: SmartTimetableGenerator,
@@ -152,6 +180,41 @@ const coordinatorRoutes = [
     component: AttendanceReportsDashboard,
     exact: false,
   },
+  {
+    path: "/attendance/security",
+    component: SecurityEvents,
+    exact: false,
+  },
+  {
+    path: "/attendance/fraud",
+    component: FraudFindings,
+    exact: false,
+  },
+  {
+    path: "/attendance/devices",
+    component: StudentDevices,
+    exact: false,
+  },
+  {
+    path: "/attendance/policies",
+    component: AttendancePolicies,
+    exact: false,
+  },
+  {
+    path: "/attendance/leave",
+    component: LeaveRequestReview,
+    exact: false,
+  },
+  {
+    path: "/attendance/disputes",
+    component: AttendanceDisputes,
+    exact: false,
+  },
+  {
+    path: "/attendance/audit",
+    component: AttendanceAudit,
+    exact: false,
+  },
   {
     path: "/students/enrollment",
     component: StudentCourseEnrollment,
@@ -192,6 +255,17 @@ const teacherRoutes = [
     component: SmartAttendanceDashboard,
     exact: false,
   },
+  {
+    path: "/teacher/leave-requests",
+    component: LeaveRequestReview,
+    exact: false,
+  },
+  {
+    path: "/teacher/disputes",
+    component: AttendanceDisputes,
+    exact: false,
+  },
+  { path: "/teacher/availability", component: TeacherAvailability, exact: true },
 ];
 
 const studentRoutes = [
@@ -226,6 +300,7 @@ const studentRoutes = [
     component: StudentSmartAttendance,
     exact: false,
   },
+  { path: "/student/leave", component: LeaveRequests, exact: false },
   { path: "/student/profile", component: EnhancedStudentProfile, exact: false },
   { path: "/student/grades", component: EnhancedGradeTracker, exact: false },
   {
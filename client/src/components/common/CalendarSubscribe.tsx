@@ -0,0 +1,117 @@
+import React, { useState } from "react";
+import {
+  fetchCalendarFeedUrl,
+  regenerateCalendarFeedUrl,
+  CalendarFeedUrl,
+} from "../../services/api";
+
+// "Add to calendar" button with the user's private .ics subscription URL
+const CalendarSubscribe: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [feed, setFeed] = useState<CalendarFeedUrl | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpen = async () => {
+    setOpen(!open);
+    if (feed || open) return;
+    try {
+      setLoading(true);
+      setError(null);
+      setFeed(await fetchCalendarFeedUrl());
+    } catch (error: any) {
+      console.error("Error loading calendar feed URL:", error);
+      setError(error?.response?.data?.message || "Failed to load calendar link");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (
+      !window.confirm(
+        "Calendars subscribed with the current link will stop updating. Create a new link?"
+      )
+    ) {
+      return;
+    }
+    try {
+      setLoading(true);
+      setError(null);
+      setFeed(await regenerateCalendarFeedUrl());
+      setCopied(false);
+    } catch (error: any) {
+      console.error("Error regenerating calendar feed URL:", error);
+      setError(error?.response?.data?.message || "Failed to create a new link");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    await navigator.clipboard.writeText(feed.url);
+    setCopied(true);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleOpen}
+        className="px-6 py-3 bg-gradient-to-r from-emerald-500 to-teal-600 text-white rounded-xl font-semibold hover:shadow-lg transition-all duration-200"
+      >
+        📆 Add to Calendar
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 max-w-[90vw] bg-white rounded-xl shadow-2xl border border-gray-100 p-4 z-20">
+          <p className="text-sm text-gray-600 mb-3">
+            Subscribe in Google Calendar, Outlook or Apple Calendar. Cancelled
+            and rescheduled classes update automatically.
+          </p>
+
+          {loading && <p className="text-sm text-gray-500">Loading...</p>}
+          {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+          {feed && !loading && (
+            <>
+              <input
+                readOnly
+                value={feed.url}
+                onFocus={(e) => e.target.select()}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono mb-3"
+              />
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={handleCopy}
+                  className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 rounded-lg text-sm font-medium"
+                >
+                  {copied ? "✅ Copied" : "📋 Copy link"}
+                </button>
+                <a
+                  href={feed.webcal_url}
+                  className="px-3 py-1.5 bg-teal-50 hover:bg-teal-100 text-teal-700 rounded-lg text-sm font-medium"
+                >
+                  🗓️ Open in calendar app
+                </a>
+                <button
+                  onClick={handleRegenerate}
+                  className="px-3 py-1.5 text-red-600 hover:bg-red-50 rounded-lg text-sm font-medium"
+                >
+                  🔄 New link
+                </button>
+              </div>
+              <p className="text-xs text-gray-400 mt-3">
+                Anyone with this link can see your timetable. Create a new
+                link if it has been shared by mistake.
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarSubscribe;
@@ -150,6 +150,16 @@ const Sidebar: React.FC = () => {
                 </div>
                 {!isCollapsed && <span className="font-medium">Courses</span>}
               </NavLink>
+              <NavLink
+                to="/rooms"
+                className={baseClass}
+                activeClassName={activeClass}
+              >
+                <div className="w-5 h-5 bg-amber-100 rounded-lg flex items-center justify-center">
+                  <span className="text-sm">🚪</span>
+                </div>
+                {!isCollapsed && <span className="font-medium">Rooms</span>}
+              </NavLink>
               <NavLink
                 to="/timetable"
                 className={baseClass}
@@ -160,6 +170,28 @@ const Sidebar: React.FC = () => {
                 </div>
                 {!isCollapsed && <span className="font-medium">Timetable</span>}
               </NavLink>
+              <NavLink
+                to="/timetable/versions"
+                className={baseClass}
+                activeClassName={activeClass}
+              >
+                <div className="w-5 h-5 bg-sky-100 rounded-lg flex items-center justify-center">
+                  <span className="text-sm">🕘</span>
+                </div>
+                {!isCollapsed && <span className="font-medium">Versions</span>}
+              </NavLink>
+              <NavLink
+                to="/timetable/calendar"
+                className={baseClass}
+                activeClassName={activeClass}
+              >
+                <div className="w-5 h-5 bg-emerald-100 rounded-lg flex items-center justify-center">
+                  <span className="text-sm">📆</span>
+                </div>
+                {!isCollapsed && (
+                  <span className="font-medium">Academic Calendar</span>
+                )}
+              </NavLink>
               <NavLink
                 to="/attendance"
                 className={baseClass}
@@ -172,6 +204,90 @@ const Sidebar: React.FC = () => {
                   <span className="font-medium">Attendance</span>
                 )}
               </NavLink>
+              <NavLink
+                to="/attendance/security"
+                className={baseClass}
+                activeClassName={activeClass}
+              >
+                <div className="w-5 h-5 bg-red-100 rounded-lg flex items-center justify-center">
+                  <span className="text-sm">🛡️</span>
+                </div>
+                {!isCollapsed && (
+                  <span className="font-medium">Security Events</span>
+                )}
+              </NavLink>
+              <NavLink
+                to="/attendance/fraud"
+                className={baseClass}
+                activeClassName={activeClass}
+              >
+                <div className="w-5 h-5 bg-amber-100 rounded-lg flex items-center justify-center">
+                  <span className="text-sm">🕵️</span>
+                </div>
+                {!isCollapsed && (
+                  <span className="font-medium">Proxy Attendance</span>
+                )}
+              </NavLink>
+              <NavLink
+                to="/attendance/devices"
+                className={baseClass}
+                activeClassName={activeClass}
+              >
+                <div className="w-5 h-5 bg-sky-100 rounded-lg flex items-center justify-center">
+                  <span className="text-sm">📱</span>
+                </div>
+                {!isCollapsed && (
+                  <span className="font-medium">Student Devices</span>
+                )}
+              </NavLink>
+              <NavLink
+                to="/attendance/policies"
+                className={baseClass}
+                activeClassName={activeClass}
+              >
+                <div className="w-5 h-5 bg-indigo-100 rounded-lg flex items-center justify-center">
+                  <span className="text-sm">📏</span>
+                </div>
+                {!isCollapsed && (
+                  <span className="font-medium">Attendance Policies</span>
+                )}
+              </NavLink>
+              <NavLink
+                to="/attendance/leave"
+                className={baseClass}
+                activeClassName={activeClass}
+              >
+                <div className="w-5 h-5 bg-teal-100 rounded-lg flex items-center justify-center">
+                  <span className="text-sm">📄</span>
+                </div>
+                {!isCollapsed && (
+                  <span className="font-medium">Leave Requests</span>
+                )}
+              </NavLink>
+              <NavLink
+                to="/attendance/disputes"
+                className={baseClass}
+                activeClassName={activeClass}
+              >
+                <div className="w-5 h-5 bg-orange-100 rounded-lg flex items-center justify-center">
+                  <span className="text-sm">⚖️</span>
+                </div>
+                {!isCollapsed && (
+                  <span className="font-medium">Attendance Disputes</span>
+                )}
+              </NavLink>
+              <NavLink
+                to="/attendance/audit"
+                className={baseClass}
+                activeClassName={activeClass}
+              >
+                <div className="w-5 h-5 bg-slate-100 rounded-lg flex items-center justify-center">
+                  <span className="text-sm">🧾</span>
+                </div>
+                {!isCollapsed && (
+                  <span className="font-medium">Audit Log</span>
+                )}
+              </NavLink>
             </nav>
           </div>
         )}
@@ -217,6 +333,42 @@ const Sidebar: React.FC = () => {
                   <span className="font-medium">Take Attendance</span>
                 )}
               </NavLink>
+              <NavLink
+                to="/teacher/leave-requests"
+                className={baseClass}
+                activeClassName={activeClass}
+              >
+                <div className="w-5 h-5 bg-teal-100 rounded-lg flex items-center justify-center">
+                  <span className="text-sm">📄</span>
+                </div>
+                {!isCollapsed && (
+                  <span className="font-medium">Leave Requests</span>
+                )}
+              </NavLink>
+              <NavLink
+                to="/teacher/disputes"
+                className={baseClass}
+                activeClassName={activeClass}
+              >
+                <div className="w-5 h-5 bg-orange-100 rounded-lg flex items-center justify-center">
+                  <span className="text-sm">⚖️</span>
+                </div>
+                {!isCollapsed && (
+                  <span className="font-medium">Attendance Disputes</span>
+                )}
+              </NavLink>
+              <NavLink
+                to="/teacher/availability"
+                className={baseClass}
+                activeClassName={activeClass}
+              >
+                <div className="w-5 h-5 bg-amber-100 rounded-lg flex items-center justify-center">
+                  <span className="text-sm">🕒</span>
+                </div>
+                {!isCollapsed && (
+                  <span className="font-medium">Availability</span>
+                )}
+              </NavLink>
             </nav>
           </div>
         )}
@@ -262,6 +414,18 @@ const Sidebar: React.FC = () => {
                   <span className="font-medium">My Attendance</span>
                 )}
               </NavLink>
+              <NavLink
+                to="/student/leave"
+                className={baseClass}
+                activeClassName={activeClass}
+              >
+                <div className="w-5 h-5 bg-teal-100 rounded-lg flex items-center justify-center">
+                  <span className="text-sm">📄</span>
+                </div>
+                {!isCollapsed && (
+                  <span className="font-medium">Leave Requests</span>
+                )}
+              </NavLink>
               <NavLink
                 to="/student/profile"
                 className={baseClass}
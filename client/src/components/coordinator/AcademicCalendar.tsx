@@ -0,0 +1,434 @@
+import React, { useEffect, useState } from "react";
+import {
+  fetchAcademicTerms,
+  saveAcademicTerm,
+  deleteAcademicTerm,
+  fetchCalendarEvents,
+  saveCalendarEvent,
+  deleteCalendarEvent,
+  fetchAllDepartments,
+  AcademicTerm,
+  AcademicCalendarEvent,
+  CalendarEventType,
+} from "../../services/api";
+
+const DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const SEMESTERS = [1, 2, 3, 4, 5, 6, 7, 8];
+
+const EVENT_LABELS: Record<CalendarEventType, string> = {
+  holiday: "🎉 Holiday",
+  exam: "📝 Exam period",
+  makeup_day: "🔁 Make-up day",
+};
+
+const EVENT_STYLES: Record<CalendarEventType, string> = {
+  holiday: "bg-green-50 text-green-700",
+  exam: "bg-purple-50 text-purple-700",
+  makeup_day: "bg-amber-50 text-amber-700",
+};
+
+const emptyTerm = {
+  name: "",
+  academic_year: "",
+  department_id: "",
+  semester: "",
+  start_date: "",
+  end_date: "",
+};
+
+const emptyEvent = {
+  event_type: "holiday" as CalendarEventType,
+  title: "",
+  start_date: "",
+  end_date: "",
+  follows_day_of_week: "Monday",
+  department_id: "",
+  semester: "",
+};
+
+const optionalNumber = (value: string) => (value ? Number(value) : null);
+
+const scopeLabel = (item: {
+  department?: { name: string } | null;
+  semester?: number | null;
+}) =>
+  `${item.department?.name || "All departments"} · ${
+    item.semester ? `Semester ${item.semester}` : "All semesters"
+  }`;
+
+const AcademicCalendar: React.FC = () => {
+  const [terms, setTerms] = useState<AcademicTerm[]>([]);
+  const [events, setEvents] = useState<AcademicCalendarEvent[]>([]);
+  const [departments, setDepartments] = useState<
+    { department_id: number; name: string }[]
+  >([]);
+  const [termForm, setTermForm] = useState({ ...emptyTerm });
+  const [eventForm, setEventForm] = useState({ ...emptyEvent });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadCalendar();
+    fetchAllDepartments()
+      .then(setDepartments)
+      .catch((error) => console.error("Error loading departments:", error));
+  }, []);
+
+  const loadCalendar = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [termData, eventData] = await Promise.all([
+        fetchAcademicTerms(),
+        fetchCalendarEvents(),
+      ]);
+      setTerms(termData);
+      setEvents(eventData);
+    } catch (error) {
+      console.error("Error loading academic calendar:", error);
+      setError("Failed to load the academic calendar. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await action();
+      await loadCalendar();
+      return true;
+    } catch (error: any) {
+      console.error(`${failure}:`, error);
+      setError(`${failure}: ${error?.response?.data?.message || error.message}`);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleTermSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (termForm.start_date > termForm.end_date) {
+      setError("Term end date must not be before its start date");
+      return;
+    }
+    const saved = await run(
+      () =>
+        saveAcademicTerm({
+          ...termForm,
+          department_id: optionalNumber(termForm.department_id),
+          semester: optionalNumber(termForm.semester),
+        }),
+      "Failed to save term"
+    );
+    if (saved) setTermForm({ ...emptyTerm });
+  };
+
+  const handleEventSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const isMakeup = eventForm.event_type === "makeup_day";
+    const endDate = isMakeup ? eventForm.start_date : eventForm.end_date || eventForm.start_date;
+    if (eventForm.start_date > endDate) {
+      setError("End date must not be before the start date");
+      return;
+    }
+    const saved = await run(
+      () =>
+        saveCalendarEvent({
+          event_type: eventForm.event_type,
+          title: eventForm.title,
+          start_date: eventForm.start_date,
+          end_date: endDate,
+          follows_day_of_week: isMakeup ? eventForm.follows_day_of_week : null,
+          department_id: optionalNumber(eventForm.department_id),
+          semester: optionalNumber(eventForm.semester),
+        }),
+      "Failed to save calendar entry"
+    );
+    if (saved) setEventForm({ ...emptyEvent, event_type: eventForm.event_type });
+  };
+
+  const scopeSelects = (
+    form: { department_id: string; semester: string },
+    onChange: (changes: { department_id?: string; semester?: string }) => void
+  ) => (
+    <>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Department</label>
+        <select
+          value={form.department_id}
+          onChange={(e) => onChange({ department_id: e.target.value })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          disabled={loading}
+        >
+          <option value="">All departments</option>
+          {departments.map((dept) => (
+            <option key={dept.department_id} value={dept.department_id}>
+              {dept.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Semester</label>
+        <select
+          value={form.semester}
+          onChange={(e) => onChange({ semester: e.target.value })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          disabled={loading}
+        >
+          <option value="">All semesters</option>
+          {SEMESTERS.map((sem) => (
+            <option key={sem} value={sem}>Semester {sem}</option>
+          ))}
+        </select>
+      </div>
+    </>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-emerald-50 to-teal-50 p-4 sm:p-6 md:p-8">
+      {/* Header */}
+      <div className="mb-6 sm:mb-8">
+        <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-emerald-600 to-teal-600 bg-clip-text text-transparent mb-2">
+          📆 Academic Calendar
+        </h1>
+        <p className="text-sm sm:text-base text-gray-600">
+          Classes only run inside a term. Holidays and exam periods cancel
+          classes and don't count toward attendance; a make-up day runs the
+          timetable of the weekday it follows.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <div className="flex items-center">
+            <span className="text-2xl mr-3">⚠️</span>
+            <p className="text-red-700 font-medium">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Terms */}
+      <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6 mb-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">🎓 Terms</h2>
+        <form
+          onSubmit={handleTermSubmit}
+          className="grid grid-cols-1 md:grid-cols-7 gap-4 items-end mb-6"
+        >
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+            <input
+              type="text"
+              placeholder="Odd Semester"
+              value={termForm.name}
+              onChange={(e) => setTermForm({ ...termForm, name: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              required
+              disabled={loading}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Year</label>
+            <input
+              type="text"
+              placeholder="2026-27"
+              value={termForm.academic_year}
+              onChange={(e) => setTermForm({ ...termForm, academic_year: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              required
+              disabled={loading}
+            />
+          </div>
+          {scopeSelects(termForm, (changes) => setTermForm({ ...termForm, ...changes }))}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Starts</label>
+            <input
+              type="date"
+              value={termForm.start_date}
+              onChange={(e) => setTermForm({ ...termForm, start_date: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              required
+              disabled={loading}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Ends</label>
+            <input
+              type="date"
+              value={termForm.end_date}
+              onChange={(e) => setTermForm({ ...termForm, end_date: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              required
+              disabled={loading}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={loading}
+            className="bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+          >
+            ➕ Add Term
+          </button>
+        </form>
+
+        {terms.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            No terms defined: every date is treated as a teaching day.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {terms.map((term) => (
+              <li
+                key={term.term_id}
+                className="flex items-center justify-between text-sm px-3 py-2 rounded-lg bg-gray-50"
+              >
+                <span>
+                  <span className="font-semibold text-gray-800">
+                    {term.name} ({term.academic_year})
+                  </span>{" "}
+                  {term.start_date} → {term.end_date}
+                  <span className="text-xs text-gray-500"> · {scopeLabel(term)}</span>
+                </span>
+                <button
+                  onClick={() => run(() => deleteAcademicTerm(term.term_id), "Failed to delete term")}
+                  disabled={loading}
+                  className="text-xs text-gray-500 hover:text-red-600"
+                  title="Remove"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Holidays, exams and make-up days */}
+      <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">
+          🗓️ Holidays, Exams & Make-up Days
+        </h2>
+        <form
+          onSubmit={handleEventSubmit}
+          className="grid grid-cols-1 md:grid-cols-7 gap-4 items-end mb-6"
+        >
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+            <select
+              value={eventForm.event_type}
+              onChange={(e) =>
+                setEventForm({ ...eventForm, event_type: e.target.value as CalendarEventType })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              disabled={loading}
+            >
+              {(Object.keys(EVENT_LABELS) as CalendarEventType[]).map((type) => (
+                <option key={type} value={type}>{EVENT_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Title</label>
+            <input
+              type="text"
+              placeholder="Diwali"
+              value={eventForm.title}
+              onChange={(e) => setEventForm({ ...eventForm, title: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              required
+              disabled={loading}
+            />
+          </div>
+          {scopeSelects(eventForm, (changes) => setEventForm({ ...eventForm, ...changes }))}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {eventForm.event_type === "makeup_day" ? "Date" : "From"}
+            </label>
+            <input
+              type="date"
+              value={eventForm.start_date}
+              onChange={(e) => setEventForm({ ...eventForm, start_date: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              required
+              disabled={loading}
+            />
+          </div>
+          {eventForm.event_type === "makeup_day" ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Follows</label>
+              <select
+                value={eventForm.follows_day_of_week}
+                onChange={(e) =>
+                  setEventForm({ ...eventForm, follows_day_of_week: e.target.value })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                disabled={loading}
+              >
+                {DAYS.map((day) => (
+                  <option key={day} value={day}>{day}'s timetable</option>
+                ))}
+              </select>
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+              <input
+                type="date"
+                value={eventForm.end_date}
+                onChange={(e) => setEventForm({ ...eventForm, end_date: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                disabled={loading}
+              />
+            </div>
+          )}
+          <button
+            type="submit"
+            disabled={loading}
+            className="bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+          >
+            ➕ Add
+          </button>
+        </form>
+
+        {events.length === 0 ? (
+          <p className="text-sm text-gray-400">No holidays, exams or make-up days yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {events.map((event) => (
+              <li
+                key={event.event_id}
+                className={`flex items-center justify-between text-sm px-3 py-2 rounded-lg ${
+                  EVENT_STYLES[event.event_type]
+                }`}
+              >
+                <span>
+                  {EVENT_LABELS[event.event_type]} ·{" "}
+                  <span className="font-semibold">{event.title}</span>{" "}
+                  {event.start_date}
+                  {event.end_date !== event.start_date && ` → ${event.end_date}`}
+                  {event.follows_day_of_week && ` (runs ${event.follows_day_of_week}'s timetable)`}
+                  <span className="text-xs text-gray-500"> · {scopeLabel(event)}</span>
+                </span>
+                <button
+                  onClick={() =>
+                    run(() => deleteCalendarEvent(event.event_id), "Failed to delete calendar entry")
+                  }
+                  disabled={loading}
+                  className="text-xs text-gray-500 hover:text-red-600"
+                  title="Remove"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AcademicCalendar;
@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from "react";
+import {
+  AttendanceAuditEntry,
+  fetchAllCourses,
+  fetchAllStudents,
+  fetchAttendanceAuditLog,
+} from "../../services/api";
+
+const ACTION_STYLES: Record<AttendanceAuditEntry["action"], string> = {
+  insert: "bg-green-100 text-green-700",
+  update: "bg-amber-100 text-amber-700",
+  delete: "bg-red-100 text-red-700",
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: "Marked by teacher",
+  smart_attendance: "Smart attendance",
+  leave_approval: "Leave approved",
+  dispute: "Dispute resolved",
+  offline_sync: "Taken offline",
+  ledger_migration: "Merged into the ledger",
+  direct: "Outside the app",
+};
+
+const label = (status?: string | null) => (status ? status.replace("_", " ") : "—");
+
+// Every change to a student's or course's attendance, with who made it and why
+const AttendanceAudit: React.FC = () => {
+  const [students, setStudents] = useState<
+    { student_id: number; name: string; roll_number: string }[]
+  >([]);
+  const [courses, setCourses] = useState<
+    { course_id: number; course_code: string; course_name: string }[]
+  >([]);
+  const [studentId, setStudentId] = useState("");
+  const [courseId, setCourseId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [entries, setEntries] = useState<AttendanceAuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAllStudents()
+      .then(setStudents)
+      .catch((error) => console.error("Error loading students:", error));
+    fetchAllCourses()
+      .then(setCourses)
+      .catch((error) => console.error("Error loading courses:", error));
+  }, []);
+
+  useEffect(() => {
+    if (studentId || courseId) loadEntries();
+  }, [studentId, courseId, from, to]);
+
+  const loadEntries = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setEntries(
+        await fetchAttendanceAuditLog({
+          studentId: studentId ? Number(studentId) : undefined,
+          courseId: courseId ? Number(courseId) : undefined,
+          from: from || undefined,
+          to: to || undefined,
+        })
+      );
+    } catch (error: any) {
+      console.error("Error loading attendance audit log:", error);
+      setError(error?.response?.data?.message || "Failed to load the audit log.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-indigo-50 to-purple-50 p-4 sm:p-6 md:p-8">
+      <div className="mb-6 sm:mb-8">
+        <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent mb-2">
+          🧾 Attendance Audit
+        </h1>
+        <p className="text-sm sm:text-base text-gray-600">
+          Every attendance record created, changed or deleted, with who did it
+          and why. The log can't be edited.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <div className="flex items-center">
+            <span className="text-2xl mr-3">⚠️</span>
+            <p className="text-red-700 font-medium">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6 mb-6 flex flex-wrap gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Student</label>
+          <select
+            value={studentId}
+            onChange={(e) => setStudentId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm max-w-xs"
+          >
+            <option value="">All students</option>
+            {students.map((student) => (
+              <option key={student.student_id} value={student.student_id}>
+                {student.name} ({student.roll_number})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Course</label>
+          <select
+            value={courseId}
+            onChange={(e) => setCourseId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm max-w-xs"
+          >
+            <option value="">All courses</option>
+            {courses.map((course) => (
+              <option key={course.course_id} value={course.course_id}>
+                {course.course_code} - {course.course_name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Changed from</label>
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">to</label>
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6 overflow-x-auto">
+        {!studentId && !courseId ? (
+          <p className="text-sm text-gray-400">Choose a student or a course.</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            {loading ? "Loading..." : "No attendance changes found."}
+          </p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase border-b">
+                <th className="py-2 pr-4">Changed</th>
+                <th className="py-2 pr-4">Student</th>
+                <th className="py-2 pr-4">Class</th>
+                <th className="py-2 pr-4">Change</th>
+                <th className="py-2 pr-4">By</th>
+                <th className="py-2">Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.audit_id} className="border-b border-gray-100 align-top">
+                  <td className="py-2 pr-4 whitespace-nowrap">
+                    {new Date(entry.changed_at).toLocaleString()}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {entry.student_name
+                      ? `${entry.student_name} (${entry.roll_number})`
+                      : `Student #${entry.student_id}`}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {entry.course_code || "—"}
+                    {entry.date && (
+                      <span className="text-xs text-gray-500 block">
+                        {new Date(entry.date).toLocaleDateString()}
+                        {entry.table_name === "smart_attendance_records" && " · smart"}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 whitespace-nowrap">
+                    <span
+                      className={`text-xs font-semibold px-2 py-0.5 rounded-full mr-2 ${ACTION_STYLES[entry.action]}`}
+                    >
+                      {entry.action}
+                    </span>
+                    {entry.action === "insert"
+                      ? label(entry.new_status)
+                      : entry.action === "delete"
+                      ? label(entry.old_status)
+                      : `${label(entry.old_status)} → ${label(entry.new_status)}`}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {entry.actor_email || "System"}
+                    <span className="text-xs text-gray-500 block">
+                      {SOURCE_LABELS[entry.source] || entry.source}
+                    </span>
+                  </td>
+                  <td className="py-2 text-gray-700">{entry.reason || "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AttendanceAudit;
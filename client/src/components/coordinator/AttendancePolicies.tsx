@@ -0,0 +1,598 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  fetchAttendancePolicies,
+  saveAttendancePolicy,
+  deleteAttendancePolicy,
+  fetchEffectiveAttendancePolicy,
+  fetchAllDepartments,
+  fetchAllCourses,
+  fetchTimetable,
+  AttendancePolicy,
+  EffectiveAttendancePolicy,
+  PolicyScope,
+  PolicySettings,
+  VerificationFactor,
+} from "../../services/api";
+import AttendanceStatusRules from "./AttendanceStatusRules";
+
+const SCOPE_LABELS: Record<PolicyScope | "default", string> = {
+  institution: "🏛️ Institution",
+  department: "🏢 Department",
+  course: "📚 Course",
+  session: "⏱️ Session",
+  default: "⚙️ Built-in default",
+};
+
+const FACTOR_LABELS: Record<VerificationFactor, string> = {
+  face: "🙂 Face match",
+  liveness: "👁️ Liveness challenge",
+  location: "📍 Geofence",
+};
+
+const NUMBER_FIELDS: {
+  key: Exclude<keyof PolicySettings, "required_factors">;
+  label: string;
+  unit: string;
+  step: string;
+}[] = [
+  { key: "geofence_radius_meters", label: "Geofence radius", unit: "m", step: "1" },
+  { key: "face_match_threshold", label: "Face match threshold", unit: "0.30-0.99", step: "0.01" },
+  { key: "qr_lifetime_seconds", label: "QR lifetime", unit: "s", step: "1" },
+  { key: "scan_timeout_seconds", label: "Face step timeout", unit: "s", step: "1" },
+  { key: "min_attendance_percentage", label: "Minimum attendance", unit: "%", step: "0.5" },
+];
+
+type PolicyForm = Record<(typeof NUMBER_FIELDS)[number]["key"], string> & {
+  inheritFactors: boolean;
+  required_factors: VerificationFactor[];
+  notes: string;
+};
+
+const emptyForm: PolicyForm = {
+  geofence_radius_meters: "",
+  face_match_threshold: "",
+  qr_lifetime_seconds: "",
+  scan_timeout_seconds: "",
+  min_attendance_percentage: "",
+  inheritFactors: true,
+  required_factors: [],
+  notes: "",
+};
+
+const formFromPolicy = (policy: AttendancePolicy): PolicyForm => ({
+  geofence_radius_meters: policy.geofence_radius_meters?.toString() ?? "",
+  face_match_threshold: policy.face_match_threshold?.toString() ?? "",
+  qr_lifetime_seconds: policy.qr_lifetime_seconds?.toString() ?? "",
+  scan_timeout_seconds: policy.scan_timeout_seconds?.toString() ?? "",
+  min_attendance_percentage: policy.min_attendance_percentage?.toString() ?? "",
+  inheritFactors: policy.required_factors === null,
+  required_factors: policy.required_factors || [],
+  notes: policy.notes || "",
+});
+
+const targetLabel = (policy: AttendancePolicy) => {
+  switch (policy.scope) {
+    case "institution":
+      return "All classes";
+    case "department":
+      return policy.department?.name || `Department #${policy.department_id}`;
+    case "course":
+      return policy.course
+        ? `${policy.course.course_code} - ${policy.course.course_name}`
+        : `Course #${policy.course_id}`;
+    case "session":
+      return `Session ${policy.session_id}`;
+  }
+};
+
+const formatSetting = (key: keyof PolicySettings, value: any) => {
+  if (value === null || value === undefined) return "inherit";
+  if (key === "required_factors") {
+    return value.length ? value.map((f: VerificationFactor) => FACTOR_LABELS[f]).join(", ") : "QR only";
+  }
+  const field = NUMBER_FIELDS.find((f) => f.key === key)!;
+  return field.unit.startsWith("0") ? String(value) : `${Number(value)}${field.unit}`;
+};
+
+// Coordinator screen for attendance policies and the policy each class ends up with
+const AttendancePolicies: React.FC = () => {
+  const [policies, setPolicies] = useState<AttendancePolicy[]>([]);
+  const [departments, setDepartments] = useState<{ department_id: number; name: string }[]>([]);
+  const [courses, setCourses] = useState<
+    { course_id: number; course_code: string; course_name: string }[]
+  >([]);
+  const [classes, setClasses] = useState<any[]>([]);
+
+  const [scope, setScope] = useState<PolicyScope>("institution");
+  const [targetId, setTargetId] = useState("");
+  const [form, setForm] = useState<PolicyForm>({ ...emptyForm });
+
+  const [lookup, setLookup] = useState({ course_id: "", schedule_id: "", session_id: "" });
+  const [effective, setEffective] = useState<EffectiveAttendancePolicy | null>(null);
+  const [effectiveLabel, setEffectiveLabel] = useState("");
+
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPolicies();
+    fetchAllDepartments()
+      .then(setDepartments)
+      .catch((error) => console.error("Error loading departments:", error));
+    fetchAllCourses()
+      .then(setCourses)
+      .catch((error) => console.error("Error loading courses:", error));
+    fetchTimetable()
+      .then(setClasses)
+      .catch((error) => console.error("Error loading classes:", error));
+  }, []);
+
+  const loadPolicies = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setPolicies(await fetchAttendancePolicies());
+    } catch (error) {
+      console.error("Error loading attendance policies:", error);
+      setError("Failed to load attendance policies. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The policy being edited, if one already exists for the chosen target
+  const existing = useMemo(
+    () =>
+      policies.find((p) => {
+        if (p.scope !== scope) return false;
+        if (scope === "department") return String(p.department_id) === targetId;
+        if (scope === "course") return String(p.course_id) === targetId;
+        if (scope === "session") return p.session_id === targetId.trim();
+        return true;
+      }),
+    [policies, scope, targetId]
+  );
+
+  useEffect(() => {
+    setForm(existing ? formFromPolicy(existing) : { ...emptyForm });
+  }, [existing]);
+
+  const editPolicy = (policy: AttendancePolicy) => {
+    setScope(policy.scope);
+    setTargetId(
+      String(policy.department_id ?? policy.course_id ?? policy.session_id ?? "")
+    );
+    setSuccess(null);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (scope !== "institution" && !targetId.trim()) {
+      setError(`Choose a ${scope} first`);
+      return;
+    }
+
+    const settings: PolicySettings = {
+      geofence_radius_meters: form.geofence_radius_meters ? Number(form.geofence_radius_meters) : null,
+      face_match_threshold: form.face_match_threshold ? Number(form.face_match_threshold) : null,
+      qr_lifetime_seconds: form.qr_lifetime_seconds ? Number(form.qr_lifetime_seconds) : null,
+      scan_timeout_seconds: form.scan_timeout_seconds ? Number(form.scan_timeout_seconds) : null,
+      min_attendance_percentage: form.min_attendance_percentage
+        ? Number(form.min_attendance_percentage)
+        : null,
+      required_factors: form.inheritFactors ? null : form.required_factors,
+    };
+
+    try {
+      setLoading(true);
+      setError(null);
+      setSuccess(null);
+      await saveAttendancePolicy(
+        {
+          ...settings,
+          scope,
+          department_id: scope === "department" ? Number(targetId) : null,
+          course_id: scope === "course" ? Number(targetId) : null,
+          session_id: scope === "session" ? targetId.trim() : null,
+          notes: form.notes,
+        },
+        existing?.policy_id
+      );
+      setSuccess("Policy saved");
+      await loadPolicies();
+    } catch (error: any) {
+      console.error("Error saving attendance policy:", error);
+      setError(`Failed to save policy: ${error?.response?.data?.message || error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (policy: AttendancePolicy) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await deleteAttendancePolicy(policy.policy_id);
+      await loadPolicies();
+    } catch (error: any) {
+      console.error("Error deleting attendance policy:", error);
+      setError(`Failed to delete policy: ${error?.response?.data?.message || error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setLoading(true);
+      setError(null);
+      const params = lookup.session_id.trim()
+        ? { session_id: lookup.session_id.trim() }
+        : lookup.schedule_id
+        ? { schedule_id: lookup.schedule_id }
+        : lookup.course_id
+        ? { course_id: lookup.course_id }
+        : {};
+      const result = await fetchEffectiveAttendancePolicy(params);
+      setEffective(result.policy);
+      setEffectiveLabel(
+        result.target.session_id
+          ? `Session ${result.target.session_id}`
+          : result.target.course
+          ? `${result.target.course.course_code} - ${result.target.course.course_name}${
+              result.target.schedule_id ? ` (class #${result.target.schedule_id})` : ""
+            }`
+          : "Institution defaults"
+      );
+    } catch (error: any) {
+      console.error("Error resolving attendance policy:", error);
+      setError(`Failed to load the effective policy: ${error?.response?.data?.message || error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const courseClasses = classes.filter((c) => c.courseId === lookup.course_id);
+  const inheritPlaceholder = scope === "institution" ? "Required" : "Inherit";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-indigo-50 to-sky-50 p-4 sm:p-6 md:p-8">
+      {/* Header */}
+      <div className="mb-6 sm:mb-8">
+        <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-indigo-600 to-sky-600 bg-clip-text text-transparent mb-2">
+          📏 Attendance Policies
+        </h1>
+        <p className="text-sm sm:text-base text-gray-600">
+          Each setting is taken from the most specific policy that sets it:
+          session, then course, then department, then the institution. Leave a
+          field empty to inherit it.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <div className="flex items-center">
+            <span className="text-2xl mr-3">⚠️</span>
+            <p className="text-red-700 font-medium">{error}</p>
+          </div>
+        </div>
+      )}
+      {success && (
+        <div className="mb-6 bg-green-50 border-l-4 border-green-500 p-4 rounded-lg">
+          <p className="text-green-700 font-medium">✅ {success}</p>
+        </div>
+      )}
+
+      {/* Editor */}
+      <form onSubmit={handleSave} className="bg-white rounded-2xl shadow-xl p-4 sm:p-6 mb-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">
+          {existing ? "✏️ Edit Policy" : "➕ New Policy"}
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Applies to</label>
+            <select
+              value={scope}
+              onChange={(e) => {
+                setScope(e.target.value as PolicyScope);
+                setTargetId("");
+                setSuccess(null);
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              disabled={loading}
+            >
+              {(["institution", "department", "course", "session"] as PolicyScope[]).map((s) => (
+                <option key={s} value={s}>{SCOPE_LABELS[s]}</option>
+              ))}
+            </select>
+          </div>
+          {scope === "department" && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Department</label>
+              <select
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                disabled={loading}
+              >
+                <option value="">Choose a department</option>
+                {departments.map((dept) => (
+                  <option key={dept.department_id} value={dept.department_id}>{dept.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {scope === "course" && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Course</label>
+              <select
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                disabled={loading}
+              >
+                <option value="">Choose a course</option>
+                {courses.map((course) => (
+                  <option key={course.course_id} value={course.course_id}>
+                    {course.course_code} - {course.course_name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {scope === "session" && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Session ID</label>
+              <input
+                type="text"
+                placeholder="From the teacher's smart-attendance screen"
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                disabled={loading}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-4">
+          {NUMBER_FIELDS.filter(
+            (field) => !(scope === "session" && field.key === "min_attendance_percentage")
+          ).map((field) => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {field.label} <span className="text-xs text-gray-400">({field.unit})</span>
+              </label>
+              <input
+                type="number"
+                step={field.step}
+                placeholder={inheritPlaceholder}
+                value={form[field.key]}
+                onChange={(e) => setForm({ ...form, [field.key]: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                required={scope === "institution"}
+                disabled={loading}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="mb-4">
+          <p className="block text-sm font-medium text-gray-700 mb-2">
+            Required checks besides the QR code
+          </p>
+          <div className="flex flex-wrap gap-4 items-center text-sm">
+            {scope !== "institution" && (
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={form.inheritFactors}
+                  onChange={(e) => setForm({ ...form, inheritFactors: e.target.checked })}
+                  disabled={loading}
+                />
+                Inherit
+              </label>
+            )}
+            {(Object.keys(FACTOR_LABELS) as VerificationFactor[]).map((factor) => (
+              <label
+                key={factor}
+                className={`flex items-center gap-2 ${
+                  form.inheritFactors && scope !== "institution" ? "opacity-50" : ""
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={form.required_factors.includes(factor)}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      inheritFactors: false,
+                      required_factors: e.target.checked
+                        ? [...form.required_factors, factor]
+                        : form.required_factors.filter((f) => f !== factor),
+                    })
+                  }
+                  disabled={loading}
+                />
+                {FACTOR_LABELS[factor]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-4 items-end">
+          <div className="flex-1 min-w-[200px]">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+            <input
+              type="text"
+              placeholder="Why this policy differs (optional)"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              disabled={loading}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={loading}
+            className="bg-gradient-to-r from-indigo-600 to-sky-600 hover:from-indigo-700 hover:to-sky-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+          >
+            💾 Save Policy
+          </button>
+        </div>
+      </form>
+
+      {/* Existing policies */}
+      <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6 mb-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">📋 Policies</h2>
+        {policies.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            {loading ? "Loading..." : "No policies yet: the built-in defaults apply everywhere."}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-4">Scope</th>
+                  <th className="py-2 pr-4">Applies to</th>
+                  {NUMBER_FIELDS.map((field) => (
+                    <th key={field.key} className="py-2 pr-4">{field.label}</th>
+                  ))}
+                  <th className="py-2 pr-4">Required checks</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {policies.map((policy) => (
+                  <tr key={policy.policy_id} className="border-b last:border-0">
+                    <td className="py-2 pr-4 whitespace-nowrap">{SCOPE_LABELS[policy.scope]}</td>
+                    <td className="py-2 pr-4">{targetLabel(policy)}</td>
+                    {NUMBER_FIELDS.map((field) => (
+                      <td
+                        key={field.key}
+                        className={`py-2 pr-4 ${policy[field.key] === null ? "text-gray-400" : ""}`}
+                      >
+                        {formatSetting(field.key, policy[field.key])}
+                      </td>
+                    ))}
+                    <td className={`py-2 pr-4 ${policy.required_factors === null ? "text-gray-400" : ""}`}>
+                      {formatSetting("required_factors", policy.required_factors)}
+                    </td>
+                    <td className="py-2 whitespace-nowrap text-right">
+                      <button
+                        onClick={() => editPolicy(policy)}
+                        disabled={loading}
+                        className="text-xs text-indigo-600 hover:text-indigo-800 mr-3"
+                      >
+                        Edit
+                      </button>
+                      {policy.scope !== "institution" && (
+                        <button
+                          onClick={() => handleDelete(policy)}
+                          disabled={loading}
+                          className="text-xs text-gray-500 hover:text-red-600"
+                          title="Remove and inherit again"
+                        >
+                          ✕
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Status rules */}
+      <AttendanceStatusRules />
+
+      {/* Effective policy lookup */}
+      <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">🔎 Effective Policy for a Class</h2>
+        <form onSubmit={handleLookup} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Course</label>
+            <select
+              value={lookup.course_id}
+              onChange={(e) => setLookup({ ...lookup, course_id: e.target.value, schedule_id: "" })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              disabled={loading}
+            >
+              <option value="">Institution defaults</option>
+              {courses.map((course) => (
+                <option key={course.course_id} value={course.course_id}>
+                  {course.course_code} - {course.course_name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Class</label>
+            <select
+              value={lookup.schedule_id}
+              onChange={(e) => setLookup({ ...lookup, schedule_id: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              disabled={loading || !lookup.course_id}
+            >
+              <option value="">Any class of the course</option>
+              {courseClasses.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.dayOfWeek} {c.startTime}-{c.endTime} {c.classroom && `· ${c.classroom}`}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">or Session ID</label>
+            <input
+              type="text"
+              placeholder="Optional"
+              value={lookup.session_id}
+              onChange={(e) => setLookup({ ...lookup, session_id: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              disabled={loading}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={loading}
+            className="bg-gradient-to-r from-indigo-600 to-sky-600 hover:from-indigo-700 hover:to-sky-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+          >
+            Show Effective Policy
+          </button>
+        </form>
+
+        {effective && (
+          <div>
+            <p className="text-sm font-semibold text-gray-800 mb-3">{effectiveLabel}</p>
+            <ul className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {[...NUMBER_FIELDS.map((f) => ({ key: f.key, label: f.label })), {
+                key: "required_factors" as const,
+                label: "Required checks",
+              }].map(({ key, label }) => (
+                <li
+                  key={key}
+                  className="flex items-center justify-between text-sm px-3 py-2 rounded-lg bg-gray-50"
+                >
+                  <span>
+                    <span className="text-gray-600">{label}:</span>{" "}
+                    <span className="font-semibold">{formatSetting(key, effective[key])}</span>
+                  </span>
+                  <span className="text-xs text-gray-500">{SCOPE_LABELS[effective.sources[key]]}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AttendancePolicies;
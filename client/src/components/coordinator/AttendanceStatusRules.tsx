@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from "react";
+import {
+  fetchAttendanceStatusRules,
+  saveAttendanceStatusRule,
+  AttendanceStatusRule,
+} from "../../services/api";
+
+// How late, excused, on-duty and medical classes count towards attendance percentages
+const AttendanceStatusRules: React.FC = () => {
+  const [rules, setRules] = useState<AttendanceStatusRule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setRules(await fetchAttendanceStatusRules());
+    } catch (error) {
+      console.error("Error loading attendance status rules:", error);
+      setError("Failed to load status rules. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateRule = (status: string, changes: Partial<AttendanceStatusRule>) =>
+    setRules(rules.map((rule) => (rule.status === status ? { ...rule, ...changes } : rule)));
+
+  const handleSave = async (rule: AttendanceStatusRule) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSuccess(null);
+      await saveAttendanceStatusRule(rule.status, {
+        label: rule.label,
+        counts_towards_total: rule.counts_towards_total,
+        weight: Number(rule.weight),
+      });
+      setSuccess(`Saved the rule for ${rule.label}.`);
+      await loadRules();
+    } catch (error: any) {
+      console.error("Error saving attendance status rule:", error);
+      setError(`Failed to save rule: ${error?.response?.data?.message || error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6 mb-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-1">🏷️ Attendance Statuses</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Whether each status counts towards attendance percentages, and how much of a class it
+        credits as attended (1 = present, 0 = absent). Statuses that don't count are left out
+        of the percentage entirely.
+      </p>
+
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+      {success && <p className="mb-3 text-sm text-green-700">{success}</p>}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 pr-4">Status</th>
+              <th className="py-2 pr-4">Label</th>
+              <th className="py-2 pr-4">Counts towards %</th>
+              <th className="py-2 pr-4">Credit (0-1)</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map((rule) => (
+              <tr key={rule.status} className="border-b last:border-0">
+                <td className="py-2 pr-4 font-mono text-xs">{rule.status}</td>
+                <td className="py-2 pr-4">
+                  <input
+                    type="text"
+                    value={rule.label}
+                    onChange={(e) => updateRule(rule.status, { label: e.target.value })}
+                    className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                    disabled={loading}
+                  />
+                </td>
+                <td className="py-2 pr-4">
+                  <input
+                    type="checkbox"
+                    checked={rule.counts_towards_total}
+                    onChange={(e) =>
+                      updateRule(rule.status, { counts_towards_total: e.target.checked })
+                    }
+                    disabled={loading}
+                  />
+                </td>
+                <td className="py-2 pr-4">
+                  <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={rule.weight}
+                    onChange={(e) => updateRule(rule.status, { weight: e.target.value as any })}
+                    className="w-24 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                    disabled={loading || !rule.counts_towards_total}
+                  />
+                </td>
+                <td className="py-2 text-right">
+                  <button
+                    onClick={() => handleSave(rule)}
+                    disabled={loading}
+                    className="text-xs text-indigo-600 hover:text-indigo-800"
+                  >
+                    Save
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AttendanceStatusRules;
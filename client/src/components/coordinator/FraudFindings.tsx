@@ -0,0 +1,404 @@
+import React, { useEffect, useState } from "react";
+import {
+  fetchFraudFinding,
+  fetchFraudFindings,
+  fetchScanEvidence,
+  FraudFinding,
+  FraudFindingDetail,
+  FraudFindingStatus,
+  FraudFindingType,
+  reviewFraudFinding,
+  runFraudAnalysis,
+} from "../../services/api";
+
+const TYPE_LABELS: Record<FraudFindingType, string> = {
+  co_located_scans: "📍 Scanned together from one spot",
+  shared_face: "🧑‍🤝‍🧑 One face, several students",
+  far_from_session: "🛰️ Far from the class",
+  photo_absent: "📷 Missing from class photos",
+};
+
+const STATUS_STYLES: Record<FraudFindingStatus, string> = {
+  open: "bg-amber-100 text-amber-700",
+  confirmed: "bg-red-100 text-red-700",
+  dismissed: "bg-gray-100 text-gray-600",
+};
+
+const scoreStyle = (score: number) =>
+  score >= 75
+    ? "bg-red-600 text-white"
+    : score >= 50
+    ? "bg-amber-500 text-white"
+    : "bg-gray-200 text-gray-700";
+
+const studentLabel = (finding: FraudFinding, studentId: number) => {
+  const student = finding.students.find((s) => s.student_id === studentId);
+  return student ? `${student.name} (${student.roll_number})` : `Student #${studentId}`;
+};
+
+// Scored proxy-attendance findings with drill-down to the scans behind them
+const FraudFindings: React.FC = () => {
+  const [findings, setFindings] = useState<FraudFinding[]>([]);
+  const [status, setStatus] = useState<FraudFindingStatus | "all">("open");
+  const [type, setType] = useState("");
+  const [minScore, setMinScore] = useState(0);
+  const [selected, setSelected] = useState<FraudFindingDetail | null>(null);
+  const [evidence, setEvidence] = useState<Record<number, string>>({});
+  const [note, setNote] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadFindings();
+  }, [status, type, minScore]);
+
+  const loadFindings = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await fetchFraudFindings({
+        status,
+        type: type || undefined,
+        minScore: minScore || undefined,
+      });
+      setFindings(data);
+    } catch (error) {
+      console.error("Error loading fraud findings:", error);
+      setError("Failed to load findings. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAnalyse = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await runFraudAnalysis();
+      setMessage(
+        `Analysed ${result.scansAnalysed} scans from ${result.sessionsAnalysed} sessions: ${result.created} new, ${result.updated} updated, ${result.reopened} reopened.`
+      );
+      await loadFindings();
+    } catch (error: any) {
+      console.error("Error running fraud analysis:", error);
+      setError(
+        `Failed to run analysis: ${error?.response?.data?.message || error.message}`
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openFinding = async (findingId: number) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const detail = await fetchFraudFinding(findingId);
+      setSelected(detail);
+      setEvidence({});
+      setNote(detail.review_note || "");
+    } catch (error) {
+      console.error("Error loading fraud finding:", error);
+      setError("Failed to load the finding's scans.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showEvidence = async (scanId: number) => {
+    try {
+      const image = await fetchScanEvidence(scanId);
+      setEvidence({ ...evidence, [scanId]: image.thumbnailUrl });
+    } catch (error: any) {
+      setError(error?.response?.data?.message || "No image available for this scan.");
+    }
+  };
+
+  const handleReview = async (reviewStatus: FraudFindingStatus) => {
+    if (!selected) return;
+    try {
+      setLoading(true);
+      setError(null);
+      await reviewFraudFinding(selected.finding_id, reviewStatus, note);
+      setSelected(null);
+      await loadFindings();
+    } catch (error: any) {
+      console.error("Error reviewing fraud finding:", error);
+      setError(
+        `Failed to save review: ${error?.response?.data?.message || error.message}`
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-amber-50 to-orange-50 p-4 sm:p-6 md:p-8">
+      {/* Header */}
+      <div className="mb-6 sm:mb-8">
+        <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-amber-600 to-orange-600 bg-clip-text text-transparent mb-2">
+          🕵️ Proxy Attendance Review
+        </h1>
+        <p className="text-sm sm:text-base text-gray-600">
+          Patterns in smart-attendance scans that suggest students marking
+          attendance for each other. Higher scores are more suspicious.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <div className="flex items-center">
+            <span className="text-2xl mr-3">⚠️</span>
+            <p className="text-red-700 font-medium">{error}</p>
+          </div>
+        </div>
+      )}
+      {message && (
+        <div className="mb-6 bg-green-50 border-l-4 border-green-500 p-4 rounded-lg">
+          <p className="text-green-700 font-medium">{message}</p>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6 mb-6 flex flex-wrap gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Status</label>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as FraudFindingStatus | "all")}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            disabled={loading}
+          >
+            <option value="open">Open</option>
+            <option value="confirmed">Confirmed</option>
+            <option value="dismissed">Dismissed</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Pattern</label>
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            disabled={loading}
+          >
+            <option value="">All patterns</option>
+            {(Object.keys(TYPE_LABELS) as FraudFindingType[]).map((key) => (
+              <option key={key} value={key}>{TYPE_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Minimum score: {minScore}
+          </label>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={10}
+            value={minScore}
+            onChange={(e) => setMinScore(parseInt(e.target.value, 10))}
+            disabled={loading}
+          />
+        </div>
+        <button
+          onClick={loadFindings}
+          disabled={loading}
+          className="bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-60 text-gray-700 px-4 py-2 rounded-lg font-semibold text-sm"
+        >
+          🔄 Refresh
+        </button>
+        <button
+          onClick={handleAnalyse}
+          disabled={loading}
+          className="bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+        >
+          🔍 Run analysis now
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Findings */}
+        <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6">
+          {findings.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              {loading ? "Loading..." : "No findings to review."}
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {findings.map((finding) => (
+                <li
+                  key={finding.finding_id}
+                  onClick={() => openFinding(finding.finding_id)}
+                  className={`border rounded-xl p-4 cursor-pointer hover:bg-amber-50 ${
+                    selected?.finding_id === finding.finding_id
+                      ? "border-amber-500"
+                      : "border-gray-200"
+                  }`}
+                >
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <span className={`text-xs font-bold px-2 py-1 rounded-full ${scoreStyle(finding.score)}`}>
+                      {finding.score}
+                    </span>
+                    <span className="font-semibold text-gray-800">
+                      {TYPE_LABELS[finding.finding_type] || finding.finding_type}
+                    </span>
+                    <span className={`text-xs font-semibold px-2 py-1 rounded-full ${STATUS_STYLES[finding.status]}`}>
+                      {finding.status}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700">{finding.summary}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    👥 {finding.student_ids.map((id) => studentLabel(finding, id)).join(", ")}
+                  </p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    Last seen {new Date(finding.last_detected_at).toLocaleString()}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Drill-down */}
+        <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6">
+          {!selected ? (
+            <p className="text-sm text-gray-400">
+              Select a finding to see the scans behind it.
+            </p>
+          ) : (
+            <div>
+              <h2 className="text-lg font-bold text-gray-800 mb-1">
+                {TYPE_LABELS[selected.finding_type]}
+              </h2>
+              <p className="text-sm text-gray-700 mb-3">{selected.summary}</p>
+              {selected.details && (
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {Object.entries(selected.details).map(([key, value]) => (
+                    <span key={key} className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">
+                      {key}: {String(value)}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              <div className="overflow-x-auto mb-4">
+                <table className="min-w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-3">Student</th>
+                      <th className="py-2 pr-3">Session</th>
+                      <th className="py-2 pr-3">Scanned</th>
+                      <th className="py-2 pr-3">Location</th>
+                      <th className="py-2 pr-3">Distance</th>
+                      <th className="py-2 pr-3">Face</th>
+                      <th className="py-2">Image</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {selected.scans.map((scan) => (
+                      <tr key={scan.scan_id} className="border-b border-gray-100 align-top">
+                        <td className="py-2 pr-3">{studentLabel(selected, scan.student_id)}</td>
+                        <td className="py-2 pr-3 font-mono">{scan.session_id.slice(0, 8)}</td>
+                        <td className="py-2 pr-3">
+                          {new Date(scan.scan_timestamp).toLocaleString()}
+                        </td>
+                        <td className="py-2 pr-3 font-mono">
+                          {scan.location_lat != null
+                            ? `${Number(scan.location_lat).toFixed(5)}, ${Number(scan.location_lng).toFixed(5)}`
+                            : "—"}
+                        </td>
+                        <td className="py-2 pr-3">
+                          {scan.distance_from_class != null
+                            ? `${Math.round(Number(scan.distance_from_class))}m`
+                            : "—"}
+                        </td>
+                        <td className="py-2 pr-3">
+                          {scan.face_match_confidence != null
+                            ? `${(Number(scan.face_match_confidence) * 100).toFixed(0)}%`
+                            : "—"}
+                        </td>
+                        <td className="py-2">
+                          {evidence[scan.scan_id] ? (
+                            <img
+                              src={evidence[scan.scan_id]}
+                              alt={`Scan ${scan.scan_id}`}
+                              className="w-16 h-16 object-cover rounded"
+                            />
+                          ) : scan.image_purged_at ? (
+                            <span className="text-gray-400">Purged</span>
+                          ) : (
+                            <button
+                              onClick={() => showEvidence(scan.scan_id)}
+                              className="text-amber-700 hover:underline"
+                            >
+                              View
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {selected.scans.length === 0 && (
+                  <p className="text-xs text-gray-400 mt-2">
+                    Based on enrolled faces only; no scans are involved.
+                  </p>
+                )}
+              </div>
+
+              {selected.reviewed_at && (
+                <p className="mb-3 text-xs text-gray-600">
+                  Reviewed {new Date(selected.reviewed_at).toLocaleString()}
+                  {selected.reviewer?.email && ` by ${selected.reviewer.email}`}
+                </p>
+              )}
+              <div className="flex flex-wrap gap-2">
+                <input
+                  type="text"
+                  placeholder="Review note (optional)"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  className="flex-1 min-w-[200px] px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  disabled={loading}
+                />
+                {selected.status !== "confirmed" && (
+                  <button
+                    onClick={() => handleReview("confirmed")}
+                    disabled={loading}
+                    className="bg-red-600 hover:bg-red-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+                  >
+                    🚩 Confirm
+                  </button>
+                )}
+                {selected.status !== "dismissed" && (
+                  <button
+                    onClick={() => handleReview("dismissed")}
+                    disabled={loading}
+                    className="bg-gray-600 hover:bg-gray-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+                  >
+                    ✖ Dismiss
+                  </button>
+                )}
+                {selected.status !== "open" && (
+                  <button
+                    onClick={() => handleReview("open")}
+                    disabled={loading}
+                    className="bg-amber-600 hover:bg-amber-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+                  >
+                    ↺ Reopen
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FraudFindings;
@@ -0,0 +1,579 @@
+import React, { useEffect, useState, useMemo } from "react";
+import {
+  fetchRooms,
+  createRoom,
+  updateRoom,
+  deleteRoom,
+  fetchAllDepartments,
+  Room,
+} from "../../services/api";
+
+const ROOM_TYPE_LABELS: { [key: string]: string } = {
+  lecture: "🏫 Lecture Hall",
+  lab: "🖥️ Lab",
+  seminar: "💬 Seminar Room",
+};
+
+const COMMON_EQUIPMENT = ["projector", "computers", "smart_board", "audio", "ac"];
+
+const emptyForm = {
+  room_code: "",
+  building: "",
+  floor: "",
+  capacity: "",
+  room_type: "lecture",
+  equipment: "",
+  department_id: "",
+  is_active: true,
+};
+
+const RoomManagement: React.FC = () => {
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [departments, setDepartments] = useState<any[]>([]);
+  const [form, setForm] = useState({ ...emptyForm });
+  const [editingRoomId, setEditingRoomId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filterType, setFilterType] = useState<string>("");
+  const [filterBuilding, setFilterBuilding] = useState<string>("");
+  const [searchQuery, setSearchQuery] = useState<string>("");
+  const [showAddModal, setShowAddModal] = useState(false);
+
+  useEffect(() => {
+    loadRooms();
+    loadDepartments();
+  }, []);
+
+  const loadDepartments = async () => {
+    try {
+      const data = await fetchAllDepartments();
+      setDepartments(data);
+    } catch (error) {
+      console.error("Error loading departments:", error);
+    }
+  };
+
+  const loadRooms = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await fetchRooms();
+      setRooms(data);
+    } catch (error) {
+      console.error("Error loading rooms:", error);
+      setError("Failed to load rooms. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.room_code.trim() || !form.building.trim() || !form.capacity) {
+      setError("Room code, building and capacity are required");
+      return;
+    }
+
+    const payload: Partial<Room> = {
+      room_code: form.room_code.trim(),
+      building: form.building.trim(),
+      floor: form.floor !== "" ? parseInt(form.floor) : null,
+      capacity: parseInt(form.capacity),
+      room_type: form.room_type as Room["room_type"],
+      equipment: form.equipment
+        .split(",")
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean),
+      department_id: form.department_id ? parseInt(form.department_id) : null,
+      is_active: form.is_active,
+    };
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (editingRoomId) {
+        await updateRoom(editingRoomId, payload);
+      } else {
+        await createRoom(payload);
+      }
+
+      handleCancel();
+      setShowAddModal(false);
+      await loadRooms();
+    } catch (error: any) {
+      console.error("Error saving room:", error);
+      setError(
+        `Failed to save room: ${
+          error?.response?.data?.message || error.message
+        }`
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (room: Room) => {
+    setForm({
+      room_code: room.room_code,
+      building: room.building,
+      floor: room.floor !== null && room.floor !== undefined ? String(room.floor) : "",
+      capacity: String(room.capacity),
+      room_type: room.room_type,
+      equipment: (room.equipment || []).join(", "),
+      department_id: room.department_id ? String(room.department_id) : "",
+      is_active: room.is_active,
+    });
+    setEditingRoomId(room.room_id);
+    setError(null);
+    setShowAddModal(true);
+  };
+
+  const handleDelete = async (room: Room) => {
+    if (!window.confirm(`Delete room "${room.room_code}"?`)) {
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      await deleteRoom(room.room_id);
+      await loadRooms();
+    } catch (error) {
+      console.error("Error deleting room:", error);
+      setError("Failed to delete room. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setEditingRoomId(null);
+    setForm({ ...emptyForm });
+    setError(null);
+  };
+
+  const toggleEquipment = (tag: string) => {
+    const tags = form.equipment
+      .split(",")
+      .map((t) => t.trim())
+      .filter(Boolean);
+    const next = tags.includes(tag)
+      ? tags.filter((t) => t !== tag)
+      : [...tags, tag];
+    setForm({ ...form, equipment: next.join(", ") });
+  };
+
+  const buildings = useMemo(
+    () => Array.from(new Set(rooms.map((room) => room.building))).sort(),
+    [rooms]
+  );
+
+  const filteredRooms = useMemo(() => {
+    return rooms.filter((room) => {
+      const searchMatch =
+        !searchQuery ||
+        room.room_code.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        room.building.toLowerCase().includes(searchQuery.toLowerCase());
+      const typeMatch = !filterType || room.room_type === filterType;
+      const buildingMatch = !filterBuilding || room.building === filterBuilding;
+      return searchMatch && typeMatch && buildingMatch;
+    });
+  }, [rooms, searchQuery, filterType, filterBuilding]);
+
+  const stats = useMemo(() => {
+    const active = rooms.filter((room) => room.is_active);
+    return {
+      total: rooms.length,
+      labs: active.filter((room) => room.room_type === "lab").length,
+      seats: active.reduce((sum, room) => sum + room.capacity, 0),
+      inactive: rooms.length - active.length,
+    };
+  }, [rooms]);
+
+  if (loading && rooms.length === 0) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-amber-50 to-orange-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-xl p-8 flex flex-col items-center gap-4">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-amber-600"></div>
+          <div className="text-xl font-semibold text-gray-700">Loading Rooms...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-amber-50 to-orange-50 p-4 sm:p-6 md:p-8">
+      {/* Header */}
+      <div className="mb-6 sm:mb-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl sm:text-4xl md:text-5xl font-bold bg-gradient-to-r from-amber-600 via-orange-600 to-red-600 bg-clip-text text-transparent mb-2">
+              🚪 Room Management
+            </h1>
+            <p className="text-sm sm:text-base md:text-lg text-gray-600">
+              Rooms and labs used by the timetable generator
+            </p>
+          </div>
+          <button
+            onClick={() => {
+              handleCancel();
+              setShowAddModal(true);
+            }}
+            className="bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700 text-white px-4 sm:px-6 py-2 sm:py-3 rounded-xl font-semibold shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 flex items-center gap-2 justify-center"
+          >
+            <span className="text-lg sm:text-xl">➕</span>
+            <span className="text-sm sm:text-base">Add Room</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-6 bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <div className="flex items-center">
+            <span className="text-2xl mr-3">⚠️</span>
+            <p className="text-red-700 font-medium">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* KPI Cards */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-5 md:gap-6 mb-6 sm:mb-8">
+        <div className="bg-gradient-to-br from-amber-500 to-orange-600 rounded-xl sm:rounded-2xl p-4 sm:p-5 md:p-6 text-white shadow-lg">
+          <p className="text-amber-100 text-xs sm:text-sm font-medium mb-1">Total Rooms</p>
+          <p className="text-3xl sm:text-4xl font-bold">{stats.total}</p>
+        </div>
+        <div className="bg-gradient-to-br from-blue-500 to-cyan-600 rounded-xl sm:rounded-2xl p-4 sm:p-5 md:p-6 text-white shadow-lg">
+          <p className="text-blue-100 text-xs sm:text-sm font-medium mb-1">Active Labs</p>
+          <p className="text-3xl sm:text-4xl font-bold">{stats.labs}</p>
+        </div>
+        <div className="bg-gradient-to-br from-green-500 to-emerald-600 rounded-xl sm:rounded-2xl p-4 sm:p-5 md:p-6 text-white shadow-lg">
+          <p className="text-green-100 text-xs sm:text-sm font-medium mb-1">Total Seats</p>
+          <p className="text-3xl sm:text-4xl font-bold">{stats.seats}</p>
+        </div>
+        <div className="bg-gradient-to-br from-gray-500 to-slate-600 rounded-xl sm:rounded-2xl p-4 sm:p-5 md:p-6 text-white shadow-lg">
+          <p className="text-gray-100 text-xs sm:text-sm font-medium mb-1">Inactive</p>
+          <p className="text-3xl sm:text-4xl font-bold">{stats.inactive}</p>
+        </div>
+      </div>
+
+      {/* Search and Filters */}
+      <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-5 md:p-6 mb-6">
+        <div className="flex flex-col lg:flex-row gap-4">
+          <div className="flex-1">
+            <input
+              type="text"
+              placeholder="🔍 Search rooms by code or building..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 bg-white shadow-sm text-sm"
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-3">
+            <select
+              value={filterType}
+              onChange={(e) => setFilterType(e.target.value)}
+              className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 bg-white shadow-sm text-sm"
+            >
+              <option value="">All Types</option>
+              {Object.entries(ROOM_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+
+            <select
+              value={filterBuilding}
+              onChange={(e) => setFilterBuilding(e.target.value)}
+              className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 bg-white shadow-sm text-sm"
+            >
+              <option value="">All Buildings</option>
+              {buildings.map((building) => (
+                <option key={building} value={building}>{building}</option>
+              ))}
+            </select>
+
+            {(filterType || filterBuilding || searchQuery) && (
+              <button
+                onClick={() => {
+                  setFilterType("");
+                  setFilterBuilding("");
+                  setSearchQuery("");
+                }}
+                className="px-4 py-3 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium text-sm transition-all"
+              >
+                ✕ Clear
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Rooms Grid */}
+      <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-5 md:p-6">
+        <h2 className="text-xl sm:text-2xl font-bold text-gray-900 mb-6 flex items-center">
+          <span className="text-2xl sm:text-3xl mr-2">📋</span>
+          Room Inventory
+        </h2>
+
+        {filteredRooms.length === 0 ? (
+          <div className="text-center py-12 bg-gray-50 rounded-xl">
+            <p className="text-gray-500 text-lg font-medium">
+              {rooms.length === 0 ? "No rooms yet" : "No rooms match your filters"}
+            </p>
+            <p className="text-gray-400 text-sm mt-1">
+              {rooms.length === 0
+                ? "Add rooms and labs so generated timetables get real room assignments"
+                : "Try adjusting your search or filters"}
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {filteredRooms.map((room) => (
+              <div
+                key={room.room_id}
+                className={`rounded-xl p-5 border-2 transition-all duration-300 hover:shadow-lg ${
+                  room.is_active
+                    ? "bg-gradient-to-br from-amber-50 to-orange-50 border-amber-200 hover:border-amber-400"
+                    : "bg-gray-50 border-gray-200 opacity-75"
+                }`}
+              >
+                <div className="flex items-start justify-between mb-2">
+                  <h3 className="text-lg font-bold text-gray-900">{room.room_code}</h3>
+                  <span className="text-xs bg-amber-600 text-white px-3 py-1 rounded-full font-medium">
+                    {ROOM_TYPE_LABELS[room.room_type]}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600 mb-1">
+                  🏢 {room.building}
+                  {room.floor !== null && room.floor !== undefined && ` · Floor ${room.floor}`}
+                </p>
+                <p className="text-sm text-gray-600 mb-1">👥 {room.capacity} seats</p>
+                {room.department?.name && (
+                  <p className="text-xs text-gray-500 mb-1">Owned by {room.department.name}</p>
+                )}
+                {!room.is_active && (
+                  <p className="text-xs text-red-600 font-medium mb-1">Inactive — not used for scheduling</p>
+                )}
+                {room.equipment?.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {room.equipment.map((tag) => (
+                      <span key={tag} className="text-xs bg-white border border-amber-300 text-amber-800 px-2 py-0.5 rounded-full">
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex gap-2 mt-4">
+                  <button
+                    className="flex-1 bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-lg font-medium text-sm transition-all flex items-center justify-center gap-1"
+                    onClick={() => handleEdit(room)}
+                  >
+                    <span>✏️</span>
+                    <span>Edit</span>
+                  </button>
+                  <button
+                    className="flex-1 bg-red-600 hover:bg-red-700 text-white px-3 py-2 rounded-lg font-medium text-sm transition-all flex items-center justify-center gap-1"
+                    onClick={() => handleDelete(room)}
+                  >
+                    <span>🗑️</span>
+                    <span>Delete</span>
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Add/Edit Modal */}
+      {showAddModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="sticky top-0 bg-gradient-to-r from-amber-600 to-orange-600 px-6 py-4 rounded-t-2xl flex items-center justify-between">
+              <h2 className="text-xl font-bold text-white flex items-center gap-2">
+                <span className="text-2xl">{editingRoomId ? "✏️" : "➕"}</span>
+                {editingRoomId ? "Edit Room" : "Add New Room"}
+              </h2>
+              <button
+                onClick={() => {
+                  setShowAddModal(false);
+                  handleCancel();
+                }}
+                className="text-white hover:bg-white/20 rounded-lg p-2 transition-colors"
+              >
+                <span className="text-2xl">✕</span>
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Room Code <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    placeholder="e.g., LAB-2"
+                    value={form.room_code}
+                    onChange={(e) => setForm({ ...form, room_code: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-sm"
+                    required
+                    disabled={loading}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Building <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    placeholder="e.g., Block A"
+                    value={form.building}
+                    onChange={(e) => setForm({ ...form, building: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-sm"
+                    required
+                    disabled={loading}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Room Type <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    value={form.room_type}
+                    onChange={(e) => setForm({ ...form, room_type: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-sm"
+                    disabled={loading}
+                  >
+                    {Object.entries(ROOM_TYPE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Capacity <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    placeholder="e.g., 60"
+                    value={form.capacity}
+                    onChange={(e) => setForm({ ...form, capacity: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-sm"
+                    required
+                    disabled={loading}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Floor</label>
+                  <input
+                    type="number"
+                    placeholder="e.g., 2"
+                    value={form.floor}
+                    onChange={(e) => setForm({ ...form, floor: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-sm"
+                    disabled={loading}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Department</label>
+                  <select
+                    value={form.department_id}
+                    onChange={(e) => setForm({ ...form, department_id: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-sm"
+                    disabled={loading}
+                  >
+                    <option value="">Shared (all departments)</option>
+                    {departments.map((dept) => (
+                      <option key={dept.department_id} value={dept.department_id}>{dept.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Equipment</label>
+                <input
+                  type="text"
+                  placeholder="Comma separated, e.g., projector, computers"
+                  value={form.equipment}
+                  onChange={(e) => setForm({ ...form, equipment: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-sm"
+                  disabled={loading}
+                />
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {COMMON_EQUIPMENT.map((tag) => (
+                    <button
+                      key={tag}
+                      type="button"
+                      onClick={() => toggleEquipment(tag)}
+                      className={`text-xs px-3 py-1 rounded-full border transition-colors ${
+                        form.equipment.split(",").map((t) => t.trim()).includes(tag)
+                          ? "bg-amber-600 text-white border-amber-600"
+                          : "bg-white text-gray-700 border-gray-300 hover:border-amber-400"
+                      }`}
+                    >
+                      {tag}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.is_active}
+                  onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+                  disabled={loading}
+                />
+                Available for scheduling
+              </label>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700 disabled:from-amber-400 disabled:to-orange-400 text-white px-6 py-3 rounded-lg font-semibold transition-all flex items-center justify-center gap-2"
+                >
+                  {loading ? (
+                    <>
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                      <span>{editingRoomId ? "Updating..." : "Adding..."}</span>
+                    </>
+                  ) : (
+                    <>
+                      <span className="text-lg">{editingRoomId ? "💾" : "➕"}</span>
+                      <span>{editingRoomId ? "Update Room" : "Add Room"}</span>
+                    </>
+                  )}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowAddModal(false);
+                    handleCancel();
+                  }}
+                  disabled={loading}
+                  className="px-6 py-3 bg-gray-500 hover:bg-gray-600 disabled:bg-gray-400 text-white rounded-lg font-semibold transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoomManagement;
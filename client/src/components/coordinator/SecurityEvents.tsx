@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from "react";
+import {
+  fetchSecurityEvents,
+  reviewSecurityEvent,
+  SecurityEvent,
+} from "../../services/api";
+
+const TYPE_LABELS: Record<SecurityEvent["event_type"], string> = {
+  identity_mismatch: "🪪 Acted as another student",
+  schedule_access_denied: "🚫 Another teacher's class",
+  missing_profile: "❔ No linked profile",
+  device_signature_invalid: "✍️ Unsigned or forged scan",
+  device_shared: "📱 Device shared between students",
+};
+
+const SEVERITY_STYLES: Record<SecurityEvent["severity"], string> = {
+  high: "bg-red-100 text-red-700",
+  medium: "bg-amber-100 text-amber-700",
+  low: "bg-gray-100 text-gray-600",
+};
+
+// Rejected smart-attendance requests that may be impersonation attempts
+const SecurityEvents: React.FC = () => {
+  const [events, setEvents] = useState<SecurityEvent[]>([]);
+  const [status, setStatus] = useState<"unreviewed" | "all">("unreviewed");
+  const [type, setType] = useState("");
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadEvents();
+  }, [status, type]);
+
+  const loadEvents = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await fetchSecurityEvents({ status, type: type || undefined });
+      setEvents(data);
+    } catch (error) {
+      console.error("Error loading security events:", error);
+      setError("Failed to load security events. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReview = async (event: SecurityEvent) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await reviewSecurityEvent(event.event_id, notes[event.event_id]);
+      await loadEvents();
+    } catch (error: any) {
+      console.error("Error reviewing security event:", error);
+      setError(
+        `Failed to mark as reviewed: ${
+          error?.response?.data?.message || error.message
+        }`
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-red-50 to-rose-50 p-4 sm:p-6 md:p-8">
+      {/* Header */}
+      <div className="mb-6 sm:mb-8">
+        <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-red-600 to-rose-600 bg-clip-text text-transparent mb-2">
+          🛡️ Attendance Security Events
+        </h1>
+        <p className="text-sm sm:text-base text-gray-600">
+          Smart-attendance requests that were rejected because a user tried to
+          act as another student or on another teacher's class.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <div className="flex items-center">
+            <span className="text-2xl mr-3">⚠️</span>
+            <p className="text-red-700 font-medium">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6 mb-6 flex flex-wrap gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Show</label>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as "unreviewed" | "all")}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            disabled={loading}
+          >
+            <option value="unreviewed">Unreviewed</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            disabled={loading}
+          >
+            <option value="">All types</option>
+            {(Object.keys(TYPE_LABELS) as SecurityEvent["event_type"][]).map((key) => (
+              <option key={key} value={key}>{TYPE_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={loadEvents}
+          disabled={loading}
+          className="bg-gradient-to-r from-red-600 to-rose-600 hover:from-red-700 hover:to-rose-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+        >
+          🔄 Refresh
+        </button>
+      </div>
+
+      {/* Events */}
+      <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6">
+        {events.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            {loading ? "Loading..." : "No security events to review."}
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {events.map((event) => (
+              <li key={event.event_id} className="border border-gray-200 rounded-xl p-4">
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                  <span className={`text-xs font-semibold px-2 py-1 rounded-full ${SEVERITY_STYLES[event.severity]}`}>
+                    {event.severity.toUpperCase()}
+                  </span>
+                  <span className="font-semibold text-gray-800">
+                    {TYPE_LABELS[event.event_type] || event.event_type}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {new Date(event.created_at).toLocaleString()}
+                  </span>
+                </div>
+                <div className="text-sm text-gray-700 space-y-1">
+                  <p>
+                    👤 {event.user?.email || `User ${event.user_id ?? "unknown"}`}
+                    {event.role && <span className="text-gray-500"> ({event.role})</span>}
+                    <span className="text-gray-500"> · {event.route}</span>
+                  </p>
+                  {event.claimed_student_id != null && (
+                    <p>
+                      🪪 Claimed student #{event.claimed_student_id}
+                      {event.actual_student_id != null &&
+                        `, logged in as student #${event.actual_student_id}`}
+                    </p>
+                  )}
+                  {(event.schedule_id || event.session_id) && (
+                    <p className="text-xs text-gray-500">
+                      {event.schedule_id && `Schedule #${event.schedule_id}`}
+                      {event.session_id && ` · Session ${event.session_id}`}
+                    </p>
+                  )}
+                  {event.ip_address && (
+                    <p className="text-xs text-gray-500">🌐 {event.ip_address}</p>
+                  )}
+                </div>
+                {event.reviewed_at ? (
+                  <p className="mt-3 text-xs text-green-700">
+                    ✅ Reviewed {new Date(event.reviewed_at).toLocaleString()}
+                    {event.reviewer?.email && ` by ${event.reviewer.email}`}
+                    {event.review_note && ` · ${event.review_note}`}
+                  </p>
+                ) : (
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    <input
+                      type="text"
+                      placeholder="Review note (optional)"
+                      value={notes[event.event_id] || ""}
+                      onChange={(e) =>
+                        setNotes({ ...notes, [event.event_id]: e.target.value })
+                      }
+                      className="flex-1 min-w-[200px] px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      disabled={loading}
+                    />
+                    <button
+                      onClick={() => handleReview(event)}
+                      disabled={loading}
+                      className="bg-green-600 hover:bg-green-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+                    >
+                      ✔ Mark reviewed
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SecurityEvents;
@@ -0,0 +1,276 @@
+import React, { useEffect, useState } from "react";
+import {
+  approveStudentDevice,
+  fetchStudentDevices,
+  rejectStudentDevice,
+  revokeStudentDevice,
+  StudentDevice,
+  StudentDeviceStatus,
+} from "../../services/api";
+
+const STATUS_STYLES: Record<StudentDeviceStatus, string> = {
+  pending: "bg-amber-100 text-amber-700",
+  active: "bg-green-100 text-green-700",
+  rejected: "bg-red-100 text-red-700",
+  revoked: "bg-gray-100 text-gray-600",
+};
+
+// Must match MAX_ACTIVE_DEVICES in the server's StudentDeviceService
+const MAX_ACTIVE_DEVICES = 2;
+
+// Phones students scan attendance with; new devices wait here for approval
+const StudentDevices: React.FC = () => {
+  const [devices, setDevices] = useState<StudentDevice[]>([]);
+  const [status, setStatus] = useState<StudentDeviceStatus | "all">("pending");
+  // Active devices of each student with a pending change, to pick one to replace
+  const [activeByStudent, setActiveByStudent] = useState<Record<number, StudentDevice[]>>({});
+  const [replace, setReplace] = useState<Record<number, string>>({});
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDevices();
+  }, [status]);
+
+  const loadDevices = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await fetchStudentDevices({ status });
+      setDevices(data);
+
+      const pendingStudents = Array.from(
+        new Set(data.filter((d) => d.status === "pending").map((d) => d.student_id))
+      );
+      const active: Record<number, StudentDevice[]> = {};
+      for (const studentId of pendingStudents) {
+        active[studentId] = await fetchStudentDevices({ status: "active", studentId });
+      }
+      setActiveByStudent(active);
+    } catch (error) {
+      console.error("Error loading student devices:", error);
+      setError("Failed to load devices. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const act = async (label: string, action: () => Promise<any>) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await action();
+      await loadDevices();
+    } catch (error: any) {
+      console.error(`Error trying to ${label} device:`, error);
+      setError(
+        `Failed to ${label} device: ${error?.response?.data?.message || error.message}`
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApprove = (device: StudentDevice) =>
+    act("approve", () =>
+      approveStudentDevice(
+        device.device_id,
+        replace[device.device_id] ? Number(replace[device.device_id]) : undefined,
+        notes[device.device_id]
+      )
+    );
+
+  const handleReject = (device: StudentDevice) => {
+    if (!notes[device.device_id]?.trim()) {
+      setError("Add a note for the student before rejecting a device.");
+      return;
+    }
+    act("reject", () => rejectStudentDevice(device.device_id, notes[device.device_id]));
+  };
+
+  const handleRevoke = (device: StudentDevice) => {
+    if (!window.confirm(`Remove this device? The student won't be able to scan with it.`)) return;
+    act("remove", () => revokeStudentDevice(device.device_id, notes[device.device_id]));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-sky-50 to-blue-50 p-4 sm:p-6 md:p-8">
+      {/* Header */}
+      <div className="mb-6 sm:mb-8">
+        <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-sky-600 to-blue-600 bg-clip-text text-transparent mb-2">
+          📱 Student Devices
+        </h1>
+        <p className="text-sm sm:text-base text-gray-600">
+          Smart-attendance scans must be signed by a registered device. A
+          student's first device is trusted automatically; later devices need
+          approval here. Each student can have up to {MAX_ACTIVE_DEVICES} active
+          devices.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <div className="flex items-center">
+            <span className="text-2xl mr-3">⚠️</span>
+            <p className="text-red-700 font-medium">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6 mb-6 flex flex-wrap gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Show</label>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as StudentDeviceStatus | "all")}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            disabled={loading}
+          >
+            <option value="pending">Waiting for approval</option>
+            <option value="active">Active</option>
+            <option value="rejected">Rejected</option>
+            <option value="revoked">Removed</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+        <button
+          onClick={loadDevices}
+          disabled={loading}
+          className="bg-gradient-to-r from-sky-600 to-blue-600 hover:from-sky-700 hover:to-blue-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+        >
+          🔄 Refresh
+        </button>
+      </div>
+
+      {/* Devices */}
+      <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6">
+        {devices.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            {loading ? "Loading..." : "No devices to show."}
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {devices.map((device) => {
+              const active = activeByStudent[device.student_id] || [];
+              const atLimit = active.length >= MAX_ACTIVE_DEVICES;
+              return (
+                <li key={device.device_id} className="border border-gray-200 rounded-xl p-4">
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <span className={`text-xs font-semibold px-2 py-1 rounded-full ${STATUS_STYLES[device.status]}`}>
+                      {device.status.toUpperCase()}
+                    </span>
+                    <span className="font-semibold text-gray-800">
+                      {device.student
+                        ? `${device.student.name} (${device.student.roll_number})`
+                        : `Student #${device.student_id}`}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      Registered {new Date(device.created_at).toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="text-sm text-gray-700 space-y-1">
+                    <p>
+                      📱 {device.label || "Unnamed device"}
+                      <span className="text-gray-500 font-mono text-xs">
+                        {" "}· {device.key_fingerprint.slice(0, 16)}
+                      </span>
+                    </p>
+                    {device.user_agent && (
+                      <p className="text-xs text-gray-500 break-all">{device.user_agent}</p>
+                    )}
+                    {device.ip_address && (
+                      <p className="text-xs text-gray-500">🌐 {device.ip_address}</p>
+                    )}
+                    {device.last_used_at && (
+                      <p className="text-xs text-gray-500">
+                        Last scan {new Date(device.last_used_at).toLocaleString()}
+                      </p>
+                    )}
+                    {device.reviewed_at && (
+                      <p className="text-xs text-gray-500">
+                        Reviewed {new Date(device.reviewed_at).toLocaleString()}
+                        {device.reviewer?.email && ` by ${device.reviewer.email}`}
+                        {device.review_note && ` · ${device.review_note}`}
+                      </p>
+                    )}
+                  </div>
+
+                  {device.status === "pending" && (
+                    <div className="mt-3 space-y-2">
+                      {atLimit && (
+                        <div>
+                          <label className="block text-xs font-medium text-gray-700 mb-1">
+                            At the device limit — replace
+                          </label>
+                          <select
+                            value={replace[device.device_id] || ""}
+                            onChange={(e) =>
+                              setReplace({ ...replace, [device.device_id]: e.target.value })
+                            }
+                            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                            disabled={loading}
+                          >
+                            <option value="">Choose a device</option>
+                            {active.map((current) => (
+                              <option key={current.device_id} value={current.device_id}>
+                                {current.label || `Device #${current.device_id}`}
+                                {current.last_used_at &&
+                                  ` (last scan ${new Date(current.last_used_at).toLocaleDateString()})`}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                      <div className="flex flex-wrap gap-2">
+                        <input
+                          type="text"
+                          placeholder="Note (required to reject)"
+                          value={notes[device.device_id] || ""}
+                          onChange={(e) =>
+                            setNotes({ ...notes, [device.device_id]: e.target.value })
+                          }
+                          className="flex-1 min-w-[200px] px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                          disabled={loading}
+                        />
+                        <button
+                          onClick={() => handleApprove(device)}
+                          disabled={loading || (atLimit && !replace[device.device_id])}
+                          className="bg-green-600 hover:bg-green-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+                        >
+                          ✔ Approve
+                        </button>
+                        <button
+                          onClick={() => handleReject(device)}
+                          disabled={loading}
+                          className="bg-red-600 hover:bg-red-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+                        >
+                          ✖ Reject
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {device.status === "active" && (
+                    <div className="mt-3">
+                      <button
+                        onClick={() => handleRevoke(device)}
+                        disabled={loading}
+                        className="bg-gray-600 hover:bg-gray-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+                      >
+                        🗑 Remove device
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StudentDevices;
@@ -1,4 +1,5 @@
 import React, { useEffect, useMemo, useState } from "react";
+import { useHistory } from "react-router-dom";
 import {
   fetchAllTeachers,
   fetchAllDepartments,
@@ -20,6 +21,7 @@ import CourseIcon from "../../assets/lottie/Courses.json";
 import AnalyticsIcon from "../../assets/lottie/analytics-icon.json";
 
 const TeacherManagement: React.FC = () => {
+  const history = useHistory();
   const [teachers, setTeachers] = useState<any[]>([]);
   const [departments, setDepartments] = useState<any[]>([]);
   const [courses, setCourses] = useState<any[]>([]);
@@ -593,7 +595,7 @@ const TeacherManagement: React.FC = () => {
                 </div>
 
                 {/* Action Buttons */}
-                <div className="grid grid-cols-3 gap-2">
+                <div className="grid grid-cols-4 gap-2">
                   <button
                     onClick={() => startCourseAssignment(teacher.teacher_id)}
                     className="bg-purple-600 hover:bg-purple-700 text-white px-3 py-2 rounded-lg text-xs font-medium transition-colors"
@@ -618,6 +620,15 @@ const TeacherManagement: React.FC = () => {
                   >
                     🗑️ Delete
                   </button>
+                  <button
+                    onClick={() =>
+                      history.push(`/teachers/${teacher.teacher_id}/availability`)
+                    }
+                    className="bg-amber-600 hover:bg-amber-700 text-white px-3 py-2 rounded-lg text-xs font-medium transition-colors"
+                    title="Availability"
+                  >
+                    🕒 Hours
+                  </button>
                 </div>
               </div>
             ))}
@@ -0,0 +1,382 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  fetchSavedTimetables,
+  fetchTimetableVersions,
+  diffTimetableVersions,
+  publishSavedTimetable,
+  rollbackSavedTimetable,
+  fetchAllCourses,
+  fetchAllTeachers,
+  SavedTimetableSummary,
+  TimetableVersion,
+  TimetableVersionDiff,
+  TimetableVersionEntry,
+} from "../../services/api";
+
+const CHANGE_TYPE_STYLES: { [key: string]: string } = {
+  create: "bg-blue-100 text-blue-700",
+  edit: "bg-gray-100 text-gray-700",
+  publish: "bg-green-100 text-green-700",
+  rollback: "bg-amber-100 text-amber-700",
+};
+
+const DIFF_LABELS: { [key: string]: string } = {
+  added: "➕ Added",
+  removed: "➖ Removed",
+  moved: "🔀 Moved",
+  teacher_changed: "👩‍🏫 Teacher changed",
+};
+
+const TimetableVersions: React.FC = () => {
+  const [timetables, setTimetables] = useState<SavedTimetableSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [versions, setVersions] = useState<TimetableVersion[]>([]);
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [diff, setDiff] = useState<TimetableVersionDiff | null>(null);
+  const [reason, setReason] = useState("");
+  const [courses, setCourses] = useState<any[]>([]);
+  const [teachers, setTeachers] = useState<any[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTimetables();
+    fetchAllCourses().then(setCourses).catch(() => setCourses([]));
+    fetchAllTeachers().then(setTeachers).catch(() => setTeachers([]));
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) {
+      loadVersions(selectedId);
+    }
+  }, [selectedId]);
+
+  const courseLabel = useMemo(() => {
+    const byId = new Map(courses.map((c) => [Number(c.course_id), c.course_code]));
+    return (id: number) => byId.get(id) || `Course ${id}`;
+  }, [courses]);
+
+  const teacherLabel = useMemo(() => {
+    const byId = new Map(teachers.map((t) => [Number(t.teacher_id), t.name]));
+    return (id: number) => byId.get(id) || `Teacher ${id}`;
+  }, [teachers]);
+
+  const loadTimetables = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await fetchSavedTimetables();
+      setTimetables(data);
+    } catch (error) {
+      console.error("Error loading saved timetables:", error);
+      setError("Failed to load saved timetables. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadVersions = async (savedTimetableId: number) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setDiff(null);
+      const data = await fetchTimetableVersions(savedTimetableId);
+      setVersions(data);
+      // Default comparison: previous version against the current one
+      setCompareTo(data[0]?.version_number ?? null);
+      setCompareFrom(data[1]?.version_number ?? null);
+    } catch (error) {
+      console.error("Error loading versions:", error);
+      setError("Failed to load version history. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCompare = async () => {
+    if (!selectedId || !compareFrom || !compareTo) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await diffTimetableVersions(selectedId, compareFrom, compareTo);
+      setDiff(data);
+    } catch (error) {
+      console.error("Error comparing versions:", error);
+      setError("Failed to compare versions. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!selectedId) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await publishSavedTimetable(selectedId, reason.trim() || undefined);
+      setMessage(result.message);
+      setReason("");
+      await loadVersions(selectedId);
+    } catch (error: any) {
+      console.error("Error publishing timetable:", error);
+      setError(error?.response?.data?.error || "Failed to publish timetable.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRollback = async (version: TimetableVersion) => {
+    if (!selectedId) return;
+    if (!reason.trim()) {
+      setError("Enter a reason before rolling back");
+      return;
+    }
+    if (
+      !window.confirm(
+        `Roll back to version ${version.version_number}? The live timetable for this section will be regenerated.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await rollbackSavedTimetable(
+        selectedId,
+        version.version_number,
+        reason.trim()
+      );
+      setMessage(result.message);
+      setReason("");
+      await loadVersions(selectedId);
+    } catch (error: any) {
+      console.error("Error rolling back timetable:", error);
+      setError(error?.response?.data?.error || "Failed to roll back timetable.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const describeEntry = (entry?: TimetableVersionEntry) =>
+    entry
+      ? `${entry.day_of_week.substring(0, 3)} ${entry.start_time}–${entry.end_time}${
+          entry.classroom ? ` · ${entry.classroom}` : ""
+        } · ${teacherLabel(entry.teacher_id)}`
+      : "—";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-cyan-50 to-blue-50 p-4 sm:p-6 md:p-8">
+      {/* Header */}
+      <div className="mb-6 sm:mb-8">
+        <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-cyan-600 to-blue-600 bg-clip-text text-transparent mb-2">
+          🕘 Timetable Versions
+        </h1>
+        <p className="text-sm sm:text-base text-gray-600">
+          Every edit and publish is kept. Compare versions or roll a section back
+          to an earlier one.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <div className="flex items-center">
+            <span className="text-2xl mr-3">⚠️</span>
+            <p className="text-red-700 font-medium">{error}</p>
+          </div>
+        </div>
+      )}
+      {message && (
+        <div className="mb-6 bg-green-50 border-l-4 border-green-500 p-4 rounded-lg">
+          <div className="flex items-center">
+            <span className="text-2xl mr-3">✅</span>
+            <p className="text-green-700 font-medium">{message}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Saved Timetables */}
+        <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">📁 Saved Timetables</h2>
+          {timetables.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              {loading ? "Loading..." : "No saved timetables yet."}
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {timetables.map((timetable) => (
+                <li key={timetable.id}>
+                  <button
+                    onClick={() => {
+                      setMessage(null);
+                      setSelectedId(timetable.id);
+                    }}
+                    className={`w-full text-left px-3 py-2 rounded-lg text-sm border ${
+                      selectedId === timetable.id
+                        ? "border-blue-500 bg-blue-50"
+                        : "border-gray-200 hover:bg-gray-50"
+                    }`}
+                  >
+                    <div className="font-semibold text-gray-800">{timetable.name}</div>
+                    <div className="text-xs text-gray-500">
+                      Section {timetable.section} · Semester {timetable.semester} ·{" "}
+                      {timetable.entriesCount} classes
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Version History */}
+        <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6 lg:col-span-2">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">📜 History</h2>
+          {!selectedId ? (
+            <p className="text-sm text-gray-500">Select a saved timetable.</p>
+          ) : (
+            <>
+              <div className="flex flex-col sm:flex-row gap-3 mb-4">
+                <input
+                  type="text"
+                  placeholder="Reason (required for rollback)"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  disabled={loading}
+                />
+                <button
+                  onClick={handlePublish}
+                  disabled={loading}
+                  className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+                >
+                  🚀 Publish current
+                </button>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-2">From</th>
+                      <th className="py-2 pr-2">To</th>
+                      <th className="py-2 pr-2">Version</th>
+                      <th className="py-2 pr-2">Change</th>
+                      <th className="py-2 pr-2">Reason</th>
+                      <th className="py-2 pr-2">Author</th>
+                      <th className="py-2 pr-2">When</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {versions.map((version, index) => (
+                      <tr key={version.version_id} className="border-b last:border-0">
+                        <td className="py-2 pr-2">
+                          <input
+                            type="radio"
+                            name="compareFrom"
+                            checked={compareFrom === version.version_number}
+                            onChange={() => setCompareFrom(version.version_number)}
+                          />
+                        </td>
+                        <td className="py-2 pr-2">
+                          <input
+                            type="radio"
+                            name="compareTo"
+                            checked={compareTo === version.version_number}
+                            onChange={() => setCompareTo(version.version_number)}
+                          />
+                        </td>
+                        <td className="py-2 pr-2 font-semibold">
+                          v{version.version_number}
+                          {index === 0 && (
+                            <span className="ml-1 text-xs text-blue-600">current</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-2">
+                          <span
+                            className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                              CHANGE_TYPE_STYLES[version.change_type]
+                            }`}
+                          >
+                            {version.change_type}
+                            {version.source_version ? ` ← v${version.source_version}` : ""}
+                          </span>
+                        </td>
+                        <td className="py-2 pr-2 text-gray-600">{version.reason || "—"}</td>
+                        <td className="py-2 pr-2 text-gray-600">
+                          {version.author?.email || "—"}
+                        </td>
+                        <td className="py-2 pr-2 text-gray-500 whitespace-nowrap">
+                          {new Date(version.created_at).toLocaleString()}
+                        </td>
+                        <td className="py-2 text-right">
+                          {index > 0 && (
+                            <button
+                              onClick={() => handleRollback(version)}
+                              disabled={loading}
+                              className="text-xs text-amber-700 hover:text-amber-900 font-semibold"
+                            >
+                              ↩️ Roll back
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <button
+                onClick={handleCompare}
+                disabled={loading || !compareFrom || !compareTo || compareFrom === compareTo}
+                className="mt-4 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-700 hover:to-blue-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+              >
+                🔍 Compare v{compareFrom ?? "?"} → v{compareTo ?? "?"}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Diff */}
+      {diff && (
+        <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6 mt-6">
+          <h2 className="text-xl font-bold text-gray-900 mb-2">
+            🔀 v{diff.from_version} → v{diff.to_version}
+          </h2>
+          <p className="text-sm text-gray-600 mb-4">
+            {diff.summary.added} added · {diff.summary.removed} removed ·{" "}
+            {diff.summary.moved} moved · {diff.summary.teacher_changed} teacher
+            changes · {diff.summary.unchanged} unchanged
+          </p>
+          {diff.changes.length === 0 ? (
+            <p className="text-sm text-gray-500">No differences.</p>
+          ) : (
+            <ul className="space-y-2">
+              {diff.changes.map((change, index) => (
+                <li
+                  key={index}
+                  className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-4 text-sm border border-gray-200 rounded-lg px-3 py-2"
+                >
+                  <span className="font-semibold w-44">{DIFF_LABELS[change.type]}</span>
+                  <span className="font-medium text-gray-800 w-28">
+                    {courseLabel(change.course_id)}
+                  </span>
+                  <span className="text-gray-500">{describeEntry(change.from)}</span>
+                  <span className="text-gray-400">→</span>
+                  <span className="text-gray-800">{describeEntry(change.to)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimetableVersions;
@@ -3,12 +3,41 @@ import * as faceapi from "@vladmandic/face-api";
 import * as tf from "@tensorflow/tfjs";
 import "@tensorflow/tfjs-backend-webgl";
 import Webcam from "react-webcam";
+import {
+  FacePose,
+  FaceSampleMeasurement,
+  measureFaceSample,
+  POSE_PROMPTS,
+  PROBLEM_MESSAGES,
+  SampleProblem,
+  sampleProblems,
+  sampleQualityScore,
+} from "../../utils/faceQuality";
 
 interface FaceRegistrationProps {
   studentId: number;
   onComplete: () => void;
 }
 
+interface CapturedSample extends FaceSampleMeasurement {
+  pose: FacePose;
+  faceDescriptor: number[];
+  imageBase64: string;
+  qualityScore: number;
+  // Problems the server found when the set was submitted
+  problems: SampleProblem[];
+}
+
+const POSES: FacePose[] = ["center", "left", "right", "up", "down"];
+
+const REENROLLMENT_REASONS: Record<string, string> = {
+  confidence_drift:
+    "Your recent scans have been matching your face samples less closely.",
+  near_threshold:
+    "Your recent scans are close to the minimum match needed for attendance.",
+  aged: "Your face samples are over a year old.",
+};
+
 const FaceRegistration: React.FC<FaceRegistrationProps> = ({
   studentId,
   onComplete,
@@ -16,19 +45,23 @@ const FaceRegistration: React.FC<FaceRegistrationProps> = ({
   const [modelsLoaded, setModelsLoaded] = useState(false);
   const [currentStep, setCurrentStep] = useState(0);
   const [registeredFaces, setRegisteredFaces] = useState<number>(0);
+  const [reenrollmentReason, setReenrollmentReason] = useState<string | null>(
+    null
+  );
+  // One accepted sample per pose, sent together once all poses are captured
+  const [samples, setSamples] = useState<Partial<Record<FacePose, CapturedSample>>>(
+    {}
+  );
   const [isCapturing, setIsCapturing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string>("");
   const [success, setSuccess] = useState<string>("");
 
   const webcamRef = useRef<Webcam>(null);
 
-  const faceAngles = [
-    "Face Forward (Center)",
-    "Turn Slightly Left",
-    "Turn Slightly Right",
-    "Tilt Head Up Slightly",
-    "Tilt Head Down Slightly",
-  ];
+  const pose = POSES[currentStep];
+  const reviewing = currentStep >= POSES.length;
+  const flaggedCount = POSES.filter((p) => samples[p]?.problems.length).length;
 
   // Load face-api.js models
   useEffect(() => {
@@ -75,6 +108,7 @@ const FaceRegistration: React.FC<FaceRegistrationProps> = ({
         );
         const data = await response.json();
         setRegisteredFaces(data.totalFaces || 0);
+        setReenrollmentReason(data.templates?.reenrollmentReason || null);
       } catch (err) {
         console.error("Error fetching registered faces:", err);
       }
@@ -82,6 +116,7 @@ const FaceRegistration: React.FC<FaceRegistrationProps> = ({
     fetchRegisteredFaces();
   }, [studentId]);
 
+  // Capture and score a sample for the current pose; poor samples are retaken
   const captureFace = async () => {
     if (!webcamRef.current || !modelsLoaded) {
       setError("Camera not ready or models not loaded");
@@ -90,12 +125,12 @@ const FaceRegistration: React.FC<FaceRegistrationProps> = ({
 
     setIsCapturing(true);
     setError("");
+    setSuccess("");
 
     try {
       const imageSrc = webcamRef.current.getScreenshot();
       if (!imageSrc) {
         setError("Failed to capture image");
-        setIsCapturing(false);
         return;
       }
 
@@ -123,11 +158,69 @@ const FaceRegistration: React.FC<FaceRegistrationProps> = ({
         setError(
           "No face detected. Please ensure your face is clearly visible and try again."
         );
-        setIsCapturing(false);
         return;
       }
 
-      // Send face descriptor to backend
+      const measurement = measureFaceSample(img, detection);
+      const problems = sampleProblems(pose, measurement);
+      if (problems.length > 0) {
+        setError(
+          `Please retake: ${problems
+            .map((problem) => PROBLEM_MESSAGES[problem])
+            .join("; ")}.`
+        );
+        return;
+      }
+
+      const qualityScore = sampleQualityScore(measurement);
+      setSamples({
+        ...samples,
+        [pose]: {
+          ...measurement,
+          pose,
+          faceDescriptor: Array.from(detection.descriptor),
+          imageBase64: imageSrc,
+          qualityScore,
+          problems: [],
+        },
+      });
+      setSuccess(
+        `${POSE_PROMPTS[pose]} captured (quality ${Math.round(
+          qualityScore * 100
+        )}%)`
+      );
+
+      // Next pose that still needs a sample, or the review step
+      const next = POSES.findIndex(
+        (candidate, index) =>
+          index !== currentStep && !samples[candidate]
+      );
+      setTimeout(() => {
+        setCurrentStep(next === -1 ? POSES.length : next);
+        setSuccess("");
+      }, 1200);
+    } catch (err: any) {
+      console.error("Error capturing face:", err);
+      setError(err.message || "Failed to capture face");
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const retake = (retakePose: FacePose) => {
+    const { [retakePose]: _removed, ...rest } = samples;
+    setSamples(rest);
+    setError("");
+    setCurrentStep(POSES.indexOf(retakePose));
+  };
+
+  // Send all samples; the server re-scores them and replaces the old templates
+  const saveEnrollment = async () => {
+    const captured = POSES.filter((p) => samples[p]).map((p) => samples[p]!);
+    setIsSaving(true);
+    setError("");
+
+    try {
       const token = localStorage.getItem("token");
       const API_URL =
         process.env.REACT_APP_API_URL || "http://localhost:5000/api";
@@ -140,9 +233,15 @@ const FaceRegistration: React.FC<FaceRegistrationProps> = ({
             Authorization: `Bearer ${token}`,
           },
           body: JSON.stringify({
-            studentId: studentId,
-            faceDescriptor: Array.from(detection.descriptor),
-            imageBase64: imageSrc,
+            samples: captured.map((sample) => ({
+              pose: sample.pose,
+              faceDescriptor: sample.faceDescriptor,
+              imageBase64: sample.imageBase64,
+              box: sample.box,
+              yaw: sample.yaw,
+              pitch: sample.pitch,
+              detectionScore: sample.detectionScore,
+            })),
           }),
         }
       );
@@ -150,28 +249,33 @@ const FaceRegistration: React.FC<FaceRegistrationProps> = ({
       const data = await response.json();
 
       if (!response.ok) {
+        if (Array.isArray(data.results)) {
+          // Keep the accepted samples; flag the ones to retake
+          const flagged = { ...samples };
+          data.results.forEach((result: any) => {
+            const sample = captured[result.index];
+            if (sample && !result.accepted) {
+              flagged[sample.pose] = { ...sample, problems: result.problems };
+            }
+          });
+          setSamples(flagged);
+        }
         throw new Error(data.error || "Failed to register face");
       }
 
-      setSuccess(`Face ${currentStep + 1}/5 registered successfully!`);
       setRegisteredFaces(data.totalRegisteredFaces);
-
-      // Move to next step or complete
-      if (currentStep < 4) {
-        setTimeout(() => {
-          setCurrentStep(currentStep + 1);
-          setSuccess("");
-        }, 1500);
-      } else {
-        setTimeout(() => {
-          onComplete();
-        }, 2000);
-      }
+      setReenrollmentReason(null);
+      setSuccess(
+        `Face enrolled with ${data.totalRegisteredFaces} samples. You're all set!`
+      );
+      setTimeout(() => {
+        onComplete();
+      }, 2000);
     } catch (err: any) {
-      console.error("Error capturing face:", err);
+      console.error("Error saving face enrollment:", err);
       setError(err.message || "Failed to register face");
     } finally {
-      setIsCapturing(false);
+      setIsSaving(false);
     }
   };
 
@@ -193,58 +297,142 @@ const FaceRegistration: React.FC<FaceRegistrationProps> = ({
           Face Registration
         </h2>
         <p className="text-gray-600 mb-6">
-          Register 5 different angles of your face for better recognition
-          accuracy. Already registered: {registeredFaces}/5
+          Capture your face from 5 angles. Each sample is checked for
+          sharpness, size and head position, and saving replaces your current
+          samples. Currently registered: {registeredFaces}
         </p>
 
+        {reenrollmentReason && (
+          <div className="bg-amber-50 border-l-4 border-amber-500 p-4 mb-6">
+            <p className="text-amber-800 font-semibold">
+              📸 Please enroll again
+            </p>
+            <p className="text-amber-700 text-sm">
+              {REENROLLMENT_REASONS[reenrollmentReason] || reenrollmentReason}
+            </p>
+          </div>
+        )}
+
         {/* Progress Bar */}
         <div className="mb-6">
           <div className="flex justify-between mb-2">
-            {faceAngles.map((_, index) => (
+            {POSES.map((p, index) => (
               <div
-                key={index}
+                key={p}
                 className={`w-1/6 h-2 rounded ${
-                  index <= currentStep ? "bg-blue-500" : "bg-gray-300"
+                  samples[p]?.problems.length
+                    ? "bg-red-400"
+                    : samples[p]
+                    ? "bg-green-500"
+                    : index === currentStep
+                    ? "bg-blue-500"
+                    : "bg-gray-300"
                 }`}
               />
             ))}
           </div>
           <p className="text-sm text-gray-600 text-center">
-            Step {currentStep + 1} of 5
+            {reviewing
+              ? "Review your samples"
+              : `Step ${currentStep + 1} of ${POSES.length}`}
           </p>
         </div>
 
-        {/* Instructions */}
-        <div className="bg-blue-50 border-l-4 border-blue-500 p-4 mb-6">
-          <h3 className="font-bold text-blue-800 mb-2">
-            {faceAngles[currentStep]}
-          </h3>
-          <ul className="text-sm text-blue-700 space-y-1">
-            <li>• Ensure good lighting on your face</li>
-            <li>• Keep your face in the center of the frame</li>
-            <li>• Avoid wearing glasses or hats if possible</li>
-            <li>• Stay still for a clear capture</li>
-          </ul>
-        </div>
+        {reviewing ? (
+          /* Review */
+          <div className="mb-6">
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 mb-6">
+              {POSES.map((p) => {
+                const sample = samples[p];
+                return (
+                  <div
+                    key={p}
+                    className={`border-2 rounded-lg p-2 text-center ${
+                      sample?.problems.length
+                        ? "border-red-400"
+                        : "border-gray-200"
+                    }`}
+                  >
+                    {sample && (
+                      <img
+                        src={sample.imageBase64}
+                        alt={POSE_PROMPTS[p]}
+                        className="w-full rounded mb-2"
+                      />
+                    )}
+                    <p className="text-xs font-semibold text-gray-700">
+                      {POSE_PROMPTS[p]}
+                    </p>
+                    {sample && (
+                      <p className="text-xs text-gray-500">
+                        Quality {Math.round(sample.qualityScore * 100)}%
+                      </p>
+                    )}
+                    {sample?.problems.map((problem) => (
+                      <p key={problem} className="text-xs text-red-600">
+                        {PROBLEM_MESSAGES[problem]}
+                      </p>
+                    ))}
+                    <button
+                      onClick={() => retake(p)}
+                      disabled={isSaving}
+                      className="mt-1 text-xs text-blue-600 hover:text-blue-800 underline"
+                    >
+                      Retake
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex justify-center">
+              <button
+                onClick={saveEnrollment}
+                disabled={isSaving || flaggedCount > 0}
+                className={`px-8 py-3 rounded-lg font-semibold text-white transition ${
+                  isSaving || flaggedCount > 0
+                    ? "bg-gray-400 cursor-not-allowed"
+                    : "bg-green-600 hover:bg-green-700"
+                }`}
+              >
+                {isSaving ? "Saving..." : "Save Face Enrollment"}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            {/* Instructions */}
+            <div className="bg-blue-50 border-l-4 border-blue-500 p-4 mb-6">
+              <h3 className="font-bold text-blue-800 mb-2">
+                {POSE_PROMPTS[pose]}
+              </h3>
+              <ul className="text-sm text-blue-700 space-y-1">
+                <li>• Ensure good lighting on your face</li>
+                <li>• Keep your face in the center of the frame</li>
+                <li>• Avoid wearing glasses or hats if possible</li>
+                <li>• Stay still for a clear capture</li>
+              </ul>
+            </div>
 
-        {/* Webcam */}
-        <div className="flex justify-center mb-6">
-          <div className="relative">
-            <Webcam
-              ref={webcamRef}
-              audio={false}
-              screenshotFormat="image/jpeg"
-              className="rounded-lg border-4 border-gray-300"
-              width={640}
-              height={480}
-            />
-            {isCapturing && (
-              <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50 rounded-lg">
-                <div className="text-white text-xl">Processing...</div>
+            {/* Webcam */}
+            <div className="flex justify-center mb-6">
+              <div className="relative">
+                <Webcam
+                  ref={webcamRef}
+                  audio={false}
+                  screenshotFormat="image/jpeg"
+                  className="rounded-lg border-4 border-gray-300"
+                  width={640}
+                  height={480}
+                />
+                {isCapturing && (
+                  <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50 rounded-lg">
+                    <div className="text-white text-xl">Processing...</div>
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-        </div>
+            </div>
+          </>
+        )}
 
         {/* Error/Success Messages */}
         {error && (
@@ -259,19 +447,21 @@ const FaceRegistration: React.FC<FaceRegistrationProps> = ({
         )}
 
         {/* Capture Button */}
-        <div className="flex justify-center">
-          <button
-            onClick={captureFace}
-            disabled={isCapturing}
-            className={`px-8 py-3 rounded-lg font-semibold text-white transition ${
-              isCapturing
-                ? "bg-gray-400 cursor-not-allowed"
-                : "bg-blue-600 hover:bg-blue-700"
-            }`}
-          >
-            {isCapturing ? "Capturing..." : "Capture Face"}
-          </button>
-        </div>
+        {!reviewing && (
+          <div className="flex justify-center">
+            <button
+              onClick={captureFace}
+              disabled={isCapturing}
+              className={`px-8 py-3 rounded-lg font-semibold text-white transition ${
+                isCapturing
+                  ? "bg-gray-400 cursor-not-allowed"
+                  : "bg-blue-600 hover:bg-blue-700"
+              }`}
+            >
+              {isCapturing ? "Capturing..." : "Capture Face"}
+            </button>
+          </div>
+        )}
 
         {/* Skip Button (only if already have some faces registered) */}
         {registeredFaces > 0 && (
@@ -280,7 +470,7 @@ const FaceRegistration: React.FC<FaceRegistrationProps> = ({
               onClick={onComplete}
               className="text-gray-600 hover:text-gray-800 underline"
             >
-              Skip and use {registeredFaces} registered face(s)
+              Skip and keep {registeredFaces} registered face(s)
             </button>
           </div>
         )}
@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from "react";
+import {
+  cancelLeaveRequest,
+  fetchLeaveRequest,
+  fetchMyLeaveRequests,
+  LeaveRequest,
+  LeaveRequestStatus,
+  submitLeaveRequest,
+} from "../../services/api";
+
+export const LEAVE_STATUS_STYLES: Record<LeaveRequestStatus, string> = {
+  pending: "bg-amber-100 text-amber-700",
+  approved: "bg-green-100 text-green-700",
+  rejected: "bg-red-100 text-red-700",
+  cancelled: "bg-gray-100 text-gray-600",
+};
+
+export const formatLeaveRange = (leave: LeaveRequest) =>
+  leave.start_date === leave.end_date
+    ? new Date(leave.start_date).toLocaleDateString()
+    : `${new Date(leave.start_date).toLocaleDateString()} – ${new Date(
+        leave.end_date
+      ).toLocaleDateString()}`;
+
+const today = () => new Date().toISOString().split("T")[0];
+
+// Student applies for leave and follows up on earlier requests
+const LeaveRequests: React.FC = () => {
+  const [leaves, setLeaves] = useState<LeaveRequest[]>([]);
+  const [startDate, setStartDate] = useState(today());
+  const [endDate, setEndDate] = useState(today());
+  const [reason, setReason] = useState("");
+  const [document, setDocument] = useState<File | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadLeaves();
+  }, []);
+
+  const loadLeaves = async () => {
+    try {
+      setLoading(true);
+      setLeaves(await fetchMyLeaveRequests());
+    } catch (error) {
+      console.error("Error loading leave requests:", error);
+      setError("Failed to load your leave requests.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setLoading(true);
+      setError(null);
+      setMessage(null);
+      await submitLeaveRequest({
+        start_date: startDate,
+        end_date: endDate,
+        reason,
+        document,
+      });
+      setMessage("Leave request submitted. You'll be notified once it is reviewed.");
+      setReason("");
+      setDocument(null);
+      setFileInputKey(fileInputKey + 1);
+      await loadLeaves();
+    } catch (error: any) {
+      console.error("Error submitting leave request:", error);
+      setError(error?.response?.data?.message || "Failed to submit the request.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = async (leaveId: number) => {
+    if (!window.confirm("Withdraw this leave request?")) return;
+    try {
+      setLoading(true);
+      setError(null);
+      await cancelLeaveRequest(leaveId);
+      await loadLeaves();
+    } catch (error: any) {
+      setError(error?.response?.data?.message || "Failed to withdraw the request.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDocument = async (leaveId: number) => {
+    try {
+      const detail = await fetchLeaveRequest(leaveId);
+      if (detail.document) window.open(detail.document.fileUrl, "_blank");
+    } catch (error: any) {
+      setError(error?.response?.data?.message || "Failed to open the document.");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-green-50 to-emerald-50 p-4 sm:p-6 md:p-8">
+      <div className="mb-6 sm:mb-8">
+        <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-green-600 to-emerald-600 bg-clip-text text-transparent mb-2">
+          📄 Leave Requests
+        </h1>
+        <p className="text-sm sm:text-base text-gray-600">
+          Apply for leave with a supporting document. Once approved, absences
+          in those dates are marked excused.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <div className="flex items-center">
+            <span className="text-2xl mr-3">⚠️</span>
+            <p className="text-red-700 font-medium">{error}</p>
+          </div>
+        </div>
+      )}
+      {message && (
+        <div className="mb-6 bg-green-50 border-l-4 border-green-500 p-4 rounded-lg">
+          <p className="text-green-700 font-medium">{message}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* New request */}
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white rounded-2xl shadow-xl p-4 sm:p-6 space-y-4"
+        >
+          <h2 className="text-lg font-bold text-gray-800">New request</h2>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+              <input
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                required
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              placeholder="e.g. Fever, doctor advised rest"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Supporting document (PDF, JPEG or PNG, up to 5MB)
+            </label>
+            <input
+              key={fileInputKey}
+              type="file"
+              accept=".pdf,.jpg,.jpeg,.png"
+              onChange={(e) => setDocument(e.target.files?.[0] || null)}
+              className="text-sm"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={loading}
+            className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+          >
+            Submit request
+          </button>
+        </form>
+
+        {/* Earlier requests */}
+        <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6">
+          <h2 className="text-lg font-bold text-gray-800 mb-4">My requests</h2>
+          {leaves.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              {loading ? "Loading..." : "You haven't requested any leave yet."}
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {leaves.map((leave) => (
+                <li key={leave.leave_id} className="border border-gray-200 rounded-xl p-4">
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
+                    <span className="font-semibold text-gray-800">{formatLeaveRange(leave)}</span>
+                    <span
+                      className={`text-xs font-semibold px-2 py-1 rounded-full ${LEAVE_STATUS_STYLES[leave.status]}`}
+                    >
+                      {leave.status}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700">{leave.reason}</p>
+                  {leave.review_comment && (
+                    <p className="text-xs text-gray-600 mt-1">💬 {leave.review_comment}</p>
+                  )}
+                  {leave.status === "approved" && (
+                    <p className="text-xs text-green-700 mt-1">
+                      {leave.excused_records} absence(s) excused
+                    </p>
+                  )}
+                  <div className="flex gap-3 mt-2 text-xs">
+                    {leave.document_name && (
+                      <button
+                        onClick={() => openDocument(leave.leave_id)}
+                        className="text-emerald-700 hover:underline"
+                      >
+                        📎 {leave.document_name}
+                      </button>
+                    )}
+                    {leave.status === "pending" && (
+                      <button
+                        onClick={() => handleCancel(leave.leave_id)}
+                        disabled={loading}
+                        className="text-red-600 hover:underline"
+                      >
+                        Withdraw
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LeaveRequests;
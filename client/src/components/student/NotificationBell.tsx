@@ -108,6 +108,10 @@ const NotificationBell: React.FC = () => {
         return '📝';
       case 'announcement':
         return '📢';
+      case 'leave_request':
+        return '📄';
+      case 'attendance_dispute':
+        return '⚖️';
       default:
         return '🔔';
     }
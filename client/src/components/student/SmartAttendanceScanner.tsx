@@ -8,6 +8,19 @@ import {
   Html5QrcodeScanType,
 } from "html5-qrcode";
 import Webcam from "react-webcam";
+import {
+  LIVENESS_PROMPTS,
+  LivenessChallenge,
+  LivenessStep,
+  runLivenessStep,
+  signLivenessSummary,
+} from "../../utils/liveness";
+import {
+  deviceKeysSupported,
+  ensureDeviceRegistered,
+  signedDeviceHeaders,
+} from "../../utils/deviceKey";
+import { StudentDevice } from "../../services/api";
 
 interface SmartAttendanceScannerProps {
   studentId: number;
@@ -31,6 +44,12 @@ const SmartAttendanceScanner: React.FC<SmartAttendanceScannerProps> = ({
   );
   const [cameraPermission, setCameraPermission] = useState<string>("prompt");
   const [scannerInitializing, setScannerInitializing] = useState(false);
+  const [livenessPrompt, setLivenessPrompt] = useState<string | null>(null);
+  const [device, setDevice] = useState<StudentDevice | null>(null);
+  const [deviceError, setDeviceError] = useState<string>("");
+  const [reenrollmentReason, setReenrollmentReason] = useState<string | null>(
+    null
+  );
 
   const webcamRef = useRef<Webcam>(null);
   const qrScannerRef = useRef<Html5QrcodeScanner | null>(null);
@@ -53,6 +72,7 @@ const SmartAttendanceScanner: React.FC<SmartAttendanceScannerProps> = ({
         );
         const data = await response.json();
         setFaceEnrolled((data.totalFaces || 0) >= 3); // Require at least 3 face samples
+        setReenrollmentReason(data.templates?.reenrollmentReason || null);
       } catch (err) {
         console.error("Error checking face enrollment:", err);
         setFaceEnrolled(false);
@@ -61,6 +81,29 @@ const SmartAttendanceScanner: React.FC<SmartAttendanceScannerProps> = ({
     checkFaceEnrollment();
   }, [studentId]);
 
+  // Scans are signed with this browser's device key; register it if needed
+  const checkDevice = async () => {
+    setDeviceError("");
+    if (!deviceKeysSupported()) {
+      setDeviceError(
+        "This browser can't create a device key. Open the app over HTTPS in an up-to-date browser."
+      );
+      return;
+    }
+    try {
+      setDevice(await ensureDeviceRegistered());
+    } catch (err: any) {
+      console.error("Error registering device:", err);
+      setDeviceError(
+        err?.response?.data?.message || "Couldn't register this device. Please try again."
+      );
+    }
+  };
+
+  useEffect(() => {
+    checkDevice();
+  }, [studentId]);
+
   // Check camera permission
   useEffect(() => {
     const checkCameraPermission = async () => {
@@ -324,16 +367,22 @@ const SmartAttendanceScanner: React.FC<SmartAttendanceScannerProps> = ({
       const token = localStorage.getItem("token");
       const API_URL =
         process.env.REACT_APP_API_URL || "http://localhost:5000/api";
+      const body = JSON.stringify({ qrToken });
       const response = await fetch(`${API_URL}/smart-attendance/validate-qr`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${token}`,
+          ...(await signedDeviceHeaders("validate-qr", body)),
         },
-        body: JSON.stringify({ qrToken }),
+        body,
       });
 
       const data = await response.json();
+      if (data.code === "device_required" || data.code === "device_pending") {
+        // Registration changed since the page loaded
+        await checkDevice();
+      }
 
       console.log("📥 Response from server:", {
         status: response.status,
@@ -371,10 +420,53 @@ const SmartAttendanceScanner: React.FC<SmartAttendanceScannerProps> = ({
       return;
     }
 
+    // null when the session's policy doesn't require liveness
+    const challenge: LivenessChallenge | null = sessionData?.liveness ?? null;
+    const video = webcamRef.current.video;
+    if (challenge && !video) {
+      setError("Liveness check unavailable. Please scan the QR code again.");
+      return;
+    }
+
     setIsProcessing(true);
     setError("");
 
     try {
+      const startedAt = Date.now();
+      const steps: LivenessStep[] = [];
+      if (challenge && video) {
+        // Liveness: follow the server's prompts, measured on live frames
+        const detectLandmarks = async () => {
+          const result = await faceapi
+            .detectSingleFace(
+              video,
+              new faceapi.TinyFaceDetectorOptions({
+                inputSize: 224,
+                scoreThreshold: 0.5,
+              })
+            )
+            .withFaceLandmarks();
+          return result ? result.landmarks : null;
+        };
+
+        for (const action of challenge.actions) {
+          setLivenessPrompt(LIVENESS_PROMPTS[action]);
+          const step = await runLivenessStep(action, detectLandmarks);
+          if (!step) {
+            setLivenessPrompt(null);
+            setError(
+              `Didn't catch "${LIVENESS_PROMPTS[action]}" in time. Keep your face in the frame and try again.`
+            );
+            setIsProcessing(false);
+            return;
+          }
+          steps.push(step);
+        }
+        setLivenessPrompt("🙂 Look straight at the camera");
+        await new Promise((resolve) => setTimeout(resolve, 800));
+        setLivenessPrompt(null);
+      }
+
       const imageSrc = webcamRef.current.getScreenshot();
       if (!imageSrc) {
         setError("Failed to capture image");
@@ -410,33 +502,54 @@ const SmartAttendanceScanner: React.FC<SmartAttendanceScannerProps> = ({
         return;
       }
 
+      const faceDescriptor = Array.from(detection.descriptor);
+      const liveness = challenge
+        ? await signLivenessSummary(
+            challenge,
+            startedAt,
+            Date.now(),
+            steps,
+            faceDescriptor
+          )
+        : undefined;
+
       // Send to backend for verification
       const token = localStorage.getItem("token");
       const API_URL =
         process.env.REACT_APP_API_URL || "http://localhost:5000/api";
+      const body = JSON.stringify({
+        sessionId: sessionData.sessionId,
+        scanTicket: sessionData.scanTicket,
+        faceDescriptor,
+        faceImageBase64: imageSrc,
+        locationLat: location.lat,
+        locationLng: location.lng,
+        liveness,
+      });
       const response = await fetch(`${API_URL}/smart-attendance/verify-face`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${token}`,
+          ...(await signedDeviceHeaders("verify-face", body)),
         },
-        body: JSON.stringify({
-          sessionId: sessionData.sessionId,
-          studentId: studentId,
-          faceDescriptor: Array.from(detection.descriptor),
-          faceImageBase64: imageSrc,
-          locationLat: location.lat,
-          locationLng: location.lng,
-        }),
+        body,
       });
 
       const data = await response.json();
 
       if (!response.ok) {
+        if (challenge) {
+          // The server spends a liveness challenge on its first use; the next
+          // QR scan issues a fresh one
+          setStep("qr");
+          setCountdown(60);
+        }
         throw new Error(data.error || "Face verification failed");
       }
 
       // Success!
+      setReenrollmentReason(data.reenrollmentReason || null);
       setSuccess(
         `Attendance marked! Confidence: ${(data.scan.confidence * 100).toFixed(
           1
@@ -449,19 +562,46 @@ const SmartAttendanceScanner: React.FC<SmartAttendanceScannerProps> = ({
       }, 3000);
     } catch (err: any) {
       console.error("Error verifying face:", err);
+      setLivenessPrompt(null);
       setError(err.message || "Failed to verify face");
       setIsProcessing(false);
     }
   };
 
+  // Only an approved device can scan
+  if (deviceError || (device && device.status !== "active")) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+          <div className="text-5xl mb-4">📱</div>
+          <h2 className="text-2xl font-bold text-gray-800 mb-3">
+            {deviceError ? "Device Not Registered" : "Waiting for Device Approval"}
+          </h2>
+          <p className="text-gray-600 mb-6">
+            {deviceError ||
+              "This is a new device for your account. A coordinator has been asked to approve it; you'll get a notification once you can scan attendance here."}
+          </p>
+          <button
+            onClick={checkDevice}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition"
+          >
+            Check Again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   // Check if face enrollment status is still loading
-  if (faceEnrolled === null || !modelsLoaded) {
+  if (faceEnrolled === null || !modelsLoaded || !device) {
     return (
       <div className="flex justify-center items-center min-h-screen">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
           <p className="text-gray-600">
-            {faceEnrolled === null
+            {!device
+              ? "Checking this device..."
+              : faceEnrolled === null
               ? "Checking enrollment status..."
               : "Loading face detection models..."}
           </p>
@@ -540,6 +680,23 @@ const SmartAttendanceScanner: React.FC<SmartAttendanceScannerProps> = ({
           Smart Attendance Scanner
         </h2>
 
+        {reenrollmentReason && (
+          <div className="bg-amber-50 border-l-4 border-amber-500 p-4 mb-6 flex flex-wrap items-center justify-between gap-3">
+            <p className="text-amber-800 text-sm">
+              📸 Your face samples need updating so smart attendance keeps
+              recognising you.
+            </p>
+            <button
+              onClick={() =>
+                (window.location.href = "/student/face-enrollment")
+              }
+              className="px-4 py-2 bg-amber-600 text-white rounded-lg text-sm font-semibold hover:bg-amber-700 transition"
+            >
+              Enroll Again
+            </button>
+          </div>
+        )}
+
         {/* Step Indicator */}
         <div className="flex justify-center mb-8">
           <div className="flex items-center space-x-4">
@@ -694,7 +851,8 @@ const SmartAttendanceScanner: React.FC<SmartAttendanceScannerProps> = ({
                 Step 2: Face Verification - Time remaining: {countdown}s
               </p>
               <p className="text-orange-600 text-sm mt-2">
-                Position your face in the frame and click "Verify Face"
+                Position your face in the frame and click "Verify Face", then
+                follow the prompts on screen (blink, turn or smile)
               </p>
             </div>
 
@@ -708,7 +866,7 @@ const SmartAttendanceScanner: React.FC<SmartAttendanceScannerProps> = ({
                   width={640}
                   height={480}
                 />
-                {isProcessing && (
+                {isProcessing && !livenessPrompt && (
                   <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50 rounded-lg">
                     <div className="text-white text-xl">Verifying...</div>
                   </div>
@@ -721,6 +879,12 @@ const SmartAttendanceScanner: React.FC<SmartAttendanceScannerProps> = ({
               </div>
             </div>
 
+            {livenessPrompt && (
+              <p className="text-center text-2xl font-bold text-blue-700 mb-4">
+                {livenessPrompt}
+              </p>
+            )}
+
             <div className="flex justify-center">
               <button
                 onClick={captureFaceAndVerify}
@@ -731,7 +895,11 @@ const SmartAttendanceScanner: React.FC<SmartAttendanceScannerProps> = ({
                     : "bg-blue-600 hover:bg-blue-700"
                 }`}
               >
-                {isProcessing ? "Verifying..." : "Verify Face"}
+                {livenessPrompt
+                  ? "Follow the prompt..."
+                  : isProcessing
+                  ? "Verifying..."
+                  : "Verify Face"}
               </button>
             </div>
           </div>
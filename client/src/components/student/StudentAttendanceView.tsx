@@ -1,6 +1,13 @@
 import React, { useState, useEffect } from "react";
-import { getStudentAttendanceSummary } from "../../services/api";
+import {
+  AttendanceDispute,
+  fetchMyAttendanceDisputes,
+  fetchStudentStreamTicket,
+  getStudentAttendanceSummary,
+  raiseAttendanceDispute,
+} from "../../services/api";
 import { useAuth } from "../../hooks/useAuth";
+import { useSessionEvents } from "../../hooks/useSessionEvents";
 
 interface AttendanceSummary {
   total_classes: number;
@@ -22,7 +29,7 @@ interface CourseWiseAttendance {
 interface AttendanceRecord {
   attendance_id: number;
   date: string;
-  status: "present" | "absent";
+  status: "present" | "absent" | "late" | "excused" | "on_duty" | "medical";
   timetable?: {
     course: {
       course_name: string;
@@ -59,6 +66,17 @@ const StudentAttendanceView: React.FC = () => {
     type: "success" | "error";
     text: string;
   } | null>(null);
+  const [disputes, setDisputes] = useState<AttendanceDispute[]>([]);
+  const [disputeRecord, setDisputeRecord] = useState<AttendanceRecord | null>(
+    null
+  );
+  const [disputeReason, setDisputeReason] = useState("");
+  const [disputeEvidence, setDisputeEvidence] = useState<File | null>(null);
+  const [submittingDispute, setSubmittingDispute] = useState(false);
+
+  useEffect(() => {
+    loadDisputes();
+  }, []);
 
   useEffect(() => {
     console.log("🔍 StudentAttendanceView - Checking user data:", user);
@@ -98,9 +116,29 @@ const StudentAttendanceView: React.FC = () => {
     }
   }, [user]);
 
-  // Auto-refresh every 30 seconds if enabled
+  // Attendance is pushed when a teacher finalizes a session you're in
+  const { connected: liveConnected } = useSessionEvents(
+    autoRefresh && user ? "student" : null,
+    fetchStudentStreamTicket,
+    {
+      "scan-verified": () =>
+        setMessage({
+          type: "success",
+          text: "Your scan was verified. It will be counted when your teacher finalizes attendance.",
+        }),
+      "session-finalized": (data) => {
+        setMessage({
+          type: data.status === "absent" ? "error" : "success",
+          text: `Attendance recorded: ${String(data.status).replace("_", " ")}`,
+        });
+        if (startDate && endDate) loadAttendanceData(startDate, endDate, true);
+      },
+    }
+  );
+
+  // Without live updates, auto-refresh every 30 seconds if enabled
   useEffect(() => {
-    if (!autoRefresh || !startDate || !endDate) return;
+    if (!autoRefresh || liveConnected || !startDate || !endDate) return;
 
     const interval = setInterval(() => {
       console.log("🔄 Auto-refreshing attendance data...");
@@ -108,7 +146,7 @@ const StudentAttendanceView: React.FC = () => {
     }, 30000); // 30 seconds
 
     return () => clearInterval(interval);
-  }, [autoRefresh, startDate, endDate]);
+  }, [autoRefresh, liveConnected, startDate, endDate]);
 
   const loadAttendanceData = async (
     start?: string,
@@ -194,6 +232,53 @@ const StudentAttendanceView: React.FC = () => {
     }
   };
 
+  const loadDisputes = async () => {
+    try {
+      setDisputes(await fetchMyAttendanceDisputes());
+    } catch (error) {
+      console.error("❌ Error loading attendance disputes:", error);
+    }
+  };
+
+  // Latest dispute raised on a record, if any
+  const disputeFor = (record: AttendanceRecord) =>
+    disputes.find(
+      (dispute) =>
+        dispute.table_name === "attendance" &&
+        dispute.record_id === record.attendance_id
+    );
+
+  const handleSubmitDispute = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!disputeRecord) return;
+    try {
+      setSubmittingDispute(true);
+      await raiseAttendanceDispute({
+        record_id: disputeRecord.attendance_id,
+        requested_status: "present",
+        reason: disputeReason,
+        evidence: disputeEvidence,
+      });
+      setMessage({
+        type: "success",
+        text: "Dispute sent to your teacher. You'll be notified once it is resolved.",
+      });
+      setDisputeRecord(null);
+      setDisputeReason("");
+      setDisputeEvidence(null);
+      await loadDisputes();
+    } catch (error: any) {
+      setMessage({
+        type: "error",
+        text: `Failed to raise dispute: ${
+          error.response?.data?.message || error.message || "Unknown error"
+        }`,
+      });
+    } finally {
+      setSubmittingDispute(false);
+    }
+  };
+
   const handleRefresh = () => {
     console.log("🔄 Manual refresh triggered");
     loadAttendanceData(startDate, endDate, true);
@@ -211,6 +296,15 @@ const StudentAttendanceView: React.FC = () => {
     return "text-red-600 bg-red-50";
   };
 
+  const getRecordStatusColor = (status: AttendanceRecord["status"]) => {
+    if (status === "present" || status === "on_duty")
+      return "bg-green-100 text-green-800";
+    if (status === "late") return "bg-yellow-100 text-yellow-800";
+    if (status === "excused" || status === "medical")
+      return "bg-blue-100 text-blue-800";
+    return "bg-red-100 text-red-800";
+  };
+
   const getAttendanceStatusText = (percentage: number) => {
     if (percentage >= 80) return "Good";
     if (percentage >= 60) return "Average";
@@ -271,9 +365,11 @@ const StudentAttendanceView: React.FC = () => {
             <p className="text-sm text-blue-800">
               Your attendance is automatically updated when your teachers mark
               it in their dashboard.
-              {autoRefresh
-                ? " Auto-refresh is enabled - new attendance will appear within 30 seconds."
-                : " Enable auto-refresh to see updates in real-time."}
+              {!autoRefresh
+                ? " Enable auto-refresh to see updates in real-time."
+                : liveConnected
+                ? " Live updates are on - new attendance appears as soon as it is recorded."
+                : " Auto-refresh is enabled - new attendance will appear within 30 seconds."}
             </p>
           </div>
         </div>
@@ -519,6 +615,9 @@ const StudentAttendanceView: React.FC = () => {
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Status
                       </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Dispute
+                      </th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
@@ -565,16 +664,41 @@ const StudentAttendanceView: React.FC = () => {
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <span
-                              className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                                record.status === "present"
-                                  ? "bg-green-100 text-green-800"
-                                  : "bg-red-100 text-red-800"
-                              }`}
+                              className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getRecordStatusColor(
+                                record.status
+                              )}`}
                             >
                               {record.status.charAt(0).toUpperCase() +
-                                record.status.slice(1)}
+                                record.status.slice(1).replace("_", " ")}
                             </span>
                           </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            {(() => {
+                              const dispute = disputeFor(record);
+                              if (dispute && dispute.status !== "withdrawn") {
+                                return (
+                                  <span
+                                    className="text-gray-600"
+                                    title={dispute.resolution_note || ""}
+                                  >
+                                    {dispute.status === "open"
+                                      ? "⏳ Under review"
+                                      : dispute.status === "accepted"
+                                      ? "✅ Corrected"
+                                      : "❌ Rejected"}
+                                  </span>
+                                );
+                              }
+                              return record.status !== "present" ? (
+                                <button
+                                  onClick={() => setDisputeRecord(record)}
+                                  className="text-blue-600 hover:underline"
+                                >
+                                  Dispute
+                                </button>
+                              ) : null;
+                            })()}
+                          </td>
                         </tr>
                       );
                     })}
@@ -588,6 +712,51 @@ const StudentAttendanceView: React.FC = () => {
                 </p>
               </div>
             )}
+
+            {disputeRecord && (
+              <form
+                onSubmit={handleSubmitDispute}
+                className="mt-4 border border-blue-200 bg-blue-50 rounded-lg p-4 space-y-3"
+              >
+                <p className="text-sm font-medium text-gray-800">
+                  Dispute {disputeRecord.timetable?.course?.course_code || "class"}{" "}
+                  on {new Date(disputeRecord.date).toLocaleDateString()} (marked{" "}
+                  {disputeRecord.status.replace("_", " ")})
+                </p>
+                <textarea
+                  value={disputeReason}
+                  onChange={(e) => setDisputeReason(e.target.value)}
+                  rows={2}
+                  required
+                  placeholder="Why should this be marked present?"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+                <div className="flex flex-wrap items-center gap-3">
+                  <input
+                    type="file"
+                    accept=".pdf,.jpg,.jpeg,.png"
+                    onChange={(e) =>
+                      setDisputeEvidence(e.target.files?.[0] || null)
+                    }
+                    className="text-sm"
+                  />
+                  <button
+                    type="submit"
+                    disabled={submittingDispute}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Send dispute
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setDisputeRecord(null)}
+                    className="px-4 py-2 text-sm text-gray-600 hover:underline"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            )}
           </div>
         </>
       )}
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Line, Bar, Pie, Doughnut } from 'react-chartjs-2';
 import { TrendingUp, BarChart3, PieChart, Activity } from 'lucide-react';
+import { AttendanceStatus } from '../../services/api';
 
 interface UnifiedAttendanceRecord {
   id: number;
@@ -10,11 +11,11 @@ interface UnifiedAttendanceRecord {
   course_name: string;
   course_code: string;
   date: string;
-  status: 'present' | 'absent';
+  status: AttendanceStatus;
   method: 'manual' | 'smart';
   time_slot?: string;
   verified_by_face?: boolean;
-  confidence_score?: number;
+  confidence_score?: number | null;
 }
 
 interface AttendanceChartsProps {
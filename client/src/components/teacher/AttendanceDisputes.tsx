@@ -0,0 +1,253 @@
+import React, { useEffect, useState } from "react";
+import {
+  AttendanceDispute,
+  AttendanceDisputeDetail,
+  AttendanceDisputeStatus,
+  fetchAttendanceDispute,
+  fetchAttendanceDisputes,
+  resolveAttendanceDispute,
+} from "../../services/api";
+
+const STATUS_STYLES: Record<AttendanceDisputeStatus, string> = {
+  open: "bg-amber-100 text-amber-700",
+  accepted: "bg-green-100 text-green-700",
+  rejected: "bg-red-100 text-red-700",
+  withdrawn: "bg-gray-100 text-gray-600",
+};
+
+const label = (status: string) => status.replace("_", " ");
+
+const classLabel = (dispute: AttendanceDispute) => {
+  const course = dispute.timetable?.course;
+  return course ? `${course.course_code} - ${course.course_name}` : "Class";
+};
+
+// Teachers resolve disputes on their classes; coordinators see all of them
+const AttendanceDisputes: React.FC = () => {
+  const [disputes, setDisputes] = useState<AttendanceDispute[]>([]);
+  const [status, setStatus] = useState<AttendanceDisputeStatus | "all">("open");
+  const [selected, setSelected] = useState<AttendanceDisputeDetail | null>(null);
+  const [note, setNote] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDisputes();
+  }, [status]);
+
+  const loadDisputes = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setDisputes(await fetchAttendanceDisputes({ status }));
+    } catch (error) {
+      console.error("Error loading attendance disputes:", error);
+      setError("Failed to load disputes. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDispute = async (disputeId: number) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSelected(await fetchAttendanceDispute(disputeId));
+      setNote("");
+    } catch (error: any) {
+      setError(error?.response?.data?.message || "Failed to load the dispute.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResolve = async (decision: "accepted" | "rejected") => {
+    if (!selected) return;
+    try {
+      setLoading(true);
+      setError(null);
+      await resolveAttendanceDispute(selected.dispute_id, decision, note);
+      setMessage(
+        decision === "accepted"
+          ? `Attendance changed to ${label(selected.requested_status)}.`
+          : "Dispute rejected."
+      );
+      setSelected(null);
+      await loadDisputes();
+    } catch (error: any) {
+      console.error("Error resolving attendance dispute:", error);
+      setError(
+        `Failed to resolve dispute: ${error?.response?.data?.message || error.message}`
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 p-4 sm:p-6 md:p-8">
+      <div className="mb-6 sm:mb-8">
+        <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent mb-2">
+          ⚖️ Attendance Disputes
+        </h1>
+        <p className="text-sm sm:text-base text-gray-600">
+          Students asking for an attendance record to be corrected. Accepting
+          changes the record; every change is kept in the audit log.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <div className="flex items-center">
+            <span className="text-2xl mr-3">⚠️</span>
+            <p className="text-red-700 font-medium">{error}</p>
+          </div>
+        </div>
+      )}
+      {message && (
+        <div className="mb-6 bg-green-50 border-l-4 border-green-500 p-4 rounded-lg">
+          <p className="text-green-700 font-medium">{message}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6 mb-6 flex flex-wrap gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Status</label>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as AttendanceDisputeStatus | "all")}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            disabled={loading}
+          >
+            <option value="open">Open</option>
+            <option value="accepted">Accepted</option>
+            <option value="rejected">Rejected</option>
+            <option value="withdrawn">Withdrawn</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+        <button
+          onClick={loadDisputes}
+          disabled={loading}
+          className="bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-60 text-gray-700 px-4 py-2 rounded-lg font-semibold text-sm"
+        >
+          🔄 Refresh
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6">
+          {disputes.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              {loading ? "Loading..." : "No disputes to show."}
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {disputes.map((dispute) => (
+                <li
+                  key={dispute.dispute_id}
+                  onClick={() => openDispute(dispute.dispute_id)}
+                  className={`border rounded-xl p-4 cursor-pointer hover:bg-blue-50 ${
+                    selected?.dispute_id === dispute.dispute_id
+                      ? "border-blue-500"
+                      : "border-gray-200"
+                  }`}
+                >
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
+                    <span className="font-semibold text-gray-800">
+                      {dispute.student?.name} ({dispute.student?.roll_number})
+                    </span>
+                    <span
+                      className={`text-xs font-semibold px-2 py-1 rounded-full ${STATUS_STYLES[dispute.status]}`}
+                    >
+                      {dispute.status}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700">
+                    {classLabel(dispute)} · {new Date(dispute.date).toLocaleDateString()}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {label(dispute.recorded_status)} → {label(dispute.requested_status)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6">
+          {!selected ? (
+            <p className="text-sm text-gray-400">Select a dispute to resolve it.</p>
+          ) : (
+            <div>
+              <h2 className="text-lg font-bold text-gray-800 mb-1">
+                {selected.student?.name} ({selected.student?.roll_number})
+              </h2>
+              <p className="text-sm text-gray-600 mb-3">
+                {classLabel(selected)} · {new Date(selected.date).toLocaleDateString()}
+                {selected.timetable &&
+                  ` · ${selected.timetable.start_time} - ${selected.timetable.end_time}`}
+              </p>
+              <p className="text-sm text-gray-700 mb-1">
+                Marked <strong>{label(selected.recorded_status)}</strong>, asks for{" "}
+                <strong>{label(selected.requested_status)}</strong>
+              </p>
+              <p className="text-sm text-gray-800 mb-4 whitespace-pre-wrap">{selected.reason}</p>
+
+              {selected.evidence ? (
+                <a
+                  href={selected.evidence.fileUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-block mb-4 text-sm text-blue-700 hover:underline"
+                >
+                  📎 {selected.evidence_name || "Evidence"}
+                </a>
+              ) : (
+                <p className="mb-4 text-xs text-gray-400">No evidence attached.</p>
+              )}
+
+              {selected.resolved_at && (
+                <p className="mb-3 text-xs text-gray-600">
+                  {selected.status} {new Date(selected.resolved_at).toLocaleString()}
+                  {selected.resolver?.email && ` by ${selected.resolver.email}`}
+                  {selected.resolution_note && ` — ${selected.resolution_note}`}
+                </p>
+              )}
+
+              {selected.status === "open" && (
+                <div className="flex flex-wrap gap-2">
+                  <input
+                    type="text"
+                    placeholder="Note"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    className="flex-1 min-w-[200px] px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    disabled={loading}
+                  />
+                  <button
+                    onClick={() => handleResolve("accepted")}
+                    disabled={loading}
+                    className="bg-green-600 hover:bg-green-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+                  >
+                    ✅ Accept
+                  </button>
+                  <button
+                    onClick={() => handleResolve("rejected")}
+                    disabled={loading || !note.trim()}
+                    className="bg-red-600 hover:bg-red-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+                  >
+                    ❌ Reject
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AttendanceDisputes;
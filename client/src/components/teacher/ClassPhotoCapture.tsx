@@ -11,6 +11,30 @@ import {
   ArrowLeft,
 } from "lucide-react";
 
+interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface ClassPhotoFace {
+  detectionId: number;
+  bbox: FaceBox;
+  studentId: number | null;
+  confidence: number | null;
+  needsReview: boolean;
+  manuallyTagged: boolean;
+  candidates: Array<{ studentId: number; confidence: number }>;
+}
+
+interface RosterStudent {
+  studentId: number;
+  name: string;
+  rollNumber: string;
+  hasRegisteredFace: boolean;
+}
+
 interface ClassPhotoCaptureProps {
   sessionId: string;
   onPhotoProcessed: (matchedStudentIds: number[]) => void;
@@ -32,6 +56,12 @@ const ClassPhotoCapture: React.FC<ClassPhotoCaptureProps> = ({
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
   const [matchedStudentIds, setMatchedStudentIds] = useState<number[]>([]);
+  // Server matches, shown over the photo for review and manual tagging
+  const [faces, setFaces] = useState<ClassPhotoFace[]>([]);
+  const [roster, setRoster] = useState<RosterStudent[]>([]);
+  const [imageSize, setImageSize] = useState({ width: 1, height: 1 });
+  const [selectedFaceId, setSelectedFaceId] = useState<number | null>(null);
+  const [isTagging, setIsTagging] = useState(false);
 
   const webcamRef = useRef<Webcam>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -153,6 +183,7 @@ const ClassPhotoCapture: React.FC<ClassPhotoCaptureProps> = ({
       }
 
       setDetectedFaces(detections);
+      setImageSize({ width: img.naturalWidth, height: img.naturalHeight });
 
       // Prepare data for backend
       const detectedFacesData = detections.map((detection) => ({
@@ -191,7 +222,21 @@ const ClassPhotoCapture: React.FC<ClassPhotoCaptureProps> = ({
         throw new Error(data.error || "Failed to process class photo");
       }
 
+      const processedFaces: ClassPhotoFace[] = data.faces || [];
       setMatchedStudentIds(data.matchedStudentIds || []);
+      setFaces(processedFaces);
+      setRoster(data.roster || []);
+
+      const toReview = processedFaces.filter(
+        (face) => face.studentId === null || face.needsReview
+      ).length;
+      if (toReview > 0) {
+        setSuccess(
+          `Detected ${detections.length} faces and matched ${data.matchedStudentIds.length} students. ${toReview} face(s) need your review below.`
+        );
+        return;
+      }
+
       setSuccess(
         `Successfully detected ${detections.length} faces and matched ${data.matchedStudentIds.length} students!`
       );
@@ -208,14 +253,73 @@ const ClassPhotoCapture: React.FC<ClassPhotoCaptureProps> = ({
     }
   };
 
+  const handleTagFace = async (detectionId: number, studentId: number | null) => {
+    setIsTagging(true);
+    setError("");
+
+    try {
+      const token = localStorage.getItem("token");
+      const response = await fetch(
+        `${
+          process.env.REACT_APP_API_URL || "http://localhost:5000/api"
+        }/smart-attendance/session/${sessionId}/class-photo/faces/${detectionId}`,
+        {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ studentId }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to tag face");
+      }
+
+      setFaces((prev) =>
+        prev.map((face) => (face.detectionId === detectionId ? data.face : face))
+      );
+      setMatchedStudentIds(data.matchedStudentIds || []);
+      setSelectedFaceId(null);
+    } catch (err: any) {
+      console.error("Error tagging face:", err);
+      setError(err.message || "Failed to tag face");
+    } finally {
+      setIsTagging(false);
+    }
+  };
+
   const handleRetake = () => {
     setCapturedImage("");
     setDetectedFaces([]);
     setError("");
     setSuccess("");
     setMatchedStudentIds([]);
+    setFaces([]);
+    setRoster([]);
+    setSelectedFaceId(null);
+  };
+
+  const studentLabel = (studentId: number | null) => {
+    const student = roster.find((s) => s.studentId === studentId);
+    return student ? `${student.name} (${student.rollNumber})` : "Unknown";
   };
 
+  const faceColor = (face: ClassPhotoFace) =>
+    face.studentId === null
+      ? "border-red-500"
+      : face.needsReview
+      ? "border-yellow-400"
+      : "border-green-500";
+
+  const pendingReview = faces.filter(
+    (face) => face.studentId === null || face.needsReview
+  );
+  const selectedFace = faces.find((face) => face.detectionId === selectedFaceId);
+
   if (!modelsLoaded) {
     return (
       <div className="flex justify-center items-center min-h-screen">
@@ -367,14 +471,161 @@ const ClassPhotoCapture: React.FC<ClassPhotoCaptureProps> = ({
 
         {capturedImage && (
           <div>
-            <div className="mb-6">
-              <img
-                src={capturedImage}
-                alt="Captured class"
-                className="rounded-lg border-4 border-gray-300 max-w-full mx-auto"
-              />
+            <div className="mb-6 flex justify-center">
+              <div className="relative inline-block">
+                <img
+                  src={capturedImage}
+                  alt="Captured class"
+                  className="rounded-lg border-4 border-gray-300 max-w-full block"
+                />
+                {faces.map((face, index) => (
+                  <button
+                    key={face.detectionId}
+                    onClick={() => setSelectedFaceId(face.detectionId)}
+                    title={
+                      face.studentId !== null
+                        ? studentLabel(face.studentId)
+                        : "Unmatched - click to tag"
+                    }
+                    className={`absolute border-2 ${faceColor(face)} ${
+                      selectedFaceId === face.detectionId
+                        ? "ring-4 ring-blue-400"
+                        : ""
+                    }`}
+                    style={{
+                      left: `${(face.bbox.x / imageSize.width) * 100}%`,
+                      top: `${(face.bbox.y / imageSize.height) * 100}%`,
+                      width: `${(face.bbox.width / imageSize.width) * 100}%`,
+                      height: `${(face.bbox.height / imageSize.height) * 100}%`,
+                    }}
+                  >
+                    <span className="absolute -top-5 left-0 bg-black/70 text-white text-xs px-1 rounded">
+                      {index + 1}
+                    </span>
+                  </button>
+                ))}
+              </div>
             </div>
 
+            {faces.length > 0 && (
+              <div className="bg-gray-50 rounded-lg p-6 mb-6">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="font-bold text-xl text-gray-800">
+                    Review Faces
+                  </h3>
+                  <div className="flex space-x-4 text-xs text-gray-600">
+                    <span>🟩 Matched</span>
+                    <span>🟨 Near tie - please confirm</span>
+                    <span>🟥 Unmatched</span>
+                  </div>
+                </div>
+
+                {pendingReview.length === 0 ? (
+                  <p className="text-sm text-gray-600 mb-3">
+                    ✅ Every face is matched. Click a box to change a match.
+                  </p>
+                ) : (
+                  <p className="text-sm text-gray-600 mb-3">
+                    Click a red or yellow box to tag the student by hand.
+                  </p>
+                )}
+
+                {selectedFace && (
+                  <div className="bg-white border-2 border-blue-200 rounded-lg p-4 mb-4">
+                    <p className="font-semibold text-gray-800 mb-2">
+                      Face #
+                      {faces.findIndex(
+                        (face) => face.detectionId === selectedFace.detectionId
+                      ) + 1}
+                      {selectedFace.studentId !== null && (
+                        <span className="font-normal text-gray-600">
+                          {" "}
+                          - currently {studentLabel(selectedFace.studentId)}
+                          {selectedFace.confidence !== null &&
+                            ` (${(selectedFace.confidence * 100).toFixed(1)}%)`}
+                        </span>
+                      )}
+                    </p>
+
+                    {selectedFace.candidates.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mb-3">
+                        {selectedFace.candidates.map((candidate) => (
+                          <button
+                            key={candidate.studentId}
+                            onClick={() =>
+                              handleTagFace(
+                                selectedFace.detectionId,
+                                candidate.studentId
+                              )
+                            }
+                            disabled={isTagging}
+                            className="px-3 py-1 text-sm rounded-full bg-blue-100 text-blue-800 hover:bg-blue-200"
+                          >
+                            {studentLabel(candidate.studentId)} ·{" "}
+                            {(candidate.confidence * 100).toFixed(1)}%
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="flex items-center space-x-2">
+                      <select
+                        value={selectedFace.studentId ?? ""}
+                        onChange={(e) =>
+                          handleTagFace(
+                            selectedFace.detectionId,
+                            e.target.value ? Number(e.target.value) : null
+                          )
+                        }
+                        disabled={isTagging}
+                        className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                      >
+                        <option value="">Not a student on the roster</option>
+                        {roster.map((student) => (
+                          <option
+                            key={student.studentId}
+                            value={student.studentId}
+                            disabled={faces.some(
+                              (face) =>
+                                face.studentId === student.studentId &&
+                                face.detectionId !== selectedFace.detectionId
+                            )}
+                          >
+                            {student.name} ({student.rollNumber})
+                            {!student.hasRegisteredFace && " - no face registered"}
+                          </option>
+                        ))}
+                      </select>
+                      {selectedFace.needsReview && selectedFace.studentId !== null && (
+                        <button
+                          onClick={() =>
+                            handleTagFace(
+                              selectedFace.detectionId,
+                              selectedFace.studentId
+                            )
+                          }
+                          disabled={isTagging}
+                          className="px-4 py-2 text-sm rounded-lg bg-green-600 text-white hover:bg-green-700"
+                        >
+                          Confirm
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex justify-end">
+                  <button
+                    onClick={() => onPhotoProcessed(matchedStudentIds)}
+                    disabled={isTagging}
+                    className="bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-blue-700"
+                  >
+                    Continue to Finalize ({matchedStudentIds.length} matched)
+                  </button>
+                </div>
+              </div>
+            )}
+
             {detectedFaces.length > 0 && (
               <div className="bg-blue-50 rounded-lg p-6 mb-6">
                 <h3 className="font-bold text-xl text-blue-800 mb-3">
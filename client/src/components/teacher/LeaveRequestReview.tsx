@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from "react";
+import {
+  fetchLeaveRequest,
+  fetchLeaveRequests,
+  LeaveRequest,
+  LeaveRequestDetail,
+  LeaveRequestStatus,
+  reviewLeaveRequest,
+} from "../../services/api";
+import { formatLeaveRange, LEAVE_STATUS_STYLES } from "../student/LeaveRequests";
+
+// Teachers review their sections' leave requests; coordinators see all of them
+const LeaveRequestReview: React.FC = () => {
+  const [leaves, setLeaves] = useState<LeaveRequest[]>([]);
+  const [status, setStatus] = useState<LeaveRequestStatus | "all">("pending");
+  const [selected, setSelected] = useState<LeaveRequestDetail | null>(null);
+  const [comment, setComment] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadLeaves();
+  }, [status]);
+
+  const loadLeaves = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setLeaves(await fetchLeaveRequests({ status }));
+    } catch (error) {
+      console.error("Error loading leave requests:", error);
+      setError("Failed to load leave requests. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openLeave = async (leaveId: number) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSelected(await fetchLeaveRequest(leaveId));
+      setComment("");
+    } catch (error: any) {
+      setError(error?.response?.data?.message || "Failed to load the request.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReview = async (decision: "approved" | "rejected") => {
+    if (!selected) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await reviewLeaveRequest(selected.leave_id, decision, comment);
+      setMessage(
+        decision === "approved"
+          ? `Approved; ${result.leave.excused_records} absence(s) marked excused.`
+          : "Request rejected."
+      );
+      setSelected(null);
+      await loadLeaves();
+    } catch (error: any) {
+      console.error("Error reviewing leave request:", error);
+      setError(
+        `Failed to save review: ${error?.response?.data?.message || error.message}`
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-emerald-50 to-teal-50 p-4 sm:p-6 md:p-8">
+      <div className="mb-6 sm:mb-8">
+        <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-emerald-600 to-teal-600 bg-clip-text text-transparent mb-2">
+          📄 Leave Requests
+        </h1>
+        <p className="text-sm sm:text-base text-gray-600">
+          Approving a request marks the student's absences in those dates as
+          excused. A comment is required to reject.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <div className="flex items-center">
+            <span className="text-2xl mr-3">⚠️</span>
+            <p className="text-red-700 font-medium">{error}</p>
+          </div>
+        </div>
+      )}
+      {message && (
+        <div className="mb-6 bg-green-50 border-l-4 border-green-500 p-4 rounded-lg">
+          <p className="text-green-700 font-medium">{message}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6 mb-6 flex flex-wrap gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Status</label>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as LeaveRequestStatus | "all")}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            disabled={loading}
+          >
+            <option value="pending">Pending</option>
+            <option value="approved">Approved</option>
+            <option value="rejected">Rejected</option>
+            <option value="cancelled">Withdrawn</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+        <button
+          onClick={loadLeaves}
+          disabled={loading}
+          className="bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-60 text-gray-700 px-4 py-2 rounded-lg font-semibold text-sm"
+        >
+          🔄 Refresh
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6">
+          {leaves.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              {loading ? "Loading..." : "No leave requests to show."}
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {leaves.map((leave) => (
+                <li
+                  key={leave.leave_id}
+                  onClick={() => openLeave(leave.leave_id)}
+                  className={`border rounded-xl p-4 cursor-pointer hover:bg-emerald-50 ${
+                    selected?.leave_id === leave.leave_id
+                      ? "border-emerald-500"
+                      : "border-gray-200"
+                  }`}
+                >
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
+                    <span className="font-semibold text-gray-800">
+                      {leave.student?.name} ({leave.student?.roll_number})
+                    </span>
+                    <span
+                      className={`text-xs font-semibold px-2 py-1 rounded-full ${LEAVE_STATUS_STYLES[leave.status]}`}
+                    >
+                      {leave.status}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700">{formatLeaveRange(leave)}</p>
+                  <p className="text-xs text-gray-500 mt-1 truncate">{leave.reason}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6">
+          {!selected ? (
+            <p className="text-sm text-gray-400">Select a request to review it.</p>
+          ) : (
+            <div>
+              <h2 className="text-lg font-bold text-gray-800 mb-1">
+                {selected.student?.name} ({selected.student?.roll_number})
+              </h2>
+              <p className="text-sm text-gray-600 mb-3">
+                {formatLeaveRange(selected)} · requested{" "}
+                {new Date(selected.created_at).toLocaleString()}
+              </p>
+              <p className="text-sm text-gray-800 mb-4 whitespace-pre-wrap">{selected.reason}</p>
+
+              {selected.document ? (
+                <a
+                  href={selected.document.fileUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-block mb-4 text-sm text-emerald-700 hover:underline"
+                >
+                  📎 {selected.document_name || "Supporting document"}
+                </a>
+              ) : (
+                <p className="mb-4 text-xs text-gray-400">No supporting document attached.</p>
+              )}
+
+              {selected.reviewed_at && (
+                <p className="mb-3 text-xs text-gray-600">
+                  {selected.status} {new Date(selected.reviewed_at).toLocaleString()}
+                  {selected.reviewer?.email && ` by ${selected.reviewer.email}`}
+                  {selected.review_comment && ` — ${selected.review_comment}`}
+                </p>
+              )}
+
+              {selected.status === "pending" && (
+                <div className="flex flex-wrap gap-2">
+                  <input
+                    type="text"
+                    placeholder="Comment"
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    className="flex-1 min-w-[200px] px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    disabled={loading}
+                  />
+                  <button
+                    onClick={() => handleReview("approved")}
+                    disabled={loading}
+                    className="bg-green-600 hover:bg-green-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+                  >
+                    ✅ Approve
+                  </button>
+                  <button
+                    onClick={() => handleReview("rejected")}
+                    disabled={loading || !comment.trim()}
+                    className="bg-red-600 hover:bg-red-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+                  >
+                    ❌ Reject
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LeaveRequestReview;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from "react";
 import { Clock, MapPin, RefreshCw, ArrowRight } from "lucide-react";
+import RotatingQRCode from "./RotatingQRCode";
 
 interface TimetableSlot {
   schedule_id: number;
@@ -17,6 +18,10 @@ interface SessionData {
   expiresAt: string;
   isExpired: boolean;
   qrCodeUrl?: string;
+  rotation?: {
+    intervalSeconds: number;
+    nextRotationAt?: string;
+  } | null;
   scans?: {
     total: number;
     verified: number;
@@ -181,7 +186,13 @@ const QRDisplay: React.FC<QRDisplayProps> = ({
           <div className="w-96 h-96 bg-white border-8 border-gray-800 rounded-lg flex items-center justify-center shadow-2xl">
             <div className="text-center">
               <div className="w-80 h-80 bg-white rounded flex items-center justify-center">
-                {qrCodeUrl ? (
+                {sessionData.rotation && !isExpired ? (
+                  <RotatingQRCode
+                    sessionId={sessionData.sessionId}
+                    initialQrCodeUrl={qrCodeUrl || sessionData.qrCodeUrl}
+                    initialNextRotationAt={sessionData.rotation.nextRotationAt}
+                  />
+                ) : qrCodeUrl ? (
                   <img
                     src={qrCodeUrl}
                     alt="QR Code for Attendance"
@@ -253,7 +264,9 @@ const QRDisplay: React.FC<QRDisplayProps> = ({
         {/* QR Code Info */}
         <div className="mt-6 text-center text-sm text-gray-600 bg-blue-50 rounded-lg p-4">
           <p className="font-semibold mb-1">
-            ✅ QR Code valid for 60 seconds from generation
+            {sessionData.rotation
+              ? `🔁 The code changes every ${sessionData.rotation.intervalSeconds} seconds, so photos of it stop working almost immediately`
+              : "✅ QR Code valid for 60 seconds from generation"}
           </p>
           <p>⏱️ Face verification timeout: 60 seconds</p>
           <p className="mt-2">
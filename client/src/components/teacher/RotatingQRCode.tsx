@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from "react";
+
+interface RotatingQRCodeProps {
+  sessionId: string;
+  initialQrCodeUrl?: string;
+  initialNextRotationAt?: string;
+  className?: string;
+}
+
+// Shows a rotating session's QR code and fetches the next one as each step ends
+const RotatingQRCode: React.FC<RotatingQRCodeProps> = ({
+  sessionId,
+  initialQrCodeUrl,
+  initialNextRotationAt,
+  className = "w-full h-full object-contain",
+}) => {
+  const [qrCodeUrl, setQrCodeUrl] = useState(initialQrCodeUrl || "");
+  const [nextRotationAt, setNextRotationAt] = useState(initialNextRotationAt);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [stopped, setStopped] = useState(false);
+
+  useEffect(() => {
+    if (stopped) return;
+
+    let cancelled = false;
+    const fetchCurrent = async () => {
+      try {
+        const token = localStorage.getItem("token");
+        const API_URL =
+          process.env.REACT_APP_API_URL || "http://localhost:5000/api";
+        const response = await fetch(
+          `${API_URL}/smart-attendance/session/${sessionId}/qr`,
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+        const data = await response.json();
+        if (cancelled) return;
+        if (!response.ok) {
+          // Session expired or completed: keep the last code, stop rotating
+          setStopped(true);
+          return;
+        }
+        setQrCodeUrl(data.qrCode);
+        setNextRotationAt(data.rotation?.nextRotationAt);
+      } catch (err) {
+        console.error("Error fetching rotating QR code:", err);
+      }
+    };
+
+    // Refresh just after the step ends; retry in a second if the clock is unknown
+    const delay = nextRotationAt
+      ? Math.max(250, new Date(nextRotationAt).getTime() - Date.now() + 250)
+      : 1000;
+    const timer = setTimeout(fetchCurrent, delay);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [sessionId, nextRotationAt, stopped]);
+
+  useEffect(() => {
+    const tick = () =>
+      setSecondsLeft(
+        nextRotationAt
+          ? Math.max(
+              0,
+              Math.ceil((new Date(nextRotationAt).getTime() - Date.now()) / 1000)
+            )
+          : 0
+      );
+    tick();
+    const interval = setInterval(tick, 500);
+    return () => clearInterval(interval);
+  }, [nextRotationAt]);
+
+  return (
+    <div className="flex flex-col items-center w-full h-full">
+      {qrCodeUrl && (
+        <img
+          src={qrCodeUrl}
+          alt="QR Code for Attendance"
+          className={`${className} min-h-0 flex-1`}
+        />
+      )}
+      <p className="text-xs font-semibold text-indigo-700 mt-1">
+        {stopped ? "Session closed" : `🔁 New code in ${secondsLeft}s`}
+      </p>
+    </div>
+  );
+};
+
+export default RotatingQRCode;
@@ -9,8 +9,11 @@ import {
   AlertCircle,
 } from "lucide-react";
 import QRDisplay from "./QRDisplay";
+import RotatingQRCode from "./RotatingQRCode";
 import ClassPhotoCapture from "./ClassPhotoCapture";
 import { useAuth } from "../../hooks/useAuth";
+import { useSessionEvents } from "../../hooks/useSessionEvents";
+import { fetchSessionStreamTicket } from "../../services/api";
 
 interface TimetableSlot {
   schedule_id: number;
@@ -29,6 +32,17 @@ interface ScannedStudent {
   status: "verified" | "rejected" | "pending";
   confidence: number;
   distance: number;
+  livenessPassed?: boolean | null;
+  rejectionReason?: string | null;
+}
+
+// A scan rejected before a record was stored, e.g. from outside the geofence
+interface RejectedAttempt {
+  studentId: number;
+  studentName: string | null;
+  rollNumber: string | null;
+  reason: string | null;
+  at: string;
 }
 
 interface EligibleStudent {
@@ -37,6 +51,14 @@ interface EligibleStudent {
   rollNumber: string;
 }
 
+interface QRRotation {
+  intervalSeconds: number;
+  step?: number;
+  nextRotationAt?: string;
+  staleStepValidations?: number;
+  expiredStepRejections?: number;
+}
+
 interface SessionData {
   sessionId: string;
   scheduleId: number;
@@ -44,11 +66,13 @@ interface SessionData {
   expiresAt: string;
   isExpired: boolean;
   qrCodeUrl?: string;
+  rotation?: QRRotation | null;
   scans: {
     total: number;
     verified: number;
     rejected: number;
     pending: number;
+    livenessFailed?: number;
     records: ScannedStudent[];
   };
   eligibleStudents?: EligibleStudent[];
@@ -90,6 +114,11 @@ const SmartAttendanceDashboard: React.FC = () => {
   const [finalizing, setFinalizing] = useState(false);
   const [attendanceSummary, setAttendanceSummary] = useState<any>(null);
   const [currentDateTime, setCurrentDateTime] = useState(new Date());
+  // Seconds between QR code changes; 0 shows one static code for the session
+  const [rotationInterval, setRotationInterval] = useState(10);
+  const [rejectedAttempts, setRejectedAttempts] = useState<RejectedAttempt[]>(
+    []
+  );
 
   // Update current date and time every second
   useEffect(() => {
@@ -170,15 +199,83 @@ const SmartAttendanceDashboard: React.FC = () => {
     fetchTimetable();
   }, [teacherId, user]);
 
-  // Poll session status every 5 seconds when monitoring
+  // Scans, class-photo results and finalization are pushed as they happen
+  const liveSessionId =
+    currentStep !== "select" && sessionData?.sessionId
+      ? sessionData.sessionId
+      : null;
+  const { connected: liveConnected } = useSessionEvents(
+    liveSessionId,
+    () => fetchSessionStreamTicket(liveSessionId as string),
+    {
+      "scan-verified": (data) => applyScanEvent(data.scan),
+      "scan-rejected": (data) => applyScanEvent(data.scan),
+      "class-photo-processed": () => fetchSessionStatus(),
+      "session-finalized": () => fetchSessionStatus(),
+    }
+  );
+
+  // Catch up on anything missed while the stream was down
+  useEffect(() => {
+    if (liveConnected) {
+      fetchSessionStatus();
+    }
+  }, [liveConnected]);
+
+  // Fall back to polling every 5 seconds while live updates are unavailable
   useEffect(() => {
-    if (currentStep === "monitor" && sessionData?.sessionId) {
+    if (currentStep === "monitor" && sessionData?.sessionId && !liveConnected) {
       const interval = setInterval(() => {
         fetchSessionStatus();
       }, 5000);
       return () => clearInterval(interval);
     }
-  }, [currentStep, sessionData?.sessionId]);
+  }, [currentStep, sessionData?.sessionId, liveConnected]);
+
+  const applyScanEvent = (scan: any) => {
+    if (!scan) return;
+
+    if (!scan.scanId) {
+      setRejectedAttempts((prev) =>
+        [
+          {
+            studentId: scan.studentId,
+            studentName: scan.studentName,
+            rollNumber: scan.rollNumber,
+            reason: scan.rejectionReason,
+            at: new Date().toISOString(),
+          },
+          ...prev,
+        ].slice(0, 10)
+      );
+      return;
+    }
+
+    setSessionData((prev) => {
+      if (!prev) return prev;
+      const previous = prev.scans?.records || [];
+      const records = [
+        scan as ScannedStudent,
+        ...previous.filter((record) => record.scanId !== scan.scanId),
+      ];
+      const count = (status: ScannedStudent["status"]) =>
+        records.filter((record) => record.status === status).length;
+
+      return {
+        ...prev,
+        scans: {
+          total: records.length,
+          verified: count("verified"),
+          rejected: count("rejected"),
+          pending: count("pending"),
+          livenessFailed: records.filter(
+            (record) => record.livenessPassed === false
+          ).length,
+          records,
+        },
+      };
+    });
+  };
 
   const fetchSessionStatus = async () => {
     if (!sessionData?.sessionId) {
@@ -227,6 +324,9 @@ const SmartAttendanceDashboard: React.FC = () => {
           status: data.session.status,
           expiresAt: data.session.expiresAt || prev.expiresAt,
           isExpired: data.session.isExpired,
+          rotation: data.session.rotation
+            ? { ...prev.rotation, ...data.session.rotation }
+            : prev.rotation,
           scans: data.scans,
           eligibleStudents:
             data.eligibleStudents || prev.eligibleStudents || [],
@@ -249,6 +349,7 @@ const SmartAttendanceDashboard: React.FC = () => {
     setLoadingScheduleId(slot.schedule_id);
     setError("");
     setSessionData(null); // Clear old session data
+    setRejectedAttempts([]);
 
     console.log("🔄 Generating NEW QR code for slot:", slot);
 
@@ -274,10 +375,10 @@ const SmartAttendanceDashboard: React.FC = () => {
               },
               body: JSON.stringify({
                 scheduleId: slot.schedule_id,
-                teacherId: teacherId,
                 locationLat: position.coords.latitude,
                 locationLng: position.coords.longitude,
                 forceNew: true, // Always create a new session
+                rotationIntervalSeconds: rotationInterval || undefined,
               }),
             }
           );
@@ -309,6 +410,7 @@ const SmartAttendanceDashboard: React.FC = () => {
             expiresAt: expiresAt,
             isExpired: false,
             qrCodeUrl: data.qrCode,
+            rotation: data.rotation,
             scans: {
               total: 0,
               verified: 0,
@@ -544,8 +646,24 @@ const SmartAttendanceDashboard: React.FC = () => {
           <h2 className="text-2xl font-bold">
             Select Class for Smart Attendance
           </h2>
-          <div className="bg-blue-100 text-blue-800 px-4 py-2 rounded-lg font-semibold">
-            📅 Today: {today}
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              🔁 QR code
+              <select
+                value={rotationInterval}
+                onChange={(e) => setRotationInterval(Number(e.target.value))}
+                className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value={5}>changes every 5s</option>
+                <option value={10}>changes every 10s</option>
+                <option value={20}>changes every 20s</option>
+                <option value={30}>changes every 30s</option>
+                <option value={0}>static</option>
+              </select>
+            </label>
+            <div className="bg-blue-100 text-blue-800 px-4 py-2 rounded-lg font-semibold">
+              📅 Today: {today}
+            </div>
           </div>
         </div>
         {timetableSlots.length === 0 ? (
@@ -617,14 +735,55 @@ const SmartAttendanceDashboard: React.FC = () => {
       <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-2xl font-bold">Scan Monitoring</h2>
-          <button
-            onClick={fetchSessionStatus}
-            className="text-blue-600 hover:text-blue-800"
-          >
-            Refresh
-          </button>
+          <div className="flex items-center space-x-4">
+            <span
+              className={`text-xs font-semibold px-2 py-1 rounded-full ${
+                liveConnected
+                  ? "bg-green-100 text-green-700"
+                  : "bg-gray-100 text-gray-600"
+              }`}
+              title={
+                liveConnected
+                  ? "Scans appear as soon as they are verified"
+                  : "Live updates unavailable; refreshing every 5 seconds"
+              }
+            >
+              {liveConnected ? "● Live" : "○ Polling"}
+            </span>
+            <button
+              onClick={fetchSessionStatus}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              Refresh
+            </button>
+          </div>
         </div>
 
+        {sessionData?.rotation && (
+          <div className="mb-4 flex flex-wrap items-center gap-4 bg-indigo-50 text-indigo-800 px-4 py-3 rounded-lg text-sm">
+            {!sessionData.isExpired && (
+              <div className="w-32 h-36 bg-white rounded-lg p-1">
+                <RotatingQRCode
+                  sessionId={sessionData.sessionId}
+                  initialQrCodeUrl={sessionData.qrCodeUrl}
+                  initialNextRotationAt={sessionData.rotation.nextRotationAt}
+                />
+              </div>
+            )}
+            <span>
+              🔁 QR code changes every {sessionData.rotation.intervalSeconds}s
+            </span>
+            <span title="Scans accepted with the code shown just before the current one">
+              ⏳ Stale-step scans:{" "}
+              <strong>{sessionData.rotation.staleStepValidations || 0}</strong>
+            </span>
+            <span title="Scans rejected because the code was older than that, e.g. a forwarded photo">
+              🚫 Expired-code scans:{" "}
+              <strong>{sessionData.rotation.expiredStepRejections || 0}</strong>
+            </span>
+          </div>
+        )}
+
         <div className="grid grid-cols-4 gap-4 mb-6">
           <div className="bg-blue-50 p-4 rounded-lg text-center">
             <p className="text-3xl font-bold text-blue-600">
@@ -643,6 +802,11 @@ const SmartAttendanceDashboard: React.FC = () => {
               {sessionData?.scans?.rejected || 0}
             </p>
             <p className="text-sm text-gray-600">Rejected</p>
+            {!!sessionData?.scans?.livenessFailed && (
+              <p className="text-xs text-red-500 mt-1">
+                {sessionData.scans.livenessFailed} failed liveness
+              </p>
+            )}
           </div>
           <div className="bg-yellow-50 p-4 rounded-lg text-center">
             <p className="text-3xl font-bold text-yellow-600">
@@ -652,6 +816,19 @@ const SmartAttendanceDashboard: React.FC = () => {
           </div>
         </div>
 
+        {rejectedAttempts.length > 0 && (
+          <div className="mb-4 bg-red-50 text-red-800 px-4 py-3 rounded-lg text-sm space-y-1">
+            {rejectedAttempts.map((attempt) => (
+              <p key={`${attempt.studentId}-${attempt.at}`}>
+                📍 {attempt.studentName || `Student #${attempt.studentId}`}
+                {attempt.rollNumber && ` (${attempt.rollNumber})`} tried to
+                check in from outside the classroom at{" "}
+                {new Date(attempt.at).toLocaleTimeString()}
+              </p>
+            ))}
+          </div>
+        )}
+
         <div className="space-y-2 max-h-96 overflow-y-auto">
           {sessionData?.scans?.records &&
           sessionData.scans.records.length > 0 ? (
@@ -680,9 +857,15 @@ const SmartAttendanceDashboard: React.FC = () => {
                   </div>
                 </div>
                 <div className="text-right">
-                  <p className="text-sm font-semibold">
-                    Confidence: {(scan.confidence * 100).toFixed(1)}%
-                  </p>
+                  {scan.livenessPassed === false ? (
+                    <p className="text-sm font-semibold text-red-700">
+                      🙈 Liveness check failed
+                    </p>
+                  ) : (
+                    <p className="text-sm font-semibold">
+                      Confidence: {(scan.confidence * 100).toFixed(1)}%
+                    </p>
+                  )}
                   <p className="text-xs text-gray-600">
                     Distance: {scan.distance}m
                   </p>
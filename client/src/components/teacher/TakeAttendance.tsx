@@ -1,7 +1,21 @@
 ﻿import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useTheme } from '../../hooks/useTheme';
-import { api, fetchRosterForSchedule, submitAttendanceBulk } from '../../services/api';
+import { api, AttendanceStatus, AttendanceSyncResult, fetchRosterForSchedule } from '../../services/api';
+import {
+    cacheClasses,
+    cachedClasses,
+    cacheRoster,
+    cachedRoster,
+    dismissAttention,
+    isNetworkError,
+    needsAttention,
+    pendingMarkCount,
+    queueMarks,
+    refusedMarkCount,
+    requeueRejected,
+    syncPending,
+} from '../../services/offlineAttendance';
 import { 
     Calendar, 
     Clock, 
@@ -15,14 +29,17 @@ import {
     UserCheck,
     UserX,
     BookOpen,
-    Loader
+    Loader,
+    WifiOff,
+    RefreshCw,
+    AlertTriangle
 } from 'lucide-react';
 
 interface Student {
     student_id: number;
     name: string;
     roll_number: string;
-    status: 'present' | 'absent' | null;
+    status: AttendanceStatus | null;
 }
 
 interface ClassInfo {
@@ -35,27 +52,89 @@ interface ClassInfo {
     date: string;
 }
 
+// Present and absent get the large buttons; the rest sit beside them
+const EXTRA_STATUSES: { status: AttendanceStatus; label: string; active: string; idle: string }[] = [
+    { status: 'late', label: 'Late', active: 'bg-amber-500 text-white', idle: 'bg-amber-100 text-amber-700 hover:bg-amber-200' },
+    { status: 'on_duty', label: 'On duty', active: 'bg-indigo-600 text-white', idle: 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200' },
+    { status: 'excused', label: 'Excused', active: 'bg-sky-600 text-white', idle: 'bg-sky-100 text-sky-700 hover:bg-sky-200' },
+    { status: 'medical', label: 'Medical', active: 'bg-purple-600 text-white', idle: 'bg-purple-100 text-purple-700 hover:bg-purple-200' },
+];
+
+// Why the server kept its own mark instead of the offline one
+const CONFLICT_REASONS: Record<string, string> = {
+    verified_presence: 'The student was verified present by a scan or class photo',
+    newer_server_mark: 'The mark was changed on the server after you marked offline',
+    invalid: 'Could not be recorded',
+};
+
 const TakeAttendance: React.FC = () => {
     const { theme } = useTheme();
     const [classes, setClasses] = useState<ClassInfo[]>([]);
     const [selectedClass, setSelectedClass] = useState<ClassInfo | null>(null);
-    const [attendance, setAttendance] = useState<{ [key: number]: 'present' | 'absent' }>({});
+    const [attendance, setAttendance] = useState<{ [key: number]: AttendanceStatus }>({});
     const [roster, setRoster] = useState<Student[]>([]);
     const [loading, setLoading] = useState(false);
     const [submitting, setSubmitting] = useState(false);
     const [searchQuery, setSearchQuery] = useState('');
+    // When each mark was made on this screen; only these are submitted
+    const [markedAt, setMarkedAt] = useState<{ [key: number]: string }>({});
+    const [online, setOnline] = useState(navigator.onLine);
+    const [pendingMarks, setPendingMarks] = useState(pendingMarkCount());
+    const [syncing, setSyncing] = useState(false);
+    const [attention, setAttention] = useState<AttendanceSyncResult[]>(needsAttention());
+    // Marks in batches the server refused, kept on this device until resent
+    const [refusedMarks, setRefusedMarks] = useState(refusedMarkCount());
+    // Set when the roster shown came from the offline cache
+    const [rosterCachedAt, setRosterCachedAt] = useState<string | null>(null);
     
     useEffect(() => {
         loadTodaysClasses();
+        syncQueued();
+
+        const goOnline = () => {
+            setOnline(true);
+            syncQueued();
+        };
+        const goOffline = () => setOnline(false);
+        window.addEventListener('online', goOnline);
+        window.addEventListener('offline', goOffline);
+        return () => {
+            window.removeEventListener('online', goOnline);
+            window.removeEventListener('offline', goOffline);
+        };
     }, []);
 
+    const syncQueued = async () => {
+        if (pendingMarkCount() === 0) return;
+        setSyncing(true);
+        try {
+            const run = await syncPending();
+            if (run.offline) setOnline(false);
+        } catch (error) {
+            console.error('Error syncing offline attendance:', error);
+        } finally {
+            setPendingMarks(pendingMarkCount());
+            setAttention(needsAttention());
+            setRefusedMarks(refusedMarkCount());
+            setSyncing(false);
+        }
+    };
+
+    const resendRefused = () => {
+        requeueRejected();
+        setRefusedMarks(0);
+        setPendingMarks(pendingMarkCount());
+        syncQueued();
+    };
+
     const loadTodaysClasses = async () => {
+        const raw = localStorage.getItem('user');
+        const parsed = raw ? JSON.parse(raw) : null;
+        const teacherId = parsed?.profile?.teacher_id || parsed?.teacher_id || null;
+        if (!teacherId) return;
+        const today = new Date().toISOString().split('T')[0];
+
         try {
-            const raw = localStorage.getItem('user');
-            const parsed = raw ? JSON.parse(raw) : null;
-            const teacherId = parsed?.profile?.teacher_id || parsed?.teacher_id || null;
-            if (!teacherId) return;
-            
             const { data } = await api.get(`/timetable/teacher/${teacherId}/today`);
             const formattedClasses: ClassInfo[] = data.map((e: any) => ({
                 id: e.schedule_id,
@@ -64,61 +143,115 @@ const TakeAttendance: React.FC = () => {
                 course_name: e.course?.course_name || '',
                 time_slot: e.time_slot || '',
                 classroom: e.classroom || 'TBA',
-                date: new Date().toISOString().split('T')[0]
+                date: today
             }));
             setClasses(formattedClasses);
+            cacheClasses(teacherId, today, formattedClasses);
+            // Keep today's rosters on hand in case the connection drops later
+            formattedClasses.forEach(cls =>
+                fetchRosterForSchedule(cls.id, cls.date)
+                    .then(data => cacheRoster(cls.id, cls.date, data.roster || []))
+                    .catch(() => undefined)
+            );
         } catch (error) {
             console.error('Error loading classes:', error);
+            const cached = cachedClasses(teacherId, today);
+            if (cached) {
+                setClasses(cached);
+                if (isNetworkError(error)) setOnline(false);
+            }
         }
     };
 
+    const showRoster = (students: Student[]) => {
+        setRoster(students);
+        // Initialize attendance from existing records
+        const initial: { [key: number]: AttendanceStatus } = {};
+        students.forEach(s => {
+            if (s.status) {
+                initial[s.student_id] = s.status;
+            }
+        });
+        setAttendance(initial);
+    };
+
     const handleClassSelect = async (classInfo: ClassInfo) => {
         setSelectedClass(classInfo);
         setAttendance({});
+        setMarkedAt({});
         setRoster([]);
+        setRosterCachedAt(null);
         
         setLoading(true);
         try {
             const data = await fetchRosterForSchedule(classInfo.id, classInfo.date);
-            setRoster(data.roster || []);
-            
-            // Initialize attendance from existing records
-            const initial: { [key: number]: 'present' | 'absent' } = {};
-            (data.roster || []).forEach((s: any) => {
-                if (s.status) {
-                    initial[s.student_id] = s.status as 'present' | 'absent';
-                }
-            });
-            setAttendance(initial);
+            showRoster(data.roster || []);
+            cacheRoster(classInfo.id, classInfo.date, data.roster || []);
         } catch (e) {
             console.error('Failed to load roster', e);
+            const cached = cachedRoster(classInfo.id, classInfo.date);
+            if (cached) {
+                showRoster(cached.roster);
+                setRosterCachedAt(cached.cachedAt);
+                if (isNetworkError(e)) setOnline(false);
+            }
         } finally {
             setLoading(false);
         }
     };
 
-    const markAttendance = (studentId: number, status: 'present' | 'absent') => {
-        setAttendance(prev => ({ ...prev, [studentId]: status }));
+    const mark = (studentIds: number[], status: AttendanceStatus) => {
+        const now = new Date().toISOString();
+        setAttendance(prev => {
+            const next = { ...prev };
+            studentIds.forEach(id => { next[id] = status; });
+            return next;
+        });
+        setMarkedAt(prev => {
+            const next = { ...prev };
+            studentIds.forEach(id => { next[id] = now; });
+            return next;
+        });
+    };
+
+    const markAttendance = (studentId: number, status: AttendanceStatus) => {
+        mark([studentId], status);
     };
 
+    // Marks are always queued first, so nothing is lost if sending fails
     const handleSubmit = async () => {
         if (!selectedClass) return;
+        const changed = Object.keys(markedAt).map(Number);
+        if (changed.length === 0) {
+            alert('No changes to submit.');
+            return;
+        }
         
         setSubmitting(true);
         try {
-            const items = Object.entries(attendance).map(([studentId, status]) => ({
-                scheduleId: selectedClass.id,
-                studentId: parseInt(studentId),
+            queueMarks(changed.map(studentId => ({
+                schedule_id: selectedClass.id,
+                student_id: studentId,
                 date: selectedClass.date,
-                status
-            }));
-            
-            await submitAttendanceBulk(items);
-            alert('Attendance submitted successfully!');
+                status: attendance[studentId],
+                marked_at: markedAt[studentId],
+            })));
+            const run = await syncPending();
+            const conflicts = run.responses.reduce((n, r) => n + r.summary.conflicts + r.summary.rejected, 0);
+
+            if (run.pending > 0) {
+                setOnline(!run.offline);
+                alert('Saved on this device. Attendance will be sent automatically when you are back online.');
+            } else if (conflicts > 0) {
+                alert(`Attendance submitted. ${conflicts} mark(s) were not applied; see the sync results.`);
+            } else {
+                alert('Attendance submitted successfully!');
+            }
             
             // Reset
             setSelectedClass(null);
             setAttendance({});
+            setMarkedAt({});
             setRoster([]);
             setSearchQuery('');
             
@@ -126,26 +259,30 @@ const TakeAttendance: React.FC = () => {
             console.error('Failed to submit attendance:', error);
             alert('Failed to submit attendance. Please try again.');
         } finally {
+            setPendingMarks(pendingMarkCount());
+            setAttention(needsAttention());
+            setRefusedMarks(refusedMarkCount());
             setSubmitting(false);
         }
     };
 
     const markAllPresent = () => {
-        const newAttendance: { [key: number]: 'present' | 'absent' } = {};
-        filteredRoster.forEach(student => {
-            newAttendance[student.student_id] = 'present';
-        });
-        setAttendance(prev => ({ ...prev, ...newAttendance }));
+        mark(filteredRoster.map(student => student.student_id), 'present');
     };
 
     const markAllAbsent = () => {
-        const newAttendance: { [key: number]: 'present' | 'absent' } = {};
-        filteredRoster.forEach(student => {
-            newAttendance[student.student_id] = 'absent';
-        });
-        setAttendance(prev => ({ ...prev, ...newAttendance }));
+        mark(filteredRoster.map(student => student.student_id), 'absent');
     };
 
+    const studentLabel = (result: AttendanceSyncResult) => {
+        const student = cachedRoster(result.schedule_id, result.date)?.roster
+            .find(s => s.student_id === result.student_id);
+        return student ? `${student.name} (${student.roll_number})` : `Student #${result.student_id}`;
+    };
+
+    const classLabel = (result: AttendanceSyncResult) =>
+        classes.find(c => c.id === result.schedule_id)?.course_code || `Class #${result.schedule_id}`;
+
     const filteredRoster = roster.filter(student => 
         student.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
         student.roll_number.toLowerCase().includes(searchQuery.toLowerCase())
@@ -153,6 +290,7 @@ const TakeAttendance: React.FC = () => {
 
     const presentCount = Object.values(attendance).filter(s => s === 'present').length;
     const absentCount = Object.values(attendance).filter(s => s === 'absent').length;
+    const otherCount = Object.keys(attendance).length - presentCount - absentCount;
     const unmarkedCount = roster.length - Object.keys(attendance).length;
 
     return (
@@ -175,6 +313,95 @@ const TakeAttendance: React.FC = () => {
                     </p>
                 </motion.div>
                 
+                {(!online || pendingMarks > 0) && (
+                    <div className={`mb-6 p-4 rounded-xl border flex items-center justify-between gap-4 ${
+                        theme === 'dark' ? 'bg-amber-900/30 border-amber-800 text-amber-200' : 'bg-amber-50 border-amber-200 text-amber-800'
+                    }`}>
+                        <div className="flex items-center gap-3 text-sm">
+                            <WifiOff className="w-5 h-5 flex-shrink-0" />
+                            <span>
+                                {!online && 'You are offline. Attendance is saved on this device. '}
+                                {pendingMarks > 0
+                                    ? `${pendingMarks} mark(s) waiting to be sent.`
+                                    : 'Marks will be sent when the connection returns.'}
+                            </span>
+                        </div>
+                        {pendingMarks > 0 && (
+                            <button
+                                onClick={syncQueued}
+                                disabled={syncing}
+                                className="px-3 py-2 rounded-lg text-sm font-medium bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50 flex items-center gap-2"
+                            >
+                                <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
+                                {syncing ? 'Sending...' : 'Send now'}
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                {(attention.length > 0 || refusedMarks > 0) && (
+                    <div className={`mb-6 p-4 rounded-xl border ${
+                        theme === 'dark' ? 'bg-gray-800 border-red-800' : 'bg-white border-red-200'
+                    }`}>
+                        <div className="flex items-center justify-between mb-3">
+                            <h2 className={`font-semibold flex items-center gap-2 ${
+                                theme === 'dark' ? 'text-red-300' : 'text-red-700'
+                            }`}>
+                                <AlertTriangle className="w-5 h-5" />
+                                {attention.length > 0
+                                    ? `${attention.length} offline mark(s) were not applied`
+                                    : `${refusedMarks} refused mark(s) are kept on this device`}
+                            </h2>
+                            <div className="flex items-center gap-4">
+                                {refusedMarks > 0 && (
+                                    <button
+                                        onClick={resendRefused}
+                                        disabled={syncing}
+                                        className={`text-sm font-medium disabled:opacity-50 ${theme === 'dark' ? 'text-red-300 hover:text-red-200' : 'text-red-600 hover:text-red-800'}`}
+                                    >
+                                        Send refused marks again
+                                    </button>
+                                )}
+                                {attention.length > 0 && (
+                                    <button
+                                        onClick={() => {
+                                            dismissAttention();
+                                            setAttention([]);
+                                        }}
+                                        className={`text-sm font-medium ${theme === 'dark' ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700'}`}
+                                    >
+                                        Dismiss
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                        <div className="space-y-2 text-sm">
+                            {attention.map((result, index) => (
+                                <div
+                                    key={`${result.schedule_id}-${result.student_id}-${result.date}-${index}`}
+                                    className={`flex flex-wrap justify-between gap-2 p-2 rounded-lg ${
+                                        theme === 'dark' ? 'bg-gray-700 text-gray-200' : 'bg-gray-50 text-gray-700'
+                                    }`}
+                                >
+                                    <span>
+                                        <span className="font-medium">{studentLabel(result)}</span>
+                                        {' · '}{classLabel(result)} on {result.date}
+                                    </span>
+                                    <span>
+                                        You marked <strong>{result.status.replace('_', ' ')}</strong>
+                                        {result.recorded_status && (
+                                            <> · kept <strong>{result.recorded_status.replace('_', ' ')}</strong></>
+                                        )}
+                                        <span className={`block text-xs ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                                            {result.message || CONFLICT_REASONS[result.rule] || result.rule}
+                                        </span>
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
                 <AnimatePresence mode="wait">
                     {!selectedClass ? (
                         /* Class Selection View */
@@ -292,6 +519,12 @@ const TakeAttendance: React.FC = () => {
                                                 {selectedClass.classroom}
                                             </span>
                                         </div>
+                                        {rosterCachedAt && (
+                                            <p className={`mt-2 text-xs ${theme === 'dark' ? 'text-amber-300' : 'text-amber-700'}`}>
+                                                Roster saved at {new Date(rosterCachedAt).toLocaleTimeString()}; marks
+                                                are sent when you are back online.
+                                            </p>
+                                        )}
                                     </div>
                                     <button
                                         onClick={() => {
@@ -322,7 +555,7 @@ const TakeAttendance: React.FC = () => {
                             ) : (
                                 <div className="space-y-6">
                                     {/* Stats & Quick Actions */}
-                                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                                    <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
                                         <motion.div
                                             initial={{ opacity: 0, scale: 0.9 }}
                                             animate={{ opacity: 1, scale: 1 }}
@@ -385,6 +618,27 @@ const TakeAttendance: React.FC = () => {
                                             </div>
                                         </motion.div>
 
+                                        <motion.div
+                                            initial={{ opacity: 0, scale: 0.9 }}
+                                            animate={{ opacity: 1, scale: 1 }}
+                                            transition={{ delay: 0.25 }}
+                                            className={`p-4 rounded-xl border ${
+                                                theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+                                            }`}
+                                        >
+                                            <div className="flex items-center justify-between">
+                                                <div>
+                                                    <p className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                                                        Late / Leave
+                                                    </p>
+                                                    <p className="text-2xl font-bold text-amber-600">
+                                                        {otherCount}
+                                                    </p>
+                                                </div>
+                                                <Calendar className="w-8 h-8 text-amber-600" />
+                                            </div>
+                                        </motion.div>
+
                                         <motion.div
                                             initial={{ opacity: 0, scale: 0.9 }}
                                             animate={{ opacity: 1, scale: 1 }}
@@ -468,6 +722,8 @@ const TakeAttendance: React.FC = () => {
                                                                 ? 'bg-green-100 text-green-700'
                                                                 : attendance[student.student_id] === 'absent'
                                                                 ? 'bg-red-100 text-red-700'
+                                                                : attendance[student.student_id]
+                                                                ? 'bg-amber-100 text-amber-700'
                                                                 : theme === 'dark'
                                                                 ? 'bg-gray-700 text-gray-300'
                                                                 : 'bg-blue-100 text-blue-700'
@@ -487,7 +743,7 @@ const TakeAttendance: React.FC = () => {
                                                             </div>
                                                         </div>
                                                     </div>
-                                                    <div className="flex gap-2">
+                                                    <div className="flex flex-wrap justify-end gap-2">
                                                         <button
                                                             onClick={() => markAttendance(student.student_id, 'present')}
                                                             className={`px-6 py-2 rounded-lg font-medium transition-all ${
@@ -510,6 +766,19 @@ const TakeAttendance: React.FC = () => {
                                                             <XCircle className="inline-block w-5 h-5 mr-1" />
                                                             Absent
                                                         </button>
+                                                        {EXTRA_STATUSES.map(option => (
+                                                            <button
+                                                                key={option.status}
+                                                                onClick={() => markAttendance(student.student_id, option.status)}
+                                                                className={`px-3 py-2 rounded-lg text-sm font-medium transition-all ${
+                                                                    attendance[student.student_id] === option.status
+                                                                        ? `${option.active} shadow-lg scale-105`
+                                                                        : option.idle
+                                                                }`}
+                                                            >
+                                                                {option.label}
+                                                            </button>
+                                                        ))}
                                                     </div>
                                                 </motion.div>
                                             ))}
@@ -0,0 +1,258 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useParams } from "react-router-dom";
+import {
+  fetchTeacherAvailability,
+  addTeacherAvailability,
+  deleteTeacherAvailability,
+  TeacherAvailabilityWindow,
+} from "../../services/api";
+
+const DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const emptyForm = {
+  day_of_week: "Monday",
+  start_time: "09:00",
+  end_time: "12:00",
+  availability_type: "unavailable" as "unavailable" | "preferred",
+  note: "",
+};
+
+// Used by teachers for their own hours (/teacher/availability) and by
+// coordinators for any teacher (/teachers/:id/availability)
+const TeacherAvailability: React.FC = () => {
+  const { id } = useParams<{ id?: string }>();
+  const [windows, setWindows] = useState<TeacherAvailabilityWindow[]>([]);
+  const [form, setForm] = useState({ ...emptyForm });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const teacherId = useMemo(() => {
+    if (id) return id;
+    try {
+      const user = JSON.parse(localStorage.getItem("user") || "null");
+      return user?.profile?.teacher_id ? String(user.profile.teacher_id) : null;
+    } catch {
+      return null;
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (teacherId) {
+      loadWindows();
+    }
+  }, [teacherId]);
+
+  const loadWindows = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await fetchTeacherAvailability(teacherId!);
+      setWindows(data);
+    } catch (error) {
+      console.error("Error loading availability:", error);
+      setError("Failed to load availability. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (form.start_time >= form.end_time) {
+      setError("End time must be after start time");
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      await addTeacherAvailability(teacherId!, {
+        ...form,
+        note: form.note.trim() || undefined,
+      });
+      setForm({ ...emptyForm, availability_type: form.availability_type });
+      await loadWindows();
+    } catch (error: any) {
+      console.error("Error saving availability:", error);
+      setError(
+        `Failed to save availability: ${
+          error?.response?.data?.message || error.message
+        }`
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (window: TeacherAvailabilityWindow) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await deleteTeacherAvailability(teacherId!, window.availability_id);
+      await loadWindows();
+    } catch (error) {
+      console.error("Error removing availability:", error);
+      setError("Failed to remove availability. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!teacherId) {
+    return (
+      <div className="p-8 text-center text-gray-600">
+        No teacher profile is linked to this account.
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-amber-50 to-orange-50 p-4 sm:p-6 md:p-8">
+      {/* Header */}
+      <div className="mb-6 sm:mb-8">
+        <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-amber-600 to-orange-600 bg-clip-text text-transparent mb-2">
+          🕒 Teaching Availability
+        </h1>
+        <p className="text-sm sm:text-base text-gray-600">
+          Unavailable windows are never scheduled. Preferred windows are used
+          whenever the timetable allows.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <div className="flex items-center">
+            <span className="text-2xl mr-3">⚠️</span>
+            <p className="text-red-700 font-medium">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Add Window */}
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-2xl shadow-xl p-4 sm:p-6 mb-6 grid grid-cols-1 md:grid-cols-6 gap-4 items-end"
+      >
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+          <select
+            value={form.availability_type}
+            onChange={(e) =>
+              setForm({
+                ...form,
+                availability_type: e.target.value as "unavailable" | "preferred",
+              })
+            }
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            disabled={loading}
+          >
+            <option value="unavailable">⛔ Unavailable</option>
+            <option value="preferred">⭐ Preferred</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Day</label>
+          <select
+            value={form.day_of_week}
+            onChange={(e) => setForm({ ...form, day_of_week: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            disabled={loading}
+          >
+            {DAYS.map((day) => (
+              <option key={day} value={day}>{day}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+          <input
+            type="time"
+            value={form.start_time}
+            onChange={(e) => setForm({ ...form, start_time: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            required
+            disabled={loading}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+          <input
+            type="time"
+            value={form.end_time}
+            onChange={(e) => setForm({ ...form, end_time: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            required
+            disabled={loading}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Note</label>
+          <input
+            type="text"
+            placeholder="Optional"
+            value={form.note}
+            onChange={(e) => setForm({ ...form, note: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            disabled={loading}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={loading}
+          className="bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg font-semibold text-sm"
+        >
+          ➕ Add
+        </button>
+      </form>
+
+      {/* Weekly Overview */}
+      <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">📅 Weekly Overview</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {DAYS.map((day) => {
+            const dayWindows = windows.filter((w) => w.day_of_week === day);
+            return (
+              <div key={day} className="border border-gray-200 rounded-xl p-4">
+                <h3 className="font-semibold text-gray-800 mb-2">{day}</h3>
+                {dayWindows.length === 0 ? (
+                  <p className="text-xs text-gray-400">Available all day</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {dayWindows.map((window) => (
+                      <li
+                        key={window.availability_id}
+                        className={`flex items-center justify-between text-sm px-3 py-2 rounded-lg ${
+                          window.availability_type === "unavailable"
+                            ? "bg-red-50 text-red-700"
+                            : "bg-green-50 text-green-700"
+                        }`}
+                      >
+                        <span>
+                          {window.availability_type === "unavailable" ? "⛔" : "⭐"}{" "}
+                          {window.start_time.substring(0, 5)}–{window.end_time.substring(0, 5)}
+                          {window.note && (
+                            <span className="text-xs text-gray-500"> · {window.note}</span>
+                          )}
+                        </span>
+                        <button
+                          onClick={() => handleDelete(window)}
+                          disabled={loading}
+                          className="text-xs text-gray-500 hover:text-red-600"
+                          title="Remove"
+                        >
+                          ✕
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TeacherAvailability;
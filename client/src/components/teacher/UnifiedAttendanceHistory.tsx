@@ -19,7 +19,11 @@ import {
 } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
 import { useTheme } from '../../hooks/useTheme';
-import { getTeacherUnifiedAttendanceHistory } from '../../services/api';
+import {
+  AttendanceSource,
+  AttendanceStatus,
+  getTeacherUnifiedAttendanceHistory,
+} from '../../services/api';
 import AttendanceCharts from './AttendanceCharts';
 
 interface UnifiedAttendanceRecord {
@@ -30,11 +34,12 @@ interface UnifiedAttendanceRecord {
   course_name: string;
   course_code: string;
   date: string;
-  status: 'present' | 'absent';
+  status: AttendanceStatus;
+  source: AttendanceSource;
   method: 'manual' | 'smart';
   time_slot?: string;
   verified_by_face?: boolean;
-  confidence_score?: number;
+  confidence_score?: number | null;
 }
 
 interface AttendanceStats {
@@ -46,6 +51,13 @@ interface AttendanceStats {
   attendance_rate: number;
 }
 
+const SOURCE_LABELS: Record<AttendanceSource, string> = {
+  manual: 'Manual',
+  bulk_import: 'Bulk Import',
+  qr_face: 'QR + Face',
+  class_photo: 'Class Photo',
+};
+
 const UnifiedAttendanceHistory: React.FC = () => {
   const { user } = useAuth();
   const { theme } = useTheme();
@@ -94,7 +106,7 @@ const UnifiedAttendanceHistory: React.FC = () => {
       });
 
       setRecords(data.records || []);
-      calculateStats(data.records || []);
+      calculateStats(data.stats);
     } catch (error) {
       console.error('Error loading unified attendance:', error);
     } finally {
@@ -102,15 +114,16 @@ const UnifiedAttendanceHistory: React.FC = () => {
     }
   };
 
-  const calculateStats = (data: UnifiedAttendanceRecord[]) => {
-    const total = data.length;
-    const present = data.filter(r => r.status === 'present').length;
-    const absent = data.filter(r => r.status === 'absent').length;
-    const manual = data.filter(r => r.method === 'manual').length;
-    const smart = data.filter(r => r.method === 'smart').length;
-    const attendance_rate = total > 0 ? (present / total) * 100 : 0;
-
-    setStats({ total, present, absent, manual, smart, attendance_rate });
+  // The server weights late, excused and other statuses per the status rules
+  const calculateStats = (data?: Partial<AttendanceStats>) => {
+    setStats({
+      total: data?.total || 0,
+      present: data?.present || 0,
+      absent: data?.absent || 0,
+      manual: data?.manual || 0,
+      smart: data?.smart || 0,
+      attendance_rate: Number(data?.attendance_rate) || 0,
+    });
   };
 
   const applyFilters = () => {
@@ -141,7 +154,7 @@ const UnifiedAttendanceHistory: React.FC = () => {
   };
 
   const exportToCSV = () => {
-    const headers = ['Date', 'Student Name', 'Roll Number', 'Course', 'Status', 'Method', 'Face Verified'];
+    const headers = ['Date', 'Student Name', 'Roll Number', 'Course', 'Status', 'Method', 'Source', 'Face Verified'];
     const rows = filteredRecords.map(r => [
       r.date,
       r.student_name,
@@ -149,6 +162,7 @@ const UnifiedAttendanceHistory: React.FC = () => {
       `${r.course_code} - ${r.course_name}`,
       r.status.toUpperCase(),
       r.method.toUpperCase(),
+      SOURCE_LABELS[r.source] || r.source,
       r.verified_by_face ? 'Yes' : 'No',
     ]);
 
@@ -165,24 +179,24 @@ const UnifiedAttendanceHistory: React.FC = () => {
     a.click();
   };
 
-  const getMethodBadge = (method: 'manual' | 'smart') => {
+  const getMethodBadge = (method: 'manual' | 'smart', source: AttendanceSource) => {
     if (method === 'smart') {
       return (
         <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-700">
           <Smartphone className="w-3 h-3 mr-1" />
-          Smart
+          {SOURCE_LABELS[source] || 'Smart'}
         </span>
       );
     }
     return (
       <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-700">
         <ClipboardCheck className="w-3 h-3 mr-1" />
-        Manual
+        {SOURCE_LABELS[source] || 'Manual'}
       </span>
     );
   };
 
-  const getStatusBadge = (status: 'present' | 'absent') => {
+  const getStatusBadge = (status: AttendanceStatus) => {
     if (status === 'present') {
       return (
         <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-700">
@@ -191,10 +205,18 @@ const UnifiedAttendanceHistory: React.FC = () => {
         </span>
       );
     }
+    if (status === 'absent') {
+      return (
+        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-700">
+          <XCircle className="w-3 h-3 mr-1" />
+          Absent
+        </span>
+      );
+    }
     return (
-      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-700">
-        <XCircle className="w-3 h-3 mr-1" />
-        Absent
+      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-700 capitalize">
+        <Clock className="w-3 h-3 mr-1" />
+        {status.replace('_', ' ')}
       </span>
     );
   };
@@ -509,7 +531,7 @@ const UnifiedAttendanceHistory: React.FC = () => {
                           {getStatusBadge(record.status)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
-                          {getMethodBadge(record.method)}
+                          {getMethodBadge(record.method, record.source)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                           {record.method === 'smart' && record.verified_by_face && (
@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  SessionEventType,
+  StreamTicket,
+  sessionEventStreamUrl,
+} from "../services/api";
+
+type EventHandlers = Partial<Record<SessionEventType, (data: any) => void>>;
+
+const EVENT_TYPES: SessionEventType[] = [
+  "scan-verified",
+  "scan-rejected",
+  "class-photo-processed",
+  "session-finalized",
+];
+
+const MIN_RECONNECT_MS = 2000;
+const MAX_RECONNECT_MS = 30000;
+
+/**
+ * Subscribe to live smart-attendance events. `room` identifies the stream
+ * (a session id, or the student's own room) and reconnects when it changes;
+ * null disconnects. Returns whether the stream is currently open so callers
+ * can fall back to polling while it isn't.
+ */
+export const useSessionEvents = (
+  room: string | null,
+  getTicket: () => Promise<StreamTicket>,
+  handlers: EventHandlers
+) => {
+  const [connected, setConnected] = useState(false);
+  // Latest callbacks without reopening the stream on every render
+  const handlersRef = useRef(handlers);
+  const getTicketRef = useRef(getTicket);
+  handlersRef.current = handlers;
+  getTicketRef.current = getTicket;
+
+  useEffect(() => {
+    if (!room || typeof EventSource === "undefined") {
+      setConnected(false);
+      return;
+    }
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let retryDelay = MIN_RECONNECT_MS;
+    let cancelled = false;
+
+    const scheduleReconnect = () => {
+      if (cancelled) return;
+      retryTimer = setTimeout(connect, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, MAX_RECONNECT_MS);
+    };
+
+    // Tickets expire quickly, so every reconnect asks for a new one
+    const connect = async () => {
+      try {
+        const { ticket } = await getTicketRef.current();
+        if (cancelled) return;
+
+        source = new EventSource(sessionEventStreamUrl(ticket));
+        source.onopen = () => {
+          retryDelay = MIN_RECONNECT_MS;
+          setConnected(true);
+        };
+        source.onerror = () => {
+          source?.close();
+          source = null;
+          setConnected(false);
+          scheduleReconnect();
+        };
+        EVENT_TYPES.forEach((type) =>
+          source?.addEventListener(type, (event) => {
+            try {
+              handlersRef.current[type]?.(
+                JSON.parse((event as MessageEvent).data)
+              );
+            } catch (error) {
+              console.error(`Error handling ${type} event:`, error);
+            }
+          })
+        );
+      } catch (error) {
+        console.error("Error opening live attendance updates:", error);
+        setConnected(false);
+        scheduleReconnect();
+      }
+    };
+
+    connect();
+
+    return () => {
+      cancelled = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      source?.close();
+      setConnected(false);
+    };
+  }, [room]);
+
+  return { connected };
+};
+
+export default useSessionEvents;
@@ -15,7 +15,8 @@ interface CourseAttendanceDetail {
   attended_classes: number;
   absent_classes: number;
   attendance_percentage: number;
-  classes_needed_for_75: number;
+  min_attendance_percentage: number;
+  classes_needed: number | null;
   classes_can_skip: number;
   recent_attendance: Array<{
     date: string;
@@ -111,7 +112,10 @@ const CourseDetailPage: React.FC = () => {
   }
 
   const attendancePercentage = courseData.attendance_percentage;
-  const needsMoreClasses = attendancePercentage < 75;
+  // Minimum from the course's attendance policy
+  const minPercentage = courseData.min_attendance_percentage ?? 75;
+  const needsMoreClasses = attendancePercentage < minPercentage;
+  const classesNeeded = courseData.classes_needed ?? "—";
 
   // Chart data for monthly breakdown
   const monthlyChartData = {
@@ -190,7 +194,7 @@ const CourseDetailPage: React.FC = () => {
             </div>
             <div
               className={`px-6 py-3 rounded-2xl ${
-                attendancePercentage >= 75
+                attendancePercentage >= minPercentage
                   ? "bg-green-100 text-green-800"
                   : "bg-red-100 text-red-800"
               }`}
@@ -309,7 +313,7 @@ const CourseDetailPage: React.FC = () => {
                 </p>
                 <p className="text-4xl font-black">
                   {needsMoreClasses
-                    ? courseData.classes_needed_for_75
+                    ? classesNeeded
                     : courseData.classes_can_skip}
                 </p>
               </div>
@@ -328,7 +332,7 @@ const CourseDetailPage: React.FC = () => {
           </motion.div>
         </div>
 
-        {/* Smart 75% Attendance Calculator - Highlighted */}
+        {/* Smart Attendance Calculator - Highlighted */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -352,7 +356,7 @@ const CourseDetailPage: React.FC = () => {
               <div className="flex items-start justify-between mb-6">
                 <div>
                   <h3 className="text-3xl font-black text-white mb-2 flex items-center gap-3">
-                    🎯 75% Attendance Calculator
+                    🎯 {minPercentage}% Attendance Calculator
                   </h3>
                   <p className="text-white/90 text-lg">Smart insights for your attendance goals</p>
                 </div>
@@ -374,9 +378,9 @@ const CourseDetailPage: React.FC = () => {
                       <div>
                         <p className="text-2xl font-bold text-white mb-1">⚠️ Action Required!</p>
                         <p className="text-white/90 text-lg">
-                          Attend the next <span className="text-4xl font-black text-yellow-300 mx-2">{courseData.classes_needed_for_75}</span> classes consecutively
+                          Attend the next <span className="text-4xl font-black text-yellow-300 mx-2">{classesNeeded}</span> classes consecutively
                         </p>
-                        <p className="text-white/80 text-sm mt-2">to reach the 75% attendance threshold</p>
+                        <p className="text-white/80 text-sm mt-2">to reach the {minPercentage}% attendance threshold</p>
                       </div>
                     </>
                   ) : (
@@ -391,7 +395,7 @@ const CourseDetailPage: React.FC = () => {
                         <p className="text-white/90 text-lg">
                           You can skip <span className="text-4xl font-black text-green-300 mx-2">{courseData.classes_can_skip}</span> more classes
                         </p>
-                        <p className="text-white/80 text-sm mt-2">while still maintaining 75% attendance</p>
+                        <p className="text-white/80 text-sm mt-2">while still maintaining {minPercentage}% attendance</p>
                       </div>
                     </>
                   )}
@@ -400,7 +404,7 @@ const CourseDetailPage: React.FC = () => {
                 {/* Progress Bar */}
                 <div className="mt-6">
                   <div className="flex justify-between text-white/90 text-sm font-medium mb-2">
-                    <span>Progress to 75%</span>
+                    <span>Progress to {minPercentage}%</span>
                     <span>{attendancePercentage}%</span>
                   </div>
                   <div className="relative h-6 bg-white/20 rounded-full overflow-hidden backdrop-blur-sm">
@@ -409,15 +413,18 @@ const CourseDetailPage: React.FC = () => {
                       animate={{ width: `${Math.min(attendancePercentage, 100)}%` }}
                       transition={{ duration: 1.5, ease: "easeOut", delay: 0.6 }}
                       className={`h-full rounded-full ${
-                        attendancePercentage >= 75
+                        attendancePercentage >= minPercentage
                           ? "bg-gradient-to-r from-green-300 to-green-500"
                           : "bg-gradient-to-r from-yellow-300 to-orange-500"
                       } shadow-lg`}
                     />
-                    {/* 75% Marker */}
-                    <div className="absolute left-3/4 top-0 bottom-0 w-1 bg-white/60">
+                    {/* Minimum Marker */}
+                    <div
+                      className="absolute top-0 bottom-0 w-1 bg-white/60"
+                      style={{ left: `${minPercentage}%` }}
+                    >
                       <div className="absolute -top-8 left-1/2 transform -translate-x-1/2 text-white text-xs font-bold whitespace-nowrap">
-                        ▼ 75%
+                        ▼ {minPercentage}%
                       </div>
                     </div>
                   </div>
@@ -11,7 +11,8 @@ interface CourseAttendance {
   attended_classes: number;
   absent_classes: number;
   attendance_percentage: number;
-  classes_needed_for_75: number;
+  min_attendance_percentage: number;
+  classes_needed: number | null;
   classes_can_skip: number;
 }
 
@@ -170,12 +171,12 @@ const EnhancedAttendanceStats: React.FC = () => {
         label: "Attendance %",
         data: statsData.courses.map((c) => c.attendance_percentage),
         backgroundColor: statsData.courses.map((c) =>
-          c.attendance_percentage >= 75
+          c.attendance_percentage >= c.min_attendance_percentage
             ? "rgba(34, 197, 94, 0.8)"
             : "rgba(239, 68, 68, 0.8)"
         ),
         borderColor: statsData.courses.map((c) =>
-          c.attendance_percentage >= 75
+          c.attendance_percentage >= c.min_attendance_percentage
             ? "rgba(34, 197, 94, 1)"
             : "rgba(239, 68, 68, 1)"
         ),
@@ -517,7 +518,7 @@ const EnhancedAttendanceStats: React.FC = () => {
                   </div>
                   <div
                     className={`ml-2 px-4 py-2 rounded-full text-lg font-black ${
-                      course.attendance_percentage >= 75
+                      course.attendance_percentage >= course.min_attendance_percentage
                         ? "bg-green-100 text-green-800"
                         : "bg-red-100 text-red-800"
                     }`}
@@ -536,7 +537,7 @@ const EnhancedAttendanceStats: React.FC = () => {
                       }}
                       transition={{ duration: 1, delay: 1.5 + index * 0.1 }}
                       className={`h-full rounded-full ${
-                        course.attendance_percentage >= 75
+                        course.attendance_percentage >= course.min_attendance_percentage
                           ? "bg-gradient-to-r from-green-400 to-green-600"
                           : "bg-gradient-to-r from-red-400 to-red-600"
                       }`}
@@ -544,7 +545,9 @@ const EnhancedAttendanceStats: React.FC = () => {
                   </div>
                   <div className="flex justify-between text-xs mt-1 text-gray-500 font-medium">
                     <span>0%</span>
-                    <span className="font-bold text-gray-700">75%</span>
+                    <span className="font-bold text-gray-700">
+                      {course.min_attendance_percentage}%
+                    </span>
                     <span>100%</span>
                   </div>
                 </div>
@@ -571,46 +574,46 @@ const EnhancedAttendanceStats: React.FC = () => {
                   </div>
                   <div
                     className={`rounded-xl p-3 text-center ${
-                      course.attendance_percentage >= 75
+                      course.attendance_percentage >= course.min_attendance_percentage
                         ? "bg-purple-50"
                         : "bg-orange-50"
                     }`}
                   >
                     <p
                       className={`text-xs font-medium ${
-                        course.attendance_percentage >= 75
+                        course.attendance_percentage >= course.min_attendance_percentage
                           ? "text-purple-600"
                           : "text-orange-600"
                       }`}
                     >
-                      {course.attendance_percentage >= 75
+                      {course.attendance_percentage >= course.min_attendance_percentage
                         ? "Can Skip"
                         : "Need"}
                     </p>
                     <p
                       className={`text-2xl font-black ${
-                        course.attendance_percentage >= 75
+                        course.attendance_percentage >= course.min_attendance_percentage
                           ? "text-purple-900"
                           : "text-orange-900"
                       }`}
                     >
-                      {course.attendance_percentage >= 75
+                      {course.attendance_percentage >= course.min_attendance_percentage
                         ? course.classes_can_skip
-                        : course.classes_needed_for_75}
+                        : course.classes_needed ?? "—"}
                     </p>
                   </div>
                 </div>
 
                 {/* Action Buttons */}
                 <div className="space-y-2">
-                  {course.attendance_percentage < 75 && (
+                  {course.attendance_percentage < course.min_attendance_percentage && (
                     <div className="bg-orange-50 border-2 border-orange-200 rounded-xl p-3 text-center">
                       <p className="text-sm text-orange-700 font-bold">
-                        ⚠️ Attend next <span className="text-xl">{course.classes_needed_for_75}</span> classes
+                        ⚠️ Attend next <span className="text-xl">{course.classes_needed ?? "—"}</span> classes
                       </p>
                     </div>
                   )}
-                  {course.attendance_percentage >= 75 && (
+                  {course.attendance_percentage >= course.min_attendance_percentage && (
                     <div className="bg-green-50 border-2 border-green-200 rounded-xl p-3 text-center">
                       <p className="text-sm text-green-700 font-bold">
                         ✅ Can skip <span className="text-xl">{course.classes_can_skip}</span> more classes
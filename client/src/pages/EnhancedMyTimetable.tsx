@@ -1,5 +1,6 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { fetchTeacherTimetable, fetchStudentTimetable, fetchTimetableBySection, fetchTimetableViewSettingsBySection } from '../services/api';
+import CalendarSubscribe from '../components/common/CalendarSubscribe';
 
 interface TimetableEntry {
   day_of_week: string;
@@ -365,6 +366,8 @@ const EnhancedMyTimetable: React.FC = () => {
               </h1>
               <p className="text-gray-600 text-lg">Your weekly class schedule at a glance</p>
             </div>
+
+            <CalendarSubscribe />
             
             {/* Student Info Card */}
             {studentInfo && (
@@ -1,5 +1,6 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { fetchTeacherTimetable, fetchTimetableViewSettingsBySection } from '../services/api';
+import CalendarSubscribe from '../components/common/CalendarSubscribe';
 import {
   Calendar,
   Clock,
@@ -471,6 +472,7 @@ const EnhancedTeacherTimetable: React.FC = () => {
             <Download className="w-4 h-4" />
             Export
           </button>
+          <CalendarSubscribe />
         </div>
 
         {/* Day Filter */}
@@ -92,6 +92,10 @@ const TimetableResults: React.FC = () => {
   const [exportFormat, setExportFormat] = useState<
     "pdf" | "excel" | "csv" | "json"
   >("excel");
+  const [pdfOptions, setPdfOptions] = useState<{
+    group_by: "section" | "teacher" | "room";
+    orientation: "landscape" | "portrait";
+  }>({ group_by: "section", orientation: "landscape" });
   const [showExportModal, setShowExportModal] = useState(false);
   const [showSaveModal, setShowSaveModal] = useState(false);
   const [showLoadModal, setShowLoadModal] = useState(false);
@@ -298,6 +302,7 @@ const TimetableResults: React.FC = () => {
           solution: selectedSolution,
           format: exportFormat,
           metadata: saveMetadata,
+          options: exportFormat === "pdf" ? pdfOptions : undefined,
         }),
       });
 
@@ -1319,11 +1324,54 @@ const TimetableResults: React.FC = () => {
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
                   <option value="excel">Excel (.xlsx)</option>
+                  <option value="pdf">PDF (.pdf)</option>
                   <option value="csv">CSV (.csv)</option>
                   <option value="json">JSON (.json)</option>
                 </select>
               </div>
 
+              {exportFormat === "pdf" && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      One Page Per
+                    </label>
+                    <select
+                      value={pdfOptions.group_by}
+                      onChange={(e) =>
+                        setPdfOptions({
+                          ...pdfOptions,
+                          group_by: e.target.value as any,
+                        })
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="section">Section</option>
+                      <option value="teacher">Teacher</option>
+                      <option value="room">Room</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Orientation
+                    </label>
+                    <select
+                      value={pdfOptions.orientation}
+                      onChange={(e) =>
+                        setPdfOptions({
+                          ...pdfOptions,
+                          orientation: e.target.value as any,
+                        })
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="landscape">Landscape</option>
+                      <option value="portrait">Portrait</option>
+                    </select>
+                  </div>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Institution Name
@@ -163,7 +163,7 @@ export const submitAttendanceBulk = async (
     scheduleId: string | number;
     studentId: string | number;
     date: string;
-    status: "present" | "absent";
+    status: AttendanceStatus;
   }>
 ) => {
   const normalized = items.map((i) => ({
@@ -780,6 +780,852 @@ export const deleteBatch = async (batchId: string | number) => {
   return response.data;
 };
 
+// Room Management APIs
+export interface Room {
+  room_id: number;
+  room_code: string;
+  building: string;
+  floor?: number | null;
+  capacity: number;
+  room_type: "lecture" | "lab" | "seminar";
+  equipment: string[];
+  department_id?: number | null;
+  is_active: boolean;
+  department?: { name: string } | null;
+}
+
+export const fetchRooms = async (params?: {
+  room_type?: string;
+  building?: string;
+  min_capacity?: number;
+  department_id?: number;
+  active?: boolean;
+}) => {
+  const response = await api.get("/rooms", { params });
+  return response.data as Room[];
+};
+
+export const createRoom = async (roomData: Partial<Room>) => {
+  const response = await api.post("/rooms", roomData);
+  return response.data;
+};
+
+export const updateRoom = async (
+  roomId: string | number,
+  roomData: Partial<Room>
+) => {
+  const response = await api.put(`/rooms/${roomId}`, roomData);
+  return response.data;
+};
+
+export const deleteRoom = async (roomId: string | number) => {
+  const response = await api.delete(`/rooms/${roomId}`);
+  return response.data;
+};
+
+// Teacher Availability APIs
+export interface TeacherAvailabilityWindow {
+  availability_id: number;
+  teacher_id: number;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  availability_type: "unavailable" | "preferred";
+  note?: string | null;
+}
+
+export const fetchTeacherAvailability = async (teacherId: string | number) => {
+  const response = await api.get(`/teachers/${teacherId}/availability`);
+  return response.data as TeacherAvailabilityWindow[];
+};
+
+export const addTeacherAvailability = async (
+  teacherId: string | number,
+  window: {
+    day_of_week: string;
+    start_time: string;
+    end_time: string;
+    availability_type: "unavailable" | "preferred";
+    note?: string;
+  }
+) => {
+  const response = await api.post(`/teachers/${teacherId}/availability`, window);
+  return response.data;
+};
+
+export const deleteTeacherAvailability = async (
+  teacherId: string | number,
+  availabilityId: string | number
+) => {
+  const response = await api.delete(
+    `/teachers/${teacherId}/availability/${availabilityId}`
+  );
+  return response.data;
+};
+
+// Calendar Feed APIs
+export interface CalendarFeedUrl {
+  url: string;
+  webcal_url: string;
+}
+
+export const fetchCalendarFeedUrl = async () => {
+  const response = await api.get("/calendar/feed-url");
+  return response.data as CalendarFeedUrl;
+};
+
+export const regenerateCalendarFeedUrl = async () => {
+  const response = await api.post("/calendar/feed-url/regenerate");
+  return response.data as CalendarFeedUrl;
+};
+
+// Academic Calendar APIs
+export interface AcademicTerm {
+  term_id: number;
+  name: string;
+  academic_year: string;
+  department_id?: number | null;
+  semester?: number | null;
+  start_date: string;
+  end_date: string;
+  department?: { department_id: number; name: string } | null;
+}
+
+export type CalendarEventType = "holiday" | "exam" | "makeup_day";
+
+export interface AcademicCalendarEvent {
+  event_id: number;
+  event_type: CalendarEventType;
+  title: string;
+  start_date: string;
+  end_date: string;
+  follows_day_of_week?: string | null;
+  department_id?: number | null;
+  semester?: number | null;
+  description?: string | null;
+  department?: { department_id: number; name: string } | null;
+}
+
+export interface CalendarDayStatus {
+  date: string;
+  teaching: boolean;
+  timetable_day: string | null;
+  reason: "regular" | "makeup_day" | "holiday" | "exam" | "outside_term";
+  title?: string;
+  term?: { term_id: number; name: string } | null;
+}
+
+export const fetchAcademicTerms = async (departmentId?: number | string) => {
+  const response = await api.get("/academic-calendar/terms", {
+    params: departmentId ? { department_id: departmentId } : {},
+  });
+  return response.data as AcademicTerm[];
+};
+
+export const saveAcademicTerm = async (
+  term: Omit<AcademicTerm, "term_id" | "department">,
+  termId?: number
+) => {
+  const response = termId
+    ? await api.put(`/academic-calendar/terms/${termId}`, term)
+    : await api.post("/academic-calendar/terms", term);
+  return response.data;
+};
+
+export const deleteAcademicTerm = async (termId: number) => {
+  const response = await api.delete(`/academic-calendar/terms/${termId}`);
+  return response.data;
+};
+
+export const fetchCalendarEvents = async (params?: {
+  from?: string;
+  to?: string;
+  event_type?: CalendarEventType;
+  department_id?: number | string;
+}) => {
+  const response = await api.get("/academic-calendar/events", { params });
+  return response.data as AcademicCalendarEvent[];
+};
+
+export const saveCalendarEvent = async (
+  event: Omit<AcademicCalendarEvent, "event_id" | "department">,
+  eventId?: number
+) => {
+  const response = eventId
+    ? await api.put(`/academic-calendar/events/${eventId}`, event)
+    : await api.post("/academic-calendar/events", event);
+  return response.data;
+};
+
+export const deleteCalendarEvent = async (eventId: number) => {
+  const response = await api.delete(`/academic-calendar/events/${eventId}`);
+  return response.data;
+};
+
+export const fetchCalendarDayStatus = async (params: {
+  date?: string;
+  department_id?: number | string;
+  semester?: number | string;
+}) => {
+  const response = await api.get("/academic-calendar/day", { params });
+  return response.data as CalendarDayStatus;
+};
+
+// Smart Attendance Security APIs
+export interface SecurityEvent {
+  event_id: number;
+  event_type:
+    | "identity_mismatch"
+    | "schedule_access_denied"
+    | "missing_profile"
+    | "device_signature_invalid"
+    | "device_shared";
+  severity: "low" | "medium" | "high";
+  user_id?: number | null;
+  role?: string | null;
+  route: string;
+  claimed_student_id?: number | null;
+  actual_student_id?: number | null;
+  schedule_id?: number | null;
+  session_id?: string | null;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  details?: Record<string, any> | null;
+  reviewed_at?: string | null;
+  review_note?: string | null;
+  created_at: string;
+  user?: { user_id: number; email: string; role: string } | null;
+  reviewer?: { user_id: number; email: string } | null;
+}
+
+export const fetchSecurityEvents = async (params?: {
+  type?: string;
+  status?: "unreviewed" | "all";
+  from?: string;
+  to?: string;
+}) => {
+  const response = await api.get("/smart-attendance/security-events", { params });
+  return response.data as SecurityEvent[];
+};
+
+export const reviewSecurityEvent = async (eventId: number, note?: string) => {
+  const response = await api.post(
+    `/smart-attendance/security-events/${eventId}/review`,
+    { note }
+  );
+  return response.data;
+};
+
+// Trusted Student Device APIs
+export type StudentDeviceStatus = "pending" | "active" | "rejected" | "revoked";
+
+export interface StudentDevice {
+  device_id: number;
+  student_id: number;
+  key_fingerprint: string;
+  label?: string | null;
+  user_agent?: string | null;
+  ip_address?: string | null;
+  status: StudentDeviceStatus;
+  reviewed_at?: string | null;
+  review_note?: string | null;
+  last_used_at?: string | null;
+  created_at: string;
+  student?: { student_id: number; name: string; roll_number: string };
+  reviewer?: { user_id: number; email: string; role: string } | null;
+}
+
+export const registerStudentDevice = async (publicKey: string, label?: string) => {
+  const response = await api.post("/student-devices", {
+    public_key: publicKey,
+    label,
+  });
+  return response.data as { message: string; device: StudentDevice };
+};
+
+export const fetchMyDevices = async () => {
+  const response = await api.get("/student-devices/mine");
+  return response.data as StudentDevice[];
+};
+
+export const fetchStudentDevices = async (params?: {
+  status?: StudentDeviceStatus | "all";
+  studentId?: number;
+}) => {
+  const response = await api.get("/student-devices", { params });
+  return response.data as StudentDevice[];
+};
+
+// At the device limit, replaceDeviceId names the active device to revoke
+export const approveStudentDevice = async (
+  deviceId: number,
+  replaceDeviceId?: number,
+  note?: string
+) => {
+  const response = await api.post(`/student-devices/${deviceId}/approve`, {
+    replaceDeviceId,
+    note,
+  });
+  return response.data;
+};
+
+export const rejectStudentDevice = async (deviceId: number, note: string) => {
+  const response = await api.post(`/student-devices/${deviceId}/reject`, { note });
+  return response.data;
+};
+
+export const revokeStudentDevice = async (deviceId: number, note?: string) => {
+  const response = await api.post(`/student-devices/${deviceId}/revoke`, { note });
+  return response.data;
+};
+
+// Live smart-attendance updates (server-sent events)
+export type SessionEventType =
+  | "scan-verified"
+  | "scan-rejected"
+  | "class-photo-processed"
+  | "session-finalized";
+
+export interface StreamTicket {
+  ticket: string;
+  expiresAt: string;
+}
+
+export const fetchSessionStreamTicket = async (sessionId: string) => {
+  const response = await api.get(
+    `/smart-attendance/session/${sessionId}/stream-ticket`
+  );
+  return response.data as StreamTicket;
+};
+
+export const fetchStudentStreamTicket = async () => {
+  const response = await api.get("/smart-attendance/student/stream-ticket");
+  return response.data as StreamTicket;
+};
+
+export const sessionEventStreamUrl = (ticket: string) =>
+  `${API_URL}/smart-attendance/stream?ticket=${encodeURIComponent(ticket)}`;
+
+// Attendance Policy APIs
+export type PolicyScope = "institution" | "department" | "course" | "session";
+export type VerificationFactor = "face" | "liveness" | "location";
+
+export interface PolicySettings {
+  geofence_radius_meters: number | null;
+  face_match_threshold: number | null;
+  qr_lifetime_seconds: number | null;
+  scan_timeout_seconds: number | null;
+  required_factors: VerificationFactor[] | null;
+  min_attendance_percentage: number | null;
+}
+
+export interface AttendancePolicy extends PolicySettings {
+  policy_id: number;
+  scope: PolicyScope;
+  department_id?: number | null;
+  course_id?: number | null;
+  session_id?: string | null;
+  notes?: string | null;
+  updated_at?: string;
+  department?: { department_id: number; name: string } | null;
+  course?: {
+    course_id: number;
+    course_code: string;
+    course_name: string;
+    department_id: number;
+  } | null;
+}
+
+export type EffectiveAttendancePolicy = {
+  [K in keyof PolicySettings]: NonNullable<PolicySettings[K]>;
+} & {
+  sources: Record<keyof PolicySettings, PolicyScope | "default">;
+};
+
+export const fetchAttendancePolicies = async (scope?: PolicyScope) => {
+  const response = await api.get("/attendance-policies", {
+    params: scope ? { scope } : {},
+  });
+  return response.data as AttendancePolicy[];
+};
+
+export const saveAttendancePolicy = async (
+  policy: PolicySettings & {
+    scope: PolicyScope;
+    department_id?: number | null;
+    course_id?: number | null;
+    session_id?: string | null;
+    notes?: string | null;
+  },
+  policyId?: number
+) => {
+  const response = policyId
+    ? await api.put(`/attendance-policies/${policyId}`, policy)
+    : await api.post("/attendance-policies", policy);
+  return response.data;
+};
+
+export const deleteAttendancePolicy = async (policyId: number) => {
+  const response = await api.delete(`/attendance-policies/${policyId}`);
+  return response.data;
+};
+
+export type AttendanceStatus =
+  | "present"
+  | "absent"
+  | "late"
+  | "excused"
+  | "on_duty"
+  | "medical";
+
+// Where a mark in the attendance ledger came from
+export type AttendanceSource = "manual" | "qr_face" | "class_photo" | "bulk_import";
+
+export interface AttendanceStatusRule {
+  status: AttendanceStatus;
+  label: string;
+  counts_towards_total: boolean;
+  weight: number;
+}
+
+export const fetchAttendanceStatusRules = async () => {
+  const response = await api.get("/attendance-policies/status-rules");
+  return response.data as AttendanceStatusRule[];
+};
+
+export const saveAttendanceStatusRule = async (
+  status: AttendanceStatus,
+  rule: Partial<Omit<AttendanceStatusRule, "status">>
+) => {
+  const response = await api.put(`/attendance-policies/status-rules/${status}`, rule);
+  return response.data;
+};
+
+export const fetchEffectiveAttendancePolicy = async (params: {
+  schedule_id?: number | string;
+  session_id?: string;
+  course_id?: number | string;
+  department_id?: number | string;
+}) => {
+  const response = await api.get("/attendance-policies/effective", { params });
+  return response.data as {
+    target: {
+      schedule_id: number | null;
+      session_id: string | null;
+      course: { course_id: number; course_code: string; course_name: string } | null;
+      department_id: number | null;
+    };
+    policy: EffectiveAttendancePolicy;
+  };
+};
+
+// Proxy-attendance Fraud APIs
+export type FraudFindingType =
+  | "co_located_scans"
+  | "shared_face"
+  | "far_from_session"
+  | "photo_absent";
+
+export type FraudFindingStatus = "open" | "confirmed" | "dismissed";
+
+export interface FraudFinding {
+  finding_id: number;
+  finding_type: FraudFindingType;
+  score: number;
+  status: FraudFindingStatus;
+  student_ids: number[];
+  session_ids: string[];
+  scan_ids: number[];
+  summary: string;
+  details?: Record<string, any> | null;
+  first_detected_at: string;
+  last_detected_at: string;
+  reviewed_at?: string | null;
+  review_note?: string | null;
+  reviewer?: { user_id: number; email: string } | null;
+  students: { student_id: number; name: string; roll_number: string }[];
+}
+
+export interface FraudScanRecord {
+  scan_id: number;
+  session_id: string;
+  student_id: number;
+  scan_timestamp: string;
+  location_lat?: string | number | null;
+  location_lng?: string | number | null;
+  distance_from_class?: string | number | null;
+  face_match_confidence?: string | number | null;
+  status: "pending" | "verified" | "rejected";
+  liveness_passed?: boolean | null;
+  image_purged_at?: string | null;
+}
+
+export interface FraudFindingDetail extends FraudFinding {
+  scans: FraudScanRecord[];
+  sessions: {
+    session_id: string;
+    schedule_id: number;
+    teacher_id: number;
+    location_lat?: string | number | null;
+    location_lng?: string | number | null;
+    created_at: string;
+  }[];
+}
+
+export interface FraudAnalysisResult {
+  from: string;
+  to: string;
+  scansAnalysed: number;
+  sessionsAnalysed: number;
+  created: number;
+  updated: number;
+  reopened: number;
+  byType: Record<FraudFindingType, number>;
+}
+
+export const fetchFraudFindings = async (params?: {
+  type?: string;
+  status?: FraudFindingStatus | "all";
+  minScore?: number;
+  studentId?: number;
+}) => {
+  const response = await api.get("/smart-attendance/fraud-findings", { params });
+  return response.data as FraudFinding[];
+};
+
+export const fetchFraudFinding = async (findingId: number) => {
+  const response = await api.get(`/smart-attendance/fraud-findings/${findingId}`);
+  return response.data as FraudFindingDetail;
+};
+
+export const runFraudAnalysis = async (range?: { from?: string; to?: string }) => {
+  const response = await api.post("/smart-attendance/fraud-findings/analyse", range || {});
+  return response.data.result as FraudAnalysisResult;
+};
+
+export const reviewFraudFinding = async (
+  findingId: number,
+  status: FraudFindingStatus,
+  note?: string
+) => {
+  const response = await api.post(
+    `/smart-attendance/fraud-findings/${findingId}/review`,
+    { status, note }
+  );
+  return response.data;
+};
+
+// Signed, expiring URL for the face image captured during a scan
+export const fetchScanEvidence = async (scanId: number) => {
+  const response = await api.get(`/storage/evidence/scans/${scanId}`);
+  return response.data as {
+    scan_id: number;
+    imageUrl: string;
+    thumbnailUrl: string;
+    expiresAt: string;
+  };
+};
+
+// Leave Request APIs
+export type LeaveRequestStatus = "pending" | "approved" | "rejected" | "cancelled";
+
+export interface LeaveRequest {
+  leave_id: number;
+  student_id: number;
+  start_date: string;
+  end_date: string;
+  reason: string;
+  document_name?: string | null;
+  document_type?: string | null;
+  status: LeaveRequestStatus;
+  reviewed_at?: string | null;
+  review_comment?: string | null;
+  excused_records: number;
+  created_at: string;
+  student?: {
+    student_id: number;
+    name: string;
+    roll_number: string;
+    section_id?: number | null;
+  };
+  reviewer?: { user_id: number; email: string; role: string } | null;
+}
+
+export interface LeaveRequestDetail extends LeaveRequest {
+  document: { fileUrl: string; expiresAt: string } | null;
+}
+
+export const submitLeaveRequest = async (leave: {
+  start_date: string;
+  end_date: string;
+  reason: string;
+  document?: File | null;
+}) => {
+  const form = new FormData();
+  form.append("start_date", leave.start_date);
+  form.append("end_date", leave.end_date);
+  form.append("reason", leave.reason);
+  if (leave.document) form.append("document", leave.document);
+  const response = await api.post("/leave-requests", form, {
+    headers: { "Content-Type": "multipart/form-data" },
+  });
+  return response.data;
+};
+
+export const fetchMyLeaveRequests = async () => {
+  const response = await api.get("/leave-requests/mine");
+  return response.data as LeaveRequest[];
+};
+
+export const cancelLeaveRequest = async (leaveId: number) => {
+  const response = await api.post(`/leave-requests/${leaveId}/cancel`);
+  return response.data;
+};
+
+export const fetchLeaveRequests = async (params?: {
+  status?: LeaveRequestStatus | "all";
+  studentId?: number;
+}) => {
+  const response = await api.get("/leave-requests", { params });
+  return response.data as LeaveRequest[];
+};
+
+// Includes a signed, expiring link to the supporting document
+export const fetchLeaveRequest = async (leaveId: number) => {
+  const response = await api.get(`/leave-requests/${leaveId}`);
+  return response.data as LeaveRequestDetail;
+};
+
+export const reviewLeaveRequest = async (
+  leaveId: number,
+  decision: "approved" | "rejected",
+  comment?: string
+) => {
+  const response = await api.post(`/leave-requests/${leaveId}/review`, {
+    decision,
+    comment,
+  });
+  return response.data;
+};
+
+// Attendance Dispute and Audit APIs
+export type AttendanceDisputeStatus = "open" | "accepted" | "rejected" | "withdrawn";
+export type AttendanceRecordTable = "attendance" | "smart_attendance_records";
+
+export interface AttendanceDispute {
+  dispute_id: number;
+  table_name: AttendanceRecordTable;
+  record_id: number;
+  student_id: number;
+  schedule_id?: number | null;
+  date: string;
+  recorded_status: AttendanceStatus;
+  requested_status: AttendanceStatus;
+  reason: string;
+  evidence_name?: string | null;
+  status: AttendanceDisputeStatus;
+  resolved_at?: string | null;
+  resolution_note?: string | null;
+  created_at: string;
+  student?: { student_id: number; name: string; roll_number: string };
+  timetable?: {
+    schedule_id: number;
+    day_of_week: string;
+    start_time: string;
+    end_time: string;
+    course?: { course_id: number; course_code: string; course_name: string };
+  } | null;
+  resolver?: { user_id: number; email: string; role: string } | null;
+}
+
+export interface AttendanceDisputeDetail extends AttendanceDispute {
+  evidence: { fileUrl: string; expiresAt: string } | null;
+}
+
+export interface AttendanceAuditEntry {
+  audit_id: number;
+  table_name: AttendanceRecordTable;
+  record_id: number;
+  action: "insert" | "update" | "delete";
+  student_id: number;
+  student_name?: string | null;
+  roll_number?: string | null;
+  schedule_id?: number | null;
+  course_id?: number | null;
+  course_code?: string | null;
+  course_name?: string | null;
+  date?: string | null;
+  old_status?: string | null;
+  new_status?: string | null;
+  actor_user_id?: number | null;
+  actor_email?: string | null;
+  actor_role?: string | null;
+  source: string;
+  reason?: string | null;
+  changed_at: string;
+}
+
+export const raiseAttendanceDispute = async (dispute: {
+  table_name?: AttendanceRecordTable;
+  record_id: number;
+  requested_status?: AttendanceStatus;
+  reason: string;
+  evidence?: File | null;
+}) => {
+  const form = new FormData();
+  form.append("table_name", dispute.table_name || "attendance");
+  form.append("record_id", String(dispute.record_id));
+  form.append("requested_status", dispute.requested_status || "present");
+  form.append("reason", dispute.reason);
+  if (dispute.evidence) form.append("evidence", dispute.evidence);
+  const response = await api.post("/attendance-disputes", form, {
+    headers: { "Content-Type": "multipart/form-data" },
+  });
+  return response.data;
+};
+
+export const fetchMyAttendanceDisputes = async () => {
+  const response = await api.get("/attendance-disputes/mine");
+  return response.data as AttendanceDispute[];
+};
+
+export const withdrawAttendanceDispute = async (disputeId: number) => {
+  const response = await api.post(`/attendance-disputes/${disputeId}/withdraw`);
+  return response.data;
+};
+
+export const fetchAttendanceDisputes = async (params?: {
+  status?: AttendanceDisputeStatus | "all";
+  studentId?: number;
+}) => {
+  const response = await api.get("/attendance-disputes", { params });
+  return response.data as AttendanceDispute[];
+};
+
+// Includes a signed, expiring link to the evidence
+export const fetchAttendanceDispute = async (disputeId: number) => {
+  const response = await api.get(`/attendance-disputes/${disputeId}`);
+  return response.data as AttendanceDisputeDetail;
+};
+
+export const resolveAttendanceDispute = async (
+  disputeId: number,
+  decision: "accepted" | "rejected",
+  note?: string
+) => {
+  const response = await api.post(`/attendance-disputes/${disputeId}/resolve`, {
+    decision,
+    note,
+  });
+  return response.data;
+};
+
+export const fetchAttendanceAuditLog = async (params: {
+  studentId?: number;
+  courseId?: number;
+  from?: string;
+  to?: string;
+}) => {
+  const response = await api.get("/attendance/audit", { params });
+  return response.data as AttendanceAuditEntry[];
+};
+
+// Saved Timetable Version APIs
+export interface SavedTimetableSummary {
+  id: number;
+  name: string;
+  semester: string;
+  department: string;
+  section: string;
+  createdAt: string;
+  entriesCount: number;
+}
+
+export interface TimetableVersion {
+  version_id: number;
+  saved_timetable_id: number;
+  version_number: number;
+  change_type: "create" | "edit" | "publish" | "rollback";
+  reason?: string | null;
+  source_version?: number | null;
+  created_at: string;
+  entriesCount: number;
+  author?: { user_id: number; email: string } | null;
+}
+
+export interface TimetableVersionEntry {
+  course_id: number;
+  teacher_id: number;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  classroom: string | null;
+  class_type: string;
+}
+
+export interface TimetableVersionDiff {
+  from_version: number;
+  to_version: number;
+  changes: {
+    type: "added" | "removed" | "moved" | "teacher_changed";
+    course_id: number;
+    from?: TimetableVersionEntry;
+    to?: TimetableVersionEntry;
+    teacher_changed?: boolean;
+  }[];
+  summary: {
+    added: number;
+    removed: number;
+    moved: number;
+    teacher_changed: number;
+    unchanged: number;
+  };
+}
+
+export const fetchSavedTimetables = async () => {
+  const response = await api.get("/saved-timetables");
+  return response.data as SavedTimetableSummary[];
+};
+
+export const fetchTimetableVersions = async (savedTimetableId: number) => {
+  const response = await api.get(`/saved-timetables/${savedTimetableId}/versions`);
+  return response.data as TimetableVersion[];
+};
+
+export const diffTimetableVersions = async (
+  savedTimetableId: number,
+  from: number,
+  to: number
+) => {
+  const response = await api.get(
+    `/saved-timetables/${savedTimetableId}/versions/diff`,
+    { params: { from, to } }
+  );
+  return response.data as TimetableVersionDiff;
+};
+
+export const publishSavedTimetable = async (
+  savedTimetableId: number,
+  reason?: string
+) => {
+  const response = await api.post(`/saved-timetables/${savedTimetableId}/publish`, {
+    reason,
+  });
+  return response.data;
+};
+
+export const rollbackSavedTimetable = async (
+  savedTimetableId: number,
+  versionNumber: number,
+  reason: string
+) => {
+  const response = await api.post(`/saved-timetables/${savedTimetableId}/rollback`, {
+    version_number: versionNumber,
+    reason,
+  });
+  return response.data;
+};
+
 // Student Enrollment API
 export const fetchStudentsBySection = async (sectionId: string | number) => {
   const response = await api.get(`/students/section/${sectionId}`);
@@ -946,6 +1792,65 @@ export const markTimetableAttendance = async (
   return response.data;
 };
 
+// Attendance taken offline, synced in batches
+export interface OfflineAttendanceMark {
+  schedule_id: number;
+  student_id: number;
+  date: string;
+  status: AttendanceStatus;
+  // When the teacher made the mark
+  marked_at: string;
+}
+
+export interface OfflineAttendanceBatch {
+  batch_id: string;
+  queued_at: string;
+  marks: OfflineAttendanceMark[];
+}
+
+export type AttendanceSyncOutcome =
+  | "applied"
+  | "unchanged"
+  | "kept_server"
+  | "rejected";
+
+export type AttendanceSyncRule =
+  | "invalid"
+  | "superseded"
+  | "same_status"
+  | "verified_presence"
+  | "newer_server_mark"
+  | "offline_newer"
+  | "new_mark";
+
+export interface AttendanceSyncResult {
+  schedule_id: number;
+  student_id: number;
+  date: string;
+  status: string;
+  marked_at: string | null;
+  outcome: AttendanceSyncOutcome;
+  rule: AttendanceSyncRule;
+  message?: string;
+  recorded_status: AttendanceStatus | null;
+  recorded_source: AttendanceSource | null;
+  previous_status?: AttendanceStatus | null;
+}
+
+export interface AttendanceSyncResponse {
+  batch_id: string;
+  replayed: boolean;
+  received_at: string;
+  summary: { marks: number; applied: number; conflicts: number; rejected: number };
+  results: AttendanceSyncResult[];
+}
+
+// Safe to repeat: a batch_id the server has seen returns the first outcome
+export const syncOfflineAttendance = async (batch: OfflineAttendanceBatch) => {
+  const response = await api.post("/attendance/sync", batch);
+  return response.data as AttendanceSyncResponse;
+};
+
 // Get attendance report for a course
 export const getAttendanceReport = async (
   courseId: string | number,
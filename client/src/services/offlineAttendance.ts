@@ -0,0 +1,252 @@
+import {
+  AttendanceStatus,
+  AttendanceSyncResponse,
+  AttendanceSyncResult,
+  OfflineAttendanceBatch,
+  OfflineAttendanceMark,
+  syncOfflineAttendance,
+} from "./api";
+
+// Offline attendance for teachers: today's classes and rosters are cached in
+// localStorage while online, marks are queued as batches, and the queue is
+// sent to /attendance/sync once the server can be reached again. Everything is
+// stored per signed-in user, so a shared device never sends or shows one
+// teacher's marks under another teacher's session.
+
+const CLASSES_KEY = "offlineAttendance.classes";
+const ROSTERS_KEY = "offlineAttendance.rosters";
+const QUEUE_KEY = "offlineAttendance.queue";
+const ATTENTION_KEY = "offlineAttendance.attention";
+const REJECTED_KEY = "offlineAttendance.rejected";
+
+export interface CachedRosterStudent {
+  student_id: number;
+  name: string;
+  roll_number: string;
+  status: AttendanceStatus | null;
+}
+
+interface CachedRoster {
+  date: string;
+  cachedAt: string;
+  roster: CachedRosterStudent[];
+}
+
+// A batch the server refused as a whole, kept so its marks aren't lost
+export interface RejectedBatch extends OfflineAttendanceBatch {
+  rejected_at: string;
+  status: number;
+  message: string;
+}
+
+export interface SyncRunResult {
+  responses: AttendanceSyncResponse[];
+  // Batches still queued because the server couldn't be reached
+  pending: number;
+  offline: boolean;
+}
+
+// Storage key for the signed-in user; null when nobody is signed in
+const userKey = (key: string): string | null => {
+  try {
+    const user = JSON.parse(localStorage.getItem("user") || "null");
+    return user?.user_id ? `${key}.${user.user_id}` : null;
+  } catch {
+    return null;
+  }
+};
+
+const read = <T>(key: string | null, fallback: T): T => {
+  if (!key) return fallback;
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const write = (key: string | null, value: any) => {
+  if (!key) return;
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    // Storage full or disabled; the page still works online
+    console.error(`Failed to save ${key}:`, error);
+  }
+};
+
+const newBatchId = () =>
+  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+// No response at all means the server couldn't be reached (or the request timed out)
+export const isNetworkError = (error: any) =>
+  !!error && (error.isAxiosError || error.request) && !error.response;
+
+export const cacheClasses = (teacherId: number | string, date: string, classes: any[]) =>
+  write(userKey(CLASSES_KEY), { teacherId: String(teacherId), date, classes });
+
+export const cachedClasses = (teacherId: number | string, date: string): any[] | null => {
+  const cached = read<{ teacherId: string; date: string; classes: any[] } | null>(
+    userKey(CLASSES_KEY),
+    null
+  );
+  return cached && cached.teacherId === String(teacherId) && cached.date === date
+    ? cached.classes
+    : null;
+};
+
+// Only the current day's rosters are kept
+export const cacheRoster = (
+  scheduleId: number,
+  date: string,
+  roster: CachedRosterStudent[]
+) => {
+  const key = userKey(ROSTERS_KEY);
+  const rosters = read<Record<string, CachedRoster>>(key, {});
+  const kept: Record<string, CachedRoster> = {};
+  Object.keys(rosters).forEach((key) => {
+    if (rosters[key].date === date) kept[key] = rosters[key];
+  });
+  kept[`${scheduleId}|${date}`] = {
+    date,
+    cachedAt: new Date().toISOString(),
+    roster: roster.map(({ student_id, name, roll_number, status }) => ({
+      student_id,
+      name,
+      roll_number,
+      status: status || null,
+    })),
+  };
+  write(key, kept);
+};
+
+export const cachedRoster = (scheduleId: number, date: string): CachedRoster | null =>
+  read<Record<string, CachedRoster>>(userKey(ROSTERS_KEY), {})[`${scheduleId}|${date}`] || null;
+
+export const pendingBatches = () => read<OfflineAttendanceBatch[]>(userKey(QUEUE_KEY), []);
+
+export const pendingMarkCount = () =>
+  pendingBatches().reduce((count, batch) => count + batch.marks.length, 0);
+
+/**
+ * Queue marks to send; the batch id stays with them through every retry
+ */
+export const queueMarks = (marks: OfflineAttendanceMark[]) => {
+  const key = userKey(QUEUE_KEY);
+  if (!key) throw new Error("Sign in again to save attendance on this device");
+  const batch: OfflineAttendanceBatch = {
+    batch_id: newBatchId(),
+    queued_at: new Date().toISOString(),
+    marks,
+  };
+  write(key, [...read<OfflineAttendanceBatch[]>(key, []), batch]);
+  return batch;
+};
+
+/**
+ * Marks from earlier syncs where the server's mark was kept or the mark was
+ * rejected, until the teacher dismisses them
+ */
+export const needsAttention = () => read<AttendanceSyncResult[]>(userKey(ATTENTION_KEY), []);
+
+export const dismissAttention = () => {
+  const key = userKey(ATTENTION_KEY);
+  if (key) localStorage.removeItem(key);
+};
+
+/**
+ * Batches the server refused as a whole. Dismissing the attention list
+ * doesn't remove them; they stay until they're sent again.
+ */
+export const rejectedBatches = () => read<RejectedBatch[]>(userKey(REJECTED_KEY), []);
+
+export const refusedMarkCount = () =>
+  rejectedBatches().reduce((count, batch) => count + batch.marks.length, 0);
+
+/**
+ * Put refused batches back in the queue, under their original batch ids, for
+ * the next sync (e.g. once a coordinator has fixed the class assignment)
+ */
+export const requeueRejected = () => {
+  const rejected = rejectedBatches();
+  if (rejected.length === 0) return;
+  write(userKey(QUEUE_KEY), [
+    ...pendingBatches(),
+    ...rejected.map(({ batch_id, queued_at, marks }) => ({ batch_id, queued_at, marks })),
+  ]);
+  write(userKey(REJECTED_KEY), []);
+};
+
+const remember = (key: string | null, results: AttendanceSyncResult[]) => {
+  const flagged = results.filter(
+    (r) => r.outcome === "kept_server" || r.outcome === "rejected"
+  );
+  if (flagged.length > 0) {
+    write(key, [...read<AttendanceSyncResult[]>(key, []), ...flagged]);
+  }
+};
+
+let running: Promise<SyncRunResult> | null = null;
+
+/**
+ * Send the signed-in user's queued batches oldest first. Stops at the first
+ * one the server can't be reached for and leaves it and the rest queued.
+ */
+export const syncPending = (): Promise<SyncRunResult> => {
+  if (!running) {
+    running = (async () => {
+      // Resolved once, so a sign-out mid-run can't move batches between users
+      const queueKey = userKey(QUEUE_KEY);
+      const attentionKey = userKey(ATTENTION_KEY);
+      const rejectedKey = userKey(REJECTED_KEY);
+      const queued = () => read<OfflineAttendanceBatch[]>(queueKey, []);
+      const responses: AttendanceSyncResponse[] = [];
+      let offline = false;
+
+      for (const batch of queued()) {
+        try {
+          const response = await syncOfflineAttendance(batch);
+          responses.push(response);
+          remember(attentionKey, response.results);
+        } catch (error: any) {
+          const status = error?.response?.status;
+          if (isNetworkError(error) || !status || status >= 500 || status === 401) {
+            // Try again later (after signing in again, for 401)
+            offline = isNetworkError(error);
+            break;
+          }
+          // The server refused the whole batch; resending as-is won't change
+          // that, so it's set aside for the teacher instead of being dropped
+          const message = error?.response?.data?.message || "Rejected by the server";
+          write(rejectedKey, [
+            ...read<RejectedBatch[]>(rejectedKey, []),
+            { ...batch, rejected_at: new Date().toISOString(), status, message },
+          ]);
+          remember(
+            attentionKey,
+            batch.marks.map((mark) => ({
+              ...mark,
+              outcome: "rejected",
+              rule: "invalid",
+              message,
+              recorded_status: null,
+              recorded_source: null,
+            }))
+          );
+        }
+        write(
+          queueKey,
+          queued().filter((queuedBatch) => queuedBatch.batch_id !== batch.batch_id)
+        );
+      }
+
+      return { responses, pending: queued().length, offline };
+    })().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+};
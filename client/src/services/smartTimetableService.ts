@@ -68,13 +68,62 @@ export interface TimetableRequest {
   sections: string[];
   academic_year: string;
   settings: any;
-  status?: "draft" | "generating" | "generated" | "active";
+  status?:
+    | "draft"
+    | "generating"
+    | "generated"
+    | "review"
+    | "approved"
+    | "published"
+    | "active";
+  review_note?: string | null;
+  effective_from?: string | null;
+  effective_to?: string | null;
+  published_at?: string | null;
   created_at?: string;
   updated_at?: string;
   created_by_name?: string;
   department_name?: string;
 }
 
+export interface GenerationJob {
+  job_id: number;
+  request_id: number;
+  status: "queued" | "running" | "completed" | "failed" | "cancelled";
+  progress: number;
+  progress_message: string | null;
+  error_message: string | null;
+  result_summary: {
+    solution_id: string;
+    solution_name: string;
+    overall_score: number;
+    sessions_scheduled: number;
+    total_sessions: number;
+    hard_violations: number;
+    entries_written: number;
+  } | null;
+  queued_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  duration_ms: number | null;
+}
+
+export interface PublishConflict {
+  type: "teacher_clash" | "section_clash" | "published_teacher_clash";
+  teacher_id?: number;
+  section: string;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  description: string;
+}
+
+export interface PublishResult {
+  request: TimetableRequest;
+  sections: string[];
+  entries_published: number;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
@@ -236,15 +285,11 @@ class SmartTimetableService {
   }
 
   /**
-   * Start timetable generation for a request
+   * Queue timetable generation for a request (runs in the background)
    */
-  async generateTimetable(requestId: number): Promise<
-    ApiResponse<{
-      message: string;
-      status: string;
-      estimated_time: string;
-    }>
-  > {
+  async generateTimetable(
+    requestId: number
+  ): Promise<ApiResponse<GenerationJob> & { status?: string }> {
     try {
       const response = await api.post(
         `/smart-timetable/generator/requests/${requestId}/generate`
@@ -258,6 +303,137 @@ class SmartTimetableService {
     }
   }
 
+  /**
+   * Get progress of the latest generation job for a request
+   */
+  async getGenerationStatus(
+    requestId: number
+  ): Promise<ApiResponse<GenerationJob>> {
+    try {
+      const response = await api.get(
+        `/smart-timetable/generator/requests/${requestId}/status`
+      );
+      return response.data;
+    } catch (error: any) {
+      console.error("Error fetching generation status:", error);
+      throw new Error(
+        error.response?.data?.error || "Failed to fetch generation status"
+      );
+    }
+  }
+
+  /**
+   * Cancel a queued or running generation job
+   */
+  async cancelGeneration(
+    requestId: number
+  ): Promise<ApiResponse<GenerationJob>> {
+    try {
+      const response = await api.post(
+        `/smart-timetable/generator/requests/${requestId}/cancel`
+      );
+      return response.data;
+    } catch (error: any) {
+      console.error("Error cancelling generation:", error);
+      throw new Error(
+        error.response?.data?.error || "Failed to cancel timetable generation"
+      );
+    }
+  }
+
+  // ==================== REVIEW AND PUBLISH ====================
+
+  /**
+   * Send a generated timetable for coordinator review
+   */
+  async submitForReview(
+    requestId: number,
+    note?: string
+  ): Promise<ApiResponse<TimetableRequest>> {
+    try {
+      const response = await api.post(
+        `/smart-timetable/generator/requests/${requestId}/submit`,
+        { note }
+      );
+      return response.data;
+    } catch (error: any) {
+      console.error("Error submitting timetable for review:", error);
+      throw new Error(
+        error.response?.data?.error || "Failed to submit timetable for review"
+      );
+    }
+  }
+
+  /**
+   * Approve a timetable under review
+   */
+  async approveRequest(
+    requestId: number,
+    note?: string
+  ): Promise<ApiResponse<TimetableRequest>> {
+    try {
+      const response = await api.post(
+        `/smart-timetable/generator/requests/${requestId}/approve`,
+        { note }
+      );
+      return response.data;
+    } catch (error: any) {
+      console.error("Error approving timetable:", error);
+      throw new Error(
+        error.response?.data?.error || "Failed to approve timetable"
+      );
+    }
+  }
+
+  /**
+   * Send a timetable back for changes; a note is required
+   */
+  async rejectRequest(
+    requestId: number,
+    note: string
+  ): Promise<ApiResponse<TimetableRequest>> {
+    try {
+      const response = await api.post(
+        `/smart-timetable/generator/requests/${requestId}/reject`,
+        { note }
+      );
+      return response.data;
+    } catch (error: any) {
+      console.error("Error rejecting timetable:", error);
+      throw new Error(
+        error.response?.data?.error || "Failed to reject timetable"
+      );
+    }
+  }
+
+  /**
+   * Publish an approved timetable into the live timetable. Conflicts with
+   * other sections are listed on the thrown error's message.
+   */
+  async publishRequest(
+    requestId: number,
+    range: { effective_from: string; effective_to?: string; allow_past_start?: boolean }
+  ): Promise<ApiResponse<PublishResult>> {
+    try {
+      const response = await api.post(
+        `/smart-timetable/generator/requests/${requestId}/publish`,
+        range
+      );
+      return response.data;
+    } catch (error: any) {
+      console.error("Error publishing timetable:", error);
+      const conflicts: PublishConflict[] =
+        error.response?.data?.conflicts || [];
+      const message =
+        error.response?.data?.error || "Failed to publish timetable";
+      throw new Error(
+        conflicts.length
+          ? `${message}: ${conflicts.map((c) => c.description).join("; ")}`
+          : message
+      );
+    }
+  }
+
   // ==================== UTILITY METHODS ====================
 
   /**
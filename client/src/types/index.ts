@@ -45,5 +45,5 @@ export interface Attendance {
   scheduleId: number;
   studentId: number;
   date: string;
-  status: 'present' | 'absent';
+  status: 'present' | 'absent' | 'late' | 'excused' | 'on_duty' | 'medical';
 }
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { fetchMyDevices, registerStudentDevice, StudentDevice } from '../services/api';
+
+// The scan-signing key for this browser. It is generated once as a
+// non-extractable ECDSA P-256 key and kept in IndexedDB, so the private key
+// can't be copied to another phone; only the public key is sent to the server.
+
+export type DevicePurpose = 'validate-qr' | 'verify-face';
+
+// Must match the server's StudentDeviceService message layout
+const SIGNATURE_VERSION = 'haazir-device-v1';
+const DB_NAME = 'haazir-device';
+const STORE = 'keys';
+const KEY_ID = 'scan-signing-key';
+const DEVICE_ID_KEY = 'deviceKey.deviceId';
+
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer))
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join('');
+
+const toBase64 = (buffer: ArrayBuffer): string =>
+    window.btoa(String.fromCharCode.apply(null, Array.from(new Uint8Array(buffer))));
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+
+const openStore = async (mode: IDBTransactionMode) => {
+    const open = indexedDB.open(DB_NAME, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(STORE);
+    const db = await request(open);
+    return db.transaction(STORE, mode).objectStore(STORE);
+};
+
+/**
+ * WebCrypto only runs on HTTPS pages and localhost
+ */
+export const deviceKeysSupported = () =>
+    typeof window !== 'undefined' && !!window.crypto?.subtle && typeof indexedDB !== 'undefined';
+
+const getKeyPair = async (): Promise<CryptoKeyPair> => {
+    const stored = (await request((await openStore('readonly')).get(KEY_ID))) as CryptoKeyPair | undefined;
+    if (stored) return stored;
+
+    const keyPair = await window.crypto.subtle.generateKey(
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        false,
+        ['sign', 'verify']
+    );
+    await request((await openStore('readwrite')).put(keyPair, KEY_ID));
+    return keyPair;
+};
+
+const sha256Hex = async (text: string) =>
+    toHex(await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+/**
+ * The SHA-256 fingerprint the server stores for this browser's key
+ */
+export const deviceFingerprint = async () => {
+    const spki = await window.crypto.subtle.exportKey('spki', (await getKeyPair()).publicKey);
+    return toHex(await window.crypto.subtle.digest('SHA-256', spki));
+};
+
+/**
+ * This browser's registration for the signed-in student, registering it first
+ * if needed. A first device is active at once; later ones come back pending.
+ */
+export const ensureDeviceRegistered = async (): Promise<StudentDevice> => {
+    const fingerprint = await deviceFingerprint();
+    const existing = (await fetchMyDevices()).find((device) => device.key_fingerprint === fingerprint);
+
+    let device = existing;
+    if (!device || device.status === 'rejected' || device.status === 'revoked') {
+        const spki = await window.crypto.subtle.exportKey('spki', (await getKeyPair()).publicKey);
+        device = (await registerStudentDevice(toBase64(spki), navigator.platform || undefined)).device;
+    }
+    localStorage.setItem(DEVICE_ID_KEY, String(device.device_id));
+    return device;
+};
+
+/**
+ * Headers that prove a scan request came from this device. The signature
+ * covers the purpose, a timestamp, a one-time nonce and the SHA-256 of the
+ * exact body string, so send that same string as the request body.
+ */
+export const signedDeviceHeaders = async (purpose: DevicePurpose, body: string): Promise<Record<string, string>> => {
+    const deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) return {};
+
+    const timestamp = String(Date.now());
+    const nonce = toHex(window.crypto.getRandomValues(new Uint8Array(16)).buffer);
+    const message = [SIGNATURE_VERSION, purpose, timestamp, nonce, await sha256Hex(body)].join('\n');
+    const signature = await window.crypto.subtle.sign(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        (await getKeyPair()).privateKey,
+        new TextEncoder().encode(message)
+    );
+
+    return {
+        'X-Device-Id': deviceId,
+        'X-Device-Timestamp': timestamp,
+        'X-Device-Nonce': nonce,
+        'X-Device-Signature': toHex(signature),
+    };
+};
@@ -0,0 +1,147 @@
+import * as faceapi from '@vladmandic/face-api';
+import { livenessMetric } from './liveness';
+
+export type FacePose = 'center' | 'left' | 'right' | 'up' | 'down';
+
+export type SampleProblem =
+    | 'invalid'
+    | 'blurry'
+    | 'too_small'
+    | 'wrong_pose'
+    | 'low_detection'
+    | 'low_quality'
+    | 'different_person'
+    | 'duplicate_pose';
+
+export interface FaceSampleMeasurement {
+    box: { x: number; y: number; width: number; height: number };
+    sharpness: number;
+    faceSize: number;
+    yaw: number;
+    pitch: number;
+    detectionScore: number;
+}
+
+export const POSE_PROMPTS: Record<FacePose, string> = {
+    center: 'Face Forward (Center)',
+    left: 'Turn Your Head Slightly to Your Left',
+    right: 'Turn Your Head Slightly to Your Right',
+    up: 'Tilt Head Up Slightly',
+    down: 'Tilt Head Down Slightly',
+};
+
+export const PROBLEM_MESSAGES: Record<SampleProblem, string> = {
+    invalid: 'The sample could not be read',
+    blurry: 'The photo is blurry; hold still and check the lighting',
+    too_small: 'Your face is too small; move closer to the camera',
+    wrong_pose: "Your head position doesn't match the prompt",
+    low_detection: 'Your face is hard to make out; face the light and remove anything covering it',
+    low_quality: 'The sample is too low quality overall; try again in better light',
+    different_person: "This sample doesn't look like the forward-facing one",
+    duplicate_pose: 'A better sample for this pose was kept',
+};
+
+// Must stay in line with the server's FaceTemplateService thresholds
+const MIN_SHARPNESS = 40;
+const GOOD_SHARPNESS = 150;
+const MIN_FACE_SIZE = 0.18;
+const GOOD_FACE_SIZE = 0.35;
+const MIN_DETECTION_SCORE = 0.6;
+const MIN_QUALITY_SCORE = 0.55;
+const POSE_RANGES: Record<FacePose, { yaw: [number, number]; pitch: [number, number] }> = {
+    center: { yaw: [-0.12, 0.12], pitch: [0.42, 0.65] },
+    left: { yaw: [0.12, 0.6], pitch: [0.35, 0.75] },
+    right: { yaw: [-0.6, -0.12], pitch: [0.35, 0.75] },
+    up: { yaw: [-0.2, 0.2], pitch: [0.1, 0.45] },
+    down: { yaw: [-0.2, 0.2], pitch: [0.62, 0.95] },
+};
+const CROP_SIZE = 112;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const centroid = (points: { x: number; y: number }[]) => ({
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+/**
+ * Variance of the Laplacian over the face crop scaled to 112px, in the same
+ * 0-255 range (offset by 128) the server measures
+ */
+const sharpnessOf = (img: HTMLImageElement, box: FaceSampleMeasurement['box']): number => {
+    const canvas = document.createElement('canvas');
+    canvas.width = CROP_SIZE;
+    canvas.height = CROP_SIZE;
+    const context = canvas.getContext('2d');
+    if (!context) return 0;
+    context.drawImage(img, box.x, box.y, box.width, box.height, 0, 0, CROP_SIZE, CROP_SIZE);
+    const { data } = context.getImageData(0, 0, CROP_SIZE, CROP_SIZE);
+
+    const grey = new Float32Array(CROP_SIZE * CROP_SIZE);
+    for (let i = 0; i < grey.length; i++) {
+        grey[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    }
+    const values: number[] = [];
+    for (let y = 1; y < CROP_SIZE - 1; y++) {
+        for (let x = 1; x < CROP_SIZE - 1; x++) {
+            const i = y * CROP_SIZE + x;
+            const laplacian = grey[i - CROP_SIZE] + grey[i + CROP_SIZE] + grey[i - 1] + grey[i + 1] - 4 * grey[i];
+            values.push(Math.max(0, Math.min(255, laplacian + 128)));
+        }
+    }
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    return values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / values.length;
+};
+
+/**
+ * Measure a captured enrollment sample. Yaw uses the same nose offset as the
+ * liveness head-turn prompts (positive = student's left); pitch is where the
+ * nose tip sits between the eye line and the mouth (lower = head tilted up).
+ */
+export const measureFaceSample = (
+    img: HTMLImageElement,
+    detection: faceapi.WithFaceLandmarks<{ detection: faceapi.FaceDetection }>
+): FaceSampleMeasurement => {
+    const { x, y, width, height } = detection.detection.box;
+    const box = { x: Math.round(x), y: Math.round(y), width: Math.round(width), height: Math.round(height) };
+    const landmarks = detection.landmarks;
+
+    const eyes = centroid([...landmarks.getLeftEye(), ...landmarks.getRightEye()]);
+    const mouth = centroid(landmarks.getMouth());
+    const noseTip = landmarks.getNose()[3];
+
+    return {
+        box,
+        sharpness: sharpnessOf(img, box),
+        faceSize: width / (img.naturalWidth || img.width),
+        yaw: livenessMetric('turn_left', landmarks),
+        pitch: (noseTip.y - eyes.y) / (mouth.y - eyes.y || 1),
+        detectionScore: detection.detection.score,
+    };
+};
+
+export const sampleQualityScore = (sample: FaceSampleMeasurement): number =>
+    0.45 * clamp01(sample.sharpness / GOOD_SHARPNESS) +
+    0.35 * clamp01(sample.faceSize / GOOD_FACE_SIZE) +
+    0.2 * clamp01(sample.detectionScore);
+
+/**
+ * What's wrong with a sample for the prompted pose; empty when it is good enough
+ */
+export const sampleProblems = (pose: FacePose, sample: FaceSampleMeasurement): SampleProblem[] => {
+    const problems: SampleProblem[] = [];
+    const range = POSE_RANGES[pose];
+    if (sample.sharpness < MIN_SHARPNESS) problems.push('blurry');
+    if (sample.faceSize < MIN_FACE_SIZE) problems.push('too_small');
+    if (sample.detectionScore < MIN_DETECTION_SCORE) problems.push('low_detection');
+    if (
+        sample.yaw < range.yaw[0] ||
+        sample.yaw > range.yaw[1] ||
+        sample.pitch < range.pitch[0] ||
+        sample.pitch > range.pitch[1]
+    ) {
+        problems.push('wrong_pose');
+    }
+    if (problems.length === 0 && sampleQualityScore(sample) < MIN_QUALITY_SCORE) problems.push('low_quality');
+    return problems;
+};
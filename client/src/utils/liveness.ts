@@ -0,0 +1,173 @@
+import * as faceapi from '@vladmandic/face-api';
+
+export type LivenessAction = 'blink' | 'turn_left' | 'turn_right' | 'smile';
+
+export interface LivenessChallenge {
+    challengeToken: string;
+    actions: LivenessAction[];
+    // Per-challenge key; binds the summary to this challenge and the submitted face
+    signingKey: string;
+    expiresAt: string;
+}
+
+export interface LivenessStep {
+    action: LivenessAction;
+    frames: number;
+    baseline: number;
+    peak: number;
+    at: number;
+}
+
+export interface LivenessSummary {
+    challengeToken: string;
+    startedAt: number;
+    completedAt: number;
+    steps: LivenessStep[];
+    signature: string;
+}
+
+export const LIVENESS_PROMPTS: Record<LivenessAction, string> = {
+    blink: '😑 Blink your eyes',
+    turn_left: '👈 Turn your head to your left',
+    turn_right: '👉 Turn your head to your right',
+    smile: '😁 Give a big smile',
+};
+
+// Must stay in line with the server's LivenessService thresholds
+const BASELINE_FRAMES = 3;
+const BLINK_MAX_RATIO = 0.75;
+const TURN_MIN_DELTA = 0.15;
+const SMILE_MIN_RATIO = 1.1;
+const FRAME_INTERVAL_MS = 120;
+const STEP_TIMEOUT_MS = 7000;
+
+type Point = { x: number; y: number };
+
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+const centroid = (points: Point[]): Point => ({
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+const eyeAspectRatio = (eye: Point[]): number =>
+    (distance(eye[1], eye[5]) + distance(eye[2], eye[4])) / (2 * distance(eye[0], eye[3]));
+
+/**
+ * The landmark measurement a prompt is judged on. Head turns use the nose
+ * tip's offset from the eye midpoint; on the unmirrored webcam image a turn
+ * to the student's left moves it right, so the value goes up.
+ */
+export const livenessMetric = (action: LivenessAction, landmarks: faceapi.FaceLandmarks68): number => {
+    const leftEye = landmarks.getLeftEye();
+    const rightEye = landmarks.getRightEye();
+    const leftCenter = centroid(leftEye);
+    const rightCenter = centroid(rightEye);
+    const eyeDistance = distance(leftCenter, rightCenter) || 1;
+
+    switch (action) {
+        case 'blink':
+            return (eyeAspectRatio(leftEye) + eyeAspectRatio(rightEye)) / 2;
+        case 'turn_left':
+        case 'turn_right': {
+            const noseTip = landmarks.getNose()[3];
+            return (noseTip.x - (leftCenter.x + rightCenter.x) / 2) / eyeDistance;
+        }
+        case 'smile': {
+            const mouth = landmarks.getMouth();
+            return distance(mouth[0], mouth[6]) / eyeDistance;
+        }
+    }
+};
+
+const morePronounced = (action: LivenessAction, value: number, peak: number): boolean =>
+    action === 'blink' || action === 'turn_right' ? value < peak : value > peak;
+
+export const livenessActionDetected = ({ action, baseline, peak }: Pick<LivenessStep, 'action' | 'baseline' | 'peak'>): boolean => {
+    switch (action) {
+        case 'blink':
+            return baseline > 0 && peak <= baseline * BLINK_MAX_RATIO;
+        case 'turn_left':
+            return peak - baseline >= TURN_MIN_DELTA;
+        case 'turn_right':
+            return baseline - peak >= TURN_MIN_DELTA;
+        case 'smile':
+            return baseline > 0 && peak >= baseline * SMILE_MIN_RATIO;
+    }
+};
+
+/**
+ * Sample webcam frames until the prompted action shows up or the step times
+ * out. The first few frames with a face set the neutral baseline.
+ */
+export const runLivenessStep = async (
+    action: LivenessAction,
+    detectLandmarks: () => Promise<faceapi.FaceLandmarks68 | null>
+): Promise<LivenessStep | null> => {
+    const values: number[] = [];
+    let baseline = 0;
+    let peak = 0;
+    const deadline = Date.now() + STEP_TIMEOUT_MS;
+
+    while (Date.now() < deadline) {
+        const landmarks = await detectLandmarks();
+        if (landmarks) {
+            const value = livenessMetric(action, landmarks);
+            values.push(value);
+
+            if (values.length === BASELINE_FRAMES) {
+                baseline = values.reduce((sum, v) => sum + v, 0) / values.length;
+                peak = baseline;
+            } else if (values.length > BASELINE_FRAMES) {
+                if (morePronounced(action, value, peak)) peak = value;
+                if (livenessActionDetected({ action, baseline, peak })) {
+                    return { action, frames: values.length, baseline, peak, at: Date.now() };
+                }
+            }
+        }
+        await new Promise((resolve) => setTimeout(resolve, FRAME_INTERVAL_MS));
+    }
+    return null;
+};
+
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer))
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join('');
+
+/**
+ * HMAC-SHA256 over the summary and the face descriptor being submitted, in
+ * the same array layout the server re-signs
+ */
+export const signLivenessSummary = async (
+    challenge: LivenessChallenge,
+    startedAt: number,
+    completedAt: number,
+    steps: LivenessStep[],
+    faceDescriptor: number[]
+): Promise<LivenessSummary> => {
+    const payload = JSON.stringify([
+        challenge.challengeToken,
+        startedAt,
+        completedAt,
+        steps.map((step) => [step.action, step.frames, step.baseline, step.peak, step.at]),
+        faceDescriptor,
+    ]);
+    const encoder = new TextEncoder();
+    const key = await window.crypto.subtle.importKey(
+        'raw',
+        encoder.encode(challenge.signingKey),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+    );
+    const signature = await window.crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+
+    return {
+        challengeToken: challenge.challengeToken,
+        startedAt,
+        completedAt,
+        steps,
+        signature: toHex(signature),
+    };
+};
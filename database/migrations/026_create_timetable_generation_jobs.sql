@@ -0,0 +1,31 @@
+-- Migration: 026_create_timetable_generation_jobs
+-- Purpose: Persist timetable generation jobs so the background runner can
+-- report progress, be cancelled, and resume queued work after a restart
+
+CREATE TABLE IF NOT EXISTS timetable_generation_jobs (
+    job_id SERIAL PRIMARY KEY,
+    request_id INTEGER NOT NULL REFERENCES timetable_requests(request_id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued', -- 'queued', 'running', 'completed', 'failed', 'cancelled'
+    progress INTEGER NOT NULL DEFAULT 0, -- 0-100
+    progress_message TEXT,
+    error_message TEXT,
+    result_summary JSONB, -- Best solution quality and counts once completed
+    created_by INTEGER REFERENCES users(user_id) ON DELETE SET NULL,
+    queued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    started_at TIMESTAMP,
+    completed_at TIMESTAMP,
+    duration_ms INTEGER,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_request ON timetable_generation_jobs(request_id, queued_at DESC);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_status ON timetable_generation_jobs(status, queued_at);
+
+ALTER TABLE timetable_generation_jobs ADD CONSTRAINT chk_generation_job_status
+    CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled'));
+
+ALTER TABLE timetable_generation_jobs ADD CONSTRAINT chk_generation_job_progress
+    CHECK (progress >= 0 AND progress <= 100);
+
+COMMENT ON TABLE timetable_generation_jobs IS 'Background CSP generation jobs for timetable_requests';
+COMMENT ON COLUMN timetable_generation_jobs.result_summary IS 'JSON object with solution_id, overall_score, entries_written and hard_violations';
@@ -0,0 +1,35 @@
+-- Migration: 027_create_rooms
+-- Purpose: Room and lab inventory so the CSP generator can assign rooms by type,
+-- capacity and equipment instead of relying on free-text room names
+
+CREATE TABLE IF NOT EXISTS rooms (
+    room_id SERIAL PRIMARY KEY,
+    room_code VARCHAR(50) NOT NULL UNIQUE, -- 'CS-101', 'LAB-2'
+    building VARCHAR(100) NOT NULL,
+    floor INTEGER,
+    capacity INTEGER NOT NULL,
+    room_type VARCHAR(20) NOT NULL DEFAULT 'lecture', -- 'lecture', 'lab', 'seminar'
+    equipment TEXT[] NOT NULL DEFAULT '{}', -- 'projector', 'computers', 'smart_board'
+    department_id INTEGER REFERENCES departments(department_id) ON DELETE SET NULL, -- NULL = shared room
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_rooms_type_capacity ON rooms(room_type, capacity);
+CREATE INDEX IF NOT EXISTS idx_rooms_department ON rooms(department_id);
+
+ALTER TABLE rooms ADD CONSTRAINT chk_room_type
+    CHECK (room_type IN ('lecture', 'lab', 'seminar'));
+
+ALTER TABLE rooms ADD CONSTRAINT chk_room_capacity
+    CHECK (capacity > 0);
+
+-- Equipment a session needs from its room (matched against rooms.equipment)
+ALTER TABLE course_sessions ADD COLUMN IF NOT EXISTS required_equipment TEXT[] NOT NULL DEFAULT '{}';
+
+-- Room chosen by the generator (room_assignment keeps the display code)
+ALTER TABLE generated_timetables ADD COLUMN IF NOT EXISTS room_id INTEGER REFERENCES rooms(room_id) ON DELETE SET NULL;
+
+COMMENT ON TABLE rooms IS 'Teaching rooms and labs available to the timetable generator';
+COMMENT ON COLUMN rooms.equipment IS 'Equipment tags; a session is only placed in a room that has every tag it requires';
@@ -0,0 +1,29 @@
+-- Migration: 028_create_teacher_availability
+-- Purpose: Recurring weekly windows when a teacher cannot teach (hard constraint)
+-- or would prefer to teach (soft constraint) during timetable generation
+
+CREATE TABLE IF NOT EXISTS teacher_availability (
+    availability_id SERIAL PRIMARY KEY,
+    teacher_id INTEGER NOT NULL REFERENCES teachers(teacher_id) ON DELETE CASCADE,
+    day_of_week VARCHAR(10) NOT NULL, -- 'Monday' .. 'Saturday'
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    availability_type VARCHAR(20) NOT NULL, -- 'unavailable', 'preferred'
+    note TEXT,
+    created_by INTEGER REFERENCES users(user_id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_teacher_availability_teacher ON teacher_availability(teacher_id, day_of_week);
+
+ALTER TABLE teacher_availability ADD CONSTRAINT chk_availability_day
+    CHECK (day_of_week IN ('Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'));
+
+ALTER TABLE teacher_availability ADD CONSTRAINT chk_availability_type
+    CHECK (availability_type IN ('unavailable', 'preferred'));
+
+ALTER TABLE teacher_availability ADD CONSTRAINT chk_availability_times
+    CHECK (end_time > start_time);
+
+COMMENT ON TABLE teacher_availability IS 'Recurring teacher availability; unavailable windows are hard constraints, preferred windows are soft';
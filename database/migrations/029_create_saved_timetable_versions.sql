@@ -0,0 +1,48 @@
+-- Migration: 029_create_saved_timetable_versions
+-- Purpose: Immutable history of saved timetables so every create, edit, publish
+-- and rollback can be audited, diffed and restored
+
+CREATE TABLE IF NOT EXISTS saved_timetable_versions (
+    version_id SERIAL PRIMARY KEY,
+    saved_timetable_id INTEGER NOT NULL REFERENCES saved_timetables(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    change_type VARCHAR(20) NOT NULL, -- 'create', 'edit', 'publish', 'rollback'
+    reason TEXT,
+    entries JSONB NOT NULL DEFAULT '[]'::jsonb,
+    grid_settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+    source_version INTEGER, -- Version restored by a rollback
+    created_by INTEGER REFERENCES users(user_id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (saved_timetable_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_timetable_versions_timetable
+    ON saved_timetable_versions(saved_timetable_id, version_number DESC);
+
+ALTER TABLE saved_timetable_versions ADD CONSTRAINT chk_saved_timetable_version_change_type
+    CHECK (change_type IN ('create', 'edit', 'publish', 'rollback'));
+
+-- Versions are append-only; only deleting the parent timetable removes them
+CREATE OR REPLACE FUNCTION prevent_saved_timetable_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'saved_timetable_versions rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_saved_timetable_versions_immutable ON saved_timetable_versions;
+CREATE TRIGGER trg_saved_timetable_versions_immutable
+    BEFORE UPDATE ON saved_timetable_versions
+    FOR EACH ROW EXECUTE FUNCTION prevent_saved_timetable_version_update();
+
+-- Existing timetables start their history at version 1
+INSERT INTO saved_timetable_versions
+    (saved_timetable_id, version_number, change_type, reason, entries, grid_settings, created_by, created_at)
+SELECT id, 1, 'create', 'Imported existing timetable', entries, grid_settings, created_by, updated_at
+FROM saved_timetables st
+WHERE NOT EXISTS (
+    SELECT 1 FROM saved_timetable_versions v WHERE v.saved_timetable_id = st.id
+);
+
+COMMENT ON TABLE saved_timetable_versions IS 'Append-only snapshots of saved_timetables; the highest version_number is the current one';
+COMMENT ON COLUMN saved_timetable_versions.entries IS 'Snapshot of saved_timetables.entries at the time of the change';
@@ -0,0 +1,29 @@
+-- Migration: 030_add_timetable_publish_workflow
+-- Purpose: Review/approval/publish workflow for timetable requests, and
+-- effective date ranges on live timetable rows so a publish can replace a
+-- section's schedule from a given date without rewriting past attendance
+
+ALTER TABLE timetable_requests ADD COLUMN IF NOT EXISTS submitted_by INTEGER REFERENCES users(user_id);
+ALTER TABLE timetable_requests ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP;
+ALTER TABLE timetable_requests ADD COLUMN IF NOT EXISTS review_note TEXT;
+ALTER TABLE timetable_requests ADD COLUMN IF NOT EXISTS published_by INTEGER REFERENCES users(user_id);
+ALTER TABLE timetable_requests ADD COLUMN IF NOT EXISTS published_at TIMESTAMP;
+ALTER TABLE timetable_requests ADD COLUMN IF NOT EXISTS effective_from DATE;
+ALTER TABLE timetable_requests ADD COLUMN IF NOT EXISTS effective_to DATE;
+
+ALTER TABLE timetable_requests ADD CONSTRAINT chk_timetable_request_status
+    CHECK (status IN ('draft', 'generating', 'generated', 'review', 'approved', 'published', 'active'));
+
+-- NULL effective_from/effective_to mean "since forever" / "until further notice"
+ALTER TABLE timetable ADD COLUMN IF NOT EXISTS effective_from DATE;
+ALTER TABLE timetable ADD COLUMN IF NOT EXISTS effective_to DATE;
+ALTER TABLE timetable ADD COLUMN IF NOT EXISTS request_id INTEGER REFERENCES timetable_requests(request_id) ON DELETE SET NULL;
+
+ALTER TABLE timetable ADD CONSTRAINT chk_timetable_effective_range
+    CHECK (effective_to IS NULL OR effective_from IS NULL OR effective_to >= effective_from);
+
+CREATE INDEX IF NOT EXISTS idx_timetable_section_effective ON timetable(section_id, effective_from, effective_to);
+CREATE INDEX IF NOT EXISTS idx_timetable_teacher_day ON timetable(teacher_id, day_of_week);
+
+COMMENT ON COLUMN timetable.request_id IS 'Timetable request whose approved solution published this row (NULL for manual entries)';
+COMMENT ON COLUMN timetable_requests.status IS 'draft -> generating -> generated -> review -> approved -> published (active is legacy)';
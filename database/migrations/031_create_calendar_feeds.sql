@@ -0,0 +1,33 @@
+-- Migration: 031_create_calendar_feeds
+-- Purpose: Secret per-user tokens for iCalendar (.ics) subscription URLs, and
+-- one-off exceptions (cancelled or rescheduled occurrences) to weekly classes
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS calendar_token VARCHAR(64) UNIQUE;
+
+CREATE TABLE IF NOT EXISTS timetable_exceptions (
+    exception_id SERIAL PRIMARY KEY,
+    schedule_id INTEGER NOT NULL REFERENCES timetable(schedule_id) ON DELETE CASCADE,
+    exception_date DATE NOT NULL, -- The date the class would normally take place
+    exception_type VARCHAR(20) NOT NULL, -- 'cancelled', 'rescheduled'
+    new_date DATE,
+    new_start_time TIME,
+    new_end_time TIME,
+    new_classroom VARCHAR(50),
+    reason TEXT,
+    created_by INTEGER REFERENCES users(user_id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (schedule_id, exception_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_timetable_exceptions_schedule ON timetable_exceptions(schedule_id, exception_date);
+
+ALTER TABLE timetable_exceptions ADD CONSTRAINT chk_exception_type
+    CHECK (exception_type IN ('cancelled', 'rescheduled'));
+
+ALTER TABLE timetable_exceptions ADD CONSTRAINT chk_exception_reschedule
+    CHECK (exception_type = 'cancelled'
+           OR (new_date IS NOT NULL AND new_start_time IS NOT NULL AND new_end_time IS NOT NULL AND new_end_time > new_start_time));
+
+COMMENT ON COLUMN users.calendar_token IS 'Secret for the /api/calendar/feed/:token.ics subscription URL; regenerate to revoke';
+COMMENT ON TABLE timetable_exceptions IS 'Single occurrences of a weekly class that were cancelled or moved';
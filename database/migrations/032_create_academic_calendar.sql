@@ -0,0 +1,78 @@
+-- Migration: 032_create_academic_calendar
+-- Purpose: Term dates, holidays, exam periods and make-up days, so timetables,
+-- attendance sessions and attendance statistics agree on which days have classes
+
+CREATE TABLE IF NOT EXISTS academic_terms (
+    term_id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL, -- 'Odd Semester 2026-27'
+    academic_year VARCHAR(20) NOT NULL, -- '2026-27'
+    department_id INTEGER REFERENCES departments(department_id) ON DELETE CASCADE, -- NULL = all departments
+    semester INTEGER, -- NULL = all semesters
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    created_by INTEGER REFERENCES users(user_id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS academic_calendar_events (
+    event_id SERIAL PRIMARY KEY,
+    event_type VARCHAR(20) NOT NULL, -- 'holiday', 'exam', 'makeup_day'
+    title VARCHAR(150) NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    follows_day_of_week VARCHAR(10), -- Make-up days run this weekday's timetable
+    department_id INTEGER REFERENCES departments(department_id) ON DELETE CASCADE, -- NULL = all departments
+    semester INTEGER, -- NULL = all semesters
+    description TEXT,
+    created_by INTEGER REFERENCES users(user_id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_academic_terms_scope ON academic_terms(department_id, semester, start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_calendar_events_dates ON academic_calendar_events(start_date, end_date);
+
+ALTER TABLE academic_terms ADD CONSTRAINT chk_term_dates
+    CHECK (end_date >= start_date);
+
+ALTER TABLE academic_calendar_events ADD CONSTRAINT chk_calendar_event_type
+    CHECK (event_type IN ('holiday', 'exam', 'makeup_day'));
+
+ALTER TABLE academic_calendar_events ADD CONSTRAINT chk_calendar_event_dates
+    CHECK (end_date >= start_date);
+
+ALTER TABLE academic_calendar_events ADD CONSTRAINT chk_calendar_makeup_day
+    CHECK (event_type <> 'makeup_day'
+           OR (start_date = end_date
+               AND follows_day_of_week IN ('Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday')));
+
+-- Whether classes run on a date for a department/semester. Holidays and exam
+-- periods never have classes; when terms are defined for the scope, dates
+-- outside every term have none either. Mirrors AcademicCalendarService.
+CREATE OR REPLACE FUNCTION is_teaching_day(d DATE, dept INTEGER, sem INTEGER)
+RETURNS BOOLEAN AS $$
+    SELECT NOT EXISTS (
+            SELECT 1 FROM academic_calendar_events e
+            WHERE e.event_type IN ('holiday', 'exam')
+              AND d BETWEEN e.start_date AND e.end_date
+              AND (e.department_id IS NULL OR e.department_id = dept)
+              AND (e.semester IS NULL OR e.semester = sem)
+        )
+        AND (
+            NOT EXISTS (
+                SELECT 1 FROM academic_terms t
+                WHERE (t.department_id IS NULL OR t.department_id = dept)
+                  AND (t.semester IS NULL OR t.semester = sem)
+            )
+            OR EXISTS (
+                SELECT 1 FROM academic_terms t
+                WHERE (t.department_id IS NULL OR t.department_id = dept)
+                  AND (t.semester IS NULL OR t.semester = sem)
+                  AND d BETWEEN t.start_date AND t.end_date
+            )
+        );
+$$ LANGUAGE SQL STABLE;
+
+COMMENT ON TABLE academic_terms IS 'Teaching terms; with none defined for a department/semester every date is treated as in term';
+COMMENT ON COLUMN academic_calendar_events.follows_day_of_week IS 'For make-up days: the weekday whose timetable is followed';
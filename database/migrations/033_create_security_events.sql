@@ -0,0 +1,34 @@
+-- Migration: 033_create_security_events
+-- Purpose: Log of suspicious smart-attendance requests (a student submitting a
+-- scan or face for someone else, teachers acting on other teachers' classes)
+-- for coordinators to review
+
+CREATE TABLE IF NOT EXISTS security_events (
+    event_id SERIAL PRIMARY KEY,
+    event_type VARCHAR(40) NOT NULL, -- 'identity_mismatch', 'schedule_access_denied', 'missing_profile'
+    severity VARCHAR(10) NOT NULL DEFAULT 'medium', -- 'low', 'medium', 'high'
+    user_id INTEGER REFERENCES users(user_id) ON DELETE SET NULL, -- Authenticated user who made the request
+    role VARCHAR(20),
+    route VARCHAR(200) NOT NULL,
+    claimed_student_id INTEGER, -- studentId sent in the request, if any
+    actual_student_id INTEGER, -- Student profile of the authenticated user, if any
+    schedule_id INTEGER,
+    session_id VARCHAR(100),
+    ip_address VARCHAR(64),
+    user_agent TEXT,
+    details JSONB,
+    reviewed_at TIMESTAMP,
+    reviewed_by INTEGER REFERENCES users(user_id) ON DELETE SET NULL,
+    review_note TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_events_created ON security_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_security_events_unreviewed ON security_events(created_at DESC) WHERE reviewed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_security_events_user ON security_events(user_id);
+
+ALTER TABLE security_events ADD CONSTRAINT chk_security_event_severity
+    CHECK (severity IN ('low', 'medium', 'high'));
+
+COMMENT ON TABLE security_events IS 'Suspicious smart-attendance requests, rejected by the API and kept for coordinator review';
+COMMENT ON COLUMN security_events.claimed_student_id IS 'Student id the client asked to act as; differs from actual_student_id on identity mismatches';
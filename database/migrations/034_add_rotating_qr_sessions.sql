@@ -0,0 +1,18 @@
+-- Migration: 034_add_rotating_qr_sessions
+-- Purpose: Rotating QR mode for smart-attendance sessions. The displayed code
+-- changes every rotation_interval_seconds and is derived from a per-session
+-- secret and the time-step counter, so a forwarded photo stops working within
+-- one or two steps
+
+ALTER TABLE attendance_sessions ADD COLUMN IF NOT EXISTS rotation_secret VARCHAR(64);
+ALTER TABLE attendance_sessions ADD COLUMN IF NOT EXISTS rotation_interval_seconds INTEGER;
+ALTER TABLE attendance_sessions ADD COLUMN IF NOT EXISTS stale_step_validations INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE attendance_sessions ADD COLUMN IF NOT EXISTS expired_step_rejections INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE attendance_sessions ADD CONSTRAINT chk_rotation_interval
+    CHECK (rotation_interval_seconds IS NULL OR rotation_interval_seconds BETWEEN 5 AND 120);
+
+COMMENT ON COLUMN attendance_sessions.rotation_secret IS 'HMAC key for rotating QR codes; never sent to clients';
+COMMENT ON COLUMN attendance_sessions.rotation_interval_seconds IS 'Seconds per QR step; NULL for a single static QR token';
+COMMENT ON COLUMN attendance_sessions.stale_step_validations IS 'Scans accepted with the previous step''s code';
+COMMENT ON COLUMN attendance_sessions.expired_step_rejections IS 'Scans rejected because their code was older than the previous step';
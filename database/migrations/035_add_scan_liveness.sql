@@ -0,0 +1,13 @@
+-- Migration: 035_add_scan_liveness
+-- Purpose: Record the outcome of the challenge-response liveness check (blink,
+-- head-turn and smile prompts) on each smart-attendance face scan, so scans
+-- made with a printed photo or a phone screen can be rejected and audited
+
+ALTER TABLE student_scan_records ADD COLUMN IF NOT EXISTS liveness_passed BOOLEAN;
+ALTER TABLE student_scan_records ADD COLUMN IF NOT EXISTS liveness_result JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_student_scan_records_liveness_failed
+    ON student_scan_records(session_id) WHERE liveness_passed = FALSE;
+
+COMMENT ON COLUMN student_scan_records.liveness_passed IS 'Whether the liveness challenge passed; NULL for scans made before liveness checks';
+COMMENT ON COLUMN student_scan_records.liveness_result IS 'Prompts issued, per-prompt landmark metrics and the failure reason, if any';
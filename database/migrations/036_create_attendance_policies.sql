@@ -0,0 +1,72 @@
+-- Migration: 036_create_attendance_policies
+-- Purpose: Attendance rules that used to be hard-coded (geofence radius, face
+-- match threshold, QR lifetime, required verification factors and the minimum
+-- attendance percentage), configurable per institution, department, course and
+-- individual smart-attendance session. A NULL setting inherits from the next
+-- broader scope: session -> course -> department -> institution.
+
+CREATE TABLE IF NOT EXISTS attendance_policies (
+    policy_id SERIAL PRIMARY KEY,
+    scope VARCHAR(20) NOT NULL, -- 'institution', 'department', 'course', 'session'
+    department_id INTEGER REFERENCES departments(department_id) ON DELETE CASCADE,
+    course_id INTEGER REFERENCES courses(course_id) ON DELETE CASCADE,
+    session_id VARCHAR(100) REFERENCES attendance_sessions(session_id) ON DELETE CASCADE,
+    geofence_radius_meters INTEGER,
+    face_match_threshold DECIMAL(4, 3),
+    qr_lifetime_seconds INTEGER,
+    scan_timeout_seconds INTEGER,
+    required_factors TEXT[], -- subset of 'face', 'liveness', 'location'; the QR scan is always required
+    min_attendance_percentage DECIMAL(5, 2),
+    notes TEXT,
+    updated_by INTEGER REFERENCES users(user_id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE attendance_policies ADD CONSTRAINT chk_attendance_policy_scope
+    CHECK ((scope = 'institution' AND department_id IS NULL AND course_id IS NULL AND session_id IS NULL)
+        OR (scope = 'department' AND department_id IS NOT NULL AND course_id IS NULL AND session_id IS NULL)
+        OR (scope = 'course' AND course_id IS NOT NULL AND department_id IS NULL AND session_id IS NULL)
+        OR (scope = 'session' AND session_id IS NOT NULL AND department_id IS NULL AND course_id IS NULL));
+
+ALTER TABLE attendance_policies ADD CONSTRAINT chk_attendance_policy_values
+    CHECK ((geofence_radius_meters IS NULL OR geofence_radius_meters BETWEEN 10 AND 100000)
+       AND (face_match_threshold IS NULL OR face_match_threshold BETWEEN 0.3 AND 0.99)
+       AND (qr_lifetime_seconds IS NULL OR qr_lifetime_seconds BETWEEN 30 AND 3600)
+       AND (scan_timeout_seconds IS NULL OR scan_timeout_seconds BETWEEN 15 AND 600)
+       AND (required_factors IS NULL OR required_factors <@ ARRAY['face', 'liveness', 'location']::TEXT[])
+       AND (min_attendance_percentage IS NULL OR min_attendance_percentage BETWEEN 0 AND 100));
+
+-- One policy per scope target
+CREATE UNIQUE INDEX IF NOT EXISTS uq_attendance_policy_institution ON attendance_policies(scope) WHERE scope = 'institution';
+CREATE UNIQUE INDEX IF NOT EXISTS uq_attendance_policy_department ON attendance_policies(department_id) WHERE scope = 'department';
+CREATE UNIQUE INDEX IF NOT EXISTS uq_attendance_policy_course ON attendance_policies(course_id) WHERE scope = 'course';
+CREATE UNIQUE INDEX IF NOT EXISTS uq_attendance_policy_session ON attendance_policies(session_id) WHERE scope = 'session';
+
+-- Institution defaults. Location stays off, as it was while it was hard-coded;
+-- coordinators switch it on by adding 'location' to required_factors.
+INSERT INTO attendance_policies (scope, geofence_radius_meters, face_match_threshold, qr_lifetime_seconds,
+                                 scan_timeout_seconds, required_factors, min_attendance_percentage, notes)
+SELECT 'institution', 100, 0.6, 300, 60, ARRAY['face', 'liveness']::TEXT[], 75, 'Institution-wide defaults'
+WHERE NOT EXISTS (SELECT 1 FROM attendance_policies WHERE scope = 'institution');
+
+-- Minimum attendance percentage that applies to a course: its own policy, then
+-- its department's, then the institution's. Mirrors AttendancePolicyService.
+CREATE OR REPLACE FUNCTION attendance_min_percentage(course INTEGER)
+RETURNS NUMERIC AS $$
+    SELECT COALESCE(
+        (SELECT p.min_attendance_percentage FROM attendance_policies p
+          WHERE p.scope = 'course' AND p.course_id = course),
+        (SELECT p.min_attendance_percentage FROM attendance_policies p
+           JOIN courses c ON c.department_id = p.department_id
+          WHERE p.scope = 'department' AND c.course_id = course),
+        (SELECT p.min_attendance_percentage FROM attendance_policies p
+          WHERE p.scope = 'institution'),
+        75
+    );
+$$ LANGUAGE SQL STABLE;
+
+COMMENT ON TABLE attendance_policies IS 'Attendance rules per scope; NULL settings inherit session -> course -> department -> institution';
+COMMENT ON COLUMN attendance_policies.required_factors IS 'Checks a smart-attendance scan must pass besides the QR code: face, liveness, location';
+COMMENT ON COLUMN attendance_policies.qr_lifetime_seconds IS 'How long a smart-attendance session''s QR code stays valid';
+COMMENT ON COLUMN attendance_policies.scan_timeout_seconds IS 'Time a student has after scanning the QR code to complete face verification';
@@ -0,0 +1,28 @@
+-- Migration: 037_add_class_photo_review
+-- Purpose: Class-photo faces are now matched one-to-one against the session's
+-- roster. Record near-tie matches for teacher review, the candidate students
+-- considered for each face, and faces the teacher tagged by hand
+
+ALTER TABLE detected_class_faces ADD COLUMN IF NOT EXISTS needs_review BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE detected_class_faces ADD COLUMN IF NOT EXISTS match_candidates JSONB;
+ALTER TABLE detected_class_faces ADD COLUMN IF NOT EXISTS tagged_by INT REFERENCES users(user_id) ON DELETE SET NULL;
+ALTER TABLE detected_class_faces ADD COLUMN IF NOT EXISTS tagged_at TIMESTAMP;
+
+-- Older captures could match one student to several faces; keep the most
+-- confident face per student and send the rest back for review
+UPDATE detected_class_faces d
+SET matched_student_id = NULL, needs_review = TRUE
+WHERE matched_student_id IS NOT NULL
+  AND detection_id <> (
+    SELECT d2.detection_id FROM detected_class_faces d2
+    WHERE d2.capture_id = d.capture_id AND d2.matched_student_id = d.matched_student_id
+    ORDER BY d2.confidence DESC NULLS LAST, d2.detection_id ASC
+    LIMIT 1
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_detected_faces_one_per_student
+    ON detected_class_faces(capture_id, matched_student_id) WHERE matched_student_id IS NOT NULL;
+
+COMMENT ON COLUMN detected_class_faces.needs_review IS 'Match was a near tie with another student or face and should be confirmed by the teacher';
+COMMENT ON COLUMN detected_class_faces.match_candidates IS 'Best-scoring roster students for this face: [{student_id, confidence}]';
+COMMENT ON COLUMN detected_class_faces.tagged_by IS 'User who tagged or cleared the match by hand; NULL for automatic matches';
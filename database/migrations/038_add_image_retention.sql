@@ -0,0 +1,24 @@
+-- Migration: 038_add_image_retention
+-- Purpose: Face and class-photo images are now kept in the configured storage
+-- backend (local disk or an S3-compatible bucket) as evidence for disputes.
+-- Record when each image was purged under the biometric retention period so
+-- the key can stay on the row without pointing at a deleted object
+
+ALTER TABLE student_scan_records ADD COLUMN IF NOT EXISTS image_purged_at TIMESTAMP;
+ALTER TABLE teacher_class_captures ADD COLUMN IF NOT EXISTS image_purged_at TIMESTAMP;
+ALTER TABLE student_faces ADD COLUMN IF NOT EXISTS image_purged_at TIMESTAMP;
+
+-- The retention job looks for stored, unpurged images older than the cutoff
+CREATE INDEX IF NOT EXISTS idx_student_scan_records_image_retention
+    ON student_scan_records(scan_timestamp) WHERE face_image_url IS NOT NULL AND image_purged_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_teacher_class_captures_image_retention
+    ON teacher_class_captures(capture_timestamp) WHERE image_purged_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_student_faces_image_retention
+    ON student_faces(updated_at) WHERE is_active = FALSE AND image_url IS NOT NULL AND image_purged_at IS NULL;
+
+COMMENT ON COLUMN student_scan_records.face_image_url IS 'Storage key of the face image captured during the scan';
+COMMENT ON COLUMN teacher_class_captures.image_url IS 'Storage key of the class photo';
+COMMENT ON COLUMN student_faces.image_url IS 'Storage key of the enrollment image';
+COMMENT ON COLUMN student_scan_records.image_purged_at IS 'When the image was deleted under the retention policy';
+COMMENT ON COLUMN teacher_class_captures.image_purged_at IS 'When the image was deleted under the retention policy';
+COMMENT ON COLUMN student_faces.image_purged_at IS 'When the image was deleted under the retention policy (removed faces only)';
@@ -0,0 +1,38 @@
+-- Migration: 039_create_fraud_findings
+-- Purpose: Scored findings from the proxy-attendance analysis of smart-attendance
+-- scans (students scanning from identical coordinates within seconds, one face
+-- used for several student records, scans far from the session location, and
+-- students who scan in but never appear in class photos) for coordinator review
+
+CREATE TABLE IF NOT EXISTS fraud_findings (
+    finding_id SERIAL PRIMARY KEY,
+    finding_type VARCHAR(30) NOT NULL, -- 'co_located_scans', 'shared_face', 'far_from_session', 'photo_absent'
+    fingerprint VARCHAR(200) NOT NULL, -- Type plus the students involved; repeated runs update the same finding
+    score SMALLINT NOT NULL, -- 0-100, higher is more suspicious
+    status VARCHAR(12) NOT NULL DEFAULT 'open', -- 'open', 'confirmed', 'dismissed'
+    student_ids INTEGER[] NOT NULL,
+    session_ids TEXT[] NOT NULL DEFAULT '{}',
+    scan_ids INTEGER[] NOT NULL DEFAULT '{}',
+    summary TEXT NOT NULL,
+    details JSONB,
+    first_detected_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_detected_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    reviewed_at TIMESTAMP,
+    reviewed_by INTEGER REFERENCES users(user_id) ON DELETE SET NULL,
+    review_note TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fraud_findings_fingerprint ON fraud_findings(fingerprint);
+CREATE INDEX IF NOT EXISTS idx_fraud_findings_open ON fraud_findings(score DESC) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_fraud_findings_students ON fraud_findings USING GIN(student_ids);
+
+ALTER TABLE fraud_findings ADD CONSTRAINT chk_fraud_finding_type
+    CHECK (finding_type IN ('co_located_scans', 'shared_face', 'far_from_session', 'photo_absent'));
+ALTER TABLE fraud_findings ADD CONSTRAINT chk_fraud_finding_status
+    CHECK (status IN ('open', 'confirmed', 'dismissed'));
+ALTER TABLE fraud_findings ADD CONSTRAINT chk_fraud_finding_score
+    CHECK (score BETWEEN 0 AND 100);
+
+COMMENT ON TABLE fraud_findings IS 'Possible proxy attendance found by analysing smart-attendance scans, for coordinator review';
+COMMENT ON COLUMN fraud_findings.scan_ids IS 'student_scan_records behind the finding, for drill-down';
+COMMENT ON COLUMN fraud_findings.status IS 'Dismissed findings reopen when a later run finds new scans';
@@ -0,0 +1,52 @@
+-- Migration: 040_add_extended_attendance_statuses
+-- Purpose: Attendance can be marked late, excused, on duty (official college
+-- work) or medical as well as present/absent. Each status has a configurable
+-- rule for whether it counts towards the attendance percentage and how much
+-- credit it earns, used by every statistics endpoint.
+
+CREATE TABLE IF NOT EXISTS attendance_status_rules (
+    status VARCHAR(20) PRIMARY KEY,
+    label VARCHAR(50) NOT NULL,
+    counts_towards_total BOOLEAN NOT NULL DEFAULT TRUE, -- FALSE leaves the class out of the percentage entirely
+    weight DECIMAL(3, 2) NOT NULL DEFAULT 0, -- Credit towards attended classes: 1 = present, 0 = absent
+    updated_by INTEGER REFERENCES users(user_id) ON DELETE SET NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE attendance_status_rules ADD CONSTRAINT chk_attendance_status_rule_status
+    CHECK (status IN ('present', 'absent', 'late', 'excused', 'on_duty', 'medical'));
+ALTER TABLE attendance_status_rules ADD CONSTRAINT chk_attendance_status_rule_weight
+    CHECK (weight BETWEEN 0 AND 1);
+
+INSERT INTO attendance_status_rules (status, label, counts_towards_total, weight) VALUES
+    ('present', 'Present', TRUE, 1),
+    ('absent', 'Absent', TRUE, 0),
+    ('late', 'Late', TRUE, 0.5),
+    ('excused', 'Excused', FALSE, 0),
+    ('on_duty', 'On duty', TRUE, 1),
+    ('medical', 'Medical leave', FALSE, 0)
+ON CONFLICT (status) DO NOTHING;
+
+-- attendance.status was VARCHAR(10) with a present/absent check, or an enum
+-- when the table was created by Sequelize
+ALTER TABLE attendance DROP CONSTRAINT IF EXISTS attendance_status_check;
+ALTER TABLE attendance ALTER COLUMN status TYPE VARCHAR(20) USING status::text;
+DROP TYPE IF EXISTS enum_attendance_status;
+ALTER TABLE attendance ADD CONSTRAINT chk_attendance_status
+    CHECK (status IN ('present', 'absent', 'late', 'excused', 'on_duty', 'medical'));
+
+ALTER TABLE smart_attendance_records ADD CONSTRAINT chk_smart_attendance_status
+    CHECK (status IN ('present', 'absent', 'late', 'excused', 'on_duty', 'medical'));
+
+-- Credit a status earns towards the attendance percentage, or NULL when it
+-- doesn't count at all: COUNT() of it gives the classes that count and SUM()
+-- the classes attended. Mirrors AttendanceStatusService.
+CREATE OR REPLACE FUNCTION attendance_credit(s VARCHAR)
+RETURNS NUMERIC AS $$
+    SELECT CASE WHEN r.counts_towards_total THEN r.weight END
+    FROM attendance_status_rules r
+    WHERE r.status = s;
+$$ LANGUAGE SQL STABLE;
+
+COMMENT ON TABLE attendance_status_rules IS 'How each attendance status counts towards the attendance percentage';
+COMMENT ON COLUMN attendance_status_rules.weight IS 'Share of a class credited as attended, 0-1; ignored when counts_towards_total is FALSE';
@@ -0,0 +1,34 @@
+-- Migration: 041_create_leave_requests
+-- Purpose: Student leave and excuse requests with an optional supporting document
+-- (e.g. a medical certificate). A teacher of the student's section or a coordinator
+-- approves or rejects each request; approval turns the student's absences in the
+-- date range into 'excused'.
+
+CREATE TABLE IF NOT EXISTS leave_requests (
+    leave_id SERIAL PRIMARY KEY,
+    student_id INTEGER NOT NULL REFERENCES students(student_id) ON DELETE CASCADE,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    reason TEXT NOT NULL,
+    document_key VARCHAR(255), -- Storage key of the uploaded document
+    document_name VARCHAR(255), -- File name as uploaded
+    document_type VARCHAR(100),
+    status VARCHAR(10) NOT NULL DEFAULT 'pending', -- 'pending', 'approved', 'rejected', 'cancelled'
+    reviewed_by INTEGER REFERENCES users(user_id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP,
+    review_comment TEXT,
+    excused_records INTEGER NOT NULL DEFAULT 0, -- Absences converted when approved
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_leave_requests_student ON leave_requests(student_id, start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_leave_requests_pending ON leave_requests(created_at) WHERE status = 'pending';
+
+ALTER TABLE leave_requests ADD CONSTRAINT chk_leave_request_status
+    CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled'));
+ALTER TABLE leave_requests ADD CONSTRAINT chk_leave_request_dates
+    CHECK (end_date >= start_date);
+
+COMMENT ON TABLE leave_requests IS 'Student leave requests reviewed by a teacher of the student''s section or a coordinator';
+COMMENT ON COLUMN leave_requests.excused_records IS 'attendance and smart_attendance_records rows changed from absent to excused on approval';
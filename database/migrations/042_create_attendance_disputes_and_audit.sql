@@ -0,0 +1,129 @@
+-- Migration: 042_create_attendance_disputes_and_audit
+-- Purpose: Students dispute a specific attendance record (optionally with evidence)
+-- and a teacher resolves it; every insert, change or delete on attendance and
+-- smart_attendance_records is written to an append-only audit log with the old
+-- and new values, who made the change and why.
+
+CREATE TABLE IF NOT EXISTS attendance_audit_log (
+    audit_id BIGSERIAL PRIMARY KEY,
+    table_name VARCHAR(30) NOT NULL, -- 'attendance' or 'smart_attendance_records'
+    record_id INTEGER NOT NULL, -- attendance_id or record_id
+    action VARCHAR(10) NOT NULL, -- 'insert', 'update', 'delete'
+    student_id INTEGER NOT NULL,
+    schedule_id INTEGER,
+    date DATE,
+    old_status VARCHAR(20),
+    new_status VARCHAR(20),
+    old_values JSONB,
+    new_values JSONB,
+    -- No foreign keys: the log outlives the users, students and records it mentions
+    actor_user_id INTEGER,
+    source VARCHAR(30) NOT NULL DEFAULT 'direct', -- e.g. 'manual', 'smart_attendance', 'leave_approval', 'dispute'
+    reason TEXT,
+    changed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_audit_student ON attendance_audit_log(student_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_attendance_audit_record ON attendance_audit_log(table_name, record_id);
+CREATE INDEX IF NOT EXISTS idx_attendance_audit_schedule ON attendance_audit_log(schedule_id);
+
+-- The application sets haazir.actor_user_id, haazir.change_source and
+-- haazir.change_reason with set_config(..., true) inside its transaction;
+-- changes made any other way are still logged, with source 'direct'
+CREATE OR REPLACE FUNCTION log_attendance_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    old_row JSONB := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END;
+    new_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END;
+    row_data JSONB := COALESCE(new_row, old_row);
+BEGIN
+    -- Bookkeeping columns alone aren't a change worth auditing
+    IF TG_OP = 'UPDATE'
+        AND (old_row - 'updated_at' - 'notification_sent') = (new_row - 'updated_at' - 'notification_sent') THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO attendance_audit_log (
+        table_name, record_id, action, student_id, schedule_id, date,
+        old_status, new_status, old_values, new_values,
+        actor_user_id, source, reason
+    ) VALUES (
+        TG_TABLE_NAME,
+        (row_data ->> CASE WHEN TG_TABLE_NAME = 'attendance' THEN 'attendance_id' ELSE 'record_id' END)::INTEGER,
+        lower(TG_OP),
+        (row_data ->> 'student_id')::INTEGER,
+        (row_data ->> 'schedule_id')::INTEGER,
+        (row_data ->> 'date')::DATE,
+        old_row ->> 'status',
+        new_row ->> 'status',
+        old_row,
+        new_row,
+        NULLIF(current_setting('haazir.actor_user_id', true), '')::INTEGER,
+        COALESCE(NULLIF(current_setting('haazir.change_source', true), ''), 'direct'),
+        NULLIF(current_setting('haazir.change_reason', true), '')
+    );
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_attendance_audit ON attendance;
+CREATE TRIGGER trg_attendance_audit
+    AFTER INSERT OR UPDATE OR DELETE ON attendance
+    FOR EACH ROW EXECUTE FUNCTION log_attendance_change();
+
+DROP TRIGGER IF EXISTS trg_smart_attendance_records_audit ON smart_attendance_records;
+CREATE TRIGGER trg_smart_attendance_records_audit
+    AFTER INSERT OR UPDATE OR DELETE ON smart_attendance_records
+    FOR EACH ROW EXECUTE FUNCTION log_attendance_change();
+
+-- The log is append-only
+CREATE OR REPLACE FUNCTION prevent_attendance_audit_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'attendance_audit_log rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_attendance_audit_immutable ON attendance_audit_log;
+CREATE TRIGGER trg_attendance_audit_immutable
+    BEFORE UPDATE OR DELETE ON attendance_audit_log
+    FOR EACH ROW EXECUTE FUNCTION prevent_attendance_audit_change();
+
+CREATE TABLE IF NOT EXISTS attendance_disputes (
+    dispute_id SERIAL PRIMARY KEY,
+    table_name VARCHAR(30) NOT NULL, -- Which table the disputed record is in
+    record_id INTEGER NOT NULL,
+    student_id INTEGER NOT NULL REFERENCES students(student_id) ON DELETE CASCADE,
+    schedule_id INTEGER REFERENCES timetable(schedule_id) ON DELETE SET NULL,
+    date DATE NOT NULL,
+    recorded_status VARCHAR(20) NOT NULL, -- Status when the dispute was raised
+    requested_status VARCHAR(20) NOT NULL DEFAULT 'present',
+    reason TEXT NOT NULL,
+    evidence_key VARCHAR(255), -- Storage key of the uploaded evidence
+    evidence_name VARCHAR(255),
+    evidence_type VARCHAR(100),
+    status VARCHAR(10) NOT NULL DEFAULT 'open', -- 'open', 'accepted', 'rejected', 'withdrawn'
+    resolved_by INTEGER REFERENCES users(user_id) ON DELETE SET NULL,
+    resolved_at TIMESTAMP,
+    resolution_note TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One open dispute per record at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_disputes_open_record
+    ON attendance_disputes(table_name, record_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_attendance_disputes_student ON attendance_disputes(student_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_attendance_disputes_schedule ON attendance_disputes(schedule_id) WHERE status = 'open';
+
+ALTER TABLE attendance_disputes ADD CONSTRAINT chk_attendance_dispute_table
+    CHECK (table_name IN ('attendance', 'smart_attendance_records'));
+ALTER TABLE attendance_disputes ADD CONSTRAINT chk_attendance_dispute_status
+    CHECK (status IN ('open', 'accepted', 'rejected', 'withdrawn'));
+ALTER TABLE attendance_disputes ADD CONSTRAINT chk_attendance_dispute_requested_status
+    CHECK (requested_status IN ('present', 'absent', 'late', 'excused', 'on_duty', 'medical'));
+
+COMMENT ON TABLE attendance_audit_log IS 'Append-only history of every change to attendance and smart_attendance_records, written by triggers';
+COMMENT ON COLUMN attendance_audit_log.source IS 'What made the change; ''direct'' when it was not made through the application';
+COMMENT ON TABLE attendance_disputes IS 'Student disputes of an attendance record, resolved by the class teacher or a coordinator';
@@ -0,0 +1,188 @@
+-- Migration: 043_create_attendance_ledger
+-- Purpose: attendance becomes the one attendance ledger. Manual marks and
+-- QR/face (smart) marks used to live in separate tables that reports read
+-- differently; every mark now goes to attendance with the source that made it
+-- and how it was verified, and smart_attendance_records is folded in.
+--
+-- Sources:
+--   manual       marked by a teacher or coordinator (including adjustments at smart finalization)
+--   qr_face      smart session, student scanned the QR code and passed face verification
+--   class_photo  smart session, student found only in the teacher's class photo
+--   bulk_import  posted through the bulk attendance endpoint
+-- Students a smart session marks absent without any check are recorded as qr_face.
+
+-- One transaction, so the fold either happens completely or not at all
+BEGIN;
+
+-- Attribute the folded rows in the audit log
+SELECT set_config('haazir.change_source', 'ledger_migration', true),
+       set_config('haazir.change_reason', 'Merged into the attendance ledger', true);
+
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'manual';
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS session_id VARCHAR(100)
+    REFERENCES attendance_sessions(session_id) ON DELETE SET NULL;
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS verified_by_scan BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS verified_by_class_photo BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS face_match_confidence DECIMAL(5, 4);
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS marked_by_user_id INTEGER
+    REFERENCES users(user_id) ON DELETE SET NULL;
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS notification_sent BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS notification_sent_at TIMESTAMP;
+
+ALTER TABLE attendance DROP CONSTRAINT IF EXISTS chk_attendance_source;
+ALTER TABLE attendance ADD CONSTRAINT chk_attendance_source
+    CHECK (source IN ('manual', 'qr_face', 'class_photo', 'bulk_import'));
+
+-- One mark per student per class per day. Databases created before the model
+-- declared this index may hold duplicates; the most recently changed one wins.
+DELETE FROM attendance a
+USING attendance newer
+WHERE a.schedule_id = newer.schedule_id
+  AND a.student_id = newer.student_id
+  AND a.date = newer.date
+  AND (COALESCE(newer.updated_at, newer.created_at, 'epoch'), newer.attendance_id)
+    > (COALESCE(a.updated_at, a.created_at, 'epoch'), a.attendance_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS attendance_schedule_id_student_id_date
+    ON attendance(schedule_id, student_id, date);
+CREATE INDEX IF NOT EXISTS idx_attendance_student_date ON attendance(student_id, date);
+CREATE INDEX IF NOT EXISTS idx_attendance_session ON attendance(session_id);
+CREATE INDEX IF NOT EXISTS idx_attendance_source ON attendance(source);
+
+-- Fold smart records in. A smart session and a manual mark for the same class
+-- and day keep whichever was changed last; repeated sessions keep the latest.
+INSERT INTO attendance (
+    schedule_id, student_id, date, status, source, session_id,
+    verified_by_scan, verified_by_class_photo, face_match_confidence,
+    marked_by_user_id, notification_sent, notification_sent_at,
+    created_at, updated_at
+)
+SELECT DISTINCT ON (sar.schedule_id, sar.student_id, sar.date)
+    sar.schedule_id,
+    sar.student_id,
+    sar.date,
+    sar.status,
+    CASE
+        WHEN sar.manually_marked THEN 'manual'
+        WHEN sar.verified_by_scan THEN 'qr_face'
+        WHEN sar.verified_by_class_photo THEN 'class_photo'
+        ELSE 'qr_face'
+    END,
+    sar.session_id,
+    COALESCE(sar.verified_by_scan, FALSE),
+    COALESCE(sar.verified_by_class_photo, FALSE),
+    scan.face_match_confidence,
+    COALESCE(marker.user_id, session_teacher.user_id),
+    COALESCE(sar.notification_sent, FALSE),
+    sar.notification_sent_at,
+    sar.created_at,
+    sar.updated_at
+FROM smart_attendance_records sar
+JOIN attendance_sessions s ON s.session_id = sar.session_id
+LEFT JOIN teachers marker ON marker.teacher_id = sar.marked_by_teacher_id
+LEFT JOIN teachers session_teacher ON session_teacher.teacher_id = s.teacher_id
+LEFT JOIN LATERAL (
+    SELECT face_match_confidence
+    FROM student_scan_records
+    WHERE session_id = sar.session_id AND student_id = sar.student_id AND status = 'verified'
+    ORDER BY scan_timestamp DESC
+    LIMIT 1
+) scan ON TRUE
+ORDER BY sar.schedule_id, sar.student_id, sar.date, sar.updated_at DESC, sar.record_id DESC
+ON CONFLICT (schedule_id, student_id, date) DO UPDATE SET
+    status = EXCLUDED.status,
+    source = EXCLUDED.source,
+    session_id = EXCLUDED.session_id,
+    verified_by_scan = EXCLUDED.verified_by_scan,
+    verified_by_class_photo = EXCLUDED.verified_by_class_photo,
+    face_match_confidence = EXCLUDED.face_match_confidence,
+    marked_by_user_id = EXCLUDED.marked_by_user_id,
+    notification_sent = EXCLUDED.notification_sent,
+    notification_sent_at = EXCLUDED.notification_sent_at,
+    updated_at = EXCLUDED.updated_at
+WHERE attendance.updated_at IS NULL OR attendance.updated_at <= EXCLUDED.updated_at;
+
+-- Disputes follow their record into the ledger. Where the ledger row already has
+-- an open dispute, the one on the smart record is closed as a duplicate.
+UPDATE attendance_disputes d
+SET status = 'withdrawn',
+    resolved_at = CURRENT_TIMESTAMP,
+    resolution_note = 'Closed as a duplicate when attendance was merged into one ledger',
+    updated_at = CURRENT_TIMESTAMP
+FROM smart_attendance_records sar
+JOIN attendance a
+    ON a.schedule_id = sar.schedule_id AND a.student_id = sar.student_id AND a.date = sar.date
+WHERE d.table_name = 'smart_attendance_records'
+  AND d.record_id = sar.record_id
+  AND d.status = 'open'
+  AND EXISTS (
+      SELECT 1 FROM attendance_disputes other
+      WHERE other.table_name = 'attendance' AND other.record_id = a.attendance_id AND other.status = 'open'
+  );
+
+UPDATE attendance_disputes d
+SET table_name = 'attendance',
+    record_id = a.attendance_id,
+    updated_at = CURRENT_TIMESTAMP
+FROM smart_attendance_records sar
+JOIN attendance a
+    ON a.schedule_id = sar.schedule_id AND a.student_id = sar.student_id AND a.date = sar.date
+WHERE d.table_name = 'smart_attendance_records'
+  AND d.record_id = sar.record_id;
+
+ALTER TABLE attendance_disputes DROP CONSTRAINT IF EXISTS chk_attendance_dispute_table;
+ALTER TABLE attendance_disputes ADD CONSTRAINT chk_attendance_dispute_table
+    CHECK (table_name = 'attendance');
+
+-- The old table stays, read-only, until the fold has been checked; nothing writes to it
+DROP TRIGGER IF EXISTS trg_smart_attendance_records_audit ON smart_attendance_records;
+ALTER TABLE smart_attendance_records RENAME TO smart_attendance_records_archive;
+COMMENT ON TABLE smart_attendance_records_archive IS
+    'Smart attendance before it was merged into attendance (043); safe to drop once verified';
+
+-- Notification bookkeeping isn't an attendance change
+CREATE OR REPLACE FUNCTION log_attendance_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    old_row JSONB := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END;
+    new_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END;
+    row_data JSONB := COALESCE(new_row, old_row);
+BEGIN
+    -- Bookkeeping columns alone aren't a change worth auditing
+    IF TG_OP = 'UPDATE'
+        AND (old_row - 'updated_at' - 'notification_sent' - 'notification_sent_at')
+          = (new_row - 'updated_at' - 'notification_sent' - 'notification_sent_at') THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO attendance_audit_log (
+        table_name, record_id, action, student_id, schedule_id, date,
+        old_status, new_status, old_values, new_values,
+        actor_user_id, source, reason
+    ) VALUES (
+        TG_TABLE_NAME,
+        (row_data ->> CASE WHEN TG_TABLE_NAME = 'attendance' THEN 'attendance_id' ELSE 'record_id' END)::INTEGER,
+        lower(TG_OP),
+        (row_data ->> 'student_id')::INTEGER,
+        (row_data ->> 'schedule_id')::INTEGER,
+        (row_data ->> 'date')::DATE,
+        old_row ->> 'status',
+        new_row ->> 'status',
+        old_row,
+        new_row,
+        NULLIF(current_setting('haazir.actor_user_id', true), '')::INTEGER,
+        COALESCE(NULLIF(current_setting('haazir.change_source', true), ''), 'direct'),
+        NULLIF(current_setting('haazir.change_reason', true), '')
+    );
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE attendance IS 'Attendance ledger: one mark per student per class per day, from every source';
+COMMENT ON COLUMN attendance.source IS 'manual, qr_face, class_photo or bulk_import';
+COMMENT ON COLUMN attendance.session_id IS 'Smart attendance session the mark came from';
+COMMENT ON COLUMN attendance.face_match_confidence IS 'Best face match of the verified scan, 0-1';
+COMMENT ON COLUMN attendance.marked_by_user_id IS 'User who made or finalized the mark';
+
+COMMIT;
@@ -0,0 +1,23 @@
+-- Migration: 044_create_attendance_sync_batches
+-- Purpose: Teachers can take attendance offline; the browser queues the marks and
+-- posts them as a batch when it is back online. Each batch has an id chosen by the
+-- browser, and the outcome of every processed batch is kept here so a batch sent
+-- twice (a retry after a dropped response) is answered from this table instead of
+-- being applied again.
+
+CREATE TABLE IF NOT EXISTS attendance_sync_batches (
+    batch_id VARCHAR(64) PRIMARY KEY, -- Generated by the browser when the marks were queued
+    user_id INTEGER NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+    mark_count INTEGER NOT NULL DEFAULT 0,
+    applied_count INTEGER NOT NULL DEFAULT 0,
+    conflict_count INTEGER NOT NULL DEFAULT 0, -- Marks where the server's mark was kept
+    rejected_count INTEGER NOT NULL DEFAULT 0,
+    results JSONB NOT NULL DEFAULT '[]', -- Outcome of each mark, returned again on a retry
+    queued_at TIMESTAMP, -- When the browser queued the batch
+    received_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_sync_batches_user ON attendance_sync_batches(user_id, received_at);
+
+COMMENT ON TABLE attendance_sync_batches IS 'Offline attendance batches already applied, so retries are idempotent';
+COMMENT ON COLUMN attendance_sync_batches.results IS 'Per-mark outcome: applied, unchanged, kept_server or rejected, with the rule that decided it';
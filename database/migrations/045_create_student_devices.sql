@@ -0,0 +1,46 @@
+-- Migration: 045_create_student_devices
+-- Purpose: Tie smart-attendance scans to a registered phone. The student's browser
+-- generates an ECDSA P-256 key pair (the private key never leaves the browser) and
+-- registers the public key; QR and face requests are signed with it. A student's
+-- first device is trusted at once, later ones wait for a coordinator, and one device
+-- can scan for only one student per session.
+
+CREATE TABLE IF NOT EXISTS student_devices (
+    device_id SERIAL PRIMARY KEY,
+    student_id INTEGER NOT NULL REFERENCES students(student_id) ON DELETE CASCADE,
+    public_key TEXT NOT NULL, -- SPKI DER, base64
+    key_fingerprint CHAR(64) NOT NULL UNIQUE, -- SHA-256 of the public key, hex
+    label VARCHAR(100), -- Name the student gave the device
+    user_agent TEXT,
+    ip_address VARCHAR(64),
+    status VARCHAR(10) NOT NULL DEFAULT 'pending', -- 'pending', 'active', 'rejected', 'revoked'
+    reviewed_by INTEGER REFERENCES users(user_id) ON DELETE SET NULL, -- Approved, rejected or revoked by
+    reviewed_at TIMESTAMP,
+    review_note TEXT,
+    last_used_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_devices_student ON student_devices(student_id, status);
+CREATE INDEX IF NOT EXISTS idx_student_devices_pending ON student_devices(created_at) WHERE status = 'pending';
+
+ALTER TABLE student_devices ADD CONSTRAINT chk_student_device_status
+    CHECK (status IN ('pending', 'active', 'rejected', 'revoked'));
+
+-- The first student to use a device in a session owns it for that session
+CREATE TABLE IF NOT EXISTS session_device_claims (
+    session_id VARCHAR(100) NOT NULL REFERENCES attendance_sessions(session_id) ON DELETE CASCADE,
+    device_id INTEGER NOT NULL REFERENCES student_devices(device_id) ON DELETE CASCADE,
+    student_id INTEGER NOT NULL REFERENCES students(student_id) ON DELETE CASCADE,
+    claimed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (session_id, device_id)
+);
+
+ALTER TABLE student_scan_records ADD COLUMN IF NOT EXISTS device_id INTEGER
+    REFERENCES student_devices(device_id) ON DELETE SET NULL;
+
+COMMENT ON TABLE student_devices IS 'Phones a student may scan with, identified by a browser-held signing key';
+COMMENT ON COLUMN student_devices.status IS 'pending until a coordinator approves a device change; only active devices can sign scans';
+COMMENT ON TABLE session_device_claims IS 'Which student a device scanned for in each session';
+COMMENT ON COLUMN student_scan_records.device_id IS 'Registered device that signed the scan';
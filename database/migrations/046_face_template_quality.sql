@@ -0,0 +1,48 @@
+-- Migration: 046_face_template_quality
+-- Purpose: Enrollment captures several poses in one go and each sample is scored for
+-- sharpness, face size and pose; poor samples are refused. Active faces become a
+-- compact template set per student: the enrollment samples plus a few adaptive
+-- templates taken from high-confidence verified scans. A profile per student tracks
+-- match confidence since enrollment so the student can be asked to enroll again when
+-- it drifts down over a semester.
+
+ALTER TABLE student_faces ADD COLUMN IF NOT EXISTS source VARCHAR(12) NOT NULL DEFAULT 'enrollment'; -- 'enrollment', 'adaptive'
+ALTER TABLE student_faces ADD COLUMN IF NOT EXISTS pose VARCHAR(10); -- 'center', 'left', 'right', 'up', 'down'
+ALTER TABLE student_faces ADD COLUMN IF NOT EXISTS quality_score REAL; -- 0-1
+ALTER TABLE student_faces ADD COLUMN IF NOT EXISTS quality JSONB; -- sharpness, face size, yaw, pitch, detection score
+ALTER TABLE student_faces ADD COLUMN IF NOT EXISTS scan_id INTEGER
+    REFERENCES student_scan_records(scan_id) ON DELETE SET NULL; -- Scan an adaptive template came from
+ALTER TABLE student_faces ADD COLUMN IF NOT EXISTS match_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE student_faces ADD COLUMN IF NOT EXISTS last_matched_at TIMESTAMP;
+
+ALTER TABLE student_faces ADD CONSTRAINT chk_student_face_source
+    CHECK (source IN ('enrollment', 'adaptive'));
+
+CREATE INDEX IF NOT EXISTS idx_student_faces_templates ON student_faces(student_id, source) WHERE is_active = TRUE;
+
+CREATE TABLE IF NOT EXISTS student_face_profiles (
+    student_id INTEGER PRIMARY KEY REFERENCES students(student_id) ON DELETE CASCADE,
+    enrolled_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    baseline_confidence REAL, -- Mean confidence of the first verified scans after enrollment
+    recent_confidence REAL, -- Mean confidence of the latest verified scans
+    verified_scans INTEGER NOT NULL DEFAULT 0, -- Verified scans since enrollment
+    last_adapted_at TIMESTAMP, -- When an adaptive template was last added
+    reenrollment_reason VARCHAR(20), -- 'confidence_drift', 'near_threshold', 'aged'; NULL when none is needed
+    reenrollment_requested_at TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_face_profiles_reenroll
+    ON student_face_profiles(reenrollment_requested_at) WHERE reenrollment_reason IS NOT NULL;
+
+-- Faces registered before this migration: one profile per student from the oldest active face
+INSERT INTO student_face_profiles (student_id, enrolled_at)
+SELECT student_id, MIN(registered_at)
+FROM student_faces
+WHERE is_active = TRUE
+GROUP BY student_id
+ON CONFLICT (student_id) DO NOTHING;
+
+COMMENT ON COLUMN student_faces.source IS 'enrollment: captured on the Face Registration page; adaptive: taken from a high-confidence verified scan';
+COMMENT ON COLUMN student_faces.quality_score IS 'Sample quality from sharpness, face size and detection score (0-1)';
+COMMENT ON TABLE student_face_profiles IS 'Face match confidence since enrollment, used to refresh templates and ask for re-enrollment';
@@ -0,0 +1,9 @@
+-- Migration: 047_create_timetable_preferences
+-- Purpose: Soft constraint preferences a coordinator saves for AI timetable
+-- generation. They are used whenever a generation request doesn't send its own.
+
+CREATE TABLE IF NOT EXISTS timetable_preferences (
+    user_id INTEGER PRIMARY KEY REFERENCES users(user_id) ON DELETE CASCADE,
+    soft_constraints JSONB NOT NULL DEFAULT '{}', -- Same shape as preferences.soft_constraints in a generation request
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
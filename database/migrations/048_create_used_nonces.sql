@@ -0,0 +1,12 @@
+-- Migration: 048_create_used_nonces
+-- Purpose: One-time values that have already been accepted (liveness challenges,
+-- device signature nonces), so a captured request can't be replayed after a
+-- restart or on another API instance. Rows are pruned once they expire.
+
+CREATE TABLE IF NOT EXISTS used_nonces (
+    nonce_key VARCHAR(200) PRIMARY KEY, -- "<scope>:<nonce>", e.g. "liveness:3f2a..."
+    expires_at TIMESTAMP NOT NULL,
+    used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_used_nonces_expires_at ON used_nonces(expires_at);
@@ -0,0 +1,79 @@
+import { AITimetableGenerator } from "../aiTimetableGenerator";
+import { TimetableGenerationInput } from "../types";
+
+const none = { teacher_id: 0, teacher_name: "", classes_per_week: 0, duration_minutes: 0 };
+
+const input = (overrides: Partial<TimetableGenerationInput> = {}): TimetableGenerationInput => ({
+  courseAssignments: [
+    {
+      course_id: 1,
+      course_code: "CS101",
+      course_name: "Programming",
+      department_id: 1,
+      semester: 3,
+      sections: ["A"],
+      sessions: {
+        theory: { teacher_id: 7, teacher_name: "T7", classes_per_week: 2, duration_minutes: 60 },
+        lab: { teacher_id: 8, teacher_name: "T8", classes_per_week: 1, duration_minutes: 120 },
+        tutorial: { ...none },
+      },
+    },
+  ],
+  timeConfiguration: {
+    start_time: "09:00",
+    end_time: "13:00",
+    class_duration: 60,
+    lunch_break: { start: "13:00", end: "14:00" },
+    working_days: ["Monday", "Tuesday"],
+  },
+  preferences: undefined as any,
+  metadata: { request_id: 1, department_name: "CSE", semester: 3, academic_year: "2026", created_by: "1" },
+  ...overrides,
+});
+
+const minutes = (time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+};
+
+beforeAll(() => {
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+describe("AITimetableGenerator.generateTimetables", () => {
+  it("places a two-hour lab on consecutive slots without overlapping the section's other classes", async () => {
+    const generator = new AITimetableGenerator();
+    const result = await generator.generateTimetables(input());
+
+    expect(result.success).toBe(true);
+    const [solution] = result.solutions;
+    expect(solution.schedule).toHaveLength(3);
+
+    const placed = solution.schedule.map((entry) => {
+      const session = generator.getSession(entry.session_id)!;
+      const [day, start] = entry.time_slot_id.split("_");
+      return { day, start: minutes(start), end: minutes(start) + session.duration_minutes, type: session.session_type };
+    });
+    const lab = placed.find((p) => p.type === "lab")!;
+    expect(lab.end - lab.start).toBe(120);
+    // The day ends at 13:00, so the lab can't start in the last hour
+    expect(lab.end).toBeLessThanOrEqual(minutes("13:00"));
+
+    placed.forEach((a, i) =>
+      placed.slice(i + 1).forEach((b) => {
+        if (a.day === b.day) expect(a.start >= b.end || b.start >= a.end).toBe(true);
+      })
+    );
+  });
+
+  it("fails clearly when a session is longer than any run of slots", async () => {
+    const generator = new AITimetableGenerator();
+    const tooLong = input();
+    tooLong.courseAssignments[0].sessions.lab.duration_minutes = 300;
+
+    const result = await generator.generateTimetables(tooLong);
+    expect(result.success).toBe(false);
+    expect(result.recommendations.reasoning).toMatch(/Generation failed/);
+  });
+});
@@ -12,19 +12,45 @@ import {
   CourseSession,
   CSPAssignment,
   Constraint,
+  RoomResource,
+  TeacherAvailabilityWindow,
+  TimetableAssignment,
+  RepairChangeSet,
+  RepairDiffEntry,
+  RepairReason,
+  RepairResult,
 } from "./types";
 
+import { v4 as uuidv4 } from "uuid";
 import { CSPSolver } from "./cspSolver";
-import { HardConstraintFactory } from "./hardConstraints";
-import { SoftConstraintFactory } from "./softConstraints";
+import {
+  HardConstraintFactory,
+  matchRooms,
+  RespectBlockedSlotsConstraint,
+  roomSuitsSession,
+} from "./hardConstraints";
+import { SoftConstraintFactory, slotWithinWindow } from "./softConstraints";
+
+export interface GenerationHooks {
+  // Called before each solution attempt with a 0-100 percentage
+  onProgress?: (percent: number, message: string) => void | Promise<void>;
+  // Checked between solution attempts; returning true stops generation
+  isCancelled?: () => boolean;
+}
 
 export class AITimetableGenerator {
   private sessionLookup: Map<string, CourseSession> = new Map();
 
+  // Session details for a scheduled session ID from the last generation run
+  getSession(sessionId: string): CourseSession | undefined {
+    return this.sessionLookup.get(sessionId);
+  }
+
   // ==================== MAIN GENERATION METHOD ====================
 
   async generateTimetables(
-    input: TimetableGenerationInput
+    input: TimetableGenerationInput,
+    hooks: GenerationHooks = {}
   ): Promise<MultiSolutionResult> {
     const startTime = Date.now();
 
@@ -47,7 +73,8 @@ export class AITimetableGenerator {
         variables,
         timeSlots,
         sessions,
-        input
+        input,
+        hooks
       );
 
       // Step 3: Analyze and rank solutions
@@ -90,6 +117,408 @@ export class AITimetableGenerator {
     }
   }
 
+  // ==================== INCREMENTAL REPAIR ====================
+
+  // Re-solves only the part of an existing timetable that a change set breaks.
+  // Every other entry is pinned to its current slot; if the freed sessions cannot
+  // be placed, the neighbourhood widens to sessions sharing a teacher or section,
+  // and only as a last resort is the whole timetable re-solved.
+  async repairTimetable(
+    input: TimetableGenerationInput,
+    currentSchedule: TimetableAssignment[],
+    changes: RepairChangeSet
+  ): Promise<RepairResult> {
+    const startTime = Date.now();
+    const timeSlots = this.generateTimeSlots(input.timeConfiguration);
+    const slotById = new Map(timeSlots.map((slot) => [slot.id, slot]));
+
+    const reasons = new Map<string, { reason: RepairReason; details: string }>();
+    const { sessions, dropped, previousTeachers } = this.applyChangeSet(
+      input,
+      changes,
+      reasons
+    );
+    this.assertRoomsAvailable(sessions, input.rooms || []);
+
+    this.sessionLookup.clear();
+    sessions.forEach((session) => this.sessionLookup.set(session.id, session));
+
+    const constraints = this.createConstraints(input, "balanced");
+    const blockedSlots = new RespectBlockedSlotsConstraint(
+      changes.blocked_slots || []
+    );
+    constraints.push(blockedSlots);
+    constraints.forEach((constraint) =>
+      constraint.setSessionContext(this.sessionLookup)
+    );
+    const hardConstraints = constraints.filter((c) => c.type === "hard");
+
+    const current = new Map(
+      currentSchedule.map((entry) => [entry.session_id, entry])
+    );
+
+    // Pin current placements that are still valid. Untouched sessions go first
+    // so that a clash displaces the changed session rather than its neighbour.
+    const pinned: CSPAssignment = {};
+    const touched = (id: string) => reasons.has(id) || previousTeachers.has(id);
+    const ordered = [...sessions].sort(
+      (a, b) => Number(touched(a.id)) - Number(touched(b.id))
+    );
+    for (const session of ordered) {
+      const entry = current.get(session.id);
+      if (!entry) {
+        if (!reasons.has(session.id)) {
+          reasons.set(session.id, {
+            reason: "added_session",
+            details: "Not in the current timetable",
+          });
+        }
+        continue;
+      }
+
+      const slot = slotById.has(entry.time_slot_id)
+        ? this.sessionSlots(session, timeSlots).find((s) => s.id === entry.time_slot_id)
+        : undefined;
+      if (!slot) {
+        reasons.set(session.id, {
+          reason: "constraint_violation",
+          details: `${entry.time_slot_id} is outside the configured time grid`,
+        });
+        continue;
+      }
+
+      const violated = hardConstraints.find((constraint) =>
+        constraint.isViolated({ ...pinned, [session.id]: slot }, session, slot)
+      );
+      if (!violated) {
+        pinned[session.id] = slot;
+        continue;
+      }
+
+      if (violated === blockedSlots) {
+        const block = blockedSlots.findBlock(session, slot);
+        reasons.set(session.id, {
+          reason: "blocked_slot",
+          details: `${slot.id} is blocked${block?.reason ? ` (${block.reason})` : ""}`,
+        });
+      } else if (previousTeachers.has(session.id)) {
+        reasons.set(session.id, {
+          reason: "teacher_replaced",
+          details: `${session.teacher_name} is not free at ${slot.id} (${violated.name})`,
+        });
+      } else {
+        reasons.set(session.id, {
+          reason: "constraint_violation",
+          details: `${violated.name} fails at ${slot.id}`,
+        });
+      }
+    }
+
+    const freed = new Set(
+      sessions.filter((s) => !(s.id in pinned)).map((s) => s.id)
+    );
+    const initialPinned = sessions.length - freed.size;
+    console.log(
+      `🔧 Repairing timetable: ${freed.size} session(s) to place, ${initialPinned} pinned`
+    );
+
+    const maxRounds = 3;
+    let round = 0;
+    let assignment: CSPAssignment | null = null;
+    let iterations = 0;
+
+    while (true) {
+      round++;
+      const initial: CSPAssignment = {};
+      for (const [sessionId, slot] of Object.entries(pinned)) {
+        if (!freed.has(sessionId)) initial[sessionId] = slot;
+      }
+
+      const solver = new CSPSolver(
+        this.createCSPVariables(sessions, timeSlots),
+        constraints
+      );
+      const result = await solver.solve(initial);
+      iterations += result.trace.steps.length;
+      assignment = result.assignment;
+
+      if (assignment || freed.size === sessions.length) break;
+
+      // Widen: free everything that shares a teacher or section with a freed session
+      const frontier = sessions.filter(
+        (s) =>
+          !freed.has(s.id) &&
+          sessions.some(
+            (f) =>
+              freed.has(f.id) &&
+              (f.teacher_id === s.teacher_id || f.section === s.section)
+          )
+      );
+      const widenAll = round >= maxRounds || frontier.length === 0;
+      const toFree = widenAll
+        ? sessions.filter((s) => !freed.has(s.id))
+        : frontier;
+
+      console.log(
+        `🔁 Repair round ${round} failed, freeing ${toFree.length} more session(s)`
+      );
+      for (const session of toFree) {
+        freed.add(session.id);
+        if (!reasons.has(session.id)) {
+          reasons.set(session.id, {
+            reason: "neighbourhood",
+            details: widenAll
+              ? "Full re-solve after local repair failed"
+              : `Shares a teacher or section with a session that had to move`,
+          });
+        }
+      }
+    }
+
+    const summary = {
+      total_sessions: sessions.length,
+      pinned_sessions: sessions.length - freed.size,
+      freed_sessions: freed.size,
+      unchanged_sessions: 0,
+      neighbourhood_rounds: round,
+      repair_time_ms: Date.now() - startTime,
+    };
+
+    if (!assignment) {
+      return {
+        success: false,
+        solution: null,
+        diff: [],
+        summary,
+        error: "The change set cannot be satisfied, even by a full re-solve",
+      };
+    }
+
+    const previousRooms = new Map<string, number>();
+    for (const [sessionId, entry] of current) {
+      if (entry.room_id !== undefined && entry.room_id !== null) {
+        previousRooms.set(sessionId, entry.room_id);
+      }
+    }
+
+    const solution = this.assembleSolution(
+      assignment,
+      constraints,
+      sessions,
+      input,
+      {
+        id: `solution_${uuidv4()}`,
+        name: "Repaired Schedule",
+        description: `Incremental repair moving only sessions affected by the change set`,
+        optimizationGoal: "balanced",
+        generationTimeMs: Date.now() - startTime,
+        iterations,
+        algorithm: "CSP_Repair",
+        previousRooms,
+      }
+    );
+
+    const diff = this.buildRepairDiff(
+      solution.schedule,
+      current,
+      dropped,
+      previousTeachers,
+      reasons
+    );
+    summary.unchanged_sessions =
+      sessions.length - diff.filter((d) => d.change !== "removed").length;
+
+    console.log(
+      `✅ Repair finished in ${summary.repair_time_ms}ms: ${diff.length} change(s)`
+    );
+    return { success: true, solution, diff, summary };
+  }
+
+  // Turns the change set into the session list the repair will schedule
+  private applyChangeSet(
+    input: TimetableGenerationInput,
+    changes: RepairChangeSet,
+    reasons: Map<string, { reason: RepairReason; details: string }>
+  ): {
+    sessions: CourseSession[];
+    dropped: CourseSession[];
+    previousTeachers: Map<string, string>;
+  } {
+    const sessions = this.generateSessions(input.courseAssignments);
+    const typeLabels = { theory: "Theory", lab: "Lab", tutorial: "Tutorial" };
+
+    for (const added of changes.added_sessions || []) {
+      const course = input.courseAssignments.find(
+        (c) => c.course_id === added.course_id
+      );
+      if (!course) {
+        throw new Error(
+          `Course ${added.course_id} is not part of this timetable`
+        );
+      }
+      const template = course.sessions[added.session_type];
+      const teacherId = added.teacher_id ?? template.teacher_id;
+      if (!teacherId) {
+        throw new Error(
+          `No ${added.session_type} teacher for ${course.course_code}; pass teacher_id`
+        );
+      }
+
+      const existing = sessions.filter(
+        (s) =>
+          s.course_id === course.course_id &&
+          s.section === added.section &&
+          s.session_type === added.session_type
+      ).length;
+      const count = Math.max(1, added.count || 1);
+
+      for (let i = 1; i <= count; i++) {
+        const id = `${course.course_code}_${typeLabels[added.session_type]}_${added.section}_${existing + i}`;
+        sessions.push({
+          id,
+          course_id: course.course_id,
+          course_code: course.course_code,
+          course_name: course.course_name,
+          session_type: added.session_type,
+          section: added.section,
+          teacher_id: teacherId,
+          teacher_name: added.teacher_name || template.teacher_name,
+          department_id: course.department_id,
+          semester: course.semester,
+          duration_minutes: added.duration_minutes || template.duration_minutes,
+          classes_per_week: existing + count,
+          session_number: existing + i,
+          student_count: course.section_sizes?.[added.section],
+          required_equipment: template.required_equipment,
+        });
+        reasons.set(id, {
+          reason: "added_session",
+          details: `New ${added.session_type} session for section ${added.section}`,
+        });
+      }
+    }
+
+    const dropped: CourseSession[] = [];
+    const previousTeachers = new Map<string, string>();
+    for (const removal of changes.removed_teachers || []) {
+      for (const session of sessions) {
+        if (session.teacher_id !== removal.teacher_id) continue;
+
+        if (!removal.replacement_teacher_id) {
+          dropped.push(session);
+          continue;
+        }
+        previousTeachers.set(session.id, session.teacher_name);
+        session.teacher_id = removal.replacement_teacher_id;
+        session.teacher_name =
+          removal.replacement_teacher_name ||
+          `Teacher ${removal.replacement_teacher_id}`;
+      }
+    }
+
+    return {
+      sessions: sessions.filter((s) => !dropped.includes(s)),
+      dropped,
+      previousTeachers,
+    };
+  }
+
+  private buildRepairDiff(
+    schedule: TimetableAssignment[],
+    current: Map<string, TimetableAssignment>,
+    dropped: CourseSession[],
+    previousTeachers: Map<string, string>,
+    reasons: Map<string, { reason: RepairReason; details: string }>
+  ): RepairDiffEntry[] {
+    const diff: RepairDiffEntry[] = [];
+    const scheduled = new Set<string>();
+
+    for (const entry of schedule) {
+      scheduled.add(entry.session_id);
+      const session = this.sessionLookup.get(entry.session_id)!;
+      const before = current.get(entry.session_id);
+      const why = reasons.get(entry.session_id);
+      const base = {
+        session_id: entry.session_id,
+        course_code: session.course_code,
+        section: session.section,
+        from_slot: before?.time_slot_id ?? null,
+        to_slot: entry.time_slot_id,
+        from_room: before?.room_id,
+        to_room: entry.room_id,
+      };
+
+      if (!before) {
+        diff.push({
+          ...base,
+          change: "added",
+          reason: "added_session",
+          details: why?.details || "Not in the current timetable",
+        });
+      } else if (before.time_slot_id !== entry.time_slot_id) {
+        diff.push({
+          ...base,
+          change: "moved",
+          reason: why?.reason || "neighbourhood",
+          details: why?.details || "Moved to make room for other changes",
+        });
+      } else if (previousTeachers.has(entry.session_id)) {
+        diff.push({
+          ...base,
+          change: "teacher_changed",
+          reason: "teacher_replaced",
+          details: `Taught by ${session.teacher_name} instead of ${previousTeachers.get(
+            entry.session_id
+          )}`,
+        });
+      } else if (
+        before.room_id !== undefined &&
+        entry.room_id !== undefined &&
+        before.room_id !== entry.room_id
+      ) {
+        diff.push({
+          ...base,
+          change: "moved",
+          reason: why?.reason || "neighbourhood",
+          details: "Room reassigned so every session in the slot fits",
+        });
+      }
+    }
+
+    for (const session of dropped) {
+      const before = current.get(session.id);
+      diff.push({
+        session_id: session.id,
+        course_code: session.course_code,
+        section: session.section,
+        change: "removed",
+        from_slot: before?.time_slot_id ?? null,
+        to_slot: null,
+        from_room: before?.room_id,
+        reason: "teacher_removed",
+        details: `${session.teacher_name} was removed without a replacement`,
+      });
+      scheduled.add(session.id);
+    }
+
+    for (const [sessionId, before] of current) {
+      if (scheduled.has(sessionId)) continue;
+      diff.push({
+        session_id: sessionId,
+        course_code: "",
+        section: "",
+        change: "removed",
+        from_slot: before.time_slot_id,
+        to_slot: null,
+        from_room: before.room_id,
+        reason: "not_in_input",
+        details: "Session is no longer part of the course assignments",
+      });
+    }
+
+    return diff;
+  }
+
   // ==================== DATA PREPARATION ====================
 
   private prepareCSPData(input: TimetableGenerationInput): {
@@ -129,6 +558,8 @@ export class AITimetableGenerator {
       );
     }
 
+    this.assertRoomsAvailable(sessions, input.rooms || []);
+
     // Create CSP variables (each session needs a time slot)
     const variables = this.createCSPVariables(sessions, timeSlots);
 
@@ -139,6 +570,25 @@ export class AITimetableGenerator {
     return { variables, timeSlots, sessions };
   }
 
+  // Every session needs at least one room it could ever fit in
+  private assertRoomsAvailable(
+    sessions: CourseSession[],
+    rooms: RoomResource[]
+  ): void {
+    if (rooms.length === 0) return;
+
+    const homeless = sessions.filter(
+      (session) => !rooms.some((room) => roomSuitsSession(room, session))
+    );
+    if (homeless.length > 0) {
+      throw new Error(
+        `No suitable room for: ${homeless
+          .map((s) => s.id)
+          .join(", ")}. Add rooms of the right type, capacity or equipment.`
+      );
+    }
+  }
+
   private generateTimeSlots(
     timeConfig: TimetableGenerationInput["timeConfiguration"]
   ): TimeSlot[] {
@@ -209,6 +659,8 @@ export class AITimetableGenerator {
               duration_minutes: course.sessions.theory.duration_minutes,
               classes_per_week: course.sessions.theory.classes_per_week,
               session_number: i,
+              student_count: course.section_sizes?.[section],
+              required_equipment: course.sessions.theory.required_equipment,
             });
           }
         }
@@ -233,6 +685,8 @@ export class AITimetableGenerator {
               duration_minutes: course.sessions.lab.duration_minutes,
               classes_per_week: course.sessions.lab.classes_per_week,
               session_number: i,
+              student_count: course.section_sizes?.[section],
+              required_equipment: course.sessions.lab.required_equipment,
             });
           }
         }
@@ -253,6 +707,8 @@ export class AITimetableGenerator {
             duration_minutes: course.sessions.tutorial.duration_minutes,
             classes_per_week: course.sessions.tutorial.classes_per_week,
             session_number: i,
+            student_count: course.section_sizes?.[section],
+            required_equipment: course.sessions.tutorial.required_equipment,
           });
         }
       }
@@ -266,11 +722,47 @@ export class AITimetableGenerator {
     sessions: CourseSession[],
     timeSlots: TimeSlot[]
   ): CSPVariable[] {
-    return sessions.map((session) => ({
-      id: session.id,
-      session: session,
-      domain: [...timeSlots], // Each session can potentially be assigned to any time slot
-    }));
+    return sessions.map((session) => {
+      // Each session can potentially be assigned to any start slot it fits after
+      const domain = this.sessionSlots(session, timeSlots);
+      if (domain.length === 0) {
+        throw new Error(
+          `${session.course_code} ${session.session_type} (section ${session.section}) needs ` +
+            `${session.duration_minutes} consecutive minutes, but no day has that many back-to-back slots`
+        );
+      }
+      return { id: session.id, session, domain };
+    });
+  }
+
+  /**
+   * Slots a session can occupy. A session longer than one grid slot gets one
+   * value per run of back-to-back slots on the same day (never across lunch),
+   * keeping the start slot's ID but spanning to the end of the run, so every
+   * clash check sees the full time the session holds.
+   */
+  private sessionSlots(session: CourseSession, timeSlots: TimeSlot[]): TimeSlot[] {
+    const slotLength = timeSlots[0]?.duration_minutes || session.duration_minutes;
+    const length = Math.max(1, Math.ceil(session.duration_minutes / slotLength));
+    if (length === 1) return [...timeSlots];
+
+    const spans: TimeSlot[] = [];
+    for (let i = 0; i + length <= timeSlots.length; i++) {
+      const run = timeSlots.slice(i, i + length);
+      const consecutive = run.every(
+        (slot, k) =>
+          k === 0 ||
+          (slot.day === run[k - 1].day && slot.start_time === run[k - 1].end_time)
+      );
+      if (!consecutive) continue;
+
+      spans.push({
+        ...run[0],
+        end_time: run[length - 1].end_time,
+        duration_minutes: run.reduce((sum, slot) => sum + slot.duration_minutes, 0),
+      });
+    }
+    return spans;
   }
 
   // ==================== MULTIPLE SOLUTION GENERATION ====================
@@ -279,7 +771,8 @@ export class AITimetableGenerator {
     variables: CSPVariable[],
     timeSlots: TimeSlot[],
     sessions: CourseSession[],
-    input: TimetableGenerationInput
+    input: TimetableGenerationInput,
+    hooks: GenerationHooks = {}
   ): Promise<TimetableSolution[]> {
     const solutions: TimetableSolution[] = [];
 
@@ -314,6 +807,16 @@ export class AITimetableGenerator {
 
     for (let index = 0; index < optimizationConfigs.length; index++) {
       const config = optimizationConfigs[index];
+
+      if (hooks.isCancelled?.()) {
+        console.log("🛑 Generation cancelled before", config.name);
+        break;
+      }
+      await hooks.onProgress?.(
+        Math.round((index / optimizationConfigs.length) * 100),
+        `Generating ${config.name} (${index + 1}/${optimizationConfigs.length})`
+      );
+
       console.log(`🎯 Generating solution ${index + 1}: ${config.name}`);
 
       try {
@@ -354,6 +857,9 @@ export class AITimetableGenerator {
   ): Promise<TimetableSolution | null> {
     // Create constraints based on optimization goal
     const constraints = this.createConstraints(input, optimizationGoal);
+    constraints.forEach((constraint) =>
+      constraint.setSessionContext(this.sessionLookup)
+    );
 
     // Create fresh variable copies with full domains
     const freshVariables = variables.map((v) => ({
@@ -371,6 +877,32 @@ export class AITimetableGenerator {
       return null;
     }
 
+    return this.assembleSolution(assignment, constraints, sessions, input, {
+      id: `solution_${uuidv4()}`,
+      name: solutionName,
+      description,
+      optimizationGoal,
+      generationTimeMs: trace.solution_time_ms,
+      iterations: trace.steps.length,
+    });
+  }
+
+  private assembleSolution(
+    assignment: CSPAssignment,
+    constraints: Constraint[],
+    sessions: CourseSession[],
+    input: TimetableGenerationInput,
+    info: {
+      id: string;
+      name: string;
+      description: string;
+      optimizationGoal: string;
+      generationTimeMs: number;
+      iterations: number;
+      algorithm?: string;
+      previousRooms?: Map<string, number>;
+    }
+  ): TimetableSolution {
     // Calculate quality metrics
     const quality = this.calculateQualityMetrics(
       assignment,
@@ -378,33 +910,115 @@ export class AITimetableGenerator {
       sessions
     );
 
-    // Generate statistics
-    const statistics = this.generateStatistics(assignment, sessions);
-
     // Identify issues
     const issues = this.identifyIssues(assignment, constraints, sessions);
 
+    // Generate statistics
+    const statistics = this.generateStatistics(
+      assignment,
+      sessions,
+      issues,
+      input.teacher_availability || []
+    );
+
     return {
-      id: `solution_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      name: solutionName,
-      description: description,
-      schedule: Object.entries(assignment).map(([sessionId, timeSlot]) => ({
-        session_id: sessionId,
-        time_slot_id: timeSlot.id,
-      })),
+      id: info.id,
+      name: info.name,
+      description: info.description,
+      schedule: this.buildSchedule(
+        assignment,
+        input.rooms || [],
+        info.previousRooms
+      ),
       quality,
       statistics,
       issues,
       generation_info: {
-        algorithm: "CSP_Backtracking",
-        generation_time_ms: trace.solution_time_ms,
-        iterations: trace.steps.length,
-        optimization_goal: optimizationGoal,
+        algorithm: info.algorithm || "CSP_Backtracking",
+        generation_time_ms: info.generationTimeMs,
+        iterations: info.iterations,
+        optimization_goal: info.optimizationGoal,
         timestamp: new Date(),
       },
     };
   }
 
+  // Pair each scheduled session with its slot and, when rooms are known, a room
+  // (previousRooms keeps a session in its old room whenever that still works)
+  private buildSchedule(
+    assignment: CSPAssignment,
+    rooms: RoomResource[],
+    previousRooms?: Map<string, number>
+  ): TimetableAssignment[] {
+    // Sessions sharing a start slot and length are matched together
+    const bySlot = new Map<string, { slot: TimeSlot; sessions: CourseSession[] }>();
+    for (const [sessionId, timeSlot] of Object.entries(assignment)) {
+      const session = this.sessionLookup.get(sessionId);
+      if (!session) continue;
+      const key = `${timeSlot.id}-${timeSlot.end_time}`;
+      if (!bySlot.has(key)) bySlot.set(key, { slot: timeSlot, sessions: [] });
+      bySlot.get(key)!.sessions.push(session);
+    }
+
+    const roomBySession = new Map<string, number>();
+    if (rooms.length > 0) {
+      // Earlier groups go first so a multi-slot session keeps its room for the
+      // later groups it overlaps
+      const groups = [...bySlot.values()].sort(
+        (a, b) =>
+          this.timeToMinutes(a.slot.start_time) - this.timeToMinutes(b.slot.start_time)
+      );
+      const held: { slot: TimeSlot; roomId: number }[] = [];
+      for (const { slot, sessions } of groups) {
+        const busy = new Set(
+          held.filter((h) => this.slotsOverlap(h.slot, slot)).map((h) => h.roomId)
+        );
+        const free = rooms.filter((room) => !busy.has(room.room_id));
+        const kept = previousRooms
+          ? this.keepPreviousRooms(sessions, free, previousRooms)
+          : null;
+        (kept || matchRooms(sessions, free))?.forEach((room, sessionId) => {
+          roomBySession.set(sessionId, room.room_id);
+          held.push({ slot, roomId: room.room_id });
+        });
+      }
+    }
+
+    return Object.entries(assignment).map(([sessionId, timeSlot]) => ({
+      session_id: sessionId,
+      time_slot_id: timeSlot.id,
+      room_id: roomBySession.get(sessionId),
+    }));
+  }
+
+  // Sessions keep their old room if it still suits them and nobody else in the
+  // slot took it first; the rest are matched against the remaining rooms
+  private keepPreviousRooms(
+    group: CourseSession[],
+    rooms: RoomResource[],
+    previousRooms: Map<string, number>
+  ): Map<string, RoomResource> | null {
+    const kept = new Map<string, RoomResource>();
+    const taken = new Set<number>();
+    for (const session of group) {
+      const room = rooms.find((r) => r.room_id === previousRooms.get(session.id));
+      if (room && !taken.has(room.room_id) && roomSuitsSession(room, session)) {
+        kept.set(session.id, room);
+        taken.add(room.room_id);
+      }
+    }
+
+    const rest = group.filter((session) => !kept.has(session.id));
+    const matched = matchRooms(
+      rest,
+      rooms.filter((room) => !taken.has(room.room_id))
+    );
+    if (!matched) return null;
+
+    matched.forEach((room, sessionId) => kept.set(sessionId, room));
+    return kept;
+  }
+
   // ==================== CONSTRAINT CREATION ====================
 
   private createConstraints(
@@ -413,22 +1027,45 @@ export class AITimetableGenerator {
   ): Constraint[] {
     const constraints: Constraint[] = [];
 
-    // Add hard constraints
-    const hardConstraints = HardConstraintFactory.createStandardHardConstraints(
-      {
-        start: input.timeConfiguration.start_time,
-        end: input.timeConfiguration.end_time,
-        days: input.timeConfiguration.working_days,
-      },
-      {
-        start: input.timeConfiguration.lunch_break.start,
-        end: input.timeConfiguration.lunch_break.end,
-      }
-    );
+    const workingHours = {
+      start: input.timeConfiguration.start_time,
+      end: input.timeConfiguration.end_time,
+      days: input.timeConfiguration.working_days,
+    };
+    const lunchBreak = {
+      start: input.timeConfiguration.lunch_break.start,
+      end: input.timeConfiguration.lunch_break.end,
+    };
+
+    // Add hard constraints (honour the request's toggles when provided)
+    const hardConfig = input.preferences?.hard_constraints;
+    const hardConstraints = hardConfig
+      ? HardConstraintFactory.createCustomHardConstraints({
+          ...hardConfig,
+          no_room_clash: true,
+          working_hours: workingHours,
+          lunch_break: lunchBreak,
+          rooms: input.rooms,
+          teacher_availability: input.teacher_availability,
+        })
+      : HardConstraintFactory.createStandardHardConstraints(
+          workingHours,
+          lunchBreak,
+          input.rooms,
+          input.teacher_availability
+        );
     constraints.push(...hardConstraints);
 
     // Add soft constraints based on optimization goal
-    let softConstraints = SoftConstraintFactory.createStandardSoftConstraints();
+    const softConfig = input.preferences?.soft_constraints;
+    let softConstraints = softConfig
+      ? SoftConstraintFactory.createCustomSoftConstraints(
+          softConfig,
+          input.teacher_availability
+        )
+      : SoftConstraintFactory.createStandardSoftConstraints(
+          input.teacher_availability
+        );
 
     // Adjust weights based on optimization goal
     softConstraints = this.adjustConstraintWeights(
@@ -452,6 +1089,8 @@ export class AITimetableGenerator {
             constraint.weight *= 2;
           if (constraint.name === "AvoidBackToBackLabs")
             constraint.weight *= 1.5;
+          if (constraint.name === "PreferTeacherSlots")
+            constraint.weight *= 2;
           break;
 
         case "student_convenience":
@@ -559,15 +1198,124 @@ export class AITimetableGenerator {
 
   private generateStatistics(
     assignment: CSPAssignment,
-    sessions: CourseSession[]
+    sessions: CourseSession[],
+    issues: TimetableSolution["issues"],
+    teacherAvailability: TeacherAvailabilityWindow[] = []
   ): TimetableSolution["statistics"] {
+    const teacherMap = new Map<
+      number,
+      {
+        name: string;
+        daily: Record<string, Array<{ start: number; end: number }>>;
+        sessions: number;
+        preferred: number;
+      }
+    >();
+    const preferredWindows = teacherAvailability.filter(
+      (window) => window.type === "preferred"
+    );
+    const sectionMap = new Map<
+      string,
+      Record<string, Array<{ start: number; end: number }>>
+    >();
+
+    for (const [sessionId, timeSlot] of Object.entries(assignment)) {
+      const session = this.sessionLookup.get(sessionId);
+      if (!session) continue;
+
+      const interval = {
+        start: this.timeToMinutes(timeSlot.start_time),
+        end: this.timeToMinutes(timeSlot.end_time),
+      };
+
+      if (!teacherMap.has(session.teacher_id)) {
+        teacherMap.set(session.teacher_id, {
+          name: session.teacher_name,
+          daily: {},
+          sessions: 0,
+          preferred: 0,
+        });
+      }
+      const teacherEntry = teacherMap.get(session.teacher_id)!;
+      teacherEntry.sessions++;
+      if (
+        preferredWindows.some(
+          (window) =>
+            window.teacher_id === session.teacher_id &&
+            slotWithinWindow(timeSlot, window)
+        )
+      ) {
+        teacherEntry.preferred++;
+      }
+      const teacherDaily = teacherEntry.daily;
+      (teacherDaily[timeSlot.day] = teacherDaily[timeSlot.day] || []).push(
+        interval
+      );
+
+      if (!sectionMap.has(session.section)) {
+        sectionMap.set(session.section, {});
+      }
+      const sectionDaily = sectionMap.get(session.section)!;
+      (sectionDaily[timeSlot.day] = sectionDaily[timeSlot.day] || []).push(
+        interval
+      );
+    }
+
+    const workingDays = Array.from(
+      new Set(Object.values(assignment).map((slot) => slot.day))
+    );
+
     return {
       total_sessions: sessions.length,
       sessions_scheduled: Object.keys(assignment).length,
-      hard_violations: 0, // Would be calculated
-      soft_violations: 0, // Would be calculated
-      teacher_workload: [], // Would be calculated
-      student_schedule: [], // Would be calculated
+      hard_violations: issues.hard_violations.length,
+      soft_violations: issues.soft_violations.length,
+      teacher_workload: Array.from(teacherMap.entries()).map(
+        ([teacherId, { name, daily, sessions: taught, preferred }]) => {
+          const hasPreferences = preferredWindows.some(
+            (window) => window.teacher_id === teacherId
+          );
+          const dailyMinutes = Object.values(daily).map((intervals) =>
+            this.sumMinutes(intervals)
+          );
+          return {
+            teacher_id: teacherId,
+            teacher_name: name,
+            total_hours: dailyMinutes.reduce((sum, m) => sum + m, 0) / 60,
+            days_active: Object.keys(daily).length,
+            max_daily_hours: Math.max(0, ...dailyMinutes) / 60,
+            gaps_minutes: Object.values(daily).reduce(
+              (sum, intervals) => sum + this.gapMinutes(intervals).total,
+              0
+            ),
+            preferred_sessions: preferred,
+            preference_satisfaction:
+              hasPreferences && taught > 0
+                ? Math.round((preferred / taught) * 100)
+                : null,
+          };
+        }
+      ),
+      student_schedule: Array.from(sectionMap.entries()).map(
+        ([section, daily]) => {
+          const gaps = Object.values(daily).map((intervals) =>
+            this.gapMinutes(intervals)
+          );
+          return {
+            section,
+            total_hours:
+              Object.values(daily).reduce(
+                (sum, intervals) => sum + this.sumMinutes(intervals),
+                0
+              ) / 60,
+            daily_hours: workingDays.map(
+              (day) => this.sumMinutes(daily[day] || []) / 60
+            ),
+            total_gaps_minutes: gaps.reduce((sum, g) => sum + g.total, 0),
+            longest_gap_minutes: Math.max(0, ...gaps.map((g) => g.longest)),
+          };
+        }
+      ),
     };
   }
 
@@ -576,11 +1324,75 @@ export class AITimetableGenerator {
     constraints: Constraint[],
     sessions: CourseSession[]
   ): TimetableSolution["issues"] {
-    return {
+    const issues: TimetableSolution["issues"] = {
       hard_violations: [],
       soft_violations: [],
       warnings: [],
     };
+
+    for (const constraint of constraints) {
+      if (constraint.type === "hard") {
+        const affected = Object.entries(assignment)
+          .filter(([sessionId, timeSlot]) => {
+            const session = this.sessionLookup.get(sessionId);
+            return (
+              session && constraint.isViolated(assignment, session, timeSlot)
+            );
+          })
+          .map(([sessionId]) => sessionId);
+
+        if (affected.length > 0) {
+          issues.hard_violations.push({
+            constraint: constraint.name,
+            affected_sessions: affected,
+            description: `${affected.length} session(s) violate ${constraint.name}`,
+          });
+        }
+      } else {
+        const cost = constraint.getViolationCost(assignment);
+        if (cost > 0) {
+          issues.soft_violations.push({
+            constraint: constraint.name,
+            impact_score: Math.round(cost * 100) / 100,
+            description: `${constraint.name} contributes a penalty of ${cost.toFixed(
+              1
+            )}`,
+          });
+        }
+      }
+    }
+
+    const unscheduled = sessions.filter((s) => !(s.id in assignment));
+    if (unscheduled.length > 0) {
+      issues.warnings.push({
+        type: "other",
+        message: `${unscheduled.length} session(s) could not be scheduled`,
+        affected_entities: unscheduled.map((s) => s.id),
+      });
+    }
+
+    return issues;
+  }
+
+  private sumMinutes(intervals: Array<{ start: number; end: number }>): number {
+    return intervals.reduce((sum, i) => sum + (i.end - i.start), 0);
+  }
+
+  private gapMinutes(intervals: Array<{ start: number; end: number }>): {
+    total: number;
+    longest: number;
+  } {
+    const sorted = [...intervals].sort((a, b) => a.start - b.start);
+    let total = 0;
+    let longest = 0;
+    for (let i = 0; i < sorted.length - 1; i++) {
+      const gap = sorted[i + 1].start - sorted[i].end;
+      if (gap > 0) {
+        total += gap;
+        longest = Math.max(longest, gap);
+      }
+    }
+    return { total, longest };
   }
 
   private analyzeSolutions(solutions: TimetableSolution[]) {
@@ -669,6 +1481,14 @@ export class AITimetableGenerator {
     return dailySlots * timeConfig.working_days.length;
   }
 
+  private slotsOverlap(a: TimeSlot, b: TimeSlot): boolean {
+    return (
+      a.day === b.day &&
+      this.timeToMinutes(a.start_time) < this.timeToMinutes(b.end_time) &&
+      this.timeToMinutes(b.start_time) < this.timeToMinutes(a.end_time)
+    );
+  }
+
   private timeToMinutes(time: string): number {
     const [hours, minutes] = time.split(":").map(Number);
     return hours * 60 + minutes;
@@ -60,7 +60,9 @@ export class CSPSolver {
 
   // ==================== MAIN SOLVE METHOD ====================
 
-  async solve(): Promise<{
+  // Entries in initialAssignment are treated as pinned: the search only
+  // assigns the remaining variables around them (used by timetable repair)
+  async solve(initialAssignment: CSPAssignment = {}): Promise<{
     assignment: CSPAssignment | null;
     trace: CSPSolutionTrace;
   }> {
@@ -79,11 +81,11 @@ export class CSPSolver {
 
     // Apply initial constraint propagation
     if (this.config.heuristics.constraint_propagation) {
-      this.propagateConstraints({});
+      this.propagateConstraints(initialAssignment);
     }
 
     // Start backtracking search
-    const assignment = await this.backtrackSearch({});
+    const assignment = await this.backtrackSearch({ ...initialAssignment });
 
     const trace: CSPSolutionTrace = {
       steps: this.solutionTrace,
@@ -253,19 +255,44 @@ export class CSPSolver {
     variable: CSPVariable,
     assignment: CSPAssignment
   ): TimeSlot[] {
+    let values: TimeSlot[];
     switch (this.config.heuristics.value_ordering) {
       case "least_constraining_value":
-        return this.orderByLeastConstraining(variable, assignment);
+        values = this.orderByLeastConstraining(variable, assignment);
+        break;
 
       case "most_constraining_value":
-        return this.orderByMostConstraining(variable, assignment);
+        values = this.orderByMostConstraining(variable, assignment);
+        break;
 
       case "random":
-        return this.shuffleArray([...variable.domain]);
+        values = this.shuffleArray([...variable.domain]);
+        break;
 
       default:
-        return [...variable.domain];
+        values = [...variable.domain];
     }
+    return this.orderByPlacementCost(variable, values);
+  }
+
+  // Slots the soft constraints charge less for (e.g. a teacher's preferred
+  // windows, by that constraint's weight) go first; the heuristic order above
+  // breaks ties since the sort is stable
+  private orderByPlacementCost(variable: CSPVariable, values: TimeSlot[]): TimeSlot[] {
+    const softConstraints = this.constraints.filter((c) => c.type === "soft");
+    if (softConstraints.length === 0) return values;
+
+    const costs = new Map<string, number>();
+    for (const value of values) {
+      costs.set(
+        value.id,
+        softConstraints.reduce(
+          (sum, constraint) => sum + constraint.getPlacementCost(variable.session, value),
+          0
+        )
+      );
+    }
+    return values.sort((a, b) => costs.get(a.id)! - costs.get(b.id)!);
   }
 
   private orderByLeastConstraining(
@@ -273,19 +300,10 @@ export class CSPSolver {
     assignment: CSPAssignment
   ): TimeSlot[] {
     // Order values by how much they constrain other variables (least first)
-    return variable.domain.slice().sort((a, b) => {
-      const constraintsA = this.countConstrainedVariables(
-        variable,
-        a,
-        assignment
-      );
-      const constraintsB = this.countConstrainedVariables(
-        variable,
-        b,
-        assignment
-      );
-      return constraintsA - constraintsB;
-    });
+    const counts = this.countConstrainedVariablesPerValue(variable, assignment);
+    return variable.domain
+      .slice()
+      .sort((a, b) => counts.get(a.id)! - counts.get(b.id)!);
   }
 
   private orderByMostConstraining(
@@ -293,19 +311,25 @@ export class CSPSolver {
     assignment: CSPAssignment
   ): TimeSlot[] {
     // Order values by how much they constrain other variables (most first)
-    return variable.domain.slice().sort((a, b) => {
-      const constraintsA = this.countConstrainedVariables(
-        variable,
-        a,
-        assignment
-      );
-      const constraintsB = this.countConstrainedVariables(
-        variable,
-        b,
-        assignment
+    const counts = this.countConstrainedVariablesPerValue(variable, assignment);
+    return variable.domain
+      .slice()
+      .sort((a, b) => counts.get(b.id)! - counts.get(a.id)!);
+  }
+
+  private countConstrainedVariablesPerValue(
+    variable: CSPVariable,
+    assignment: CSPAssignment
+  ): Map<string, number> {
+    // Computed once per value so the sort comparator stays cheap
+    const counts = new Map<string, number>();
+    for (const value of variable.domain) {
+      counts.set(
+        value.id,
+        this.countConstrainedVariables(variable, value, assignment)
       );
-      return constraintsB - constraintsA;
-    });
+    }
+    return counts;
   }
 
   private countConstrainedVariables(
@@ -314,7 +338,9 @@ export class CSPSolver {
     assignment: CSPAssignment
   ): number {
     let count = 0;
-    const tempAssignment = { ...assignment, [variable.id]: value };
+    // Only the values ruled out by this choice matter; the rest of the
+    // assignment has already been applied to the other domains
+    const tempAssignment: CSPAssignment = { [variable.id]: value };
 
     for (const otherVariable of this.variables) {
       if (otherVariable.id === variable.id || otherVariable.id in assignment)
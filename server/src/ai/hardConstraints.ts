@@ -3,7 +3,28 @@
  * Essential constraints that MUST be satisfied for a valid timetable
  */
 
-import { Constraint, CSPAssignment, CourseSession, TimeSlot } from './types';
+import {
+  BlockedSlotWindow,
+  Constraint,
+  CSPAssignment,
+  CourseSession,
+  RoomResource,
+  TeacherAvailabilityWindow,
+  TimeSlot,
+} from './types';
+
+// Slot times are checked constantly during search, so parsed values are cached
+const minutesCache = new Map<string, number>();
+
+function parseMinutes(time: string): number {
+  let minutes = minutesCache.get(time);
+  if (minutes === undefined) {
+    const [hours, mins] = time.split(':').map(Number);
+    minutes = hours * 60 + mins;
+    minutesCache.set(time, minutes);
+  }
+  return minutes;
+}
 
 // ==================== NO TEACHER CLASH ====================
 
@@ -19,17 +40,11 @@ export class NoTeacherClashConstraint extends Constraint {
     for (const [sessionId, assignedSlot] of Object.entries(assignment)) {
       if (sessionId === session.id) continue; // Skip the current session
       
-      // Get session details from sessionId (format: "BCS210_Theory_A_1")
-      const [courseCode, sessionType, sectionName, sessionNum] = sessionId.split('_');
-      
-      // We need to get teacher info - for now we'll check time overlap
-      if (this.timeSlotsOverlap(assignedSlot, timeSlot)) {
-        // Need to check if sessions have the same teacher
-        // This will be enhanced when we have full session data
-        const existingSession = this.getSessionFromId(sessionId);
-        if (existingSession && existingSession.teacher_id === session.teacher_id) {
-          return true; // Violation: Same teacher, overlapping time
-        }
+      const existingSession = this.getSessionFromId(sessionId);
+      if (existingSession &&
+          existingSession.teacher_id === session.teacher_id &&
+          this.timeSlotsOverlap(assignedSlot, timeSlot)) {
+        return true; // Violation: Same teacher, overlapping time
       }
     }
 
@@ -59,8 +74,7 @@ export class NoTeacherClashConstraint extends Constraint {
   }
 
   private timeToMinutes(time: string): number {
-    const [hours, minutes] = time.split(':').map(Number);
-    return hours * 60 + minutes;
+    return parseMinutes(time);
   }
 
   private isAnyViolated(assignment: CSPAssignment): boolean {
@@ -80,11 +94,6 @@ export class NoTeacherClashConstraint extends Constraint {
     return false;
   }
 
-  private getSessionFromId(sessionId: string): CourseSession | null {
-    // This would be enhanced to get full session data
-    // For now, return null - will be implemented with full context
-    return null;
-  }
 }
 
 // ==================== NO SECTION CLASH ====================
@@ -133,8 +142,7 @@ export class NoSectionClashConstraint extends Constraint {
   }
 
   private timeToMinutes(time: string): number {
-    const [hours, minutes] = time.split(':').map(Number);
-    return hours * 60 + minutes;
+    return parseMinutes(time);
   }
 
   private isAnyViolated(assignment: CSPAssignment): boolean {
@@ -154,9 +162,6 @@ export class NoSectionClashConstraint extends Constraint {
     return false;
   }
 
-  private getSessionFromId(sessionId: string): CourseSession | null {
-    return null; // Will be implemented with full context
-  }
 }
 
 // ==================== RESPECT WORKING HOURS ====================
@@ -211,8 +216,109 @@ export class RespectWorkingHoursConstraint extends Constraint {
   }
 
   private timeToMinutes(time: string): number {
-    const [hours, minutes] = time.split(':').map(Number);
-    return hours * 60 + minutes;
+    return parseMinutes(time);
+  }
+}
+
+// ==================== RESPECT TEACHER AVAILABILITY ====================
+
+export class RespectTeacherAvailabilityConstraint extends Constraint {
+  name = 'RespectTeacherAvailability';
+  type = 'hard' as const;
+  weight = 1000;
+
+  private unavailableByTeacher = new Map<number, TeacherAvailabilityWindow[]>();
+
+  constructor(windows: TeacherAvailabilityWindow[] = []) {
+    super();
+    for (const window of windows) {
+      if (window.type !== 'unavailable') continue;
+      if (!this.unavailableByTeacher.has(window.teacher_id)) {
+        this.unavailableByTeacher.set(window.teacher_id, []);
+      }
+      this.unavailableByTeacher.get(window.teacher_id)!.push(window);
+    }
+  }
+
+  isViolated(assignment: CSPAssignment, session?: CourseSession, timeSlot?: TimeSlot): boolean {
+    if (!session || !timeSlot) return false;
+
+    const windows = this.unavailableByTeacher.get(session.teacher_id);
+    if (!windows) return false;
+
+    const slotStart = this.timeToMinutes(timeSlot.start_time);
+    const slotEnd = this.timeToMinutes(timeSlot.end_time);
+
+    return windows.some(window =>
+      window.day === timeSlot.day &&
+      slotStart < this.timeToMinutes(window.end_time) &&
+      this.timeToMinutes(window.start_time) < slotEnd
+    );
+  }
+
+  getViolationCost(assignment: CSPAssignment): number {
+    let violations = 0;
+    for (const [sessionId, timeSlot] of Object.entries(assignment)) {
+      const session = this.getSessionFromId(sessionId);
+      if (session && this.isViolated(assignment, session, timeSlot)) {
+        violations++;
+      }
+    }
+    return violations * this.weight;
+  }
+
+  getAffectedSessions(session: CourseSession): string[] {
+    return []; // Only the session itself is affected
+  }
+
+  private timeToMinutes(time: string): number {
+    return parseMinutes(time);
+  }
+}
+
+// ==================== BLOCKED SLOTS ====================
+
+// One-off closures from a repair change set (events, room outages, holidays)
+export class RespectBlockedSlotsConstraint extends Constraint {
+  name = 'RespectBlockedSlots';
+  type = 'hard' as const;
+  weight = 1000;
+
+  constructor(private blocks: BlockedSlotWindow[] = []) {
+    super();
+  }
+
+  // The block a session in this slot would fall into, if any
+  findBlock(session: CourseSession, timeSlot: TimeSlot): BlockedSlotWindow | undefined {
+    const slotStart = parseMinutes(timeSlot.start_time);
+    const slotEnd = parseMinutes(timeSlot.end_time);
+
+    return this.blocks.find(block =>
+      block.day === timeSlot.day &&
+      (!block.section || block.section === session.section) &&
+      slotStart < parseMinutes(block.end_time) &&
+      parseMinutes(block.start_time) < slotEnd
+    );
+  }
+
+  isViolated(assignment: CSPAssignment, session?: CourseSession, timeSlot?: TimeSlot): boolean {
+    if (!session || !timeSlot) return false;
+    return this.findBlock(session, timeSlot) !== undefined;
+  }
+
+  getViolationCost(assignment: CSPAssignment): number {
+    let violations = 0;
+    for (const [sessionId, timeSlot] of Object.entries(assignment)) {
+      const session = this.getSessionFromId(sessionId);
+      if (session && this.isViolated(assignment, session, timeSlot)) {
+        violations++;
+      }
+    }
+    return violations * this.weight;
+  }
+
+  getAffectedSessions(session: CourseSession): string[] {
+    return []; // Only the session itself is affected
   }
 }
 
@@ -258,36 +364,97 @@ export class RespectLunchBreakConstraint extends Constraint {
   }
 
   private timeToMinutes(time: string): number {
-    const [hours, minutes] = time.split(':').map(Number);
-    return hours * 60 + minutes;
+    return parseMinutes(time);
   }
 }
 
 // ==================== NO ROOM CLASH ====================
 
+// Labs need a lab; theory and tutorials can use any lecture or seminar room
+const ROOM_TYPES_FOR_SESSION: Record<CourseSession['session_type'], RoomResource['room_type'][]> = {
+  theory: ['lecture', 'seminar'],
+  lab: ['lab'],
+  tutorial: ['seminar', 'lecture'],
+};
+
+export function roomSuitsSession(room: RoomResource, session: CourseSession): boolean {
+  if (!ROOM_TYPES_FOR_SESSION[session.session_type].includes(room.room_type)) return false;
+  if (session.student_count && room.capacity < session.student_count) return false;
+  return (session.required_equipment || []).every(tag => room.equipment.includes(tag));
+}
+
+/**
+ * Give each concurrent session its own suitable room (bipartite matching).
+ * Smaller rooms are tried first so large rooms stay free for large sections.
+ * Returns null when no clash-free assignment exists.
+ */
+export function matchRooms(
+  sessions: CourseSession[],
+  rooms: RoomResource[]
+): Map<string, RoomResource> | null {
+  const candidates = new Map<string, RoomResource[]>();
+  for (const session of sessions) {
+    candidates.set(
+      session.id,
+      rooms.filter(room => roomSuitsSession(room, session)).sort((a, b) => a.capacity - b.capacity)
+    );
+  }
+
+  // Most restricted sessions first keeps augmenting paths short
+  const ordered = [...sessions].sort(
+    (a, b) => candidates.get(a.id)!.length - candidates.get(b.id)!.length
+  );
+
+  const roomOwner = new Map<number, string>();
+  const sessionRoom = new Map<string, RoomResource>();
+
+  const tryAssign = (sessionId: string, visited: Set<number>): boolean => {
+    for (const room of candidates.get(sessionId)!) {
+      if (visited.has(room.room_id)) continue;
+      visited.add(room.room_id);
+
+      const owner = roomOwner.get(room.room_id);
+      if (owner === undefined || tryAssign(owner, visited)) {
+        roomOwner.set(room.room_id, sessionId);
+        sessionRoom.set(sessionId, room);
+        return true;
+      }
+    }
+    return false;
+  };
+
+  for (const session of ordered) {
+    if (!tryAssign(session.id, new Set())) return null;
+  }
+
+  return sessionRoom;
+}
+
 export class NoRoomClashConstraint extends Constraint {
   name = 'NoRoomClash';
   type = 'hard' as const;
   weight = 1000;
 
+  constructor(private rooms: RoomResource[] = []) {
+    super();
+  }
+
   isViolated(assignment: CSPAssignment, session?: CourseSession, timeSlot?: TimeSlot): boolean {
-    if (!session || !timeSlot) return false;
+    // Without a room inventory there is nothing to check against
+    if (!session || !timeSlot || this.rooms.length === 0) return false;
 
-    // Check if any other session uses the same room at the same time
-    // This would be enhanced when room assignments are implemented
+    // Every session overlapping this slot must still get its own suitable room
+    const concurrent: CourseSession[] = [session];
     for (const [sessionId, assignedSlot] of Object.entries(assignment)) {
       if (sessionId === session.id) continue;
-      
+
       const existingSession = this.getSessionFromId(sessionId);
-      if (existingSession && 
-          existingSession.session_type === 'lab' && 
-          session.session_type === 'lab' &&
-          this.timeSlotsOverlap(assignedSlot, timeSlot)) {
-        return true; // Violation: Both labs, overlapping time
+      if (existingSession && this.timeSlotsOverlap(assignedSlot, timeSlot)) {
+        concurrent.push(existingSession);
       }
     }
 
-    return false;
+    return matchRooms(concurrent, this.rooms) === null;
   }
 
   getViolationCost(assignment: CSPAssignment): number {
@@ -311,30 +478,41 @@ export class NoRoomClashConstraint extends Constraint {
   }
 
   private timeToMinutes(time: string): number {
-    const [hours, minutes] = time.split(':').map(Number);
-    return hours * 60 + minutes;
+    return parseMinutes(time);
   }
 
   private isAnyViolated(assignment: CSPAssignment): boolean {
-    const sessions = Object.keys(assignment);
-    for (let i = 0; i < sessions.length; i++) {
-      for (let j = i + 1; j < sessions.length; j++) {
-        const session1 = this.getSessionFromId(sessions[i]);
-        const session2 = this.getSessionFromId(sessions[j]);
-        
-        if (session1 && session2 && 
-            session1.session_type === 'lab' && session2.session_type === 'lab' &&
-            this.timeSlotsOverlap(assignment[sessions[i]], assignment[sessions[j]])) {
-          return true;
-        }
-      }
+    if (this.rooms.length === 0) return false;
+
+    // Sessions that overlap each other all run at the latest of their start
+    // times, so checking who is on at each session's start covers every clash
+    const placed = Object.entries(assignment)
+      .map(([sessionId, slot]) => ({ session: this.getSessionFromId(sessionId), slot }))
+      .filter((p): p is { session: CourseSession; slot: TimeSlot } => !!p.session);
+    const bySlot = new Map<string, CourseSession[]>();
+    for (const { slot } of placed) {
+      const minute = this.timeToMinutes(slot.start_time);
+      const key = `${slot.day}_${minute}`;
+      if (bySlot.has(key)) continue;
+      bySlot.set(
+        key,
+        placed
+          .filter(
+            p =>
+              p.slot.day === slot.day &&
+              this.timeToMinutes(p.slot.start_time) <= minute &&
+              minute < this.timeToMinutes(p.slot.end_time)
+          )
+          .map(p => p.session)
+      );
+    }
+
+    for (const group of bySlot.values()) {
+      if (matchRooms(group, this.rooms) === null) return true;
     }
     return false;
   }
 
-  private getSessionFromId(sessionId: string): CourseSession | null {
-    return null; // Will be implemented with full context
-  }
 }
 
 // ==================== CONSTRAINT FACTORY ====================
@@ -342,7 +520,9 @@ export class NoRoomClashConstraint extends Constraint {
 export class HardConstraintFactory {
   static createStandardHardConstraints(
     workingHours: { start: string; end: string; days: string[] },
-    lunchBreak: { start: string; end: string }
+    lunchBreak: { start: string; end: string },
+    rooms: RoomResource[] = [],
+    teacherAvailability: TeacherAvailabilityWindow[] = []
   ): Constraint[] {
     return [
       new NoTeacherClashConstraint(),
@@ -356,7 +536,8 @@ export class HardConstraintFactory {
         lunchBreak.start, 
         lunchBreak.end
       ),
-      new NoRoomClashConstraint()
+      new NoRoomClashConstraint(rooms),
+      new RespectTeacherAvailabilityConstraint(teacherAvailability)
     ];
   }
 
@@ -387,7 +568,12 @@ export class HardConstraintFactory {
     }
 
     if (config.no_room_clash) {
-      constraints.push(new NoRoomClashConstraint());
+      constraints.push(new NoRoomClashConstraint(config.rooms || []));
+    }
+
+    // Recorded unavailability always applies; there is no toggle for it
+    if (config.teacher_availability?.length) {
+      constraints.push(new RespectTeacherAvailabilityConstraint(config.teacher_availability));
     }
 
     return constraints;
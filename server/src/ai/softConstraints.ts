@@ -3,7 +3,7 @@
  * Optimization constraints that improve timetable quality
  */
 
-import { Constraint, CSPAssignment, CourseSession, TimeSlot } from './types';
+import { Constraint, CSPAssignment, CourseSession, TeacherAvailabilityWindow, TimeSlot } from './types';
 
 // ==================== MINIMIZE STUDENT GAPS ====================
 
@@ -82,10 +82,6 @@ export class MinimizeStudentGapsConstraint extends Constraint {
     return result;
   }
 
-  private getSessionFromId(sessionId: string): CourseSession | null {
-    // Will be implemented with full session context
-    return null;
-  }
 
   private timeToMinutes(time: string): number {
     const [hours, minutes] = time.split(':').map(Number);
@@ -184,9 +180,6 @@ export class BalanceTeacherWorkloadConstraint extends Constraint {
     }));
   }
 
-  private getSessionFromId(sessionId: string): CourseSession | null {
-    return null; // Will be implemented with full session context
-  }
 }
 
 // ==================== PREFER MORNING THEORY ====================
@@ -230,9 +223,6 @@ export class PreferMorningTheoryConstraint extends Constraint {
     return session.session_type === 'theory' ? [session.id] : [];
   }
 
-  private getSessionFromId(sessionId: string): CourseSession | null {
-    return null; // Will be implemented with full session context
-  }
 
   private timeToMinutes(time: string): number {
     const [hours, minutes] = time.split(':').map(Number);
@@ -316,9 +306,6 @@ export class AvoidBackToBackLabsConstraint extends Constraint {
     return result;
   }
 
-  private getSessionFromId(sessionId: string): CourseSession | null {
-    return null; // Will be implemented with full session context
-  }
 
   private timeToMinutes(time: string): number {
     const [hours, minutes] = time.split(':').map(Number);
@@ -414,9 +401,6 @@ export class MinimizeDailyTransitionsConstraint extends Constraint {
     return result;
   }
 
-  private getSessionFromId(sessionId: string): CourseSession | null {
-    return null; // Will be implemented with full session context
-  }
 
   private timeToMinutes(time: string): number {
     const [hours, minutes] = time.split(':').map(Number);
@@ -424,20 +408,87 @@ export class MinimizeDailyTransitionsConstraint extends Constraint {
   }
 }
 
+// ==================== PREFER TEACHER SLOTS ====================
+
+// A slot counts as preferred only when it lies entirely inside the window
+export function slotWithinWindow(slot: TimeSlot, window: TeacherAvailabilityWindow): boolean {
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+  return (
+    slot.day === window.day &&
+    toMinutes(slot.start_time) >= toMinutes(window.start_time) &&
+    toMinutes(slot.end_time) <= toMinutes(window.end_time)
+  );
+}
+
+export class PreferTeacherSlotsConstraint extends Constraint {
+  name = 'PreferTeacherSlots';
+  type = 'soft' as const;
+  weight: number;
+
+  private preferredByTeacher = new Map<number, TeacherAvailabilityWindow[]>();
+
+  constructor(weight: number = 20, windows: TeacherAvailabilityWindow[] = []) {
+    super();
+    this.weight = weight;
+    for (const window of windows) {
+      if (window.type !== 'preferred') continue;
+      if (!this.preferredByTeacher.has(window.teacher_id)) {
+        this.preferredByTeacher.set(window.teacher_id, []);
+      }
+      this.preferredByTeacher.get(window.teacher_id)!.push(window);
+    }
+  }
+
+  isViolated(assignment: CSPAssignment): boolean {
+    return false; // Soft constraint
+  }
+
+  getViolationCost(assignment: CSPAssignment): number {
+    let cost = 0;
+
+    for (const [sessionId, timeSlot] of Object.entries(assignment)) {
+      const session = this.getSessionFromId(sessionId);
+      if (session) cost += this.getPlacementCost(session, timeSlot);
+    }
+
+    return cost;
+  }
+
+  getPlacementCost(session: CourseSession, timeSlot: TimeSlot): number {
+    // Teachers without preferred windows are happy anywhere
+    const windows = this.preferredByTeacher.get(session.teacher_id);
+    if (!windows) return 0;
+    return windows.some(window => slotWithinWindow(timeSlot, window)) ? 0 : this.weight;
+  }
+
+  getAffectedSessions(session: CourseSession): string[] {
+    return this.preferredByTeacher.has(session.teacher_id) ? [session.id] : [];
+  }
+}
+
 // ==================== SOFT CONSTRAINT FACTORY ====================
 
 export class SoftConstraintFactory {
-  static createStandardSoftConstraints(): Constraint[] {
+  static createStandardSoftConstraints(
+    teacherAvailability: TeacherAvailabilityWindow[] = []
+  ): Constraint[] {
     return [
       new MinimizeStudentGapsConstraint(30),
       new BalanceTeacherWorkloadConstraint(20),
       new PreferMorningTheoryConstraint(15),
       new AvoidBackToBackLabsConstraint(25),
-      new MinimizeDailyTransitionsConstraint(10)
+      new MinimizeDailyTransitionsConstraint(10),
+      new PreferTeacherSlotsConstraint(20, teacherAvailability)
     ];
   }
 
-  static createCustomSoftConstraints(config: any): Constraint[] {
+  static createCustomSoftConstraints(
+    config: any,
+    teacherAvailability: TeacherAvailabilityWindow[] = []
+  ): Constraint[] {
     const constraints: Constraint[] = [];
 
     if (config.minimize_student_gaps?.enabled) {
@@ -471,6 +522,14 @@ export class SoftConstraintFactory {
       ));
     }
 
+    // On unless explicitly disabled, so saved preferences from before this option still honour teacher windows
+    if (config.prefer_teacher_slots?.enabled !== false) {
+      constraints.push(new PreferTeacherSlotsConstraint(
+        config.prefer_teacher_slots?.weight || 20,
+        teacherAvailability
+      ));
+    }
+
     return constraints;
   }
 }
\ No newline at end of file
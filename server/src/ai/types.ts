@@ -28,6 +28,25 @@ export interface CourseSession {
   duration_minutes: number;      // 60
   classes_per_week: number;      // 2
   session_number: number;        // 1 (for multiple sessions per week)
+  student_count?: number;        // 45 (section or batch size, for room capacity)
+  required_equipment?: string[]; // ["computers"]
+}
+
+export interface RoomResource {
+  room_id: number;               // 12
+  room_code: string;             // "LAB-2"
+  building: string;              // "Block A"
+  room_type: 'lecture' | 'lab' | 'seminar';
+  capacity: number;              // 60
+  equipment: string[];           // ["projector", "computers"]
+}
+
+export interface TeacherAvailabilityWindow {
+  teacher_id: number;            // 123
+  day: string;                   // "Friday"
+  start_time: string;            // "13:00"
+  end_time: string;              // "17:00"
+  type: 'unavailable' | 'preferred';
 }
 
 export interface TimetableAssignment {
@@ -52,7 +71,18 @@ export abstract class Constraint {
   abstract name: string;
   abstract type: 'hard' | 'soft';
   abstract weight: number;       // For soft constraints (1-100)
-  
+
+  // Full session details keyed by session ID (set by the generator before solving)
+  protected sessionContext: Map<string, CourseSession> = new Map();
+
+  setSessionContext(sessions: Map<string, CourseSession>): void {
+    this.sessionContext = sessions;
+  }
+
+  protected getSessionFromId(sessionId: string): CourseSession | null {
+    return this.sessionContext.get(sessionId) || null;
+  }
+
   // Check if assignment violates this constraint
   abstract isViolated(assignment: CSPAssignment, session?: CourseSession, timeSlot?: TimeSlot): boolean;
   
@@ -61,6 +91,12 @@ export abstract class Constraint {
   
   // Get affected sessions for constraint propagation
   abstract getAffectedSessions(session: CourseSession): string[];
+
+  // Cost of putting one session in a slot whatever else is scheduled; the
+  // solver tries the cheapest slots first
+  getPlacementCost(session: CourseSession, timeSlot: TimeSlot): number {
+    return 0;
+  }
 }
 
 // ==================== GENERATION INPUT ====================
@@ -74,28 +110,38 @@ export interface TimetableGenerationInput {
     department_id: number;
     semester: number;
     sections: string[];            // ["A", "B"]
+    section_sizes?: Record<string, number>; // { "A": 45 }
     sessions: {
       theory: {
         teacher_id: number;
         teacher_name: string;
         classes_per_week: number;
         duration_minutes: number;
+        required_equipment?: string[];
       };
       lab: {
         teacher_id: number;
         teacher_name: string;
         classes_per_week: number;
         duration_minutes: number;
+        required_equipment?: string[];
       };
       tutorial: {
         teacher_id: number;
         teacher_name: string;
         classes_per_week: number;
         duration_minutes: number;
+        required_equipment?: string[];
       };
     };
   }[];
 
+  // Room inventory; when empty, no rooms are assigned or checked
+  rooms?: RoomResource[];
+
+  // Recurring teacher windows: unavailable is hard, preferred is soft
+  teacher_availability?: TeacherAvailabilityWindow[];
+
   // Time configuration from manual setup
   timeConfiguration: {
     start_time: string;            // "08:00"
@@ -123,6 +169,7 @@ export interface TimetableGenerationInput {
       prefer_morning_theory: { enabled: boolean; weight: number; };
       avoid_back_to_back_labs: { enabled: boolean; weight: number; };
       minimize_daily_transitions: { enabled: boolean; weight: number; };
+      prefer_teacher_slots?: { enabled: boolean; weight: number; };
     };
   };
 
@@ -169,6 +216,8 @@ export interface TimetableSolution {
       days_active: number;
       max_daily_hours: number;
       gaps_minutes: number;
+      preferred_sessions: number;            // sessions inside the teacher's preferred windows
+      preference_satisfaction: number | null; // 0-100, null when no preferred windows recorded
     }[];
     student_schedule: {
       section: string;
@@ -231,6 +280,73 @@ export interface MultiSolutionResult {
   };
 }
 
+// ==================== INCREMENTAL REPAIR ====================
+
+export interface BlockedSlotWindow {
+  day: string;                   // "Wednesday"
+  start_time: string;            // "10:00"
+  end_time: string;              // "12:00"
+  section?: string;              // Only this section; omitted blocks everyone
+  reason?: string;               // "Convocation"
+}
+
+export interface RepairChangeSet {
+  // Teacher leaving: sessions move to the replacement, or are dropped without one
+  removed_teachers?: {
+    teacher_id: number;
+    replacement_teacher_id?: number;
+    replacement_teacher_name?: string;
+  }[];
+  // Extra sessions for courses in the input (e.g. a new weekly lab)
+  added_sessions?: {
+    course_id: number;
+    section: string;
+    session_type: CourseSession['session_type'];
+    count?: number;              // Default 1
+    teacher_id?: number;         // Defaults to the course's teacher for that type
+    teacher_name?: string;
+    duration_minutes?: number;
+  }[];
+  blocked_slots?: BlockedSlotWindow[];
+}
+
+export type RepairReason =
+  | 'teacher_replaced'
+  | 'teacher_removed'
+  | 'added_session'
+  | 'blocked_slot'
+  | 'constraint_violation'
+  | 'neighbourhood'
+  | 'not_in_input';
+
+export interface RepairDiffEntry {
+  session_id: string;
+  course_code: string;
+  section: string;
+  change: 'moved' | 'added' | 'removed' | 'teacher_changed';
+  from_slot: string | null;      // null for added sessions
+  to_slot: string | null;        // null for removed sessions
+  from_room?: number;
+  to_room?: number;
+  reason: RepairReason;
+  details: string;
+}
+
+export interface RepairResult {
+  success: boolean;
+  solution: TimetableSolution | null;
+  diff: RepairDiffEntry[];
+  summary: {
+    total_sessions: number;
+    pinned_sessions: number;     // Kept in place while solving
+    freed_sessions: number;      // Re-solved in the final round
+    unchanged_sessions: number;
+    neighbourhood_rounds: number;
+    repair_time_ms: number;
+  };
+  error?: string;
+}
+
 // ==================== CSP ALGORITHM TYPES ====================
 
 export interface CSPSolverConfig {
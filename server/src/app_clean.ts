@@ -3,26 +3,38 @@ import cors from "cors";
 import dotenv from "dotenv";
 
 // Import routes
+import academicCalendarRoutes from "./routes/academicCalendar";
+import aiTimetableRoutes from "./routes/aiTimetable";
 import authRoutes from "./routes/auth";
 import attendanceRoutes from "./routes/attendance";
+import attendanceDisputeRoutes from "./routes/attendanceDisputes";
+import attendancePolicyRoutes from "./routes/attendancePolicies";
 import attendanceStatsRoutes from "./routes/attendanceStats";
 import analyticsRoutes from "./routes/analytics";
 import batchRoutes from "./routes/batches";
+import calendarRoutes from "./routes/calendar";
 import courseRoutes from "./routes/courses_new";
 import dashboardRoutes from "./routes/dashboard";
 import dataEntryRoutes from "./routes/dataEntry";
 import departmentRoutes from "./routes/departments";
+import leaveRequestRoutes from "./routes/leaveRequests";
 import notificationRoutes from "./routes/notifications";
+import roomRoutes from "./routes/rooms";
 import savedTimetableRoutes from "./routes/savedTimetables";
 import sectionRoutes from "./routes/sections";
 import smartAttendanceRoutes from "./routes/smartAttendance";
 import smartTimetableRoutes from "./routes/smartTimetableRoutesSimple";
 import statsRoutes from "./routes/stats";
+import storageRoutes from "./routes/storage";
+import studentDeviceRoutes from "./routes/studentDevices";
 import studentEnrollmentRoutes from "./routes/studentEnrollment";
 import studentRoutes from "./routes/students_new";
 import teacherRoutes from "./routes/teachers_new";
 import timetableRoutes from "./routes/timetable";
 import uploadRoutes from "./routes/upload";
+import TimetableGenerationQueue from "./services/TimetableGenerationQueue";
+import StorageService from "./services/StorageService";
+import FraudDetectionService from "./services/FraudDetectionService";
 
 dotenv.config();
 
@@ -30,7 +42,17 @@ const app = express();
 const PORT = process.env.PORT || 5001;
 
 // Middleware
-app.use(express.json({ limit: '10mb' }));
+// Keep the raw bytes of every JSON body: device signatures cover the exact body
+// sent. Matching the signed routes by URL here would miss the case and slash
+// variants Express still routes to them.
+app.use(
+  express.json({
+    limit: '10mb',
+    verify: (req, _res, buf) => {
+      (req as any).rawBody = buf;
+    },
+  })
+);
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // CORS: support comma-separated origins in CORS_ORIGIN env and trim trailing slashes
@@ -75,26 +97,43 @@ app.use(
     credentials: true,
     optionsSuccessStatus: 204,
     methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization"],
+    allowedHeaders: [
+      "Content-Type",
+      "Authorization",
+      // Signed smart-attendance scans (see StudentDeviceService)
+      "X-Device-Id",
+      "X-Device-Timestamp",
+      "X-Device-Nonce",
+      "X-Device-Signature",
+    ],
   })
 );
 
 // Routes
+app.use("/api/academic-calendar", academicCalendarRoutes);
 app.use("/api/auth", authRoutes);
 app.use("/api/attendance", attendanceRoutes);
+app.use("/api/attendance-disputes", attendanceDisputeRoutes);
+app.use("/api/attendance-policies", attendancePolicyRoutes);
 app.use("/api/attendance-stats", attendanceStatsRoutes);
 app.use("/api/analytics", analyticsRoutes);
 app.use("/api/batches", batchRoutes);
+app.use("/api/calendar", calendarRoutes);
 app.use("/api/courses", courseRoutes);
 app.use("/api/dashboard", dashboardRoutes);
 app.use("/api/data-entry", dataEntryRoutes);
 app.use("/api/departments", departmentRoutes);
+app.use("/api/leave-requests", leaveRequestRoutes);
 app.use("/api/notifications", notificationRoutes);
+app.use("/api/rooms", roomRoutes);
 app.use("/api/saved-timetables", savedTimetableRoutes);
 app.use("/api/sections", sectionRoutes);
 app.use("/api/smart-attendance", smartAttendanceRoutes);
+app.use("/api/smart-timetable/csp", aiTimetableRoutes);
 app.use("/api/smart-timetable", smartTimetableRoutes);
 app.use("/api/stats", statsRoutes);
+app.use("/api/storage", storageRoutes);
+app.use("/api/student-devices", studentDeviceRoutes);
 app.use("/api/student-enrollment", studentEnrollmentRoutes);
 app.use("/api/students", studentRoutes);
 app.use("/api/teachers", teacherRoutes);
@@ -127,4 +166,13 @@ app.listen(PORT, () => {
   console.log(`🚀 Server is running on port ${PORT}`);
   console.log(`📡 API endpoints available at http://localhost:${PORT}/api`);
   console.log(`🏥 Health check: http://localhost:${PORT}/api/health`);
+
+  // Background timetable generation jobs
+  TimetableGenerationQueue.start();
+
+  // Daily purge of biometric images past the retention period
+  StorageService.startRetentionSchedule();
+
+  // Daily proxy-attendance analysis of smart-attendance scans
+  FraudDetectionService.startSchedule();
 });
\ No newline at end of file
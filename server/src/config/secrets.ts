@@ -0,0 +1,9 @@
+// Read lazily: dotenv is loaded after the imports are evaluated. There is no
+// fallback: tokens signed with a well-known default could be forged by anyone.
+export const jwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not set');
+  }
+  return secret;
+};
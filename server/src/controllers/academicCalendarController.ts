@@ -0,0 +1,335 @@
+import { Request, Response } from "express";
+import { Op, ValidationError } from "sequelize";
+import AcademicCalendarEvent from "../models/AcademicCalendarEvent";
+import AcademicTerm from "../models/AcademicTerm";
+import Department from "../models/Department";
+import AcademicCalendarService, {
+  CalendarScope,
+} from "../services/AcademicCalendarService";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const WEEKDAYS = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+const EVENT_TYPES = ["holiday", "exam", "makeup_day"];
+const MAX_RANGE_DAYS = 366;
+
+const optionalInt = (value: any) =>
+  value === undefined || value === null || value === ""
+    ? null
+    : parseInt(value, 10);
+
+const scopeFromQuery = (req: Request): CalendarScope => ({
+  departmentId: optionalInt(req.query.department_id),
+  semester: optionalInt(req.query.semester),
+});
+
+const departmentInclude = {
+  model: Department,
+  as: "department",
+  attributes: ["department_id", "name"],
+};
+
+// Get academic terms, optionally for one department
+export const getAcademicTerms = async (req: Request, res: Response) => {
+  try {
+    const departmentId = optionalInt(req.query.department_id);
+    const terms = await AcademicTerm.findAll({
+      where: departmentId
+        ? { department_id: { [Op.or]: [null, departmentId] } }
+        : {},
+      include: [departmentInclude],
+      order: [["start_date", "DESC"]],
+    });
+
+    res.status(200).json(terms);
+  } catch (error: any) {
+    console.error("Get academic terms error:", error);
+    res.status(500).json({
+      message: "Error retrieving academic terms",
+      error: error.message,
+    });
+  }
+};
+
+// Create or update an academic term
+export const saveAcademicTerm = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { name, academic_year, department_id, semester, start_date, end_date } =
+    req.body;
+
+  try {
+    if (!name?.trim() || !academic_year?.trim() || !start_date || !end_date) {
+      return res.status(400).json({
+        message: "name, academic_year, start_date, and end_date are required",
+      });
+    }
+    if (!DATE_PATTERN.test(start_date) || !DATE_PATTERN.test(end_date)) {
+      return res
+        .status(400)
+        .json({ message: "start_date and end_date must be YYYY-MM-DD" });
+    }
+    if (start_date > end_date) {
+      return res
+        .status(400)
+        .json({ message: "end_date must not be before start_date" });
+    }
+
+    const values = {
+      name: name.trim(),
+      academic_year: academic_year.trim(),
+      department_id: optionalInt(department_id),
+      semester: optionalInt(semester),
+      start_date,
+      end_date,
+    };
+
+    let term: AcademicTerm | null;
+    if (id) {
+      term = await AcademicTerm.findByPk(id);
+      if (!term) {
+        return res.status(404).json({ message: "Academic term not found" });
+      }
+      await term.update(values);
+    } else {
+      term = await AcademicTerm.create({
+        ...values,
+        created_by: (req as any).user?.user_id ?? null,
+      });
+    }
+
+    res.status(id ? 200 : 201).json({
+      message: "Academic term saved successfully",
+      term,
+    });
+  } catch (error: any) {
+    console.error("Save academic term error:", error);
+    if (error instanceof ValidationError) {
+      return res
+        .status(400)
+        .json({ message: "Invalid academic term data", error: error.message });
+    }
+    res.status(500).json({
+      message: "Error saving academic term",
+      error: error.message,
+    });
+  }
+};
+
+// Delete an academic term
+export const deleteAcademicTerm = async (req: Request, res: Response) => {
+  try {
+    const deleted = await AcademicTerm.destroy({
+      where: { term_id: req.params.id },
+    });
+    if (!deleted) {
+      return res.status(404).json({ message: "Academic term not found" });
+    }
+
+    res.status(200).json({ message: "Academic term deleted successfully" });
+  } catch (error: any) {
+    console.error("Delete academic term error:", error);
+    res.status(500).json({
+      message: "Error deleting academic term",
+      error: error.message,
+    });
+  }
+};
+
+// Get holidays, exam periods and make-up days, optionally overlapping a date range
+export const getCalendarEvents = async (req: Request, res: Response) => {
+  const { from, to, event_type } = req.query as Record<string, string>;
+
+  try {
+    const where: any = {};
+    if (from) where.end_date = { [Op.gte]: from };
+    if (to) where.start_date = { [Op.lte]: to };
+    if (event_type) where.event_type = event_type;
+    const departmentId = optionalInt(req.query.department_id);
+    if (departmentId) where.department_id = { [Op.or]: [null, departmentId] };
+
+    const events = await AcademicCalendarEvent.findAll({
+      where,
+      include: [departmentInclude],
+      order: [["start_date", "ASC"]],
+    });
+
+    res.status(200).json(events);
+  } catch (error: any) {
+    console.error("Get calendar events error:", error);
+    res.status(500).json({
+      message: "Error retrieving calendar events",
+      error: error.message,
+    });
+  }
+};
+
+// Create or update a holiday, exam period or make-up day
+export const saveCalendarEvent = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const {
+    event_type,
+    title,
+    start_date,
+    follows_day_of_week,
+    department_id,
+    semester,
+    description,
+  } = req.body;
+  // A make-up day is a single date
+  const end_date =
+    event_type === "makeup_day" ? start_date : req.body.end_date || start_date;
+
+  try {
+    if (!EVENT_TYPES.includes(event_type)) {
+      return res.status(400).json({
+        message: "event_type must be 'holiday', 'exam' or 'makeup_day'",
+      });
+    }
+    if (!title?.trim() || !start_date) {
+      return res
+        .status(400)
+        .json({ message: "title and start_date are required" });
+    }
+    if (!DATE_PATTERN.test(start_date) || !DATE_PATTERN.test(end_date)) {
+      return res
+        .status(400)
+        .json({ message: "start_date and end_date must be YYYY-MM-DD" });
+    }
+    if (start_date > end_date) {
+      return res
+        .status(400)
+        .json({ message: "end_date must not be before start_date" });
+    }
+    if (event_type === "makeup_day" && !WEEKDAYS.includes(follows_day_of_week)) {
+      return res.status(400).json({
+        message: "A make-up day must name the weekday whose timetable it follows",
+      });
+    }
+
+    const values = {
+      event_type,
+      title: title.trim(),
+      start_date,
+      end_date,
+      follows_day_of_week:
+        event_type === "makeup_day" ? follows_day_of_week : null,
+      department_id: optionalInt(department_id),
+      semester: optionalInt(semester),
+      description: description?.trim() || null,
+    };
+
+    let event: AcademicCalendarEvent | null;
+    if (id) {
+      event = await AcademicCalendarEvent.findByPk(id);
+      if (!event) {
+        return res.status(404).json({ message: "Calendar event not found" });
+      }
+      await event.update(values);
+    } else {
+      event = await AcademicCalendarEvent.create({
+        ...values,
+        created_by: (req as any).user?.user_id ?? null,
+      });
+    }
+
+    res.status(id ? 200 : 201).json({
+      message: "Calendar event saved successfully",
+      event,
+    });
+  } catch (error: any) {
+    console.error("Save calendar event error:", error);
+    if (error instanceof ValidationError) {
+      return res
+        .status(400)
+        .json({ message: "Invalid calendar event data", error: error.message });
+    }
+    res.status(500).json({
+      message: "Error saving calendar event",
+      error: error.message,
+    });
+  }
+};
+
+// Delete a calendar event
+export const deleteCalendarEvent = async (req: Request, res: Response) => {
+  try {
+    const deleted = await AcademicCalendarEvent.destroy({
+      where: { event_id: req.params.id },
+    });
+    if (!deleted) {
+      return res.status(404).json({ message: "Calendar event not found" });
+    }
+
+    res.status(200).json({ message: "Calendar event deleted successfully" });
+  } catch (error: any) {
+    console.error("Delete calendar event error:", error);
+    res.status(500).json({
+      message: "Error deleting calendar event",
+      error: error.message,
+    });
+  }
+};
+
+// Whether classes run on a date, and which weekday's timetable applies
+export const getDayStatus = async (req: Request, res: Response) => {
+  const date =
+    (req.query.date as string) || new Date().toISOString().split("T")[0];
+
+  try {
+    if (!DATE_PATTERN.test(date)) {
+      return res.status(400).json({ message: "date must be YYYY-MM-DD" });
+    }
+
+    const status = await AcademicCalendarService.getDayStatus(
+      date,
+      scopeFromQuery(req)
+    );
+    res.status(200).json(status);
+  } catch (error: any) {
+    console.error("Get day status error:", error);
+    res.status(500).json({
+      message: "Error retrieving day status",
+      error: error.message,
+    });
+  }
+};
+
+// Day-by-day status for a date range
+export const getCalendarRange = async (req: Request, res: Response) => {
+  const { from, to } = req.query as Record<string, string>;
+
+  try {
+    if (!DATE_PATTERN.test(from || "") || !DATE_PATTERN.test(to || "")) {
+      return res
+        .status(400)
+        .json({ message: "from and to must be YYYY-MM-DD" });
+    }
+    const days =
+      (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000) + 1;
+    if (days < 1 || days > MAX_RANGE_DAYS) {
+      return res.status(400).json({
+        message: `The range must cover 1 to ${MAX_RANGE_DAYS} days`,
+      });
+    }
+
+    const range = await AcademicCalendarService.getRange(
+      from,
+      to,
+      scopeFromQuery(req)
+    );
+    res.status(200).json(range);
+  } catch (error: any) {
+    console.error("Get calendar range error:", error);
+    res.status(500).json({
+      message: "Error retrieving academic calendar",
+      error: error.message,
+    });
+  }
+};
@@ -5,7 +5,92 @@
 
 import { Request, Response } from 'express';
 import { AITimetableGenerator } from '../ai/aiTimetableGenerator';
-import { TimetableGenerationInput } from '../ai/types';
+import {
+  RepairChangeSet,
+  TimetableAssignment,
+  TimetableGenerationInput,
+  TimetableSolution,
+} from '../ai/types';
+import { Op } from 'sequelize';
+import Course from '../models/Course';
+import Room from '../models/Room';
+import Section from '../models/Section';
+import Timetable, { effectiveOn } from '../models/Timetable';
+import TeacherAvailability from '../models/TeacherAvailability';
+import TimetablePreference from '../models/TimetablePreference';
+
+// Recently generated solutions, kept so the coordinator who generated them can
+// analyze and compare them by ID
+const MAX_CACHED_SOLUTIONS = 50;
+const solutionCache = new Map<string, { userId: number; solution: TimetableSolution }>();
+
+type SoftConstraintPreferences = TimetableGenerationInput['preferences']['soft_constraints'];
+
+function cacheSolutions(userId: number, solutions: TimetableSolution[]) {
+  for (const solution of solutions) {
+    solutionCache.delete(solution.id);
+    solutionCache.set(solution.id, { userId, solution });
+  }
+  while (solutionCache.size > MAX_CACHED_SOLUTIONS) {
+    const oldest = solutionCache.keys().next().value as string;
+    solutionCache.delete(oldest);
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Live class types back to the generator's session type names
+const SESSION_TYPE_NAMES: Record<string, { type: 'theory' | 'lab' | 'tutorial'; label: string }> = {
+  lecture: { type: 'theory', label: 'Theory' },
+  lab: { type: 'lab', label: 'Lab' },
+  tutorial: { type: 'tutorial', label: 'Tutorial' },
+};
+
+const DAY_ORDER = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+// Solutions generated by someone else are treated as not found
+function cachedSolution(userId: number, solutionId: string): TimetableSolution | undefined {
+  const entry = solutionCache.get(solutionId);
+  return entry && entry.userId === userId ? entry.solution : undefined;
+}
+
+// Use the room inventory and recorded teacher availability unless the caller
+// sent its own (extraTeacherIds covers teachers not yet in the assignments)
+async function applyStoredResources(input: TimetableGenerationInput, extraTeacherIds: number[] = []) {
+  if (!input.rooms) {
+    const rooms = await Room.findAll({
+      where: {
+        is_active: true,
+        department_id: { [Op.or]: [input.courseAssignments[0]?.department_id ?? null, null] },
+      },
+    });
+    input.rooms = rooms.map(room => ({
+      room_id: room.room_id,
+      room_code: room.room_code,
+      building: room.building,
+      room_type: room.room_type,
+      capacity: room.capacity,
+      equipment: room.equipment || [],
+    }));
+  }
+
+  if (!input.teacher_availability) {
+    const teacherIds = new Set<number>(extraTeacherIds);
+    input.courseAssignments.forEach(course =>
+      Object.values(course.sessions).forEach(s => s.teacher_id && teacherIds.add(s.teacher_id))
+    );
+    const windows = await TeacherAvailability.findAll({
+      where: { teacher_id: Array.from(teacherIds) },
+    });
+    input.teacher_availability = windows.map(w => ({
+      teacher_id: w.teacher_id,
+      day: w.day_of_week,
+      start_time: w.start_time.substring(0, 5),
+      end_time: w.end_time.substring(0, 5),
+      type: w.availability_type,
+    }));
+  }
+}
 
 // ==================== AI GENERATION ENDPOINT ====================
 
@@ -14,7 +99,8 @@ export const generateAITimetable = async (req: Request, res: Response) => {
     console.log('🤖 AI Timetable Generation Request received');
     
     const generationInput: TimetableGenerationInput = req.body;
-    
+    const userId = (req as any).user?.user_id;
+
     // Validate input
     const validation = validateGenerationInput(generationInput);
     if (!validation.valid) {
@@ -26,6 +112,22 @@ export const generateAITimetable = async (req: Request, res: Response) => {
     }
 
     console.log('✅ Input validation passed');
+
+    // Fall back to the coordinator's saved soft constraint preferences
+    const saved = generationInput.preferences ? null : await TimetablePreference.findByPk(userId);
+    if (saved) {
+      generationInput.preferences = {
+        hard_constraints: {
+          no_teacher_clash: true,
+          no_section_clash: true,
+          respect_working_hours: true,
+          respect_lunch_break: true,
+        },
+        soft_constraints: saved.soft_constraints as SoftConstraintPreferences,
+      };
+    }
+    await applyStoredResources(generationInput);
+
     console.log('📊 Generating timetable for:', {
       courses: generationInput.courseAssignments.length,
       department: generationInput.metadata.department_name,
@@ -39,6 +141,7 @@ export const generateAITimetable = async (req: Request, res: Response) => {
     const result = await generator.generateTimetables(generationInput);
     
     if (result.success && result.solutions.length > 0) {
+      cacheSolutions(userId, result.solutions);
       console.log('🎉 AI generation successful:', {
         solutions: result.solutions.length,
         best_score: Math.max(...result.solutions.map(s => s.quality.overall_score)).toFixed(1),
@@ -70,6 +173,190 @@ export const generateAITimetable = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Turn the live timetable rows of a section (or every section of a department)
+ * in effect on a date into a starting schedule for repair. Session IDs follow
+ * the generator's naming, numbered through the week, and a row longer than the
+ * session (published back-to-back classes are merged) counts as several.
+ */
+async function loadLiveSchedule(
+  input: TimetableGenerationInput,
+  scope: { section_id?: number; department_id?: number; date: string }
+): Promise<TimetableAssignment[]> {
+  const sections = await Section.findAll({
+    where: scope.section_id
+      ? { section_id: scope.section_id }
+      : {
+          department_id: scope.department_id!,
+          semester: { [Op.or]: [input.metadata.semester, null] },
+        },
+  });
+  const sectionNames = new Map(sections.map(section => [section.section_id, section.section_name]));
+  if (sectionNames.size === 0) return [];
+
+  const rows = await Timetable.findAll({
+    where: {
+      [Op.and]: [{ section_id: Array.from(sectionNames.keys()) }, effectiveOn(scope.date)],
+    },
+    include: [{ model: Course, as: 'course', attributes: ['course_code'] }],
+  });
+  rows.sort(
+    (a, b) =>
+      DAY_ORDER.indexOf(a.day_of_week) - DAY_ORDER.indexOf(b.day_of_week) ||
+      a.start_time.localeCompare(b.start_time)
+  );
+
+  const roomIds = new Map((input.rooms || []).map(room => [room.room_code, room.room_id]));
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+  const toTime = (minutes: number) =>
+    `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+  const counters = new Map<string, number>();
+  const schedule: TimetableAssignment[] = [];
+  for (const row of rows) {
+    const section = sectionNames.get(row.section_id)!;
+    const courseCode = (row as any).course?.course_code;
+    const sessionType = SESSION_TYPE_NAMES[row.class_type.toLowerCase()];
+    if (!courseCode || !sessionType) continue;
+
+    const start = toMinutes(row.start_time.substring(0, 5));
+    const length = toMinutes(row.end_time.substring(0, 5)) - start;
+    const course = input.courseAssignments.find(
+      c => c.course_id === row.course_id && c.sections.includes(section)
+    );
+    const duration = course?.sessions[sessionType.type].duration_minutes || length;
+    const key = `${courseCode}_${sessionType.label}_${section}`;
+
+    for (let offset = 0; offset + duration <= Math.max(length, duration); offset += duration) {
+      const number = (counters.get(key) || 0) + 1;
+      counters.set(key, number);
+      schedule.push({
+        session_id: `${key}_${number}`,
+        time_slot_id: `${row.day_of_week.substring(0, 3).toUpperCase()}_${toTime(start + offset)}`,
+        room_id: (row.classroom && roomIds.get(row.classroom)) || undefined,
+      });
+    }
+  }
+  return schedule;
+}
+
+// ==================== INCREMENTAL REPAIR ENDPOINT ====================
+
+export const repairAITimetable = async (req: Request, res: Response) => {
+  try {
+    const {
+      input,
+      solution_id,
+      current_schedule,
+      live,
+      changes = {},
+    }: {
+      input: TimetableGenerationInput;
+      solution_id?: string;
+      current_schedule?: TimetableAssignment[];
+      live?: { section_id?: number; department_id?: number; date?: string };
+      changes?: RepairChangeSet;
+    } = req.body;
+    const userId = (req as any).user?.user_id;
+
+    const validation = validateGenerationInput(input || ({} as TimetableGenerationInput));
+    if (!validation.valid) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid generation input',
+        details: validation.errors
+      });
+    }
+
+    if (live && !live.section_id === !live.department_id) {
+      return res.status(400).json({
+        success: false,
+        error: 'live needs exactly one of section_id or department_id'
+      });
+    }
+    const liveDate = live?.date || new Date().toISOString().split('T')[0];
+    if (live && !DATE_PATTERN.test(liveDate)) {
+      return res.status(400).json({
+        success: false,
+        error: 'live.date must be YYYY-MM-DD'
+      });
+    }
+
+    const hasChanges =
+      (changes.removed_teachers?.length || 0) +
+      (changes.added_sessions?.length || 0) +
+      (changes.blocked_slots?.length || 0) > 0;
+    if (!hasChanges) {
+      return res.status(400).json({
+        success: false,
+        error: 'The change set is empty'
+      });
+    }
+
+    await applyStoredResources(
+      input,
+      (changes.removed_teachers || [])
+        .map(r => r.replacement_teacher_id)
+        .filter((id): id is number => !!id)
+    );
+
+    // Repair a cached solution, the live timetable, or a schedule supplied by the caller
+    const baseSchedule = solution_id
+      ? cachedSolution(userId, solution_id)?.schedule
+      : live
+      ? await loadLiveSchedule(input, { ...live, date: liveDate })
+      : current_schedule;
+    if (!baseSchedule || (live && baseSchedule.length === 0)) {
+      return res.status(solution_id || live ? 404 : 400).json({
+        success: false,
+        error: solution_id
+          ? 'Solution not found'
+          : live
+          ? `No live timetable in effect on ${liveDate} for that ${live.section_id ? 'section' : 'department'}`
+          : 'Either solution_id, live or current_schedule is required'
+      });
+    }
+
+    console.log('🔧 Timetable repair requested:', {
+      base: solution_id || (live ? `live timetable on ${liveDate}` : 'supplied schedule'),
+      entries: baseSchedule.length,
+      removed_teachers: changes.removed_teachers?.length || 0,
+      added_sessions: changes.added_sessions?.length || 0,
+      blocked_slots: changes.blocked_slots?.length || 0
+    });
+
+    const generator = new AITimetableGenerator();
+    const result = await generator.repairTimetable(input, baseSchedule, changes);
+
+    if (!result.success || !result.solution) {
+      return res.status(422).json({
+        success: false,
+        error: 'Failed to repair timetable',
+        details: result.error,
+        data: result
+      });
+    }
+
+    cacheSolutions(userId, [result.solution]);
+    res.json({
+      success: true,
+      data: result,
+      message: `Repaired timetable with ${result.diff.length} change(s)`
+    });
+
+  } catch (error) {
+    console.error('❌ Timetable repair error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Timetable repair failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
 // ==================== SOLUTION ANALYSIS ENDPOINT ====================
 
 export const analyzeTimetableSolution = async (req: Request, res: Response) => {
@@ -79,51 +366,37 @@ export const analyzeTimetableSolution = async (req: Request, res: Response) => {
 
     console.log(`🔍 Analyzing timetable solution: ${solutionId}`);
 
-    // In a real implementation, this would fetch the solution from database
-    // For now, return analysis structure
-    
-    const analysis = {
-      solution_id: solutionId,
+    const solution = cachedSolution((req as any).user?.user_id, solutionId);
+    if (!solution) {
+      return res.status(404).json({
+        success: false,
+        error: 'Solution not found. Generate timetables before analyzing them.'
+      });
+    }
+
+    const analysis: any = {
+      solution_id: solution.id,
+      name: solution.name,
       quality_breakdown: {
         feasibility: {
-          score: 95,
-          hard_constraints_satisfied: 18,
-          total_hard_constraints: 19,
-          violations: [
-            {
-              constraint: 'NoTeacherClash',
-              sessions_affected: ['BCS210_Theory_A_1', 'BCS211_Lab_A_1'],
-              severity: 'high',
-              suggestion: 'Move BCS211_Lab_A_1 to different time slot'
-            }
-          ]
+          score: solution.quality.feasibility_score,
+          hard_violations: solution.statistics.hard_violations,
+          violations: solution.issues.hard_violations
         },
         optimization: {
-          score: 82,
-          soft_constraints_performance: [
-            { name: 'MinimizeStudentGaps', weight: 30, cost: 45, performance: 85 },
-            { name: 'BalanceTeacherWorkload', weight: 20, cost: 12, performance: 94 },
-            { name: 'PreferMorningTheory', weight: 15, cost: 8, performance: 89 }
-          ]
+          score: solution.quality.optimization_score,
+          soft_constraints_performance: solution.issues.soft_violations
         }
       },
       statistics: {
-        teacher_workload: [
-          { teacher_name: 'Dr. Smith', total_hours: 12, days_active: 4, gaps_minutes: 60 },
-          { teacher_name: 'Prof. Johnson', total_hours: 10, days_active: 3, gaps_minutes: 30 }
-        ],
-        student_schedule: [
-          { section: 'A', daily_hours: [4, 3, 4, 2, 3], total_gaps_minutes: 90 },
-          { section: 'B', daily_hours: [3, 4, 3, 4, 2], total_gaps_minutes: 120 }
-        ]
-      }
+        teacher_workload: solution.statistics.teacher_workload,
+        student_schedule: solution.statistics.student_schedule
+      },
+      warnings: solution.issues.warnings
     };
 
-    if (detailed) {
-      // Add detailed session-by-session analysis
-      analysis['detailed_schedule'] = {
-        // Detailed breakdown would be added here
-      };
+    if (detailed === 'true') {
+      analysis.detailed_schedule = solution.schedule;
     }
 
     res.json({
@@ -156,39 +429,55 @@ export const compareTimetableSolutions = async (req: Request, res: Response) =>
 
     console.log(`📊 Comparing ${solutionIds.length} timetable solutions`);
 
-    // Mock comparison data
+    const userId = (req as any).user?.user_id;
+    const solutions = solutionIds.map((id: string) => cachedSolution(userId, id));
+    const missing = solutionIds.filter((_: string, i: number) => !solutions[i]);
+    if (missing.length > 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Some solutions were not found',
+        details: missing
+      });
+    }
+
+    const found = solutions as TimetableSolution[];
+    const totalGaps = (s: TimetableSolution) =>
+      s.statistics.student_schedule.reduce((sum, sec) => sum + sec.total_gaps_minutes, 0);
+    const workloadSpread = (s: TimetableSolution) => {
+      const hours = s.statistics.teacher_workload.map(t => t.max_daily_hours);
+      return hours.length ? Math.max(...hours) - Math.min(...hours) : 0;
+    };
+
+    // Lower is better for both metrics, so pick the minimum
+    const categories = [
+      { name: 'Teacher Workload Balance', metric: workloadSpread },
+      { name: 'Student Gap Minimization', metric: totalGaps }
+    ].map(({ name, metric }) => {
+      const scores = found.map(s => ({ id: s.id, score: metric(s) }));
+      const winner = scores.reduce((best, cur) => (cur.score < best.score ? cur : best));
+      return { name, winner: winner.id, scores };
+    });
+
+    const bestOverall = found.reduce((best, cur) =>
+      cur.quality.overall_score > best.quality.overall_score ? cur : best
+    );
+
     const comparison = {
-      solutions: solutionIds.map((id, index) => ({
-        id,
-        name: `Solution ${index + 1}`,
+      solutions: found.map(s => ({
+        id: s.id,
+        name: s.name,
         scores: {
-          overall: 85 - index * 5,
-          teacher_satisfaction: 80 + index * 3,
-          student_convenience: 90 - index * 2,
-          resource_utilization: 85
+          overall: s.quality.overall_score,
+          teacher_satisfaction: s.quality.teacher_satisfaction,
+          student_convenience: s.quality.student_convenience,
+          resource_utilization: s.quality.resource_utilization
         }
       })),
-      comparison_matrix: {
-        categories: [
-          {
-            name: 'Teacher Workload Balance',
-            winner: solutionIds[1],
-            scores: solutionIds.map((id, i) => ({ id, score: 80 + i * 5 }))
-          },
-          {
-            name: 'Student Gap Minimization', 
-            winner: solutionIds[0],
-            scores: solutionIds.map((id, i) => ({ id, score: 90 - i * 3 }))
-          }
-        ]
-      },
+      comparison_matrix: { categories },
       recommendation: {
-        best_overall: solutionIds[0],
-        reasoning: 'Solution 1 provides the best balance between teacher and student satisfaction',
-        trade_offs: [
-          'Solution 1: Better for students but slightly more teacher gaps',
-          'Solution 2: Better teacher distribution but longer student gaps'
-        ]
+        best_overall: bestOverall.id,
+        reasoning: `${bestOverall.name} has the highest overall score (${bestOverall.quality.overall_score.toFixed(1)})`,
+        trade_offs: categories.map(c => `${c.name}: best in ${c.winner}`)
       }
     };
 
@@ -215,13 +504,21 @@ export const updateOptimizationPreferences = async (req: Request, res: Response)
 
     console.log('🎛️ Updating optimization preferences:', preferences);
 
+    if (!preferences || typeof preferences !== 'object') {
+      return res.status(400).json({
+        success: false,
+        error: 'preferences object is required'
+      });
+    }
+
     // Validate preferences
     const validPreferences = [
       'minimize_student_gaps',
       'balance_teacher_workload', 
       'prefer_morning_theory',
       'avoid_back_to_back_labs',
-      'minimize_daily_transitions'
+      'minimize_daily_transitions',
+      'prefer_teacher_slots'
     ];
 
     for (const [key, config] of Object.entries(preferences)) {
@@ -245,8 +542,13 @@ export const updateOptimizationPreferences = async (req: Request, res: Response)
       }
     }
 
-    // In real implementation, save preferences to database/user profile
-    
+    const userId = (req as any).user?.user_id;
+    await TimetablePreference.upsert({
+      user_id: userId,
+      soft_constraints: preferences,
+      updated_at: new Date(),
+    });
+
     res.json({
       success: true,
       message: 'Optimization preferences updated successfully',
@@ -288,6 +590,15 @@ function validateGenerationInput(input: TimetableGenerationInput): { valid: bool
     if (!input.timeConfiguration.class_duration || input.timeConfiguration.class_duration <= 0) {
       errors.push('Valid class duration is required');
     }
+
+    if (!input.timeConfiguration.lunch_break?.start || !input.timeConfiguration.lunch_break?.end) {
+      errors.push('Lunch break start and end are required');
+    }
+  }
+
+  // Validate request metadata
+  if (!input.metadata) {
+    errors.push('Request metadata is required');
   }
 
   // Validate course assignments have teachers assigned
@@ -5,6 +5,7 @@ import Student from '../models/Student';
 import Course from '../models/Course';
 import Attendance from '../models/Attendance';
 import Timetable from '../models/Timetable';
+import AttendancePolicyService from '../services/AttendancePolicyService';
 
 // Get detailed attendance analytics for a student
 export const getStudentAnalytics = async (req: any, res: Response) => {
@@ -26,17 +27,23 @@ export const getStudentAnalytics = async (req: any, res: Response) => {
             return res.status(400).json({ message: 'Student ID is required' });
         }
 
-        // Get overall attendance statistics
+        // Get overall attendance statistics (holidays, exam days and dates outside the term don't count;
+        // late, excused, on-duty and medical classes are weighted per the status rules)
         const attendanceStats = await sequelize.query(`
             SELECT 
                 COUNT(*) as total_classes,
                 COUNT(CASE WHEN a.status = 'present' THEN 1 END) as present_count,
                 COUNT(CASE WHEN a.status = 'absent' THEN 1 END) as absent_count,
-                ROUND(
-                    (COUNT(CASE WHEN a.status = 'present' THEN 1 END) * 100.0 / COUNT(*)), 2
-                ) as attendance_percentage
+                COUNT(attendance_credit(a.status)) as counted_classes,
+                COALESCE(SUM(attendance_credit(a.status)), 0) as attended_classes,
+                COALESCE(ROUND(
+                    SUM(attendance_credit(a.status)) * 100.0 / NULLIF(COUNT(attendance_credit(a.status)), 0), 2
+                ), 0) as attendance_percentage
             FROM attendance a
+            JOIN timetable t ON a.schedule_id = t.schedule_id
+            JOIN courses c ON t.course_id = c.course_id
             WHERE a.student_id = :studentId
+            AND is_teaching_day(a.date, c.department_id, c.semester)
         `, {
             replacements: { studentId: targetStudentId },
             type: QueryTypes.SELECT
@@ -49,13 +56,17 @@ export const getStudentAnalytics = async (req: any, res: Response) => {
                 c.course_code,
                 COUNT(*) as total_classes,
                 COUNT(CASE WHEN a.status = 'present' THEN 1 END) as present_count,
-                ROUND(
-                    (COUNT(CASE WHEN a.status = 'present' THEN 1 END) * 100.0 / COUNT(*)), 2
-                ) as attendance_percentage
+                COUNT(attendance_credit(a.status)) as counted_classes,
+                COALESCE(SUM(attendance_credit(a.status)), 0) as attended_classes,
+                COALESCE(ROUND(
+                    SUM(attendance_credit(a.status)) * 100.0 / NULLIF(COUNT(attendance_credit(a.status)), 0), 2
+                ), 0) as attendance_percentage,
+                attendance_min_percentage(c.course_id) as min_attendance_percentage
             FROM attendance a
             JOIN timetable t ON a.schedule_id = t.schedule_id
             JOIN courses c ON t.course_id = c.course_id
             WHERE a.student_id = :studentId
+            AND is_teaching_day(a.date, c.department_id, c.semester)
             GROUP BY c.course_id, c.course_name, c.course_code
             ORDER BY c.course_name
         `, {
@@ -69,9 +80,9 @@ export const getStudentAnalytics = async (req: any, res: Response) => {
                 strftime('%Y-%m', a.date) as month,
                 COUNT(*) as total_classes,
                 COUNT(CASE WHEN a.status = 'present' THEN 1 END) as present_count,
-                ROUND(
-                    (COUNT(CASE WHEN a.status = 'present' THEN 1 END) * 100.0 / COUNT(*)), 2
-                ) as attendance_percentage
+                COALESCE(ROUND(
+                    SUM(attendance_credit(a.status)) * 100.0 / NULLIF(COUNT(attendance_credit(a.status)), 0), 2
+                ), 0) as attendance_percentage
             FROM attendance a
             WHERE a.student_id = :studentId
             AND a.date >= date('now', '-6 months')
@@ -104,7 +115,15 @@ export const getStudentAnalytics = async (req: any, res: Response) => {
             type: QueryTypes.SELECT
         });
 
+        // Overall minimum from the student's department policy; each course row
+        // carries its own
+        const student = await Student.findByPk(targetStudentId, { attributes: ['student_id', 'department_id'] });
+        const { min_attendance_percentage: minPercentage } = await AttendancePolicyService.resolve({
+            departmentId: student?.department_id
+        });
+
         const analytics = {
+            min_attendance_percentage: minPercentage,
             overall: attendanceStats[0] || { total_classes: 0, present_count: 0, absent_count: 0, attendance_percentage: 0 },
             courseWise: courseWiseStats,
             monthlyTrend: monthlyTrend,
@@ -114,12 +133,12 @@ export const getStudentAnalytics = async (req: any, res: Response) => {
 
         // Add warnings based on attendance percentage
         const overallPercentage = Number((analytics.overall as any).attendance_percentage) || 0;
-        if (overallPercentage < 75) {
+        if (overallPercentage < minPercentage) {
             analytics.warnings.push({
                 type: 'critical',
-                message: `Overall attendance (${overallPercentage}%) is below the minimum requirement of 75%`
+                message: `Overall attendance (${overallPercentage}%) is below the minimum requirement of ${minPercentage}%`
             });
-        } else if (overallPercentage < 80) {
+        } else if (overallPercentage < minPercentage + 5) {
             analytics.warnings.push({
                 type: 'warning',
                 message: `Overall attendance (${overallPercentage}%) is approaching the minimum requirement`
@@ -129,10 +148,11 @@ export const getStudentAnalytics = async (req: any, res: Response) => {
         // Add course-specific warnings
         courseWiseStats.forEach((course: any) => {
             const coursePercentage = Number(course.attendance_percentage) || 0;
-            if (coursePercentage < 75) {
+            const courseMinimum = Number(course.min_attendance_percentage);
+            if (coursePercentage < courseMinimum) {
                 analytics.warnings.push({
                     type: 'critical',
-                    message: `${course.course_name} attendance (${coursePercentage}%) is below minimum requirement`
+                    message: `${course.course_name} attendance (${coursePercentage}%) is below the minimum requirement of ${courseMinimum}%`
                 });
             }
         });
@@ -178,9 +198,9 @@ export const getClassAttendanceAnalytics = async (req: any, res: Response) => {
                 COUNT(*) as total_attendance_records,
                 COUNT(CASE WHEN a.status = 'present' THEN 1 END) as total_present,
                 COUNT(CASE WHEN a.status = 'absent' THEN 1 END) as total_absent,
-                ROUND(
-                    (COUNT(CASE WHEN a.status = 'present' THEN 1 END) * 100.0 / COUNT(*)), 2
-                ) as overall_attendance_percentage
+                COALESCE(ROUND(
+                    SUM(attendance_credit(a.status)) * 100.0 / NULLIF(COUNT(attendance_credit(a.status)), 0), 2
+                ), 0) as overall_attendance_percentage
             FROM attendance a
             WHERE a.schedule_id = :scheduleId
         `, {
@@ -197,9 +217,9 @@ export const getClassAttendanceAnalytics = async (req: any, res: Response) => {
                 COUNT(*) as total_classes_attended,
                 COUNT(CASE WHEN a.status = 'present' THEN 1 END) as present_count,
                 COUNT(CASE WHEN a.status = 'absent' THEN 1 END) as absent_count,
-                ROUND(
-                    (COUNT(CASE WHEN a.status = 'present' THEN 1 END) * 100.0 / COUNT(*)), 2
-                ) as attendance_percentage
+                COALESCE(ROUND(
+                    SUM(attendance_credit(a.status)) * 100.0 / NULLIF(COUNT(attendance_credit(a.status)), 0), 2
+                ), 0) as attendance_percentage
             FROM students s
             JOIN attendance a ON s.student_id = a.student_id
             WHERE a.schedule_id = :scheduleId
@@ -217,9 +237,9 @@ export const getClassAttendanceAnalytics = async (req: any, res: Response) => {
                 COUNT(*) as total_students,
                 COUNT(CASE WHEN a.status = 'present' THEN 1 END) as present_count,
                 COUNT(CASE WHEN a.status = 'absent' THEN 1 END) as absent_count,
-                ROUND(
-                    (COUNT(CASE WHEN a.status = 'present' THEN 1 END) * 100.0 / COUNT(*)), 2
-                ) as attendance_percentage
+                COALESCE(ROUND(
+                    SUM(attendance_credit(a.status)) * 100.0 / NULLIF(COUNT(attendance_credit(a.status)), 0), 2
+                ), 0) as attendance_percentage
             FROM attendance a
             WHERE a.schedule_id = :scheduleId
             GROUP BY a.date
@@ -1,25 +1,53 @@
 import { Request, Response } from "express";
 import { Op, Sequelize } from "sequelize";
-import Attendance from "../models/Attendance";
+import Attendance, {
+  ATTENDANCE_SOURCES,
+  AttendanceSource,
+} from "../models/Attendance";
 import Timetable from "../models/Timetable";
 import Student from "../models/Student";
 import Course from "../models/Course";
 import Teacher from "../models/Teacher";
 import Department from "../models/Department";
 import Section from "../models/Section";
-import SmartAttendanceRecord from "../models/SmartAttendanceRecord";
+import AcademicCalendarService from "../services/AcademicCalendarService";
+import AttendanceStatusService from "../services/AttendanceStatusService";
+import LeaveRequestService from "../services/LeaveRequestService";
+import AttendanceAuditService, {
+  AttendanceActor,
+} from "../services/AttendanceAuditService";
+import AttendanceSyncService from "../services/AttendanceSyncService";
+
+// Sources a person entered rather than a smart session
+const MANUAL_SOURCES: AttendanceSource[] = ["manual", "bulk_import"];
+
+// Attributes the audit log entries for a request's attendance writes
+const actorFor = (req: Request, reason?: string): AttendanceActor => ({
+  userId: (req as any).user?.user_id,
+  source: "manual",
+  reason: reason || null,
+});
 
 // Mark attendance for a specific class
 export const markAttendance = async (req: Request, res: Response) => {
   const { scheduleId, studentId, status } = req.body;
 
   try {
-    const attendanceRecord = await Attendance.create({
-      schedule_id: scheduleId,
-      student_id: studentId,
-      date: new Date(),
-      status,
-    });
+    const attendanceRecord = await AttendanceAuditService.withActor(
+      actorFor(req),
+      (transaction) =>
+        Attendance.create(
+          {
+            schedule_id: scheduleId,
+            student_id: studentId,
+            date: new Date(),
+            status,
+            source: "manual",
+            marked_by_user_id: (req as any).user?.user_id,
+          },
+          { transaction }
+        )
+    );
     res.status(201).json(attendanceRecord);
   } catch (error) {
     res.status(500).json({ message: "Error marking attendance", error });
@@ -46,12 +74,21 @@ export const markAttendanceBulk = async (req: Request, res: Response) => {
         continue;
       }
       try {
-        const rec = await Attendance.create({
-          schedule_id,
-          student_id,
-          date,
-          status,
-        });
+        const rec = await AttendanceAuditService.withActor(
+          actorFor(req),
+          (transaction) =>
+            Attendance.create(
+              {
+                schedule_id,
+                student_id,
+                date,
+                status,
+                source: "bulk_import",
+                marked_by_user_id: (req as any).user?.user_id,
+              },
+              { transaction }
+            )
+        );
         results.push({ ...item, statusCode: 201, result: rec });
       } catch (err: any) {
         const msg = (err?.message || "").toLowerCase();
@@ -90,7 +127,7 @@ export const getAttendanceByStudent = async (req: Request, res: Response) => {
       whereClause.schedule_id = schedule_id;
     }
 
-    // Query regular attendance records
+    // Every mark, manual or smart, is in the attendance ledger
     const attendanceRecords = await Attendance.findAll({
       where: whereClause,
       include: [
@@ -113,53 +150,11 @@ export const getAttendanceByStudent = async (req: Request, res: Response) => {
       order: [["date", "DESC"]],
     });
 
-    // Query smart attendance records (without includes since associations aren't set up)
-    const smartAttendanceRecordsRaw = await SmartAttendanceRecord.findAll({
-      where: whereClause,
-      order: [["date", "DESC"]],
-    });
-
-    // Manually fetch related data for smart attendance records
-    const smartAttendanceRecords = await Promise.all(
-      smartAttendanceRecordsRaw.map(async (record: any) => {
-        const timetable = await Timetable.findOne({
-          where: { schedule_id: record.schedule_id },
-          include: [
-            {
-              model: Course,
-              as: "course",
-            },
-            {
-              model: Teacher,
-              as: "teacher",
-              attributes: ["teacher_id", "name", "department_id"],
-            },
-          ],
-        });
-
-        // Format to match regular attendance record structure
-        return {
-          ...record.toJSON(),
-          timetable: timetable ? timetable.toJSON() : null,
-        };
-      })
-    );
-
-    // Merge both records
-    const mergedRecords = [...attendanceRecords, ...smartAttendanceRecords];
-
-    // Sort by date descending
-    mergedRecords.sort((a: any, b: any) => {
-      const dateA = new Date(a.date).getTime();
-      const dateB = new Date(b.date).getTime();
-      return dateB - dateA;
-    });
-
     console.log(
-      `Found ${attendanceRecords.length} regular + ${smartAttendanceRecords.length} smart attendance records for student ${studentId}`,
+      `Found ${attendanceRecords.length} attendance records for student ${studentId}`,
       { filters: { date, schedule_id } }
     );
-    res.status(200).json(mergedRecords);
+    res.status(200).json(attendanceRecords);
   } catch (error) {
     console.error("Error fetching attendance records:", error);
     res.status(500).json({
@@ -469,7 +464,7 @@ export const getStudentAttendanceSummary = async (
       };
     }
 
-    const attendanceRecords = (await Attendance.findAll({
+    const records = (await Attendance.findAll({
       where: whereClause,
       include: [
         {
@@ -490,58 +485,63 @@ export const getStudentAttendanceSummary = async (
       order: [["date", "DESC"]],
     })) as any[];
 
-    // Calculate summary statistics
-    const totalClasses = attendanceRecords.length;
-    const presentCount = attendanceRecords.filter(
-      (record) => record.status === "present"
-    ).length;
-    const absentCount = attendanceRecords.filter(
-      (record) => record.status === "absent"
-    ).length;
-    const attendancePercentage =
-      totalClasses > 0 ? (presentCount / totalClasses) * 100 : 0;
+    // Records dated on holidays, exam days or outside the term don't count
+    const { counted: attendanceRecords, excluded } =
+      await AcademicCalendarService.partitionByTeachingDay(
+        records,
+        (record) => record.date,
+        (record) => ({
+          departmentId: record.timetable?.course?.department_id,
+          semester: record.timetable?.course?.semester,
+        })
+      );
+
+    // Late, excused, on-duty and medical classes count per the status rules
+    const rules = await AttendanceStatusService.rules();
+    const tally = AttendanceStatusService.tally(
+      rules,
+      attendanceRecords.map((record) => record.status)
+    );
 
     // Group by course
-    const courseWiseAttendance = attendanceRecords.reduce(
+    const recordsByCourse = attendanceRecords.reduce(
       (acc: any, record: any) => {
         const courseId = record.timetable?.course_id;
-        const courseName = record.timetable?.course?.course_name;
-
-        if (courseId && !acc[courseId]) {
-          acc[courseId] = {
-            course_name: courseName || "Unknown Course",
-            total_classes: 0,
-            present: 0,
-            absent: 0,
-            percentage: 0,
-          };
-        }
-
         if (courseId) {
-          acc[courseId].total_classes++;
-          if (record.status === "present") {
-            acc[courseId].present++;
-          } else {
-            acc[courseId].absent++;
+          if (!acc[courseId]) {
+            acc[courseId] = {
+              course_name: record.timetable?.course?.course_name,
+              statuses: [],
+            };
           }
-
-          acc[courseId].percentage =
-            (acc[courseId].present / acc[courseId].total_classes) * 100;
+          acc[courseId].statuses.push(record.status);
         }
-
         return acc;
       },
       {}
     );
+    const courseWiseAttendance: any = {};
+    for (const [courseId, course] of Object.entries<any>(recordsByCourse)) {
+      const courseTally = AttendanceStatusService.tally(rules, course.statuses);
+      courseWiseAttendance[courseId] = {
+        course_name: course.course_name || "Unknown Course",
+        total_classes: courseTally.total_classes,
+        attended_classes: courseTally.attended_classes,
+        ...courseTally.status_counts,
+        percentage: courseTally.attendance_percentage,
+      };
+    }
 
     res.json({
       student_id,
       date_range: { start_date, end_date },
       summary: {
-        total_classes: totalClasses,
-        present: presentCount,
-        absent: absentCount,
-        attendance_percentage: Math.round(attendancePercentage * 100) / 100,
+        total_records: tally.total_records,
+        total_classes: tally.total_classes,
+        attended_classes: tally.attended_classes,
+        ...tally.status_counts,
+        attendance_percentage: tally.attendance_percentage,
+        excluded_non_teaching_days: excluded.length,
       },
       course_wise_attendance: courseWiseAttendance,
       recent_attendance: attendanceRecords.slice(0, 10), // Last 10 records
@@ -564,7 +564,8 @@ export const getStudentAttendanceSummary = async (
 export const markTimetableAttendance = async (req: Request, res: Response) => {
   try {
     const { schedule_id } = req.params;
-    const { date, attendance_records } = req.body;
+    // reason is optional and recorded in the audit log for changed records
+    const { date, attendance_records, reason } = req.body;
 
     // Validate input
     if (!date || !Array.isArray(attendance_records)) {
@@ -579,7 +580,13 @@ export const markTimetableAttendance = async (req: Request, res: Response) => {
         {
           model: Course,
           as: "course",
-          attributes: ["course_id", "course_name", "course_code"],
+          attributes: [
+            "course_id",
+            "course_name",
+            "course_code",
+            "department_id",
+            "semester",
+          ],
         },
       ],
     });
@@ -587,30 +594,44 @@ export const markTimetableAttendance = async (req: Request, res: Response) => {
       return res.status(404).json({ message: "Timetable slot not found" });
     }
 
-    // VALIDATION: Check if the selected date matches the timetable's day_of_week
-    const selectedDate = new Date(date);
-    const dayNames = [
-      "Sunday",
-      "Monday",
-      "Tuesday",
-      "Wednesday",
-      "Thursday",
-      "Friday",
-      "Saturday",
-    ];
-    const selectedDayOfWeek = dayNames[selectedDate.getDay()];
+    // VALIDATION: Classes must run on the selected date per the academic calendar,
+    // and the timetable followed that day (a make-up day follows another weekday's)
+    // must be the schedule's day_of_week
+    const course = (timetableSlot as any).course;
+    const dayStatus = await AcademicCalendarService.getDayStatus(date, {
+      departmentId: course?.department_id,
+      semester: course?.semester,
+    });
     const scheduledDayOfWeek = (timetableSlot as any).day_of_week;
 
-    if (selectedDayOfWeek.toLowerCase() !== scheduledDayOfWeek.toLowerCase()) {
+    if (!dayStatus.teaching) {
+      return res.status(400).json({
+        message: "No classes on the selected date per the academic calendar",
+        details: {
+          selected_date: date,
+          reason: dayStatus.reason,
+          title: dayStatus.title,
+          course_name: course?.course_name,
+        },
+      });
+    }
+
+    if (
+      dayStatus.timetable_day!.toLowerCase() !==
+      scheduledDayOfWeek.toLowerCase()
+    ) {
       return res.status(400).json({
         message:
           "Date mismatch: Selected date doesn't match the schedule's day of week",
         details: {
           selected_date: date,
-          selected_day: selectedDayOfWeek,
+          selected_day: dayStatus.timetable_day,
           scheduled_day: scheduledDayOfWeek,
-          course_name: (timetableSlot as any).course?.course_name,
-          hint: `This class is scheduled for ${scheduledDayOfWeek}, but ${date} is a ${selectedDayOfWeek}. Please select the correct date.`,
+          course_name: course?.course_name,
+          hint:
+            dayStatus.reason === "makeup_day"
+              ? `${date} is a make-up day following the ${dayStatus.timetable_day} timetable, but this class is scheduled for ${scheduledDayOfWeek}.`
+              : `This class is scheduled for ${scheduledDayOfWeek}, but ${date} is a ${dayStatus.timetable_day}. Please select the correct date.`,
         },
       });
     }
@@ -619,9 +640,20 @@ export const markTimetableAttendance = async (req: Request, res: Response) => {
     const errors: any[] = [];
     const duplicates: any[] = [];
 
+    // Absences on approved leave are recorded as excused
+    const leaveByStudent = await LeaveRequestService.leaveOn(
+      attendance_records.map((record: any) => record.student_id),
+      date
+    );
+
     // Process each attendance record
     for (const record of attendance_records) {
-      const { student_id, status } = record;
+      const { student_id } = record;
+      const status =
+        record.status === "absent" &&
+        leaveByStudent.get(student_id) === "approved"
+          ? "excused"
+          : record.status;
 
       try {
         // Check if attendance already exists for this schedule_id, student, and date
@@ -646,12 +678,24 @@ export const markTimetableAttendance = async (req: Request, res: Response) => {
           }
 
           // Update existing attendance if status changed
-          await existingAttendance.update({ status });
+          const previousStatus = existingAttendance.status;
+          await AttendanceAuditService.withActor(
+            actorFor(req, record.reason || reason),
+            (transaction) =>
+              existingAttendance.update(
+                {
+                  status,
+                  source: "manual",
+                  marked_by_user_id: (req as any).user?.user_id,
+                },
+                { transaction }
+              )
+          );
           results.push({
             student_id,
             status: "updated",
             attendance_status: status,
-            previous_status: existingAttendance.status,
+            previous_status: previousStatus,
             attendance_id: existingAttendance.attendance_id,
           });
         } else {
@@ -687,12 +731,21 @@ export const markTimetableAttendance = async (req: Request, res: Response) => {
           }
 
           // Create new attendance record
-          const newAttendance = await Attendance.create({
-            schedule_id: Number(schedule_id),
-            student_id,
-            date,
-            status,
-          });
+          const newAttendance = await AttendanceAuditService.withActor(
+            actorFor(req),
+            (transaction) =>
+              Attendance.create(
+                {
+                  schedule_id: Number(schedule_id),
+                  student_id,
+                  date,
+                  status,
+                  source: "manual",
+                  marked_by_user_id: (req as any).user?.user_id,
+                },
+                { transaction }
+              )
+          );
           results.push({
             student_id,
             status: "created",
@@ -860,12 +913,6 @@ export const getAttendanceHistory = async (req: Request, res: Response) => {
           acc[recordDate][scheduleId] = {
             timetable: record.timetable,
             students: [],
-            summary: {
-              total: 0,
-              present: 0,
-              absent: 0,
-              percentage: 0,
-            },
           };
         }
 
@@ -875,24 +922,28 @@ export const getAttendanceHistory = async (req: Request, res: Response) => {
           marked_at: record.created_at,
         });
 
-        // Update summary
-        acc[recordDate][scheduleId].summary.total++;
-        if (record.status === "present") {
-          acc[recordDate][scheduleId].summary.present++;
-        } else {
-          acc[recordDate][scheduleId].summary.absent++;
-        }
-
-        acc[recordDate][scheduleId].summary.percentage =
-          (acc[recordDate][scheduleId].summary.present /
-            acc[recordDate][scheduleId].summary.total) *
-          100;
-
         return acc;
       },
       {}
     );
 
+    // Summaries weight late, excused, on-duty and medical per the status rules
+    const rules = await AttendanceStatusService.rules();
+    for (const slots of Object.values<any>(groupedAttendance)) {
+      for (const slot of Object.values<any>(slots)) {
+        const tally = AttendanceStatusService.tally(
+          rules,
+          slot.students.map((entry: any) => entry.status)
+        );
+        slot.summary = {
+          total: tally.total_records,
+          counted: tally.total_classes,
+          ...tally.status_counts,
+          percentage: tally.attendance_percentage,
+        };
+      }
+    }
+
     // Get teacher's timetable slots for context
     const teacherTimetable = await Timetable.findAll({
       where: { teacher_id: Number(teacher_id) },
@@ -984,6 +1035,19 @@ export const getAttendanceDatesForTeacher = async (
           ),
           "absent_count",
         ],
+        // Classes that count towards the percentage and the credit they earn
+        [
+          Sequelize.fn("COUNT", Sequelize.literal("attendance_credit(status)")),
+          "counted_records",
+        ],
+        [
+          Sequelize.fn(
+            "COALESCE",
+            Sequelize.fn("SUM", Sequelize.literal("attendance_credit(status)")),
+            0
+          ),
+          "attended_credit",
+        ],
       ],
       where: dateConditions,
       include: [
@@ -1003,8 +1067,10 @@ export const getAttendanceDatesForTeacher = async (
       const totalRecords = parseInt(record.getDataValue("total_records"));
       const presentCount = parseInt(record.getDataValue("present_count"));
       const absentCount = parseInt(record.getDataValue("absent_count"));
+      const countedRecords = parseInt(record.getDataValue("counted_records"));
+      const attended = Number(record.getDataValue("attended_credit"));
       const percentage =
-        totalRecords > 0 ? (presentCount / totalRecords) * 100 : 0;
+        countedRecords > 0 ? (attended / countedRecords) * 100 : 0;
 
       return {
         date: record.date,
@@ -1034,13 +1100,14 @@ export const getAttendanceDatesForTeacher = async (
 
 /**
  * Get unified attendance records (Manual + Smart) for a teacher
- * Merges data from Attendance and SmartAttendanceRecord tables
+ * Reads the attendance ledger; `method` narrows to manual (including bulk
+ * imports) or smart marks, and `source` to a single source
  */
 export const getUnifiedAttendance = async (req: Request, res: Response) => {
   try {
-    const { schedule_id, date, method, status, teacher_id, start_date, end_date } = req.query;
+    const { schedule_id, date, method, source, status, teacher_id, start_date, end_date } = req.query;
 
-    console.log("📊 Fetching unified attendance:", { schedule_id, date, method, status, teacher_id });
+    console.log("📊 Fetching unified attendance:", { schedule_id, date, method, source, status, teacher_id });
 
     // Build where clause for timetable
     const timetableWhere: any = {};
@@ -1064,134 +1131,83 @@ export const getUnifiedAttendance = async (req: Request, res: Response) => {
     if (status && status !== 'all') {
       attendanceWhere.status = status;
     }
-
-    // Fetch manual attendance records
-    let manualRecords: any[] = [];
-    if (!method || method === 'all' || method === 'manual') {
-      const manualAttendance = await Attendance.findAll({
-        where: attendanceWhere,
-        include: [
-          {
-            model: Timetable,
-            as: "timetable",
-            where: timetableWhere,
-            include: [
-              {
-                model: Course,
-                as: "course",
-                attributes: ["id", "code", "name"],
-              },
-              {
-                model: Teacher,
-                as: "teacher",
-                attributes: ["id", "name", "email"],
-              },
-            ],
-          },
-          {
-            model: Student,
-            as: "student",
-            attributes: ["id", "name", "roll_number", "email"],
-          },
-        ],
-        order: [["date", "DESC"]],
-      });
-
-      manualRecords = manualAttendance.map((record: any) => ({
-        id: record.id,
-        student_id: record.student_id,
-        student_name: record.student?.name || "Unknown",
-        roll_number: record.student?.roll_number || "N/A",
-        course_name: record.timetable?.course?.name || "Unknown",
-        course_code: record.timetable?.course?.code || "N/A",
-        date: record.date,
-        status: record.status,
-        method: "manual",
-        time_slot: record.timetable?.time_slot || null,
-        verified_by_face: false,
-        confidence_score: null,
-      }));
-    }
-
-    // Fetch smart attendance records
-    let smartRecords: any[] = [];
-    if (!method || method === 'all' || method === 'smart') {
-      const smartWhere: any = {};
-      if (schedule_id) {
-        smartWhere.timetable_id = schedule_id;
-      }
-      if (date) {
-        smartWhere.date = date;
-      }
-      if (start_date && end_date) {
-        smartWhere.date = {
-          [Op.between]: [start_date, end_date],
-        };
-      }
-      if (status && status !== 'all') {
-        smartWhere.status = status;
+    if (source && source !== 'all') {
+      if (!ATTENDANCE_SOURCES.includes(source as AttendanceSource)) {
+        return res.status(400).json({
+          success: false,
+          message: `source must be one of: ${ATTENDANCE_SOURCES.join(", ")}`,
+        });
       }
-
-      const smartAttendance = await SmartAttendanceRecord.findAll({
-        where: smartWhere,
-        include: [
-          {
-            model: Timetable,
-            as: "timetable",
-            where: timetableWhere,
-            include: [
-              {
-                model: Course,
-                as: "course",
-                attributes: ["id", "code", "name"],
-              },
-              {
-                model: Teacher,
-                as: "teacher",
-                attributes: ["id", "name", "email"],
-              },
-            ],
-          },
-          {
-            model: Student,
-            as: "student",
-            attributes: ["id", "name", "roll_number", "email"],
-          },
-        ],
-        order: [["date", "DESC"]],
-      });
-
-      smartRecords = smartAttendance.map((record: any) => ({
-        id: record.id,
-        student_id: record.student_id,
-        student_name: record.student?.name || "Unknown",
-        roll_number: record.student?.roll_number || "N/A",
-        course_name: record.timetable?.course?.name || "Unknown",
-        course_code: record.timetable?.course?.code || "N/A",
-        date: record.date,
-        status: record.status,
-        method: "smart",
-        time_slot: record.timetable?.time_slot || null,
-        verified_by_face: record.verified_by_face || false,
-        confidence_score: record.confidence_score || null,
-      }));
+      attendanceWhere.source = source;
+    } else if (method === 'manual') {
+      attendanceWhere.source = { [Op.in]: MANUAL_SOURCES };
+    } else if (method === 'smart') {
+      attendanceWhere.source = { [Op.notIn]: MANUAL_SOURCES };
     }
 
-    // Merge and sort by date (most recent first)
-    const allRecords = [...manualRecords, ...smartRecords].sort((a, b) => {
-      return new Date(b.date).getTime() - new Date(a.date).getTime();
+    const attendance = await Attendance.findAll({
+      where: attendanceWhere,
+      include: [
+        {
+          model: Timetable,
+          as: "timetable",
+          where: timetableWhere,
+          attributes: ["schedule_id", "start_time", "end_time"],
+          include: [
+            {
+              model: Course,
+              as: "course",
+              attributes: ["course_id", "course_code", "course_name"],
+            },
+            {
+              model: Teacher,
+              as: "teacher",
+              attributes: ["teacher_id", "name"],
+            },
+          ],
+        },
+        {
+          model: Student,
+          as: "student",
+          attributes: ["student_id", "name", "roll_number"],
+        },
+      ],
+      order: [["date", "DESC"]],
     });
 
-    // Calculate statistics
+    const records = attendance.map((record: any) => ({
+      id: record.attendance_id,
+      student_id: record.student_id,
+      student_name: record.student?.name || "Unknown",
+      roll_number: record.student?.roll_number || "N/A",
+      course_name: record.timetable?.course?.course_name || "Unknown",
+      course_code: record.timetable?.course?.course_code || "N/A",
+      date: record.date,
+      status: record.status,
+      source: record.source,
+      method: MANUAL_SOURCES.includes(record.source) ? "manual" : "smart",
+      time_slot: record.timetable
+        ? `${record.timetable.start_time} - ${record.timetable.end_time}`
+        : null,
+      session_id: record.session_id,
+      verified_by_face: record.verified_by_scan,
+      verified_by_class_photo: record.verified_by_class_photo,
+      confidence_score:
+        record.face_match_confidence === null ? null : Number(record.face_match_confidence),
+    }));
+
+    // Calculate statistics, weighting statuses per the status rules
+    const tally = AttendanceStatusService.tally(
+      await AttendanceStatusService.rules(),
+      records.map((r) => r.status)
+    );
+    const manual = records.filter((r) => r.method === "manual").length;
     const stats = {
-      total: allRecords.length,
-      present: allRecords.filter(r => r.status === 'present').length,
-      absent: allRecords.filter(r => r.status === 'absent').length,
-      manual: manualRecords.length,
-      smart: smartRecords.length,
-      attendance_rate: allRecords.length > 0 
-        ? (allRecords.filter(r => r.status === 'present').length / allRecords.length) * 100 
-        : 0,
+      total: records.length,
+      ...tally.status_counts,
+      manual,
+      smart: records.length - manual,
+      attendance_rate: tally.attendance_percentage,
     };
 
     console.log("✅ Unified attendance fetched:", { 
@@ -1202,9 +1218,9 @@ export const getUnifiedAttendance = async (req: Request, res: Response) => {
 
     res.json({
       success: true,
-      records: allRecords,
+      records,
       stats,
-      filters: { schedule_id, date, method, status, teacher_id, start_date, end_date },
+      filters: { schedule_id, date, method, source, status, teacher_id, start_date, end_date },
     });
   } catch (error) {
     console.error("❌ Error fetching unified attendance:", error);
@@ -1215,3 +1231,67 @@ export const getUnifiedAttendance = async (req: Request, res: Response) => {
     });
   }
 };
+
+/**
+ * Audit trail of attendance changes for a student and/or course (coordinator)
+ */
+export const getAttendanceAuditLog = async (req: Request, res: Response) => {
+  const { studentId, courseId, scheduleId, from, to, limit } =
+    req.query as Record<string, string>;
+  if (!studentId && !courseId && !scheduleId) {
+    return res.status(400).json({
+      message: "Provide studentId, courseId or scheduleId",
+    });
+  }
+
+  try {
+    const entries = await AttendanceAuditService.history({
+      studentId: studentId ? parseInt(studentId, 10) : undefined,
+      courseId: courseId ? parseInt(courseId, 10) : undefined,
+      scheduleId: scheduleId ? parseInt(scheduleId, 10) : undefined,
+      from,
+      to,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+    res.json(entries);
+  } catch (error) {
+    console.error("Error getting attendance audit log:", error);
+    res.status(500).json({
+      message: "Error fetching attendance audit log",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+/**
+ * Apply a batch of marks a teacher took offline. Sending the same batch_id
+ * again returns the first outcome without applying anything.
+ */
+export const syncOfflineAttendance = async (req: Request, res: Response) => {
+  try {
+    const result = await AttendanceSyncService.sync((req as any).user, req.body || {});
+    if (result.error) {
+      return res.status(400).json({ message: result.error });
+    }
+
+    const batch = result.batch!;
+    res.status(result.replayed ? 200 : 201).json({
+      batch_id: batch.batch_id,
+      replayed: result.replayed,
+      received_at: batch.received_at,
+      summary: {
+        marks: batch.mark_count,
+        applied: batch.applied_count,
+        conflicts: batch.conflict_count,
+        rejected: batch.rejected_count,
+      },
+      results: batch.results,
+    });
+  } catch (error) {
+    console.error("Error syncing offline attendance:", error);
+    res.status(500).json({
+      message: "Error syncing offline attendance",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
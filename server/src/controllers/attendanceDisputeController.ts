@@ -0,0 +1,186 @@
+import { Request, Response } from "express";
+import Student from "../models/Student";
+import Teacher from "../models/Teacher";
+import AttendanceDisputeService from "../services/AttendanceDisputeService";
+
+const DISPUTE_STATUSES = ["all", "open", "accepted", "rejected", "withdrawn"];
+const DECISIONS = ["accepted", "rejected"];
+
+const studentForUser = (userId: number) =>
+  Student.findOne({ where: { user_id: userId } });
+
+// Student disputes one of their attendance records, optionally with evidence
+export const createAttendanceDispute = async (req: Request, res: Response) => {
+  try {
+    const student = await studentForUser((req as any).user.user_id);
+    if (!student) {
+      return res.status(404).json({ message: "Student profile not found" });
+    }
+
+    const { dispute, error } = await AttendanceDisputeService.raise(
+      student,
+      req.body || {},
+      (req as any).file
+    );
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    res.status(201).json({ message: "Attendance dispute raised", dispute });
+  } catch (error: any) {
+    console.error("Create attendance dispute error:", error);
+    res.status(500).json({
+      message: "Error raising attendance dispute",
+      error: error.message,
+    });
+  }
+};
+
+// The signed-in student's own disputes
+export const getMyAttendanceDisputes = async (req: Request, res: Response) => {
+  try {
+    const student = await studentForUser((req as any).user.user_id);
+    if (!student) {
+      return res.status(404).json({ message: "Student profile not found" });
+    }
+
+    const disputes = await AttendanceDisputeService.list({
+      studentId: student.student_id,
+      status: (req.query.status as string) || "all",
+    });
+    res.status(200).json(disputes);
+  } catch (error: any) {
+    console.error("Get my attendance disputes error:", error);
+    res.status(500).json({
+      message: "Error retrieving attendance disputes",
+      error: error.message,
+    });
+  }
+};
+
+// Disputes to resolve; teachers see their own classes only
+export const getAttendanceDisputes = async (req: Request, res: Response) => {
+  const { status, studentId } = req.query as Record<string, string>;
+  if (status && !DISPUTE_STATUSES.includes(status)) {
+    return res.status(400).json({
+      message: `status must be one of: ${DISPUTE_STATUSES.join(", ")}`,
+    });
+  }
+
+  try {
+    const user = (req as any).user;
+    let teacherId: number | undefined;
+    if (user.role === "teacher") {
+      const teacher = await Teacher.findOne({ where: { user_id: user.user_id } });
+      if (!teacher) {
+        return res.status(404).json({ message: "Teacher profile not found" });
+      }
+      teacherId = teacher.teacher_id;
+    }
+
+    const disputes = await AttendanceDisputeService.list({
+      status: status || "open",
+      studentId: studentId ? parseInt(studentId, 10) : undefined,
+      teacherId,
+    });
+    res.status(200).json(disputes);
+  } catch (error: any) {
+    console.error("Get attendance disputes error:", error);
+    res.status(500).json({
+      message: "Error retrieving attendance disputes",
+      error: error.message,
+    });
+  }
+};
+
+// A dispute with a signed link to its evidence, for the student or a resolver
+export const getAttendanceDispute = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const dispute = await AttendanceDisputeService.find(parseInt(req.params.id, 10));
+    if (!dispute) {
+      return res.status(404).json({ message: "Attendance dispute not found" });
+    }
+
+    const isOwner = (dispute as any).student?.user_id === user.user_id;
+    if (!isOwner && !(await AttendanceDisputeService.canResolve(user, dispute))) {
+      return res
+        .status(403)
+        .json({ message: "You cannot view this attendance dispute" });
+    }
+
+    res.status(200).json({
+      ...dispute.toJSON(),
+      evidence: await AttendanceDisputeService.evidenceUrl(dispute),
+    });
+  } catch (error: any) {
+    console.error("Get attendance dispute error:", error);
+    res.status(500).json({
+      message: "Error retrieving attendance dispute",
+      error: error.message,
+    });
+  }
+};
+
+// Accept (correcting the record) or reject an open dispute
+export const resolveAttendanceDispute = async (req: Request, res: Response) => {
+  const { decision, note } = req.body || {};
+  if (!DECISIONS.includes(decision)) {
+    return res.status(400).json({
+      message: `decision must be one of: ${DECISIONS.join(", ")}`,
+    });
+  }
+
+  try {
+    const user = (req as any).user;
+    const dispute = await AttendanceDisputeService.find(parseInt(req.params.id, 10));
+    if (!dispute) {
+      return res.status(404).json({ message: "Attendance dispute not found" });
+    }
+    if (!(await AttendanceDisputeService.canResolve(user, dispute))) {
+      return res.status(403).json({
+        message: "Only the class teacher or a coordinator can resolve this dispute",
+      });
+    }
+
+    const result = await AttendanceDisputeService.resolve(dispute, user, decision, note);
+    if (result.error) {
+      return res.status(409).json({ message: result.error });
+    }
+
+    res.status(200).json({
+      message: `Attendance dispute ${decision}`,
+      dispute: result.dispute,
+    });
+  } catch (error: any) {
+    console.error("Resolve attendance dispute error:", error);
+    res.status(500).json({
+      message: "Error resolving attendance dispute",
+      error: error.message,
+    });
+  }
+};
+
+// Student withdraws an open dispute
+export const withdrawAttendanceDispute = async (req: Request, res: Response) => {
+  try {
+    const student = await studentForUser((req as any).user.user_id);
+    const dispute = await AttendanceDisputeService.find(parseInt(req.params.id, 10));
+    if (!dispute || !student || dispute.student_id !== student.student_id) {
+      return res.status(404).json({ message: "Attendance dispute not found" });
+    }
+
+    const result = await AttendanceDisputeService.withdraw(dispute);
+    if (result.error) {
+      return res.status(409).json({ message: result.error });
+    }
+
+    res.status(200).json({ message: "Attendance dispute withdrawn", dispute: result.dispute });
+  } catch (error: any) {
+    console.error("Withdraw attendance dispute error:", error);
+    res.status(500).json({
+      message: "Error withdrawing attendance dispute",
+      error: error.message,
+    });
+  }
+};
@@ -0,0 +1,288 @@
+import { Request, Response } from "express";
+import { ValidationError } from "sequelize";
+import AttendancePolicy, { PolicyScope } from "../models/AttendancePolicy";
+import AttendanceSession from "../models/AttendanceSession";
+import { ATTENDANCE_STATUSES } from "../models/AttendanceStatusRule";
+import Course from "../models/Course";
+import Department from "../models/Department";
+import Timetable from "../models/Timetable";
+import AttendancePolicyService from "../services/AttendancePolicyService";
+import AttendanceStatusService from "../services/AttendanceStatusService";
+
+const SCOPES: PolicyScope[] = ["institution", "department", "course", "session"];
+
+const optionalInt = (value: any) =>
+  value === undefined || value === null || value === ""
+    ? null
+    : parseInt(value, 10);
+
+const policyIncludes = [
+  { model: Department, as: "department", attributes: ["department_id", "name"] },
+  {
+    model: Course,
+    as: "course",
+    attributes: ["course_id", "course_code", "course_name", "department_id"],
+  },
+];
+
+// Get attendance policies, optionally for one scope
+export const getAttendancePolicies = async (req: Request, res: Response) => {
+  try {
+    const { scope } = req.query as Record<string, string>;
+    const policies = await AttendancePolicy.findAll({
+      where: scope ? { scope } : {},
+      include: policyIncludes,
+      order: [
+        ["scope", "ASC"],
+        ["policy_id", "ASC"],
+      ],
+    });
+
+    res.status(200).json(policies);
+  } catch (error: any) {
+    console.error("Get attendance policies error:", error);
+    res.status(500).json({
+      message: "Error retrieving attendance policies",
+      error: error.message,
+    });
+  }
+};
+
+// Create or update the policy for an institution, department, course or session
+export const saveAttendancePolicy = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { scope, notes } = req.body;
+
+  try {
+    let policy: AttendancePolicy | null = null;
+    if (id) {
+      policy = await AttendancePolicy.findByPk(id);
+      if (!policy) {
+        return res.status(404).json({ message: "Attendance policy not found" });
+      }
+    }
+
+    // The scope target can't change on update
+    const target = policy
+      ? {
+          scope: policy.scope,
+          department_id: policy.department_id,
+          course_id: policy.course_id,
+          session_id: policy.session_id,
+        }
+      : {
+          scope,
+          department_id:
+            scope === "department" ? optionalInt(req.body.department_id) : null,
+          course_id: scope === "course" ? optionalInt(req.body.course_id) : null,
+          session_id:
+            scope === "session" ? req.body.session_id?.trim() || null : null,
+        };
+
+    if (!SCOPES.includes(target.scope)) {
+      return res.status(400).json({
+        message: "scope must be 'institution', 'department', 'course' or 'session'",
+      });
+    }
+    if (
+      (target.scope === "department" && !target.department_id) ||
+      (target.scope === "course" && !target.course_id) ||
+      (target.scope === "session" && !target.session_id)
+    ) {
+      return res.status(400).json({
+        message: `${target.scope}_id is required for a ${target.scope} policy`,
+      });
+    }
+    if (
+      target.scope === "session" &&
+      !(await AttendanceSession.findOne({
+        where: { session_id: target.session_id! },
+      }))
+    ) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+
+    const { settings, error } = AttendancePolicyService.parseSettings(req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    if (target.scope === "institution") {
+      const missing = Object.entries(settings)
+        .filter(([, value]) => value === null)
+        .map(([field]) => field);
+      if (missing.length > 0) {
+        return res.status(400).json({
+          message: `The institution policy must set every value: ${missing.join(", ")}`,
+        });
+      }
+    }
+    if (target.scope === "session" && settings.min_attendance_percentage !== null) {
+      return res.status(400).json({
+        message: "The minimum attendance percentage is set per course, department or institution",
+      });
+    }
+
+    const values = {
+      ...settings,
+      notes: notes?.trim() || null,
+      updated_by: (req as any).user?.user_id ?? null,
+    };
+
+    if (!policy) {
+      const existing = await AttendancePolicy.findOne({ where: target });
+      if (existing) {
+        return res.status(409).json({
+          message: "A policy already exists for this scope; edit it instead",
+          policy: existing,
+        });
+      }
+      policy = await AttendancePolicy.create({ ...target, ...values });
+    } else {
+      await policy.update(values);
+    }
+
+    res.status(id ? 200 : 201).json({
+      message: "Attendance policy saved successfully",
+      policy,
+    });
+  } catch (error: any) {
+    console.error("Save attendance policy error:", error);
+    if (error instanceof ValidationError) {
+      return res
+        .status(400)
+        .json({ message: "Invalid attendance policy data", error: error.message });
+    }
+    res.status(500).json({
+      message: "Error saving attendance policy",
+      error: error.message,
+    });
+  }
+};
+
+// Delete a department, course or session policy so it inherits again
+export const deleteAttendancePolicy = async (req: Request, res: Response) => {
+  try {
+    const policy = await AttendancePolicy.findByPk(req.params.id);
+    if (!policy) {
+      return res.status(404).json({ message: "Attendance policy not found" });
+    }
+    if (policy.scope === "institution") {
+      return res
+        .status(400)
+        .json({ message: "The institution policy can be edited but not deleted" });
+    }
+
+    await policy.destroy();
+    res.status(200).json({ message: "Attendance policy deleted successfully" });
+  } catch (error: any) {
+    console.error("Delete attendance policy error:", error);
+    res.status(500).json({
+      message: "Error deleting attendance policy",
+      error: error.message,
+    });
+  }
+};
+
+// Effective policy for a class (schedule_id), session, course or department
+export const getEffectivePolicy = async (req: Request, res: Response) => {
+  const { session_id } = req.query as Record<string, string>;
+
+  try {
+    let scheduleId = optionalInt(req.query.schedule_id);
+    if (session_id) {
+      const session = await AttendanceSession.findOne({ where: { session_id } });
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      scheduleId = session.schedule_id;
+    }
+
+    let courseId = optionalInt(req.query.course_id);
+    if (scheduleId) {
+      const schedule = await Timetable.findByPk(scheduleId, {
+        attributes: ["schedule_id", "course_id"],
+      });
+      if (!schedule) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+      courseId = schedule.course_id;
+    }
+
+    let departmentId = optionalInt(req.query.department_id);
+    let course: Course | null = null;
+    if (courseId) {
+      course = await Course.findByPk(courseId, {
+        attributes: ["course_id", "course_code", "course_name", "department_id"],
+      });
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      departmentId = course.department_id;
+    }
+
+    const policy = await AttendancePolicyService.resolve({
+      departmentId,
+      courseId,
+      sessionId: session_id || null,
+    });
+
+    res.status(200).json({
+      target: {
+        schedule_id: scheduleId,
+        session_id: session_id || null,
+        course,
+        department_id: departmentId,
+      },
+      policy,
+    });
+  } catch (error: any) {
+    console.error("Get effective attendance policy error:", error);
+    res.status(500).json({
+      message: "Error resolving attendance policy",
+      error: error.message,
+    });
+  }
+};
+
+// How each attendance status counts towards the attendance percentage
+export const getAttendanceStatusRules = async (req: Request, res: Response) => {
+  try {
+    const rules = await AttendanceStatusService.rules();
+    res.status(200).json(Object.values(rules));
+  } catch (error: any) {
+    console.error("Get attendance status rules error:", error);
+    res.status(500).json({
+      message: "Error retrieving attendance status rules",
+      error: error.message,
+    });
+  }
+};
+
+// Change whether a status counts towards the percentage and its weight
+export const saveAttendanceStatusRule = async (req: Request, res: Response) => {
+  const { status } = req.params;
+  if (!AttendanceStatusService.isStatus(status)) {
+    return res.status(400).json({
+      message: `status must be one of: ${ATTENDANCE_STATUSES.join(", ")}`,
+    });
+  }
+
+  try {
+    const { rule, error } = await AttendanceStatusService.update(
+      status,
+      req.body || {},
+      (req as any).user?.user_id
+    );
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    res.status(200).json({ message: "Attendance status rule saved", rule });
+  } catch (error: any) {
+    console.error("Save attendance status rule error:", error);
+    res.status(500).json({
+      message: "Error saving attendance status rule",
+      error: error.message,
+    });
+  }
+};
@@ -0,0 +1,88 @@
+import { Request, Response } from "express";
+import User from "../models/User";
+import CalendarFeedService from "../services/CalendarFeedService";
+
+const feedUrls = (req: Request, token: string) => {
+  const url = `${req.protocol}://${req.get("host")}/api/calendar/feed/${token}.ics`;
+  return { url, webcal_url: url.replace(/^https?:/, "webcal:") };
+};
+
+// Get (creating on first use) the logged-in user's calendar subscription URL
+export const getCalendarFeedUrl = async (req: Request, res: Response) => {
+  try {
+    const user = await User.findByPk((req as any).user?.user_id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (user.role === "coordinator") {
+      return res.status(400).json({
+        message: "Calendar feeds are available to students and teachers",
+      });
+    }
+
+    const token = await CalendarFeedService.getOrCreateToken(user);
+    res.status(200).json(feedUrls(req, token));
+  } catch (error: any) {
+    console.error("Get calendar feed URL error:", error);
+    res.status(500).json({
+      message: "Error retrieving calendar feed URL",
+      error: error.message,
+    });
+  }
+};
+
+// Issue a new subscription URL; calendars using the old one stop updating
+export const regenerateCalendarFeedUrl = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const user = await User.findByPk((req as any).user?.user_id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (user.role === "coordinator") {
+      return res.status(400).json({
+        message: "Calendar feeds are available to students and teachers",
+      });
+    }
+
+    const token = await CalendarFeedService.regenerateToken(user);
+    res.status(200).json({
+      message: "Calendar feed URL regenerated",
+      ...feedUrls(req, token),
+    });
+  } catch (error: any) {
+    console.error("Regenerate calendar feed URL error:", error);
+    res.status(500).json({
+      message: "Error regenerating calendar feed URL",
+      error: error.message,
+    });
+  }
+};
+
+// Public .ics feed; the token in the URL is the only credential
+export const getCalendarFeed = async (req: Request, res: Response) => {
+  try {
+    const user = await CalendarFeedService.findUserByToken(req.params.token);
+    if (!user) {
+      return res.status(404).json({ message: "Calendar feed not found" });
+    }
+
+    const ics = await CalendarFeedService.buildFeed(user);
+    if (ics === null) {
+      return res.status(404).json({ message: "No timetable for this user" });
+    }
+
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Content-Disposition", 'inline; filename="timetable.ics"');
+    res.setHeader("Cache-Control", "private, max-age=900");
+    res.status(200).send(ics);
+  } catch (error: any) {
+    console.error("Calendar feed error:", error);
+    res.status(500).json({
+      message: "Error building calendar feed",
+      error: error.message,
+    });
+  }
+};
@@ -0,0 +1,112 @@
+import { Request, Response } from "express";
+import FraudDetectionService from "../services/FraudDetectionService";
+
+const REVIEW_STATUSES = ["open", "confirmed", "dismissed"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// A real calendar date in YYYY-MM-DD form
+const isDate = (value: any) =>
+  typeof value === "string" &&
+  DATE_PATTERN.test(value) &&
+  !isNaN(Date.parse(value)) &&
+  new Date(value).toISOString().slice(0, 10) === value;
+
+// List proxy-attendance findings for coordinator review
+export const getFraudFindings = async (req: Request, res: Response) => {
+  const { type, status, minScore, studentId, limit } = req.query as Record<
+    string,
+    string
+  >;
+
+  try {
+    const findings = await FraudDetectionService.list({
+      type,
+      status: status || "open",
+      minScore: minScore ? parseInt(minScore, 10) : undefined,
+      studentId: studentId ? parseInt(studentId, 10) : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+
+    res.status(200).json(findings);
+  } catch (error: any) {
+    console.error("Get fraud findings error:", error);
+    res.status(500).json({
+      message: "Error retrieving fraud findings",
+      error: error.message,
+    });
+  }
+};
+
+// A finding with the scan records and sessions behind it
+export const getFraudFinding = async (req: Request, res: Response) => {
+  try {
+    const finding = await FraudDetectionService.detail(
+      parseInt(req.params.id, 10)
+    );
+    if (!finding) {
+      return res.status(404).json({ message: "Fraud finding not found" });
+    }
+
+    res.status(200).json(finding);
+  } catch (error: any) {
+    console.error("Get fraud finding error:", error);
+    res.status(500).json({
+      message: "Error retrieving fraud finding",
+      error: error.message,
+    });
+  }
+};
+
+// Run the analysis now over an optional date range
+export const runFraudAnalysis = async (req: Request, res: Response) => {
+  const { from, to } = req.body || {};
+  for (const [name, value] of Object.entries({ from, to })) {
+    if (value !== undefined && value !== null && value !== "" && !isDate(value)) {
+      return res.status(400).json({ message: `${name} must be a date (YYYY-MM-DD)` });
+    }
+  }
+  if (from && to && from > to) {
+    return res.status(400).json({ message: "from must be on or before to" });
+  }
+
+  try {
+    const result = await FraudDetectionService.analyse({ from, to });
+    res.status(200).json({ message: "Fraud analysis complete", result });
+  } catch (error: any) {
+    console.error("Run fraud analysis error:", error);
+    res.status(500).json({
+      message: "Error running fraud analysis",
+      error: error.message,
+    });
+  }
+};
+
+// Confirm, dismiss or reopen a finding, with an optional note
+export const reviewFraudFinding = async (req: Request, res: Response) => {
+  const { status, note } = req.body || {};
+  if (!REVIEW_STATUSES.includes(status)) {
+    return res.status(400).json({
+      message: `status must be one of: ${REVIEW_STATUSES.join(", ")}`,
+    });
+  }
+
+  try {
+    const finding = await FraudDetectionService.review(
+      parseInt(req.params.id, 10),
+      (req as any).user.user_id,
+      status,
+      note
+    );
+    if (!finding) {
+      return res.status(404).json({ message: "Fraud finding not found" });
+    }
+
+    res.status(200).json({ message: "Fraud finding reviewed", finding });
+  } catch (error: any) {
+    console.error("Review fraud finding error:", error);
+    res.status(500).json({
+      message: "Error reviewing fraud finding",
+      error: error.message,
+    });
+  }
+};
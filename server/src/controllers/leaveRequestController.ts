@@ -0,0 +1,186 @@
+import { Request, Response } from "express";
+import Student from "../models/Student";
+import Teacher from "../models/Teacher";
+import LeaveRequestService from "../services/LeaveRequestService";
+
+const LEAVE_STATUSES = ["all", "pending", "approved", "rejected", "cancelled"];
+const DECISIONS = ["approved", "rejected"];
+
+const studentForUser = (userId: number) =>
+  Student.findOne({ where: { user_id: userId } });
+
+// Student files a leave request with an optional supporting document
+export const createLeaveRequest = async (req: Request, res: Response) => {
+  try {
+    const student = await studentForUser((req as any).user.user_id);
+    if (!student) {
+      return res.status(404).json({ message: "Student profile not found" });
+    }
+
+    const { leave, error } = await LeaveRequestService.submit(
+      student,
+      req.body || {},
+      (req as any).file
+    );
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    res.status(201).json({ message: "Leave request submitted", leave });
+  } catch (error: any) {
+    console.error("Create leave request error:", error);
+    res.status(500).json({
+      message: "Error submitting leave request",
+      error: error.message,
+    });
+  }
+};
+
+// The signed-in student's own requests
+export const getMyLeaveRequests = async (req: Request, res: Response) => {
+  try {
+    const student = await studentForUser((req as any).user.user_id);
+    if (!student) {
+      return res.status(404).json({ message: "Student profile not found" });
+    }
+
+    const leaves = await LeaveRequestService.list({
+      studentId: student.student_id,
+      status: (req.query.status as string) || "all",
+    });
+    res.status(200).json(leaves);
+  } catch (error: any) {
+    console.error("Get my leave requests error:", error);
+    res.status(500).json({
+      message: "Error retrieving leave requests",
+      error: error.message,
+    });
+  }
+};
+
+// Requests a teacher or coordinator can review; teachers see their sections only
+export const getLeaveRequests = async (req: Request, res: Response) => {
+  const { status, studentId } = req.query as Record<string, string>;
+  if (status && !LEAVE_STATUSES.includes(status)) {
+    return res.status(400).json({
+      message: `status must be one of: ${LEAVE_STATUSES.join(", ")}`,
+    });
+  }
+
+  try {
+    const user = (req as any).user;
+    let teacherId: number | undefined;
+    if (user.role === "teacher") {
+      const teacher = await Teacher.findOne({ where: { user_id: user.user_id } });
+      if (!teacher) {
+        return res.status(404).json({ message: "Teacher profile not found" });
+      }
+      teacherId = teacher.teacher_id;
+    }
+
+    const leaves = await LeaveRequestService.list({
+      status: status || "pending",
+      studentId: studentId ? parseInt(studentId, 10) : undefined,
+      teacherId,
+    });
+    res.status(200).json(leaves);
+  } catch (error: any) {
+    console.error("Get leave requests error:", error);
+    res.status(500).json({
+      message: "Error retrieving leave requests",
+      error: error.message,
+    });
+  }
+};
+
+// A request with a signed link to its document, for the student or a reviewer
+export const getLeaveRequest = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const leave = await LeaveRequestService.find(parseInt(req.params.id, 10));
+    if (!leave) {
+      return res.status(404).json({ message: "Leave request not found" });
+    }
+
+    const isOwner = (leave as any).student?.user_id === user.user_id;
+    if (!isOwner && !(await LeaveRequestService.canReview(user, leave))) {
+      return res
+        .status(403)
+        .json({ message: "You cannot view this leave request" });
+    }
+
+    res.status(200).json({
+      ...leave.toJSON(),
+      document: await LeaveRequestService.documentUrl(leave),
+    });
+  } catch (error: any) {
+    console.error("Get leave request error:", error);
+    res.status(500).json({
+      message: "Error retrieving leave request",
+      error: error.message,
+    });
+  }
+};
+
+// Approve or reject a pending request with a comment
+export const reviewLeaveRequest = async (req: Request, res: Response) => {
+  const { decision, comment } = req.body || {};
+  if (!DECISIONS.includes(decision)) {
+    return res.status(400).json({
+      message: `decision must be one of: ${DECISIONS.join(", ")}`,
+    });
+  }
+
+  try {
+    const user = (req as any).user;
+    const leave = await LeaveRequestService.find(parseInt(req.params.id, 10));
+    if (!leave) {
+      return res.status(404).json({ message: "Leave request not found" });
+    }
+    if (!(await LeaveRequestService.canReview(user, leave))) {
+      return res.status(403).json({
+        message: "Only a teacher of the student's section or a coordinator can review this request",
+      });
+    }
+
+    const result = await LeaveRequestService.review(leave, user, decision, comment);
+    if (result.error) {
+      return res.status(409).json({ message: result.error });
+    }
+
+    res.status(200).json({
+      message: `Leave request ${decision}`,
+      leave: result.leave,
+    });
+  } catch (error: any) {
+    console.error("Review leave request error:", error);
+    res.status(500).json({
+      message: "Error reviewing leave request",
+      error: error.message,
+    });
+  }
+};
+
+// Student withdraws a pending request
+export const cancelLeaveRequest = async (req: Request, res: Response) => {
+  try {
+    const student = await studentForUser((req as any).user.user_id);
+    const leave = await LeaveRequestService.find(parseInt(req.params.id, 10));
+    if (!leave || !student || leave.student_id !== student.student_id) {
+      return res.status(404).json({ message: "Leave request not found" });
+    }
+
+    const result = await LeaveRequestService.cancel(leave);
+    if (result.error) {
+      return res.status(409).json({ message: result.error });
+    }
+
+    res.status(200).json({ message: "Leave request cancelled", leave: result.leave });
+  } catch (error: any) {
+    console.error("Cancel leave request error:", error);
+    res.status(500).json({
+      message: "Error cancelling leave request",
+      error: error.message,
+    });
+  }
+};
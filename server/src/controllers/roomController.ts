@@ -0,0 +1,257 @@
+import { Request, Response } from "express";
+import { Op, ValidationError, UniqueConstraintError } from "sequelize";
+import Room from "../models/Room";
+import Department from "../models/Department";
+
+const ROOM_TYPES = ["lecture", "lab", "seminar"];
+
+// Normalise equipment input ("Projector, computers" or ["Projector"]) to lowercase tags
+const parseEquipment = (equipment: unknown): string[] | undefined => {
+  if (equipment === undefined || equipment === null) return undefined;
+  const tags = Array.isArray(equipment)
+    ? equipment
+    : String(equipment).split(",");
+  return Array.from(
+    new Set(
+      tags
+        .map((tag) => String(tag).trim().toLowerCase())
+        .filter((tag) => tag.length > 0)
+    )
+  );
+};
+
+// Get all rooms (optional filters: room_type, building, min_capacity, department_id, active)
+export const getAllRooms = async (req: Request, res: Response) => {
+  try {
+    const { room_type, building, min_capacity, department_id, active } =
+      req.query as Record<string, string | undefined>;
+
+    const where: any = {};
+    if (room_type) where.room_type = room_type;
+    if (building) where.building = building;
+    if (min_capacity) where.capacity = { [Op.gte]: parseInt(min_capacity, 10) };
+    if (department_id) where.department_id = department_id;
+    if (active !== undefined) where.is_active = active === "true";
+
+    const rooms = await Room.findAll({
+      where,
+      include: [
+        {
+          model: Department,
+          as: "department",
+          attributes: ["name"],
+        },
+      ],
+      order: [
+        ["building", "ASC"],
+        ["room_code", "ASC"],
+      ],
+    });
+
+    res.status(200).json(rooms);
+  } catch (error: any) {
+    console.error("Get rooms error:", error);
+    res
+      .status(500)
+      .json({ message: "Error retrieving rooms", error: error.message });
+  }
+};
+
+// Get room by ID
+export const getRoomById = async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const room = await Room.findByPk(id, {
+      include: [
+        {
+          model: Department,
+          as: "department",
+          attributes: ["name"],
+        },
+      ],
+    });
+
+    if (!room) {
+      return res.status(404).json({ message: "Room not found" });
+    }
+
+    res.status(200).json(room);
+  } catch (error: any) {
+    console.error("Get room error:", error);
+    res
+      .status(500)
+      .json({ message: "Error retrieving room", error: error.message });
+  }
+};
+
+// Create a new room
+export const createRoom = async (req: Request, res: Response) => {
+  const {
+    room_code,
+    building,
+    floor,
+    capacity,
+    room_type,
+    equipment,
+    department_id,
+    is_active,
+  } = req.body;
+
+  try {
+    if (!room_code || !building || !capacity) {
+      return res.status(400).json({
+        message: "room_code, building, and capacity are required",
+      });
+    }
+
+    if (room_type && !ROOM_TYPES.includes(room_type)) {
+      return res.status(400).json({
+        message: `room_type must be one of: ${ROOM_TYPES.join(", ")}`,
+      });
+    }
+
+    const capacityNum = parseInt(String(capacity), 10);
+    if (Number.isNaN(capacityNum) || capacityNum < 1) {
+      return res
+        .status(400)
+        .json({ message: "capacity must be a positive integer" });
+    }
+
+    const newRoom = await Room.create({
+      room_code: String(room_code).trim(),
+      building: String(building).trim(),
+      floor: floor !== undefined && floor !== "" ? parseInt(String(floor), 10) : null,
+      capacity: capacityNum,
+      room_type: room_type || "lecture",
+      equipment: parseEquipment(equipment) || [],
+      department_id: department_id ? parseInt(String(department_id), 10) : null,
+      is_active: is_active !== undefined ? is_active === true || is_active === "true" : true,
+    });
+
+    res.status(201).json({
+      message: "Room created successfully",
+      room: newRoom,
+    });
+  } catch (error: any) {
+    console.error("Create room error:", error);
+    if (error instanceof UniqueConstraintError) {
+      return res.status(409).json({
+        message: "Room code already exists",
+        error: error.message,
+      });
+    }
+    if (error instanceof ValidationError) {
+      return res
+        .status(400)
+        .json({ message: "Invalid room data", error: error.message });
+    }
+    res
+      .status(500)
+      .json({ message: "Error creating room", error: error.message });
+  }
+};
+
+// Update room
+export const updateRoom = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const {
+    room_code,
+    building,
+    floor,
+    capacity,
+    room_type,
+    equipment,
+    department_id,
+    is_active,
+  } = req.body;
+
+  try {
+    const room = await Room.findByPk(id);
+
+    if (!room) {
+      return res.status(404).json({ message: "Room not found" });
+    }
+
+    if (room_type && !ROOM_TYPES.includes(room_type)) {
+      return res.status(400).json({
+        message: `room_type must be one of: ${ROOM_TYPES.join(", ")}`,
+      });
+    }
+
+    let capacityNum: number | undefined = undefined;
+    if (capacity !== undefined) {
+      capacityNum = parseInt(String(capacity), 10);
+      if (Number.isNaN(capacityNum) || capacityNum < 1) {
+        return res
+          .status(400)
+          .json({ message: "capacity must be a positive integer" });
+      }
+    }
+
+    await room.update({
+      room_code: room_code !== undefined ? String(room_code).trim() : room.room_code,
+      building: building !== undefined ? String(building).trim() : room.building,
+      floor:
+        floor !== undefined
+          ? floor === "" || floor === null
+            ? null
+            : parseInt(String(floor), 10)
+          : room.floor,
+      capacity: capacityNum ?? room.capacity,
+      room_type: room_type ?? room.room_type,
+      equipment: parseEquipment(equipment) ?? room.equipment,
+      department_id:
+        department_id !== undefined
+          ? department_id
+            ? parseInt(String(department_id), 10)
+            : null
+          : room.department_id,
+      is_active: is_active !== undefined ? is_active === true || is_active === "true" : room.is_active,
+    });
+
+    res.status(200).json({
+      message: "Room updated successfully",
+      room,
+    });
+  } catch (error: any) {
+    console.error("Update room error:", error);
+    if (error instanceof UniqueConstraintError) {
+      return res.status(409).json({
+        message: "Room code already exists",
+        error: error.message,
+      });
+    }
+    if (error instanceof ValidationError) {
+      return res
+        .status(400)
+        .json({ message: "Invalid room data", error: error.message });
+    }
+    res
+      .status(500)
+      .json({ message: "Error updating room", error: error.message });
+  }
+};
+
+// Delete room
+export const deleteRoom = async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const room = await Room.findByPk(id);
+
+    if (!room) {
+      return res.status(404).json({ message: "Room not found" });
+    }
+
+    await room.destroy();
+
+    res.status(200).json({ message: "Room deleted successfully" });
+  } catch (error: any) {
+    console.error("Delete room error:", error);
+    res.status(500).json({
+      message: "Error deleting room",
+      error: error.message,
+    });
+  }
+};
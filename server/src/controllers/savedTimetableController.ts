@@ -1,5 +1,12 @@
 import { Request, Response } from "express";
-import { SavedTimetable } from "../models";
+import {
+  sequelize,
+  SavedTimetable,
+  SavedTimetableVersion,
+  Section,
+  User,
+} from "../models";
+import TimetableVersionService from "../services/TimetableVersionService";
 
 // Get all saved timetables
 export const getSavedTimetables = async (req: Request, res: Response) => {
@@ -69,14 +76,25 @@ export const createSavedTimetable = async (req: Request, res: Response) => {
       return res.status(400).json({ error: "Name and entries are required" });
     }
 
-    const savedTimetable = await SavedTimetable.create({
-      name,
-      semester: semester || "all",
-      department: department || "all",
-      section: section || "all",
-      entries,
-      gridSettings: gridSettings || {},
-      createdBy: userId,
+    const savedTimetable = await sequelize.transaction(async (transaction) => {
+      const created = await SavedTimetable.create(
+        {
+          name,
+          semester: semester || "all",
+          department: department || "all",
+          section: section || "all",
+          entries,
+          gridSettings: gridSettings || {},
+          createdBy: userId,
+        },
+        { transaction }
+      );
+      await TimetableVersionService.recordVersion(
+        created,
+        { changeType: "create", reason: req.body.reason, userId },
+        transaction
+      );
+      return created;
     });
 
     res.status(201).json({
@@ -96,22 +114,37 @@ export const createSavedTimetable = async (req: Request, res: Response) => {
 export const updateSavedTimetable = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { name, semester, department, section, entries, gridSettings } =
+    const { name, semester, department, section, entries, gridSettings, reason } =
       req.body;
+    const userId = (req as any).user?.user_id;
 
     const savedTimetable = await SavedTimetable.findByPk(id);
     if (!savedTimetable) {
       return res.status(404).json({ error: "Saved timetable not found" });
     }
 
-    await savedTimetable.update({
-      name: name || savedTimetable.name,
-      semester: semester !== undefined ? semester : savedTimetable.semester,
-      department:
-        department !== undefined ? department : savedTimetable.department,
-      section: section !== undefined ? section : savedTimetable.section,
-      entries: entries || savedTimetable.entries,
-      gridSettings: gridSettings || savedTimetable.gridSettings,
+    await sequelize.transaction(async (transaction) => {
+      await savedTimetable.update(
+        {
+          name: name || savedTimetable.name,
+          semester: semester !== undefined ? semester : savedTimetable.semester,
+          department:
+            department !== undefined ? department : savedTimetable.department,
+          section: section !== undefined ? section : savedTimetable.section,
+          entries: entries || savedTimetable.entries,
+          gridSettings: gridSettings || savedTimetable.gridSettings,
+        },
+        { transaction }
+      );
+
+      // Renames don't change the schedule, so only content edits get a version
+      if (entries || gridSettings) {
+        await TimetableVersionService.recordVersion(
+          savedTimetable,
+          { changeType: "edit", reason, userId },
+          transaction
+        );
+      }
     });
 
     res.json({
@@ -148,3 +181,225 @@ export const deleteSavedTimetable = async (req: Request, res: Response) => {
     });
   }
 };
+
+// List the version history of a saved timetable (newest first)
+export const getSavedTimetableVersions = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const savedTimetable = await SavedTimetable.findByPk(id);
+    if (!savedTimetable) {
+      return res.status(404).json({ error: "Saved timetable not found" });
+    }
+
+    const versions = await SavedTimetableVersion.findAll({
+      where: { saved_timetable_id: savedTimetable.id },
+      include: [{ model: User, as: "author", attributes: ["user_id", "email"] }],
+      order: [["version_number", "DESC"]],
+    });
+
+    res.json(
+      versions.map((version: any) => {
+        const { entries, ...rest } = version.toJSON();
+        return { ...rest, entriesCount: entries?.length || 0 };
+      })
+    );
+  } catch (error) {
+    console.error("Error fetching timetable versions:", error);
+    res.status(500).json({
+      error: "Failed to fetch timetable versions",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Get a single version with its entries
+export const getSavedTimetableVersion = async (req: Request, res: Response) => {
+  try {
+    const { id, versionNumber } = req.params;
+
+    const version = await SavedTimetableVersion.findOne({
+      where: { saved_timetable_id: id, version_number: versionNumber },
+      include: [{ model: User, as: "author", attributes: ["user_id", "email"] }],
+    });
+    if (!version) {
+      return res.status(404).json({ error: "Timetable version not found" });
+    }
+
+    res.json(version);
+  } catch (error) {
+    console.error("Error fetching timetable version:", error);
+    res.status(500).json({
+      error: "Failed to fetch timetable version",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Diff two versions: ?from=2&to=5 (to defaults to the latest version)
+export const diffSavedTimetableVersions = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const from = Number(req.query.from);
+    const to = req.query.to
+      ? Number(req.query.to)
+      : ((await SavedTimetableVersion.max("version_number", {
+          where: { saved_timetable_id: id },
+        })) as number | null);
+
+    if (!Number.isInteger(from) || !to) {
+      return res
+        .status(400)
+        .json({ error: "Query parameter 'from' must be a version number" });
+    }
+
+    const [fromVersion, toVersion] = await Promise.all([
+      SavedTimetableVersion.findOne({
+        where: { saved_timetable_id: id, version_number: from },
+      }),
+      SavedTimetableVersion.findOne({
+        where: { saved_timetable_id: id, version_number: to },
+      }),
+    ]);
+    if (!fromVersion || !toVersion) {
+      return res.status(404).json({ error: "Timetable version not found" });
+    }
+
+    res.json({
+      from_version: from,
+      to_version: to,
+      ...TimetableVersionService.diffEntries(
+        fromVersion.entries,
+        toVersion.entries
+      ),
+    });
+  } catch (error) {
+    console.error("Error diffing timetable versions:", error);
+    res.status(500).json({
+      error: "Failed to diff timetable versions",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Live timetable rows belong to a section, so only timetables saved for an
+// existing section's ID (not "all" or a section name) can be applied
+async function liveSectionId(savedTimetable: SavedTimetable): Promise<number | null> {
+  if (!/^\d+$/.test(String(savedTimetable.section).trim())) return null;
+  const section = await Section.findByPk(Number(savedTimetable.section));
+  return section ? section.section_id : null;
+}
+
+// Publish the current entries to the section's live timetable
+export const publishSavedTimetable = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+    const userId = (req as any).user?.user_id;
+
+    const savedTimetable = await SavedTimetable.findByPk(id);
+    if (!savedTimetable) {
+      return res.status(404).json({ error: "Saved timetable not found" });
+    }
+    const sectionId = await liveSectionId(savedTimetable);
+    if (!sectionId) {
+      return res.status(400).json({
+        error: `Only timetables saved for a single section can be published (section "${savedTimetable.section}" is not a section ID)`,
+      });
+    }
+
+    const result = await sequelize.transaction(async (transaction) => {
+      const live = await TimetableVersionService.applyToLive(
+        sectionId,
+        savedTimetable.entries,
+        transaction
+      );
+      const version = await TimetableVersionService.recordVersion(
+        savedTimetable,
+        { changeType: "publish", reason, userId },
+        transaction
+      );
+      return { live, version };
+    });
+
+    res.json({
+      message: `Published as version ${result.version.version_number}`,
+      version: result.version,
+      live: result.live,
+    });
+  } catch (error) {
+    console.error("Error publishing saved timetable:", error);
+    res.status(500).json({
+      error: "Failed to publish timetable",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Restore an earlier version as a new version and regenerate the live rows
+export const rollbackSavedTimetable = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { version_number, reason } = req.body;
+    const userId = (req as any).user?.user_id;
+
+    if (!version_number || !reason?.trim()) {
+      return res
+        .status(400)
+        .json({ error: "version_number and reason are required" });
+    }
+
+    const savedTimetable = await SavedTimetable.findByPk(id);
+    if (!savedTimetable) {
+      return res.status(404).json({ error: "Saved timetable not found" });
+    }
+    const target = await SavedTimetableVersion.findOne({
+      where: { saved_timetable_id: savedTimetable.id, version_number },
+    });
+    if (!target) {
+      return res.status(404).json({ error: "Timetable version not found" });
+    }
+    const sectionId = await liveSectionId(savedTimetable);
+    if (!sectionId) {
+      return res.status(400).json({
+        error: `Only timetables saved for a single section can be rolled back (section "${savedTimetable.section}" is not a section ID)`,
+      });
+    }
+
+    const result = await sequelize.transaction(async (transaction) => {
+      await savedTimetable.update(
+        { entries: target.entries, gridSettings: target.grid_settings },
+        { transaction }
+      );
+      const live = await TimetableVersionService.applyToLive(
+        sectionId,
+        target.entries,
+        transaction
+      );
+      const version = await TimetableVersionService.recordVersion(
+        savedTimetable,
+        {
+          changeType: "rollback",
+          reason: reason.trim(),
+          userId,
+          sourceVersion: target.version_number,
+        },
+        transaction
+      );
+      return { live, version };
+    });
+
+    res.json({
+      message: `Rolled back to version ${target.version_number} as version ${result.version.version_number}`,
+      timetable: savedTimetable,
+      version: result.version,
+      live: result.live,
+    });
+  } catch (error) {
+    console.error("Error rolling back saved timetable:", error);
+    res.status(500).json({
+      error: "Failed to roll back timetable",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
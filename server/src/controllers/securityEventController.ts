@@ -0,0 +1,47 @@
+import { Request, Response } from "express";
+import SecurityEventService from "../services/SecurityEventService";
+
+// List security events for coordinator review
+export const getSecurityEvents = async (req: Request, res: Response) => {
+  const { type, status, from, to, limit } = req.query as Record<string, string>;
+
+  try {
+    const events = await SecurityEventService.list({
+      type,
+      unreviewedOnly: status === "unreviewed",
+      from,
+      to,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+
+    res.status(200).json(events);
+  } catch (error: any) {
+    console.error("Get security events error:", error);
+    res.status(500).json({
+      message: "Error retrieving security events",
+      error: error.message,
+    });
+  }
+};
+
+// Mark a security event as reviewed, with an optional note
+export const reviewSecurityEvent = async (req: Request, res: Response) => {
+  try {
+    const event = await SecurityEventService.markReviewed(
+      parseInt(req.params.id, 10),
+      (req as any).user.user_id,
+      req.body?.note
+    );
+    if (!event) {
+      return res.status(404).json({ message: "Security event not found" });
+    }
+
+    res.status(200).json({ message: "Security event reviewed", event });
+  } catch (error: any) {
+    console.error("Review security event error:", error);
+    res.status(500).json({
+      message: "Error reviewing security event",
+      error: error.message,
+    });
+  }
+};
@@ -9,7 +9,7 @@ import {
   StudentScanRecord,
   TeacherClassCapture,
   DetectedClassFace,
-  SmartAttendanceRecord,
+  Attendance,
   Timetable,
   Student,
   User,
@@ -20,18 +20,258 @@ import {
 import { Op, QueryTypes } from "sequelize";
 import sequelize from "../config/database";
 import NotificationService from "../services/NotificationService";
-
-// JWT Secret for QR encryption (use env variable in production)
-const JWT_SECRET =
-  process.env.JWT_SECRET || "your-secret-key-change-in-production";
+import AcademicCalendarService from "../services/AcademicCalendarService";
+import SecurityEventService from "../services/SecurityEventService";
+import RotatingQRService, {
+  MIN_ROTATION_SECONDS,
+  MAX_ROTATION_SECONDS,
+} from "../services/RotatingQRService";
+import LivenessService from "../services/LivenessService";
+import FaceAssignmentService from "../services/FaceAssignmentService";
+import SessionRosterService from "../services/SessionRosterService";
+import StorageService from "../services/StorageService";
+import LeaveRequestService from "../services/LeaveRequestService";
+import AttendanceAuditService from "../services/AttendanceAuditService";
+import AttendanceLedgerService from "../services/AttendanceLedgerService";
+import SessionEventService from "../services/SessionEventService";
+import StudentDeviceService from "../services/StudentDeviceService";
+import FaceTemplateService from "../services/FaceTemplateService";
+import AttendancePolicyService, {
+  PolicySettings,
+} from "../services/AttendancePolicyService";
+import AttendancePolicy from "../models/AttendancePolicy";
+import { jwtSecret } from "../config/secrets";
+import { AttendanceStatus } from "../models/AttendanceStatusRule";
 
 // Constants
-const QR_EXPIRY_SECONDS = 300; // QR code expires in 300 seconds (5 minutes) - increased for testing
+// Geofence radius, face threshold, QR lifetime, scan timeout and the required
+// verification factors come from the session's AttendancePolicy
 const GRACE_PERIOD_SECONDS = 30; // Grace period for network latency and time sync (increased)
-const LOCATION_RADIUS_METERS = 100000; // 100km for testing (change to 100 in production)
-const FACE_MATCH_THRESHOLD = 0.6; // Cosine similarity threshold (0-1, higher is better)
-const SCAN_TIMEOUT_SECONDS = 60; // Face verification timeout in 60 seconds (increased for testing)
-const DISABLE_LOCATION_CHECK = true; // Set to false in production ⚠️
+
+/**
+ * QR image currently shown for a session. Rotating sessions get the code for
+ * the current time step; static sessions always show their one JWT.
+ */
+async function currentQR(session: AttendanceSession) {
+  if (!session.rotation_interval_seconds) {
+    return { qrCode: await QRCode.toDataURL(session.qr_token), rotation: null };
+  }
+
+  const interval = session.rotation_interval_seconds;
+  const step = RotatingQRService.stepAt(interval);
+  return {
+    qrCode: await QRCode.toDataURL(RotatingQRService.tokenFor(session, step)),
+    rotation: {
+      intervalSeconds: interval,
+      step,
+      nextRotationAt: RotatingQRService.stepEndsAt(interval, step).toISOString(),
+    },
+  };
+}
+
+/**
+ * Short-lived proof that a student scanned a session's QR code, required by
+ * verifyFace for rotating sessions so the session id alone isn't enough
+ */
+function issueScanTicket(
+  sessionId: string,
+  studentId: number,
+  policy: PolicySettings
+) {
+  return jwt.sign({ sessionId, studentId, purpose: "scan" }, jwtSecret(), {
+    expiresIn: policy.scan_timeout_seconds + GRACE_PERIOD_SECONDS,
+  });
+}
+
+/**
+ * Session details a student needs for the face step once their QR scan is
+ * accepted, with a liveness challenge when the policy requires one
+ */
+function scanSessionResponse(
+  session: AttendanceSession,
+  studentId: number,
+  policy: PolicySettings
+) {
+  return {
+    sessionId: session.session_id,
+    scheduleId: session.schedule_id,
+    locationLat: session.location_lat,
+    locationLng: session.location_lng,
+    expiresAt: session.expires_at,
+    scanTimeout: policy.scan_timeout_seconds,
+    requiredFactors: policy.required_factors,
+    scanTicket: issueScanTicket(session.session_id, studentId, policy),
+    liveness: AttendancePolicyService.requires(policy, "liveness")
+      ? LivenessService.issueChallenge(
+          session.session_id,
+          studentId,
+          policy.scan_timeout_seconds + GRACE_PERIOD_SECONDS
+        )
+      : null,
+  };
+}
+
+/**
+ * A scan as listed in the session status and pushed to the teacher's dashboard
+ */
+function scanSummary(
+  scan: StudentScanRecord,
+  student?: { name: string; roll_number: string } | null
+) {
+  return {
+    scanId: scan.scan_id,
+    studentId: scan.student_id,
+    studentName: student?.name || null,
+    rollNumber: student?.roll_number || null,
+    status: scan.status,
+    confidence: scan.face_match_confidence,
+    distance: Math.round(scan.distance_from_class || 0),
+    livenessPassed: scan.liveness_passed ?? null,
+    rejectionReason: scan.rejection_reason || null,
+  };
+}
+
+/**
+ * Push a verified or rejected scan to the session's dashboard and to the
+ * student. Rejections before a scan record exists (e.g. out of range) carry
+ * only the student and the reason.
+ */
+async function publishScan(
+  sessionId: string,
+  studentId: number,
+  scan: StudentScanRecord | null,
+  reason?: string
+) {
+  try {
+    const student = await Student.findByPk(studentId, {
+      attributes: ["student_id", "name", "roll_number"],
+    });
+    const type = scan?.status === "verified" ? "scan-verified" : "scan-rejected";
+    const summary = scan
+      ? scanSummary(scan, student)
+      : {
+          scanId: null,
+          studentId,
+          studentName: student?.name || null,
+          rollNumber: student?.roll_number || null,
+          status: "rejected",
+          rejectionReason: reason || null,
+        };
+    SessionEventService.toSession(sessionId, type, {
+      scan: summary,
+      reason: reason || summary.rejectionReason,
+    });
+    SessionEventService.toStudent(studentId, type, {
+      sessionId,
+      status: summary.status,
+      reason: reason || summary.rejectionReason,
+    });
+  } catch (error) {
+    // Live updates are best effort; the status endpoint stays authoritative
+    console.error("Failed to publish scan event:", error);
+  }
+}
+
+function validScanTicket(ticket: any, sessionId: string, studentId: number) {
+  try {
+    const decoded: any = jwt.verify(String(ticket || ""), jwtSecret());
+    return (
+      decoded.purpose === "scan" &&
+      decoded.sessionId === sessionId &&
+      decoded.studentId === studentId
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Claim the signing device for this student in the session. Returns true
+ * (after logging it) when the device already scanned for another student.
+ */
+async function deviceUsedByAnother(req: Request, sessionId: string) {
+  const device = (req as any).device;
+  if (!device) return false;
+
+  const studentId = (req as any).student.student_id;
+  const ownerId = await StudentDeviceService.claimForSession(
+    device.device_id,
+    sessionId,
+    studentId
+  );
+  if (ownerId === null) return false;
+
+  await SecurityEventService.record(req, {
+    type: "device_shared",
+    severity: "high",
+    claimedStudentId: studentId,
+    actualStudentId: ownerId,
+    sessionId,
+    details: { device_id: device.device_id },
+  });
+  return true;
+}
+
+const DEVICE_SHARED_ERROR =
+  "This device was already used to scan for another student in this session";
+
+/**
+ * Validate a rotating QR token: only the current and previous time steps are
+ * accepted, and scans using the previous step are counted as stale
+ */
+async function validateRotatingQR(req: Request, res: Response, qrToken: string) {
+  const token = RotatingQRService.parse(qrToken);
+  if (!token) {
+    return res.status(401).json({ error: "Invalid or expired QR code" });
+  }
+
+  const session = await AttendanceSession.findOne({
+    where: { session_id: token.sessionId },
+  });
+  if (!session || !session.rotation_interval_seconds) {
+    return res.status(404).json({ error: "Session not found" });
+  }
+  if (session.status !== "active") {
+    return res.status(403).json({ error: `Session is ${session.status}` });
+  }
+  const graceExpiresAt = new Date(
+    new Date(session.expires_at).getTime() + GRACE_PERIOD_SECONDS * 1000
+  );
+  if (new Date() > graceExpiresAt) {
+    await session.update({ status: "expired" });
+    return res.status(403).json({ error: "QR code has expired" });
+  }
+
+  const result = RotatingQRService.check(session, token);
+  console.log(`🔁 Rotating QR step ${token.step} for session ${session.session_id}: ${result}`);
+
+  if (result === "invalid") {
+    return res.status(401).json({ error: "Invalid or expired QR code" });
+  }
+  if (result === "expired") {
+    await session.increment("expired_step_rejections");
+    return res.status(403).json({
+      error:
+        "This QR code has already changed. Scan the code currently on the screen.",
+    });
+  }
+  if (result === "previous") {
+    await session.increment("stale_step_validations");
+  }
+  if (await deviceUsedByAnother(req, session.session_id)) {
+    return res.status(403).json({ error: DEVICE_SHARED_ERROR });
+  }
+
+  const policy = await AttendancePolicyService.forSession(session);
+  return res.status(200).json({
+    message: "QR code is valid",
+    session: scanSessionResponse(
+      session,
+      (req as any).student.student_id,
+      policy
+    ),
+  });
+}
 
 /**
  * Haversine formula to calculate distance between two coordinates in meters
@@ -107,35 +347,116 @@ function euclideanDistance(
   return Math.sqrt(sum);
 }
 
+/**
+ * Keep a scan's face image as dispute evidence. Storage problems are logged
+ * rather than failing the student's scan.
+ */
+async function storeScanImage(
+  sessionId: string,
+  studentId: number,
+  imageBase64: string | undefined
+): Promise<string | undefined> {
+  if (!imageBase64) return undefined;
+  try {
+    return await StorageService.saveImage(
+      `attendance-images/${sessionId}/${studentId}_${Date.now()}.jpg`,
+      imageBase64
+    );
+  } catch (error) {
+    console.error("❌ Error storing scan image:", error);
+    return undefined;
+  }
+}
+
+/**
+ * A class-photo face as shown to the teacher for review and manual tagging
+ */
+function classPhotoFaceResponse(face: DetectedClassFace) {
+  return {
+    detectionId: face.detection_id,
+    bbox: face.face_bbox,
+    studentId: face.matched_student_id ?? null,
+    confidence: face.confidence !== undefined ? Number(face.confidence) : null,
+    needsReview: !!face.needs_review,
+    manuallyTagged: !!face.tagged_by,
+    candidates: (face.match_candidates || []).map((candidate) => ({
+      studentId: candidate.student_id,
+      confidence: candidate.confidence,
+    })),
+  };
+}
+
 /**
  * Generate QR code for attendance session
  * POST /api/smart-attendance/generate-qr
- * Body: { scheduleId: number, teacherId: number, locationLat: number, locationLng: number }
+ * Body: { scheduleId: number, locationLat: number, locationLng: number, rotationIntervalSeconds?: number, policyOverrides?: object }
+ * The teacher is the logged-in user (resolved by the ownSchedule guard).
+ * With rotationIntervalSeconds the displayed code changes every interval.
+ * policyOverrides are saved as the session's own policy and may only tighten
+ * the course's effective policy.
  */
 export const generateAttendanceQR = async (req: Request, res: Response) => {
   try {
-    const { scheduleId, teacherId, locationLat, locationLng, forceNew } =
-      req.body;
+    const {
+      scheduleId,
+      locationLat,
+      locationLng,
+      forceNew,
+      rotationIntervalSeconds,
+      policyOverrides,
+    } = req.body;
+    const teacherId = (req as any).teacher.teacher_id;
 
     // Validate input
+    if (!scheduleId || locationLat === undefined || locationLng === undefined) {
+      return res.status(400).json({
+        error: "scheduleId, locationLat, and locationLng are required",
+      });
+    }
+
+    const rotationInterval =
+      rotationIntervalSeconds === undefined || rotationIntervalSeconds === null
+        ? null
+        : Number(rotationIntervalSeconds);
     if (
-      !scheduleId ||
-      !teacherId ||
-      locationLat === undefined ||
-      locationLng === undefined
+      rotationInterval !== null &&
+      (!Number.isInteger(rotationInterval) ||
+        rotationInterval < MIN_ROTATION_SECONDS ||
+        rotationInterval > MAX_ROTATION_SECONDS)
     ) {
       return res.status(400).json({
-        error:
-          "scheduleId, teacherId, locationLat, and locationLng are required",
+        error: `rotationIntervalSeconds must be a whole number from ${MIN_ROTATION_SECONDS} to ${MAX_ROTATION_SECONDS}`,
       });
     }
 
     // Verify schedule exists
-    const schedule = await Timetable.findByPk(scheduleId);
+    const schedule = await Timetable.findByPk(scheduleId, {
+      include: [
+        {
+          model: Course,
+          as: "course",
+          attributes: ["course_id", "department_id", "semester"],
+        },
+      ],
+    });
     if (!schedule) {
       return res.status(404).json({ error: "Schedule not found" });
     }
 
+    // No sessions on holidays, exam days or outside the term
+    const course = (schedule as any).course;
+    const dayStatus = await AcademicCalendarService.getDayStatus(
+      new Date().toISOString().split("T")[0],
+      { departmentId: course?.department_id, semester: course?.semester }
+    );
+    if (!dayStatus.teaching) {
+      return res.status(409).json({
+        error: "No classes today per the academic calendar",
+        reason: dayStatus.reason,
+        title: dayStatus.title,
+      });
+    }
+
     // First, mark any expired sessions as expired
     const expiredCount = await AttendanceSession.update(
       { status: "expired" },
@@ -185,6 +506,7 @@ export const generateAttendanceQR = async (req: Request, res: Response) => {
       console.log("♻️ Returning existing session - Expires At:", expiresAtISO);
       console.log("♻️ Current Time:", new Date().toISOString());
 
+      const { qrCode, rotation } = await currentQR(existingSession);
       return res.status(200).json({
         message: "Active session already exists",
         session: {
@@ -193,19 +515,41 @@ export const generateAttendanceQR = async (req: Request, res: Response) => {
           expiresAt: expiresAtISO,
           status: existingSession.status,
         },
-        qrCode: await QRCode.toDataURL(existingSession.qr_token),
+        qrCode,
+        rotation,
       });
     }
 
+    // Course/department policy, tightened by any overrides for this session
+    const basePolicy = await AttendancePolicyService.forSchedule(scheduleId);
+    const { settings: overrides, error: overrideError } =
+      AttendancePolicyService.parseSettings(policyOverrides);
+    if (overrideError) {
+      return res.status(400).json({ error: overrideError });
+    }
+    const loosened = AttendancePolicyService.loosenedFields(
+      basePolicy,
+      overrides
+    );
+    if (loosened.length > 0) {
+      return res.status(403).json({
+        error: "Session overrides can only make the attendance policy stricter",
+        fields: loosened,
+      });
+    }
+    const hasOverrides = Object.values(overrides).some((v) => v !== null);
+    const qrLifetimeSeconds =
+      overrides.qr_lifetime_seconds ?? basePolicy.qr_lifetime_seconds;
+
     // Create new session
     const sessionId = uuidv4();
     const now = new Date();
-    const expiresAt = new Date(now.getTime() + QR_EXPIRY_SECONDS * 1000); // seconds to milliseconds
+    const expiresAt = new Date(now.getTime() + qrLifetimeSeconds * 1000); // seconds to milliseconds
 
     console.log("🕐 Current Time (Date.now()):", new Date().toISOString());
     console.log("🕐 Current Time (now):", now.toISOString());
     console.log("🕐 Expires At (calculated):", expiresAt.toISOString());
-    console.log("🕐 Seconds to add:", QR_EXPIRY_SECONDS);
+    console.log("🕐 Seconds to add:", qrLifetimeSeconds);
 
     // Generate JWT token with session data
     // Add extra time to JWT to ensure it doesn't expire before our validation logic
@@ -218,8 +562,8 @@ export const generateAttendanceQR = async (req: Request, res: Response) => {
         locationLng,
         expiresAt: expiresAt.toISOString(),
       },
-      JWT_SECRET,
-      { expiresIn: `${QR_EXPIRY_SECONDS + GRACE_PERIOD_SECONDS + 60}s` } // JWT expires after QR + grace + buffer
+      jwtSecret(),
+      { expiresIn: `${qrLifetimeSeconds + GRACE_PERIOD_SECONDS + 60}s` } // JWT expires after QR + grace + buffer
     );
 
     // Save session to database
@@ -232,8 +576,21 @@ export const generateAttendanceQR = async (req: Request, res: Response) => {
       qr_token: qrToken,
       status: "active",
       expires_at: expiresAt,
+      rotation_secret: rotationInterval
+        ? RotatingQRService.createSecret()
+        : null,
+      rotation_interval_seconds: rotationInterval,
     });
 
+    if (hasOverrides) {
+      await AttendancePolicy.create({
+        scope: "session",
+        session_id: sessionId,
+        ...overrides,
+        updated_by: (req as any).user.user_id,
+      });
+    }
+
     console.log("💾 Saved to DB - expires_at:", session.expires_at);
     console.log("💾 Saved to DB - expires_at type:", typeof session.expires_at);
     console.log(
@@ -242,7 +599,7 @@ export const generateAttendanceQR = async (req: Request, res: Response) => {
     );
 
     // Generate QR code image as data URL
-    const qrCodeDataUrl = await QRCode.toDataURL(qrToken);
+    const { qrCode: qrCodeDataUrl, rotation } = await currentQR(session);
 
     // Ensure expiresAt is properly formatted as ISO string
     // Use the original expiresAt we calculated, not the one from database
@@ -264,7 +621,11 @@ export const generateAttendanceQR = async (req: Request, res: Response) => {
         status: session.status,
       },
       qrCode: qrCodeDataUrl,
-      expiresIn: QR_EXPIRY_SECONDS, // in seconds
+      rotation,
+      expiresIn: qrLifetimeSeconds, // in seconds
+      policy: hasOverrides
+        ? await AttendancePolicyService.forSession(session)
+        : basePolicy,
     });
   } catch (error: any) {
     console.error("Error generating QR code:", error);
@@ -289,10 +650,14 @@ export const validateQR = async (req: Request, res: Response) => {
       return res.status(400).json({ error: "QR token is required" });
     }
 
+    if (RotatingQRService.isRotatingToken(qrToken)) {
+      return validateRotatingQR(req, res, qrToken);
+    }
+
     // Verify JWT token
     let decoded: any;
     try {
-      decoded = jwt.verify(qrToken, JWT_SECRET);
+      decoded = jwt.verify(qrToken, jwtSecret());
       console.log("✅ QR Token decoded successfully:", {
         sessionId: decoded.sessionId,
         scheduleId: decoded.scheduleId,
@@ -335,6 +700,11 @@ export const validateQR = async (req: Request, res: Response) => {
       return res.status(403).json({ error: `Session is ${session.status}` });
     }
 
+    // Rotating sessions never display their static token
+    if (session.rotation_interval_seconds) {
+      return res.status(401).json({ error: "Invalid or expired QR code" });
+    }
+
     // Use JWT expiry time (UTC) instead of DB timestamp to avoid timezone issues
     const now = new Date();
     const expiresAt = new Date(jwtExpiresAt); // Use JWT token's UTC timestamp
@@ -393,20 +763,22 @@ export const validateQR = async (req: Request, res: Response) => {
       console.log("  Time remaining:", timeUntilExpiry.toFixed(2), "seconds");
     }
 
+    if (await deviceUsedByAnother(req, session.session_id)) {
+      return res.status(403).json({ error: DEVICE_SHARED_ERROR });
+    }
+
     console.log("✅ QR code is valid! Sending session data...");
     console.log("Total Scans in DB:", (session as any).total_scans);
     console.log("Total Verified in DB:", (session as any).total_verified);
 
+    const policy = await AttendancePolicyService.forSession(session);
     return res.status(200).json({
       message: "QR code is valid",
-      session: {
-        sessionId: session.session_id,
-        scheduleId: session.schedule_id,
-        locationLat: session.location_lat,
-        locationLng: session.location_lng,
-        expiresAt: session.expires_at,
-        scanTimeout: SCAN_TIMEOUT_SECONDS,
-      },
+      session: scanSessionResponse(
+        session,
+        (req as any).student.student_id,
+        policy
+      ),
     });
   } catch (error: any) {
     console.error("❌❌❌ FATAL ERROR validating QR code:", error);
@@ -423,23 +795,28 @@ export const validateQR = async (req: Request, res: Response) => {
 /**
  * Verify student face and create scan record
  * POST /api/smart-attendance/verify-face
- * Body: { sessionId: string, studentId: number, faceDescriptor: number[], faceImageBase64: string, locationLat: number, locationLng: number }
+ * Body: { sessionId: string, faceDescriptor: number[], faceImageBase64: string, locationLat: number, locationLng: number, scanTicket?: string, liveness: LivenessSummary }
+ * The student is the logged-in user (resolved by the bindStudent guard).
+ * When the session's policy requires liveness, scans without a passing
+ * liveness summary are recorded as rejected.
  */
 export const verifyFace = async (req: Request, res: Response) => {
   try {
     const {
       sessionId,
-      studentId,
       faceDescriptor,
       faceImageBase64,
       locationLat,
       locationLng,
+      scanTicket,
+      liveness,
     } = req.body;
+    const studentId = (req as any).student.student_id;
+    const deviceId = (req as any).device?.device_id ?? null;
 
     // Validate input
     if (
       !sessionId ||
-      !studentId ||
       !faceDescriptor ||
       !faceImageBase64 ||
       locationLat === undefined ||
@@ -447,7 +824,7 @@ export const verifyFace = async (req: Request, res: Response) => {
     ) {
       return res.status(400).json({
         error:
-          "sessionId, studentId, faceDescriptor, faceImageBase64, locationLat, and locationLng are required",
+          "sessionId, faceDescriptor, faceImageBase64, locationLat, and locationLng are required",
       });
     }
 
@@ -467,6 +844,16 @@ export const verifyFace = async (req: Request, res: Response) => {
         .json({ error: "Session is not active or has expired" });
     }
 
+    // Rotating sessions need proof of a recent QR scan, not just the session id
+    if (
+      session.rotation_interval_seconds &&
+      !validScanTicket(scanTicket, session.session_id, studentId)
+    ) {
+      return res.status(403).json({
+        error: "Scan the QR code on screen before verifying your face",
+      });
+    }
+
     // Don't check expiry time for face verification
     // QR validation already checked expiry, and face capture might take extra time
     // Just ensure session is still "active" status
@@ -475,6 +862,11 @@ export const verifyFace = async (req: Request, res: Response) => {
     console.log("  Status:", session.status);
     console.log("  ✅ Session is active, proceeding with face verification...");
 
+    // One device scans for one student per session
+    if (await deviceUsedByAnother(req, session.session_id)) {
+      return res.status(403).json({ error: DEVICE_SHARED_ERROR });
+    }
+
     // Check if student already scanned for this session
     const existingScan = await StudentScanRecord.findOne({
       where: {
@@ -490,6 +882,8 @@ export const verifyFace = async (req: Request, res: Response) => {
       });
     }
 
+    const policy = await AttendancePolicyService.forSession(session);
+
     // Verify location proximity
     const distance = calculateDistance(
       locationLat,
@@ -497,86 +891,126 @@ export const verifyFace = async (req: Request, res: Response) => {
       session.location_lat || 0,
       session.location_lng || 0
     );
+    const radius = policy.geofence_radius_meters;
 
-    // Skip location check if disabled for testing
-    if (!DISABLE_LOCATION_CHECK && distance > LOCATION_RADIUS_METERS) {
+    if (!AttendancePolicyService.requires(policy, "location")) {
+      console.log(
+        `⚠️ Location not required by policy. Distance: ${Math.round(
+          distance
+        )}m`
+      );
+    } else if (distance > radius) {
+      await publishScan(sessionId, studentId, null, "out_of_range");
       return res.status(403).json({
         error: `You are too far from the class location (${Math.round(
           distance
-        )}m away, must be within ${LOCATION_RADIUS_METERS}m)`,
+        )}m away, must be within ${radius}m)`,
         distance: Math.round(distance),
       });
-    }
-
-    if (DISABLE_LOCATION_CHECK) {
-      console.log(
-        `⚠️ Location check disabled for testing. Distance: ${Math.round(
-          distance
-        )}m`
-      );
     } else {
       console.log(
         `✅ Location verified. Distance: ${Math.round(
           distance
-        )}m (within ${LOCATION_RADIUS_METERS}m)`
+        )}m (within ${radius}m)`
       );
     }
 
-    // Get student's registered faces
-    const registeredFaces = await StudentFace.findAll({
-      where: {
+    // Liveness challenge: a printed photo or a phone screen can't follow the prompts
+    const livenessResult = AttendancePolicyService.requires(policy, "liveness")
+      ? await LivenessService.verify(
+          liveness,
+          session.session_id,
+          studentId,
+          faceDescriptor
+        )
+      : null;
+    if (livenessResult && !livenessResult.passed) {
+      console.log(
+        `❌ Liveness check failed for student ${studentId}: ${livenessResult.reason}`
+      );
+      const scanRecord = await StudentScanRecord.create({
+        session_id: sessionId,
         student_id: studentId,
-        is_active: true,
-      },
-    });
+        face_image_url: await storeScanImage(
+          sessionId,
+          studentId,
+          faceImageBase64
+        ),
+        face_descriptor: JSON.stringify(faceDescriptor),
+        location_lat: locationLat,
+        location_lng: locationLng,
+        distance_from_class: distance,
+        status: "rejected",
+        rejection_reason: `liveness_${livenessResult.reason}`,
+        liveness_passed: false,
+        liveness_result: livenessResult,
+        device_id: deviceId,
+      });
+      await publishScan(sessionId, studentId, scanRecord);
 
-    if (registeredFaces.length === 0) {
-      return res.status(404).json({
-        error: "No registered faces found. Please register your face first.",
+      return res.status(403).json({
+        error:
+          livenessResult.reason === "missing"
+            ? "Liveness check is required. Please update the app and follow the on-screen prompts."
+            : livenessResult.reason === "challenge_used"
+            ? "This liveness check was already used. Scan the QR code again."
+            : "Liveness check failed. Follow the on-screen prompts with your own face.",
+        liveness: livenessResult,
+        scan: scanRecord,
       });
     }
 
-    // Compare face with registered faces
-    let maxConfidence = 0;
-    let matchedFaceId: number | null = null;
+    // Compare face with the student's enrollment and adaptive templates
+    const match = await FaceTemplateService.match(studentId, faceDescriptor);
 
-    for (const registeredFace of registeredFaces) {
-      const registeredDescriptor = JSON.parse(registeredFace.face_descriptor);
-      const similarity = cosineSimilarity(faceDescriptor, registeredDescriptor);
-
-      if (similarity > maxConfidence) {
-        maxConfidence = similarity;
-        matchedFaceId = registeredFace.face_id;
-      }
+    const requireFace = AttendancePolicyService.requires(policy, "face");
+    if (match.templates === 0 && requireFace) {
+      return res.status(404).json({
+        error: "No registered faces found. Please register your face first.",
+      });
     }
 
+    const maxConfidence = match.confidence;
+    const matchedFaceId = match.face?.face_id ?? null;
+
     // Check if face matches (above threshold)
-    if (maxConfidence < FACE_MATCH_THRESHOLD) {
+    if (requireFace && maxConfidence < policy.face_match_threshold) {
       // Create rejected scan record
       const scanRecord = await StudentScanRecord.create({
         session_id: sessionId,
         student_id: studentId,
-        face_image_url: undefined, // Don't save rejected face
+        // Kept as evidence in case the student disputes the rejection
+        face_image_url: await storeScanImage(
+          sessionId,
+          studentId,
+          faceImageBase64
+        ),
         face_descriptor: JSON.stringify(faceDescriptor),
         location_lat: locationLat,
         location_lng: locationLng,
         distance_from_class: distance,
         face_match_confidence: maxConfidence,
         status: "rejected",
+        liveness_passed: livenessResult?.passed ?? null,
+        liveness_result: livenessResult,
+        device_id: deviceId,
       });
+      await publishScan(sessionId, studentId, scanRecord);
 
       return res.status(403).json({
         error: "Face verification failed. Face does not match registered face.",
         confidence: maxConfidence,
-        threshold: FACE_MATCH_THRESHOLD,
+        threshold: policy.face_match_threshold,
         scan: scanRecord,
       });
     }
 
-    // Face verified! Save image to storage (in production, upload to Supabase Storage)
-    // For now, we'll just store a placeholder URL
-    // TODO: Upload faceImageBase64 to Supabase Storage and get URL
-    const faceImageUrl = `storage/attendance-images/${sessionId}/${studentId}_${Date.now()}.jpg`;
+    // Face verified! Save image to storage
+    const faceImageUrl = await storeScanImage(
+      sessionId,
+      studentId,
+      faceImageBase64
+    );
 
     // Create verified scan record
     const scanRecord = await StudentScanRecord.create({
@@ -589,7 +1023,27 @@ export const verifyFace = async (req: Request, res: Response) => {
       distance_from_class: distance,
       face_match_confidence: maxConfidence,
       status: "verified",
+      liveness_passed: livenessResult?.passed ?? null,
+      liveness_result: livenessResult,
+      device_id: deviceId,
     });
+    await publishScan(sessionId, studentId, scanRecord);
+
+    // Template refresh and drift tracking shouldn't fail a verified scan
+    let reenrollmentReason: string | null = null;
+    if (match.face) {
+      try {
+        const profile = await FaceTemplateService.recordVerifiedScan(
+          scanRecord,
+          faceDescriptor,
+          match,
+          policy.face_match_threshold
+        );
+        reenrollmentReason = profile.reenrollment_reason;
+      } catch (error) {
+        console.error("Error updating face templates:", error);
+      }
+    }
 
     return res.status(201).json({
       message: "Face verified successfully!",
@@ -598,8 +1052,10 @@ export const verifyFace = async (req: Request, res: Response) => {
         confidence: scanRecord.face_match_confidence,
         distance: Math.round(distance),
         status: scanRecord.status,
+        livenessPassed: livenessResult?.passed ?? null,
       },
       matchedFaceId,
+      reenrollmentReason,
     });
   } catch (error: any) {
     console.error("Error verifying face:", error);
@@ -627,6 +1083,21 @@ export const processClassPhoto = async (req: Request, res: Response) => {
         error: "sessionId, imageBase64, and detectedFaces array are required",
       });
     }
+    if (
+      detectedFaces.some(
+        (face: any) =>
+          !Array.isArray(face?.descriptor) || face.descriptor.length !== 128
+      )
+    ) {
+      return res.status(400).json({
+        error: "Each detected face needs a 128-value descriptor",
+      });
+    }
+    if (!(await StorageService.isReadableImage(imageBase64))) {
+      return res.status(400).json({
+        error: "The class photo could not be read; upload a JPEG, PNG or WebP image",
+      });
+    }
 
     // Find session
     const session = await AttendanceSession.findOne({
@@ -642,8 +1113,14 @@ export const processClassPhoto = async (req: Request, res: Response) => {
       return res.status(403).json({ error: "Session is not active" });
     }
 
-    // Save class photo (TODO: Upload to Supabase Storage in production)
-    const imageUrl = `storage/attendance-images/${sessionId}/class_photo_${Date.now()}.jpg`;
+    const { face_match_threshold: faceMatchThreshold } =
+      await AttendancePolicyService.forSession(session);
+
+    // Save class photo
+    const imageUrl = await StorageService.saveImage(
+      `attendance-images/${sessionId}/class_photo_${Date.now()}.jpg`,
+      imageBase64
+    );
 
     // Create capture record
     const capture = await TeacherClassCapture.create({
@@ -653,41 +1130,60 @@ export const processClassPhoto = async (req: Request, res: Response) => {
       processed: false,
     });
 
-    // Get all registered student faces for this class
-    // TODO: Filter by students enrolled in the course
+    // Only students on this class's roster can be matched
+    const roster = await SessionRosterService.forSchedule(session.schedule_id);
     const registeredFaces = await StudentFace.findAll({
-      where: { is_active: true },
-      // Removed Student include - association not defined
+      where: {
+        is_active: true,
+        student_id: roster.map((student) => student.student_id),
+      },
     });
 
-    // Match each detected face with registered faces
-    const detectedFaceRecords: DetectedClassFace[] = [];
-    const matchedStudentIds = new Set<number>();
-
-    for (const detectedFace of detectedFaces) {
-      const { descriptor, bbox } = detectedFace;
+    const descriptorsByStudent = new Map<number, number[][]>();
+    for (const registeredFace of registeredFaces) {
+      const descriptors = descriptorsByStudent.get(registeredFace.student_id) || [];
+      descriptors.push(JSON.parse(registeredFace.face_descriptor));
+      descriptorsByStudent.set(registeredFace.student_id, descriptors);
+    }
+    const candidateStudentIds = Array.from(descriptorsByStudent.keys());
+
+    // Score each detected face against each student's best registered face
+    const scores = detectedFaces.map((detectedFace: any) =>
+      candidateStudentIds.map((studentId) =>
+        Math.max(
+          ...descriptorsByStudent
+            .get(studentId)!
+            .map((registered) =>
+              cosineSimilarity(detectedFace.descriptor, registered)
+            )
+        )
+      )
+    );
 
-      let maxConfidence = 0;
-      let matchedStudentId: number | undefined = undefined;
+    // Globally optimal one-to-one assignment of faces to students
+    const assignments = FaceAssignmentService.assign(scores, faceMatchThreshold);
 
-      // Compare with all registered faces
-      for (const registeredFace of registeredFaces) {
-        const registeredDescriptor = JSON.parse(registeredFace.face_descriptor);
-        const similarity = cosineSimilarity(descriptor, registeredDescriptor);
+    const detectedFaceRecords: DetectedClassFace[] = [];
+    const matchedStudentIds = new Set<number>();
 
-        if (similarity > maxConfidence && similarity >= FACE_MATCH_THRESHOLD) {
-          maxConfidence = similarity;
-          matchedStudentId = registeredFace.student_id;
-        }
-      }
+    for (const [index, detectedFace] of detectedFaces.entries()) {
+      const assignment = assignments[index];
+      const matchedStudentId =
+        assignment.column !== null
+          ? candidateStudentIds[assignment.column]
+          : undefined;
 
-      // Save detected face record
       const detectedFaceRecord = await DetectedClassFace.create({
         capture_id: capture.capture_id,
-        face_descriptor: JSON.stringify(descriptor),
-        face_bbox: bbox as any,
+        face_descriptor: JSON.stringify(detectedFace.descriptor),
+        face_bbox: detectedFace.bbox as any,
         matched_student_id: matchedStudentId,
-        confidence: maxConfidence,
+        confidence: assignment.score,
+        needs_review: assignment.nearTie,
+        match_candidates: assignment.candidates.map((candidate) => ({
+          student_id: candidateStudentIds[candidate.column],
+          confidence: candidate.score,
+        })),
       });
 
       detectedFaceRecords.push(detectedFaceRecord);
@@ -700,14 +1196,37 @@ export const processClassPhoto = async (req: Request, res: Response) => {
     // Update capture as processed
     await capture.update({ processed: true });
 
+    const needsReviewCount = detectedFaceRecords.filter(
+      (face) => face.needs_review
+    ).length;
+    console.log(
+      `📸 Class photo: ${detectedFaces.length} faces, ${matchedStudentIds.size} matched from a roster of ${roster.length}, ${needsReviewCount} near ties`
+    );
+
+    const captureSummary = {
+      captureId: capture.capture_id,
+      detectedFacesCount: detectedFaces.length,
+      matchedStudentsCount: matchedStudentIds.size,
+      unmatchedFacesCount: detectedFaces.length - matchedStudentIds.size,
+      needsReviewCount,
+      rosterSize: roster.length,
+    };
+    SessionEventService.toSession(session.session_id, "class-photo-processed", {
+      capture: captureSummary,
+      matchedStudentIds: Array.from(matchedStudentIds),
+    });
+
     return res.status(201).json({
       message: "Class photo processed successfully",
-      capture: {
-        captureId: capture.capture_id,
-        detectedFacesCount: detectedFaces.length,
-        matchedStudentsCount: matchedStudentIds.size,
-      },
+      capture: captureSummary,
       matchedStudentIds: Array.from(matchedStudentIds),
+      faces: detectedFaceRecords.map(classPhotoFaceResponse),
+      roster: roster.map((student) => ({
+        studentId: student.student_id,
+        name: student.name,
+        rollNumber: student.roll_number,
+        hasRegisteredFace: descriptorsByStudent.has(student.student_id),
+      })),
     });
   } catch (error: any) {
     console.error("Error processing class photo:", error);
@@ -715,6 +1234,93 @@ export const processClassPhoto = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Tag a class-photo face with a roster student by hand, or clear its match
+ * PUT /api/smart-attendance/session/:sessionId/class-photo/faces/:detectionId
+ * Body: { studentId: number | null }
+ */
+export const tagClassPhotoFace = async (req: Request, res: Response) => {
+  try {
+    const { sessionId, detectionId } = req.params;
+    const { studentId } = req.body;
+
+    const session = await AttendanceSession.findOne({
+      where: { session_id: sessionId },
+    });
+    if (!session) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+    if (session.status === "completed") {
+      return res
+        .status(409)
+        .json({ error: "Attendance already finalized for this session" });
+    }
+
+    const face = await DetectedClassFace.findByPk(detectionId);
+    const capture = face
+      ? await TeacherClassCapture.findOne({
+          where: { capture_id: face.capture_id, session_id: sessionId },
+        })
+      : null;
+    if (!face || !capture) {
+      return res.status(404).json({ error: "Face not found in this session" });
+    }
+
+    const taggedStudentId =
+      studentId === null || studentId === undefined || studentId === ""
+        ? null
+        : Number(studentId);
+
+    if (taggedStudentId !== null) {
+      const roster = await SessionRosterService.forSchedule(session.schedule_id);
+      if (!roster.some((student) => student.student_id === taggedStudentId)) {
+        return res
+          .status(400)
+          .json({ error: "Student is not on this class's roster" });
+      }
+
+      // Each student can be on at most one face per photo
+      const taken = await DetectedClassFace.findOne({
+        where: {
+          capture_id: face.capture_id,
+          matched_student_id: taggedStudentId,
+          detection_id: { [Op.ne]: face.detection_id },
+        },
+      });
+      if (taken) {
+        return res.status(409).json({
+          error: "This student is already tagged on another face in the photo",
+          detectionId: taken.detection_id,
+        });
+      }
+    }
+
+    await face.update({
+      matched_student_id: taggedStudentId,
+      needs_review: false,
+      tagged_by: (req as any).user.user_id,
+      tagged_at: new Date(),
+    });
+
+    const matchedFaces = await DetectedClassFace.findAll({
+      where: {
+        capture_id: face.capture_id,
+        matched_student_id: { [Op.ne]: null },
+      },
+      attributes: ["matched_student_id"],
+    });
+
+    return res.status(200).json({
+      message: taggedStudentId ? "Face tagged" : "Face match cleared",
+      face: classPhotoFaceResponse(face),
+      matchedStudentIds: matchedFaces.map((f) => f.matched_student_id),
+    });
+  } catch (error: any) {
+    console.error("Error tagging class photo face:", error);
+    return res.status(500).json({ error: "Failed to tag face" });
+  }
+};
+
 /**
  * Finalize attendance - cross-verify scans and class photo, mark attendance
  * POST /api/smart-attendance/finalize
@@ -775,6 +1381,12 @@ export const finalizeAttendance = async (req: Request, res: Response) => {
     const scannedStudentIds = new Set(
       verifiedScans.map((scan) => scan.student_id)
     );
+    const scanConfidence = new Map(
+      verifiedScans.map((scan) => [
+        scan.student_id,
+        scan.face_match_confidence ?? null,
+      ])
+    );
 
     // Get all students detected in class photo
     const classCaptures = await TeacherClassCapture.findAll({
@@ -787,7 +1399,7 @@ export const finalizeAttendance = async (req: Request, res: Response) => {
       const detectedFaces = await DetectedClassFace.findAll({
         where: {
           capture_id: capture.capture_id,
-          matched_student_id: { [Op.ne]: undefined },
+          matched_student_id: { [Op.ne]: null },
         },
       });
 
@@ -915,7 +1527,7 @@ export const finalizeAttendance = async (req: Request, res: Response) => {
         : new Set([...scannedStudentIds, ...detectedInPhotoStudentIds]);
 
     // Use studentStatuses from frontend if provided, otherwise use automatic logic
-    const finalStudentStatuses = new Map<number, "present" | "absent">();
+    const finalStudentStatuses = new Map<number, AttendanceStatus>();
 
     if (
       studentStatuses &&
@@ -937,14 +1549,21 @@ export const finalizeAttendance = async (req: Request, res: Response) => {
       }
     }
 
-    // Create attendance records
-    const attendanceRecords: SmartAttendanceRecord[] = [];
+    // Record the marks in the attendance ledger
+    const attendanceRecords: Attendance[] = [];
     const date = new Date(); // Today's date
     let presentCountFinal = 0;
     let absentCountFinal = 0;
 
+    // Students on approved leave are excused rather than absent; no absent
+    // notification goes out while a leave request is pending or approved
+    const leaveByStudent = await LeaveRequestService.leaveOn(
+      Array.from(allStudentIds),
+      date.toISOString().split("T")[0]
+    );
+
     for (const studentId of allStudentIds) {
-      const status = finalStudentStatuses.get(studentId) || "absent";
+      let status = finalStudentStatuses.get(studentId) || "absent";
       const verifiedByScan = scannedStudentIds.has(studentId);
       const verifiedByPhoto = detectedInPhotoStudentIds.has(studentId);
 
@@ -954,26 +1573,56 @@ export const finalizeAttendance = async (req: Request, res: Response) => {
         : "absent";
       const manuallyMarked = status !== automaticStatus;
 
+      const leaveStatus = leaveByStudent.get(studentId);
+      if (status === "absent" && leaveStatus === "approved") {
+        status = "excused";
+      }
+
       if (status === "present") {
         presentCountFinal++;
-      } else {
+      } else if (status === "absent") {
         absentCountFinal++;
       }
 
-      const record = await SmartAttendanceRecord.create({
-        session_id: sessionId,
-        student_id: studentId,
-        schedule_id: session.schedule_id,
-        date,
-        status,
-        verified_by_scan: verifiedByScan,
-        verified_by_class_photo: verifiedByPhoto,
-        manually_marked: manuallyMarked,
-        notification_sent: false,
-      });
+      const record = await AttendanceAuditService.withActor(
+        {
+          userId: (req as any).user?.user_id,
+          source: "smart_attendance",
+          reason:
+            leaveStatus === "approved" && status === "excused"
+              ? "On approved leave"
+              : manuallyMarked
+              ? "Adjusted by teacher at finalization"
+              : null,
+        },
+        async (transaction) =>
+          (
+            await AttendanceLedgerService.record(
+              {
+                schedule_id: session.schedule_id,
+                student_id: studentId,
+                date,
+                status,
+                source: manuallyMarked
+                  ? "manual"
+                  : verifiedByScan
+                  ? "qr_face"
+                  : verifiedByPhoto
+                  ? "class_photo"
+                  : "qr_face",
+                session_id: sessionId,
+                verified_by_scan: verifiedByScan,
+                verified_by_class_photo: verifiedByPhoto,
+                face_match_confidence: scanConfidence.get(studentId) ?? null,
+                marked_by_user_id: (req as any).user?.user_id,
+              },
+              transaction
+            )
+          ).record
+      );
 
       // Send notification for absent students
-      if (status === "absent" && timetableSlot?.course) {
+      if (status === "absent" && !leaveStatus && timetableSlot?.course) {
         try {
           await NotificationService.notifyAttendanceAbsent({
             studentId,
@@ -981,11 +1630,14 @@ export const finalizeAttendance = async (req: Request, res: Response) => {
             courseCode: timetableSlot.course.course_code || "N/A",
             date: date.toISOString().split("T")[0],
             timeSlot: timetableSlot.time_slot,
-            attendanceId: record.record_id,
+            attendanceId: record.attendance_id,
           });
           
           // Update notification_sent flag
-          await record.update({ notification_sent: true });
+          await record.update({
+            notification_sent: true,
+            notification_sent_at: new Date(),
+          });
           
           console.log(`📧 Notification sent to student ${studentId} for absence`);
         } catch (notificationError) {
@@ -1025,17 +1677,30 @@ export const finalizeAttendance = async (req: Request, res: Response) => {
     console.log(`Enrolled: ${allEnrolledStudentIds.length}`);
     console.log("==========================================\n");
 
+    const finalSummary = {
+      totalStudents: allStudentIds.size,
+      present: presentCountFinal, // Use actual final count
+      absent: absentCountFinal, // Use actual final count
+      scannedCount: scannedStudentIds.size,
+      detectedInPhotoCount: detectedInPhotoStudentIds.size,
+      crossVerifiedCount: verifiedPresentStudentIds.size,
+      enrolledCount: allEnrolledStudentIds.length,
+    };
+    SessionEventService.toSession(session.session_id, "session-finalized", {
+      summary: finalSummary,
+    });
+    attendanceRecords.forEach((record) =>
+      SessionEventService.toStudent(record.student_id, "session-finalized", {
+        sessionId: session.session_id,
+        scheduleId: session.schedule_id,
+        date: record.date,
+        status: record.status,
+      })
+    );
+
     return res.status(200).json({
       message: "Attendance finalized successfully",
-      summary: {
-        totalStudents: allStudentIds.size,
-        present: presentCountFinal, // Use actual final count
-        absent: absentCountFinal, // Use actual final count
-        scannedCount: scannedStudentIds.size,
-        detectedInPhotoCount: detectedInPhotoStudentIds.size,
-        crossVerifiedCount: verifiedPresentStudentIds.size,
-        enrolledCount: allEnrolledStudentIds.length,
-      },
+      summary: finalSummary,
       attendanceRecords: attendanceRecords.map((record) => {
         const student = studentMap.get(record.student_id);
         return {
@@ -1045,7 +1710,8 @@ export const finalizeAttendance = async (req: Request, res: Response) => {
           status: record.status,
           verifiedByScan: record.verified_by_scan,
           verifiedByPhoto: record.verified_by_class_photo,
-          manuallyMarked: record.manually_marked,
+          manuallyMarked: record.source === "manual",
+          source: record.source,
           verificationStatus:
             record.verified_by_scan && record.verified_by_class_photo
               ? "both"
@@ -1063,6 +1729,35 @@ export const finalizeAttendance = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Current QR code of a rotating session, polled by the teacher's display
+ * GET /api/smart-attendance/session/:sessionId/qr
+ */
+export const getCurrentQR = async (req: Request, res: Response) => {
+  try {
+    const session = await AttendanceSession.findOne({
+      where: { session_id: req.params.sessionId },
+    });
+
+    if (!session) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+    if (session.status !== "active") {
+      return res.status(409).json({ error: `Session is ${session.status}` });
+    }
+
+    const { qrCode, rotation } = await currentQR(session);
+    return res.status(200).json({
+      sessionId: session.session_id,
+      qrCode,
+      rotation,
+    });
+  } catch (error: any) {
+    console.error("Error getting current QR code:", error);
+    return res.status(500).json({ error: "Failed to get QR code" });
+  }
+};
+
 /**
  * Get session status and scanned students
  * GET /api/smart-attendance/session/:sessionId/status
@@ -1223,24 +1918,24 @@ export const getSessionStatus = async (req: Request, res: Response) => {
         isExpired,
         locationLat: session.location_lat,
         locationLng: session.location_lng,
+        rotation: session.rotation_interval_seconds
+          ? {
+              intervalSeconds: session.rotation_interval_seconds,
+              staleStepValidations: session.stale_step_validations || 0,
+              expiredStepRejections: session.expired_step_rejections || 0,
+            }
+          : null,
       },
       scans: {
         total: scans.length,
         verified: verifiedScans.length,
         rejected: scans.filter((scan) => scan.status === "rejected").length,
         pending: scans.filter((scan) => scan.status === "pending").length,
-        records: scans.map((scan) => {
-          const student = studentMap.get(scan.student_id);
-          return {
-            scanId: scan.scan_id,
-            studentId: scan.student_id,
-            studentName: student?.name || null,
-            rollNumber: student?.roll_number || null,
-            status: scan.status,
-            confidence: scan.face_match_confidence,
-            distance: Math.round(scan.distance_from_class || 0),
-          };
-        }),
+        livenessFailed: scans.filter((scan) => scan.liveness_passed === false)
+          .length,
+        records: scans.map((scan) =>
+          scanSummary(scan, studentMap.get(scan.student_id))
+        ),
       },
       eligibleStudents: allEligibleStudents.map((student) => ({
         studentId: student.student_id,
@@ -1264,57 +1959,87 @@ export const getSessionStatus = async (req: Request, res: Response) => {
 };
 
 /**
- * Register student's face
- * POST /api/smart-attendance/register-face
- * Body: { studentId: number, faceDescriptor: number[], imageBase64: string }
+ * Ticket for the live event stream of a session (teacher's dashboard)
+ * GET /api/smart-attendance/session/:sessionId/stream-ticket
  */
-export const registerStudentFace = async (req: Request, res: Response) => {
+export const getSessionStreamTicket = async (req: Request, res: Response) => {
   try {
-    const { studentId, faceDescriptor, imageBase64 } = req.body;
-
-    if (!studentId || !faceDescriptor || !imageBase64) {
-      return res.status(400).json({
-        error: "studentId, faceDescriptor, and imageBase64 are required",
-      });
+    const session = await AttendanceSession.findOne({
+      where: { session_id: req.params.sessionId },
+      attributes: ["session_id"],
+    });
+    if (!session) {
+      return res.status(404).json({ error: "Session not found" });
     }
 
-    // Verify student exists
-    const student = await Student.findByPk(studentId);
-    if (!student) {
-      return res.status(404).json({ error: "Student not found" });
-    }
+    return res.status(200).json(
+      SessionEventService.issueTicket(
+        `session:${session.session_id}`,
+        (req as any).user.user_id
+      )
+    );
+  } catch (error: any) {
+    console.error("Error issuing session stream ticket:", error);
+    return res.status(500).json({ error: "Failed to open live updates" });
+  }
+};
 
-    // Save image (TODO: Upload to Supabase Storage in production)
-    const imageUrl = `storage/student-faces/${studentId}_${Date.now()}.jpg`;
+/**
+ * Ticket for the logged-in student's own event stream
+ * GET /api/smart-attendance/student/stream-ticket
+ */
+export const getStudentStreamTicket = async (req: Request, res: Response) => {
+  const student = (req as any).student;
+  return res.status(200).json(
+    SessionEventService.issueTicket(
+      `student:${student.student_id}`,
+      (req as any).user.user_id
+    )
+  );
+};
 
-    // Check if student already has 5 or more registered faces
-    const existingFaces = await StudentFace.findAll({
-      where: { student_id: studentId, is_active: true },
-    });
+/**
+ * Server-sent event stream for the room named in a stream ticket
+ * GET /api/smart-attendance/stream?ticket=
+ */
+export const streamSessionEvents = (req: Request, res: Response) => {
+  const room = SessionEventService.verifyTicket(req.query.ticket as string);
+  if (!room) {
+    return res.status(401).json({ error: "Invalid or expired stream ticket" });
+  }
+  SessionEventService.subscribe(room, res);
+};
 
-    if (existingFaces.length >= 5) {
-      return res.status(400).json({
-        error:
-          "Maximum 5 faces can be registered. Please delete old faces first.",
-      });
-    }
+/**
+ * Enroll the student's face from one sample per pose
+ * POST /api/smart-attendance/register-face
+ * Body: { samples: [{ pose, faceDescriptor, imageBase64, box, yaw, pitch, detectionScore }] }
+ * The student is the logged-in user (resolved by the bindStudent guard).
+ * Samples are scored for sharpness, face size and pose; when enough pass they
+ * replace the student's templates, otherwise nothing changes and the response
+ * says which samples to retake.
+ */
+export const registerStudentFace = async (req: Request, res: Response) => {
+  try {
+    const { faces, results, error } = await FaceTemplateService.enroll(
+      (req as any).student,
+      req.body?.samples
+    );
 
-    // Create face record
-    const faceRecord = await StudentFace.create({
-      student_id: studentId,
-      face_descriptor: JSON.stringify(faceDescriptor),
-      image_url: imageUrl,
-      is_active: true,
-    });
+    if (error) {
+      return res.status(results.length > 0 ? 422 : 400).json({ error, results });
+    }
 
     return res.status(201).json({
-      message: "Face registered successfully",
-      face: {
-        faceId: faceRecord.face_id,
-        studentId: faceRecord.student_id,
-        registeredAt: faceRecord.registered_at,
-      },
-      totalRegisteredFaces: existingFaces.length + 1,
+      message: "Face enrolled successfully",
+      faces: faces!.map((face) => ({
+        faceId: face.face_id,
+        pose: face.pose,
+        qualityScore: face.quality_score,
+        registeredAt: face.registered_at,
+      })),
+      results,
+      totalRegisteredFaces: faces!.length,
     });
   } catch (error: any) {
     console.error("Error registering face:", error);
@@ -1328,6 +2053,7 @@ export const registerStudentFace = async (req: Request, res: Response) => {
  */
 export const getStudentFaces = async (req: Request, res: Response) => {
   try {
+    // Students are held to their own id by the bindStudent guard
     const { studentId } = req.params;
 
     const faces = await StudentFace.findAll({
@@ -1338,11 +2064,19 @@ export const getStudentFaces = async (req: Request, res: Response) => {
     return res.status(200).json({
       studentId: parseInt(studentId),
       totalFaces: faces.length,
-      faces: faces.map((face) => ({
-        faceId: face.face_id,
-        imageUrl: face.image_url,
-        registeredAt: face.registered_at,
-      })),
+      templates: await FaceTemplateService.summary(parseInt(studentId)),
+      faces: await Promise.all(
+        faces.map(async (face) => ({
+          faceId: face.face_id,
+          source: face.source,
+          pose: face.pose ?? null,
+          qualityScore: face.quality_score ?? null,
+          ...(face.image_url && !face.image_purged_at
+            ? await StorageService.signedImage(face.image_url)
+            : { imageUrl: null, thumbnailUrl: null }),
+          registeredAt: face.registered_at,
+        }))
+      ),
     });
   } catch (error: any) {
     console.error("Error getting student faces:", error);
@@ -1364,8 +2098,23 @@ export const deleteStudentFace = async (req: Request, res: Response) => {
       return res.status(404).json({ error: "Face not found" });
     }
 
+    const student = (req as any).student;
+    if (student && face.student_id !== student.student_id) {
+      await SecurityEventService.record(req, {
+        type: "identity_mismatch",
+        severity: "high",
+        claimedStudentId: face.student_id,
+        actualStudentId: student.student_id,
+        details: { face_id: face.face_id },
+      });
+      return res
+        .status(403)
+        .json({ error: "You can only delete your own registered faces" });
+    }
+
     // Soft delete (deactivate)
-    await face.update({ is_active: false });
+    // The enrollment image is purged once the retention period has passed
+    await face.update({ is_active: false, updated_at: new Date() });
 
     return res.status(200).json({
       message: "Face deleted successfully",
@@ -32,7 +32,8 @@ export const getLiveStats = async (req: Request, res: Response) => {
       { type: QueryTypes.SELECT }
     )) as [{ count: string }];
 
-    // Get active classes (classes scheduled for today)
+    // Get active classes (classes meeting today per the academic calendar;
+    // a make-up day runs the timetable of the weekday it follows)
     const dayNames = [
       "Sunday",
       "Monday",
@@ -45,21 +46,32 @@ export const getLiveStats = async (req: Request, res: Response) => {
     const today = dayNames[new Date().getDay()];
 
     const activeClassesResult = (await sequelize.query(
-      `SELECT COUNT(*) as count FROM timetable 
-       WHERE day_of_week = ?`,
+      `SELECT COUNT(*) as count FROM timetable t
+       JOIN courses c ON t.course_id = c.course_id
+       WHERE t.day_of_week = COALESCE(
+           (SELECT e.follows_day_of_week FROM academic_calendar_events e
+             WHERE e.event_type = 'makeup_day'
+               AND CURRENT_DATE BETWEEN e.start_date AND e.end_date
+               AND (e.department_id IS NULL OR e.department_id = c.department_id)
+               AND (e.semester IS NULL OR e.semester = c.semester)
+             LIMIT 1),
+           ?)
+         AND is_teaching_day(CURRENT_DATE, c.department_id, c.semester)
+         AND (t.effective_from IS NULL OR t.effective_from <= CURRENT_DATE)
+         AND (t.effective_to IS NULL OR t.effective_to >= CURRENT_DATE)`,
       {
         replacements: [today],
         type: QueryTypes.SELECT,
       }
     )) as [{ count: string }];
 
-    // Calculate attendance rate (average attendance for the current month)
+    // Calculate attendance rate (average attendance for the current month, weighted per the status rules)
     const attendanceRateResult = (await sequelize.query(
       `SELECT 
          COALESCE(
            ROUND(
-             (COUNT(CASE WHEN status = 'present' THEN 1 END) * 100.0 / 
-              NULLIF(COUNT(*), 0)
+             (SUM(attendance_credit(status)) * 100.0 /
+              NULLIF(COUNT(attendance_credit(status)), 0)
              ), 1
            ), 0
          ) as rate 
@@ -0,0 +1,153 @@
+import { Request, Response } from "express";
+import path from "path";
+import StudentFace from "../models/StudentFace";
+import StudentScanRecord from "../models/StudentScanRecord";
+import TeacherClassCapture from "../models/TeacherClassCapture";
+import StorageService from "../services/StorageService";
+import LocalStorageDriver from "../services/storage/LocalStorageDriver";
+
+// Stored images are JPEGs; leave documents keep their own format
+const CONTENT_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+};
+
+// Signed URLs for a stored image, or why there is none
+const evidence = async (
+  res: Response,
+  key: string | null | undefined,
+  purgedAt: Date | null | undefined,
+  details: Record<string, any>
+) => {
+  if (!key) {
+    return res
+      .status(404)
+      .json({ message: "No image was stored for this record", ...details });
+  }
+  if (purgedAt) {
+    return res.status(410).json({
+      message: "The image was deleted under the retention policy",
+      purged_at: purgedAt,
+      ...details,
+    });
+  }
+
+  res.status(200).json({
+    ...details,
+    ...(await StorageService.signedImage(key)),
+  });
+};
+
+// Face image captured during a smart-attendance scan
+export const getScanEvidence = async (req: Request, res: Response) => {
+  try {
+    const scan = await StudentScanRecord.findByPk(req.params.scanId);
+    if (!scan) {
+      return res.status(404).json({ message: "Scan not found" });
+    }
+
+    await evidence(res, scan.face_image_url, scan.image_purged_at, {
+      scan_id: scan.scan_id,
+      session_id: scan.session_id,
+      student_id: scan.student_id,
+      status: scan.status,
+      scanned_at: scan.scan_timestamp,
+    });
+  } catch (error: any) {
+    console.error("Get scan evidence error:", error);
+    res.status(500).json({
+      message: "Error retrieving scan image",
+      error: error.message,
+    });
+  }
+};
+
+// Class photo taken by the teacher
+export const getCaptureEvidence = async (req: Request, res: Response) => {
+  try {
+    const capture = await TeacherClassCapture.findByPk(req.params.captureId);
+    if (!capture) {
+      return res.status(404).json({ message: "Class photo not found" });
+    }
+
+    await evidence(res, capture.image_url, capture.image_purged_at, {
+      capture_id: capture.capture_id,
+      session_id: capture.session_id,
+      captured_at: capture.capture_timestamp,
+    });
+  } catch (error: any) {
+    console.error("Get class photo evidence error:", error);
+    res.status(500).json({
+      message: "Error retrieving class photo",
+      error: error.message,
+    });
+  }
+};
+
+// A student's face enrollment image
+export const getFaceEvidence = async (req: Request, res: Response) => {
+  try {
+    const face = await StudentFace.findByPk(req.params.faceId);
+    if (!face) {
+      return res.status(404).json({ message: "Face not found" });
+    }
+
+    await evidence(res, face.image_url, face.image_purged_at, {
+      face_id: face.face_id,
+      student_id: face.student_id,
+      is_active: face.is_active,
+      registered_at: face.registered_at,
+    });
+  } catch (error: any) {
+    console.error("Get face evidence error:", error);
+    res.status(500).json({
+      message: "Error retrieving face image",
+      error: error.message,
+    });
+  }
+};
+
+// Run the biometric image retention purge now
+export const purgeExpiredImages = async (req: Request, res: Response) => {
+  try {
+    const result = await StorageService.purgeExpiredImages();
+    res.status(200).json({ message: "Expired images purged", ...result });
+  } catch (error: any) {
+    console.error("Purge expired images error:", error);
+    res.status(500).json({
+      message: "Error purging expired images",
+      error: error.message,
+    });
+  }
+};
+
+// Serve a file from the local driver; the signed URL is the credential
+export const getSignedFile = async (req: Request, res: Response) => {
+  const key = req.params[0];
+  const { expires, signature } = req.query as Record<string, string>;
+
+  try {
+    if (StorageService.driver().name !== "local") {
+      return res.status(404).json({ message: "File not found" });
+    }
+    if (!LocalStorageDriver.verify(key, Number(expires), signature)) {
+      return res.status(403).json({ message: "This link is invalid or has expired" });
+    }
+
+    const file = await StorageService.driver().get(key);
+    if (!file) {
+      return res.status(404).json({ message: "File not found" });
+    }
+
+    const extension = path.extname(key).toLowerCase();
+    res.setHeader("Content-Type", CONTENT_TYPES[extension] || "image/jpeg");
+    res.setHeader("Cache-Control", "private, no-store");
+    res.status(200).send(file);
+  } catch (error: any) {
+    console.error("Get stored file error:", error);
+    res.status(500).json({
+      message: "Error retrieving file",
+      error: error.message,
+    });
+  }
+};
@@ -0,0 +1,173 @@
+import { Request, Response } from "express";
+import Student from "../models/Student";
+import StudentDevice from "../models/StudentDevice";
+import StudentDeviceService from "../services/StudentDeviceService";
+
+const DEVICE_STATUSES = ["all", "pending", "active", "rejected", "revoked"];
+
+const studentForUser = (userId: number) =>
+  Student.findOne({ where: { user_id: userId } });
+
+// Public keys stay on the server; clients only need the fingerprint
+const withoutKey = (device: StudentDevice) => {
+  const { public_key, ...rest } = device.toJSON() as any;
+  return rest;
+};
+
+// Student registers this browser's public key
+export const registerStudentDevice = async (req: Request, res: Response) => {
+  try {
+    const student = await studentForUser((req as any).user.user_id);
+    if (!student) {
+      return res.status(404).json({ message: "Student profile not found" });
+    }
+
+    const { device, error } = await StudentDeviceService.register(
+      req,
+      student,
+      req.body || {}
+    );
+    if (error) {
+      return res.status(error.includes("another student") ? 409 : 400).json({ message: error });
+    }
+
+    res.status(201).json({
+      message:
+        device!.status === "active"
+          ? "Device registered"
+          : "Device change sent to a coordinator for approval",
+      device: withoutKey(device!),
+    });
+  } catch (error: any) {
+    console.error("Register student device error:", error);
+    res.status(500).json({
+      message: "Error registering device",
+      error: error.message,
+    });
+  }
+};
+
+// The signed-in student's own devices
+export const getMyStudentDevices = async (req: Request, res: Response) => {
+  try {
+    const student = await studentForUser((req as any).user.user_id);
+    if (!student) {
+      return res.status(404).json({ message: "Student profile not found" });
+    }
+
+    const devices = await StudentDeviceService.list({ studentId: student.student_id });
+    res.status(200).json(devices);
+  } catch (error: any) {
+    console.error("Get my devices error:", error);
+    res.status(500).json({
+      message: "Error retrieving devices",
+      error: error.message,
+    });
+  }
+};
+
+// Devices for coordinators to review, pending first by default
+export const getStudentDevices = async (req: Request, res: Response) => {
+  const { status, studentId } = req.query as Record<string, string>;
+  if (status && !DEVICE_STATUSES.includes(status)) {
+    return res.status(400).json({
+      message: `status must be one of: ${DEVICE_STATUSES.join(", ")}`,
+    });
+  }
+
+  try {
+    const devices = await StudentDeviceService.list({
+      status: status || "pending",
+      studentId: studentId ? parseInt(studentId, 10) : undefined,
+    });
+    res.status(200).json(devices);
+  } catch (error: any) {
+    console.error("Get student devices error:", error);
+    res.status(500).json({
+      message: "Error retrieving devices",
+      error: error.message,
+    });
+  }
+};
+
+// Coordinator approves a device change, optionally replacing an active device
+export const approveStudentDevice = async (req: Request, res: Response) => {
+  try {
+    const device = await StudentDevice.findByPk(parseInt(req.params.id, 10));
+    if (!device) {
+      return res.status(404).json({ message: "Device not found" });
+    }
+
+    const { replaceDeviceId, note } = req.body || {};
+    const result = await StudentDeviceService.approve(
+      device,
+      (req as any).user,
+      replaceDeviceId ? Number(replaceDeviceId) : undefined,
+      note
+    );
+    if (result.error) {
+      return res.status(409).json({ message: result.error });
+    }
+
+    res.status(200).json({ message: "Device approved", device: withoutKey(result.device!) });
+  } catch (error: any) {
+    console.error("Approve student device error:", error);
+    res.status(500).json({
+      message: "Error approving device",
+      error: error.message,
+    });
+  }
+};
+
+// Coordinator rejects a device change with a note for the student
+export const rejectStudentDevice = async (req: Request, res: Response) => {
+  try {
+    const device = await StudentDevice.findByPk(parseInt(req.params.id, 10));
+    if (!device) {
+      return res.status(404).json({ message: "Device not found" });
+    }
+
+    const result = await StudentDeviceService.reject(device, (req as any).user, req.body?.note);
+    if (result.error) {
+      return res.status(409).json({ message: result.error });
+    }
+
+    res.status(200).json({ message: "Device rejected", device: withoutKey(result.device!) });
+  } catch (error: any) {
+    console.error("Reject student device error:", error);
+    res.status(500).json({
+      message: "Error rejecting device",
+      error: error.message,
+    });
+  }
+};
+
+// A student removes one of their own devices, or a coordinator removes any
+export const revokeStudentDevice = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const device = await StudentDevice.findByPk(parseInt(req.params.id, 10));
+    if (!device) {
+      return res.status(404).json({ message: "Device not found" });
+    }
+    if (user.role !== "coordinator") {
+      const student = await studentForUser(user.user_id);
+      if (!student || device.student_id !== student.student_id) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+    }
+
+    const result = await StudentDeviceService.revoke(device, user, req.body?.note);
+    if (result.error) {
+      return res.status(409).json({ message: result.error });
+    }
+
+    res.status(200).json({ message: "Device removed", device: withoutKey(result.device!) });
+  } catch (error: any) {
+    console.error("Revoke student device error:", error);
+    res.status(500).json({
+      message: "Error removing device",
+      error: error.message,
+    });
+  }
+};
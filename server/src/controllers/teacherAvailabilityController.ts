@@ -0,0 +1,150 @@
+import { Request, Response } from "express";
+import { ValidationError } from "sequelize";
+import Teacher from "../models/Teacher";
+import TeacherAvailability from "../models/TeacherAvailability";
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Teachers may only manage their own windows; coordinators manage anyone's
+const canManage = (req: Request, teacher: Teacher) => {
+  const user = (req as any).user;
+  return user?.role === "coordinator" || teacher.user_id === user?.user_id;
+};
+
+// Get availability windows for a teacher
+export const getTeacherAvailability = async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const teacher = await Teacher.findByPk(id);
+    if (!teacher) {
+      return res.status(404).json({ message: "Teacher not found" });
+    }
+
+    const windows = await TeacherAvailability.findAll({
+      where: { teacher_id: id },
+      order: [
+        ["day_of_week", "ASC"],
+        ["start_time", "ASC"],
+      ],
+    });
+
+    res.status(200).json(windows);
+  } catch (error: any) {
+    console.error("Get teacher availability error:", error);
+    res.status(500).json({
+      message: "Error retrieving teacher availability",
+      error: error.message,
+    });
+  }
+};
+
+// Add a recurring unavailable or preferred window
+export const addTeacherAvailability = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { day_of_week, start_time, end_time, availability_type, note } =
+    req.body;
+
+  try {
+    const teacher = await Teacher.findByPk(id);
+    if (!teacher) {
+      return res.status(404).json({ message: "Teacher not found" });
+    }
+    if (!canManage(req, teacher)) {
+      return res
+        .status(403)
+        .json({ message: "You can only edit your own availability" });
+    }
+
+    if (!day_of_week || !start_time || !end_time || !availability_type) {
+      return res.status(400).json({
+        message:
+          "day_of_week, start_time, end_time, and availability_type are required",
+      });
+    }
+    if (!DAYS.includes(day_of_week)) {
+      return res.status(400).json({
+        message: `day_of_week must be one of ${DAYS.join(", ")}`,
+      });
+    }
+    if (!["unavailable", "preferred"].includes(availability_type)) {
+      return res.status(400).json({
+        message: "availability_type must be 'unavailable' or 'preferred'",
+      });
+    }
+    if (!TIME_PATTERN.test(start_time) || !TIME_PATTERN.test(end_time)) {
+      return res
+        .status(400)
+        .json({ message: "start_time and end_time must be HH:MM" });
+    }
+    if (start_time >= end_time) {
+      return res
+        .status(400)
+        .json({ message: "end_time must be after start_time" });
+    }
+
+    const window = await TeacherAvailability.create({
+      teacher_id: teacher.teacher_id,
+      day_of_week,
+      start_time,
+      end_time,
+      availability_type,
+      note: note?.trim() || null,
+      created_by: (req as any).user?.user_id ?? null,
+    });
+
+    res.status(201).json({
+      message: "Availability saved successfully",
+      availability: window,
+    });
+  } catch (error: any) {
+    console.error("Add teacher availability error:", error);
+    if (error instanceof ValidationError) {
+      return res
+        .status(400)
+        .json({ message: "Invalid availability data", error: error.message });
+    }
+    res.status(500).json({
+      message: "Error saving teacher availability",
+      error: error.message,
+    });
+  }
+};
+
+// Remove an availability window
+export const deleteTeacherAvailability = async (
+  req: Request,
+  res: Response
+) => {
+  const { id, availabilityId } = req.params;
+
+  try {
+    const teacher = await Teacher.findByPk(id);
+    if (!teacher) {
+      return res.status(404).json({ message: "Teacher not found" });
+    }
+    if (!canManage(req, teacher)) {
+      return res
+        .status(403)
+        .json({ message: "You can only edit your own availability" });
+    }
+
+    const window = await TeacherAvailability.findOne({
+      where: { availability_id: availabilityId, teacher_id: id },
+    });
+    if (!window) {
+      return res.status(404).json({ message: "Availability window not found" });
+    }
+
+    await window.destroy();
+
+    res.status(200).json({ message: "Availability removed successfully" });
+  } catch (error: any) {
+    console.error("Delete teacher availability error:", error);
+    res.status(500).json({
+      message: "Error removing teacher availability",
+      error: error.message,
+    });
+  }
+};
@@ -7,6 +7,8 @@ import Course from "../models/Course";
 import Department from "../models/Department";
 import User from "../models/User";
 import Student from "../models/Student";
+import { AttendanceStatus } from "../models/AttendanceStatusRule";
+import AttendanceAuditService from "../services/AttendanceAuditService";
 
 // Get teacher's timetable
 export const getTimetable = async (req: Request, res: Response) => {
@@ -26,18 +28,25 @@ export const takeAttendance = async (req: Request, res: Response) => {
   const { scheduleId, attendanceData } = req.body;
 
   try {
-    const attendanceRecords = attendanceData.map(
-      async (data: { studentId: number; status: string }) => {
-        return await Attendance.create({
-          schedule_id: scheduleId,
-          student_id: data.studentId,
-          date: new Date(),
-          status: data.status as "present" | "absent",
-        });
-      }
+    await AttendanceAuditService.withActor(
+      { userId: (req as any).user?.user_id, source: "manual" },
+      (transaction) =>
+        Promise.all(
+          attendanceData.map((data: { studentId: number; status: string }) =>
+            Attendance.create(
+              {
+                schedule_id: scheduleId,
+                student_id: data.studentId,
+                date: new Date(),
+                status: data.status as AttendanceStatus,
+                source: "manual",
+                marked_by_user_id: (req as any).user?.user_id,
+              },
+              { transaction }
+            )
+          )
+        )
     );
-
-    await Promise.all(attendanceRecords);
     res.status(201).json({ message: "Attendance recorded successfully" });
   } catch (error) {
     res.status(500).json({ message: "Error recording attendance", error });
@@ -1,5 +1,5 @@
 import { Request, Response } from "express";
-import Timetable from "../models/Timetable";
+import Timetable, { effectiveOn } from "../models/Timetable";
 import Course from "../models/Course";
 import Student from "../models/Student";
 import Attendance from "../models/Attendance";
@@ -8,6 +8,8 @@ import Department from "../models/Department";
 import Section from "../models/Section";
 import Batch from "../models/Batch";
 import SavedTimetable from "../models/SavedTimetable";
+import AcademicCalendarService from "../services/AcademicCalendarService";
+import TimetableVersionService from "../services/TimetableVersionService";
 
 // Create a new timetable entry
 export const createTimetableEntry = async (req: Request, res: Response) => {
@@ -35,10 +37,12 @@ export const createTimetableEntry = async (req: Request, res: Response) => {
     const newEndMinutes = timeToMinutes(end_time);
 
     // Simple conflict detection: no overlapping for same teacher/day
+    const today = new Date().toISOString().split("T")[0];
     const conflicts = await Timetable.findAll({
       where: {
         teacher_id,
         day_of_week,
+        ...effectiveOn(today),
       },
       include: [
         {
@@ -81,6 +85,7 @@ export const createTimetableEntry = async (req: Request, res: Response) => {
         where: {
           classroom: classroom.trim(),
           day_of_week,
+          ...effectiveOn(today),
         },
       });
 
@@ -103,15 +108,33 @@ export const createTimetableEntry = async (req: Request, res: Response) => {
       }
     }
 
-    const newEntry = await Timetable.create({
-      course_id,
-      teacher_id,
-      section_id,
-      day_of_week,
-      start_time,
-      end_time,
-      classroom,
-      class_type: (class_type || "lecture").toLowerCase(),
+    const newEntry = await sequelize.transaction(async (transaction) => {
+      const created = await Timetable.create(
+        {
+          course_id,
+          teacher_id,
+          section_id,
+          day_of_week,
+          start_time,
+          end_time,
+          classroom,
+          class_type: (class_type || "lecture").toLowerCase(),
+        },
+        { transaction }
+      );
+      if (section_id) {
+        await TimetableVersionService.recordLiveChange(
+          Number(section_id),
+          today,
+          {
+            changeType: "edit",
+            reason: req.body.reason || "Live timetable entry added",
+            userId: (req as any).user?.user_id,
+          },
+          transaction
+        );
+      }
+      return created;
     });
     res.status(201).json(newEntry);
   } catch (error: any) {
@@ -179,12 +202,16 @@ export const getTimetableEntries = async (req: Request, res: Response) => {
   }
 };
 
+// Weekly views show the rows in effect today, or on ?date=YYYY-MM-DD
+const effectiveDate = (req: Request) =>
+  (req.query.date as string) || new Date().toISOString().split("T")[0];
+
 // Get timetable entries for a teacher
 export const getTimetableByTeacher = async (req: Request, res: Response) => {
   try {
     const { teacherId } = req.params;
     const entries = await Timetable.findAll({
-      where: { teacher_id: teacherId },
+      where: { teacher_id: teacherId, ...effectiveOn(effectiveDate(req)) },
       include: [
         {
           model: Course,
@@ -212,7 +239,7 @@ export const getTimetableBySection = async (req: Request, res: Response) => {
   try {
     const { sectionId } = req.params;
     const entries = await Timetable.findAll({
-      where: { section_id: sectionId },
+      where: { section_id: sectionId, ...effectiveOn(effectiveDate(req)) },
       attributes: [
         "schedule_id",
         "course_id",
@@ -225,6 +252,8 @@ export const getTimetableBySection = async (req: Request, res: Response) => {
         // "batch_id",
         "class_type",
         // "target_audience",
+        "effective_from",
+        "effective_to",
         "created_at",
         "updated_at",
       ],
@@ -292,7 +321,7 @@ export const getTimetableByStudent = async (req: Request, res: Response) => {
     if (!courseIds.length) return res.status(200).json([]);
 
     const entries = await Timetable.findAll({
-      where: { course_id: courseIds },
+      where: { course_id: courseIds, ...effectiveOn(effectiveDate(req)) },
       include: [
         {
           model: Course,
@@ -375,6 +404,27 @@ export const getStudentsForSchedule = async (req: Request, res: Response) => {
   }
 };
 
+// Today's rows that actually meet, following the academic calendar: nothing on
+// holidays, exam days or outside the term, and a make-up day runs the
+// timetable of the weekday it follows
+const classesMeetingToday = async (where: any, include: any[]) => {
+  const today = new Date().toISOString().split("T")[0];
+  const entries = await Timetable.findAll({
+    where: { ...where, ...effectiveOn(today) },
+    include,
+    order: [["start_time", "ASC"]],
+  });
+  return AcademicCalendarService.filterClassesOn(
+    today,
+    entries,
+    (entry: any) => ({
+      departmentId: entry.course?.department_id,
+      semester: entry.course?.semester,
+    }),
+    (entry) => entry.day_of_week
+  );
+};
+
 // Get today's classes for a teacher
 export const getTodayTimetableByTeacher = async (
   req: Request,
@@ -382,28 +432,20 @@ export const getTodayTimetableByTeacher = async (
 ) => {
   try {
     const { teacherId } = req.params;
-    const dayNames = [
-      "Sunday",
-      "Monday",
-      "Tuesday",
-      "Wednesday",
-      "Thursday",
-      "Friday",
-      "Saturday",
-    ];
-    const today = dayNames[new Date().getDay()];
-    const entries = await Timetable.findAll({
-      where: { teacher_id: teacherId, day_of_week: today },
-      include: [
-        {
-          model: Course,
-          as: "course",
-          attributes: ["course_id", "course_code", "course_name"],
-        },
-        { model: Teacher, as: "teacher", attributes: ["teacher_id", "name"] },
-      ],
-      order: [["start_time", "ASC"]],
-    });
+    const entries = await classesMeetingToday({ teacher_id: teacherId }, [
+      {
+        model: Course,
+        as: "course",
+        attributes: [
+          "course_id",
+          "course_code",
+          "course_name",
+          "department_id",
+          "semester",
+        ],
+      },
+      { model: Teacher, as: "teacher", attributes: ["teacher_id", "name"] },
+    ]);
     res.status(200).json(entries);
   } catch (error) {
     res.status(500).json({ message: "Error fetching today classes", error });
@@ -440,6 +482,16 @@ export const updateTimetableEntry = async (req: Request, res: Response) => {
       // target_audience,
     });
 
+    const today = new Date().toISOString().split("T")[0];
+    const existing = await Timetable.findByPk(scheduleId);
+    if (!existing)
+      return res.status(404).json({ message: "Timetable entry not found" });
+    if (existing.effective_to && existing.effective_to < today) {
+      return res.status(409).json({
+        message: `This entry ended on ${existing.effective_to}; ended entries can't be changed`,
+      });
+    }
+
     // Helper function to convert time string to minutes for proper comparison
     const timeToMinutes = (timeStr: string): number => {
       const [hours, minutes] = timeStr.split(":").map(Number);
@@ -449,11 +501,12 @@ export const updateTimetableEntry = async (req: Request, res: Response) => {
     const newStartMinutes = timeToMinutes(start_time);
     const newEndMinutes = timeToMinutes(end_time);
 
-    // Conflict detection, excluding self
+    // Conflict detection against rows in effect today, excluding self
     const conflicts = await Timetable.findAll({
       where: {
         teacher_id,
         day_of_week,
+        ...effectiveOn(today),
       },
     });
 
@@ -483,6 +536,7 @@ export const updateTimetableEntry = async (req: Request, res: Response) => {
         where: {
           classroom: classroom.trim(),
           day_of_week,
+          ...effectiveOn(today),
         },
       });
 
@@ -507,27 +561,59 @@ export const updateTimetableEntry = async (req: Request, res: Response) => {
       }
     }
 
-    const [count] = await Timetable.update(
+    // Fields left out of the body keep their current values
+    const [entry] = TimetableVersionService.normalizeEntries([
       {
-        course_id,
-        teacher_id,
-        section_id,
-        day_of_week,
-        start_time,
-        end_time,
-        classroom,
-        // batch_id: batch_id || null,
-        class_type: class_type || "lecture",
-        // target_audience: target_audience || "Section",
+        ...existing.toJSON(),
+        ...Object.fromEntries(
+          Object.entries({
+            course_id,
+            teacher_id,
+            day_of_week,
+            start_time,
+            end_time,
+            classroom,
+            class_type,
+          }).filter(([, value]) => value !== undefined)
+        ),
       },
-      { where: { schedule_id: scheduleId } }
-    );
+    ]);
+    const sectionId =
+      section_id !== undefined && section_id !== null
+        ? Number(section_id)
+        : existing.section_id;
+
+    // Past attendance keeps the old row; the change applies from today
+    const updated = await sequelize.transaction(async (transaction) => {
+      const previousSectionId = existing.section_id;
+      const replacement = await TimetableVersionService.replaceLiveRow(
+        existing,
+        { ...entry, section_id: sectionId },
+        transaction
+      );
 
-    console.log("✅ Update result:", { count, scheduleId });
-    if (count === 0)
-      return res.status(404).json({ message: "Timetable entry not found" });
-    const updated = await Timetable.findOne({
-      where: { schedule_id: scheduleId },
+      // A class moved to another section changes both sections' timetables
+      const sectionIds = new Set(
+        [previousSectionId, sectionId].filter((id) => !!id).map(Number)
+      );
+      for (const id of sectionIds) {
+        await TimetableVersionService.recordLiveChange(
+          id,
+          today,
+          {
+            changeType: "edit",
+            reason: req.body.reason || "Live timetable entry updated",
+            userId: (req as any).user?.user_id,
+          },
+          transaction
+        );
+      }
+      return replacement;
+    });
+
+    console.log("✅ Updated timetable entry:", {
+      scheduleId,
+      live_schedule_id: updated?.schedule_id,
     });
     res.status(200).json(updated);
   } catch (error) {
@@ -542,19 +628,6 @@ export const getTodayTimetableByStudent = async (
 ) => {
   try {
     const { studentId } = req.params as any;
-    const today = new Date().getDay(); // 0 = Sunday, 1 = Monday, etc.
-
-    const dayNames = [
-      "sunday",
-      "monday",
-      "tuesday",
-      "wednesday",
-      "thursday",
-      "friday",
-      "saturday",
-    ];
-    const todayName = dayNames[today];
-
     const student = await Student.findByPk(studentId, {
       include: [
         {
@@ -575,28 +648,27 @@ export const getTodayTimetableByStudent = async (
 
     if (!courseIds.length) return res.status(200).json([]);
 
-    const entries = await Timetable.findAll({
-      where: {
-        course_id: courseIds,
-        day_of_week: todayName,
+    const entries = await classesMeetingToday({ course_id: courseIds }, [
+      {
+        model: Course,
+        as: "course",
+        attributes: [
+          "course_id",
+          "course_name",
+          "course_code",
+          "department_id",
+          "semester",
+        ],
       },
-      include: [
-        {
-          model: Course,
-          as: "course",
-          attributes: ["course_id", "course_name", "course_code"],
-        },
-        {
-          model: Teacher,
-          as: "teacher",
-          attributes: ["teacher_id", "name", "email"],
-        },
-      ],
-      order: [["start_time", "ASC"]],
-    });
+      {
+        model: Teacher,
+        as: "teacher",
+        attributes: ["teacher_id", "name", "email"],
+      },
+    ]);
 
     console.log(
-      `Found ${entries.length} timetable entries for student ${studentId} on ${todayName}`
+      `Found ${entries.length} timetable entries for student ${studentId} today`
     );
     res.status(200).json(entries);
   } catch (error) {
@@ -605,15 +677,35 @@ export const getTodayTimetableByStudent = async (
   }
 };
 
-// Delete a timetable entry
+// Delete a timetable entry from today on; past attendance keeps its schedule
 export const deleteTimetableEntry = async (req: Request, res: Response) => {
   try {
     const { scheduleId } = req.params;
-    const deleted = await Timetable.destroy({
-      where: { schedule_id: scheduleId },
-    });
-    if (deleted === 0)
+    const today = new Date().toISOString().split("T")[0];
+    const existing = await Timetable.findByPk(scheduleId);
+    if (!existing)
       return res.status(404).json({ message: "Timetable entry not found" });
+    if (existing.effective_to && existing.effective_to < today) {
+      return res.status(409).json({
+        message: `This entry ended on ${existing.effective_to}; ended entries can't be removed`,
+      });
+    }
+
+    await sequelize.transaction(async (transaction) => {
+      await TimetableVersionService.replaceLiveRow(existing, null, transaction);
+      if (existing.section_id) {
+        await TimetableVersionService.recordLiveChange(
+          existing.section_id,
+          today,
+          {
+            changeType: "edit",
+            reason: req.body?.reason || "Live timetable entry removed",
+            userId: (req as any).user?.user_id,
+          },
+          transaction
+        );
+      }
+    });
     res.status(204).send();
   } catch (error) {
     res.status(500).json({ message: "Error deleting timetable entry", error });
@@ -745,6 +837,10 @@ export const fetchTimetableViewSettingsBySection = async (
 
 import { QueryTypes } from "sequelize";
 import { sequelize } from "../config/database";
+import TimetableGenerationQueue from "../services/TimetableGenerationQueue";
+import TimetablePublishService, {
+  ReviewAction,
+} from "../services/TimetablePublishService";
 
 interface TimeSlot {
   slot_id: number;
@@ -1057,6 +1153,9 @@ export const getTimetableRequests = async (req: Request, res: Response) => {
         total_requests: requests.length,
         draft: requests.filter((r: any) => r.status === "draft").length,
         generated: requests.filter((r: any) => r.status === "generated").length,
+        review: requests.filter((r: any) => r.status === "review").length,
+        approved: requests.filter((r: any) => r.status === "approved").length,
+        published: requests.filter((r: any) => r.status === "published").length,
         active: requests.filter((r: any) => r.status === "active").length,
       },
     });
@@ -1154,33 +1253,30 @@ export const generateTimetableAI = async (req: Request, res: Response) => {
 export const generateTimetable = async (req: Request, res: Response) => {
   try {
     const { requestId } = req.params;
+    const userId = (req as any).user?.user_id;
 
-    console.log(`⚡ Starting timetable generation for request ${requestId}`);
+    console.log(`⚡ Queueing timetable generation for request ${requestId}`);
 
-    // Update request status to generating
-    await query(
-      "UPDATE timetable_requests SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE request_id = $2",
-      ["generating", requestId]
+    const request = await query(
+      "SELECT request_id FROM timetable_requests WHERE request_id = $1",
+      [requestId]
     );
+    if (request.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: "Timetable request not found",
+      });
+    }
 
-    // Placeholder for actual generation algorithm
-    // This will be implemented in the next phase
-
-    // For now, just update status to generated
-    setTimeout(async () => {
-      await query(
-        "UPDATE timetable_requests SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE request_id = $2",
-        ["generated", requestId]
-      );
-    }, 3000);
+    const job = await TimetableGenerationQueue.enqueue(Number(requestId), userId);
 
-    console.log("✅ Timetable generation started");
+    console.log(`✅ Generation job ${job.job_id} is ${job.status}`);
 
-    res.json({
+    res.status(202).json({
       success: true,
-      message: "Timetable generation started",
+      message: "Timetable generation queued",
       status: "generating",
-      estimated_time: "2-3 minutes",
+      data: job,
     });
   } catch (error) {
     console.error("❌ Error generating timetable:", error);
@@ -1191,3 +1287,176 @@ export const generateTimetable = async (req: Request, res: Response) => {
     });
   }
 };
+
+// Get the latest generation job for a request (progress, timing, errors)
+export const getGenerationStatus = async (req: Request, res: Response) => {
+  try {
+    const { requestId } = req.params;
+
+    const job = await TimetableGenerationQueue.getLatestJob(Number(requestId));
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: "No generation job found for this request",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    console.error("❌ Error fetching generation status:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch generation status",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Cancel a queued or running generation job
+export const cancelGeneration = async (req: Request, res: Response) => {
+  try {
+    const { requestId } = req.params;
+
+    console.log(`🛑 Cancelling timetable generation for request ${requestId}`);
+
+    const job = await TimetableGenerationQueue.cancel(Number(requestId));
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: "No queued or running generation job for this request",
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Timetable generation cancelled",
+      data: job,
+    });
+  } catch (error) {
+    console.error("❌ Error cancelling generation:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to cancel timetable generation",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// ==================== REVIEW AND PUBLISH WORKFLOW ====================
+
+const reviewAction = (action: ReviewAction, label: string) =>
+  async (req: Request, res: Response) => {
+    try {
+      const { requestId } = req.params;
+      const userId = (req as any).user?.user_id;
+      const note = typeof req.body?.note === "string" ? req.body.note.trim() : "";
+
+      if (action === "reject" && !note) {
+        return res.status(400).json({
+          success: false,
+          error: "A note explaining the rejection is required",
+        });
+      }
+
+      console.log(`📝 ${label} timetable request ${requestId}`);
+
+      const result = await TimetablePublishService.transition(
+        Number(requestId),
+        action,
+        userId,
+        note || undefined
+      );
+      if (!result.ok) {
+        return res.status(result.status).json({
+          success: false,
+          error: result.error,
+        });
+      }
+
+      res.json({
+        success: true,
+        message: `Timetable request ${result.data.status === "generated" ? "sent back" : result.data.status}`,
+        data: result.data,
+      });
+    } catch (error) {
+      console.error(`❌ Error in timetable request ${action}:`, error);
+      res.status(500).json({
+        success: false,
+        error: `Failed to ${action} timetable request`,
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+// Send a generated timetable for coordinator review
+export const submitTimetableRequest = reviewAction("submit", "Submitting");
+
+// Approve a timetable under review
+export const approveTimetableRequest = reviewAction("approve", "Approving");
+
+// Send a timetable under review (or approved) back to generated with a note
+export const rejectTimetableRequest = reviewAction("reject", "Rejecting");
+
+// Publish an approved timetable into the live timetable for a date range
+export const publishTimetableRequest = async (req: Request, res: Response) => {
+  try {
+    const { requestId } = req.params;
+    const userId = (req as any).user?.user_id;
+    const { effective_from, effective_to, allow_past_start } = req.body || {};
+    const isDate = (value: any) =>
+      typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+    if (!isDate(effective_from) || (effective_to && !isDate(effective_to))) {
+      return res.status(400).json({
+        success: false,
+        error: "effective_from (and optional effective_to) must be YYYY-MM-DD dates",
+      });
+    }
+    if (effective_to && effective_to < effective_from) {
+      return res.status(400).json({
+        success: false,
+        error: "effective_to must not be before effective_from",
+      });
+    }
+
+    console.log(
+      `📢 Publishing timetable request ${requestId} from ${effective_from} to ${effective_to || "open end"}`
+    );
+
+    const result = await TimetablePublishService.publish(Number(requestId), userId, {
+      effective_from,
+      effective_to: effective_to || null,
+      allow_past_start: allow_past_start === true,
+    });
+    if (!result.ok) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+        conflicts: result.conflicts,
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Published ${result.data.entries_published} classes for ${result.data.sections.length} section(s)`,
+      data: result.data,
+    });
+  } catch (error: any) {
+    console.error("❌ Error publishing timetable request:", error);
+    if (error?.name === "SequelizeForeignKeyConstraintError") {
+      return res.status(409).json({
+        success: false,
+        error: "Attendance has already been recorded against classes this publish would remove",
+        details: error.message,
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: "Failed to publish timetable request",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
@@ -0,0 +1,179 @@
+import { Request, Response } from "express";
+import { ValidationError } from "sequelize";
+import Teacher from "../models/Teacher";
+import Timetable from "../models/Timetable";
+import TimetableException from "../models/TimetableException";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// Teachers may only change their own classes; coordinators change any
+const canManage = async (req: Request, schedule: Timetable) => {
+  const user = (req as any).user;
+  if (user?.role === "coordinator") return true;
+  const teacher = await Teacher.findByPk(schedule.teacher_id);
+  return teacher?.user_id === user?.user_id;
+};
+
+// List cancelled and rescheduled dates of a weekly class
+export const getTimetableExceptions = async (req: Request, res: Response) => {
+  const { scheduleId } = req.params;
+
+  try {
+    const exceptions = await TimetableException.findAll({
+      where: { schedule_id: scheduleId },
+      order: [["exception_date", "ASC"]],
+    });
+    res.status(200).json(exceptions);
+  } catch (error: any) {
+    console.error("Get timetable exceptions error:", error);
+    res.status(500).json({
+      message: "Error retrieving timetable exceptions",
+      error: error.message,
+    });
+  }
+};
+
+// Cancel or reschedule one occurrence; posting the same date again replaces it
+export const saveTimetableException = async (req: Request, res: Response) => {
+  const { scheduleId } = req.params;
+  const {
+    exception_date,
+    exception_type,
+    new_date,
+    new_start_time,
+    new_end_time,
+    new_classroom,
+    reason,
+  } = req.body;
+
+  try {
+    const schedule = await Timetable.findByPk(scheduleId);
+    if (!schedule) {
+      return res.status(404).json({ message: "Timetable entry not found" });
+    }
+    if (!(await canManage(req, schedule))) {
+      return res
+        .status(403)
+        .json({ message: "You can only change your own classes" });
+    }
+
+    if (!["cancelled", "rescheduled"].includes(exception_type)) {
+      return res.status(400).json({
+        message: "exception_type must be 'cancelled' or 'rescheduled'",
+      });
+    }
+    if (!DATE_PATTERN.test(exception_date || "")) {
+      return res
+        .status(400)
+        .json({ message: "exception_date must be YYYY-MM-DD" });
+    }
+    const weekday = WEEKDAYS[new Date(`${exception_date}T00:00:00Z`).getUTCDay()];
+    if (weekday.toLowerCase() !== schedule.day_of_week.toLowerCase()) {
+      return res.status(400).json({
+        message: `This class meets on ${schedule.day_of_week}, but ${exception_date} is a ${weekday}`,
+      });
+    }
+    if (exception_type === "rescheduled") {
+      if (
+        !DATE_PATTERN.test(new_date || "") ||
+        !TIME_PATTERN.test(new_start_time || "") ||
+        !TIME_PATTERN.test(new_end_time || "")
+      ) {
+        return res.status(400).json({
+          message:
+            "Rescheduling requires new_date (YYYY-MM-DD), new_start_time and new_end_time (HH:MM)",
+        });
+      }
+      if (new_start_time >= new_end_time) {
+        return res
+          .status(400)
+          .json({ message: "new_end_time must be after new_start_time" });
+      }
+    }
+
+    const fields = {
+      exception_type,
+      new_date: exception_type === "rescheduled" ? new_date : null,
+      new_start_time: exception_type === "rescheduled" ? new_start_time : null,
+      new_end_time: exception_type === "rescheduled" ? new_end_time : null,
+      new_classroom:
+        exception_type === "rescheduled" ? new_classroom?.trim() || null : null,
+      reason: reason?.trim() || null,
+      created_by: (req as any).user?.user_id ?? null,
+    };
+
+    const existing = await TimetableException.findOne({
+      where: { schedule_id: schedule.schedule_id, exception_date },
+    });
+    const exception = existing
+      ? await existing.update(fields)
+      : await TimetableException.create({
+          schedule_id: schedule.schedule_id,
+          exception_date,
+          ...fields,
+        });
+
+    res.status(existing ? 200 : 201).json({
+      message:
+        exception_type === "cancelled"
+          ? "Class cancelled for that date"
+          : "Class rescheduled",
+      exception,
+    });
+  } catch (error: any) {
+    console.error("Save timetable exception error:", error);
+    if (error instanceof ValidationError) {
+      return res
+        .status(400)
+        .json({ message: "Invalid exception data", error: error.message });
+    }
+    res.status(500).json({
+      message: "Error saving timetable exception",
+      error: error.message,
+    });
+  }
+};
+
+// Restore a cancelled or rescheduled occurrence to its normal slot
+export const deleteTimetableException = async (req: Request, res: Response) => {
+  const { scheduleId, exceptionId } = req.params;
+
+  try {
+    const schedule = await Timetable.findByPk(scheduleId);
+    if (!schedule) {
+      return res.status(404).json({ message: "Timetable entry not found" });
+    }
+    if (!(await canManage(req, schedule))) {
+      return res
+        .status(403)
+        .json({ message: "You can only change your own classes" });
+    }
+
+    const exception = await TimetableException.findOne({
+      where: { exception_id: exceptionId, schedule_id: scheduleId },
+    });
+    if (!exception) {
+      return res.status(404).json({ message: "Exception not found" });
+    }
+
+    await exception.destroy();
+
+    res.status(200).json({ message: "Class restored to its usual slot" });
+  } catch (error: any) {
+    console.error("Delete timetable exception error:", error);
+    res.status(500).json({
+      message: "Error removing timetable exception",
+      error: error.message,
+    });
+  }
+};
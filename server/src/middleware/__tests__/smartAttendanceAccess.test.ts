@@ -0,0 +1,122 @@
+import { Request, Response } from "express";
+import AttendanceSession from "../../models/AttendanceSession";
+import Student from "../../models/Student";
+import Teacher from "../../models/Teacher";
+import Timetable from "../../models/Timetable";
+import SecurityEventService from "../../services/SecurityEventService";
+import { bindStudent, ownSchedule } from "../smartAttendanceAccess";
+
+jest.mock("../../models/AttendanceSession", () => ({ __esModule: true, default: { findOne: jest.fn() } }));
+jest.mock("../../models/Student", () => ({ __esModule: true, default: { findOne: jest.fn() } }));
+jest.mock("../../models/Teacher", () => ({ __esModule: true, default: { findOne: jest.fn() } }));
+jest.mock("../../models/Timetable", () => ({ __esModule: true, default: { findByPk: jest.fn() } }));
+jest.mock("../../services/SecurityEventService", () => ({ __esModule: true, default: { record: jest.fn() } }));
+jest.mock("../../services/StudentDeviceService", () => ({ __esModule: true, default: {} }));
+
+const mocked = <T>(fn: T) => fn as unknown as jest.Mock;
+
+const request = (user: object, body: object = {}, params: object = {}) =>
+  ({ user, body, params } as unknown as Request);
+
+const response = () => {
+  const res: any = {};
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  return res as Response & { status: jest.Mock; json: jest.Mock };
+};
+
+// Teacher 7 owns schedule 10; schedule 20 belongs to teacher 8
+const schedules: Record<number, { schedule_id: number; teacher_id: number }> = {
+  10: { schedule_id: 10, teacher_id: 7 },
+  20: { schedule_id: 20, teacher_id: 8 },
+};
+const sessions: Record<string, { session_id: string; schedule_id: number }> = {
+  own: { session_id: "own", schedule_id: 10 },
+  other: { session_id: "other", schedule_id: 20 },
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mocked(Teacher.findOne).mockResolvedValue({ teacher_id: 7 });
+  mocked(Timetable.findByPk).mockImplementation(async (id: any) => schedules[Number(id)] ?? null);
+  mocked(AttendanceSession.findOne).mockImplementation(
+    async ({ where }: any) => sessions[where.session_id] ?? null
+  );
+});
+
+describe("ownSchedule", () => {
+  const teacher = { user_id: 1, role: "teacher" };
+
+  it("lets a teacher act on their own schedule", async () => {
+    const next = jest.fn();
+    await ownSchedule(request(teacher, { scheduleId: 10 }), response(), next);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("lets a teacher act on a session of their own schedule", async () => {
+    const next = jest.fn();
+    await ownSchedule(request(teacher, {}, { sessionId: "own" }), response(), next);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("rejects another teacher's session", async () => {
+    const res = response();
+    const next = jest.fn();
+    await ownSchedule(request(teacher, { sessionId: "other" }), res, next);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it("rejects another teacher's session sent with the teacher's own scheduleId", async () => {
+    const res = response();
+    const next = jest.fn();
+    await ownSchedule(request(teacher, { scheduleId: 10, sessionId: "other" }), res, next);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(SecurityEventService.record).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ type: "schedule_access_denied", sessionId: "other" })
+    );
+  });
+
+  it("returns 404 for an unknown session", async () => {
+    const res = response();
+    await ownSchedule(request(teacher, { scheduleId: 10, sessionId: "missing" }), res, jest.fn());
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  it("lets coordinators through", async () => {
+    const next = jest.fn();
+    await ownSchedule(request({ user_id: 2, role: "coordinator" }, { sessionId: "other" }), response(), next);
+    expect(next).toHaveBeenCalled();
+    expect(Teacher.findOne).not.toHaveBeenCalled();
+  });
+});
+
+describe("bindStudent", () => {
+  const student = { user_id: 3, role: "student" };
+
+  beforeEach(() => {
+    mocked(Student.findOne).mockResolvedValue({ student_id: 42 });
+  });
+
+  it("puts the logged-in student on the request", async () => {
+    const req = request(student, { sessionId: "own" });
+    const next = jest.fn();
+    await bindStudent(req, response(), next);
+    expect(next).toHaveBeenCalled();
+    expect((req as any).student).toEqual({ student_id: 42 });
+  });
+
+  it("rejects a studentId that names someone else", async () => {
+    const res = response();
+    const next = jest.fn();
+    await bindStudent(request(student, { studentId: 43 }), res, next);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(SecurityEventService.record).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ type: "identity_mismatch", actualStudentId: 42 })
+    );
+  });
+});
@@ -0,0 +1,160 @@
+import { Request, Response, NextFunction } from 'express';
+import AttendanceSession from '../models/AttendanceSession';
+import Student from '../models/Student';
+import Teacher from '../models/Teacher';
+import Timetable from '../models/Timetable';
+import SecurityEventService from '../services/SecurityEventService';
+import StudentDeviceService, { DeviceRequestPurpose } from '../services/StudentDeviceService';
+
+// These run after authMiddleware and a role guard, so req.user is set
+
+/**
+ * Resolve the student profile of the logged-in user into req.student. A
+ * studentId in the body or URL that names anyone else is rejected and logged.
+ * Coordinators pass through and act on the studentId they send.
+ */
+export const bindStudent = async (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).user;
+    if (user.role === 'coordinator') {
+        return next();
+    }
+
+    try {
+        const claimedStudentId = req.body?.studentId ?? req.params.studentId;
+        const student = await Student.findOne({ where: { user_id: user.user_id } });
+
+        if (!student) {
+            await SecurityEventService.record(req, {
+                type: 'missing_profile',
+                severity: 'low',
+                claimedStudentId,
+            });
+            return res.status(403).json({ error: 'No student profile is linked to this account' });
+        }
+
+        if (claimedStudentId !== undefined && claimedStudentId !== null && Number(claimedStudentId) !== student.student_id) {
+            await SecurityEventService.record(req, {
+                type: 'identity_mismatch',
+                severity: 'high',
+                claimedStudentId,
+                actualStudentId: student.student_id,
+                sessionId: req.body?.sessionId,
+            });
+            return res.status(403).json({ error: 'You can only submit attendance and faces for yourself' });
+        }
+
+        (req as any).student = student;
+        next();
+    } catch (error: any) {
+        console.error('Error resolving student profile:', error);
+        res.status(500).json({ error: 'Failed to verify student identity' });
+    }
+};
+
+const DEVICE_CHECK_STATUS = {
+    device_required: 428,
+    device_pending: 403,
+    device_not_trusted: 403,
+    signature_invalid: 401,
+};
+
+/**
+ * Require a scan request signed by one of the student's active devices, and
+ * put the device on req.device. Runs after bindStudent. Responses carry a
+ * code so the scanner can send the student to register or wait for approval.
+ * Coordinators pass through.
+ */
+export const trustedDevice = (purpose: DeviceRequestPurpose) =>
+    async (req: Request, res: Response, next: NextFunction) => {
+        const user = (req as any).user;
+        if (user.role === 'coordinator') {
+            return next();
+        }
+
+        try {
+            const student = (req as any).student;
+            const { device, error, code } = await StudentDeviceService.verifyRequest(req, student.student_id, purpose);
+            if (!device) {
+                return res.status(DEVICE_CHECK_STATUS[code!]).json({ error, code });
+            }
+
+            (req as any).device = device;
+            next();
+        } catch (error: any) {
+            console.error('Error verifying device signature:', error);
+            res.status(500).json({ error: 'Failed to verify this device' });
+        }
+    };
+
+/**
+ * Allow teachers to act only on their own classes. The schedule comes from
+ * the attendance session named by body.sessionId or :sessionId, or from
+ * body.scheduleId when no session is named; a scheduleId sent alongside a
+ * session must be that session's. The teacher profile is put on req.teacher.
+ * Coordinators pass through.
+ */
+export const ownSchedule = async (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).user;
+    if (user.role === 'coordinator') {
+        return next();
+    }
+
+    try {
+        const teacher = await Teacher.findOne({ where: { user_id: user.user_id } });
+        if (!teacher) {
+            await SecurityEventService.record(req, { type: 'missing_profile', severity: 'low' });
+            return res.status(403).json({ error: 'No teacher profile is linked to this account' });
+        }
+
+        const sessionId = req.body?.sessionId ?? req.params.sessionId;
+        let scheduleId = req.body?.scheduleId;
+        if (sessionId) {
+            const session = await AttendanceSession.findOne({ where: { session_id: sessionId } });
+            if (!session) {
+                return res.status(404).json({ error: 'Session not found' });
+            }
+            if (scheduleId !== undefined && scheduleId !== null && Number(scheduleId) !== session.schedule_id) {
+                await SecurityEventService.record(req, {
+                    type: 'schedule_access_denied',
+                    scheduleId,
+                    sessionId,
+                    details: { teacher_id: teacher.teacher_id, session_schedule_id: session.schedule_id },
+                });
+                return res.status(403).json({ error: 'You can only manage attendance for your own classes' });
+            }
+            scheduleId = session.schedule_id;
+        }
+        if (!scheduleId) {
+            return res.status(400).json({ error: 'scheduleId or sessionId is required' });
+        }
+
+        const schedule = await Timetable.findByPk(scheduleId, { attributes: ['schedule_id', 'teacher_id'] });
+        if (!schedule) {
+            return res.status(404).json({ error: 'Schedule not found' });
+        }
+
+        const claimedTeacherId = req.body?.teacherId;
+        if (
+            schedule.teacher_id !== teacher.teacher_id ||
+            (claimedTeacherId !== undefined && Number(claimedTeacherId) !== teacher.teacher_id)
+        ) {
+            await SecurityEventService.record(req, {
+                type: 'schedule_access_denied',
+                scheduleId: schedule.schedule_id,
+                sessionId,
+                details: {
+                    teacher_id: teacher.teacher_id,
+                    schedule_teacher_id: schedule.teacher_id,
+                    claimed_teacher_id: claimedTeacherId ?? null,
+                },
+            });
+            return res.status(403).json({ error: 'You can only manage attendance for your own classes' });
+        }
+
+        (req as any).teacher = teacher;
+        next();
+    } catch (error: any) {
+        console.error('Error checking schedule ownership:', error);
+        res.status(500).json({ error: 'Failed to verify class ownership' });
+    }
+};
@@ -1,3 +1,4 @@
+import { NextFunction, Request, Response } from 'express';
 import multer from 'multer';
 import path from 'path';
 
@@ -25,4 +26,35 @@ export const upload = multer({
   }
 });
 
+// Supporting documents for leave requests and attendance disputes
+const documentFileFilter = (req: any, file: any, cb: any) => {
+  const allowedExtensions = ['.pdf', '.jpg', '.jpeg', '.png'];
+  const fileExtension = path.extname(file.originalname).toLowerCase();
+
+  if (allowedExtensions.includes(fileExtension)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Invalid file type. Only PDF, JPEG and PNG documents are allowed.'), false);
+  }
+};
+
+export const documentUpload = multer({
+  storage: storage,
+  fileFilter: documentFileFilter,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+    files: 1
+  }
+});
+
+// Single optional document; a rejected file is a bad request, not a server error
+export const uploadDocument = (field: string) => (req: Request, res: Response, next: NextFunction) => {
+  documentUpload.single(field)(req, res, (error: any) => {
+    if (error) {
+      return res.status(400).json({ message: error.message });
+    }
+    next();
+  });
+};
+
 export default upload;
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { Model, DataTypes, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+
+export type CalendarEventType = "holiday" | "exam" | "makeup_day";
+
+interface AcademicCalendarEventAttributes {
+  event_id: number;
+  event_type: CalendarEventType;
+  title: string;
+  start_date: string;
+  end_date: string;
+  follows_day_of_week?: string | null;
+  department_id?: number | null;
+  semester?: number | null;
+  description?: string | null;
+  created_by?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface AcademicCalendarEventCreationAttributes
+  extends Optional<
+    AcademicCalendarEventAttributes,
+    "event_id" | "created_at" | "updated_at"
+  > {}
+
+class AcademicCalendarEvent
+  extends Model<
+    AcademicCalendarEventAttributes,
+    AcademicCalendarEventCreationAttributes
+  >
+  implements AcademicCalendarEventAttributes
+{
+  public event_id!: number;
+  public event_type!: CalendarEventType;
+  public title!: string;
+  public start_date!: string;
+  public end_date!: string;
+  public follows_day_of_week!: string | null;
+  public department_id!: number | null;
+  public semester!: number | null;
+  public description!: string | null;
+  public created_by!: number | null;
+
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Association helpers
+  static associate(models: any) {
+    AcademicCalendarEvent.belongsTo(models.Department, {
+      foreignKey: "department_id",
+      as: "department",
+    });
+  }
+}
+
+AcademicCalendarEvent.init(
+  {
+    event_id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    event_type: {
+      type: DataTypes.ENUM("holiday", "exam", "makeup_day"),
+      allowNull: false,
+    },
+    title: {
+      type: DataTypes.STRING(150),
+      allowNull: false,
+    },
+    start_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    end_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    follows_day_of_week: {
+      type: DataTypes.STRING(10),
+      allowNull: true,
+      validate: {
+        isIn: [
+          [
+            "Monday",
+            "Tuesday",
+            "Wednesday",
+            "Thursday",
+            "Friday",
+            "Saturday",
+          ],
+        ],
+      },
+    },
+    department_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "departments",
+        key: "department_id",
+      },
+    },
+    semester: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    created_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: "academic_calendar_events",
+    underscored: true,
+  }
+);
+
+export default AcademicCalendarEvent;
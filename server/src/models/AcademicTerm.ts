@@ -0,0 +1,99 @@
+import { Model, DataTypes, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+
+interface AcademicTermAttributes {
+  term_id: number;
+  name: string;
+  academic_year: string;
+  department_id?: number | null;
+  semester?: number | null;
+  start_date: string;
+  end_date: string;
+  created_by?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface AcademicTermCreationAttributes
+  extends Optional<
+    AcademicTermAttributes,
+    "term_id" | "created_at" | "updated_at"
+  > {}
+
+class AcademicTerm
+  extends Model<AcademicTermAttributes, AcademicTermCreationAttributes>
+  implements AcademicTermAttributes
+{
+  public term_id!: number;
+  public name!: string;
+  public academic_year!: string;
+  public department_id!: number | null;
+  public semester!: number | null;
+  public start_date!: string;
+  public end_date!: string;
+  public created_by!: number | null;
+
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Association helpers
+  static associate(models: any) {
+    AcademicTerm.belongsTo(models.Department, {
+      foreignKey: "department_id",
+      as: "department",
+    });
+  }
+}
+
+AcademicTerm.init(
+  {
+    term_id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    academic_year: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+    },
+    department_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "departments",
+        key: "department_id",
+      },
+    },
+    semester: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    start_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    end_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    created_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: "academic_terms",
+    underscored: true,
+  }
+);
+
+export default AcademicTerm;
@@ -1,24 +1,61 @@
 import { Model, DataTypes, Optional } from 'sequelize';
 import { sequelize } from '../config/database';
+import { ATTENDANCE_STATUSES, AttendanceStatus } from './AttendanceStatusRule';
+
+// How a mark was made: by hand, by a smart session (QR scan + face, or only the
+// class photo), or through the bulk endpoint
+export const ATTENDANCE_SOURCES = ['manual', 'qr_face', 'class_photo', 'bulk_import'] as const;
+
+export type AttendanceSource = (typeof ATTENDANCE_SOURCES)[number];
 
 interface AttendanceAttributes {
   attendance_id: number;
   schedule_id: number;
   student_id: number;
   date: Date;
-  status: 'present' | 'absent';
+  status: AttendanceStatus;
+  source: AttendanceSource;
+  session_id?: string | null;
+  verified_by_scan: boolean;
+  verified_by_class_photo: boolean;
+  face_match_confidence?: number | null;
+  marked_by_user_id?: number | null;
+  notification_sent: boolean;
+  notification_sent_at?: Date | null;
   created_at?: Date;
   updated_at?: Date;
 }
 
-interface AttendanceCreationAttributes extends Optional<AttendanceAttributes, 'attendance_id' | 'created_at' | 'updated_at'> {}
+interface AttendanceCreationAttributes
+  extends Optional<
+    AttendanceAttributes,
+    | 'attendance_id'
+    | 'source'
+    | 'verified_by_scan'
+    | 'verified_by_class_photo'
+    | 'notification_sent'
+    | 'created_at'
+    | 'updated_at'
+  > {}
 
+/**
+ * The attendance ledger: one mark per student per class per day, whatever
+ * made it. Smart sessions record their session and verification here too.
+ */
 export class Attendance extends Model<AttendanceAttributes, AttendanceCreationAttributes> implements AttendanceAttributes {
     public attendance_id!: number;
     public schedule_id!: number;
     public student_id!: number;
     public date!: Date;
-    public status!: 'present' | 'absent';
+    public status!: AttendanceStatus;
+    public source!: AttendanceSource;
+    public session_id?: string | null;
+    public verified_by_scan!: boolean;
+    public verified_by_class_photo!: boolean;
+    public face_match_confidence?: number | null;
+    public marked_by_user_id?: number | null;
+    public notification_sent!: boolean;
+    public notification_sent_at?: Date | null;
 
     public readonly created_at!: Date;
     public readonly updated_at!: Date;
@@ -34,6 +71,17 @@ export class Attendance extends Model<AttendanceAttributes, AttendanceCreationAt
         foreignKey: 'student_id',
         as: 'student'
       });
+
+      Attendance.belongsTo(models.AttendanceSession, {
+        foreignKey: 'session_id',
+        targetKey: 'session_id',
+        as: 'session'
+      });
+
+      Attendance.belongsTo(models.User, {
+        foreignKey: 'marked_by_user_id',
+        as: 'markedBy'
+      });
     }
 }
 
@@ -64,8 +112,58 @@ Attendance.init({
         allowNull: false,
     },
     status: {
-        type: DataTypes.ENUM('present', 'absent'),
+        type: DataTypes.STRING(20),
         allowNull: false,
+        validate: {
+            isIn: [ATTENDANCE_STATUSES as unknown as string[]],
+        },
+    },
+    source: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        defaultValue: 'manual',
+        validate: {
+            isIn: [ATTENDANCE_SOURCES as unknown as string[]],
+        },
+    },
+    session_id: {
+        type: DataTypes.STRING(100),
+        allowNull: true,
+        references: {
+            model: 'attendance_sessions',
+            key: 'session_id',
+        },
+    },
+    verified_by_scan: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+    },
+    verified_by_class_photo: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+    },
+    face_match_confidence: {
+        type: DataTypes.DECIMAL(5, 4),
+        allowNull: true,
+    },
+    marked_by_user_id: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: {
+            model: 'users',
+            key: 'user_id',
+        },
+    },
+    notification_sent: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+    },
+    notification_sent_at: {
+        type: DataTypes.DATE,
+        allowNull: true,
     },
 }, {
     sequelize,
@@ -0,0 +1,128 @@
+import { Model, DataTypes } from "sequelize";
+import { sequelize } from "../config/database";
+
+export type AuditedTable = "attendance" | "smart_attendance_records";
+
+interface AttendanceAuditLogAttributes {
+  audit_id: number;
+  table_name: AuditedTable;
+  record_id: number;
+  action: "insert" | "update" | "delete";
+  student_id: number;
+  schedule_id?: number | null;
+  date?: string | null;
+  old_status?: string | null;
+  new_status?: string | null;
+  old_values?: object | null;
+  new_values?: object | null;
+  actor_user_id?: number | null;
+  source: string;
+  reason?: string | null;
+  changed_at: Date;
+}
+
+// Rows are written by database triggers and can't be changed afterwards
+class AttendanceAuditLog
+  extends Model<AttendanceAuditLogAttributes>
+  implements AttendanceAuditLogAttributes
+{
+  public audit_id!: number;
+  public table_name!: AuditedTable;
+  public record_id!: number;
+  public action!: "insert" | "update" | "delete";
+  public student_id!: number;
+  public schedule_id!: number | null;
+  public date!: string | null;
+  public old_status!: string | null;
+  public new_status!: string | null;
+  public old_values!: object | null;
+  public new_values!: object | null;
+  public actor_user_id!: number | null;
+  public source!: string;
+  public reason!: string | null;
+  public changed_at!: Date;
+
+  // Association helpers
+  static associate(models: any) {
+    AttendanceAuditLog.belongsTo(models.User, {
+      foreignKey: "actor_user_id",
+      as: "actor",
+      constraints: false,
+    });
+  }
+}
+
+AttendanceAuditLog.init(
+  {
+    audit_id: {
+      type: DataTypes.BIGINT,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    table_name: {
+      type: DataTypes.STRING(30),
+      allowNull: false,
+    },
+    record_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    action: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+    },
+    student_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    schedule_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    date: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+    },
+    old_status: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+    },
+    new_status: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+    },
+    old_values: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    new_values: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    actor_user_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    source: {
+      type: DataTypes.STRING(30),
+      allowNull: false,
+      defaultValue: "direct",
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    changed_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "attendance_audit_log",
+    timestamps: false,
+  }
+);
+
+export default AttendanceAuditLog;
@@ -0,0 +1,174 @@
+import { Model, DataTypes, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+import { ATTENDANCE_STATUSES, AttendanceStatus } from "./AttendanceStatusRule";
+
+export type AttendanceDisputeStatus = "open" | "accepted" | "rejected" | "withdrawn";
+
+interface AttendanceDisputeAttributes {
+  dispute_id: number;
+  table_name: "attendance";
+  record_id: number;
+  student_id: number;
+  schedule_id?: number | null;
+  date: string;
+  recorded_status: AttendanceStatus;
+  requested_status: AttendanceStatus;
+  reason: string;
+  evidence_key?: string | null;
+  evidence_name?: string | null;
+  evidence_type?: string | null;
+  status: AttendanceDisputeStatus;
+  resolved_by?: number | null;
+  resolved_at?: Date | null;
+  resolution_note?: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface AttendanceDisputeCreationAttributes
+  extends Optional<
+    AttendanceDisputeAttributes,
+    "dispute_id" | "status" | "requested_status" | "created_at" | "updated_at"
+  > {}
+
+class AttendanceDispute
+  extends Model<AttendanceDisputeAttributes, AttendanceDisputeCreationAttributes>
+  implements AttendanceDisputeAttributes
+{
+  public dispute_id!: number;
+  public table_name!: "attendance";
+  public record_id!: number;
+  public student_id!: number;
+  public schedule_id!: number | null;
+  public date!: string;
+  public recorded_status!: AttendanceStatus;
+  public requested_status!: AttendanceStatus;
+  public reason!: string;
+  public evidence_key!: string | null;
+  public evidence_name!: string | null;
+  public evidence_type!: string | null;
+  public status!: AttendanceDisputeStatus;
+  public resolved_by!: number | null;
+  public resolved_at!: Date | null;
+  public resolution_note!: string | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Association helpers
+  static associate(models: any) {
+    AttendanceDispute.belongsTo(models.Student, {
+      foreignKey: "student_id",
+      as: "student",
+    });
+
+    AttendanceDispute.belongsTo(models.Timetable, {
+      foreignKey: "schedule_id",
+      as: "timetable",
+    });
+
+    AttendanceDispute.belongsTo(models.User, {
+      foreignKey: "resolved_by",
+      as: "resolver",
+    });
+  }
+}
+
+AttendanceDispute.init(
+  {
+    dispute_id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    table_name: {
+      type: DataTypes.STRING(30),
+      allowNull: false,
+      validate: {
+        isIn: [["attendance"]],
+      },
+    },
+    record_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    student_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "students",
+        key: "student_id",
+      },
+    },
+    schedule_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "timetable",
+        key: "schedule_id",
+      },
+    },
+    date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    recorded_status: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+    },
+    requested_status: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: "present",
+      validate: {
+        isIn: [ATTENDANCE_STATUSES as unknown as string[]],
+      },
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    evidence_key: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    evidence_name: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    evidence_type: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    status: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      defaultValue: "open",
+      validate: {
+        isIn: [["open", "accepted", "rejected", "withdrawn"]],
+      },
+    },
+    resolved_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+    resolved_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    resolution_note: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "attendance_disputes",
+    underscored: true,
+  }
+);
+
+export default AttendanceDispute;
@@ -0,0 +1,153 @@
+import { Model, DataTypes, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+
+export type PolicyScope = "institution" | "department" | "course" | "session";
+export type VerificationFactor = "face" | "liveness" | "location";
+
+interface AttendancePolicyAttributes {
+  policy_id: number;
+  scope: PolicyScope;
+  department_id?: number | null;
+  course_id?: number | null;
+  session_id?: string | null;
+  // NULL settings inherit from the next broader scope
+  geofence_radius_meters?: number | null;
+  face_match_threshold?: number | null;
+  qr_lifetime_seconds?: number | null;
+  scan_timeout_seconds?: number | null;
+  required_factors?: VerificationFactor[] | null;
+  min_attendance_percentage?: number | null;
+  notes?: string | null;
+  updated_by?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface AttendancePolicyCreationAttributes
+  extends Optional<
+    AttendancePolicyAttributes,
+    "policy_id" | "created_at" | "updated_at"
+  > {}
+
+class AttendancePolicy
+  extends Model<AttendancePolicyAttributes, AttendancePolicyCreationAttributes>
+  implements AttendancePolicyAttributes
+{
+  public policy_id!: number;
+  public scope!: PolicyScope;
+  public department_id!: number | null;
+  public course_id!: number | null;
+  public session_id!: string | null;
+  public geofence_radius_meters!: number | null;
+  public face_match_threshold!: number | null;
+  public qr_lifetime_seconds!: number | null;
+  public scan_timeout_seconds!: number | null;
+  public required_factors!: VerificationFactor[] | null;
+  public min_attendance_percentage!: number | null;
+  public notes!: string | null;
+  public updated_by!: number | null;
+
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Association helpers
+  static associate(models: any) {
+    AttendancePolicy.belongsTo(models.Department, {
+      foreignKey: "department_id",
+      as: "department",
+    });
+    AttendancePolicy.belongsTo(models.Course, {
+      foreignKey: "course_id",
+      as: "course",
+    });
+  }
+}
+
+AttendancePolicy.init(
+  {
+    policy_id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    scope: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      validate: {
+        isIn: [["institution", "department", "course", "session"]],
+      },
+    },
+    department_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "departments",
+        key: "department_id",
+      },
+    },
+    course_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "courses",
+        key: "course_id",
+      },
+    },
+    session_id: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      references: {
+        model: "attendance_sessions",
+        key: "session_id",
+      },
+    },
+    geofence_radius_meters: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      validate: { min: 10, max: 100000 },
+    },
+    face_match_threshold: {
+      type: DataTypes.DECIMAL(4, 3),
+      allowNull: true,
+      validate: { min: 0.3, max: 0.99 },
+    },
+    qr_lifetime_seconds: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      validate: { min: 30, max: 3600 },
+    },
+    scan_timeout_seconds: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      validate: { min: 15, max: 600 },
+    },
+    required_factors: {
+      type: DataTypes.ARRAY(DataTypes.TEXT),
+      allowNull: true,
+    },
+    min_attendance_percentage: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: true,
+      validate: { min: 0, max: 100 },
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    updated_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: "attendance_policies",
+    underscored: true,
+  }
+);
+
+export default AttendancePolicy;
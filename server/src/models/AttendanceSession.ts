@@ -11,6 +11,10 @@ interface AttendanceSessionAttributes {
   qr_token: string;
   status: "active" | "expired" | "completed";
   expires_at: Date;
+  rotation_secret?: string | null;
+  rotation_interval_seconds?: number | null;
+  stale_step_validations?: number;
+  expired_step_rejections?: number;
   created_at?: Date;
   completed_at?: Date;
 }
@@ -36,6 +40,10 @@ class AttendanceSession
   public qr_token!: string;
   public status!: "active" | "expired" | "completed";
   public expires_at!: Date;
+  public rotation_secret?: string | null;
+  public rotation_interval_seconds?: number | null;
+  public stale_step_validations?: number;
+  public expired_step_rejections?: number;
   public created_at?: Date;
   public completed_at?: Date;
 }
@@ -74,6 +82,22 @@ AttendanceSession.init(
       type: DataTypes.DATE,
       allowNull: false,
     },
+    rotation_secret: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    rotation_interval_seconds: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    stale_step_validations: {
+      type: DataTypes.INTEGER,
+      defaultValue: 0,
+    },
+    expired_step_rejections: {
+      type: DataTypes.INTEGER,
+      defaultValue: 0,
+    },
     created_at: {
       type: DataTypes.DATE,
       defaultValue: DataTypes.NOW,
@@ -0,0 +1,88 @@
+import { Model, DataTypes, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+
+export const ATTENDANCE_STATUSES = [
+  "present",
+  "absent",
+  "late",
+  "excused",
+  "on_duty",
+  "medical",
+] as const;
+
+export type AttendanceStatus = (typeof ATTENDANCE_STATUSES)[number];
+
+interface AttendanceStatusRuleAttributes {
+  status: AttendanceStatus;
+  label: string;
+  // False leaves classes with this status out of the percentage entirely
+  counts_towards_total: boolean;
+  // Share of a class credited as attended, 0-1
+  weight: number;
+  updated_by?: number | null;
+  updated_at?: Date;
+}
+
+interface AttendanceStatusRuleCreationAttributes
+  extends Optional<AttendanceStatusRuleAttributes, "updated_at"> {}
+
+class AttendanceStatusRule
+  extends Model<
+    AttendanceStatusRuleAttributes,
+    AttendanceStatusRuleCreationAttributes
+  >
+  implements AttendanceStatusRuleAttributes
+{
+  public status!: AttendanceStatus;
+  public label!: string;
+  public counts_towards_total!: boolean;
+  public weight!: number;
+  public updated_by!: number | null;
+  public updated_at!: Date;
+}
+
+AttendanceStatusRule.init(
+  {
+    status: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      validate: {
+        isIn: [ATTENDANCE_STATUSES as unknown as string[]],
+      },
+    },
+    label: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+    },
+    counts_towards_total: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    weight: {
+      type: DataTypes.DECIMAL(3, 2),
+      allowNull: false,
+      defaultValue: 0,
+      validate: { min: 0, max: 1 },
+    },
+    updated_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "attendance_status_rules",
+    timestamps: false,
+  }
+);
+
+export default AttendanceStatusRule;
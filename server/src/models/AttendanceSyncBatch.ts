@@ -0,0 +1,97 @@
+import { Model, DataTypes, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+
+interface AttendanceSyncBatchAttributes {
+  batch_id: string;
+  user_id: number;
+  mark_count: number;
+  applied_count: number;
+  conflict_count: number;
+  rejected_count: number;
+  results: object[];
+  queued_at?: Date | null;
+  received_at?: Date;
+}
+
+interface AttendanceSyncBatchCreationAttributes
+  extends Optional<AttendanceSyncBatchAttributes, "received_at"> {}
+
+class AttendanceSyncBatch
+  extends Model<AttendanceSyncBatchAttributes, AttendanceSyncBatchCreationAttributes>
+  implements AttendanceSyncBatchAttributes
+{
+  public batch_id!: string;
+  public user_id!: number;
+  public mark_count!: number;
+  public applied_count!: number;
+  public conflict_count!: number;
+  public rejected_count!: number;
+  public results!: object[];
+  public queued_at!: Date | null;
+  public received_at!: Date;
+
+  // Association helpers
+  static associate(models: any) {
+    AttendanceSyncBatch.belongsTo(models.User, {
+      foreignKey: "user_id",
+      as: "user",
+    });
+  }
+}
+
+AttendanceSyncBatch.init(
+  {
+    batch_id: {
+      type: DataTypes.STRING(64),
+      primaryKey: true,
+    },
+    user_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+    mark_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    applied_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    conflict_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    rejected_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    results: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+    },
+    queued_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    received_at: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "attendance_sync_batches",
+    timestamps: false,
+  }
+);
+
+export default AttendanceSyncBatch;
@@ -7,8 +7,12 @@ interface DetectedClassFaceAttributes {
   capture_id: number;
   face_descriptor?: string;
   face_bbox?: object; // {x, y, width, height}
-  matched_student_id?: number;
+  matched_student_id?: number | null;
   confidence?: number;
+  needs_review?: boolean;
+  match_candidates?: Array<{ student_id: number; confidence: number }> | null;
+  tagged_by?: number | null;
+  tagged_at?: Date | null;
 }
 
 interface DetectedClassFaceCreationAttributes
@@ -25,8 +29,12 @@ class DetectedClassFace
   public capture_id!: number;
   public face_descriptor?: string;
   public face_bbox?: object;
-  public matched_student_id?: number;
+  public matched_student_id?: number | null;
   public confidence?: number;
+  public needs_review?: boolean;
+  public match_candidates?: Array<{ student_id: number; confidence: number }> | null;
+  public tagged_by?: number | null;
+  public tagged_at?: Date | null;
 }
 
 DetectedClassFace.init(
@@ -56,6 +64,23 @@ DetectedClassFace.init(
       type: DataTypes.DECIMAL(5, 4),
       allowNull: true,
     },
+    needs_review: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    match_candidates: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    tagged_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    tagged_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
   },
   {
     sequelize,
@@ -0,0 +1,151 @@
+import { Model, DataTypes, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+
+export type FraudFindingType =
+  | "co_located_scans"
+  | "shared_face"
+  | "far_from_session"
+  | "photo_absent";
+
+export type FraudFindingStatus = "open" | "confirmed" | "dismissed";
+
+interface FraudFindingAttributes {
+  finding_id: number;
+  finding_type: FraudFindingType;
+  fingerprint: string;
+  score: number;
+  status: FraudFindingStatus;
+  student_ids: number[];
+  session_ids: string[];
+  scan_ids: number[];
+  summary: string;
+  details?: object | null;
+  first_detected_at?: Date;
+  last_detected_at?: Date;
+  reviewed_at?: Date | null;
+  reviewed_by?: number | null;
+  review_note?: string | null;
+}
+
+interface FraudFindingCreationAttributes
+  extends Optional<
+    FraudFindingAttributes,
+    "finding_id" | "status" | "first_detected_at" | "last_detected_at"
+  > {}
+
+class FraudFinding
+  extends Model<FraudFindingAttributes, FraudFindingCreationAttributes>
+  implements FraudFindingAttributes
+{
+  public finding_id!: number;
+  public finding_type!: FraudFindingType;
+  public fingerprint!: string;
+  public score!: number;
+  public status!: FraudFindingStatus;
+  public student_ids!: number[];
+  public session_ids!: string[];
+  public scan_ids!: number[];
+  public summary!: string;
+  public details!: object | null;
+  public first_detected_at!: Date;
+  public last_detected_at!: Date;
+  public reviewed_at!: Date | null;
+  public reviewed_by!: number | null;
+  public review_note!: string | null;
+
+  // Association helpers
+  static associate(models: any) {
+    FraudFinding.belongsTo(models.User, {
+      foreignKey: "reviewed_by",
+      as: "reviewer",
+    });
+  }
+}
+
+FraudFinding.init(
+  {
+    finding_id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    finding_type: {
+      type: DataTypes.STRING(30),
+      allowNull: false,
+      validate: {
+        isIn: [["co_located_scans", "shared_face", "far_from_session", "photo_absent"]],
+      },
+    },
+    fingerprint: {
+      type: DataTypes.STRING(200),
+      allowNull: false,
+      unique: true,
+    },
+    score: {
+      type: DataTypes.SMALLINT,
+      allowNull: false,
+      validate: { min: 0, max: 100 },
+    },
+    status: {
+      type: DataTypes.STRING(12),
+      allowNull: false,
+      defaultValue: "open",
+      validate: {
+        isIn: [["open", "confirmed", "dismissed"]],
+      },
+    },
+    student_ids: {
+      type: DataTypes.ARRAY(DataTypes.INTEGER),
+      allowNull: false,
+    },
+    session_ids: {
+      type: DataTypes.ARRAY(DataTypes.TEXT),
+      allowNull: false,
+      defaultValue: [],
+    },
+    scan_ids: {
+      type: DataTypes.ARRAY(DataTypes.INTEGER),
+      allowNull: false,
+      defaultValue: [],
+    },
+    summary: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    details: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    first_detected_at: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    last_detected_at: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    reviewed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    reviewed_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+    review_note: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "fraud_findings",
+    timestamps: false,
+  }
+);
+
+export default FraudFinding;
@@ -0,0 +1,140 @@
+import { Model, DataTypes, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+
+export type LeaveRequestStatus = "pending" | "approved" | "rejected" | "cancelled";
+
+interface LeaveRequestAttributes {
+  leave_id: number;
+  student_id: number;
+  start_date: string;
+  end_date: string;
+  reason: string;
+  document_key?: string | null;
+  document_name?: string | null;
+  document_type?: string | null;
+  status: LeaveRequestStatus;
+  reviewed_by?: number | null;
+  reviewed_at?: Date | null;
+  review_comment?: string | null;
+  excused_records: number;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface LeaveRequestCreationAttributes
+  extends Optional<
+    LeaveRequestAttributes,
+    "leave_id" | "status" | "excused_records" | "created_at" | "updated_at"
+  > {}
+
+class LeaveRequest
+  extends Model<LeaveRequestAttributes, LeaveRequestCreationAttributes>
+  implements LeaveRequestAttributes
+{
+  public leave_id!: number;
+  public student_id!: number;
+  public start_date!: string;
+  public end_date!: string;
+  public reason!: string;
+  public document_key!: string | null;
+  public document_name!: string | null;
+  public document_type!: string | null;
+  public status!: LeaveRequestStatus;
+  public reviewed_by!: number | null;
+  public reviewed_at!: Date | null;
+  public review_comment!: string | null;
+  public excused_records!: number;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Association helpers
+  static associate(models: any) {
+    LeaveRequest.belongsTo(models.Student, {
+      foreignKey: "student_id",
+      as: "student",
+    });
+
+    LeaveRequest.belongsTo(models.User, {
+      foreignKey: "reviewed_by",
+      as: "reviewer",
+    });
+  }
+}
+
+LeaveRequest.init(
+  {
+    leave_id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    student_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "students",
+        key: "student_id",
+      },
+    },
+    start_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    end_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    document_key: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    document_name: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    document_type: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    status: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      defaultValue: "pending",
+      validate: {
+        isIn: [["pending", "approved", "rejected", "cancelled"]],
+      },
+    },
+    reviewed_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+    reviewed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    review_comment: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    excused_records: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+  },
+  {
+    sequelize,
+    tableName: "leave_requests",
+    underscored: true,
+  }
+);
+
+export default LeaveRequest;
@@ -0,0 +1,117 @@
+import { Model, DataTypes, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+
+export type RoomType = "lecture" | "lab" | "seminar";
+
+interface RoomAttributes {
+  room_id: number;
+  room_code: string;
+  building: string;
+  floor?: number | null;
+  capacity: number;
+  room_type: RoomType;
+  equipment: string[];
+  department_id?: number | null;
+  is_active: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface RoomCreationAttributes
+  extends Optional<
+    RoomAttributes,
+    "room_id" | "equipment" | "is_active" | "created_at" | "updated_at"
+  > {}
+
+class Room
+  extends Model<RoomAttributes, RoomCreationAttributes>
+  implements RoomAttributes
+{
+  public room_id!: number;
+  public room_code!: string;
+  public building!: string;
+  public floor!: number | null;
+  public capacity!: number;
+  public room_type!: RoomType;
+  public equipment!: string[];
+  public department_id!: number | null;
+  public is_active!: boolean;
+
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Association helpers
+  static associate(models: any) {
+    // Optional owning department (shared rooms have none)
+    Room.belongsTo(models.Department, {
+      foreignKey: "department_id",
+      as: "department",
+    });
+  }
+}
+
+Room.init(
+  {
+    room_id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    room_code: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      unique: true,
+      validate: {
+        notEmpty: true,
+      },
+    },
+    building: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+      },
+    },
+    floor: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    capacity: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: 1,
+      },
+    },
+    room_type: {
+      type: DataTypes.ENUM("lecture", "lab", "seminar"),
+      allowNull: false,
+      defaultValue: "lecture",
+    },
+    equipment: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: false,
+      defaultValue: [],
+    },
+    department_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "departments",
+        key: "department_id",
+      },
+    },
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "rooms",
+    underscored: true,
+  }
+);
+
+export default Room;
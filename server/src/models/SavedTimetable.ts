@@ -34,6 +34,11 @@ class SavedTimetable
       foreignKey: "createdBy",
       as: "creator",
     });
+
+    SavedTimetable.hasMany(models.SavedTimetableVersion, {
+      foreignKey: "saved_timetable_id",
+      as: "versions",
+    });
   }
 }
 
@@ -0,0 +1,118 @@
+import { Model, DataTypes, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+
+export type VersionChangeType = "create" | "edit" | "publish" | "rollback";
+
+interface SavedTimetableVersionAttributes {
+  version_id: number;
+  saved_timetable_id: number;
+  version_number: number;
+  change_type: VersionChangeType;
+  reason?: string | null;
+  entries: any[];
+  grid_settings: any;
+  source_version?: number | null;
+  created_by?: number | null;
+  created_at?: Date;
+}
+
+interface SavedTimetableVersionCreationAttributes
+  extends Optional<SavedTimetableVersionAttributes, "version_id" | "created_at"> {}
+
+// Rows are never updated: every change to a saved timetable adds a new version
+class SavedTimetableVersion
+  extends Model<
+    SavedTimetableVersionAttributes,
+    SavedTimetableVersionCreationAttributes
+  >
+  implements SavedTimetableVersionAttributes
+{
+  public version_id!: number;
+  public saved_timetable_id!: number;
+  public version_number!: number;
+  public change_type!: VersionChangeType;
+  public reason!: string | null;
+  public entries!: any[];
+  public grid_settings!: any;
+  public source_version!: number | null;
+  public created_by!: number | null;
+
+  public readonly created_at!: Date;
+
+  // Association helpers
+  static associate(models: any) {
+    SavedTimetableVersion.belongsTo(models.SavedTimetable, {
+      foreignKey: "saved_timetable_id",
+      as: "savedTimetable",
+    });
+
+    SavedTimetableVersion.belongsTo(models.User, {
+      foreignKey: "created_by",
+      as: "author",
+    });
+  }
+}
+
+SavedTimetableVersion.init(
+  {
+    version_id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    saved_timetable_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "saved_timetables",
+        key: "id",
+      },
+    },
+    version_number: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    change_type: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      validate: {
+        isIn: [["create", "edit", "publish", "rollback"]],
+      },
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    entries: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+    },
+    grid_settings: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {},
+    },
+    source_version: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    created_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+  },
+  {
+    sequelize,
+    modelName: "SavedTimetableVersion",
+    tableName: "saved_timetable_versions",
+    underscored: true,
+    updatedAt: false,
+  }
+);
+
+export default SavedTimetableVersion;
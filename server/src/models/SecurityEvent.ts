@@ -0,0 +1,161 @@
+import { Model, DataTypes, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+
+export type SecurityEventType =
+  | "identity_mismatch"
+  | "schedule_access_denied"
+  | "missing_profile"
+  | "device_signature_invalid"
+  | "device_shared";
+
+export type SecuritySeverity = "low" | "medium" | "high";
+
+interface SecurityEventAttributes {
+  event_id: number;
+  event_type: SecurityEventType;
+  severity: SecuritySeverity;
+  user_id?: number | null;
+  role?: string | null;
+  route: string;
+  claimed_student_id?: number | null;
+  actual_student_id?: number | null;
+  schedule_id?: number | null;
+  session_id?: string | null;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  details?: object | null;
+  reviewed_at?: Date | null;
+  reviewed_by?: number | null;
+  review_note?: string | null;
+  created_at?: Date;
+}
+
+interface SecurityEventCreationAttributes
+  extends Optional<
+    SecurityEventAttributes,
+    "event_id" | "severity" | "created_at"
+  > {}
+
+class SecurityEvent
+  extends Model<SecurityEventAttributes, SecurityEventCreationAttributes>
+  implements SecurityEventAttributes
+{
+  public event_id!: number;
+  public event_type!: SecurityEventType;
+  public severity!: SecuritySeverity;
+  public user_id!: number | null;
+  public role!: string | null;
+  public route!: string;
+  public claimed_student_id!: number | null;
+  public actual_student_id!: number | null;
+  public schedule_id!: number | null;
+  public session_id!: string | null;
+  public ip_address!: string | null;
+  public user_agent!: string | null;
+  public details!: object | null;
+  public reviewed_at!: Date | null;
+  public reviewed_by!: number | null;
+  public review_note!: string | null;
+
+  public readonly created_at!: Date;
+
+  // Association helpers
+  static associate(models: any) {
+    SecurityEvent.belongsTo(models.User, {
+      foreignKey: "user_id",
+      as: "user",
+    });
+
+    SecurityEvent.belongsTo(models.User, {
+      foreignKey: "reviewed_by",
+      as: "reviewer",
+    });
+  }
+}
+
+SecurityEvent.init(
+  {
+    event_id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    event_type: {
+      type: DataTypes.STRING(40),
+      allowNull: false,
+    },
+    severity: {
+      type: DataTypes.ENUM("low", "medium", "high"),
+      allowNull: false,
+      defaultValue: "medium",
+    },
+    user_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+    role: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+    },
+    route: {
+      type: DataTypes.STRING(200),
+      allowNull: false,
+    },
+    claimed_student_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    actual_student_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    schedule_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    session_id: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    ip_address: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    user_agent: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    details: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    reviewed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    reviewed_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+    review_note: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "security_events",
+    underscored: true,
+    updatedAt: false,
+  }
+);
+
+export default SecurityEvent;
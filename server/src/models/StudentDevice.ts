@@ -0,0 +1,134 @@
+import { Model, DataTypes, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+
+export type StudentDeviceStatus = "pending" | "active" | "rejected" | "revoked";
+
+interface StudentDeviceAttributes {
+  device_id: number;
+  student_id: number;
+  public_key: string;
+  key_fingerprint: string;
+  label?: string | null;
+  user_agent?: string | null;
+  ip_address?: string | null;
+  status: StudentDeviceStatus;
+  reviewed_by?: number | null;
+  reviewed_at?: Date | null;
+  review_note?: string | null;
+  last_used_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface StudentDeviceCreationAttributes
+  extends Optional<
+    StudentDeviceAttributes,
+    "device_id" | "status" | "created_at" | "updated_at"
+  > {}
+
+class StudentDevice
+  extends Model<StudentDeviceAttributes, StudentDeviceCreationAttributes>
+  implements StudentDeviceAttributes
+{
+  public device_id!: number;
+  public student_id!: number;
+  public public_key!: string;
+  public key_fingerprint!: string;
+  public label!: string | null;
+  public user_agent!: string | null;
+  public ip_address!: string | null;
+  public status!: StudentDeviceStatus;
+  public reviewed_by!: number | null;
+  public reviewed_at!: Date | null;
+  public review_note!: string | null;
+  public last_used_at!: Date | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Association helpers
+  static associate(models: any) {
+    StudentDevice.belongsTo(models.Student, {
+      foreignKey: "student_id",
+      as: "student",
+    });
+
+    StudentDevice.belongsTo(models.User, {
+      foreignKey: "reviewed_by",
+      as: "reviewer",
+    });
+  }
+}
+
+StudentDevice.init(
+  {
+    device_id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    student_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "students",
+        key: "student_id",
+      },
+    },
+    public_key: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    key_fingerprint: {
+      type: DataTypes.CHAR(64),
+      allowNull: false,
+      unique: true,
+    },
+    label: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    user_agent: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    ip_address: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    status: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      defaultValue: "pending",
+      validate: {
+        isIn: [["pending", "active", "rejected", "revoked"]],
+      },
+    },
+    reviewed_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+    reviewed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    review_note: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    last_used_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "student_devices",
+    underscored: true,
+  }
+);
+
+export default StudentDevice;
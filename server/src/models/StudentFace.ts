@@ -1,6 +1,18 @@
 import { DataTypes, Model, Optional } from "sequelize";
 import sequelize from "../config/database";
 
+export type FaceTemplateSource = "enrollment" | "adaptive";
+export type FacePose = "center" | "left" | "right" | "up" | "down";
+
+// Sample measurements behind quality_score
+export interface FaceSampleQuality {
+  sharpness: number; // Laplacian variance of the face crop
+  face_size: number; // Face box width / image width
+  yaw: number; // Nose offset from the eye midpoint / eye distance (positive = student's left)
+  pitch: number; // Nose height between the eye line and the mouth (0-1, lower = head up)
+  detection_score: number;
+}
+
 // Student Face attributes
 interface StudentFaceAttributes {
   face_id: number;
@@ -10,12 +22,20 @@ interface StudentFaceAttributes {
   registered_at?: Date;
   is_active: boolean;
   updated_at?: Date;
+  image_purged_at?: Date | null;
+  source: FaceTemplateSource;
+  pose?: FacePose | null;
+  quality_score?: number | null;
+  quality?: FaceSampleQuality | null;
+  scan_id?: number | null;
+  match_count: number;
+  last_matched_at?: Date | null;
 }
 
 interface StudentFaceCreationAttributes
   extends Optional<
     StudentFaceAttributes,
-    "face_id" | "registered_at" | "updated_at"
+    "face_id" | "registered_at" | "updated_at" | "source" | "match_count"
   > {}
 
 class StudentFace
@@ -29,6 +49,14 @@ class StudentFace
   public registered_at?: Date;
   public is_active!: boolean;
   public updated_at?: Date;
+  public image_purged_at?: Date | null;
+  public source!: FaceTemplateSource;
+  public pose?: FacePose | null;
+  public quality_score?: number | null;
+  public quality?: FaceSampleQuality | null;
+  public scan_id?: number | null;
+  public match_count!: number;
+  public last_matched_at?: Date | null;
 }
 
 StudentFace.init(
@@ -62,6 +90,43 @@ StudentFace.init(
       type: DataTypes.DATE,
       defaultValue: DataTypes.NOW,
     },
+    image_purged_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    source: {
+      type: DataTypes.STRING(12),
+      allowNull: false,
+      defaultValue: "enrollment",
+      validate: {
+        isIn: [["enrollment", "adaptive"]],
+      },
+    },
+    pose: {
+      type: DataTypes.STRING(10),
+      allowNull: true,
+    },
+    quality_score: {
+      type: DataTypes.REAL,
+      allowNull: true,
+    },
+    quality: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    scan_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    match_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    last_matched_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
   },
   {
     sequelize,
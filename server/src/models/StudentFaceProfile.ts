@@ -0,0 +1,102 @@
+import { Model, DataTypes, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+
+export type ReenrollmentReason = "confidence_drift" | "near_threshold" | "aged";
+
+interface StudentFaceProfileAttributes {
+  student_id: number;
+  enrolled_at: Date;
+  baseline_confidence?: number | null;
+  recent_confidence?: number | null;
+  verified_scans: number;
+  last_adapted_at?: Date | null;
+  reenrollment_reason?: ReenrollmentReason | null;
+  reenrollment_requested_at?: Date | null;
+  updated_at?: Date;
+}
+
+interface StudentFaceProfileCreationAttributes
+  extends Optional<
+    StudentFaceProfileAttributes,
+    "enrolled_at" | "verified_scans" | "updated_at"
+  > {}
+
+class StudentFaceProfile
+  extends Model<StudentFaceProfileAttributes, StudentFaceProfileCreationAttributes>
+  implements StudentFaceProfileAttributes
+{
+  public student_id!: number;
+  public enrolled_at!: Date;
+  public baseline_confidence!: number | null;
+  public recent_confidence!: number | null;
+  public verified_scans!: number;
+  public last_adapted_at!: Date | null;
+  public reenrollment_reason!: ReenrollmentReason | null;
+  public reenrollment_requested_at!: Date | null;
+  public updated_at!: Date;
+
+  // Association helpers
+  static associate(models: any) {
+    StudentFaceProfile.belongsTo(models.Student, {
+      foreignKey: "student_id",
+      as: "student",
+    });
+  }
+}
+
+StudentFaceProfile.init(
+  {
+    student_id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      references: {
+        model: "students",
+        key: "student_id",
+      },
+    },
+    enrolled_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    baseline_confidence: {
+      type: DataTypes.REAL,
+      allowNull: true,
+    },
+    recent_confidence: {
+      type: DataTypes.REAL,
+      allowNull: true,
+    },
+    verified_scans: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    last_adapted_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    reenrollment_reason: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      validate: {
+        isIn: [["confidence_drift", "near_threshold", "aged"]],
+      },
+    },
+    reenrollment_requested_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "student_face_profiles",
+    timestamps: false,
+  }
+);
+
+export default StudentFaceProfile;
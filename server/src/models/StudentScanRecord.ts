@@ -15,6 +15,10 @@ interface StudentScanRecordAttributes {
   face_match_confidence?: number;
   status: "pending" | "verified" | "rejected";
   rejection_reason?: string;
+  liveness_passed?: boolean | null;
+  liveness_result?: object | null;
+  image_purged_at?: Date | null;
+  device_id?: number | null;
 }
 
 interface StudentScanRecordCreationAttributes
@@ -39,6 +43,10 @@ class StudentScanRecord
   public face_match_confidence?: number;
   public status!: "pending" | "verified" | "rejected";
   public rejection_reason?: string;
+  public liveness_passed?: boolean | null;
+  public liveness_result?: object | null;
+  public image_purged_at?: Date | null;
+  public device_id?: number | null;
 }
 
 StudentScanRecord.init(
@@ -92,6 +100,26 @@ StudentScanRecord.init(
       type: DataTypes.TEXT,
       allowNull: true,
     },
+    liveness_passed: {
+      type: DataTypes.BOOLEAN,
+      allowNull: true,
+    },
+    liveness_result: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    image_purged_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    device_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "student_devices",
+        key: "device_id",
+      },
+    },
   },
   {
     sequelize,
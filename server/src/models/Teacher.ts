@@ -52,6 +52,11 @@ class Teacher
       otherKey: "course_id",
       as: "courses",
     });
+
+    Teacher.hasMany(models.TeacherAvailability, {
+      foreignKey: "teacher_id",
+      as: "availability",
+    });
   }
 }
 
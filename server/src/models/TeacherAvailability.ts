@@ -0,0 +1,116 @@
+import { Model, DataTypes, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+
+export type AvailabilityType = "unavailable" | "preferred";
+
+interface TeacherAvailabilityAttributes {
+  availability_id: number;
+  teacher_id: number;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  availability_type: AvailabilityType;
+  note?: string | null;
+  created_by?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface TeacherAvailabilityCreationAttributes
+  extends Optional<
+    TeacherAvailabilityAttributes,
+    "availability_id" | "created_at" | "updated_at"
+  > {}
+
+class TeacherAvailability
+  extends Model<
+    TeacherAvailabilityAttributes,
+    TeacherAvailabilityCreationAttributes
+  >
+  implements TeacherAvailabilityAttributes
+{
+  public availability_id!: number;
+  public teacher_id!: number;
+  public day_of_week!: string;
+  public start_time!: string;
+  public end_time!: string;
+  public availability_type!: AvailabilityType;
+  public note!: string | null;
+  public created_by!: number | null;
+
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Association helpers
+  static associate(models: any) {
+    TeacherAvailability.belongsTo(models.Teacher, {
+      foreignKey: "teacher_id",
+      as: "teacher",
+    });
+  }
+}
+
+TeacherAvailability.init(
+  {
+    availability_id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    teacher_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "teachers",
+        key: "teacher_id",
+      },
+    },
+    day_of_week: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      validate: {
+        isIn: [
+          [
+            "Monday",
+            "Tuesday",
+            "Wednesday",
+            "Thursday",
+            "Friday",
+            "Saturday",
+          ],
+        ],
+      },
+    },
+    start_time: {
+      type: DataTypes.TIME,
+      allowNull: false,
+    },
+    end_time: {
+      type: DataTypes.TIME,
+      allowNull: false,
+    },
+    availability_type: {
+      type: DataTypes.ENUM("unavailable", "preferred"),
+      allowNull: false,
+    },
+    note: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    created_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: "teacher_availability",
+    underscored: true,
+  }
+);
+
+export default TeacherAvailability;
@@ -10,6 +10,7 @@ interface TeacherClassCaptureAttributes {
   detected_faces_count: number;
   processed: boolean;
   processed_at?: Date;
+  image_purged_at?: Date | null;
 }
 
 interface TeacherClassCaptureCreationAttributes
@@ -32,6 +33,7 @@ class TeacherClassCapture
   public detected_faces_count!: number;
   public processed!: boolean;
   public processed_at?: Date;
+  public image_purged_at?: Date | null;
 }
 
 TeacherClassCapture.init(
@@ -65,6 +67,10 @@ TeacherClassCapture.init(
       type: DataTypes.DATE,
       allowNull: true,
     },
+    image_purged_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
   },
   {
     sequelize,
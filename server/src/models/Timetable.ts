@@ -1,4 +1,4 @@
-import { Model, DataTypes, Optional } from "sequelize";
+import { Model, DataTypes, Optional, Op, WhereOptions } from "sequelize";
 import { sequelize } from "../config/database";
 
 interface TimetableAttributes {
@@ -9,10 +9,13 @@ interface TimetableAttributes {
   day_of_week: string;
   start_time: string;
   end_time: string;
-  classroom?: string;
+  classroom?: string | null;
   // batch_id?: number;
   class_type: string;
   // target_audience?: string;
+  effective_from?: string | null;
+  effective_to?: string | null;
+  request_id?: number | null;
   created_at?: Date;
   updated_at?: Date;
 }
@@ -25,6 +28,9 @@ interface TimetableCreationAttributes
     | "updated_at"
     | "section_id"
     | "classroom"
+    | "effective_from"
+    | "effective_to"
+    | "request_id"
     // | "batch_id"
     // | "target_audience"
   > {}
@@ -40,10 +46,13 @@ class Timetable
   public day_of_week!: string;
   public start_time!: string;
   public end_time!: string;
-  public classroom!: string;
+  public classroom!: string | null;
   // public batch_id!: number;
   public class_type!: string;
   // public target_audience!: string;
+  public effective_from!: string | null;
+  public effective_to!: string | null;
+  public request_id!: number | null;
 
   public readonly created_at!: Date;
   public readonly updated_at!: Date;
@@ -74,6 +83,11 @@ class Timetable
       foreignKey: "schedule_id",
       as: "attendances",
     });
+
+    Timetable.hasMany(models.TimetableException, {
+      foreignKey: "schedule_id",
+      as: "exceptions",
+    });
   }
 }
 
@@ -164,6 +178,22 @@ Timetable.init(
     //     isIn: [["Section", "Batch"]],
     //   },
     // },
+    effective_from: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+    },
+    effective_to: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+    },
+    request_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "timetable_requests",
+        key: "request_id",
+      },
+    },
   },
   {
     sequelize,
@@ -173,4 +203,12 @@ Timetable.init(
   }
 );
 
+// Rows in effect on a date (YYYY-MM-DD); open-ended ranges have NULL bounds
+export const effectiveOn = (date: string): WhereOptions => ({
+  [Op.and]: [
+    { [Op.or]: [{ effective_from: null }, { effective_from: { [Op.lte]: date } }] },
+    { [Op.or]: [{ effective_to: null }, { effective_to: { [Op.gte]: date } }] },
+  ],
+});
+
 export default Timetable;
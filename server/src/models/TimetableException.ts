@@ -0,0 +1,116 @@
+import { Model, DataTypes, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+
+export type ExceptionType = "cancelled" | "rescheduled";
+
+interface TimetableExceptionAttributes {
+  exception_id: number;
+  schedule_id: number;
+  exception_date: string;
+  exception_type: ExceptionType;
+  new_date?: string | null;
+  new_start_time?: string | null;
+  new_end_time?: string | null;
+  new_classroom?: string | null;
+  reason?: string | null;
+  created_by?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface TimetableExceptionCreationAttributes
+  extends Optional<
+    TimetableExceptionAttributes,
+    "exception_id" | "created_at" | "updated_at"
+  > {}
+
+class TimetableException
+  extends Model<
+    TimetableExceptionAttributes,
+    TimetableExceptionCreationAttributes
+  >
+  implements TimetableExceptionAttributes
+{
+  public exception_id!: number;
+  public schedule_id!: number;
+  public exception_date!: string;
+  public exception_type!: ExceptionType;
+  public new_date!: string | null;
+  public new_start_time!: string | null;
+  public new_end_time!: string | null;
+  public new_classroom!: string | null;
+  public reason!: string | null;
+  public created_by!: number | null;
+
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Association helpers
+  static associate(models: any) {
+    TimetableException.belongsTo(models.Timetable, {
+      foreignKey: "schedule_id",
+      as: "schedule",
+    });
+  }
+}
+
+TimetableException.init(
+  {
+    exception_id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    schedule_id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "timetable",
+        key: "schedule_id",
+      },
+    },
+    exception_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    exception_type: {
+      type: DataTypes.ENUM("cancelled", "rescheduled"),
+      allowNull: false,
+    },
+    new_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+    },
+    new_start_time: {
+      type: DataTypes.TIME,
+      allowNull: true,
+    },
+    new_end_time: {
+      type: DataTypes.TIME,
+      allowNull: true,
+    },
+    new_classroom: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    created_by: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: "timetable_exceptions",
+    underscored: true,
+  }
+);
+
+export default TimetableException;
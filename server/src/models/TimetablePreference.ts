@@ -0,0 +1,57 @@
+import { Model, DataTypes, Optional } from "sequelize";
+import { sequelize } from "../config/database";
+
+interface TimetablePreferenceAttributes {
+  user_id: number;
+  soft_constraints: object;
+  updated_at?: Date;
+}
+
+interface TimetablePreferenceCreationAttributes
+  extends Optional<TimetablePreferenceAttributes, "updated_at"> {}
+
+class TimetablePreference
+  extends Model<TimetablePreferenceAttributes, TimetablePreferenceCreationAttributes>
+  implements TimetablePreferenceAttributes
+{
+  public user_id!: number;
+  public soft_constraints!: object;
+  public updated_at!: Date;
+
+  // Association helpers
+  static associate(models: any) {
+    TimetablePreference.belongsTo(models.User, {
+      foreignKey: "user_id",
+      as: "user",
+    });
+  }
+}
+
+TimetablePreference.init(
+  {
+    user_id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      references: {
+        model: "users",
+        key: "user_id",
+      },
+    },
+    soft_constraints: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {},
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "timetable_preferences",
+    timestamps: false,
+  }
+);
+
+export default TimetablePreference;
@@ -6,6 +6,7 @@ interface UserAttributes {
   email: string;
   password_hash: string;
   role: 'student' | 'teacher' | 'coordinator';
+  calendar_token?: string | null;
   created_at?: Date;
   updated_at?: Date;
 }
@@ -17,6 +18,7 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
   public email!: string;
   public password_hash!: string;
   public role!: 'student' | 'teacher' | 'coordinator';
+  public calendar_token!: string | null;
 
   public readonly created_at!: Date;
   public readonly updated_at!: Date;
@@ -58,6 +60,11 @@ User.init(
       type: DataTypes.ENUM('student', 'teacher', 'coordinator'),
       allowNull: false,
     },
+    calendar_token: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+      unique: true,
+    },
   },
   {
     sequelize,
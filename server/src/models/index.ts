@@ -19,8 +19,24 @@ import StudentFace from './StudentFace';
 import StudentScanRecord from './StudentScanRecord';
 import TeacherClassCapture from './TeacherClassCapture';
 import DetectedClassFace from './DetectedClassFace';
-import SmartAttendanceRecord from './SmartAttendanceRecord';
 import SmartTimetableSolution from './SmartTimetableSolution';
+import Room from './Room';
+import TeacherAvailability from './TeacherAvailability';
+import SavedTimetableVersion from './SavedTimetableVersion';
+import TimetableException from './TimetableException';
+import AcademicTerm from './AcademicTerm';
+import AcademicCalendarEvent from './AcademicCalendarEvent';
+import SecurityEvent from './SecurityEvent';
+import AttendancePolicy from './AttendancePolicy';
+import AttendanceStatusRule from './AttendanceStatusRule';
+import FraudFinding from './FraudFinding';
+import LeaveRequest from './LeaveRequest';
+import AttendanceAuditLog from './AttendanceAuditLog';
+import AttendanceDispute from './AttendanceDispute';
+import AttendanceSyncBatch from './AttendanceSyncBatch';
+import StudentDevice from './StudentDevice';
+import StudentFaceProfile from './StudentFaceProfile';
+import TimetablePreference from './TimetablePreference';
 
 // Initialize associations
 const models = {
@@ -41,8 +57,24 @@ const models = {
   StudentScanRecord,
   TeacherClassCapture,
   DetectedClassFace,
-  SmartAttendanceRecord,
   SmartTimetableSolution,
+  Room,
+  TeacherAvailability,
+  SavedTimetableVersion,
+  TimetableException,
+  AcademicTerm,
+  AcademicCalendarEvent,
+  SecurityEvent,
+  AttendancePolicy,
+  AttendanceStatusRule,
+  FraudFinding,
+  LeaveRequest,
+  AttendanceAuditLog,
+  AttendanceDispute,
+  AttendanceSyncBatch,
+  StudentDevice,
+  StudentFaceProfile,
+  TimetablePreference,
 };
 
 // Set up associations
@@ -72,8 +104,24 @@ export {
   StudentScanRecord,
   TeacherClassCapture,
   DetectedClassFace,
-  SmartAttendanceRecord,
   SmartTimetableSolution,
+  Room,
+  TeacherAvailability,
+  SavedTimetableVersion,
+  TimetableException,
+  AcademicTerm,
+  AcademicCalendarEvent,
+  SecurityEvent,
+  AttendancePolicy,
+  AttendanceStatusRule,
+  FraudFinding,
+  LeaveRequest,
+  AttendanceAuditLog,
+  AttendanceDispute,
+  AttendanceSyncBatch,
+  StudentDevice,
+  StudentFaceProfile,
+  TimetablePreference,
 };
 
 export default models;
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { authMiddleware, coordinatorOnly } from '../middleware/auth';
+import {
+  getAcademicTerms,
+  saveAcademicTerm,
+  deleteAcademicTerm,
+  getCalendarEvents,
+  saveCalendarEvent,
+  deleteCalendarEvent,
+  getDayStatus,
+  getCalendarRange
+} from '../controllers/academicCalendarController';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+router.get('/day', getDayStatus);
+router.get('/range', getCalendarRange);
+
+router.get('/terms', getAcademicTerms);
+router.post('/terms', coordinatorOnly, saveAcademicTerm);
+router.put('/terms/:id', coordinatorOnly, saveAcademicTerm);
+router.delete('/terms/:id', coordinatorOnly, deleteAcademicTerm);
+
+router.get('/events', getCalendarEvents);
+router.post('/events', coordinatorOnly, saveCalendarEvent);
+router.put('/events/:id', coordinatorOnly, saveCalendarEvent);
+router.delete('/events/:id', coordinatorOnly, deleteCalendarEvent);
+
+export default router;
@@ -0,0 +1,31 @@
+import express from "express";
+import {
+  generateAITimetable,
+  repairAITimetable,
+  analyzeTimetableSolution,
+  compareTimetableSolutions,
+  updateOptimizationPreferences,
+} from "../controllers/aiTimetableController";
+import { authMiddleware, coordinatorOnly } from "../middleware/auth";
+
+const router = express.Router();
+
+// All CSP routes are restricted to coordinators
+router.use(authMiddleware, coordinatorOnly);
+
+// Generate timetable solutions with the offline CSP engine
+router.post("/generate", generateAITimetable);
+
+// Repair an existing timetable after a change set, moving as little as possible
+router.post("/repair", repairAITimetable);
+
+// Analyze a generated solution
+router.get("/solutions/:solutionId/analysis", analyzeTimetableSolution);
+
+// Compare two or more generated solutions
+router.post("/solutions/compare", compareTimetableSolutions);
+
+// Save soft constraint preferences for future generations
+router.put("/preferences", updateOptimizationPreferences);
+
+export default router;
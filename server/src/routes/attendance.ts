@@ -11,9 +11,11 @@ import {
     markTimetableAttendance,
     getAttendanceHistory,
     getAttendanceDatesForTeacher,
-    getUnifiedAttendance
+    getUnifiedAttendance,
+    getAttendanceAuditLog,
+    syncOfflineAttendance
 } from '../controllers/attendanceController';
-import authenticate from '../middleware/auth';
+import authenticate, { coordinatorOnly, teacherOrCoordinator } from '../middleware/auth';
 
 const router = Router();
 
@@ -27,6 +29,8 @@ router.get('/history/:studentId', authenticate, getAttendanceByStudent);
 // New enhanced attendance routes
 router.get('/timetable/:schedule_id/students', authenticate, getStudentsForTimetableSlot);
 router.post('/timetable/:schedule_id/mark', authenticate, markTimetableAttendance);
+// Marks taken offline, applied once per batch_id
+router.post('/sync', authenticate, teacherOrCoordinator, syncOfflineAttendance);
 router.get('/report/course/:course_id', authenticate, getAttendanceReport);
 router.get('/summary/student/:student_id', authenticate, getStudentAttendanceSummary);
 router.post('/course/:course_id/enroll', authenticate, enrollStudentsInCourse);
@@ -38,4 +42,7 @@ router.get('/dates/teacher/:teacher_id', authenticate, getAttendanceDatesForTeac
 // Unified attendance route (Manual + Smart combined)
 router.get('/unified', authenticate, getUnifiedAttendance);
 
+// Who changed which attendance records and why
+router.get('/audit', authenticate, coordinatorOnly, getAttendanceAuditLog);
+
 export default router;
\ No newline at end of file
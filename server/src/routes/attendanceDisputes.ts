@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { authMiddleware, studentOnly, teacherOrCoordinator } from '../middleware/auth';
+import { uploadDocument } from '../middleware/upload';
+import {
+  createAttendanceDispute,
+  getAttendanceDispute,
+  getAttendanceDisputes,
+  getMyAttendanceDisputes,
+  resolveAttendanceDispute,
+  withdrawAttendanceDispute,
+} from '../controllers/attendanceDisputeController';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// POST /api/attendance-disputes - multipart: table_name, record_id, requested_status, reason, evidence (optional)
+router.post('/', studentOnly, uploadDocument('evidence'), createAttendanceDispute);
+router.get('/mine', studentOnly, getMyAttendanceDisputes);
+router.post('/:id/withdraw', studentOnly, withdrawAttendanceDispute);
+
+// GET /api/attendance-disputes?status=open|accepted|rejected|withdrawn|all&studentId=
+router.get('/', teacherOrCoordinator, getAttendanceDisputes);
+router.post('/:id/resolve', teacherOrCoordinator, resolveAttendanceDispute);
+
+// The student who raised it or a resolver; includes a signed evidence URL
+router.get('/:id', getAttendanceDispute);
+
+export default router;
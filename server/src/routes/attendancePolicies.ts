@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { authMiddleware, coordinatorOnly, teacherOrCoordinator } from '../middleware/auth';
+import {
+  getAttendancePolicies,
+  saveAttendancePolicy,
+  deleteAttendancePolicy,
+  getEffectivePolicy,
+  getAttendanceStatusRules,
+  saveAttendanceStatusRule
+} from '../controllers/attendancePolicyController';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+router.get('/effective', teacherOrCoordinator, getEffectivePolicy);
+
+// How late, excused, on-duty and medical classes count towards the percentage
+router.get('/status-rules', getAttendanceStatusRules);
+router.put('/status-rules/:status', coordinatorOnly, saveAttendanceStatusRule);
+
+router.get('/', coordinatorOnly, getAttendancePolicies);
+router.post('/', coordinatorOnly, saveAttendancePolicy);
+router.put('/:id', coordinatorOnly, saveAttendancePolicy);
+router.delete('/:id', coordinatorOnly, deleteAttendancePolicy);
+
+export default router;
@@ -2,6 +2,7 @@ import { Router, Request, Response } from "express";
 import { authMiddleware } from "../middleware/auth";
 import { sequelize } from "../models";
 import { QueryTypes } from "sequelize";
+import AttendancePolicyService from "../services/AttendancePolicyService";
 
 const router = Router();
 
@@ -10,21 +11,25 @@ router.get("/student/:studentId/detailed-stats", authMiddleware, async (req: Req
   try {
     const { studentId } = req.params;
 
-    // Get course-wise attendance stats
+    // Get course-wise attendance stats; holidays, exam days and dates outside the term don't count,
+    // and late, excused, on-duty and medical classes are weighted per the status rules
     const courseStats: any[] = await sequelize.query(
       `
       SELECT 
         c.course_id,
         c.course_name,
         c.course_code,
-        COUNT(*) as total_classes,
-        SUM(CASE WHEN sar.status = 'present' THEN 1 ELSE 0 END) as attended_classes,
-        SUM(CASE WHEN sar.status = 'absent' THEN 1 ELSE 0 END) as absent_classes,
-        ROUND((SUM(CASE WHEN sar.status = 'present' THEN 1 ELSE 0 END)::numeric / COUNT(*)::numeric * 100), 0) as attendance_percentage
-      FROM smart_attendance_records sar
-      JOIN timetable_slots ts ON sar.schedule_id = ts.slot_id
-      JOIN courses c ON ts.course_id = c.course_id
-      WHERE sar.student_id = :studentId
+        COUNT(attendance_credit(a.status)) as total_classes,
+        COALESCE(SUM(attendance_credit(a.status)), 0) as attended_classes,
+        SUM(CASE WHEN a.status = 'absent' THEN 1 ELSE 0 END) as absent_classes,
+        SUM(CASE WHEN attendance_credit(a.status) IS NULL THEN 1 ELSE 0 END) as excluded_classes,
+        COALESCE(ROUND(SUM(attendance_credit(a.status)) / NULLIF(COUNT(attendance_credit(a.status)), 0) * 100, 0), 0) as attendance_percentage,
+        attendance_min_percentage(c.course_id) as min_attendance_percentage
+      FROM attendance a
+      JOIN timetable t ON a.schedule_id = t.schedule_id
+      JOIN courses c ON t.course_id = c.course_id
+      WHERE a.student_id = :studentId
+        AND is_teaching_day(a.date, c.department_id, c.semester)
       GROUP BY c.course_id, c.course_name, c.course_code
       ORDER BY c.course_code
       `,
@@ -40,6 +45,7 @@ router.get("/student/:studentId/detailed-stats", authMiddleware, async (req: Req
         total_classes: 0,
         total_present: 0,
         total_absent: 0,
+        total_excluded: 0,
         courses: [],
         weekly_trend: [],
       });
@@ -47,26 +53,22 @@ router.get("/student/:studentId/detailed-stats", authMiddleware, async (req: Req
 
     // Calculate overall stats
     const totalClasses = courseStats.reduce((sum, c) => sum + parseInt(c.total_classes), 0);
-    const totalPresent = courseStats.reduce((sum, c) => sum + parseInt(c.attended_classes), 0);
-    const totalAbsent = totalClasses - totalPresent;
-    const overallAttendance = Math.round((totalPresent / totalClasses) * 100);
+    const totalPresent = courseStats.reduce((sum, c) => sum + Number(c.attended_classes), 0);
+    const totalAbsent = courseStats.reduce((sum, c) => sum + parseInt(c.absent_classes), 0);
+    const totalExcluded = courseStats.reduce((sum, c) => sum + parseInt(c.excluded_classes), 0);
+    const overallAttendance = totalClasses > 0 ? Math.round((totalPresent / totalClasses) * 100) : 0;
 
     // Process courses with calculator
     const courses = courseStats.map((course) => {
       const total = parseInt(course.total_classes);
-      const present = parseInt(course.attended_classes);
+      const present = Number(course.attended_classes);
       const absent = parseInt(course.absent_classes);
+      const excluded = parseInt(course.excluded_classes);
       const percentage = parseInt(course.attendance_percentage);
+      const minPercentage = Number(course.min_attendance_percentage);
 
-      // Calculate classes needed for 75% or can skip
-      let classesNeeded = 0;
-      let canSkip = 0;
-
-      if (percentage < 75) {
-        classesNeeded = Math.ceil((0.75 * total - present) / 0.25);
-      } else {
-        canSkip = Math.floor((present - 0.75 * total) / 0.75);
-      }
+      // Classes needed to reach the course's minimum, or that can be skipped
+      const { classes_needed, classes_can_skip } = AttendancePolicyService.shortfall(present, total, minPercentage);
 
       return {
         course_id: course.course_id,
@@ -75,9 +77,11 @@ router.get("/student/:studentId/detailed-stats", authMiddleware, async (req: Req
         total_classes: total,
         attended_classes: present,
         absent_classes: absent,
+        excluded_classes: excluded,
         attendance_percentage: percentage,
-        classes_needed_for_75: classesNeeded,
-        classes_can_skip: Math.max(0, canSkip),
+        min_attendance_percentage: minPercentage,
+        classes_needed,
+        classes_can_skip,
       };
     });
 
@@ -93,12 +97,15 @@ router.get("/student/:studentId/detailed-stats", authMiddleware, async (req: Req
       const weekData: any[] = await sequelize.query(
         `
         SELECT 
-          COUNT(*) as total,
-          SUM(CASE WHEN status = 'present' THEN 1 ELSE 0 END) as present
-        FROM smart_attendance_records
-        WHERE student_id = :studentId
-          AND date >= :weekStart
-          AND date < :weekEnd
+          COUNT(attendance_credit(a.status)) as total,
+          COALESCE(SUM(attendance_credit(a.status)), 0) as present
+        FROM attendance a
+        JOIN timetable t ON a.schedule_id = t.schedule_id
+        JOIN courses c ON t.course_id = c.course_id
+        WHERE a.student_id = :studentId
+          AND a.date >= :weekStart
+          AND a.date < :weekEnd
+          AND is_teaching_day(a.date, c.department_id, c.semester)
         `,
         {
           replacements: {
@@ -111,7 +118,7 @@ router.get("/student/:studentId/detailed-stats", authMiddleware, async (req: Req
       );
 
       const weekTotal = parseInt(weekData[0]?.total || "0");
-      const weekPresent = parseInt(weekData[0]?.present || "0");
+      const weekPresent = Number(weekData[0]?.present || 0);
       const weekPercentage = weekTotal > 0 ? Math.round((weekPresent / weekTotal) * 100) : 0;
 
       weeklyTrend.push({
@@ -125,6 +132,7 @@ router.get("/student/:studentId/detailed-stats", authMiddleware, async (req: Req
       total_classes: totalClasses,
       total_present: totalPresent,
       total_absent: totalAbsent,
+      total_excluded: totalExcluded,
       courses,
       weekly_trend: weeklyTrend,
     });
@@ -146,14 +154,17 @@ router.get("/student/:studentId/course/:courseId/detailed", authMiddleware, asyn
         c.course_id,
         c.course_name,
         c.course_code,
-        COUNT(*) as total_classes,
-        SUM(CASE WHEN sar.status = 'present' THEN 1 ELSE 0 END) as attended_classes,
-        SUM(CASE WHEN sar.status = 'absent' THEN 1 ELSE 0 END) as absent_classes,
-        ROUND((SUM(CASE WHEN sar.status = 'present' THEN 1 ELSE 0 END)::numeric / COUNT(*)::numeric * 100), 0) as attendance_percentage
-      FROM smart_attendance_records sar
-      JOIN timetable_slots ts ON sar.schedule_id = ts.slot_id
-      JOIN courses c ON ts.course_id = c.course_id
-      WHERE sar.student_id = :studentId AND c.course_id = :courseId
+        COUNT(attendance_credit(a.status)) as total_classes,
+        COALESCE(SUM(attendance_credit(a.status)), 0) as attended_classes,
+        SUM(CASE WHEN a.status = 'absent' THEN 1 ELSE 0 END) as absent_classes,
+        SUM(CASE WHEN attendance_credit(a.status) IS NULL THEN 1 ELSE 0 END) as excluded_classes,
+        COALESCE(ROUND(SUM(attendance_credit(a.status)) / NULLIF(COUNT(attendance_credit(a.status)), 0) * 100, 0), 0) as attendance_percentage,
+        attendance_min_percentage(c.course_id) as min_attendance_percentage
+      FROM attendance a
+      JOIN timetable t ON a.schedule_id = t.schedule_id
+      JOIN courses c ON t.course_id = c.course_id
+      WHERE a.student_id = :studentId AND c.course_id = :courseId
+        AND is_teaching_day(a.date, c.department_id, c.semester)
       GROUP BY c.course_id, c.course_name, c.course_code
       `,
       {
@@ -165,7 +176,8 @@ router.get("/student/:studentId/course/:courseId/detailed", authMiddleware, asyn
     if (!courseData || courseData.length === 0) {
       // Get course name even if no attendance
       const course: any[] = await sequelize.query(
-        `SELECT course_id, course_name, course_code FROM courses WHERE course_id = :courseId`,
+        `SELECT course_id, course_name, course_code, attendance_min_percentage(course_id) as min_attendance_percentage
+         FROM courses WHERE course_id = :courseId`,
         {
           replacements: { courseId },
           type: QueryTypes.SELECT,
@@ -183,8 +195,10 @@ router.get("/student/:studentId/course/:courseId/detailed", authMiddleware, asyn
         total_classes: 0,
         attended_classes: 0,
         absent_classes: 0,
+        excluded_classes: 0,
         attendance_percentage: 0,
-        classes_needed_for_75: 0,
+        min_attendance_percentage: Number(course[0].min_attendance_percentage),
+        classes_needed: 0,
         classes_can_skip: 0,
         recent_attendance: [],
         monthly_breakdown: [],
@@ -193,31 +207,31 @@ router.get("/student/:studentId/course/:courseId/detailed", authMiddleware, asyn
 
     const course = courseData[0];
     const totalClasses = parseInt(course.total_classes);
-    const attendedClasses = parseInt(course.attended_classes);
+    const attendedClasses = Number(course.attended_classes);
     const absentClasses = parseInt(course.absent_classes);
+    const excludedClasses = parseInt(course.excluded_classes);
     const attendancePercentage = parseInt(course.attendance_percentage);
+    const minPercentage = Number(course.min_attendance_percentage);
 
-    // Calculate classes needed/can skip
-    let classesNeeded = 0;
-    let canSkip = 0;
-
-    if (attendancePercentage < 75) {
-      classesNeeded = Math.ceil((0.75 * totalClasses - attendedClasses) / 0.25);
-    } else {
-      canSkip = Math.floor((attendedClasses - 0.75 * totalClasses) / 0.75);
-    }
+    // Calculate classes needed/can skip against the course's minimum
+    const { classes_needed, classes_can_skip } = AttendancePolicyService.shortfall(
+      attendedClasses,
+      totalClasses,
+      minPercentage
+    );
 
     // Recent attendance (last 10)
     const recentAttendance: any[] = await sequelize.query(
       `
       SELECT 
-        sar.date,
-        sar.status,
-        sar.created_at as marked_at
-      FROM smart_attendance_records sar
-      JOIN timetable_slots ts ON sar.schedule_id = ts.slot_id
-      WHERE sar.student_id = :studentId AND ts.course_id = :courseId
-      ORDER BY sar.date DESC
+        a.date,
+        a.status,
+        a.source,
+        a.created_at as marked_at
+      FROM attendance a
+      JOIN timetable t ON a.schedule_id = t.schedule_id
+      WHERE a.student_id = :studentId AND t.course_id = :courseId
+      ORDER BY a.date DESC
       LIMIT 10
       `,
       {
@@ -236,15 +250,17 @@ router.get("/student/:studentId/course/:courseId/detailed", authMiddleware, asyn
       const monthData: any[] = await sequelize.query(
         `
         SELECT 
-          COUNT(*) as total,
-          SUM(CASE WHEN sar.status = 'present' THEN 1 ELSE 0 END) as present,
-          SUM(CASE WHEN sar.status = 'absent' THEN 1 ELSE 0 END) as absent
-        FROM smart_attendance_records sar
-        JOIN timetable_slots ts ON sar.schedule_id = ts.slot_id
-        WHERE sar.student_id = :studentId 
-          AND ts.course_id = :courseId
-          AND sar.date >= :monthStart
-          AND sar.date <= :monthEnd
+          COUNT(attendance_credit(a.status)) as total,
+          COALESCE(SUM(attendance_credit(a.status)), 0) as present,
+          SUM(CASE WHEN a.status = 'absent' THEN 1 ELSE 0 END) as absent
+        FROM attendance a
+        JOIN timetable t ON a.schedule_id = t.schedule_id
+        JOIN courses c ON t.course_id = c.course_id
+        WHERE a.student_id = :studentId 
+          AND t.course_id = :courseId
+          AND a.date >= :monthStart
+          AND a.date <= :monthEnd
+          AND is_teaching_day(a.date, c.department_id, c.semester)
         `,
         {
           replacements: {
@@ -257,7 +273,7 @@ router.get("/student/:studentId/course/:courseId/detailed", authMiddleware, asyn
         }
       );
 
-      const present = parseInt(monthData[0]?.present || "0");
+      const present = Number(monthData[0]?.present || 0);
       const absent = parseInt(monthData[0]?.absent || "0");
       const total = parseInt(monthData[0]?.total || "0");
       const percentage = total > 0 ? Math.round((present / total) * 100) : 0;
@@ -277,9 +293,11 @@ router.get("/student/:studentId/course/:courseId/detailed", authMiddleware, asyn
       total_classes: totalClasses,
       attended_classes: attendedClasses,
       absent_classes: absentClasses,
+      excluded_classes: excludedClasses,
       attendance_percentage: attendancePercentage,
-      classes_needed_for_75: classesNeeded,
-      classes_can_skip: Math.max(0, canSkip),
+      min_attendance_percentage: minPercentage,
+      classes_needed,
+      classes_can_skip,
       recent_attendance: recentAttendance,
       monthly_breakdown: monthlyBreakdown,
     });
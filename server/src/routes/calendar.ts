@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth';
+import {
+  getCalendarFeedUrl,
+  regenerateCalendarFeedUrl,
+  getCalendarFeed
+} from '../controllers/calendarController';
+
+const router = Router();
+
+// Calendar apps cannot send a bearer token, so the feed itself is token-in-URL
+router.get('/feed/:token.ics', getCalendarFeed);
+
+router.get('/feed-url', authMiddleware, getCalendarFeedUrl);
+router.post('/feed-url/regenerate', authMiddleware, regenerateCalendarFeedUrl);
+
+export default router;
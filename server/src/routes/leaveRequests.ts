@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { authMiddleware, studentOnly, teacherOrCoordinator } from '../middleware/auth';
+import { uploadDocument } from '../middleware/upload';
+import {
+  cancelLeaveRequest,
+  createLeaveRequest,
+  getLeaveRequest,
+  getLeaveRequests,
+  getMyLeaveRequests,
+  reviewLeaveRequest,
+} from '../controllers/leaveRequestController';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// POST /api/leave-requests - multipart: start_date, end_date, reason, document (optional)
+router.post('/', studentOnly, uploadDocument('document'), createLeaveRequest);
+router.get('/mine', studentOnly, getMyLeaveRequests);
+router.post('/:id/cancel', studentOnly, cancelLeaveRequest);
+
+// GET /api/leave-requests?status=pending|approved|rejected|cancelled|all&studentId=
+router.get('/', teacherOrCoordinator, getLeaveRequests);
+router.post('/:id/review', teacherOrCoordinator, reviewLeaveRequest);
+
+// The student who filed it or a reviewer; includes a signed document URL
+router.get('/:id', getLeaveRequest);
+
+export default router;
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { authMiddleware, coordinatorOnly } from '../middleware/auth';
+import {
+  getAllRooms,
+  getRoomById,
+  createRoom,
+  updateRoom,
+  deleteRoom
+} from '../controllers/roomController';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+router.get('/', getAllRooms);
+router.get('/:id', getRoomById);
+router.post('/', coordinatorOnly, createRoom);
+router.put('/:id', coordinatorOnly, updateRoom);
+router.delete('/:id', coordinatorOnly, deleteRoom);
+
+export default router;
@@ -1,11 +1,16 @@
 import { Router } from "express";
-import authMiddleware from "../middleware/auth";
+import authMiddleware, { coordinatorOnly } from "../middleware/auth";
 import {
   getSavedTimetables,
   getSavedTimetableById,
   createSavedTimetable,
   updateSavedTimetable,
   deleteSavedTimetable,
+  getSavedTimetableVersions,
+  getSavedTimetableVersion,
+  diffSavedTimetableVersions,
+  publishSavedTimetable,
+  rollbackSavedTimetable,
 } from "../controllers/savedTimetableController";
 
 const router = Router();
@@ -20,4 +25,11 @@ router.post("/", createSavedTimetable);
 router.put("/:id", updateSavedTimetable);
 router.delete("/:id", deleteSavedTimetable);
 
+// Version history, diff, publish and rollback
+router.get("/:id/versions", getSavedTimetableVersions);
+router.get("/:id/versions/diff", diffSavedTimetableVersions);
+router.get("/:id/versions/:versionNumber", getSavedTimetableVersion);
+router.post("/:id/publish", coordinatorOnly, publishSavedTimetable);
+router.post("/:id/rollback", coordinatorOnly, rollbackSavedTimetable);
+
 export default router;
@@ -4,17 +4,45 @@ import {
   validateQR,
   verifyFace,
   processClassPhoto,
+  tagClassPhotoFace,
   finalizeAttendance,
   getSessionStatus,
+  getSessionStreamTicket,
+  getStudentStreamTicket,
+  streamSessionEvents,
+  getCurrentQR,
   registerStudentFace,
   getStudentFaces,
   deleteStudentFace,
 } from "../controllers/smartAttendanceController";
-import authMiddleware from "../middleware/auth";
+import {
+  getSecurityEvents,
+  reviewSecurityEvent,
+} from "../controllers/securityEventController";
+import {
+  getFraudFinding,
+  getFraudFindings,
+  reviewFraudFinding,
+  runFraudAnalysis,
+} from "../controllers/fraudFindingController";
+import authMiddleware, {
+  coordinatorOnly,
+  roleMiddleware,
+  studentOnly,
+  teacherOnly,
+  teacherOrCoordinator,
+} from "../middleware/auth";
+import { bindStudent, ownSchedule, trustedDevice } from "../middleware/smartAttendanceAccess";
 
 const router = express.Router();
 
-// All routes require authentication
+const studentOrCoordinator = roleMiddleware(["student", "coordinator"]);
+
+// Live event stream. EventSource can't send the Authorization header, so the
+// stream is authorized by a short-lived ticket from one of the routes below
+router.get("/stream", streamSessionEvents);
+
+// All other routes require authentication
 router.use(authMiddleware);
 
 /**
@@ -22,34 +50,80 @@ router.use(authMiddleware);
  */
 
 // Generate QR code for attendance session (Teacher)
-router.post("/generate-qr", generateAttendanceQR);
+router.post("/generate-qr", teacherOnly, ownSchedule, generateAttendanceQR);
 
 // Process class photo captured by teacher (Teacher)
-router.post("/process-class-photo", processClassPhoto);
+router.post("/process-class-photo", teacherOnly, ownSchedule, processClassPhoto);
+
+// Tag or clear a face in the class photo by hand (Teacher)
+router.put(
+  "/session/:sessionId/class-photo/faces/:detectionId",
+  teacherOnly,
+  ownSchedule,
+  tagClassPhotoFace
+);
 
 // Finalize attendance after cross-verification (Teacher)
-router.post("/finalize", finalizeAttendance);
+router.post("/finalize", teacherOnly, ownSchedule, finalizeAttendance);
+
+// Current code of a rotating QR session (Teacher)
+router.get("/session/:sessionId/qr", teacherOnly, ownSchedule, getCurrentQR);
+
+// Get session status and scanned students (Teacher, Coordinator)
+router.get(
+  "/session/:sessionId/status",
+  teacherOrCoordinator,
+  ownSchedule,
+  getSessionStatus
+);
 
-// Get session status and scanned students (Teacher)
-router.get("/session/:sessionId/status", getSessionStatus);
+// Ticket for live scan, class-photo and finalize events (Teacher, Coordinator)
+router.get(
+  "/session/:sessionId/stream-ticket",
+  teacherOrCoordinator,
+  ownSchedule,
+  getSessionStreamTicket
+);
 
 /**
  * Student Routes
  */
 
-// Validate QR code (Student)
-router.post("/validate-qr", validateQR);
+// Validate QR code, signed by a registered device (Student)
+router.post("/validate-qr", studentOnly, bindStudent, trustedDevice("validate-qr"), validateQR);
 
-// Verify student face after QR scan (Student)
-router.post("/verify-face", verifyFace);
+// Verify student face after QR scan, signed by a registered device (Student)
+router.post("/verify-face", studentOnly, bindStudent, trustedDevice("verify-face"), verifyFace);
+
+// Ticket for the student's own live attendance events (Student)
+router.get("/student/stream-ticket", studentOnly, bindStudent, getStudentStreamTicket);
 
 // Register student face (Student - one-time setup)
-router.post("/register-face", registerStudentFace);
+router.post("/register-face", studentOnly, bindStudent, registerStudentFace);
+
+// Get student's registered faces (Student, Coordinator)
+router.get(
+  "/student/:studentId/faces",
+  studentOrCoordinator,
+  bindStudent,
+  getStudentFaces
+);
+
+// Delete a registered face (Student, Coordinator)
+router.delete("/face/:faceId", studentOrCoordinator, bindStudent, deleteStudentFace);
+
+/**
+ * Coordinator Routes
+ */
 
-// Get student's registered faces (Student)
-router.get("/student/:studentId/faces", getStudentFaces);
+// Rejected identity and class-ownership checks, for review
+router.get("/security-events", coordinatorOnly, getSecurityEvents);
+router.post("/security-events/:id/review", coordinatorOnly, reviewSecurityEvent);
 
-// Delete a registered face (Student)
-router.delete("/face/:faceId", deleteStudentFace);
+// Scored proxy-attendance findings, with drill-down to the scans behind them
+router.get("/fraud-findings", coordinatorOnly, getFraudFindings);
+router.post("/fraud-findings/analyse", coordinatorOnly, runFraudAnalysis);
+router.get("/fraud-findings/:id", coordinatorOnly, getFraudFinding);
+router.post("/fraud-findings/:id/review", coordinatorOnly, reviewFraudFinding);
 
 export default router;
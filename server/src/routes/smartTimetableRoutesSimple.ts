@@ -8,6 +8,12 @@ import {
   createTimetableRequest,
   getTimetableRequests,
   generateTimetable,
+  getGenerationStatus,
+  cancelGeneration,
+  submitTimetableRequest,
+  approveTimetableRequest,
+  rejectTimetableRequest,
+  publishTimetableRequest,
   // Existing routes
   createTimetableEntry,
   getTimetableByTeacher,
@@ -20,7 +26,11 @@ import {
   fetchTimetableViewSettingsBySection,
 } from "../controllers/timetableController";
 
-import { authMiddleware } from "../middleware/auth";
+import {
+  authMiddleware,
+  coordinatorOnly,
+  teacherOrCoordinator,
+} from "../middleware/auth";
 import TimetableExportService from "../services/timetableExportService";
 import GeminiTimetableService from "../services/geminiTimetableService";
 import SmartTimetableSolution from "../models/SmartTimetableSolution";
@@ -76,8 +86,46 @@ router.get(
 router.post(
   "/generator/requests/:requestId/generate",
   authMiddleware,
+  teacherOrCoordinator,
   generateTimetable
 );
+router.get(
+  "/generator/requests/:requestId/status",
+  authMiddleware,
+  getGenerationStatus
+);
+router.post(
+  "/generator/requests/:requestId/cancel",
+  authMiddleware,
+  teacherOrCoordinator,
+  cancelGeneration
+);
+
+// Review and publish: generated -> review -> approved -> published
+router.post(
+  "/generator/requests/:requestId/submit",
+  authMiddleware,
+  teacherOrCoordinator,
+  submitTimetableRequest
+);
+router.post(
+  "/generator/requests/:requestId/approve",
+  authMiddleware,
+  coordinatorOnly,
+  approveTimetableRequest
+);
+router.post(
+  "/generator/requests/:requestId/reject",
+  authMiddleware,
+  coordinatorOnly,
+  rejectTimetableRequest
+);
+router.post(
+  "/generator/requests/:requestId/publish",
+  authMiddleware,
+  coordinatorOnly,
+  publishTimetableRequest
+);
 
 // ==================== AI ROUTES (GEMINI INTEGRATION) ====================
 
@@ -351,7 +399,7 @@ router.post(
       console.log("User:", req.user);
       console.log("Auth header:", req.headers.authorization);
 
-      const { solution, format, metadata } = req.body;
+      const { solution, format, metadata, options } = req.body;
 
       console.log("📋 Export format:", format);
       console.log("📊 Solution to export:", solution?.name || "Unknown");
@@ -375,8 +423,14 @@ router.post(
       const exportOptions = {
         format: format as "pdf" | "csv" | "excel" | "json",
         include_metadata: true,
-        group_by: "day" as "day" | "teacher" | "section",
-        orientation: "landscape" as "portrait" | "landscape",
+        group_by: (["day", "teacher", "section", "room"].includes(options?.group_by)
+          ? options.group_by
+          : format === "pdf"
+          ? "section"
+          : "day") as "day" | "teacher" | "section" | "room",
+        orientation: (options?.orientation === "portrait"
+          ? "portrait"
+          : "landscape") as "portrait" | "landscape",
         institution_name:
           metadata?.institutionName || "Educational Institution",
         academic_year: metadata?.academicYear || "2024-25",
@@ -484,29 +538,26 @@ router.post(
               });
             }
 
-          case "html":
           case "pdf":
-            console.log("🔄 Starting HTML/PDF export...");
+            console.log("🔄 Starting PDF export...");
             result = await exportService.exportToPDF(solution, exportOptions);
-            console.log("HTML/PDF export result:", result);
-            if (result.success && result.filePath) {
+            if (result.success && result.buffer) {
               console.log(
-                "✅ HTML file created, sending download:",
-                result.filePath
+                `✅ PDF created (${result.buffer.length} bytes), sending download`
               );
-              res.setHeader("Content-Type", "text/html");
+              res.setHeader("Content-Type", "application/pdf");
               res.setHeader(
                 "Content-Disposition",
                 `attachment; filename="timetable_${
                   solution.id || "export"
-                }_${Date.now()}.html"`
+                }_${Date.now()}.pdf"`
               );
-              return res.download(result.filePath);
+              return res.send(result.buffer);
             } else {
-              console.error("❌ HTML/PDF export failed:", result.message);
+              console.error("❌ PDF export failed:", result.message);
               return res.status(500).json({
                 success: false,
-                message: result.message || "HTML/PDF export failed",
+                message: result.message || "PDF export failed",
               });
             }
 
@@ -514,7 +565,7 @@ router.post(
             return res.status(400).json({
               success: false,
               message:
-                "Unsupported export format. Supported: json, csv, excel, html",
+                "Unsupported export format. Supported: json, csv, excel, pdf",
             });
         }
 
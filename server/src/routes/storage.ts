@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { authMiddleware, coordinatorOnly } from '../middleware/auth';
+import {
+  getCaptureEvidence,
+  getFaceEvidence,
+  getScanEvidence,
+  getSignedFile,
+  purgeExpiredImages,
+} from '../controllers/storageController';
+
+const router = Router();
+
+// GET /api/storage/files/<key>?expires=&signature= - signed download, no login
+router.get('/files/*', getSignedFile);
+
+router.use(authMiddleware);
+
+// Signed, expiring image URLs for reviewing attendance disputes
+router.get('/evidence/scans/:scanId', coordinatorOnly, getScanEvidence);
+router.get('/evidence/captures/:captureId', coordinatorOnly, getCaptureEvidence);
+router.get('/evidence/faces/:faceId', coordinatorOnly, getFaceEvidence);
+
+// POST /api/storage/retention/purge - delete images past the retention period now
+router.post('/retention/purge', coordinatorOnly, purgeExpiredImages);
+
+export default router;
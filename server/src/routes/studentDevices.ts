@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { authMiddleware, coordinatorOnly, roleMiddleware, studentOnly } from '../middleware/auth';
+import {
+  approveStudentDevice,
+  getMyStudentDevices,
+  getStudentDevices,
+  registerStudentDevice,
+  rejectStudentDevice,
+  revokeStudentDevice,
+} from '../controllers/studentDeviceController';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// POST /api/student-devices - { public_key: base64 SPKI (ECDSA P-256), label? }
+router.post('/', studentOnly, registerStudentDevice);
+router.get('/mine', studentOnly, getMyStudentDevices);
+router.post('/:id/revoke', roleMiddleware(['student', 'coordinator']), revokeStudentDevice);
+
+// GET /api/student-devices?status=pending|active|rejected|revoked|all&studentId=
+router.get('/', coordinatorOnly, getStudentDevices);
+router.post('/:id/approve', coordinatorOnly, approveStudentDevice);
+router.post('/:id/reject', coordinatorOnly, rejectStudentDevice);
+
+export default router;
@@ -11,7 +11,16 @@ import {
   assignCoursesToTeacher,
   removeCourseFromTeacher,
 } from "../controllers/teacherController_new";
-import { authMiddleware, coordinatorOnly } from "../middleware/auth";
+import {
+  getTeacherAvailability,
+  addTeacherAvailability,
+  deleteTeacherAvailability,
+} from "../controllers/teacherAvailabilityController";
+import {
+  authMiddleware,
+  coordinatorOnly,
+  teacherOrCoordinator,
+} from "../middleware/auth";
 
 const router = Router();
 
@@ -52,4 +61,17 @@ router.delete(
   removeCourseFromTeacher
 );
 
+// Route to get a teacher's availability windows
+router.get("/:id/availability", getTeacherAvailability);
+
+// Route to add an availability window (the teacher themself or a coordinator)
+router.post("/:id/availability", teacherOrCoordinator, addTeacherAvailability);
+
+// Route to remove an availability window (the teacher themself or a coordinator)
+router.delete(
+  "/:id/availability/:availabilityId",
+  teacherOrCoordinator,
+  deleteTeacherAvailability
+);
+
 export default router;
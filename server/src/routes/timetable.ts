@@ -22,9 +22,20 @@ import {
   createTimetableRequest,
   getTimetableRequests,
   generateTimetable,
+  getGenerationStatus,
+  cancelGeneration,
+  submitTimetableRequest,
+  approveTimetableRequest,
+  rejectTimetableRequest,
+  publishTimetableRequest,
   generateTimetableAI
 } from '../controllers/timetableController';
-import authenticate from '../middleware/auth';
+import {
+  getTimetableExceptions,
+  saveTimetableException,
+  deleteTimetableException
+} from '../controllers/timetableExceptionController';
+import authenticate, { coordinatorOnly, teacherOrCoordinator } from '../middleware/auth';
 
 const router = express.Router();
 
@@ -40,6 +51,11 @@ router.get('/student/:studentId', authenticate, getTimetableByStudent);
 router.get('/student/:studentId/today', authenticate, getTodayTimetableByStudent);
 router.get('/:scheduleId/students', authenticate, getStudentsForSchedule);
 
+// Cancelled / rescheduled occurrences of a weekly class (shown in calendar feeds)
+router.get('/:scheduleId/exceptions', authenticate, getTimetableExceptions);
+router.post('/:scheduleId/exceptions', authenticate, teacherOrCoordinator, saveTimetableException);
+router.delete('/:scheduleId/exceptions/:exceptionId', authenticate, teacherOrCoordinator, deleteTimetableException);
+
 // Update a timetable entry
 router.put('/:scheduleId', authenticate, updateTimetableEntry);
 
@@ -65,7 +81,15 @@ router.get('/generator/teachers', authenticate, getAvailableTeachers);
 // Timetable Generation Requests
 router.post('/generator/requests', authenticate, createTimetableRequest);
 router.get('/generator/requests/:departmentId', authenticate, getTimetableRequests);
-router.post('/generator/requests/:requestId/generate', authenticate, generateTimetable);
+router.post('/generator/requests/:requestId/generate', authenticate, teacherOrCoordinator, generateTimetable);
+router.get('/generator/requests/:requestId/status', authenticate, getGenerationStatus);
+router.post('/generator/requests/:requestId/cancel', authenticate, teacherOrCoordinator, cancelGeneration);
+
+// Review and publish: generated -> review -> approved -> published
+router.post('/generator/requests/:requestId/submit', authenticate, teacherOrCoordinator, submitTimetableRequest);
+router.post('/generator/requests/:requestId/approve', authenticate, coordinatorOnly, approveTimetableRequest);
+router.post('/generator/requests/:requestId/reject', authenticate, coordinatorOnly, rejectTimetableRequest);
+router.post('/generator/requests/:requestId/publish', authenticate, coordinatorOnly, publishTimetableRequest);
 
 // AI-Powered Timetable Generation (NEW!)
 router.post('/generator/generate-ai', authenticate, generateTimetableAI);
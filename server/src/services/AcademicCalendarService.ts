@@ -0,0 +1,186 @@
+import { Op, WhereOptions } from 'sequelize';
+import AcademicCalendarEvent from '../models/AcademicCalendarEvent';
+import AcademicTerm from '../models/AcademicTerm';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Department/semester the calendar is looked up for; missing values match only institution-wide entries
+export interface CalendarScope {
+  departmentId?: number | null;
+  semester?: number | null;
+}
+
+export type DayReason = 'regular' | 'makeup_day' | 'holiday' | 'exam' | 'outside_term';
+
+export interface DayStatus {
+  date: string;
+  teaching: boolean;
+  // Weekday whose timetable runs on this date (differs from the real weekday on make-up days)
+  timetable_day: string | null;
+  reason: DayReason;
+  title?: string;
+  term?: { term_id: number; name: string } | null;
+}
+
+export type DayResolver = (date: string) => DayStatus;
+
+const scopeWhere = (scope: CalendarScope): WhereOptions => ({
+  [Op.and]: [
+    { [Op.or]: [{ department_id: null }, ...(scope.departmentId ? [{ department_id: scope.departmentId }] : [])] },
+    { [Op.or]: [{ semester: null }, ...(scope.semester ? [{ semester: scope.semester }] : [])] },
+  ],
+});
+
+const weekdayOf = (date: string) => WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+
+/**
+ * AcademicCalendarService - Decides which dates have classes for a department
+ * and semester from term dates, holidays, exam periods and make-up days
+ */
+class AcademicCalendarService {
+  /**
+   * Load the calendar for a date range once and resolve individual days from it.
+   * The rules mirror the is_teaching_day() SQL function used by raw-SQL statistics.
+   */
+  static async resolver(from: string, to: string, scope: CalendarScope): Promise<DayResolver> {
+    const [terms, allTermCount, events] = await Promise.all([
+      AcademicTerm.findAll({
+        where: { ...scopeWhere(scope), start_date: { [Op.lte]: to }, end_date: { [Op.gte]: from } },
+        order: [['start_date', 'ASC']],
+      }),
+      AcademicTerm.count({ where: scopeWhere(scope) }),
+      AcademicCalendarEvent.findAll({
+        where: { ...scopeWhere(scope), start_date: { [Op.lte]: to }, end_date: { [Op.gte]: from } },
+      }),
+    ]);
+
+    return (date: string): DayStatus => {
+      const term = terms.find(t => t.start_date <= date && t.end_date >= date) || null;
+      const termInfo = term ? { term_id: term.term_id, name: term.name } : null;
+      const onDate = events.filter(e => e.start_date <= date && e.end_date >= date);
+
+      const blocking =
+        onDate.find(e => e.event_type === 'holiday') || onDate.find(e => e.event_type === 'exam');
+      if (blocking) {
+        return {
+          date,
+          teaching: false,
+          timetable_day: null,
+          reason: blocking.event_type as DayReason,
+          title: blocking.title,
+          term: termInfo,
+        };
+      }
+
+      // Without any terms for the scope, every date counts as in term
+      if (allTermCount > 0 && !term) {
+        return { date, teaching: false, timetable_day: null, reason: 'outside_term', term: null };
+      }
+
+      const makeup = onDate.find(e => e.event_type === 'makeup_day');
+      if (makeup) {
+        return {
+          date,
+          teaching: true,
+          timetable_day: makeup.follows_day_of_week,
+          reason: 'makeup_day',
+          title: makeup.title,
+          term: termInfo,
+        };
+      }
+
+      return { date, teaching: true, timetable_day: weekdayOf(date), reason: 'regular', term: termInfo };
+    };
+  }
+
+  /**
+   * Calendar status of a single date
+   */
+  static async getDayStatus(date: string, scope: CalendarScope): Promise<DayStatus> {
+    return (await this.resolver(date, date, scope))(date);
+  }
+
+  /**
+   * The term in scope that contains the date, or else the next one to start;
+   * null when the scope has none left
+   */
+  static async currentTerm(date: string, scope: CalendarScope): Promise<AcademicTerm | null> {
+    return AcademicTerm.findOne({
+      where: { ...scopeWhere(scope), end_date: { [Op.gte]: date } },
+      order: [['start_date', 'ASC']],
+    });
+  }
+
+  /**
+   * Status of every date in a range (inclusive), for calendar views
+   */
+  static async getRange(from: string, to: string, scope: CalendarScope): Promise<DayStatus[]> {
+    const resolve = await this.resolver(from, to, scope);
+    const days: DayStatus[] = [];
+    const cursor = new Date(`${from}T00:00:00Z`);
+    const end = new Date(`${to}T00:00:00Z`);
+    while (cursor <= end) {
+      days.push(resolve(cursor.toISOString().split('T')[0]));
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+    return days;
+  }
+
+  /**
+   * Keep the timetable rows that actually meet on a date. Each row is judged by
+   * its course's department and semester, so one teacher's classes can follow
+   * different calendars.
+   */
+  static async filterClassesOn<T>(
+    date: string,
+    rows: T[],
+    scopeOf: (row: T) => CalendarScope,
+    dayOf: (row: T) => string
+  ): Promise<T[]> {
+    const statusFor = await this.cachedStatus(date, date);
+    const meeting: T[] = [];
+    for (const row of rows) {
+      const status = await statusFor(date, scopeOf(row));
+      if (status.teaching && status.timetable_day?.toLowerCase() === dayOf(row).toLowerCase()) {
+        meeting.push(row);
+      }
+    }
+    return meeting;
+  }
+
+  /**
+   * Split attendance records into those that count toward statistics and those
+   * dated on holidays, exam days or outside the term
+   */
+  static async partitionByTeachingDay<T>(
+    records: T[],
+    dateOf: (record: T) => string,
+    scopeOf: (record: T) => CalendarScope
+  ): Promise<{ counted: T[]; excluded: T[] }> {
+    const dates = records.map(dateOf).sort();
+    if (dates.length === 0) return { counted: [], excluded: [] };
+
+    const statusFor = await this.cachedStatus(dates[0], dates[dates.length - 1]);
+    const counted: T[] = [];
+    const excluded: T[] = [];
+    for (const record of records) {
+      const status = await statusFor(dateOf(record), scopeOf(record));
+      (status.teaching ? counted : excluded).push(record);
+    }
+    return { counted, excluded };
+  }
+
+  // One resolver per department/semester, loaded on first use
+  private static async cachedStatus(from: string, to: string) {
+    const resolvers = new Map<string, Promise<DayResolver>>();
+    return async (date: string, scope: CalendarScope) => {
+      const key = `${scope.departmentId ?? ''}:${scope.semester ?? ''}`;
+      if (!resolvers.has(key)) {
+        resolvers.set(key, this.resolver(from, to, scope));
+      }
+      return (await resolvers.get(key)!)(date);
+    };
+  }
+}
+
+export default AcademicCalendarService;
@@ -0,0 +1,92 @@
+import { QueryTypes, Transaction } from 'sequelize';
+import { sequelize } from '../config/database';
+
+export interface AttendanceActor {
+  userId?: number | null;
+  // What is making the change, e.g. 'manual', 'smart_attendance', 'dispute'
+  source: string;
+  reason?: string | null;
+}
+
+export interface AuditLogFilters {
+  studentId?: number;
+  courseId?: number;
+  scheduleId?: number;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+/**
+ * AttendanceAuditService - Who changed attendance and why. A trigger on the
+ * attendance ledger writes every insert, change and delete to
+ * attendance_audit_log (older entries may also name
+ * smart_attendance_records); writes made through withActor (or after
+ * setActor in a transaction) record the acting user, source and reason.
+ */
+class AttendanceAuditService {
+  /**
+   * Attach the actor to the rest of a transaction
+   */
+  static async setActor(transaction: Transaction, actor: AttendanceActor): Promise<void> {
+    await sequelize.query(
+      `SELECT set_config('haazir.actor_user_id', $1, true),
+              set_config('haazir.change_source', $2, true),
+              set_config('haazir.change_reason', $3, true)`,
+      {
+        bind: [actor.userId ? String(actor.userId) : '', actor.source, actor.reason || ''],
+        type: QueryTypes.SELECT,
+        transaction,
+      }
+    );
+  }
+
+  /**
+   * Run attendance writes in a transaction attributed to actor. Writes must
+   * pass the transaction they are given.
+   */
+  static async withActor<T>(actor: AttendanceActor, fn: (transaction: Transaction) => Promise<T>): Promise<T> {
+    return sequelize.transaction(async (transaction) => {
+      await this.setActor(transaction, actor);
+      return fn(transaction);
+    });
+  }
+
+  /**
+   * Audit entries, newest first, with the course and the acting user
+   */
+  static async history(filters: AuditLogFilters = {}) {
+    const conditions: string[] = [];
+    const values: any[] = [];
+    const bind = (value: any) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+
+    if (filters.studentId) conditions.push(`l.student_id = ${bind(filters.studentId)}`);
+    if (filters.scheduleId) conditions.push(`l.schedule_id = ${bind(filters.scheduleId)}`);
+    if (filters.courseId) conditions.push(`t.course_id = ${bind(filters.courseId)}`);
+    if (filters.from) conditions.push(`l.changed_at >= ${bind(filters.from)}::date`);
+    if (filters.to) conditions.push(`l.changed_at < ${bind(filters.to)}::date + 1`);
+
+    return sequelize.query(
+      `SELECT l.audit_id, l.table_name, l.record_id, l.action, l.student_id,
+              s.name AS student_name, s.roll_number,
+              l.schedule_id, t.course_id, c.course_code, c.course_name,
+              l.date, l.old_status, l.new_status, l.old_values, l.new_values,
+              l.actor_user_id, u.email AS actor_email, u.role AS actor_role,
+              l.source, l.reason, l.changed_at
+       FROM attendance_audit_log l
+       LEFT JOIN students s ON s.student_id = l.student_id
+       LEFT JOIN timetable t ON t.schedule_id = l.schedule_id
+       LEFT JOIN courses c ON c.course_id = t.course_id
+       LEFT JOIN users u ON u.user_id = l.actor_user_id
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY l.changed_at DESC, l.audit_id DESC
+       LIMIT ${bind(Math.min(filters.limit || 500, 2000))}`,
+      { bind: values, type: QueryTypes.SELECT }
+    );
+  }
+}
+
+export default AttendanceAuditService;
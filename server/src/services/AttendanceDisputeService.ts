@@ -0,0 +1,352 @@
+import path from 'path';
+import { Op } from 'sequelize';
+import AttendanceDispute, { AttendanceDisputeStatus } from '../models/AttendanceDispute';
+import { AttendanceStatus } from '../models/AttendanceStatusRule';
+import Attendance from '../models/Attendance';
+import Student from '../models/Student';
+import Teacher from '../models/Teacher';
+import Timetable from '../models/Timetable';
+import Course from '../models/Course';
+import User from '../models/User';
+import AttendanceAuditService from './AttendanceAuditService';
+import AttendanceStatusService from './AttendanceStatusService';
+import NotificationService from './NotificationService';
+import StorageService, { UploadedFile } from './StorageService';
+import { Reviewer } from './LeaveRequestService';
+
+export interface DisputeInput {
+  table_name?: string;
+  record_id?: number | string;
+  requested_status?: string;
+  reason?: string;
+}
+
+export interface DisputeFilters {
+  studentId?: number;
+  status?: string;
+  // Only classes this teacher teaches
+  teacherId?: number;
+  limit?: number;
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+const label = (status: string) => status.replace('_', ' ');
+
+/**
+ * AttendanceDisputeService - Students dispute a single attendance record;
+ * the class teacher or a coordinator accepts (changing the record, which the
+ * audit log attributes to the dispute) or rejects it.
+ */
+class AttendanceDisputeService {
+  static async find(disputeId: number): Promise<AttendanceDispute | null> {
+    return AttendanceDispute.findByPk(disputeId, {
+      include: [
+        { model: Student, as: 'student', attributes: ['student_id', 'user_id', 'name', 'roll_number'] },
+        {
+          model: Timetable,
+          as: 'timetable',
+          attributes: ['schedule_id', 'teacher_id', 'day_of_week', 'start_time', 'end_time'],
+          include: [{ model: Course, as: 'course', attributes: ['course_id', 'course_code', 'course_name'] }],
+        },
+        { model: User, as: 'resolver', attributes: ['user_id', 'email', 'role'] },
+      ],
+    });
+  }
+
+  static async list(filters: DisputeFilters = {}): Promise<AttendanceDispute[]> {
+    const where: any = {};
+    if (filters.studentId) where.student_id = filters.studentId;
+    if (filters.status && filters.status !== 'all') where.status = filters.status;
+
+    const timetableWhere: any = {};
+    if (filters.teacherId) timetableWhere.teacher_id = filters.teacherId;
+
+    return AttendanceDispute.findAll({
+      where,
+      include: [
+        { model: Student, as: 'student', attributes: ['student_id', 'name', 'roll_number'] },
+        {
+          model: Timetable,
+          as: 'timetable',
+          attributes: ['schedule_id', 'teacher_id', 'day_of_week', 'start_time', 'end_time'],
+          where: timetableWhere,
+          required: !!filters.teacherId,
+          include: [{ model: Course, as: 'course', attributes: ['course_id', 'course_code', 'course_name'] }],
+        },
+        { model: User, as: 'resolver', attributes: ['user_id', 'email', 'role'] },
+      ],
+      order: [['created_at', 'DESC']],
+      limit: filters.limit || 200,
+    });
+  }
+
+  /**
+   * The teacher's user account for a class, if it has one
+   */
+  static async classTeacherUserId(scheduleId: number | null): Promise<number | null> {
+    if (!scheduleId) return null;
+    const slot = await Timetable.findByPk(scheduleId, { attributes: ['teacher_id'] });
+    if (!slot?.teacher_id) return null;
+    const teacher = await Teacher.findByPk(slot.teacher_id, { attributes: ['user_id'] });
+    return teacher?.user_id ?? null;
+  }
+
+  /**
+   * Who gets told about a new dispute: the class teacher, or the
+   * coordinators when the class has none
+   */
+  static async resolvers(dispute: AttendanceDispute): Promise<{ userIds: number[]; role: string }> {
+    const teacherUserId = await this.classTeacherUserId(dispute.schedule_id);
+    if (teacherUserId) return { userIds: [teacherUserId], role: 'teacher' };
+    const coordinators = await User.findAll({ where: { role: 'coordinator' }, attributes: ['user_id'] });
+    return { userIds: coordinators.map((user) => user.user_id), role: 'coordinator' };
+  }
+
+  /**
+   * Whether a user may accept or reject a dispute
+   */
+  static async canResolve(user: Reviewer, dispute: AttendanceDispute): Promise<boolean> {
+    if (user.role === 'coordinator') return true;
+    if (user.role !== 'teacher') return false;
+    return (await this.classTeacherUserId(dispute.schedule_id)) === user.user_id;
+  }
+
+  /**
+   * Raise a dispute on one of the student's own records
+   */
+  static async raise(
+    student: Student,
+    input: DisputeInput,
+    evidence?: UploadedFile
+  ): Promise<{ dispute?: AttendanceDispute; error?: string }> {
+    // Every mark lives in the attendance ledger
+    if (input.table_name && input.table_name !== 'attendance') {
+      return { error: 'table_name must be attendance' };
+    }
+    const requested = input.requested_status || 'present';
+    if (!AttendanceStatusService.isStatus(requested)) {
+      return { error: 'requested_status is not a valid attendance status' };
+    }
+    const reason = input.reason?.trim();
+    if (!reason) {
+      return { error: 'reason is required' };
+    }
+
+    const record = await Attendance.findByPk(Number(input.record_id));
+    if (!record || record.student_id !== student.student_id) {
+      return { error: 'Attendance record not found' };
+    }
+    if (record.status === requested) {
+      return { error: `This record is already ${label(requested)}` };
+    }
+
+    const recordId = record.attendance_id;
+    const open = await AttendanceDispute.findOne({
+      where: { table_name: 'attendance', record_id: recordId, status: 'open' },
+    });
+    if (open) {
+      return { error: 'There is already an open dispute for this record' };
+    }
+
+    let evidenceKey: string | null = null;
+    if (evidence) {
+      const extension = path.extname(evidence.originalname).toLowerCase();
+      evidenceKey = `dispute-evidence/${student.student_id}/dispute_${Date.now()}${extension}`;
+      await StorageService.saveFile(evidenceKey, evidence.buffer, evidence.mimetype);
+    }
+
+    const dispute = await AttendanceDispute.create({
+      table_name: 'attendance',
+      record_id: recordId,
+      student_id: student.student_id,
+      schedule_id: record.schedule_id,
+      date: String(record.date),
+      recorded_status: record.status,
+      requested_status: requested,
+      reason,
+      evidence_key: evidenceKey,
+      evidence_name: evidence?.originalname ?? null,
+      evidence_type: evidence?.mimetype ?? null,
+    });
+
+    const course = await this.courseLabel(dispute.schedule_id);
+    await this.notify(
+      [student.user_id],
+      'student',
+      '⚖️ Attendance Dispute Raised',
+      `Your dispute of ${course} on ${formatDate(dispute.date)} was sent for review.`,
+      dispute
+    );
+    const resolvers = await this.resolvers(dispute);
+    await this.notify(
+      resolvers.userIds,
+      resolvers.role,
+      '⚖️ New Attendance Dispute',
+      `${student.name} (${student.roll_number}) disputes being marked ${label(dispute.recorded_status)} in ${course} on ${formatDate(dispute.date)}: ${reason}`,
+      dispute,
+      'high'
+    );
+
+    return { dispute };
+  }
+
+  /**
+   * Accept (changing the record to the requested status) or reject an open dispute
+   */
+  static async resolve(
+    dispute: AttendanceDispute,
+    resolver: Reviewer,
+    decision: 'accepted' | 'rejected',
+    note?: string
+  ): Promise<{ dispute?: AttendanceDispute; error?: string }> {
+    if (dispute.status !== 'open') {
+      return { error: `This dispute is already ${dispute.status}` };
+    }
+    if (decision === 'rejected' && !note?.trim()) {
+      return { error: 'A note is required when rejecting a dispute' };
+    }
+
+    const actor = {
+      userId: resolver.user_id,
+      source: 'dispute',
+      reason: `Dispute #${dispute.dispute_id}: ${note?.trim() || dispute.reason}`,
+    };
+    const error = await AttendanceAuditService.withActor(actor, async (transaction) => {
+      if (decision === 'accepted') {
+        const record = await Attendance.findByPk(dispute.record_id, { transaction });
+        if (!record) return 'The disputed attendance record no longer exists';
+        await record.update(
+          {
+            status: dispute.requested_status as AttendanceStatus,
+            source: 'manual',
+            marked_by_user_id: resolver.user_id,
+          },
+          { transaction }
+        );
+      }
+
+      await dispute.update(
+        {
+          status: decision,
+          resolved_by: resolver.user_id,
+          resolved_at: new Date(),
+          resolution_note: note?.trim() || null,
+        },
+        { transaction }
+      );
+      return null;
+    });
+    if (error) return { error };
+
+    const student = await Student.findByPk(dispute.student_id);
+    if (student) {
+      const course = await this.courseLabel(dispute.schedule_id);
+      const comment = dispute.resolution_note ? ` Note: ${dispute.resolution_note}` : '';
+      await this.notify(
+        [student.user_id],
+        'student',
+        decision === 'accepted' ? '✅ Attendance Corrected' : '❌ Attendance Dispute Rejected',
+        decision === 'accepted'
+          ? `Your attendance in ${course} on ${formatDate(dispute.date)} is now ${label(dispute.requested_status)}.${comment}`
+          : `Your dispute of ${course} on ${formatDate(dispute.date)} was rejected.${comment}`,
+        dispute,
+        'high'
+      );
+
+      // A coordinator resolving it keeps the class teacher informed
+      const teacherUserId = await this.classTeacherUserId(dispute.schedule_id);
+      if (teacherUserId && teacherUserId !== resolver.user_id) {
+        await this.notify(
+          [teacherUserId],
+          'teacher',
+          decision === 'accepted' ? '✅ Attendance Corrected' : '❌ Attendance Dispute Rejected',
+          `${student.name}'s dispute of ${course} on ${formatDate(dispute.date)} was ${decision}.`,
+          dispute
+        );
+      }
+    }
+
+    return { dispute };
+  }
+
+  /**
+   * Student withdraws an open dispute
+   */
+  static async withdraw(dispute: AttendanceDispute): Promise<{ dispute?: AttendanceDispute; error?: string }> {
+    if (dispute.status !== 'open') {
+      return { error: `Only open disputes can be withdrawn; this one is ${dispute.status}` };
+    }
+    await dispute.update({ status: 'withdrawn' });
+
+    const student = await Student.findByPk(dispute.student_id);
+    const resolvers = await this.resolvers(dispute);
+    await this.notify(
+      resolvers.userIds,
+      resolvers.role,
+      '⚖️ Attendance Dispute Withdrawn',
+      `${student?.name || 'A student'} withdrew the dispute of ${await this.courseLabel(dispute.schedule_id)} on ${formatDate(dispute.date)}.`,
+      dispute
+    );
+    return { dispute };
+  }
+
+  /**
+   * Open disputes on a set of records, keyed by record id, so a student's
+   * attendance list can show which are under review
+   */
+  static async openFor(recordIds: number[]): Promise<Map<number, AttendanceDisputeStatus>> {
+    const result = new Map<number, AttendanceDisputeStatus>();
+    if (recordIds.length === 0) return result;
+    const disputes = await AttendanceDispute.findAll({
+      where: { table_name: 'attendance', record_id: { [Op.in]: recordIds }, status: 'open' },
+      attributes: ['record_id', 'status'],
+    });
+    disputes.forEach((dispute) => result.set(dispute.record_id, dispute.status));
+    return result;
+  }
+
+  /**
+   * Expiring download URL for the evidence
+   */
+  static async evidenceUrl(dispute: AttendanceDispute) {
+    if (!dispute.evidence_key) return null;
+    return StorageService.signedFile(dispute.evidence_key);
+  }
+
+  private static async courseLabel(scheduleId: number | null): Promise<string> {
+    if (!scheduleId) return 'class';
+    const slot: any = await Timetable.findByPk(scheduleId, {
+      include: [{ model: Course, as: 'course', attributes: ['course_code', 'course_name'] }],
+    });
+    return slot?.course ? `${slot.course.course_code} - ${slot.course.course_name}` : 'class';
+  }
+
+  private static async notify(
+    userIds: number[],
+    userRole: string,
+    title: string,
+    message: string,
+    dispute: AttendanceDispute,
+    priority?: string
+  ) {
+    if (userIds.length === 0) return;
+    try {
+      await NotificationService.notifyAttendanceDispute({
+        userIds,
+        userRole,
+        title,
+        message,
+        disputeId: dispute.dispute_id,
+        status: dispute.status,
+        priority,
+      });
+    } catch (error) {
+      // Notification failure shouldn't undo the dispute
+      console.error(`❌ Failed to send attendance dispute ${dispute.dispute_id} notifications:`, error);
+    }
+  }
+}
+
+export default AttendanceDisputeService;
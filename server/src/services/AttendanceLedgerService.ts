@@ -0,0 +1,67 @@
+import { Transaction } from 'sequelize';
+import Attendance, { AttendanceSource } from '../models/Attendance';
+import { AttendanceStatus } from '../models/AttendanceStatusRule';
+
+export interface LedgerMark {
+  schedule_id: number;
+  student_id: number;
+  date: Date | string;
+  status: AttendanceStatus;
+  source: AttendanceSource;
+  session_id?: string | null;
+  verified_by_scan?: boolean;
+  verified_by_class_photo?: boolean;
+  face_match_confidence?: number | null;
+  marked_by_user_id?: number | null;
+}
+
+// Ledger dates are calendar days
+const toDateOnly = (date: Date | string) =>
+  typeof date === 'string' ? date.split('T')[0] : date.toISOString().split('T')[0];
+
+/**
+ * AttendanceLedgerService - Writes marks to the attendance ledger. A student
+ * has one mark per class per day; marking again replaces it (and the audit log
+ * keeps the old one), so a smart session run after a manual mark, or a second
+ * session for the same class, doesn't create a duplicate.
+ */
+class AttendanceLedgerService {
+  /**
+   * Create or replace the student's mark for the class and day
+   */
+  static async record(
+    mark: LedgerMark,
+    transaction?: Transaction
+  ): Promise<{ record: Attendance; previousStatus: AttendanceStatus | null }> {
+    const values = {
+      status: mark.status,
+      source: mark.source,
+      session_id: mark.session_id ?? null,
+      verified_by_scan: mark.verified_by_scan ?? false,
+      verified_by_class_photo: mark.verified_by_class_photo ?? false,
+      face_match_confidence: mark.face_match_confidence ?? null,
+      marked_by_user_id: mark.marked_by_user_id ?? null,
+    };
+    const date = toDateOnly(mark.date);
+
+    const existing = await Attendance.findOne({
+      where: { schedule_id: mark.schedule_id, student_id: mark.student_id, date },
+      transaction,
+      lock: transaction ? transaction.LOCK.UPDATE : undefined,
+    });
+
+    if (existing) {
+      const previousStatus = existing.status;
+      await existing.update(values, { transaction });
+      return { record: existing, previousStatus };
+    }
+
+    const record = await Attendance.create(
+      { schedule_id: mark.schedule_id, student_id: mark.student_id, date: date as any, ...values },
+      { transaction }
+    );
+    return { record, previousStatus: null };
+  }
+}
+
+export default AttendanceLedgerService;
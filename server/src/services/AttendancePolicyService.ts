@@ -0,0 +1,206 @@
+import { Op } from 'sequelize';
+import AttendancePolicy, { PolicyScope, VerificationFactor } from '../models/AttendancePolicy';
+import AttendanceSession from '../models/AttendanceSession';
+import Course from '../models/Course';
+import Timetable from '../models/Timetable';
+
+export interface PolicySettings {
+  geofence_radius_meters: number;
+  face_match_threshold: number;
+  qr_lifetime_seconds: number;
+  scan_timeout_seconds: number;
+  required_factors: VerificationFactor[];
+  min_attendance_percentage: number;
+}
+
+export type PolicyField = keyof PolicySettings;
+
+export interface EffectivePolicy extends PolicySettings {
+  // Which scope each setting came from
+  sources: Record<PolicyField, PolicyScope | 'default'>;
+}
+
+export interface PolicyTarget {
+  departmentId?: number | null;
+  courseId?: number | null;
+  sessionId?: string | null;
+}
+
+export const POLICY_FIELDS: PolicyField[] = [
+  'geofence_radius_meters',
+  'face_match_threshold',
+  'qr_lifetime_seconds',
+  'scan_timeout_seconds',
+  'required_factors',
+  'min_attendance_percentage',
+];
+
+export const VERIFICATION_FACTORS: VerificationFactor[] = ['face', 'liveness', 'location'];
+
+// Used when no institution policy row exists
+export const DEFAULT_POLICY: PolicySettings = {
+  geofence_radius_meters: 100,
+  face_match_threshold: 0.6,
+  qr_lifetime_seconds: 300,
+  scan_timeout_seconds: 60,
+  required_factors: ['face', 'liveness'],
+  min_attendance_percentage: 75,
+};
+
+const SCOPE_ORDER: PolicyScope[] = ['session', 'course', 'department', 'institution'];
+
+// DECIMAL columns come back from pg as strings
+const settingOf = (policy: AttendancePolicy, field: PolicyField) => {
+  const value = policy[field];
+  if (value === null || value === undefined) return null;
+  return field === 'required_factors' ? value : Number(value);
+};
+
+/**
+ * AttendancePolicyService - Resolves the attendance rules that apply to a
+ * department, course or smart-attendance session. Each setting is taken from
+ * the most specific policy that sets it: session, then course, then
+ * department, then institution.
+ */
+class AttendancePolicyService {
+  /**
+   * Effective policy for a target, with the scope each setting came from
+   */
+  static async resolve(target: PolicyTarget = {}): Promise<EffectivePolicy> {
+    const scopes: any[] = [{ scope: 'institution' }];
+    if (target.departmentId) scopes.push({ scope: 'department', department_id: target.departmentId });
+    if (target.courseId) scopes.push({ scope: 'course', course_id: target.courseId });
+    if (target.sessionId) scopes.push({ scope: 'session', session_id: target.sessionId });
+
+    const policies = await AttendancePolicy.findAll({ where: { [Op.or]: scopes } });
+    policies.sort((a, b) => SCOPE_ORDER.indexOf(a.scope) - SCOPE_ORDER.indexOf(b.scope));
+
+    const effective: any = { ...DEFAULT_POLICY, sources: {} };
+    for (const field of POLICY_FIELDS) {
+      const policy = policies.find((p) => settingOf(p, field) !== null);
+      effective[field] = policy ? settingOf(policy, field) : DEFAULT_POLICY[field];
+      effective.sources[field] = policy ? policy.scope : 'default';
+    }
+    return effective as EffectivePolicy;
+  }
+
+  /**
+   * Effective policy for a timetable slot's course and department, and
+   * optionally a session run for it
+   */
+  static async forSchedule(scheduleId: number, sessionId?: string | null): Promise<EffectivePolicy> {
+    const schedule = (await Timetable.findByPk(scheduleId, {
+      attributes: ['schedule_id', 'course_id'],
+      include: [{ model: Course, as: 'course', attributes: ['course_id', 'department_id'] }],
+    })) as any;
+
+    return this.resolve({
+      departmentId: schedule?.course?.department_id ?? null,
+      courseId: schedule?.course_id ?? null,
+      sessionId,
+    });
+  }
+
+  /**
+   * Effective policy for a smart-attendance session, including its own override
+   */
+  static async forSession(session: AttendanceSession): Promise<EffectivePolicy> {
+    return this.forSchedule(session.schedule_id, session.session_id);
+  }
+
+  /**
+   * Read policy settings from a request body. Missing, null or empty values
+   * mean "inherit" and are returned as null.
+   */
+  static parseSettings(input: any): { settings: Partial<Record<PolicyField, any>>; error?: string } {
+    const settings: Partial<Record<PolicyField, any>> = {};
+    const ranges: Record<Exclude<PolicyField, 'required_factors'>, [number, number, boolean]> = {
+      geofence_radius_meters: [10, 100000, true],
+      face_match_threshold: [0.3, 0.99, false],
+      qr_lifetime_seconds: [30, 3600, true],
+      scan_timeout_seconds: [15, 600, true],
+      min_attendance_percentage: [0, 100, false],
+    };
+
+    for (const field of POLICY_FIELDS) {
+      const value = input?.[field];
+      if (value === undefined || value === null || value === '') {
+        settings[field] = null;
+        continue;
+      }
+
+      if (field === 'required_factors') {
+        if (!Array.isArray(value) || value.some((factor) => !VERIFICATION_FACTORS.includes(factor))) {
+          return { settings, error: `required_factors must be a list of: ${VERIFICATION_FACTORS.join(', ')}` };
+        }
+        settings[field] = Array.from(new Set(value));
+        continue;
+      }
+
+      const [min, max, whole] = ranges[field];
+      const number = Number(value);
+      if (!Number.isFinite(number) || number < min || number > max || (whole && !Number.isInteger(number))) {
+        return { settings, error: `${field} must be ${whole ? 'a whole number' : 'a number'} from ${min} to ${max}` };
+      }
+      settings[field] = number;
+    }
+    return { settings };
+  }
+
+  static requires(policy: PolicySettings, factor: VerificationFactor): boolean {
+    return policy.required_factors.includes(factor);
+  }
+
+  /**
+   * Settings in an override that are more lenient than the policy they would
+   * replace. Teachers may only tighten the rules for their own sessions.
+   */
+  static loosenedFields(base: PolicySettings, override: Partial<PolicySettings>): PolicyField[] {
+    const loosened: PolicyField[] = [];
+    if (override.geofence_radius_meters != null && override.geofence_radius_meters > base.geofence_radius_meters) {
+      loosened.push('geofence_radius_meters');
+    }
+    if (override.face_match_threshold != null && override.face_match_threshold < base.face_match_threshold) {
+      loosened.push('face_match_threshold');
+    }
+    if (override.qr_lifetime_seconds != null && override.qr_lifetime_seconds > base.qr_lifetime_seconds) {
+      loosened.push('qr_lifetime_seconds');
+    }
+    if (override.scan_timeout_seconds != null && override.scan_timeout_seconds > base.scan_timeout_seconds) {
+      loosened.push('scan_timeout_seconds');
+    }
+    if (
+      override.required_factors != null &&
+      base.required_factors.some((factor) => !override.required_factors!.includes(factor))
+    ) {
+      loosened.push('required_factors');
+    }
+    if (override.min_attendance_percentage != null) {
+      loosened.push('min_attendance_percentage');
+    }
+    return loosened;
+  }
+
+  /**
+   * How many consecutive classes a student must attend to reach the minimum,
+   * or how many they can miss and stay above it. classes_needed is null when
+   * the minimum can no longer be reached (a 100% rule after any absence).
+   */
+  static shortfall(present: number, total: number, minPercentage: number) {
+    const min = minPercentage / 100;
+    const percentage = total > 0 ? (present / total) * 100 : 0;
+
+    if (percentage < minPercentage) {
+      return {
+        classes_needed: min >= 1 ? null : Math.ceil((min * total - present) / (1 - min)),
+        classes_can_skip: 0,
+      };
+    }
+    return {
+      classes_needed: 0,
+      classes_can_skip: min <= 0 ? present : Math.max(0, Math.floor((present - min * total) / min)),
+    };
+  }
+}
+
+export default AttendancePolicyService;
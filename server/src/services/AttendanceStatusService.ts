@@ -0,0 +1,132 @@
+import AttendanceStatusRule, {
+  ATTENDANCE_STATUSES,
+  AttendanceStatus,
+} from '../models/AttendanceStatusRule';
+
+export interface StatusRule {
+  status: AttendanceStatus;
+  label: string;
+  counts_towards_total: boolean;
+  weight: number;
+}
+
+export type StatusRules = Record<AttendanceStatus, StatusRule>;
+
+export interface AttendanceTally {
+  // Every record, whether it counts or not
+  total_records: number;
+  // Records whose status counts towards the percentage
+  total_classes: number;
+  // Weighted credit, e.g. a late arrival at 0.5 adds half a class
+  attended_classes: number;
+  attendance_percentage: number;
+  status_counts: Record<AttendanceStatus, number>;
+}
+
+// Used when a status has no rule row
+export const DEFAULT_STATUS_RULES: StatusRules = {
+  present: { status: 'present', label: 'Present', counts_towards_total: true, weight: 1 },
+  absent: { status: 'absent', label: 'Absent', counts_towards_total: true, weight: 0 },
+  late: { status: 'late', label: 'Late', counts_towards_total: true, weight: 0.5 },
+  excused: { status: 'excused', label: 'Excused', counts_towards_total: false, weight: 0 },
+  on_duty: { status: 'on_duty', label: 'On duty', counts_towards_total: true, weight: 1 },
+  medical: { status: 'medical', label: 'Medical leave', counts_towards_total: false, weight: 0 },
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * AttendanceStatusService - How each attendance status (present, absent,
+ * late, excused, on duty, medical) counts towards the attendance percentage.
+ * SQL reports use attendance_credit(), which reads the same rules.
+ */
+class AttendanceStatusService {
+  static isStatus(value: any): value is AttendanceStatus {
+    return ATTENDANCE_STATUSES.includes(value);
+  }
+
+  /**
+   * Current rule for every status
+   */
+  static async rules(): Promise<StatusRules> {
+    const rows = await AttendanceStatusRule.findAll();
+    const rules: StatusRules = { ...DEFAULT_STATUS_RULES };
+    for (const row of rows) {
+      rules[row.status] = {
+        status: row.status,
+        label: row.label,
+        counts_towards_total: row.counts_towards_total,
+        // DECIMAL columns come back from pg as strings
+        weight: Number(row.weight),
+      };
+    }
+    return rules;
+  }
+
+  /**
+   * Credit a status earns, or null when it doesn't count towards the percentage
+   */
+  static credit(rules: StatusRules, status: string): number | null {
+    const rule = this.isStatus(status) ? rules[status] : null;
+    return rule && rule.counts_towards_total ? rule.weight : null;
+  }
+
+  /**
+   * Totals and weighted percentage for a list of attendance statuses
+   */
+  static tally(rules: StatusRules, statuses: string[]): AttendanceTally {
+    const statusCounts = ATTENDANCE_STATUSES.reduce(
+      (counts, status) => ({ ...counts, [status]: 0 }),
+      {} as Record<AttendanceStatus, number>
+    );
+    let totalClasses = 0;
+    let attended = 0;
+
+    for (const status of statuses) {
+      if (this.isStatus(status)) statusCounts[status]++;
+      const credit = this.credit(rules, status);
+      if (credit === null) continue;
+      totalClasses++;
+      attended += credit;
+    }
+
+    return {
+      total_records: statuses.length,
+      total_classes: totalClasses,
+      attended_classes: round2(attended),
+      attendance_percentage: totalClasses > 0 ? round2((attended / totalClasses) * 100) : 0,
+      status_counts: statusCounts,
+    };
+  }
+
+  /**
+   * Change how a status counts; weight must be between 0 and 1
+   */
+  static async update(
+    status: AttendanceStatus,
+    input: { label?: string; counts_towards_total?: boolean; weight?: number | string },
+    userId?: number | null
+  ): Promise<{ rule?: AttendanceStatusRule; error?: string }> {
+    const current = (await this.rules())[status];
+    const weight = input.weight === undefined || input.weight === '' ? current.weight : Number(input.weight);
+    if (!Number.isFinite(weight) || weight < 0 || weight > 1) {
+      return { error: 'weight must be a number from 0 to 1' };
+    }
+    if (input.counts_towards_total !== undefined && typeof input.counts_towards_total !== 'boolean') {
+      return { error: 'counts_towards_total must be true or false' };
+    }
+
+    const values = {
+      status,
+      label: input.label?.trim() || current.label,
+      counts_towards_total: input.counts_towards_total ?? current.counts_towards_total,
+      weight,
+      updated_by: userId ?? null,
+      updated_at: new Date(),
+    };
+    const [rule] = await AttendanceStatusRule.upsert(values);
+    return { rule };
+  }
+}
+
+export default AttendanceStatusService;
@@ -0,0 +1,337 @@
+import { Op, Transaction, UniqueConstraintError } from 'sequelize';
+import Attendance, { AttendanceSource } from '../models/Attendance';
+import AttendanceSyncBatch from '../models/AttendanceSyncBatch';
+import { AttendanceStatus } from '../models/AttendanceStatusRule';
+import Course from '../models/Course';
+import Student from '../models/Student';
+import Teacher from '../models/Teacher';
+import Timetable from '../models/Timetable';
+import AcademicCalendarService from './AcademicCalendarService';
+import AttendanceAuditService from './AttendanceAuditService';
+import AttendanceLedgerService from './AttendanceLedgerService';
+import AttendanceStatusService from './AttendanceStatusService';
+import LeaveRequestService, { Reviewer } from './LeaveRequestService';
+
+// A day of classes for a large department fits comfortably
+const MAX_BATCH_MARKS = 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const BATCH_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+const SMART_SOURCES: AttendanceSource[] = ['qr_face', 'class_photo'];
+
+export interface OfflineMark {
+  schedule_id?: number | string;
+  student_id?: number | string;
+  date?: string;
+  status?: string;
+  // When the teacher made the mark, from the browser's clock
+  marked_at?: string;
+}
+
+export interface OfflineBatchInput {
+  batch_id?: string;
+  queued_at?: string;
+  marks?: OfflineMark[];
+}
+
+export type SyncOutcome = 'applied' | 'unchanged' | 'kept_server' | 'rejected';
+
+// Which rule decided a mark's outcome, in the order they are checked
+export type SyncRule =
+  | 'invalid'
+  | 'superseded' // a later mark in the same batch for the same student and class
+  | 'same_status'
+  | 'verified_presence' // a verified scan or class photo beats an offline absence
+  | 'newer_server_mark' // the server's mark changed after the offline mark was made
+  | 'offline_newer'
+  | 'new_mark';
+
+export interface SyncResult {
+  schedule_id: number;
+  student_id: number;
+  date: string;
+  // What the teacher marked offline
+  status: string;
+  marked_at: string | null;
+  outcome: SyncOutcome;
+  rule: SyncRule;
+  message?: string;
+  // The mark on the server after the sync
+  recorded_status: AttendanceStatus | null;
+  recorded_source: AttendanceSource | null;
+  previous_status?: AttendanceStatus | null;
+}
+
+interface CheckedMark {
+  result: SyncResult;
+  markedAt: Date;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const slotKey = (mark: { schedule_id: number; student_id: number; date: string }) =>
+  `${mark.schedule_id}|${mark.student_id}|${mark.date}`;
+
+/**
+ * AttendanceSyncService - Applies attendance a teacher took offline. The
+ * browser queues marks with the time each was made and posts them as a batch
+ * once it is back online; a batch id that was already processed gets the
+ * stored outcome back, so retries never apply marks twice. Where the server
+ * already has a different mark, fixed rules (see SyncRule) decide which one
+ * stands, and the teacher is shown every mark that didn't.
+ */
+class AttendanceSyncService {
+  static async sync(
+    user: Reviewer,
+    input: OfflineBatchInput
+  ): Promise<{ batch?: AttendanceSyncBatch; replayed?: boolean; error?: string }> {
+    const batchId = String(input.batch_id || '');
+    if (!BATCH_ID_PATTERN.test(batchId)) {
+      return { error: 'batch_id must be 8-64 letters, digits, dashes or underscores' };
+    }
+    const marks = Array.isArray(input.marks) ? input.marks : [];
+    if (marks.length === 0) {
+      return { error: 'marks must be a non-empty array' };
+    }
+    if (marks.length > MAX_BATCH_MARKS) {
+      return { error: `A batch can hold at most ${MAX_BATCH_MARKS} marks` };
+    }
+
+    const stored = await this.storedBatch(batchId, user);
+    if (stored) return stored;
+
+    let teacherId: number | null = null;
+    if (user.role !== 'coordinator') {
+      const teacher = await Teacher.findOne({ where: { user_id: user.user_id }, attributes: ['teacher_id'] });
+      if (!teacher) return { error: 'No teacher profile is linked to this account' };
+      teacherId = teacher.teacher_id;
+    }
+
+    const checked = await this.check(marks, teacherId);
+    const queuedAt = input.queued_at && !isNaN(Date.parse(input.queued_at)) ? new Date(input.queued_at) : null;
+    const actor = {
+      userId: user.user_id,
+      source: 'offline_sync',
+      reason: `Offline batch ${batchId}${queuedAt ? ` queued ${queuedAt.toISOString()}` : ''}`,
+    };
+
+    try {
+      const batch = await AttendanceAuditService.withActor(actor, async (transaction) => {
+        for (const mark of checked) {
+          if (mark.result.outcome === 'rejected' || mark.result.rule === 'superseded') continue;
+          await this.apply(mark, user.user_id, transaction);
+        }
+
+        const results = checked.map((mark) => mark.result);
+        return AttendanceSyncBatch.create(
+          {
+            batch_id: batchId,
+            user_id: user.user_id,
+            mark_count: results.length,
+            applied_count: results.filter((r) => r.outcome === 'applied').length,
+            conflict_count: results.filter((r) => r.outcome === 'kept_server').length,
+            rejected_count: results.filter((r) => r.outcome === 'rejected').length,
+            results,
+            queued_at: queuedAt,
+          },
+          { transaction }
+        );
+      });
+      return { batch, replayed: false };
+    } catch (error) {
+      // The same batch arrived twice at once; the other request applied it
+      if (error instanceof UniqueConstraintError) {
+        const replay = await this.storedBatch(batchId, user);
+        if (replay) return replay;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Validate every mark against the schedule, the academic calendar and the
+   * teacher's classes, turning absences on approved leave into excused the way
+   * online marking does. Marks that can't be applied come back rejected.
+   */
+  private static async check(marks: OfflineMark[], teacherId: number | null): Promise<CheckedMark[]> {
+    const now = new Date();
+    const scheduleIds = Array.from(new Set(marks.map((m) => Number(m.schedule_id)).filter((id) => id > 0)));
+    const studentIds = Array.from(new Set(marks.map((m) => Number(m.student_id)).filter((id) => id > 0)));
+
+    const schedules = await Timetable.findAll({
+      where: { schedule_id: { [Op.in]: scheduleIds } },
+      attributes: ['schedule_id', 'teacher_id', 'day_of_week'],
+      include: [{ model: Course, as: 'course', attributes: ['course_id', 'department_id', 'semester'] }],
+    });
+    const scheduleById = new Map(schedules.map((s) => [s.schedule_id, s as any]));
+    const knownStudents = new Set(
+      (await Student.findAll({ where: { student_id: { [Op.in]: studentIds } }, attributes: ['student_id'] })).map(
+        (s) => s.student_id
+      )
+    );
+
+    const classDays = new Map<string, string | null>();
+    const classDayProblem = async (schedule: any, date: string): Promise<string | null> => {
+      const key = `${schedule.schedule_id}|${date}`;
+      if (!classDays.has(key)) {
+        const day = await AcademicCalendarService.getDayStatus(date, {
+          departmentId: schedule.course?.department_id,
+          semester: schedule.course?.semester,
+        });
+        classDays.set(
+          key,
+          !day.teaching
+            ? `No classes on ${date} per the academic calendar`
+            : day.timetable_day!.toLowerCase() !== String(schedule.day_of_week).toLowerCase()
+            ? `This class doesn't meet on ${date}`
+            : null
+        );
+      }
+      return classDays.get(key)!;
+    };
+
+    const checked: CheckedMark[] = [];
+    for (const mark of marks) {
+      const markedAt = mark.marked_at && !isNaN(Date.parse(mark.marked_at)) ? new Date(mark.marked_at) : null;
+      const result: SyncResult = {
+        schedule_id: Number(mark.schedule_id),
+        student_id: Number(mark.student_id),
+        date: String(mark.date || ''),
+        status: String(mark.status || ''),
+        marked_at: markedAt ? markedAt.toISOString() : null,
+        outcome: 'rejected',
+        rule: 'invalid',
+        recorded_status: null,
+        recorded_source: null,
+      };
+      const schedule = scheduleById.get(result.schedule_id);
+
+      let problem: string | null = null;
+      if (!schedule) problem = 'Class not found';
+      else if (teacherId !== null && schedule.teacher_id !== teacherId) problem = 'You can only mark your own classes';
+      else if (!knownStudents.has(result.student_id)) problem = 'Student not found';
+      else if (!AttendanceStatusService.isStatus(result.status)) problem = 'Not a valid attendance status';
+      else if (!DATE_PATTERN.test(result.date) || result.date > today()) problem = 'Date must be today or earlier';
+      else if (!markedAt) problem = 'marked_at is required';
+      else problem = await classDayProblem(schedule, result.date);
+
+      if (problem) result.message = problem;
+      else result.outcome = 'applied';
+      // A browser clock running fast can't make a mark newer than now
+      checked.push({ result, markedAt: markedAt && markedAt < now ? markedAt : now });
+    }
+
+    // Only the latest mark per student, class and day counts
+    const latest = new Map<string, CheckedMark>();
+    checked.forEach((mark) => {
+      if (mark.result.outcome === 'rejected') return;
+      const key = slotKey(mark.result);
+      const current = latest.get(key);
+      if (current && current.markedAt > mark.markedAt) {
+        mark.result.outcome = 'unchanged';
+        mark.result.rule = 'superseded';
+        return;
+      }
+      if (current) {
+        current.result.outcome = 'unchanged';
+        current.result.rule = 'superseded';
+      }
+      latest.set(key, mark);
+    });
+
+    const byDate = new Map<string, CheckedMark[]>();
+    latest.forEach((mark) => {
+      const group = byDate.get(mark.result.date) || [];
+      group.push(mark);
+      byDate.set(mark.result.date, group);
+    });
+    for (const [date, group] of Array.from(byDate.entries())) {
+      const leave = await LeaveRequestService.leaveOn(group.map((m) => m.result.student_id), date);
+      group.forEach((mark) => {
+        if (mark.result.status === 'absent' && leave.get(mark.result.student_id) === 'approved') {
+          mark.result.status = 'excused';
+        }
+      });
+    }
+
+    return checked;
+  }
+
+  /**
+   * Apply one validated mark, or keep the server's mark per the conflict rules
+   */
+  private static async apply(mark: CheckedMark, userId: number, transaction: Transaction): Promise<void> {
+    const { result } = mark;
+    const status = result.status as AttendanceStatus;
+    const existing = await Attendance.findOne({
+      where: { schedule_id: result.schedule_id, student_id: result.student_id, date: result.date },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+
+    const keep = (outcome: SyncOutcome, rule: SyncRule, message?: string) => {
+      result.outcome = outcome;
+      result.rule = rule;
+      if (message) result.message = message;
+      result.recorded_status = existing!.status;
+      result.recorded_source = existing!.source;
+    };
+
+    if (existing) {
+      if (existing.status === status) {
+        return keep('unchanged', 'same_status');
+      }
+      if (
+        status === 'absent' &&
+        SMART_SOURCES.includes(existing.source) &&
+        (existing.verified_by_scan || existing.verified_by_class_photo)
+      ) {
+        return keep(
+          'kept_server',
+          'verified_presence',
+          `Verified by ${existing.verified_by_scan ? 'QR and face scan' : 'the class photo'} as ${existing.status}`
+        );
+      }
+      if (existing.updated_at && existing.updated_at > mark.markedAt) {
+        return keep(
+          'kept_server',
+          'newer_server_mark',
+          `Marked ${existing.status} at ${existing.updated_at.toISOString()}, after this offline mark`
+        );
+      }
+    }
+
+    const { record, previousStatus } = await AttendanceLedgerService.record(
+      {
+        schedule_id: result.schedule_id,
+        student_id: result.student_id,
+        date: result.date,
+        status,
+        source: 'manual',
+        marked_by_user_id: userId,
+      },
+      transaction
+    );
+    result.outcome = 'applied';
+    result.rule = existing ? 'offline_newer' : 'new_mark';
+    result.recorded_status = record.status;
+    result.recorded_source = record.source;
+    result.previous_status = previousStatus;
+  }
+
+  /**
+   * The stored outcome of a batch this user already sent
+   */
+  private static async storedBatch(
+    batchId: string,
+    user: Reviewer
+  ): Promise<{ batch?: AttendanceSyncBatch; replayed?: boolean; error?: string } | null> {
+    const batch = await AttendanceSyncBatch.findByPk(batchId);
+    if (!batch) return null;
+    if (batch.user_id !== user.user_id) {
+      return { error: 'This batch_id was already used by another account' };
+    }
+    return { batch, replayed: true };
+  }
+}
+
+export default AttendanceSyncService;
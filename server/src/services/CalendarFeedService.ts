@@ -0,0 +1,321 @@
+import crypto from 'crypto';
+import AcademicCalendarService, { CalendarScope } from './AcademicCalendarService';
+import Course from '../models/Course';
+import Section from '../models/Section';
+import Student from '../models/Student';
+import Teacher from '../models/Teacher';
+import Timetable from '../models/Timetable';
+import TimetableException from '../models/TimetableException';
+import User from '../models/User';
+
+// Read lazily: dotenv is loaded after the imports are evaluated
+const calendarTimezone = () => process.env.CALENDAR_TIMEZONE || 'Asia/Kolkata';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// "2026-07-06" + "09:00:00" -> "20260706T090000"
+const icsDateTime = (date: string, time: string) =>
+  `${date.replace(/-/g, '')}T${String(time).substring(0, 8).replace(/:/g, '').padEnd(6, '0')}`;
+
+const icsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+
+const toISODate = (date: Date) => date.toISOString().split('T')[0];
+
+// Offset of a timezone from UTC at an instant, in minutes
+const zoneOffset = (timeZone: string, instant: Date) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(instant);
+  const part = (type: string) => Number(parts.find(p => p.type === type)!.value);
+  const local = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'));
+  return Math.round((local - Math.floor(instant.getTime() / 60000) * 60000) / 60000);
+};
+
+// 330 -> "+0530"
+const icsOffset = (minutes: number) =>
+  `${minutes < 0 ? '-' : '+'}${String(Math.floor(Math.abs(minutes) / 60)).padStart(2, '0')}${String(
+    Math.abs(minutes) % 60
+  ).padStart(2, '0')}`;
+
+/**
+ * VTIMEZONE for the feed's TZID covering the given years: the offset in force
+ * on 1 January of the first year, then every change of offset (daylight saving)
+ * found by scanning day by day and narrowing down to the minute
+ */
+const buildTimezone = (timeZone: string, fromYear: number, toYear: number): string[] => {
+  const start = Date.UTC(fromYear, 0, 1);
+  const end = Date.UTC(toYear + 1, 0, 1);
+  const day = 24 * 60 * 60000;
+
+  const transitions: Array<{ at: number; from: number; to: number }> = [];
+  let previous = zoneOffset(timeZone, new Date(start));
+  for (let t = start + day; t <= end; t += day) {
+    const offset = zoneOffset(timeZone, new Date(t));
+    if (offset === previous) continue;
+    let low = t - day;
+    let high = t;
+    while (high - low > 60000) {
+      const mid = low + Math.floor((high - low) / 120000) * 60000;
+      if (zoneOffset(timeZone, new Date(mid)) === previous) low = mid;
+      else high = mid;
+    }
+    transitions.push({ at: high, from: previous, to: offset });
+    previous = offset;
+  }
+
+  const initial = zoneOffset(timeZone, new Date(start));
+  const standard = Math.min(initial, ...transitions.map(t => t.to));
+  const component = (from: number, to: number, localStart: string) => [
+    `BEGIN:${to > standard ? 'DAYLIGHT' : 'STANDARD'}`,
+    `DTSTART:${localStart}`,
+    `TZOFFSETFROM:${icsOffset(from)}`,
+    `TZOFFSETTO:${icsOffset(to)}`,
+    `END:${to > standard ? 'DAYLIGHT' : 'STANDARD'}`,
+  ];
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...component(initial, initial, `${fromYear}0101T000000`),
+    ...transitions.flatMap(t =>
+      // DTSTART is the wall-clock time just before the change
+      component(t.from, t.to, new Date(t.at + t.from * 60000).toISOString().replace(/[-:]/g, '').split('.')[0])
+    ),
+    'END:VTIMEZONE',
+  ];
+};
+
+// RFC 5545 text escaping
+const escapeText = (value: string) =>
+  String(value).replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545 limits content lines to 75 octets; continuation lines start with a space
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+/**
+ * CalendarFeedService - Builds iCalendar subscription feeds of a student's or
+ * teacher's weekly classes, with cancelled and rescheduled occurrences
+ */
+class CalendarFeedService {
+  /**
+   * Return the user's feed token, creating one on first use
+   */
+  static async getOrCreateToken(user: User): Promise<string> {
+    if (user.calendar_token) {
+      return user.calendar_token;
+    }
+    return this.regenerateToken(user);
+  }
+
+  /**
+   * Replace the user's feed token; the old subscription URL stops working
+   */
+  static async regenerateToken(user: User): Promise<string> {
+    const token = crypto.randomBytes(24).toString('hex');
+    await user.update({ calendar_token: token });
+    return token;
+  }
+
+  /**
+   * The user owning a feed token, or null for unknown tokens
+   */
+  static async findUserByToken(token: string): Promise<User | null> {
+    if (!/^[a-f0-9]{48}$/.test(token)) {
+      return null;
+    }
+    return User.findOne({ where: { calendar_token: token } });
+  }
+
+  /**
+   * Fallback window for classes without an effective range when no academic
+   * term is set up: January-June or July-December of the current year
+   */
+  static semesterBounds(today: Date = new Date()) {
+    const year = today.getFullYear();
+    return today.getMonth() < 6
+      ? { start: `${year}-01-01`, end: `${year}-06-30` }
+      : { start: `${year}-07-01`, end: `${year}-12-31` };
+  }
+
+  /**
+   * Window for classes without an explicit effective range: the current (or
+   * next) academic term of the class's department and semester
+   */
+  static async termBounds(scope: CalendarScope, today: Date = new Date()) {
+    const term = await AcademicCalendarService.currentTerm(toISODate(today), scope);
+    return term ? { start: term.start_date, end: term.end_date } : this.semesterBounds(today);
+  }
+
+  /**
+   * Build the .ics document for a student (enrolled courses) or teacher (taught classes)
+   */
+  static async buildFeed(user: User): Promise<string | null> {
+    const include = [
+      { model: Course, as: 'course', attributes: ['course_id', 'course_code', 'course_name', 'department_id', 'semester'] },
+      { model: Teacher, as: 'teacher', attributes: ['teacher_id', 'name'] },
+      { model: Section, as: 'section', attributes: ['section_id', 'section_name'] },
+      { model: TimetableException, as: 'exceptions' },
+    ];
+
+    let owner: string;
+    let rows: Timetable[];
+
+    if (user.role === 'student') {
+      const student = await Student.findOne({
+        where: { user_id: user.user_id },
+        include: [{ model: Course, as: 'courses', through: { attributes: [] }, attributes: ['course_id'] }],
+      });
+      if (!student) return null;
+      const courseIds = ((student as any).courses || []).map((c: any) => c.course_id);
+      owner = student.name;
+      rows = courseIds.length ? await Timetable.findAll({ where: { course_id: courseIds }, include }) : [];
+    } else if (user.role === 'teacher') {
+      const teacher = await Teacher.findOne({ where: { user_id: user.user_id } });
+      if (!teacher) return null;
+      owner = teacher.name;
+      rows = await Timetable.findAll({ where: { teacher_id: teacher.teacher_id }, include });
+    } else {
+      return null;
+    }
+
+    // Each class follows its course's term; lookups are shared between classes
+    const terms = new Map<string, Promise<{ start: string; end: string }>>();
+    const ranges = rows.map(row => {
+      const course: any = (row as any).course;
+      const scope = { departmentId: course?.department_id, semester: course?.semester };
+      const key = `${scope.departmentId ?? ''}:${scope.semester ?? ''}`;
+      if (!terms.has(key)) terms.set(key, this.termBounds(scope));
+      return terms.get(key)!;
+    });
+    const bounds = await Promise.all(ranges);
+
+    const events: string[] = [];
+    const years: number[] = [];
+    rows.forEach((row, i) => {
+      const range = {
+        start: row.effective_from || bounds[i].start,
+        end: row.effective_to || bounds[i].end,
+      };
+      const event = this.buildEvents(row, user.role === 'teacher', range);
+      if (event.length === 0) return;
+      events.push(...event);
+      years.push(Number(range.start.substring(0, 4)), Number(range.end.substring(0, 4)));
+    });
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Haazir//Timetable Feed//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${escapeText(`Haazir - ${owner}`)}`,
+      `X-WR-TIMEZONE:${calendarTimezone()}`,
+    ];
+    if (years.length > 0) {
+      lines.push(...buildTimezone(calendarTimezone(), Math.min(...years), Math.max(...years)));
+    }
+    lines.push(...events, 'END:VCALENDAR');
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+  }
+
+  // One weekly recurring VEVENT per class, plus an override VEVENT per rescheduled date
+  private static buildEvents(
+    row: Timetable,
+    forTeacher: boolean,
+    range: { start: string; end: string }
+  ): string[] {
+    const rangeStart = range.start;
+    const rangeEnd = range.end;
+
+    const weekday = WEEKDAYS.findIndex(day => day.toLowerCase() === row.day_of_week.toLowerCase());
+    if (weekday === -1) return [];
+
+    const first = new Date(`${rangeStart}T00:00:00Z`);
+    first.setUTCDate(first.getUTCDate() + ((weekday - first.getUTCDay() + 7) % 7));
+    const firstDate = toISODate(first);
+    if (firstDate > rangeEnd) return [];
+
+    const course: any = (row as any).course;
+    const teacher: any = (row as any).teacher;
+    const section: any = (row as any).section;
+    const exceptions: TimetableException[] = ((row as any).exceptions || []).filter(
+      (e: TimetableException) =>
+        e.exception_date >= firstDate &&
+        e.exception_date <= rangeEnd &&
+        new Date(`${e.exception_date}T00:00:00Z`).getUTCDay() === weekday
+    );
+
+    const uid = `schedule-${row.schedule_id}@haazir`;
+    const classType = row.class_type.charAt(0).toUpperCase() + row.class_type.slice(1).toLowerCase();
+    const summary = `${course?.course_code || 'Class'} ${course?.course_name || ''} (${classType})`.trim();
+    const description = [
+      forTeacher ? section && `Section: ${section.section_name}` : teacher && `Teacher: ${teacher.name}`,
+      `Type: ${classType}`,
+    ]
+      .filter(Boolean)
+      .join('\n');
+    const stamp = icsTimestamp(new Date());
+    const tz = `TZID=${calendarTimezone()}`;
+
+    const event = [
+      'BEGIN:VEVENT',
+      `UID:${uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;${tz}:${icsDateTime(firstDate, row.start_time)}`,
+      `DTEND;${tz}:${icsDateTime(firstDate, row.end_time)}`,
+      `RRULE:FREQ=WEEKLY;UNTIL=${rangeEnd.replace(/-/g, '')}T235959Z`,
+      `SUMMARY:${escapeText(summary)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+    ];
+    if (row.classroom) {
+      event.push(`LOCATION:${escapeText(row.classroom)}`);
+    }
+    exceptions
+      .filter(e => e.exception_type === 'cancelled')
+      .forEach(e => event.push(`EXDATE;${tz}:${icsDateTime(e.exception_date, row.start_time)}`));
+    event.push('END:VEVENT');
+
+    exceptions
+      .filter(e => e.exception_type === 'rescheduled')
+      .forEach(e => {
+        event.push(
+          'BEGIN:VEVENT',
+          `UID:${uid}`,
+          `DTSTAMP:${stamp}`,
+          `RECURRENCE-ID;${tz}:${icsDateTime(e.exception_date, row.start_time)}`,
+          `DTSTART;${tz}:${icsDateTime(e.new_date!, e.new_start_time!)}`,
+          `DTEND;${tz}:${icsDateTime(e.new_date!, e.new_end_time!)}`,
+          `SUMMARY:${escapeText(`Rescheduled: ${summary}`)}`,
+          `DESCRIPTION:${escapeText([description, e.reason && `Reason: ${e.reason}`].filter(Boolean).join('\n'))}`
+        );
+        const location = e.new_classroom || row.classroom;
+        if (location) {
+          event.push(`LOCATION:${escapeText(location)}`);
+        }
+        event.push('END:VEVENT');
+      });
+
+    return event;
+  }
+}
+
+export default CalendarFeedService;
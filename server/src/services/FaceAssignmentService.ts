@@ -0,0 +1,125 @@
+// Matches within this much similarity of the chosen one count as a near tie
+export const NEAR_TIE_MARGIN = 0.03;
+const MAX_CANDIDATES = 3;
+
+export interface FaceCandidate {
+  column: number;
+  score: number;
+}
+
+export interface FaceAssignment {
+  // Index of the assigned column (student), or null when the face stays unmatched
+  column: number | null;
+  score: number;
+  // Another student, or another face for the same student, scored within the margin
+  nearTie: boolean;
+  candidates: FaceCandidate[];
+}
+
+/**
+ * FaceAssignmentService - One-to-one assignment of faces detected in a class
+ * photo to roster students. Scores are similarities between each face (row)
+ * and each student (column); pairs below the threshold are never assigned.
+ */
+class FaceAssignmentService {
+  /**
+   * Assign faces to students so that each is used at most once and the total
+   * similarity of the assigned pairs is as high as possible
+   */
+  static assign(
+    scores: number[][],
+    threshold: number,
+    margin: number = NEAR_TIE_MARGIN
+  ): FaceAssignment[] {
+    const rows = scores.length;
+    const columns = rows > 0 ? scores[0].length : 0;
+    const weight = (row: number, column: number) =>
+      row < rows && column < columns && scores[row][column] >= threshold ? scores[row][column] : 0;
+
+    const size = Math.max(rows, columns);
+    const assignedColumn = size > 0 ? this.hungarian(size, (row, column) => 1 - weight(row, column)) : [];
+
+    return scores.map((rowScores, row) => {
+      const candidates = rowScores
+        .map((score, column) => ({ column, score }))
+        .filter((candidate) => candidate.score >= threshold)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_CANDIDATES);
+
+      const column = assignedColumn[row];
+      if (column === undefined || weight(row, column) === 0) {
+        return { column: null, score: candidates[0]?.score ?? 0, nearTie: false, candidates };
+      }
+
+      const score = scores[row][column];
+      const rivalStudent = rowScores.some(
+        (other, c) => c !== column && other >= threshold && score - other < margin
+      );
+      const rivalFace = scores.some(
+        (otherRow, r) => r !== row && otherRow[column] >= threshold && score - otherRow[column] < margin
+      );
+      return { column, score, nearTie: rivalStudent || rivalFace, candidates };
+    });
+  }
+
+  /**
+   * Minimum-cost perfect matching on a size x size cost matrix (Hungarian
+   * method with potentials, O(n^3)). Returns the column assigned to each row.
+   */
+  private static hungarian(size: number, cost: (row: number, column: number) => number): number[] {
+    // 1-based arrays; column 0 is a virtual start column
+    const u = new Array(size + 1).fill(0);
+    const v = new Array(size + 1).fill(0);
+    const rowOf = new Array(size + 1).fill(0);
+    const way = new Array(size + 1).fill(0);
+
+    for (let row = 1; row <= size; row++) {
+      rowOf[0] = row;
+      let column0 = 0;
+      const minSlack = new Array(size + 1).fill(Infinity);
+      const used = new Array(size + 1).fill(false);
+
+      do {
+        used[column0] = true;
+        const row0 = rowOf[column0];
+        let delta = Infinity;
+        let column1 = 0;
+        for (let column = 1; column <= size; column++) {
+          if (used[column]) continue;
+          const slack = cost(row0 - 1, column - 1) - u[row0] - v[column];
+          if (slack < minSlack[column]) {
+            minSlack[column] = slack;
+            way[column] = column0;
+          }
+          if (minSlack[column] < delta) {
+            delta = minSlack[column];
+            column1 = column;
+          }
+        }
+        for (let column = 0; column <= size; column++) {
+          if (used[column]) {
+            u[rowOf[column]] += delta;
+            v[column] -= delta;
+          } else {
+            minSlack[column] -= delta;
+          }
+        }
+        column0 = column1;
+      } while (rowOf[column0] !== 0);
+
+      do {
+        const column1 = way[column0];
+        rowOf[column0] = rowOf[column1];
+        column0 = column1;
+      } while (column0 !== 0);
+    }
+
+    const assigned = new Array(size).fill(-1);
+    for (let column = 1; column <= size; column++) {
+      if (rowOf[column] > 0) assigned[rowOf[column] - 1] = column - 1;
+    }
+    return assigned;
+  }
+}
+
+export default FaceAssignmentService;
@@ -0,0 +1,530 @@
+import sharp from 'sharp';
+import { Op } from 'sequelize';
+import { sequelize } from '../config/database';
+import Student from '../models/Student';
+import StudentFace, { FacePose, FaceSampleQuality } from '../models/StudentFace';
+import StudentFaceProfile, { ReenrollmentReason } from '../models/StudentFaceProfile';
+import StudentScanRecord from '../models/StudentScanRecord';
+import NotificationService from './NotificationService';
+import StorageService from './StorageService';
+
+export const ENROLLMENT_POSES: FacePose[] = ['center', 'left', 'right', 'up', 'down'];
+const MIN_ENROLLMENT_SAMPLES = 3;
+const MAX_SUBMITTED_SAMPLES = 10;
+const MAX_ADAPTIVE_TEMPLATES = 3;
+const DESCRIPTOR_LENGTH = 128;
+
+// Sample quality. Must stay in line with the client's utils/faceQuality.ts
+const MIN_SHARPNESS = 40;
+const GOOD_SHARPNESS = 150;
+const MIN_FACE_SIZE = 0.18;
+const GOOD_FACE_SIZE = 0.35;
+const MIN_DETECTION_SCORE = 0.6;
+const MIN_QUALITY_SCORE = 0.55;
+// Yaw and pitch each pose must fall in: [min, max]
+const POSE_RANGES: Record<FacePose, { yaw: [number, number]; pitch: [number, number] }> = {
+  center: { yaw: [-0.12, 0.12], pitch: [0.42, 0.65] },
+  left: { yaw: [0.12, 0.6], pitch: [0.35, 0.75] },
+  right: { yaw: [-0.6, -0.12], pitch: [0.35, 0.75] },
+  up: { yaw: [-0.2, 0.2], pitch: [0.1, 0.45] },
+  down: { yaw: [-0.2, 0.2], pitch: [0.62, 0.95] },
+};
+// Every sample must look like the center one
+const SAME_PERSON_SIMILARITY = 0.6;
+
+// Adaptive templates: only from scans that matched an enrollment sample well
+// above the threshold, at most one a week, and only if they add something new
+const ADAPTIVE_MARGIN = 0.1;
+const ADAPTIVE_INTERVAL_DAYS = 7;
+const ADAPTIVE_MAX_SIMILARITY = 0.97;
+// Adaptive templates not matched for this long are retired
+const ADAPTIVE_MAX_IDLE_DAYS = 120;
+
+// Drift: confidence of the first scans after enrollment against the latest ones,
+// over about a semester
+const DRIFT_WINDOW_DAYS = 120;
+const DRIFT_SAMPLE = 5;
+const DRIFT_DROP = 0.08;
+const NEAR_THRESHOLD_MARGIN = 0.05;
+const TEMPLATE_MAX_AGE_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SampleProblem =
+  | 'invalid'
+  | 'blurry'
+  | 'too_small'
+  | 'wrong_pose'
+  | 'low_detection'
+  | 'low_quality'
+  | 'different_person'
+  | 'duplicate_pose';
+
+export interface EnrollmentSampleInput {
+  pose?: string;
+  faceDescriptor?: number[];
+  imageBase64?: string;
+  // Face box in image pixels, from the client's detector
+  box?: { x: number; y: number; width: number; height: number };
+  yaw?: number;
+  pitch?: number;
+  detectionScore?: number;
+}
+
+export interface SampleResult {
+  index: number;
+  pose: string;
+  accepted: boolean;
+  qualityScore: number | null;
+  quality: FaceSampleQuality | null;
+  problems: SampleProblem[];
+}
+
+export interface FaceMatch {
+  // Best similarity over all active templates
+  confidence: number;
+  face: StudentFace | null;
+  // Best similarity over the enrollment samples only
+  enrollmentConfidence: number;
+}
+
+interface ScoredSample {
+  result: SampleResult;
+  input: EnrollmentSampleInput;
+  descriptor: number[];
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const finite = (value: any): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let magA = 0;
+  let magB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    magA += a[i] * a[i];
+    magB += b[i] * b[i];
+  }
+  return magA === 0 || magB === 0 ? 0 : dot / (Math.sqrt(magA) * Math.sqrt(magB));
+};
+
+const parseDescriptor = (face: StudentFace): number[] | null => {
+  try {
+    const descriptor = JSON.parse(face.face_descriptor);
+    return Array.isArray(descriptor) ? descriptor : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * FaceTemplateService - The faces a student is matched against. Enrollment
+ * takes one sample per pose in a single request, scores each for sharpness,
+ * face size and pose, and replaces the student's templates with the samples
+ * that pass. Verified scans that match an enrollment sample comfortably are
+ * added as a few adaptive templates so matching keeps up with gradual change,
+ * and the student is asked to enroll again when match confidence drifts down.
+ */
+class FaceTemplateService {
+  /**
+   * Replace a student's templates with a new set of enrollment samples
+   */
+  static async enroll(
+    student: Student,
+    samples: EnrollmentSampleInput[]
+  ): Promise<{ faces?: StudentFace[]; results: SampleResult[]; error?: string }> {
+    if (!Array.isArray(samples) || samples.length === 0) {
+      return { results: [], error: 'samples must be a non-empty array' };
+    }
+    if (samples.length > MAX_SUBMITTED_SAMPLES) {
+      return { results: [], error: `At most ${MAX_SUBMITTED_SAMPLES} samples can be sent at once` };
+    }
+
+    const scored: ScoredSample[] = [];
+    for (let index = 0; index < samples.length; index++) {
+      scored.push(await this.scoreSample(index, samples[index] || {}));
+    }
+
+    // Every sample must be the same person as the center sample
+    const center = scored
+      .filter((s) => s.result.accepted && s.result.pose === 'center')
+      .sort((a, b) => b.result.qualityScore! - a.result.qualityScore!)[0];
+    scored.forEach((sample) => {
+      if (!sample.result.accepted || !center || sample === center) return;
+      if (cosineSimilarity(sample.descriptor, center.descriptor) < SAME_PERSON_SIMILARITY) {
+        sample.result.accepted = false;
+        sample.result.problems.push('different_person');
+      }
+    });
+
+    // One template per pose: the best sample
+    const best = new Map<string, ScoredSample>();
+    scored.forEach((sample) => {
+      if (!sample.result.accepted) return;
+      const current = best.get(sample.result.pose);
+      if (current && current.result.qualityScore! >= sample.result.qualityScore!) {
+        sample.result.accepted = false;
+        sample.result.problems.push('duplicate_pose');
+        return;
+      }
+      if (current) {
+        current.result.accepted = false;
+        current.result.problems.push('duplicate_pose');
+      }
+      best.set(sample.result.pose, sample);
+    });
+
+    const results = scored.map((s) => s.result);
+    const kept = Array.from(best.values());
+    if (!best.has('center') || kept.length < MIN_ENROLLMENT_SAMPLES) {
+      return {
+        results,
+        error: `At least ${MIN_ENROLLMENT_SAMPLES} good samples, including one facing forward, are needed. Retake the samples marked below.`,
+      };
+    }
+
+    const stored: { sample: ScoredSample; imageUrl: string }[] = [];
+    for (const sample of kept) {
+      stored.push({
+        sample,
+        imageUrl: await StorageService.saveImage(
+          `student-faces/${student.student_id}_${Date.now()}_${sample.result.pose}.jpg`,
+          sample.input.imageBase64!
+        ),
+      });
+    }
+
+    const faces = await sequelize.transaction(async (transaction) => {
+      const now = new Date();
+      // Removed templates keep their images until the retention purge
+      await StudentFace.update(
+        { is_active: false, updated_at: now },
+        { where: { student_id: student.student_id, is_active: true }, transaction }
+      );
+      const created = await Promise.all(
+        stored.map(({ sample, imageUrl }) =>
+          StudentFace.create(
+            {
+              student_id: student.student_id,
+              face_descriptor: JSON.stringify(sample.descriptor),
+              image_url: imageUrl,
+              is_active: true,
+              source: 'enrollment',
+              pose: sample.result.pose as FacePose,
+              quality_score: sample.result.qualityScore,
+              quality: sample.result.quality,
+            },
+            { transaction }
+          )
+        )
+      );
+      await StudentFaceProfile.upsert(
+        {
+          student_id: student.student_id,
+          enrolled_at: now,
+          baseline_confidence: null,
+          recent_confidence: null,
+          verified_scans: 0,
+          last_adapted_at: null,
+          reenrollment_reason: null,
+          reenrollment_requested_at: null,
+          updated_at: now,
+        },
+        { transaction }
+      );
+      return created;
+    });
+
+    return { faces, results };
+  }
+
+  /**
+   * Compare a scanned descriptor with the student's active templates
+   */
+  static async match(studentId: number, descriptor: number[]): Promise<FaceMatch & { templates: number }> {
+    const faces = await StudentFace.findAll({ where: { student_id: studentId, is_active: true } });
+
+    const match: FaceMatch & { templates: number } = {
+      confidence: 0,
+      face: null,
+      enrollmentConfidence: 0,
+      templates: faces.length,
+    };
+    for (const face of faces) {
+      const template = parseDescriptor(face);
+      if (!template) continue;
+      const similarity = cosineSimilarity(descriptor, template);
+      if (similarity > match.confidence) {
+        match.confidence = similarity;
+        match.face = face;
+      }
+      if (face.source === 'enrollment' && similarity > match.enrollmentConfidence) {
+        match.enrollmentConfidence = similarity;
+      }
+    }
+    return match;
+  }
+
+  /**
+   * After a verified scan: note which template matched, maybe add the scan
+   * as an adaptive template, and update the drift figures
+   */
+  static async recordVerifiedScan(
+    scan: StudentScanRecord,
+    descriptor: number[],
+    match: FaceMatch,
+    threshold: number
+  ): Promise<StudentFaceProfile> {
+    const now = new Date();
+    if (match.face) {
+      await match.face.update({ match_count: match.face.match_count + 1, last_matched_at: now });
+    }
+
+    const [profile] = await StudentFaceProfile.findOrCreate({
+      where: { student_id: scan.student_id },
+      defaults: { student_id: scan.student_id },
+    });
+
+    if (
+      match.enrollmentConfidence >= threshold + ADAPTIVE_MARGIN &&
+      scan.liveness_passed !== false &&
+      (!profile.last_adapted_at || now.getTime() - profile.last_adapted_at.getTime() >= ADAPTIVE_INTERVAL_DAYS * DAY_MS) &&
+      match.confidence < ADAPTIVE_MAX_SIMILARITY
+    ) {
+      await this.addAdaptiveTemplate(scan, descriptor);
+      profile.last_adapted_at = now;
+    }
+
+    const since = new Date(Math.max(profile.enrolled_at.getTime(), now.getTime() - DRIFT_WINDOW_DAYS * DAY_MS));
+    const confidences = (
+      await StudentScanRecord.findAll({
+        where: {
+          student_id: scan.student_id,
+          status: 'verified',
+          face_match_confidence: { [Op.ne]: null as any },
+          scan_timestamp: { [Op.gte]: since },
+        },
+        attributes: ['face_match_confidence'],
+        order: [['scan_timestamp', 'ASC']],
+      })
+    ).map((s) => Number(s.face_match_confidence));
+
+    profile.verified_scans = profile.verified_scans + 1;
+    if (profile.baseline_confidence == null && confidences.length >= DRIFT_SAMPLE) {
+      profile.baseline_confidence = mean(confidences.slice(0, DRIFT_SAMPLE));
+    }
+    // The recent window only counts once it no longer overlaps the baseline
+    if (confidences.length >= DRIFT_SAMPLE * 2) {
+      profile.recent_confidence = mean(confidences.slice(-DRIFT_SAMPLE));
+    }
+
+    const reason = this.reenrollmentReason(profile, threshold, now);
+    if (reason && !profile.reenrollment_reason) {
+      profile.reenrollment_reason = reason;
+      profile.reenrollment_requested_at = now;
+      await this.askToReenroll(scan.student_id, reason);
+    }
+    profile.updated_at = now;
+    await profile.save();
+    return profile;
+  }
+
+  /**
+   * The student's template set and whether they should enroll again
+   */
+  static async summary(studentId: number) {
+    const [faces, profile] = await Promise.all([
+      StudentFace.findAll({
+        where: { student_id: studentId, is_active: true },
+        attributes: ['source'],
+      }),
+      StudentFaceProfile.findByPk(studentId),
+    ]);
+    return {
+      enrollmentTemplates: faces.filter((f) => f.source === 'enrollment').length,
+      adaptiveTemplates: faces.filter((f) => f.source === 'adaptive').length,
+      enrolledAt: profile?.enrolled_at ?? null,
+      baselineConfidence: profile?.baseline_confidence ?? null,
+      recentConfidence: profile?.recent_confidence ?? null,
+      reenrollmentReason: profile?.reenrollment_reason ?? null,
+      reenrollmentRequestedAt: profile?.reenrollment_requested_at ?? null,
+    };
+  }
+
+  /**
+   * Score one enrollment sample. Sharpness and face size are measured here from
+   * the image; pose and detection score come from the client's landmarks.
+   */
+  private static async scoreSample(index: number, input: EnrollmentSampleInput): Promise<ScoredSample> {
+    const pose = String(input.pose || '');
+    const descriptor = Array.isArray(input.faceDescriptor) ? input.faceDescriptor.map(Number) : [];
+    const result: SampleResult = { index, pose, accepted: false, qualityScore: null, quality: null, problems: [] };
+    const scoredSample = { result, input, descriptor };
+
+    const box = input.box;
+    if (
+      !ENROLLMENT_POSES.includes(pose as FacePose) ||
+      descriptor.length !== DESCRIPTOR_LENGTH ||
+      !descriptor.every(finite) ||
+      !input.imageBase64 ||
+      !box ||
+      ![box.x, box.y, box.width, box.height].every(finite) ||
+      !finite(input.yaw) ||
+      !finite(input.pitch) ||
+      !finite(input.detectionScore)
+    ) {
+      result.problems.push('invalid');
+      return scoredSample;
+    }
+
+    let measured: { sharpness: number; faceSize: number };
+    try {
+      measured = await this.measureImage(input.imageBase64, box);
+    } catch (error) {
+      console.error(`Failed to measure enrollment sample ${index}:`, error);
+      result.problems.push('invalid');
+      return scoredSample;
+    }
+
+    const quality: FaceSampleQuality = {
+      sharpness: Math.round(measured.sharpness * 10) / 10,
+      face_size: Math.round(measured.faceSize * 1000) / 1000,
+      yaw: input.yaw!,
+      pitch: input.pitch!,
+      detection_score: input.detectionScore!,
+    };
+    const score =
+      0.45 * clamp01(quality.sharpness / GOOD_SHARPNESS) +
+      0.35 * clamp01(quality.face_size / GOOD_FACE_SIZE) +
+      0.2 * clamp01(quality.detection_score);
+    result.quality = quality;
+    result.qualityScore = Math.round(score * 1000) / 1000;
+
+    const range = POSE_RANGES[pose as FacePose];
+    if (quality.sharpness < MIN_SHARPNESS) result.problems.push('blurry');
+    if (quality.face_size < MIN_FACE_SIZE) result.problems.push('too_small');
+    if (quality.detection_score < MIN_DETECTION_SCORE) result.problems.push('low_detection');
+    if (
+      quality.yaw < range.yaw[0] ||
+      quality.yaw > range.yaw[1] ||
+      quality.pitch < range.pitch[0] ||
+      quality.pitch > range.pitch[1]
+    ) {
+      result.problems.push('wrong_pose');
+    }
+    if (result.problems.length === 0 && score < MIN_QUALITY_SCORE) result.problems.push('low_quality');
+
+    result.accepted = result.problems.length === 0;
+    return scoredSample;
+  }
+
+  /**
+   * Sharpness is the variance of the Laplacian over the face crop scaled to
+   * 112px; face size is the box width over the image width
+   */
+  private static async measureImage(
+    imageBase64: string,
+    box: { x: number; y: number; width: number; height: number }
+  ): Promise<{ sharpness: number; faceSize: number }> {
+    const input = Buffer.from(String(imageBase64).replace(/^data:[^,]*,/, ''), 'base64');
+    const { width = 0, height = 0 } = await sharp(input).metadata();
+    const left = Math.max(0, Math.floor(box.x));
+    const top = Math.max(0, Math.floor(box.y));
+    const cropWidth = Math.min(width - left, Math.floor(box.width));
+    const cropHeight = Math.min(height - top, Math.floor(box.height));
+    if (cropWidth < 16 || cropHeight < 16) {
+      return { sharpness: 0, faceSize: 0 };
+    }
+
+    const pixels = await sharp(input)
+      .extract({ left, top, width: cropWidth, height: cropHeight })
+      .greyscale()
+      .resize(112, 112, { fit: 'fill' })
+      .convolve({ width: 3, height: 3, kernel: [0, 1, 0, 1, -4, 1, 0, 1, 0], offset: 128 })
+      .raw()
+      .toBuffer();
+    const average = mean(Array.from(pixels));
+    const variance = mean(Array.from(pixels, (p) => (p - average) * (p - average)));
+
+    return { sharpness: variance, faceSize: box.width / width };
+  }
+
+  private static reenrollmentReason(
+    profile: StudentFaceProfile,
+    threshold: number,
+    now: Date
+  ): ReenrollmentReason | null {
+    if (now.getTime() - profile.enrolled_at.getTime() > TEMPLATE_MAX_AGE_DAYS * DAY_MS) {
+      return 'aged';
+    }
+    if (profile.recent_confidence == null) return null;
+    if (profile.baseline_confidence != null && profile.baseline_confidence - profile.recent_confidence >= DRIFT_DROP) {
+      return 'confidence_drift';
+    }
+    if (profile.recent_confidence < threshold + NEAR_THRESHOLD_MARGIN) {
+      return 'near_threshold';
+    }
+    return null;
+  }
+
+  /**
+   * Add a scan as an adaptive template, retiring idle ones and the least
+   * recently matched beyond the limit
+   */
+  private static async addAdaptiveTemplate(scan: StudentScanRecord, descriptor: number[]) {
+    const now = new Date();
+    await StudentFace.create({
+      student_id: scan.student_id,
+      face_descriptor: JSON.stringify(descriptor),
+      is_active: true,
+      source: 'adaptive',
+      scan_id: scan.scan_id,
+      last_matched_at: now,
+    });
+
+    const adaptive = await StudentFace.findAll({
+      where: { student_id: scan.student_id, source: 'adaptive', is_active: true },
+    });
+    const lastUsed = (face: StudentFace) => (face.last_matched_at || face.registered_at || now).getTime();
+    const retire = adaptive
+      .sort((a, b) => lastUsed(b) - lastUsed(a))
+      .filter(
+        (face, rank) =>
+          rank >= MAX_ADAPTIVE_TEMPLATES || now.getTime() - lastUsed(face) > ADAPTIVE_MAX_IDLE_DAYS * DAY_MS
+      );
+    if (retire.length > 0) {
+      await StudentFace.update(
+        { is_active: false, updated_at: now },
+        { where: { face_id: { [Op.in]: retire.map((face) => face.face_id) } } }
+      );
+    }
+  }
+
+  private static async askToReenroll(studentId: number, reason: ReenrollmentReason) {
+    const messages: Record<ReenrollmentReason, string> = {
+      confidence_drift: 'Your face scans have been matching less closely over the semester.',
+      near_threshold: 'Your face scans are close to the minimum match needed to mark attendance.',
+      aged: 'Your face samples are over a year old.',
+    };
+    try {
+      const student = await Student.findByPk(studentId, { attributes: ['user_id'] });
+      if (!student) return;
+      await NotificationService.notifyFaceReenrollment({
+        userId: student.user_id,
+        title: '📸 Please Update Your Face Samples',
+        message: `${messages[reason]} Re-enroll your face so smart attendance keeps recognising you.`,
+        reason,
+      });
+    } catch (error) {
+      // A missed reminder shouldn't fail the scan
+      console.error(`❌ Failed to send re-enrollment notification to student ${studentId}:`, error);
+    }
+  }
+}
+
+export default FaceTemplateService;
@@ -0,0 +1,547 @@
+import { Op } from 'sequelize';
+import FraudFinding, { FraudFindingStatus, FraudFindingType } from '../models/FraudFinding';
+import AttendanceSession from '../models/AttendanceSession';
+import StudentScanRecord from '../models/StudentScanRecord';
+import StudentFace from '../models/StudentFace';
+import TeacherClassCapture from '../models/TeacherClassCapture';
+import DetectedClassFace from '../models/DetectedClassFace';
+import Student from '../models/Student';
+import User from '../models/User';
+import AttendancePolicyService from './AttendancePolicyService';
+
+// Scans from the same spot this close together look like one phone
+const CO_LOCATED_WINDOW_SECONDS = 20;
+// Coordinates are compared at ~1m precision
+const COORDINATE_DECIMALS = 5;
+// Well above the verification threshold: the same face, not a lookalike
+const SHARED_FACE_SIMILARITY = 0.92;
+// Scans this many geofence radii from the teacher are suspicious even when allowed
+const FAR_RADIUS_FACTOR = 2;
+// Need this many photographed sessions before an absence pattern means anything
+const MIN_PHOTO_SESSIONS = 3;
+const MIN_PHOTO_ABSENCE_RATE = 0.6;
+const DEFAULT_WINDOW_DAYS = 30;
+const ANALYSIS_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export interface FraudAnalysisOptions {
+  from?: string;
+  to?: string;
+}
+
+export interface FraudAnalysisResult {
+  from: string;
+  to: string;
+  scansAnalysed: number;
+  sessionsAnalysed: number;
+  created: number;
+  updated: number;
+  reopened: number;
+  byType: Record<FraudFindingType, number>;
+}
+
+export interface FraudFindingFilters {
+  type?: string;
+  status?: string;
+  minScore?: number;
+  studentId?: number;
+  limit?: number;
+}
+
+interface Candidate {
+  type: FraudFindingType;
+  studentIds: number[];
+  sessionIds: string[];
+  scanIds: number[];
+  score: number;
+  summary: string;
+  details: object;
+}
+
+const clampScore = (score: number) => Math.max(0, Math.min(100, Math.round(score)));
+const unique = <T>(values: T[]) => Array.from(new Set(values));
+const sortedIds = (ids: number[]) => unique(ids).sort((a, b) => a - b);
+
+// Let requests in between long runs of comparisons
+const yieldToEventLoop = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+const parseDescriptor = (value?: string | null): number[] | null => {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) && parsed.length > 0 ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const cosineSimilarity = (a: number[], b: number[]) => {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let magA = 0;
+  let magB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    magA += a[i] * a[i];
+    magB += b[i] * b[i];
+  }
+  return magA === 0 || magB === 0 ? 0 : dot / (Math.sqrt(magA) * Math.sqrt(magB));
+};
+
+/**
+ * FraudDetectionService - Looks for proxy attendance across smart-attendance
+ * sessions: several students scanning from one spot within seconds, one face
+ * behind several student records, scans far from the teacher, and students
+ * who scan in but never show up in class photos. Each pattern becomes a
+ * scored finding for coordinators; re-running updates the same findings.
+ */
+class FraudDetectionService {
+  private static timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Analyse verified scans in a date range (default: the last 30 days) and
+   * save what was found
+   */
+  static async analyse(options: FraudAnalysisOptions = {}): Promise<FraudAnalysisResult> {
+    const to = options.to ? new Date(`${options.to}T23:59:59.999Z`) : new Date();
+    const from = options.from
+      ? new Date(options.from)
+      : new Date(to.getTime() - DEFAULT_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    const scans = await StudentScanRecord.findAll({
+      where: { status: 'verified', scan_timestamp: { [Op.between]: [from, to] } },
+      attributes: [
+        'scan_id',
+        'session_id',
+        'student_id',
+        'scan_timestamp',
+        'face_descriptor',
+        'location_lat',
+        'location_lng',
+        'distance_from_class',
+      ],
+      order: [['scan_timestamp', 'ASC']],
+    });
+    const sessions = await AttendanceSession.findAll({
+      where: { session_id: unique(scans.map((scan) => scan.session_id)) },
+    });
+
+    const candidates = [
+      ...this.coLocatedScans(scans),
+      ...(await this.sharedFaces(scans)),
+      ...(await this.farFromSession(scans, sessions)),
+      ...(await this.photoAbsences(scans)),
+    ];
+
+    const result: FraudAnalysisResult = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      scansAnalysed: scans.length,
+      sessionsAnalysed: sessions.length,
+      created: 0,
+      updated: 0,
+      reopened: 0,
+      byType: { co_located_scans: 0, shared_face: 0, far_from_session: 0, photo_absent: 0 },
+    };
+    for (const candidate of candidates) {
+      const outcome = await this.save(candidate);
+      result[outcome]++;
+      result.byType[candidate.type]++;
+    }
+
+    console.log(
+      `🕵️ Fraud analysis: ${candidates.length} findings from ${scans.length} scans (${result.created} new, ${result.reopened} reopened)`
+    );
+    return result;
+  }
+
+  /**
+   * Groups of students who scanned for the same session from identical
+   * coordinates within seconds of each other, merged across sessions
+   */
+  private static coLocatedScans(scans: StudentScanRecord[]): Candidate[] {
+    const bySpot = new Map<string, StudentScanRecord[]>();
+    for (const scan of scans) {
+      if (scan.location_lat == null || scan.location_lng == null) continue;
+      const spot = [
+        scan.session_id,
+        Number(scan.location_lat).toFixed(COORDINATE_DECIMALS),
+        Number(scan.location_lng).toFixed(COORDINATE_DECIMALS),
+      ].join('|');
+      bySpot.set(spot, [...(bySpot.get(spot) || []), scan]);
+    }
+
+    // Same students together in several sessions is one finding
+    const groups = new Map<string, { studentIds: number[]; clusters: StudentScanRecord[][] }>();
+    for (const spotScans of Array.from(bySpot.values())) {
+      let cluster: StudentScanRecord[] = [];
+      const flush = () => {
+        const studentIds = sortedIds(cluster.map((scan) => scan.student_id));
+        if (studentIds.length > 1) {
+          const key = studentIds.join(',');
+          const group = groups.get(key) || { studentIds, clusters: [] };
+          group.clusters.push(cluster);
+          groups.set(key, group);
+        }
+        cluster = [];
+      };
+
+      for (const scan of spotScans) {
+        const previous = cluster[cluster.length - 1];
+        if (
+          previous &&
+          new Date(scan.scan_timestamp!).getTime() - new Date(previous.scan_timestamp!).getTime() >
+            CO_LOCATED_WINDOW_SECONDS * 1000
+        ) {
+          flush();
+        }
+        cluster.push(scan);
+      }
+      flush();
+    }
+
+    return Array.from(groups.values()).map(({ studentIds, clusters }) => {
+      const allScans = ([] as StudentScanRecord[]).concat(...clusters);
+      const spreads = clusters.map(
+        (cluster) =>
+          (new Date(cluster[cluster.length - 1].scan_timestamp!).getTime() -
+            new Date(cluster[0].scan_timestamp!).getTime()) /
+          1000
+      );
+      return {
+        type: 'co_located_scans' as const,
+        studentIds,
+        sessionIds: unique(allScans.map((scan) => scan.session_id)),
+        scanIds: allScans.map((scan) => scan.scan_id),
+        score: clampScore(35 + 20 * (clusters.length - 1) + 5 * (studentIds.length - 2)),
+        summary: `${studentIds.length} students scanned from the same coordinates within ${Math.ceil(
+          Math.max(...spreads)
+        )}s in ${clusters.length} session(s)`,
+        details: { occurrences: clusters.length, maxSpreadSeconds: Math.max(...spreads) },
+      };
+    });
+  }
+
+  /**
+   * One face behind several students: enrollment templates that match across
+   * students of the same department and semester, and scans in one session
+   * whose faces match each other. Pairs are only compared within a cohort or
+   * session, and the event loop gets a turn between them.
+   */
+  private static async sharedFaces(scans: StudentScanRecord[]): Promise<Candidate[]> {
+    const pairs = new Map<
+      string,
+      { studentIds: number[]; similarity: number; sessionIds: string[]; scanIds: number[]; enrolled: boolean }
+    >();
+    const note = (a: number, b: number, similarity: number, enrolled: boolean, found: StudentScanRecord[] = []) => {
+      const studentIds = sortedIds([a, b]);
+      const key = studentIds.join(',');
+      const pair = pairs.get(key) || { studentIds, similarity: 0, sessionIds: [], scanIds: [], enrolled: false };
+      pair.similarity = Math.max(pair.similarity, similarity);
+      pair.enrolled = pair.enrolled || enrolled;
+      pair.sessionIds = unique([...pair.sessionIds, ...found.map((scan) => scan.session_id)]);
+      pair.scanIds = unique([...pair.scanIds, ...found.map((scan) => scan.scan_id)]);
+      pairs.set(key, pair);
+    };
+
+    const faces = (
+      await StudentFace.findAll({
+        where: { is_active: true, source: 'enrollment' },
+        attributes: ['face_id', 'student_id', 'face_descriptor'],
+      })
+    )
+      .map((face) => ({ studentId: face.student_id, descriptor: parseDescriptor(face.face_descriptor) }))
+      .filter((face) => face.descriptor);
+    const students = await Student.findAll({
+      where: { student_id: unique(faces.map((face) => face.studentId)) },
+      attributes: ['student_id', 'department_id', 'semester'],
+    });
+    const cohortOf = new Map(
+      students.map((student) => [student.student_id, `${student.department_id}:${student.semester}`])
+    );
+    const byCohort = new Map<string, typeof faces>();
+    for (const face of faces) {
+      const cohort = cohortOf.get(face.studentId);
+      if (cohort) byCohort.set(cohort, [...(byCohort.get(cohort) || []), face]);
+    }
+    for (const cohortFaces of Array.from(byCohort.values())) {
+      for (let i = 0; i < cohortFaces.length; i++) {
+        for (let j = i + 1; j < cohortFaces.length; j++) {
+          if (cohortFaces[i].studentId === cohortFaces[j].studentId) continue;
+          const similarity = cosineSimilarity(cohortFaces[i].descriptor!, cohortFaces[j].descriptor!);
+          if (similarity >= SHARED_FACE_SIMILARITY) {
+            note(cohortFaces[i].studentId, cohortFaces[j].studentId, similarity, true);
+          }
+        }
+      }
+      await yieldToEventLoop();
+    }
+
+    const bySession = new Map<string, StudentScanRecord[]>();
+    for (const scan of scans) {
+      bySession.set(scan.session_id, [...(bySession.get(scan.session_id) || []), scan]);
+    }
+    for (const sessionScans of Array.from(bySession.values())) {
+      const described = sessionScans
+        .map((scan) => ({ scan, descriptor: parseDescriptor(scan.face_descriptor) }))
+        .filter((entry) => entry.descriptor);
+      for (let i = 0; i < described.length; i++) {
+        for (let j = i + 1; j < described.length; j++) {
+          const similarity = cosineSimilarity(described[i].descriptor!, described[j].descriptor!);
+          if (similarity >= SHARED_FACE_SIMILARITY) {
+            note(described[i].scan.student_id, described[j].scan.student_id, similarity, false, [
+              described[i].scan,
+              described[j].scan,
+            ]);
+          }
+        }
+      }
+      await yieldToEventLoop();
+    }
+
+    return Array.from(pairs.values()).map((pair) => ({
+      type: 'shared_face' as const,
+      studentIds: pair.studentIds,
+      sessionIds: pair.sessionIds,
+      scanIds: pair.scanIds,
+      score: clampScore(
+        60 + (pair.enrolled ? 20 : 0) + 5 * pair.sessionIds.length + (pair.similarity - SHARED_FACE_SIMILARITY) * 100
+      ),
+      summary: pair.enrolled
+        ? `Enrolled faces of ${pair.studentIds.length} students match each other`
+        : `The same face verified for ${pair.studentIds.length} students in ${pair.sessionIds.length} session(s)`,
+      details: {
+        similarity: Number(pair.similarity.toFixed(4)),
+        enrolledFacesMatch: pair.enrolled,
+        matchingScans: pair.scanIds.length,
+      },
+    }));
+  }
+
+  /**
+   * Students whose verified scans sit well outside the session's geofence,
+   * e.g. when location wasn't required or the phone's position was spoofed
+   */
+  private static async farFromSession(
+    scans: StudentScanRecord[],
+    sessions: AttendanceSession[]
+  ): Promise<Candidate[]> {
+    const radii = new Map<string, number>();
+    for (const session of sessions) {
+      // Without a teacher location the stored distance is meaningless
+      if (session.location_lat == null || session.location_lng == null) continue;
+      const policy = await AttendancePolicyService.forSession(session);
+      radii.set(session.session_id, policy.geofence_radius_meters);
+    }
+
+    const byStudent = new Map<number, { scan: StudentScanRecord; distance: number; radius: number }[]>();
+    for (const scan of scans) {
+      const radius = radii.get(scan.session_id);
+      const distance = Number(scan.distance_from_class);
+      if (radius === undefined || scan.distance_from_class == null || distance <= radius * FAR_RADIUS_FACTOR) {
+        continue;
+      }
+      byStudent.set(scan.student_id, [...(byStudent.get(scan.student_id) || []), { scan, distance, radius }]);
+    }
+
+    return Array.from(byStudent.entries()).map(([studentId, far]) => {
+      const maxDistance = Math.max(...far.map((entry) => entry.distance));
+      const worstRatio = Math.max(...far.map((entry) => entry.distance / entry.radius));
+      return {
+        type: 'far_from_session' as const,
+        studentIds: [studentId],
+        sessionIds: unique(far.map((entry) => entry.scan.session_id)),
+        scanIds: far.map((entry) => entry.scan.scan_id),
+        score: clampScore(25 + 10 * far.length + 5 * Math.log2(worstRatio)),
+        summary: `${far.length} scan(s) up to ${Math.round(maxDistance)}m from the teacher's location`,
+        details: { maxDistanceMeters: Math.round(maxDistance), worstRadiusMultiple: Number(worstRatio.toFixed(1)) },
+      };
+    });
+  }
+
+  /**
+   * Students who scan in for sessions with a class photo but are never
+   * matched to a face in it
+   */
+  private static async photoAbsences(scans: StudentScanRecord[]): Promise<Candidate[]> {
+    const captures = await TeacherClassCapture.findAll({
+      where: { session_id: unique(scans.map((scan) => scan.session_id)), processed: true },
+      attributes: ['capture_id', 'session_id'],
+    });
+    if (captures.length === 0) return [];
+
+    const sessionOfCapture = new Map(captures.map((capture) => [capture.capture_id, capture.session_id]));
+    const matched = await DetectedClassFace.findAll({
+      where: { capture_id: captures.map((capture) => capture.capture_id), matched_student_id: { [Op.ne]: null } },
+      attributes: ['capture_id', 'matched_student_id'],
+    });
+    const seen = new Set(
+      matched.map((face) => `${sessionOfCapture.get(face.capture_id)}|${face.matched_student_id}`)
+    );
+
+    const photographed = new Set(captures.map((capture) => capture.session_id));
+    const byStudent = new Map<number, { attended: number; missing: StudentScanRecord[] }>();
+    for (const scan of scans) {
+      if (!photographed.has(scan.session_id)) continue;
+      const entry = byStudent.get(scan.student_id) || { attended: 0, missing: [] };
+      entry.attended++;
+      if (!seen.has(`${scan.session_id}|${scan.student_id}`)) entry.missing.push(scan);
+      byStudent.set(scan.student_id, entry);
+    }
+
+    const candidates: Candidate[] = [];
+    for (const [studentId, { attended, missing }] of Array.from(byStudent.entries())) {
+      const rate = missing.length / attended;
+      if (attended < MIN_PHOTO_SESSIONS || rate < MIN_PHOTO_ABSENCE_RATE) continue;
+      candidates.push({
+        type: 'photo_absent',
+        studentIds: [studentId],
+        sessionIds: unique(missing.map((scan) => scan.session_id)),
+        scanIds: missing.map((scan) => scan.scan_id),
+        score: clampScore(20 + 60 * rate + 2 * missing.length),
+        summary: `Scanned in but not found in the class photo for ${missing.length} of ${attended} sessions`,
+        details: { photographedSessions: attended, absentFromPhoto: missing.length, absenceRate: Number(rate.toFixed(2)) },
+      });
+    }
+    return candidates;
+  }
+
+  /**
+   * Create or refresh the finding for a candidate. A dismissed finding
+   * reopens when it now covers scans it didn't before.
+   */
+  private static async save(candidate: Candidate): Promise<'created' | 'updated' | 'reopened'> {
+    const fingerprint = `${candidate.type}:${candidate.studentIds.join(',')}`.substring(0, 200);
+    const values = {
+      score: candidate.score,
+      student_ids: candidate.studentIds,
+      summary: candidate.summary,
+      details: candidate.details,
+      last_detected_at: new Date(),
+    };
+
+    const existing = await FraudFinding.findOne({ where: { fingerprint } });
+    if (!existing) {
+      await FraudFinding.create({
+        ...values,
+        finding_type: candidate.type,
+        fingerprint,
+        session_ids: candidate.sessionIds,
+        scan_ids: candidate.scanIds,
+      });
+      return 'created';
+    }
+
+    const known = new Set(existing.scan_ids || []);
+    const hasNewScans = candidate.scanIds.some((scanId) => !known.has(scanId));
+    const reopen = existing.status === 'dismissed' && hasNewScans;
+    await existing.update({
+      ...values,
+      session_ids: unique([...(existing.session_ids || []), ...candidate.sessionIds]),
+      scan_ids: sortedIds([...(existing.scan_ids || []), ...candidate.scanIds]),
+      ...(reopen ? { status: 'open' as FraudFindingStatus, reviewed_at: null, reviewed_by: null } : {}),
+    });
+    return reopen ? 'reopened' : 'updated';
+  }
+
+  /**
+   * Highest-scoring findings first, with the students involved
+   */
+  static async list(filters: FraudFindingFilters = {}) {
+    const where: any = {};
+    if (filters.type) where.finding_type = filters.type;
+    if (filters.status && filters.status !== 'all') where.status = filters.status;
+    if (filters.minScore) where.score = { [Op.gte]: filters.minScore };
+    if (filters.studentId) where.student_ids = { [Op.contains]: [filters.studentId] };
+
+    const findings = await FraudFinding.findAll({
+      where,
+      include: [{ model: User, as: 'reviewer', attributes: ['user_id', 'email'] }],
+      order: [
+        ['score', 'DESC'],
+        ['last_detected_at', 'DESC'],
+      ],
+      limit: Math.min(filters.limit || 200, 1000),
+    });
+
+    const students = await Student.findAll({
+      where: { student_id: unique(([] as number[]).concat(...findings.map((finding) => finding.student_ids))) },
+      attributes: ['student_id', 'name', 'roll_number'],
+    });
+    const studentById = new Map(students.map((student) => [student.student_id, student]));
+
+    return findings.map((finding) => ({
+      ...finding.toJSON(),
+      students: finding.student_ids.map((id) => studentById.get(id)).filter(Boolean),
+    }));
+  }
+
+  /**
+   * A finding with its underlying scan records and sessions; null when it
+   * doesn't exist
+   */
+  static async detail(findingId: number) {
+    const finding = await FraudFinding.findByPk(findingId, {
+      include: [{ model: User, as: 'reviewer', attributes: ['user_id', 'email'] }],
+    });
+    if (!finding) return null;
+
+    const [students, scans, sessions] = await Promise.all([
+      Student.findAll({
+        where: { student_id: finding.student_ids },
+        attributes: ['student_id', 'name', 'roll_number'],
+      }),
+      StudentScanRecord.findAll({
+        where: { scan_id: finding.scan_ids },
+        // Images are fetched through the signed evidence endpoint
+        attributes: { exclude: ['face_descriptor', 'face_image_url', 'liveness_result'] },
+        order: [['scan_timestamp', 'ASC']],
+      }),
+      AttendanceSession.findAll({
+        where: { session_id: finding.session_ids },
+        attributes: ['session_id', 'schedule_id', 'teacher_id', 'location_lat', 'location_lng', 'created_at'],
+      }),
+    ]);
+
+    return { ...finding.toJSON(), students, scans, sessions };
+  }
+
+  /**
+   * Record a coordinator's decision on a finding; null when it doesn't exist
+   */
+  static async review(
+    findingId: number,
+    reviewerId: number,
+    status: FraudFindingStatus,
+    note?: string | null
+  ): Promise<FraudFinding | null> {
+    const finding = await FraudFinding.findByPk(findingId);
+    if (!finding) return null;
+    await finding.update({
+      status,
+      reviewed_at: status === 'open' ? null : new Date(),
+      reviewed_by: status === 'open' ? null : reviewerId,
+      review_note: note?.trim() || null,
+    });
+    return finding;
+  }
+
+  /**
+   * Run the analysis now and then once a day
+   */
+  static startSchedule() {
+    if (this.timer) return;
+
+    const run = () => this.analyse().catch((error) => console.error('❌ Error running fraud analysis:', error));
+    run();
+    this.timer = setInterval(run, ANALYSIS_INTERVAL_MS);
+  }
+
+  static stopSchedule() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export default FraudDetectionService;
@@ -0,0 +1,377 @@
+import path from 'path';
+import { Op } from 'sequelize';
+import LeaveRequest, { LeaveRequestStatus } from '../models/LeaveRequest';
+import Attendance from '../models/Attendance';
+import Student from '../models/Student';
+import Teacher from '../models/Teacher';
+import Timetable from '../models/Timetable';
+import User from '../models/User';
+import AttendanceAuditService from './AttendanceAuditService';
+import NotificationService from './NotificationService';
+import StorageService, { UploadedFile } from './StorageService';
+
+// Longer absences go through the department, not a leave request
+const MAX_LEAVE_DAYS = 30;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface LeaveRequestInput {
+  start_date?: string;
+  end_date?: string;
+  reason?: string;
+}
+
+export interface LeaveRequestFilters {
+  studentId?: number;
+  status?: string;
+  // Only students in sections this teacher teaches
+  teacherId?: number;
+  limit?: number;
+}
+
+export interface Reviewer {
+  user_id: number;
+  role: string;
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000)) + 1;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+const formatRange = (leave: LeaveRequest) =>
+  leave.start_date === leave.end_date
+    ? formatDate(leave.start_date)
+    : `${formatDate(leave.start_date)} – ${formatDate(leave.end_date)}`;
+
+/**
+ * LeaveRequestService - Student leave and excuse requests. A teacher of the
+ * student's section or a coordinator approves or rejects each one; approval
+ * turns the student's absences in the date range into 'excused', and
+ * attendance marked later in an approved range is recorded as excused
+ * without an absent notification.
+ */
+class LeaveRequestService {
+  /**
+   * Teachers with classes in a section
+   */
+  static async sectionTeachers(sectionId: number | null): Promise<Teacher[]> {
+    if (!sectionId) return [];
+    const slots = await Timetable.findAll({
+      where: { section_id: sectionId },
+      attributes: ['teacher_id'],
+      group: ['teacher_id'],
+      raw: true,
+    });
+    const teacherIds = slots.map((slot: any) => slot.teacher_id).filter(Boolean);
+    if (teacherIds.length === 0) return [];
+    return Teacher.findAll({ where: { teacher_id: { [Op.in]: teacherIds } } });
+  }
+
+  /**
+   * Sections a teacher has classes in
+   */
+  static async teacherSectionIds(teacherId: number): Promise<number[]> {
+    const slots = await Timetable.findAll({
+      where: { teacher_id: teacherId },
+      attributes: ['section_id'],
+      group: ['section_id'],
+      raw: true,
+    });
+    return slots.map((slot: any) => slot.section_id).filter(Boolean);
+  }
+
+  /**
+   * Users who can act on a student's requests: the section's teachers, or the
+   * coordinators when no teacher has the section yet
+   */
+  static async reviewers(student: Student): Promise<{ userIds: number[]; role: string }> {
+    const teachers = await this.sectionTeachers(student.section_id);
+    if (teachers.length > 0) {
+      return { userIds: teachers.map((teacher) => teacher.user_id), role: 'teacher' };
+    }
+    const coordinators = await User.findAll({ where: { role: 'coordinator' }, attributes: ['user_id'] });
+    return { userIds: coordinators.map((user) => user.user_id), role: 'coordinator' };
+  }
+
+  /**
+   * Whether a user may approve or reject a request
+   */
+  static async canReview(user: Reviewer, leave: LeaveRequest): Promise<boolean> {
+    if (user.role === 'coordinator') return true;
+    if (user.role !== 'teacher') return false;
+
+    const [teacher, student] = await Promise.all([
+      Teacher.findOne({ where: { user_id: user.user_id } }),
+      Student.findByPk(leave.student_id),
+    ]);
+    if (!teacher || !student?.section_id) return false;
+    return (await this.teacherSectionIds(teacher.teacher_id)).includes(student.section_id);
+  }
+
+  static async find(leaveId: number): Promise<LeaveRequest | null> {
+    return LeaveRequest.findByPk(leaveId, {
+      include: [
+        { model: Student, as: 'student', attributes: ['student_id', 'user_id', 'name', 'roll_number', 'section_id'] },
+        { model: User, as: 'reviewer', attributes: ['user_id', 'email', 'role'] },
+      ],
+    });
+  }
+
+  static async list(filters: LeaveRequestFilters = {}): Promise<LeaveRequest[]> {
+    const where: any = {};
+    if (filters.studentId) where.student_id = filters.studentId;
+    if (filters.status && filters.status !== 'all') where.status = filters.status;
+
+    const studentWhere: any = {};
+    if (filters.teacherId) {
+      studentWhere.section_id = { [Op.in]: await this.teacherSectionIds(filters.teacherId) };
+    }
+
+    return LeaveRequest.findAll({
+      where,
+      include: [
+        {
+          model: Student,
+          as: 'student',
+          attributes: ['student_id', 'name', 'roll_number', 'section_id'],
+          where: studentWhere,
+        },
+        { model: User, as: 'reviewer', attributes: ['user_id', 'email', 'role'] },
+      ],
+      order: [['created_at', 'DESC']],
+      limit: filters.limit || 200,
+    });
+  }
+
+  /**
+   * File a request for a student, storing the supporting document if given
+   */
+  static async submit(
+    student: Student,
+    input: LeaveRequestInput,
+    document?: UploadedFile
+  ): Promise<{ leave?: LeaveRequest; error?: string }> {
+    const { start_date, end_date } = input;
+    const reason = input.reason?.trim();
+
+    if (!start_date || !end_date || !DATE_PATTERN.test(start_date) || !DATE_PATTERN.test(end_date)) {
+      return { error: 'start_date and end_date are required as YYYY-MM-DD' };
+    }
+    if (end_date < start_date) {
+      return { error: 'end_date cannot be before start_date' };
+    }
+    if (daysBetween(start_date, end_date) > MAX_LEAVE_DAYS) {
+      return { error: `A leave request can cover at most ${MAX_LEAVE_DAYS} days` };
+    }
+    if (!reason) {
+      return { error: 'reason is required' };
+    }
+
+    const overlapping = await LeaveRequest.findOne({
+      where: {
+        student_id: student.student_id,
+        status: { [Op.in]: ['pending', 'approved'] },
+        start_date: { [Op.lte]: end_date },
+        end_date: { [Op.gte]: start_date },
+      },
+    });
+    if (overlapping) {
+      return {
+        error: `These dates overlap your ${overlapping.status} request for ${formatRange(overlapping)}`,
+      };
+    }
+
+    let documentKey: string | null = null;
+    if (document) {
+      const extension = path.extname(document.originalname).toLowerCase();
+      documentKey = `leave-documents/${student.student_id}/leave_${Date.now()}${extension}`;
+      await StorageService.saveFile(documentKey, document.buffer, document.mimetype);
+    }
+
+    const leave = await LeaveRequest.create({
+      student_id: student.student_id,
+      start_date,
+      end_date,
+      reason,
+      document_key: documentKey,
+      document_name: document?.originalname ?? null,
+      document_type: document?.mimetype ?? null,
+    });
+
+    const reviewers = await this.reviewers(student);
+    await this.notify(
+      [student.user_id],
+      'student',
+      '📄 Leave Request Submitted',
+      `Your leave request for ${formatRange(leave)} was submitted and is awaiting review.`,
+      leave
+    );
+    await this.notify(
+      reviewers.userIds,
+      reviewers.role,
+      '📄 New Leave Request',
+      `${student.name} (${student.roll_number}) requested leave for ${formatRange(leave)}: ${reason}`,
+      leave,
+      'high'
+    );
+
+    return { leave };
+  }
+
+  /**
+   * Approve or reject a pending request. Approval converts the student's
+   * absences in the range to 'excused'.
+   */
+  static async review(
+    leave: LeaveRequest,
+    reviewer: Reviewer,
+    decision: 'approved' | 'rejected',
+    comment?: string
+  ): Promise<{ leave?: LeaveRequest; error?: string }> {
+    if (leave.status !== 'pending') {
+      return { error: `This request is already ${leave.status}` };
+    }
+    if (decision === 'rejected' && !comment?.trim()) {
+      return { error: 'A comment is required when rejecting a request' };
+    }
+
+    const actor = {
+      userId: reviewer.user_id,
+      source: 'leave_approval',
+      reason: `Leave request #${leave.leave_id} approved`,
+    };
+    await AttendanceAuditService.withActor(actor, async (transaction) => {
+      let excused = 0;
+      if (decision === 'approved') {
+        const where = {
+          student_id: leave.student_id,
+          status: 'absent',
+          date: { [Op.between]: [leave.start_date, leave.end_date] },
+        };
+        [excused] = await Attendance.update({ status: 'excused' }, { where, transaction });
+      }
+
+      await leave.update(
+        {
+          status: decision,
+          reviewed_by: reviewer.user_id,
+          reviewed_at: new Date(),
+          review_comment: comment?.trim() || null,
+          excused_records: excused,
+        },
+        { transaction }
+      );
+    });
+
+    const student = await Student.findByPk(leave.student_id);
+    if (student) {
+      const note = leave.review_comment ? ` Comment: ${leave.review_comment}` : '';
+      await this.notify(
+        [student.user_id],
+        'student',
+        decision === 'approved' ? '✅ Leave Request Approved' : '❌ Leave Request Rejected',
+        decision === 'approved'
+          ? `Your leave for ${formatRange(leave)} was approved; ${leave.excused_records} absence(s) are now excused.${note}`
+          : `Your leave request for ${formatRange(leave)} was rejected.${note}`,
+        leave,
+        'high'
+      );
+
+      // The other reviewers see that it has been dealt with
+      const reviewers = await this.reviewers(student);
+      await this.notify(
+        reviewers.userIds.filter((userId) => userId !== reviewer.user_id),
+        reviewers.role,
+        decision === 'approved' ? '✅ Leave Request Approved' : '❌ Leave Request Rejected',
+        `${student.name}'s leave request for ${formatRange(leave)} was ${decision}.`,
+        leave
+      );
+    }
+
+    return { leave };
+  }
+
+  /**
+   * Withdraw a request that hasn't been reviewed yet
+   */
+  static async cancel(leave: LeaveRequest): Promise<{ leave?: LeaveRequest; error?: string }> {
+    if (leave.status !== 'pending') {
+      return { error: `Only pending requests can be cancelled; this one is ${leave.status}` };
+    }
+    await leave.update({ status: 'cancelled' });
+
+    const student = await Student.findByPk(leave.student_id);
+    if (student) {
+      const reviewers = await this.reviewers(student);
+      await this.notify(
+        reviewers.userIds,
+        reviewers.role,
+        '📄 Leave Request Withdrawn',
+        `${student.name} withdrew the leave request for ${formatRange(leave)}.`,
+        leave
+      );
+    }
+    return { leave };
+  }
+
+  /**
+   * Leave status of each student that has a pending or approved request
+   * covering date, for deciding how to record an absence
+   */
+  static async leaveOn(studentIds: number[], date: string): Promise<Map<number, LeaveRequestStatus>> {
+    const result = new Map<number, LeaveRequestStatus>();
+    if (studentIds.length === 0) return result;
+
+    const leaves = await LeaveRequest.findAll({
+      where: {
+        student_id: { [Op.in]: studentIds },
+        status: { [Op.in]: ['pending', 'approved'] },
+        start_date: { [Op.lte]: date },
+        end_date: { [Op.gte]: date },
+      },
+    });
+    for (const leave of leaves) {
+      // An approved request wins over a pending one
+      if (result.get(leave.student_id) !== 'approved') {
+        result.set(leave.student_id, leave.status);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Expiring download URL for the supporting document
+   */
+  static async documentUrl(leave: LeaveRequest) {
+    if (!leave.document_key) return null;
+    return StorageService.signedFile(leave.document_key);
+  }
+
+  private static async notify(
+    userIds: number[],
+    userRole: string,
+    title: string,
+    message: string,
+    leave: LeaveRequest,
+    priority?: string
+  ) {
+    if (userIds.length === 0) return;
+    try {
+      await NotificationService.notifyLeaveRequest({
+        userIds,
+        userRole,
+        title,
+        message,
+        leaveId: leave.leave_id,
+        status: leave.status,
+        priority,
+      });
+    } catch (error) {
+      // Notification failure shouldn't undo the request
+      console.error(`❌ Failed to send leave request ${leave.leave_id} notifications:`, error);
+    }
+  }
+}
+
+export default LeaveRequestService;
@@ -0,0 +1,245 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { jwtSecret } from '../config/secrets';
+import NonceService from './NonceService';
+
+export type LivenessAction = 'blink' | 'turn_left' | 'turn_right' | 'smile';
+
+export type LivenessFailure =
+  | 'missing'
+  | 'malformed'
+  | 'invalid_challenge'
+  | 'challenge_used'
+  | 'bad_signature'
+  | 'wrong_sequence'
+  | 'implausible_timing'
+  | 'too_few_frames'
+  | 'action_not_detected';
+
+// One prompt as measured by the client. Metrics come from the 68-point landmarks:
+//   blink      eye aspect ratio; peak is the lowest value seen
+//   turn_*     nose offset from the eye midpoint / eye distance (positive = student's left)
+//   smile      mouth width / eye distance; peak is the widest
+export interface LivenessStep {
+  action: LivenessAction;
+  frames: number;
+  baseline: number;
+  peak: number;
+  at: number;
+}
+
+export interface LivenessSummary {
+  challengeToken: string;
+  startedAt: number;
+  completedAt: number;
+  steps: LivenessStep[];
+  signature: string;
+}
+
+export interface LivenessChallenge {
+  challengeToken: string;
+  actions: LivenessAction[];
+  signingKey: string;
+  expiresAt: string;
+}
+
+export interface LivenessResult {
+  passed: boolean;
+  reason?: LivenessFailure;
+  failedAction?: LivenessAction;
+  actions?: LivenessAction[];
+  durationMs?: number;
+  steps?: Omit<LivenessStep, 'at'>[];
+  checkedAt: string;
+}
+
+const ACTIONS: LivenessAction[] = ['blink', 'turn_left', 'turn_right', 'smile'];
+const ACTIONS_PER_CHALLENGE = 2;
+const MIN_FRAMES_PER_STEP = 3;
+// A human needs a moment per prompt; a replayed summary tends to be instant
+const MIN_MS_PER_STEP = 400;
+
+const BLINK_MAX_RATIO = 0.75; // closed-eye EAR must drop to 75% of the open baseline
+const TURN_MIN_DELTA = 0.15;
+const SMILE_MIN_RATIO = 1.1;
+
+// Each challenge gets its own key, derived from its nonce
+const keyFor = (nonce: string) =>
+  crypto.createHmac('sha256', jwtSecret()).update(`liveness:${nonce}`).digest('hex');
+
+const isNumber = (value: any) => typeof value === 'number' && Number.isFinite(value);
+
+// Every step an object with a known action and numeric measurements
+const wellFormed = (summary: any) =>
+  isNumber(summary.startedAt) &&
+  isNumber(summary.completedAt) &&
+  Array.isArray(summary.steps) &&
+  summary.steps.every(
+    (step: any) =>
+      step !== null &&
+      typeof step === 'object' &&
+      ACTIONS.includes(step.action) &&
+      isNumber(step.frames) &&
+      isNumber(step.baseline) &&
+      isNumber(step.peak) &&
+      isNumber(step.at)
+  );
+
+/**
+ * LivenessService - Challenge-response liveness for smart-attendance face
+ * verification. The server picks a random sequence of prompts; the client
+ * measures each one across webcam frames with the landmark model and returns
+ * a signed summary that the thresholds and timing are re-checked against
+ * here. Each challenge can be used once.
+ *
+ * The signing key is issued with the challenge to the client that produces
+ * the summary, so the signature only binds the summary to its challenge and
+ * to the face descriptor submitted with it; it gives no integrity against a
+ * scripted client, which can measure, sign and fabricate a passing summary
+ * itself. The check raises the bar for a photo held up to the camera.
+ */
+class LivenessService {
+  /**
+   * Random prompt sequence bound to one student's scan of one session
+   */
+  static issueChallenge(sessionId: string, studentId: number, ttlSeconds: number): LivenessChallenge {
+    const pool = [...ACTIONS];
+    const actions: LivenessAction[] = [];
+    while (actions.length < ACTIONS_PER_CHALLENGE) {
+      actions.push(pool.splice(crypto.randomInt(pool.length), 1)[0]);
+    }
+
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const challengeToken = jwt.sign(
+      { purpose: 'liveness', sessionId, studentId, actions, nonce },
+      jwtSecret(),
+      { expiresIn: ttlSeconds }
+    );
+
+    return {
+      challengeToken,
+      actions,
+      signingKey: keyFor(nonce),
+      expiresAt: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Check a client summary against its challenge, using the challenge up.
+   * The signature also covers the submitted face descriptor, so the summary
+   * can't be reused with a different face.
+   */
+  static async verify(
+    summary: any,
+    sessionId: string,
+    studentId: number,
+    faceDescriptor: number[]
+  ): Promise<LivenessResult> {
+    const checkedAt = new Date().toISOString();
+    if (!summary || typeof summary !== 'object' || !summary.challengeToken) {
+      return { passed: false, reason: 'missing', checkedAt };
+    }
+
+    let challenge: any;
+    try {
+      challenge = jwt.verify(String(summary.challengeToken), jwtSecret());
+    } catch {
+      return { passed: false, reason: 'invalid_challenge', checkedAt };
+    }
+    if (
+      challenge.purpose !== 'liveness' ||
+      challenge.sessionId !== sessionId ||
+      challenge.studentId !== studentId
+    ) {
+      return { passed: false, reason: 'invalid_challenge', checkedAt };
+    }
+
+    const actions: LivenessAction[] = challenge.actions;
+    const base = { actions, checkedAt };
+    if (!(await NonceService.consume('liveness', challenge.nonce, new Date(challenge.exp * 1000)))) {
+      return { ...base, passed: false, reason: 'challenge_used' };
+    }
+    if (!wellFormed(summary)) {
+      return { ...base, passed: false, reason: 'malformed' };
+    }
+    const steps: LivenessStep[] = summary.steps;
+
+    const expected = this.sign(keyFor(challenge.nonce), summary, steps, faceDescriptor);
+    const signature = String(summary.signature || '');
+    if (
+      signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      return { ...base, passed: false, reason: 'bad_signature' };
+    }
+
+    const recorded = steps.map(({ action, frames, baseline, peak }) => ({ action, frames, baseline, peak }));
+    const withSteps = { ...base, steps: recorded, durationMs: summary.completedAt - summary.startedAt };
+
+    if (steps.length !== actions.length || steps.some((step, i) => step.action !== actions[i])) {
+      return { ...withSteps, passed: false, reason: 'wrong_sequence' };
+    }
+
+    // Steps must happen in order, after the challenge was issued and before it expired
+    const issuedAt = challenge.iat * 1000;
+    const expiresAt = challenge.exp * 1000;
+    let previous = summary.startedAt;
+    const inOrder = steps.every((step) => {
+      const ok = step.at >= previous && step.at <= summary.completedAt;
+      previous = step.at;
+      return ok;
+    });
+    if (
+      !inOrder ||
+      summary.startedAt < issuedAt - 5000 ||
+      summary.completedAt > expiresAt ||
+      summary.completedAt - summary.startedAt < MIN_MS_PER_STEP * steps.length
+    ) {
+      return { ...withSteps, passed: false, reason: 'implausible_timing' };
+    }
+
+    for (const step of steps) {
+      if (!(step.frames >= MIN_FRAMES_PER_STEP)) {
+        return { ...withSteps, passed: false, reason: 'too_few_frames', failedAction: step.action };
+      }
+      if (!this.actionDetected(step)) {
+        return { ...withSteps, passed: false, reason: 'action_not_detected', failedAction: step.action };
+      }
+    }
+
+    return { ...withSteps, passed: true };
+  }
+
+  private static actionDetected({ action, baseline, peak }: LivenessStep): boolean {
+    if (!Number.isFinite(baseline) || !Number.isFinite(peak)) return false;
+    switch (action) {
+      case 'blink':
+        return baseline > 0 && peak <= baseline * BLINK_MAX_RATIO;
+      case 'turn_left':
+        return peak - baseline >= TURN_MIN_DELTA;
+      case 'turn_right':
+        return baseline - peak >= TURN_MIN_DELTA;
+      case 'smile':
+        return baseline > 0 && peak >= baseline * SMILE_MIN_RATIO;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * HMAC over the summary in a fixed array layout, so key order in the JSON
+   * body doesn't matter. Must match the client's signLivenessSummary.
+   */
+  private static sign(key: string, summary: any, steps: LivenessStep[], faceDescriptor: number[]): string {
+    const payload = JSON.stringify([
+      summary.challengeToken,
+      summary.startedAt,
+      summary.completedAt,
+      steps.map((step) => [step.action, step.frames, step.baseline, step.peak, step.at]),
+      faceDescriptor,
+    ]);
+    return crypto.createHmac('sha256', key).update(payload).digest('hex');
+  }
+}
+
+export default LivenessService;
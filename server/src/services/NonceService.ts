@@ -0,0 +1,26 @@
+import { QueryTypes } from 'sequelize';
+import { sequelize } from '../config/database';
+
+/**
+ * NonceService - Single use of one-time values across restarts and API
+ * instances, backed by the used_nonces table
+ */
+class NonceService {
+  /**
+   * Mark a nonce as used until it expires. Returns false when it was already
+   * used, so the caller can reject the replay.
+   */
+  static async consume(scope: string, nonce: string, expiresAt: Date): Promise<boolean> {
+    await sequelize.query('DELETE FROM used_nonces WHERE expires_at < CURRENT_TIMESTAMP');
+    const inserted = await sequelize.query(
+      `INSERT INTO used_nonces (nonce_key, expires_at)
+       VALUES ($1, $2)
+       ON CONFLICT (nonce_key) DO NOTHING
+       RETURNING nonce_key`,
+      { bind: [`${scope}:${nonce}`.substring(0, 200), expiresAt], type: QueryTypes.SELECT }
+    );
+    return inserted.length > 0;
+  }
+}
+
+export default NonceService;
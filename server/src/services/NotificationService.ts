@@ -165,6 +165,163 @@ class NotificationService {
     }
   }
 
+  /**
+   * Create leave request notifications (submitted, approved, rejected, cancelled)
+   */
+  static async notifyLeaveRequest(params: {
+    userIds: number[];
+    userRole: string;
+    title: string;
+    message: string;
+    leaveId: number;
+    status: string;
+    priority?: string;
+  }) {
+    try {
+      const { userIds, userRole, title, message, leaveId, status, priority = 'normal' } = params;
+
+      const notifications = await Promise.all(
+        userIds.map((userId) =>
+          Notification.create({
+            user_id: userId,
+            user_role: userRole,
+            type: 'leave_request',
+            title,
+            message,
+            related_data: {
+              leave_id: leaveId,
+              status,
+            },
+            priority,
+            is_read: false,
+          })
+        )
+      );
+
+      console.log(`📢 Leave request ${leaveId} (${status}) notification sent to ${userIds.length} ${userRole}(s)`);
+      return notifications;
+    } catch (error) {
+      console.error('Error creating leave request notifications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create attendance dispute notifications (raised, accepted, rejected, withdrawn)
+   */
+  static async notifyAttendanceDispute(params: {
+    userIds: number[];
+    userRole: string;
+    title: string;
+    message: string;
+    disputeId: number;
+    status: string;
+    priority?: string;
+  }) {
+    try {
+      const { userIds, userRole, title, message, disputeId, status, priority = 'normal' } = params;
+
+      const notifications = await Promise.all(
+        userIds.map((userId) =>
+          Notification.create({
+            user_id: userId,
+            user_role: userRole,
+            type: 'attendance_dispute',
+            title,
+            message,
+            related_data: {
+              dispute_id: disputeId,
+              status,
+            },
+            priority,
+            is_read: false,
+          })
+        )
+      );
+
+      console.log(`📢 Attendance dispute ${disputeId} (${status}) notification sent to ${userIds.length} ${userRole}(s)`);
+      return notifications;
+    } catch (error) {
+      console.error('Error creating attendance dispute notifications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create student device notifications (change requested, approved, rejected, removed)
+   */
+  static async notifyStudentDevice(params: {
+    userIds: number[];
+    userRole: string;
+    title: string;
+    message: string;
+    deviceId: number;
+    status: string;
+    priority?: string;
+  }) {
+    try {
+      const { userIds, userRole, title, message, deviceId, status, priority = 'normal' } = params;
+
+      const notifications = await Promise.all(
+        userIds.map((userId) =>
+          Notification.create({
+            user_id: userId,
+            user_role: userRole,
+            type: 'student_device',
+            title,
+            message,
+            related_data: {
+              device_id: deviceId,
+              status,
+            },
+            priority,
+            is_read: false,
+          })
+        )
+      );
+
+      console.log(`📢 Student device ${deviceId} (${status}) notification sent to ${userIds.length} ${userRole}(s)`);
+      return notifications;
+    } catch (error) {
+      console.error('Error creating student device notifications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ask a student to enroll their face again
+   */
+  static async notifyFaceReenrollment(params: {
+    userId: number;
+    title: string;
+    message: string;
+    reason: string;
+    priority?: string;
+  }) {
+    try {
+      const { userId, title, message, reason, priority = 'high' } = params;
+
+      const notification = await Notification.create({
+        user_id: userId,
+        user_role: 'student',
+        type: 'face_reenrollment',
+        title,
+        message,
+        related_data: {
+          reason,
+        },
+        priority,
+        is_read: false,
+      });
+
+      console.log(`📢 Face re-enrollment (${reason}) notification sent to user ${userId}`);
+      return notification;
+    } catch (error) {
+      console.error('Error creating face re-enrollment notification:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get unread notifications for a user
    */
@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import AttendanceSession from '../models/AttendanceSession';
+
+// Rotating tokens look like "rq1.<sessionId>.<step>.<code>"; anything else is a static JWT
+const TOKEN_PREFIX = 'rq1';
+const CODE_LENGTH = 16;
+
+export const MIN_ROTATION_SECONDS = 5;
+export const MAX_ROTATION_SECONDS = 120;
+
+export type StepCheck = 'current' | 'previous' | 'expired' | 'invalid';
+
+export interface RotatingToken {
+  sessionId: string;
+  step: number;
+  code: string;
+}
+
+/**
+ * RotatingQRService - TOTP-style QR codes for attendance sessions. Each code
+ * is an HMAC of the time-step counter under a per-session secret, so only the
+ * server can mint one and a photo of the screen goes stale within two steps.
+ */
+class RotatingQRService {
+  /**
+   * New random per-session secret
+   */
+  static createSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Time-step counter for an interval, counted from the Unix epoch
+   */
+  static stepAt(intervalSeconds: number, at: Date = new Date()): number {
+    return Math.floor(at.getTime() / 1000 / intervalSeconds);
+  }
+
+  /**
+   * When the given step ends and the next code takes over
+   */
+  static stepEndsAt(intervalSeconds: number, step: number): Date {
+    return new Date((step + 1) * intervalSeconds * 1000);
+  }
+
+  /**
+   * Whether a scanned value is a rotating token rather than a static JWT
+   */
+  static isRotatingToken(value: string): boolean {
+    return typeof value === 'string' && value.startsWith(`${TOKEN_PREFIX}.`);
+  }
+
+  /**
+   * The token displayed for a session during a step
+   */
+  static tokenFor(session: AttendanceSession, step: number): string {
+    return `${TOKEN_PREFIX}.${session.session_id}.${step}.${this.code(session.rotation_secret!, session.session_id, step)}`;
+  }
+
+  /**
+   * Split a scanned token into its parts; null when malformed
+   */
+  static parse(value: string): RotatingToken | null {
+    const parts = value.split('.');
+    if (parts.length !== 4 || parts[0] !== TOKEN_PREFIX || !/^\d+$/.test(parts[2])) {
+      return null;
+    }
+    return { sessionId: parts[1], step: parseInt(parts[2], 10), code: parts[3] };
+  }
+
+  /**
+   * Check a scanned token against the session's clock. Only the current step
+   * and the one before it (for scans that straddle a rotation) are accepted.
+   */
+  static check(session: AttendanceSession, token: RotatingToken, at: Date = new Date()): StepCheck {
+    const expected = this.code(session.rotation_secret!, session.session_id, token.step);
+    if (
+      token.code.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(token.code), Buffer.from(expected))
+    ) {
+      return 'invalid';
+    }
+
+    const current = this.stepAt(session.rotation_interval_seconds!, at);
+    if (token.step === current) return 'current';
+    if (token.step === current - 1) return 'previous';
+    // A step from the future means a forged clock or a bug; treat as invalid
+    return token.step < current ? 'expired' : 'invalid';
+  }
+
+  private static code(secret: string, sessionId: string, step: number): string {
+    return crypto
+      .createHmac('sha256', secret)
+      .update(`${sessionId}:${step}`)
+      .digest('base64url')
+      .substring(0, CODE_LENGTH);
+  }
+}
+
+export default RotatingQRService;
@@ -0,0 +1,97 @@
+import { Request } from 'express';
+import { Op } from 'sequelize';
+import SecurityEvent, { SecurityEventType, SecuritySeverity } from '../models/SecurityEvent';
+import User from '../models/User';
+
+export interface SecurityEventInput {
+  type: SecurityEventType;
+  severity?: SecuritySeverity;
+  claimedStudentId?: number | null;
+  actualStudentId?: number | null;
+  scheduleId?: number | null;
+  sessionId?: string | null;
+  details?: object;
+}
+
+export interface SecurityEventFilters {
+  type?: string;
+  unreviewedOnly?: boolean;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+const toInt = (value: any) => {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * SecurityEventService - Records rejected smart-attendance requests that look
+ * like impersonation or cross-class access, and lets coordinators review them
+ */
+class SecurityEventService {
+  /**
+   * Record an event for the current request. Failures are logged and swallowed
+   * so the request is still rejected with its own error.
+   */
+  static async record(req: Request, event: SecurityEventInput): Promise<void> {
+    const user = (req as any).user;
+    try {
+      await SecurityEvent.create({
+        event_type: event.type,
+        severity: event.severity || 'medium',
+        user_id: user?.user_id ?? null,
+        role: user?.role ?? null,
+        route: `${req.method} ${req.baseUrl}${req.path}`.substring(0, 200),
+        claimed_student_id: toInt(event.claimedStudentId),
+        actual_student_id: event.actualStudentId ?? null,
+        schedule_id: toInt(event.scheduleId),
+        session_id: event.sessionId ? String(event.sessionId).substring(0, 100) : null,
+        ip_address: (req.ip || '').substring(0, 64) || null,
+        user_agent: req.get('user-agent') || null,
+        details: event.details || null,
+      });
+      console.warn(`🚨 Security event: ${event.type} by user ${user?.user_id} on ${req.method} ${req.originalUrl}`);
+    } catch (error) {
+      console.error('Failed to record security event:', error);
+    }
+  }
+
+  /**
+   * Most recent events first, with the acting user and reviewer
+   */
+  static async list(filters: SecurityEventFilters = {}): Promise<SecurityEvent[]> {
+    const where: any = {};
+    if (filters.type) where.event_type = filters.type;
+    if (filters.unreviewedOnly) where.reviewed_at = null;
+    if (filters.from || filters.to) {
+      where.created_at = {
+        ...(filters.from ? { [Op.gte]: new Date(filters.from) } : {}),
+        ...(filters.to ? { [Op.lte]: new Date(`${filters.to}T23:59:59.999Z`) } : {}),
+      };
+    }
+
+    return SecurityEvent.findAll({
+      where,
+      include: [
+        { model: User, as: 'user', attributes: ['user_id', 'email', 'role'] },
+        { model: User, as: 'reviewer', attributes: ['user_id', 'email'] },
+      ],
+      order: [['created_at', 'DESC']],
+      limit: Math.min(filters.limit || 200, 1000),
+    });
+  }
+
+  /**
+   * Mark an event as reviewed by a coordinator; null when it doesn't exist
+   */
+  static async markReviewed(eventId: number, reviewerId: number, note?: string | null): Promise<SecurityEvent | null> {
+    const event = await SecurityEvent.findByPk(eventId);
+    if (!event) return null;
+    await event.update({ reviewed_at: new Date(), reviewed_by: reviewerId, review_note: note?.trim() || null });
+    return event;
+  }
+}
+
+export default SecurityEventService;
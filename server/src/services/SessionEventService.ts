@@ -0,0 +1,141 @@
+import { Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { jwtSecret } from '../config/secrets';
+
+export type SessionEventType =
+  | 'scan-verified'
+  | 'scan-rejected'
+  | 'class-photo-processed'
+  | 'session-finalized';
+
+// session:<session_id> for the teacher's dashboard, student:<student_id> for a student's own updates
+export type EventRoom = `session:${string}` | `student:${number}`;
+
+export interface StreamTicket {
+  ticket: string;
+  expiresAt: string;
+}
+
+// A ticket only has to outlive the gap between fetching it and opening the stream
+const TICKET_TTL_SECONDS = 60;
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 25000;
+// Tells EventSource how long to wait before reconnecting after a dropped connection
+const RETRY_MS = 3000;
+
+/**
+ * SessionEventService - Pushes smart-attendance events to subscribed browsers
+ * over server-sent events. Each stream joins one room; the teacher's dashboard
+ * listens on its session and a student on their own room. Subscribers live in
+ * this process, so clients keep a slow status poll as a fallback.
+ */
+class SessionEventService {
+  private static rooms = new Map<EventRoom, Set<Response>>();
+  private static heartbeat: NodeJS.Timeout | null = null;
+  private static nextId = 1;
+
+  /**
+   * Signed, short-lived permission to open a stream on one room. EventSource
+   * can't send an Authorization header, so this goes in the stream URL instead
+   * of the login token.
+   */
+  static issueTicket(room: EventRoom, userId: number): StreamTicket {
+    return {
+      ticket: jwt.sign({ purpose: 'event_stream', room, userId }, jwtSecret(), {
+        expiresIn: TICKET_TTL_SECONDS,
+      }),
+      expiresAt: new Date(Date.now() + TICKET_TTL_SECONDS * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * The room a ticket grants, or null for expired or forged tickets
+   */
+  static verifyTicket(ticket: string): EventRoom | null {
+    try {
+      const decoded: any = jwt.verify(String(ticket || ''), jwtSecret());
+      return decoded.purpose === 'event_stream' ? decoded.room : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Turn the response into an event stream on room until the client disconnects
+   */
+  static subscribe(room: EventRoom, res: Response): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Stop nginx from buffering the stream
+      'X-Accel-Buffering': 'no',
+    });
+    res.write(`retry: ${RETRY_MS}\n\n`);
+    this.send(res, 'connected', { room });
+
+    const subscribers = this.rooms.get(room) || new Set<Response>();
+    subscribers.add(res);
+    this.rooms.set(room, subscribers);
+    this.startHeartbeat();
+
+    res.on('close', () => {
+      subscribers.delete(res);
+      if (subscribers.size === 0 && this.rooms.get(room) === subscribers) {
+        this.rooms.delete(room);
+      }
+      if (this.rooms.size === 0) {
+        this.stopHeartbeat();
+      }
+    });
+  }
+
+  /**
+   * Send an event to everyone listening on a session
+   */
+  static toSession(sessionId: string, type: SessionEventType, data: any): void {
+    this.publish(`session:${sessionId}`, type, { sessionId, ...data });
+  }
+
+  /**
+   * Send an event to one student's own stream
+   */
+  static toStudent(studentId: number, type: SessionEventType, data: any): void {
+    this.publish(`student:${studentId}`, type, data);
+  }
+
+  static subscriberCount(room: EventRoom): number {
+    return this.rooms.get(room)?.size || 0;
+  }
+
+  private static publish(room: EventRoom, type: SessionEventType, data: any): void {
+    const subscribers = this.rooms.get(room);
+    if (!subscribers) return;
+    subscribers.forEach((res) => this.send(res, type, data));
+  }
+
+  private static send(res: Response, type: string, data: any): void {
+    try {
+      res.write(`id: ${this.nextId++}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+    } catch (error) {
+      // A dead socket is removed by its close handler
+      console.error('Failed to write session event:', error);
+    }
+  }
+
+  private static startHeartbeat(): void {
+    if (this.heartbeat) return;
+    this.heartbeat = setInterval(() => {
+      this.rooms.forEach((subscribers) => subscribers.forEach((res) => res.write(': ping\n\n')));
+    }, HEARTBEAT_MS);
+    this.heartbeat.unref();
+  }
+
+  private static stopHeartbeat(): void {
+    if (!this.heartbeat) return;
+    clearInterval(this.heartbeat);
+    this.heartbeat = null;
+  }
+}
+
+export default SessionEventService;
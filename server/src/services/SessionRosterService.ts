@@ -0,0 +1,57 @@
+import { QueryTypes } from 'sequelize';
+import { sequelize } from '../config/database';
+import Course from '../models/Course';
+import Student from '../models/Student';
+
+const ATTRIBUTES = ['student_id', 'name', 'roll_number'];
+
+/**
+ * SessionRosterService - Students expected in a timetable slot's class, used
+ * to scope class-photo matching and hand tagging. Never wider than the class:
+ * a slot that can't be tied to enrolled students or a section has no roster.
+ */
+class SessionRosterService {
+  /**
+   * Students enrolled in the slot's course (student_courses), narrowed to the
+   * slot's section and lab batch when it has them. A course nobody is
+   * enrolled in falls back to the slot's section; with neither, the roster
+   * is empty.
+   */
+  static async forSchedule(scheduleId: number): Promise<Student[]> {
+    // batch_id isn't on the Timetable model; read it from the row if present
+    const [slot] = (await sequelize.query(
+      `SELECT t.course_id, t.section_id, to_jsonb(t) ->> 'batch_id' AS batch_id,
+              (SELECT COUNT(*)::int FROM student_courses sc WHERE sc.course_id = t.course_id) AS enrolled
+       FROM timetable t
+       WHERE t.schedule_id = :scheduleId`,
+      { replacements: { scheduleId }, type: QueryTypes.SELECT }
+    )) as any[];
+    if (!slot) return [];
+
+    const where: any = {};
+    if (slot.section_id) where.section_id = slot.section_id;
+    if (slot.batch_id) where.batch_id = Number(slot.batch_id);
+
+    if (slot.enrolled > 0) {
+      return Student.findAll({
+        where,
+        attributes: ATTRIBUTES,
+        include: [
+          {
+            model: Course,
+            as: 'courses',
+            where: { course_id: slot.course_id },
+            through: { attributes: [] },
+            attributes: [],
+          },
+        ],
+        order: [['roll_number', 'ASC']],
+      });
+    }
+    if (!slot.section_id) return [];
+
+    return Student.findAll({ where, attributes: ATTRIBUTES, order: [['roll_number', 'ASC']] });
+  }
+}
+
+export default SessionRosterService;
@@ -0,0 +1,233 @@
+import path from 'path';
+import sharp from 'sharp';
+import { Op } from 'sequelize';
+import StudentFace from '../models/StudentFace';
+import StudentScanRecord from '../models/StudentScanRecord';
+import TeacherClassCapture from '../models/TeacherClassCapture';
+import { StorageDriver } from './storage/StorageDriver';
+import LocalStorageDriver from './storage/LocalStorageDriver';
+import S3StorageDriver from './storage/S3StorageDriver';
+
+// Read lazily: dotenv is loaded after the imports are evaluated
+const signedUrlTtl = () => parseInt(process.env.STORAGE_SIGNED_URL_TTL_SECONDS || '300', 10);
+const retentionDays = () => parseInt(process.env.BIOMETRIC_RETENTION_DAYS || '90', 10);
+// Where clients reach the API; never taken from the request's Host header, which
+// the sender controls
+const publicApiUrl = () =>
+  (process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 5001}/api`).replace(/\/+$/, '');
+
+const THUMBNAIL_SIZE = 240;
+const MAX_IMAGE_SIZE = 1920;
+const PURGE_BATCH_SIZE = 200;
+const PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const decodeBase64 = (imageBase64: string) =>
+  Buffer.from(String(imageBase64).replace(/^data:[^,]*,/, ''), 'base64');
+
+export interface SignedImage {
+  imageUrl: string;
+  thumbnailUrl: string;
+  expiresAt: string;
+}
+
+// A multer upload held in memory
+export interface UploadedFile {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+}
+
+export interface PurgeResult {
+  retentionDays: number;
+  cutoff: string;
+  scans: number;
+  captures: number;
+  faces: number;
+}
+
+/**
+ * StorageService - Keeps face and class-photo images in the configured
+ * backend (STORAGE_DRIVER=local or s3) with a JPEG thumbnail beside each,
+ * along with leave-request documents,
+ * hands out expiring download URLs, and deletes biometric images once they
+ * are older than BIOMETRIC_RETENTION_DAYS.
+ */
+class StorageService {
+  private static instance: StorageDriver | null = null;
+  private static timer: NodeJS.Timeout | null = null;
+
+  static driver(): StorageDriver {
+    if (!this.instance) {
+      if ((process.env.STORAGE_DRIVER || 'local') === 's3') {
+        this.instance = new S3StorageDriver({
+          endpoint: process.env.S3_ENDPOINT || `https://s3.${process.env.S3_REGION || 'us-east-1'}.amazonaws.com`,
+          region: process.env.S3_REGION || 'us-east-1',
+          bucket: process.env.S3_BUCKET || '',
+          accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+          secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+          forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+        });
+      } else {
+        this.instance = new LocalStorageDriver(
+          path.resolve(process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), 'storage'))
+        );
+      }
+    }
+    return this.instance;
+  }
+
+  /**
+   * Key of the thumbnail stored next to an image
+   */
+  static thumbnailKey(key: string): string {
+    return key.replace(/\.jpg$/, '') + '.thumb.jpg';
+  }
+
+  /**
+   * Whether a base64 image (with or without a data: URL prefix) decodes in
+   * full, so saveImage won't fail on a corrupt or truncated upload
+   */
+  static async isReadableImage(imageBase64: string): Promise<boolean> {
+    try {
+      await sharp(decodeBase64(imageBase64)).stats();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Store a base64 image (with or without a data: URL prefix) as a JPEG
+   * under key, plus its thumbnail. Orientation is fixed and large photos
+   * are scaled down.
+   */
+  static async saveImage(key: string, imageBase64: string): Promise<string> {
+    const input = decodeBase64(imageBase64);
+
+    const image = await sharp(input)
+      .rotate()
+      .resize(MAX_IMAGE_SIZE, MAX_IMAGE_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 85 })
+      .toBuffer();
+    const thumbnail = await sharp(image)
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside' })
+      .jpeg({ quality: 70 })
+      .toBuffer();
+
+    const driver = this.driver();
+    await driver.put(key, image, 'image/jpeg');
+    await driver.put(this.thumbnailKey(key), thumbnail, 'image/jpeg');
+    return key;
+  }
+
+  /**
+   * Expiring download URLs for an image and its thumbnail. The local driver
+   * serves files from PUBLIC_API_URL.
+   */
+  static async signedImage(key: string): Promise<SignedImage> {
+    const baseUrl = publicApiUrl();
+    const ttl = signedUrlTtl();
+    const driver = this.driver();
+    return {
+      imageUrl: await driver.signedUrl(key, ttl, baseUrl),
+      thumbnailUrl: await driver.signedUrl(this.thumbnailKey(key), ttl, baseUrl),
+      expiresAt: new Date(Date.now() + ttl * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Store a file as uploaded, e.g. a PDF supporting a leave request
+   */
+  static async saveFile(key: string, body: Buffer, contentType: string): Promise<string> {
+    await this.driver().put(key, body, contentType);
+    return key;
+  }
+
+  /**
+   * Expiring download URL for a file stored with saveFile
+   */
+  static async signedFile(key: string): Promise<{ fileUrl: string; expiresAt: string }> {
+    const baseUrl = publicApiUrl();
+    const ttl = signedUrlTtl();
+    return {
+      fileUrl: await this.driver().signedUrl(key, ttl, baseUrl),
+      expiresAt: new Date(Date.now() + ttl * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Delete an image and its thumbnail
+   */
+  static async removeImage(key: string): Promise<void> {
+    const driver = this.driver();
+    await driver.delete(key);
+    await driver.delete(this.thumbnailKey(key));
+  }
+
+  /**
+   * Delete scan images, class photos and removed enrollment images older
+   * than the retention period. Rows keep their key and get image_purged_at.
+   */
+  static async purgeExpiredImages(): Promise<PurgeResult> {
+    const days = retentionDays();
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const purge = async (
+      model: any,
+      keyField: string,
+      where: Record<string, any>
+    ): Promise<number> => {
+      let purged = 0;
+      for (;;) {
+        const rows = await model.findAll({
+          where: { ...where, [keyField]: { [Op.ne]: null }, image_purged_at: null },
+          limit: PURGE_BATCH_SIZE,
+        });
+        if (rows.length === 0) return purged;
+
+        for (const row of rows) {
+          try {
+            await this.removeImage(row[keyField]);
+          } catch (error) {
+            console.error(`❌ Error deleting image ${row[keyField]}:`, error);
+          }
+          await row.update({ image_purged_at: new Date() });
+          purged++;
+        }
+      }
+    };
+
+    const result: PurgeResult = {
+      retentionDays: days,
+      cutoff: cutoff.toISOString(),
+      scans: await purge(StudentScanRecord, 'face_image_url', { scan_timestamp: { [Op.lt]: cutoff } }),
+      captures: await purge(TeacherClassCapture, 'image_url', { capture_timestamp: { [Op.lt]: cutoff } }),
+      faces: await purge(StudentFace, 'image_url', { is_active: false, updated_at: { [Op.lt]: cutoff } }),
+    };
+    console.log(
+      `🧹 Image retention: purged ${result.scans} scan, ${result.captures} class-photo and ${result.faces} enrollment images older than ${days} days`
+    );
+    return result;
+  }
+
+  /**
+   * Run the retention purge now and then once a day
+   */
+  static startRetentionSchedule() {
+    if (this.timer) return;
+
+    const run = () =>
+      this.purgeExpiredImages().catch((error) => console.error('❌ Error purging expired images:', error));
+    run();
+    this.timer = setInterval(run, PURGE_INTERVAL_MS);
+  }
+
+  static stopRetentionSchedule() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export default StorageService;
@@ -0,0 +1,371 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { Op, QueryTypes } from 'sequelize';
+import { sequelize } from '../config/database';
+import StudentDevice, { StudentDeviceStatus } from '../models/StudentDevice';
+import Student from '../models/Student';
+import User from '../models/User';
+import NonceService from './NonceService';
+import NotificationService from './NotificationService';
+import SecurityEventService from './SecurityEventService';
+import { Reviewer } from './LeaveRequestService';
+
+// Devices a student can scan with at once
+export const MAX_ACTIVE_DEVICES = 2;
+// How far a signed request's timestamp may be from the server clock
+const SIGNATURE_WINDOW_MS = 2 * 60 * 1000;
+// Prefix of every signed message, so a device signature can't be reused elsewhere
+const SIGNATURE_VERSION = 'haazir-device-v1';
+
+export type DeviceRequestPurpose = 'validate-qr' | 'verify-face';
+
+export interface DeviceRegistrationInput {
+  public_key?: string;
+  label?: string;
+}
+
+export interface DeviceFilters {
+  studentId?: number;
+  status?: string;
+  limit?: number;
+}
+
+export interface DeviceCheck {
+  device?: StudentDevice;
+  error?: string;
+  // Lets the client tell "register this phone" apart from "wait for approval"
+  code?: 'device_required' | 'device_pending' | 'device_not_trusted' | 'signature_invalid';
+}
+
+const fingerprintOf = (spki: Buffer) => crypto.createHash('sha256').update(spki).digest('hex');
+
+const sha256Hex = (data: Buffer | string) => crypto.createHash('sha256').update(data).digest('hex');
+
+/**
+ * StudentDeviceService - Registered phones for smart attendance. Each device
+ * holds an ECDSA P-256 key pair generated in the browser; the server keeps the
+ * public key and checks that QR and face requests are signed with it. A
+ * student's first device is trusted at once, and any device after that is a
+ * device change a coordinator approves. A device scans for only one student
+ * per session. Accepted signature nonces are kept in used_nonces, so a
+ * captured request can't be replayed against another API instance or after a
+ * restart.
+ */
+class StudentDeviceService {
+  static async list(filters: DeviceFilters = {}): Promise<StudentDevice[]> {
+    const where: any = {};
+    if (filters.studentId) where.student_id = filters.studentId;
+    if (filters.status && filters.status !== 'all') where.status = filters.status;
+
+    return StudentDevice.findAll({
+      where,
+      attributes: { exclude: ['public_key'] },
+      include: [
+        { model: Student, as: 'student', attributes: ['student_id', 'name', 'roll_number'] },
+        { model: User, as: 'reviewer', attributes: ['user_id', 'email', 'role'] },
+      ],
+      order: [['created_at', 'DESC']],
+      limit: filters.limit || 200,
+    });
+  }
+
+  /**
+   * Register the browser's public key for a student
+   */
+  static async register(
+    req: Request,
+    student: Student,
+    input: DeviceRegistrationInput
+  ): Promise<{ device?: StudentDevice; error?: string }> {
+    let spki: Buffer;
+    try {
+      spki = Buffer.from(String(input.public_key || ''), 'base64');
+      const key = crypto.createPublicKey({ key: spki, format: 'der', type: 'spki' });
+      if (key.asymmetricKeyType !== 'ec' || key.asymmetricKeyDetails?.namedCurve !== 'prime256v1') {
+        return { error: 'public_key must be an ECDSA P-256 key' };
+      }
+    } catch {
+      return { error: 'public_key must be a base64 SPKI public key' };
+    }
+
+    const fingerprint = fingerprintOf(spki);
+    const existing = await StudentDevice.findOne({ where: { key_fingerprint: fingerprint } });
+    if (existing && existing.student_id !== student.student_id) {
+      // The same browser is being used for a second student account
+      await SecurityEventService.record(req, {
+        type: 'device_shared',
+        severity: 'high',
+        actualStudentId: student.student_id,
+        details: { device_id: existing.device_id, owner_student_id: existing.student_id },
+      });
+      return { error: 'This device is registered to another student' };
+    }
+    if (existing) {
+      if (existing.status === 'rejected' || existing.status === 'revoked') {
+        return { error: `This device was ${existing.status}. Ask a coordinator to review it.` };
+      }
+      return { device: existing };
+    }
+
+    // Only the very first device is trusted without review
+    const previous = await StudentDevice.count({
+      where: { student_id: student.student_id, status: { [Op.in]: ['active', 'revoked'] } },
+    });
+    const status: StudentDeviceStatus = previous === 0 ? 'active' : 'pending';
+
+    // One pending change at a time; a newer request replaces the older one
+    await StudentDevice.update(
+      { status: 'rejected', review_note: 'Replaced by a newer device request', reviewed_at: new Date() },
+      { where: { student_id: student.student_id, status: 'pending' } }
+    );
+
+    const device = await StudentDevice.create({
+      student_id: student.student_id,
+      public_key: spki.toString('base64'),
+      key_fingerprint: fingerprint,
+      label: input.label?.trim().substring(0, 100) || null,
+      user_agent: req.get('user-agent') || null,
+      ip_address: (req.ip || '').substring(0, 64) || null,
+      status,
+    });
+
+    if (status === 'pending') {
+      const coordinators = await User.findAll({ where: { role: 'coordinator' }, attributes: ['user_id'] });
+      await this.notify(
+        coordinators.map((user) => user.user_id),
+        'coordinator',
+        '📱 Device Change Requested',
+        `${student.name} (${student.roll_number}) wants to scan attendance from a new device${device.label ? ` (${device.label})` : ''}.`,
+        device
+      );
+    }
+    return { device };
+  }
+
+  /**
+   * Approve a pending device. At the device limit, replaceDeviceId names the
+   * active device it replaces.
+   */
+  static async approve(
+    device: StudentDevice,
+    reviewer: Reviewer,
+    replaceDeviceId?: number,
+    note?: string
+  ): Promise<{ device?: StudentDevice; error?: string }> {
+    if (device.status !== 'pending') {
+      return { error: `Only pending devices can be approved; this one is ${device.status}` };
+    }
+
+    const error = await sequelize.transaction(async (transaction) => {
+      if (replaceDeviceId) {
+        const replaced = await StudentDevice.findOne({
+          where: { device_id: replaceDeviceId, student_id: device.student_id, status: 'active' },
+          transaction,
+        });
+        if (!replaced) return 'The device to replace is not one of the student\'s active devices';
+        await replaced.update(
+          {
+            status: 'revoked',
+            reviewed_by: reviewer.user_id,
+            reviewed_at: new Date(),
+            review_note: `Replaced by device #${device.device_id}`,
+          },
+          { transaction }
+        );
+      }
+
+      const active = await StudentDevice.count({
+        where: { student_id: device.student_id, status: 'active' },
+        transaction,
+      });
+      if (active >= MAX_ACTIVE_DEVICES) {
+        return `The student already has ${MAX_ACTIVE_DEVICES} active devices; choose one to replace`;
+      }
+
+      await device.update(
+        { status: 'active', reviewed_by: reviewer.user_id, reviewed_at: new Date(), review_note: note?.trim() || null },
+        { transaction }
+      );
+      return null;
+    });
+    if (error) return { error };
+
+    await this.notifyStudent(device, '✅ Device Approved', 'You can now scan attendance from your new device.');
+    return { device };
+  }
+
+  /**
+   * Reject a pending device change
+   */
+  static async reject(
+    device: StudentDevice,
+    reviewer: Reviewer,
+    note?: string
+  ): Promise<{ device?: StudentDevice; error?: string }> {
+    if (device.status !== 'pending') {
+      return { error: `Only pending devices can be rejected; this one is ${device.status}` };
+    }
+    if (!note?.trim()) {
+      return { error: 'A note is required when rejecting a device' };
+    }
+    await device.update({
+      status: 'rejected',
+      reviewed_by: reviewer.user_id,
+      reviewed_at: new Date(),
+      review_note: note.trim(),
+    });
+    await this.notifyStudent(device, '❌ Device Rejected', `Your new device wasn't approved. Note: ${note.trim()}`);
+    return { device };
+  }
+
+  /**
+   * Stop a device from signing scans (coordinator, or the student for their own)
+   */
+  static async revoke(
+    device: StudentDevice,
+    user: Reviewer,
+    note?: string
+  ): Promise<{ device?: StudentDevice; error?: string }> {
+    if (device.status === 'revoked' || device.status === 'rejected') {
+      return { error: `This device is already ${device.status}` };
+    }
+    await device.update({
+      status: 'revoked',
+      reviewed_by: user.user_id,
+      reviewed_at: new Date(),
+      review_note: note?.trim() || null,
+    });
+    if (user.role === 'coordinator') {
+      await this.notifyStudent(
+        device,
+        '📱 Device Removed',
+        `A coordinator removed ${device.label || 'one of your devices'} from smart attendance.${note?.trim() ? ` Note: ${note.trim()}` : ''}`
+      );
+    }
+    return { device };
+  }
+
+  /**
+   * Check the device signature on a student's scan request. The browser signs
+   * the version prefix, purpose, timestamp, nonce and the SHA-256 of the exact
+   * request body, one per line.
+   */
+  static async verifyRequest(req: Request, studentId: number, purpose: DeviceRequestPurpose): Promise<DeviceCheck> {
+    const deviceId = parseInt(req.get('x-device-id') || '', 10);
+    const timestamp = req.get('x-device-timestamp') || '';
+    const nonce = req.get('x-device-nonce') || '';
+    const signature = req.get('x-device-signature') || '';
+
+    if (!deviceId || !timestamp || !nonce || !signature) {
+      return { error: 'Register this device before scanning attendance', code: 'device_required' };
+    }
+
+    const device = await StudentDevice.findByPk(deviceId);
+    if (!device || device.student_id !== studentId) {
+      return { error: 'Register this device before scanning attendance', code: 'device_required' };
+    }
+    if (device.status === 'pending') {
+      return { error: 'This device is waiting for coordinator approval', code: 'device_pending' };
+    }
+    if (device.status !== 'active') {
+      return { error: `This device was ${device.status} and can't scan attendance`, code: 'device_not_trusted' };
+    }
+
+    const signedAt = Number(timestamp);
+    const fresh = Math.abs(Date.now() - signedAt) <= SIGNATURE_WINDOW_MS;
+    const message = [
+      SIGNATURE_VERSION,
+      purpose,
+      timestamp,
+      nonce,
+      sha256Hex((req as any).rawBody || Buffer.alloc(0)),
+    ].join('\n');
+
+    let valid = false;
+    try {
+      valid = crypto.verify(
+        'sha256',
+        Buffer.from(message),
+        {
+          key: crypto.createPublicKey({ key: Buffer.from(device.public_key, 'base64'), format: 'der', type: 'spki' }),
+          dsaEncoding: 'ieee-p1363',
+        },
+        Buffer.from(signature, 'hex')
+      );
+    } catch {
+      valid = false;
+    }
+
+    const unused =
+      valid &&
+      fresh &&
+      (await NonceService.consume(
+        'device',
+        `${device.device_id}:${nonce}`,
+        new Date(signedAt + SIGNATURE_WINDOW_MS)
+      ));
+    if (!unused) {
+      await SecurityEventService.record(req, {
+        type: 'device_signature_invalid',
+        severity: 'high',
+        actualStudentId: studentId,
+        sessionId: req.body?.sessionId,
+        details: {
+          device_id: device.device_id,
+          reason: !valid ? 'bad_signature' : !fresh ? 'stale_timestamp' : 'replayed_nonce',
+        },
+      });
+      return { error: 'The request was not signed by this device. Reload the page and try again.', code: 'signature_invalid' };
+    }
+    await device.update({ last_used_at: new Date() });
+    return { device };
+  }
+
+  /**
+   * Bind a device to a student for one session. Returns the other student's id
+   * when the device already scanned for someone else in this session.
+   */
+  static async claimForSession(deviceId: number, sessionId: string, studentId: number): Promise<number | null> {
+    await sequelize.query(
+      `INSERT INTO session_device_claims (session_id, device_id, student_id)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (session_id, device_id) DO NOTHING`,
+      { bind: [sessionId, deviceId, studentId], type: QueryTypes.INSERT }
+    );
+    const [claim]: any[] = await sequelize.query(
+      `SELECT student_id FROM session_device_claims WHERE session_id = $1 AND device_id = $2`,
+      { bind: [sessionId, deviceId], type: QueryTypes.SELECT }
+    );
+    return claim && claim.student_id !== studentId ? claim.student_id : null;
+  }
+
+  private static async notifyStudent(device: StudentDevice, title: string, message: string) {
+    const student = await Student.findByPk(device.student_id, { attributes: ['user_id'] });
+    if (student) await this.notify([student.user_id], 'student', title, message, device);
+  }
+
+  private static async notify(
+    userIds: number[],
+    userRole: string,
+    title: string,
+    message: string,
+    device: StudentDevice
+  ) {
+    if (userIds.length === 0) return;
+    try {
+      await NotificationService.notifyStudentDevice({
+        userIds,
+        userRole,
+        title,
+        message,
+        deviceId: device.device_id,
+        status: device.status,
+      });
+    } catch (error) {
+      // Notification failure shouldn't undo the device change
+      console.error(`❌ Failed to send device ${device.device_id} notifications:`, error);
+    }
+  }
+}
+
+export default StudentDeviceService;
@@ -0,0 +1,547 @@
+import { QueryTypes, Transaction } from 'sequelize';
+import { sequelize } from '../config/database';
+import { AITimetableGenerator } from '../ai/aiTimetableGenerator';
+import { RoomResource, TimetableGenerationInput, TimetableSolution } from '../ai/types';
+
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+  job_id: number;
+  request_id: number;
+  status: GenerationJobStatus;
+  progress: number;
+  progress_message: string | null;
+  error_message: string | null;
+  result_summary: any;
+  created_by: number | null;
+  queued_at: Date;
+  started_at: Date | null;
+  completed_at: Date | null;
+  duration_ms: number | null;
+}
+
+const POLL_INTERVAL_MS = 5000;
+
+const DEFAULT_TIME_CONFIGURATION: TimetableGenerationInput['timeConfiguration'] = {
+  start_time: '09:00',
+  end_time: '17:00',
+  class_duration: 60,
+  lunch_break: { start: '13:00', end: '14:00' },
+  working_days: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+};
+
+const select = async (sql: string, values?: any[], transaction?: Transaction) =>
+  (await sequelize.query(sql, { bind: values, type: QueryTypes.SELECT, transaction })) as any[];
+
+const execute = async (sql: string, values?: any[], transaction?: Transaction) => {
+  await sequelize.query(sql, { bind: values, transaction });
+};
+
+// generated_timetables stores lowercase day names; its day_of_week check has no Sunday
+const DAY_NAMES: Record<string, string> = {
+  MON: 'monday',
+  TUE: 'tuesday',
+  WED: 'wednesday',
+  THU: 'thursday',
+  FRI: 'friday',
+  SAT: 'saturday',
+};
+
+const toHHMM = (time: string) => String(time).substring(0, 5);
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = toHHMM(time).split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * TimetableGenerationQueue - Runs CSP generation for timetable requests in the background.
+ * Jobs are persisted in timetable_generation_jobs and processed one at a time so a
+ * long solve never blocks the request that queued it.
+ */
+class TimetableGenerationQueue {
+  private static timer: NodeJS.Timeout | null = null;
+  private static processing = false;
+  private static cancelledJobs = new Set<number>();
+
+  /**
+   * Start polling for queued jobs. Jobs left 'running' by a previous process are requeued.
+   */
+  static async start() {
+    if (this.timer) return;
+
+    try {
+      await execute(
+        `UPDATE timetable_generation_jobs
+         SET status = 'queued', progress = 0, progress_message = 'Requeued after server restart',
+             started_at = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE status = 'running'`
+      );
+    } catch (error) {
+      console.error('❌ Error requeuing interrupted generation jobs:', error);
+    }
+
+    this.timer = setInterval(() => this.processNext(), POLL_INTERVAL_MS);
+    console.log('🗓️ Timetable generation queue started');
+  }
+
+  static stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue a generation job for a request. Returns the existing job if one is already pending.
+   */
+  static async enqueue(requestId: number, userId?: number): Promise<GenerationJob> {
+    const pending = await select(
+      `SELECT * FROM timetable_generation_jobs
+       WHERE request_id = $1 AND status IN ('queued', 'running')
+       ORDER BY queued_at DESC LIMIT 1`,
+      [requestId]
+    );
+    if (pending.length > 0) {
+      return pending[0];
+    }
+
+    const [job] = (await sequelize.query(
+      `INSERT INTO timetable_generation_jobs (request_id, created_by, progress_message)
+       VALUES ($1, $2, 'Waiting in queue')
+       RETURNING *`,
+      { bind: [requestId, userId ?? null], type: QueryTypes.SELECT }
+    )) as any[];
+
+    await execute(
+      "UPDATE timetable_requests SET status = 'generating', updated_at = CURRENT_TIMESTAMP WHERE request_id = $1",
+      [requestId]
+    );
+
+    // Pick the job up straight away instead of waiting for the next poll
+    setImmediate(() => this.processNext());
+
+    return job;
+  }
+
+  /**
+   * Cancel the pending job for a request. Returns the cancelled job, or null if nothing was pending.
+   */
+  static async cancel(requestId: number): Promise<GenerationJob | null> {
+    const pending = await select(
+      `SELECT * FROM timetable_generation_jobs
+       WHERE request_id = $1 AND status IN ('queued', 'running')
+       ORDER BY queued_at DESC LIMIT 1`,
+      [requestId]
+    );
+    if (pending.length === 0) {
+      return null;
+    }
+
+    const job = pending[0] as GenerationJob;
+    if (job.status === 'running') {
+      // The running job notices this flag between solution attempts
+      this.cancelledJobs.add(job.job_id);
+    }
+
+    await this.finishJob(job.job_id, requestId, ['queued', 'running'], 'cancelled', 'draft', {
+      progress_message: 'Cancelled by user',
+    });
+
+    const [updated] = await select('SELECT * FROM timetable_generation_jobs WHERE job_id = $1', [job.job_id]);
+    return updated;
+  }
+
+  /**
+   * Latest job (any status) for a request
+   */
+  static async getLatestJob(requestId: number): Promise<GenerationJob | null> {
+    const rows = await select(
+      'SELECT * FROM timetable_generation_jobs WHERE request_id = $1 ORDER BY queued_at DESC LIMIT 1',
+      [requestId]
+    );
+    return rows[0] || null;
+  }
+
+  private static async processNext() {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      // Claim the oldest queued job; the status guard keeps a concurrent cancel from being overwritten
+      const claimed = await select(
+        `UPDATE timetable_generation_jobs
+         SET status = 'running', started_at = CURRENT_TIMESTAMP, progress_message = 'Loading course sessions',
+             updated_at = CURRENT_TIMESTAMP
+         WHERE job_id = (
+           SELECT job_id FROM timetable_generation_jobs
+           WHERE status = 'queued' ORDER BY queued_at ASC LIMIT 1
+         ) AND status = 'queued'
+         RETURNING *`
+      );
+
+      if (claimed.length > 0) {
+        await this.runJob(claimed[0]);
+      }
+    } catch (error) {
+      console.error('❌ Error processing timetable generation queue:', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private static async runJob(job: GenerationJob) {
+    const startedAt = Date.now();
+    const isCancelled = () => this.cancelledJobs.has(job.job_id);
+
+    console.log(`⚡ Running timetable generation job ${job.job_id} for request ${job.request_id}`);
+
+    try {
+      const input = await this.buildGenerationInput(job.request_id);
+      const generator = new AITimetableGenerator();
+
+      const result = await generator.generateTimetables(input, {
+        isCancelled,
+        onProgress: async (percent, message) => {
+          // Cap at 95 so 100 is only reported once results are saved
+          await execute(
+            `UPDATE timetable_generation_jobs
+             SET progress = $1, progress_message = $2, updated_at = CURRENT_TIMESTAMP
+             WHERE job_id = $3 AND status = 'running'`,
+            [Math.min(percent, 95), message, job.job_id]
+          );
+        },
+      });
+
+      if (isCancelled()) {
+        console.log(`🛑 Generation job ${job.job_id} cancelled`);
+        return;
+      }
+
+      const best = result.solutions.find(s => s.id === result.recommendations.best_overall) || result.solutions[0];
+      if (!result.success || !best) {
+        throw new Error(result.recommendations.reasoning || 'No feasible timetable found');
+      }
+
+      // The job row stays locked while results are saved: a cancel that lands
+      // meanwhile waits and then finds the job completed, and one that got in
+      // first leaves the job no longer running, so nothing is saved
+      const entriesWritten = await sequelize.transaction(async transaction => {
+        const [current] = await select(
+          'SELECT status FROM timetable_generation_jobs WHERE job_id = $1 FOR UPDATE',
+          [job.job_id],
+          transaction
+        );
+        if (current?.status !== 'running') return null;
+
+        const written = await this.saveSolution(job.request_id, best, generator, input.rooms || [], transaction);
+        await this.finishJob(
+          job.job_id,
+          job.request_id,
+          ['running'],
+          'completed',
+          'generated',
+          {
+            progress: 100,
+            progress_message: 'Timetable generated',
+            duration_ms: Date.now() - startedAt,
+            result_summary: {
+              solution_id: best.id,
+              solution_name: best.name,
+              overall_score: best.quality.overall_score,
+              sessions_scheduled: best.statistics.sessions_scheduled,
+              total_sessions: best.statistics.total_sessions,
+              hard_violations: best.statistics.hard_violations,
+              entries_written: written,
+            },
+          },
+          transaction
+        );
+        return written;
+      });
+
+      if (entriesWritten === null) {
+        console.log(`🛑 Generation job ${job.job_id} cancelled before its results were saved`);
+        return;
+      }
+      console.log(`✅ Generation job ${job.job_id} completed (${entriesWritten} entries)`);
+    } catch (error) {
+      console.error(`❌ Generation job ${job.job_id} failed:`, error);
+      if (!isCancelled()) {
+        await this.finishJob(job.job_id, job.request_id, ['running'], 'failed', 'draft', {
+          progress_message: 'Generation failed',
+          error_message: error instanceof Error ? error.message : 'Unknown error',
+          duration_ms: Date.now() - startedAt,
+        });
+      }
+    } finally {
+      this.cancelledJobs.delete(job.job_id);
+    }
+  }
+
+  /**
+   * Move a job that is still in one of the given statuses to its final status,
+   * along with its request. Returns false, changing nothing, when the job has
+   * already moved on (e.g. cancelled while its results were being saved).
+   */
+  private static async finishJob(
+    jobId: number,
+    requestId: number,
+    fromStatuses: GenerationJobStatus[],
+    status: GenerationJobStatus,
+    requestStatus: string,
+    fields: {
+      progress?: number;
+      progress_message?: string;
+      error_message?: string;
+      duration_ms?: number;
+      result_summary?: object;
+    },
+    transaction?: Transaction
+  ): Promise<boolean> {
+    const finish = async (t: Transaction) => {
+      const finished = await select(
+        `UPDATE timetable_generation_jobs
+         SET status = $1,
+             progress = COALESCE($2, progress),
+             progress_message = COALESCE($3, progress_message),
+             error_message = $4,
+             duration_ms = $5,
+             result_summary = $6,
+             completed_at = CURRENT_TIMESTAMP,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE job_id = $7 AND status = ANY($8)
+         RETURNING job_id`,
+        [
+          status,
+          fields.progress ?? null,
+          fields.progress_message ?? null,
+          fields.error_message ?? null,
+          fields.duration_ms ?? null,
+          fields.result_summary ? JSON.stringify(fields.result_summary) : null,
+          jobId,
+          fromStatuses,
+        ],
+        t
+      );
+      if (finished.length === 0) return false;
+
+      await execute(
+        'UPDATE timetable_requests SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE request_id = $2',
+        [requestStatus, requestId],
+        t
+      );
+      return true;
+    };
+
+    return transaction ? finish(transaction) : sequelize.transaction(finish);
+  }
+
+  /**
+   * Build CSP input from a timetable request and its course sessions.
+   * Each course + section becomes its own course assignment so sections can have different teachers.
+   */
+  private static async buildGenerationInput(requestId: number): Promise<TimetableGenerationInput> {
+    const [request] = await select(
+      `SELECT tr.*, d.name AS department_name
+       FROM timetable_requests tr
+       JOIN departments d ON tr.department_id = d.department_id
+       WHERE tr.request_id = $1`,
+      [requestId]
+    );
+    if (!request) {
+      throw new Error(`Timetable request ${requestId} not found`);
+    }
+
+    const sessions = await select(
+      `SELECT cs.*, c.course_code, c.course_name, t.name AS teacher_name
+       FROM course_sessions cs
+       JOIN courses c ON cs.course_id = c.course_id
+       LEFT JOIN teachers t ON cs.teacher_id = t.teacher_id
+       WHERE cs.request_id = $1
+       ORDER BY c.course_code, cs.section`,
+      [requestId]
+    );
+    if (sessions.length === 0) {
+      throw new Error('No course sessions configured for this request');
+    }
+
+    // Active rooms owned by the department or shared between departments
+    const rooms = await select(
+      `SELECT room_id, room_code, building, room_type, capacity, equipment
+       FROM rooms
+       WHERE is_active = true AND (department_id = $1 OR department_id IS NULL)`,
+      [request.department_id]
+    );
+
+    // Enrolled students per section, used to check room capacity
+    const sizes = await select(
+      `SELECT s.section_name, COUNT(st.student_id)::int AS student_count
+       FROM sections s
+       LEFT JOIN students st ON st.section_id = s.section_id
+       WHERE s.department_id = $1 AND (s.semester = $2 OR s.semester IS NULL)
+       GROUP BY s.section_name`,
+      [request.department_id, request.semester]
+    );
+    const sectionSizes: Record<string, number> = {};
+    sizes.forEach(row => {
+      if (row.student_count > 0) sectionSizes[row.section_name] = row.student_count;
+    });
+
+    // Recurring unavailable/preferred windows of the teachers involved
+    const availability = await select(
+      `SELECT teacher_id, day_of_week AS day, to_char(start_time, 'HH24:MI') AS start_time,
+              to_char(end_time, 'HH24:MI') AS end_time, availability_type AS type
+       FROM teacher_availability
+       WHERE teacher_id = ANY($1::int[])`,
+      [Array.from(new Set(sessions.map(s => s.teacher_id).filter(Boolean)))]
+    );
+
+    const settings = request.settings || {};
+    const timeConfiguration = {
+      ...DEFAULT_TIME_CONFIGURATION,
+      ...(settings.timeConfiguration || {}),
+    };
+    const unsupportedDays = timeConfiguration.working_days.filter(
+      (day: string) => !DAY_NAMES[day.substring(0, 3).toUpperCase()]
+    );
+    if (unsupportedDays.length > 0) {
+      throw new Error(
+        `Working days not supported for generated timetables: ${unsupportedDays.join(', ')}. ` +
+          'Use Monday to Saturday.'
+      );
+    }
+
+    const emptySession = { teacher_id: 0, teacher_name: '', classes_per_week: 0, duration_minutes: 0 };
+    const assignments = new Map<string, TimetableGenerationInput['courseAssignments'][number]>();
+
+    for (const session of sessions) {
+      const key = `${session.course_id}_${session.section}`;
+      if (!assignments.has(key)) {
+        assignments.set(key, {
+          course_id: session.course_id,
+          course_code: session.course_code,
+          course_name: session.course_name,
+          department_id: request.department_id,
+          semester: request.semester,
+          sections: [session.section],
+          section_sizes: sectionSizes,
+          sessions: {
+            theory: { ...emptySession },
+            lab: { ...emptySession },
+            tutorial: { ...emptySession },
+          },
+        });
+      }
+
+      const type = session.session_type as 'theory' | 'lab' | 'tutorial';
+      assignments.get(key)!.sessions[type] = {
+        teacher_id: session.teacher_id,
+        teacher_name: session.teacher_name || '',
+        classes_per_week: session.sessions_per_week,
+        duration_minutes: session.session_duration * timeConfiguration.class_duration,
+        required_equipment: session.required_equipment || [],
+      };
+    }
+
+    return {
+      courseAssignments: Array.from(assignments.values()),
+      timeConfiguration,
+      preferences: settings.preferences,
+      rooms,
+      teacher_availability: availability,
+      metadata: {
+        request_id: request.request_id,
+        department_name: request.department_name,
+        semester: request.semester,
+        academic_year: request.academic_year,
+        created_by: String(request.created_by),
+      },
+    };
+  }
+
+  /**
+   * Replace the request's generated_timetables rows with the chosen solution.
+   * Multi-slot sessions were solved as runs of consecutive slots, so each
+   * produces one row per configured time slot in its run.
+   */
+  private static async saveSolution(
+    requestId: number,
+    solution: TimetableSolution,
+    generator: AITimetableGenerator,
+    rooms: RoomResource[],
+    transaction: Transaction
+  ): Promise<number> {
+    const [request] = await select(
+      'SELECT department_id, semester FROM timetable_requests WHERE request_id = $1',
+      [requestId],
+      transaction
+    );
+    const slots = await select(
+      'SELECT slot_id, start_time FROM time_slots WHERE is_active = true AND is_break = false ORDER BY day_order ASC',
+      undefined,
+      transaction
+    );
+    const preferences = await select(
+      'SELECT course_id, section, session_type, room_preference FROM course_sessions WHERE request_id = $1',
+      [requestId],
+      transaction
+    );
+
+    const roomPreference = new Map<string, string | null>();
+    preferences.forEach(p => roomPreference.set(`${p.course_id}_${p.section}_${p.session_type}`, p.room_preference));
+    const roomCodes = new Map(rooms.map(room => [room.room_id, room.room_code]));
+
+    let entriesWritten = 0;
+
+    await execute('DELETE FROM generated_timetables WHERE request_id = $1', [requestId], transaction);
+
+    for (const entry of solution.schedule) {
+      const session = generator.getSession(entry.session_id);
+      if (!session) continue;
+
+      // Time slot IDs look like "MON_09:00"
+      const [day, startTime] = entry.time_slot_id.split('_');
+
+      const start = toMinutes(startTime);
+      const end = start + session.duration_minutes;
+      const covered = slots.filter(slot => {
+        const slotStart = toMinutes(slot.start_time);
+        return slotStart >= start && slotStart < end;
+      });
+      const slotIds = covered.length > 0 ? covered.map(slot => slot.slot_id) : [null];
+      // Generator-assigned room wins over the free-text preference
+      const roomAssignment =
+        (entry.room_id && roomCodes.get(entry.room_id)) ||
+        roomPreference.get(`${session.course_id}_${session.section}_${session.session_type}`) ||
+        null;
+
+      for (const slotId of slotIds) {
+        await execute(
+          `INSERT INTO generated_timetables
+             (request_id, department_id, semester, section, day_of_week, slot_id, course_id, session_type, teacher_id, room_assignment, room_id)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+          [
+            requestId,
+            request.department_id,
+            request.semester,
+            session.section,
+            DAY_NAMES[day],
+            slotId,
+            session.course_id,
+            session.session_type,
+            session.teacher_id,
+            roomAssignment,
+            entry.room_id ?? null,
+          ],
+          transaction
+        );
+        entriesWritten++;
+      }
+    }
+
+    return entriesWritten;
+  }
+}
+
+export default TimetableGenerationQueue;
@@ -0,0 +1,465 @@
+import { Op, QueryTypes, Transaction, WhereOptions } from 'sequelize';
+import { sequelize } from '../config/database';
+import Timetable from '../models/Timetable';
+import TimetableVersionService from './TimetableVersionService';
+
+export type ReviewAction = 'submit' | 'approve' | 'reject';
+
+// Allowed request statuses for each review action and where it leads
+const TRANSITIONS: Record<ReviewAction, { from: string[]; to: string }> = {
+  submit: { from: ['generated'], to: 'review' },
+  approve: { from: ['review'], to: 'approved' },
+  reject: { from: ['review', 'approved'], to: 'generated' },
+};
+
+// generated_timetables uses session types; the live timetable uses class types
+const CLASS_TYPES: Record<string, string> = {
+  theory: 'lecture',
+  lab: 'lab',
+  tutorial: 'tutorial',
+};
+
+export interface PublishConflict {
+  type: 'teacher_clash' | 'section_clash' | 'published_teacher_clash';
+  teacher_id?: number;
+  section: string;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  description: string;
+}
+
+export type WorkflowResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; status: number; error: string; conflicts?: PublishConflict[] };
+
+interface LiveEntry {
+  section: string;
+  section_id: number;
+  course_id: number;
+  teacher_id: number;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  classroom: string | null;
+  class_type: string;
+}
+
+const select = async (sql: string, values?: any[], transaction?: Transaction) =>
+  (await sequelize.query(sql, { bind: values, type: QueryTypes.SELECT, transaction })) as any[];
+
+const toHHMM = (time: string) => String(time).substring(0, 5);
+
+const capitalize = (day: string) => day.charAt(0).toUpperCase() + day.slice(1).toLowerCase();
+
+const overlaps = (a: { start_time: string; end_time: string }, b: { start_time: string; end_time: string }) =>
+  toHHMM(a.start_time) < toHHMM(b.end_time) && toHHMM(b.start_time) < toHHMM(a.end_time);
+
+/**
+ * TimetablePublishService - Moves a generated timetable request through
+ * review and approval, then publishes it into the live timetable table
+ */
+class TimetablePublishService {
+  /**
+   * Apply a review action (submit for review, approve, reject back to generated)
+   */
+  static async transition(
+    requestId: number,
+    action: ReviewAction,
+    userId: number,
+    note?: string
+  ): Promise<WorkflowResult<any>> {
+    const { from, to } = TRANSITIONS[action];
+
+    // Columns set by each action; $4 onwards follow the request id, allowed and next status
+    const assignments: Record<ReviewAction, { sql: string; values: any[] }> = {
+      submit: {
+        sql: 'submitted_by = $4, submitted_at = CURRENT_TIMESTAMP, review_note = $5',
+        values: [userId, note || null],
+      },
+      approve: {
+        sql: 'approved_by = $4, approved_at = CURRENT_TIMESTAMP, review_note = COALESCE($5, review_note)',
+        values: [userId, note || null],
+      },
+      reject: {
+        sql: 'approved_by = NULL, approved_at = NULL, review_note = $4',
+        values: [note || null],
+      },
+    };
+    const { sql, values } = assignments[action];
+
+    // The status guard makes concurrent reviewers race safely: only one update wins
+    const [updated] = await select(
+      `UPDATE timetable_requests
+       SET status = $3, ${sql}, updated_at = CURRENT_TIMESTAMP
+       WHERE request_id = $1 AND status = ANY($2)
+       RETURNING *`,
+      [requestId, from, to, ...values]
+    );
+    if (updated) {
+      return { ok: true, data: updated };
+    }
+
+    const [request] = await select('SELECT status FROM timetable_requests WHERE request_id = $1', [requestId]);
+    if (!request) {
+      return { ok: false, status: 404, error: 'Timetable request not found' };
+    }
+    return {
+      ok: false,
+      status: 409,
+      error: `Cannot ${action} a request in '${request.status}' status (expected ${from.join(' or ')})`,
+    };
+  }
+
+  /**
+   * Replace each section's live timetable with the approved solution for the
+   * given date range. Rows from earlier publishes are cut at the range edges
+   * rather than deleted, so attendance already taken keeps its schedule.
+   * A start date in the past rewrites history and needs allow_past_start.
+   */
+  static async publish(
+    requestId: number,
+    userId: number,
+    range: { effective_from: string; effective_to?: string | null; allow_past_start?: boolean }
+  ): Promise<WorkflowResult<{ request: any; sections: string[]; entries_published: number }>> {
+    const effectiveFrom = range.effective_from;
+    const effectiveTo = range.effective_to || null;
+
+    const today = new Date().toISOString().split('T')[0];
+    if (effectiveFrom < today && !range.allow_past_start) {
+      return {
+        ok: false,
+        status: 400,
+        error: `effective_from ${effectiveFrom} is in the past; set allow_past_start to publish retroactively`,
+      };
+    }
+
+    const [request] = await select('SELECT * FROM timetable_requests WHERE request_id = $1', [requestId]);
+    if (!request) {
+      return { ok: false, status: 404, error: 'Timetable request not found' };
+    }
+    if (request.status !== 'approved') {
+      return {
+        ok: false,
+        status: 409,
+        error: `Only approved requests can be published (current status '${request.status}')`,
+      };
+    }
+
+    const [job] = await select(
+      `SELECT result_summary FROM timetable_generation_jobs
+       WHERE request_id = $1 AND status = 'completed'
+       ORDER BY completed_at DESC LIMIT 1`,
+      [requestId]
+    );
+    const reportedViolations = Number(job?.result_summary?.hard_violations || 0);
+    if (reportedViolations > 0) {
+      return {
+        ok: false,
+        status: 422,
+        error: `The solution has ${reportedViolations} hard constraint violation(s); regenerate before publishing`,
+      };
+    }
+
+    const rows = await select(
+      `SELECT g.section, g.day_of_week, g.course_id, g.session_type, g.teacher_id, g.room_assignment,
+              ts.start_time, ts.end_time
+       FROM generated_timetables g
+       LEFT JOIN time_slots ts ON ts.slot_id = g.slot_id
+       WHERE g.request_id = $1 AND g.is_active = true
+       ORDER BY g.section, g.day_of_week, ts.start_time`,
+      [requestId]
+    );
+    if (rows.length === 0) {
+      return { ok: false, status: 422, error: 'The request has no generated timetable to publish' };
+    }
+    if (rows.some(row => !row.start_time)) {
+      return { ok: false, status: 422, error: 'Some generated entries are not mapped to a time slot' };
+    }
+
+    const sectionRows = await select(
+      `SELECT section_id, section_name, semester FROM sections
+       WHERE department_id = $1 AND (semester = $2 OR semester IS NULL)
+       ORDER BY semester NULLS LAST`,
+      [request.department_id, request.semester]
+    );
+    const sectionIds = new Map<string, number>();
+    sectionRows.forEach(s => {
+      if (!sectionIds.has(s.section_name)) sectionIds.set(s.section_name, s.section_id);
+    });
+    const unknownSections = Array.from(new Set(rows.map(row => row.section))).filter(
+      name => !sectionIds.has(name)
+    );
+    if (unknownSections.length > 0) {
+      return {
+        ok: false,
+        status: 422,
+        error: `No section record for: ${unknownSections.join(', ')}. Create the sections before publishing.`,
+      };
+    }
+
+    const entries = this.mergeSlots(rows, sectionIds);
+
+    const conflicts = [
+      ...this.findInternalClashes(entries),
+      ...(await this.findPublishedTeacherClashes(entries, effectiveFrom, effectiveTo)),
+    ];
+    if (conflicts.length > 0) {
+      return {
+        ok: false,
+        status: 409,
+        error: `Publishing would create ${conflicts.length} conflict(s)`,
+        conflicts,
+      };
+    }
+
+    const targetSectionIds = Array.from(new Set(entries.map(entry => entry.section_id)));
+
+    const publishedRequest = await sequelize.transaction(async transaction => {
+      for (const sectionId of targetSectionIds) {
+        await this.clearRange(sectionId, effectiveFrom, effectiveTo, transaction);
+      }
+
+      await Timetable.bulkCreate(
+        entries.map(entry => ({
+          course_id: entry.course_id,
+          teacher_id: entry.teacher_id,
+          section_id: entry.section_id,
+          day_of_week: entry.day_of_week,
+          start_time: entry.start_time,
+          end_time: entry.end_time,
+          classroom: entry.classroom || undefined,
+          class_type: entry.class_type,
+          effective_from: effectiveFrom,
+          effective_to: effectiveTo,
+          request_id: requestId,
+        })),
+        { transaction }
+      );
+
+      for (const sectionId of targetSectionIds) {
+        await TimetableVersionService.recordLiveChange(
+          sectionId,
+          effectiveFrom,
+          { changeType: 'publish', reason: `Published timetable request ${requestId}`, userId },
+          transaction
+        );
+      }
+
+      const [updated] = await select(
+        `UPDATE timetable_requests
+         SET status = 'published', published_by = $2, published_at = CURRENT_TIMESTAMP,
+             effective_from = $3, effective_to = $4, updated_at = CURRENT_TIMESTAMP
+         WHERE request_id = $1
+         RETURNING *`,
+        [requestId, userId, effectiveFrom, effectiveTo],
+        transaction
+      );
+      return updated;
+    });
+
+    console.log(
+      `📢 Published timetable request ${requestId}: ${entries.length} entries for ${targetSectionIds.length} section(s)`
+    );
+
+    return {
+      ok: true,
+      data: {
+        request: publishedRequest,
+        sections: Array.from(new Set(entries.map(entry => entry.section))),
+        entries_published: entries.length,
+      },
+    };
+  }
+
+  /**
+   * generated_timetables has one row per time slot; join back-to-back slots of
+   * the same class (e.g. a two-hour lab) into a single live entry
+   */
+  private static mergeSlots(rows: any[], sectionIds: Map<string, number>): LiveEntry[] {
+    const entries: LiveEntry[] = [];
+
+    for (const row of rows) {
+      const entry: LiveEntry = {
+        section: row.section,
+        section_id: sectionIds.get(row.section)!,
+        course_id: row.course_id,
+        teacher_id: row.teacher_id,
+        day_of_week: capitalize(row.day_of_week),
+        start_time: toHHMM(row.start_time),
+        end_time: toHHMM(row.end_time),
+        classroom: row.room_assignment,
+        class_type: CLASS_TYPES[row.session_type] || 'lecture',
+      };
+
+      const previous = entries[entries.length - 1];
+      if (
+        previous &&
+        previous.section === entry.section &&
+        previous.day_of_week === entry.day_of_week &&
+        previous.course_id === entry.course_id &&
+        previous.class_type === entry.class_type &&
+        previous.teacher_id === entry.teacher_id &&
+        previous.end_time === entry.start_time
+      ) {
+        previous.end_time = entry.end_time;
+      } else {
+        entries.push(entry);
+      }
+    }
+
+    return entries;
+  }
+
+  // Hard violations inside the solution itself: a teacher or section booked twice
+  private static findInternalClashes(entries: LiveEntry[]): PublishConflict[] {
+    const conflicts: PublishConflict[] = [];
+
+    entries.forEach((a, i) => {
+      entries.slice(i + 1).forEach(b => {
+        if (a.day_of_week !== b.day_of_week || !overlaps(a, b)) return;
+
+        if (a.teacher_id === b.teacher_id) {
+          conflicts.push({
+            type: 'teacher_clash',
+            teacher_id: a.teacher_id,
+            section: `${a.section}/${b.section}`,
+            day_of_week: a.day_of_week,
+            start_time: a.start_time,
+            end_time: a.end_time,
+            description: `Teacher ${a.teacher_id} is scheduled twice on ${a.day_of_week} at ${a.start_time}`,
+          });
+        }
+        if (a.section === b.section) {
+          conflicts.push({
+            type: 'section_clash',
+            section: a.section,
+            day_of_week: a.day_of_week,
+            start_time: a.start_time,
+            end_time: a.end_time,
+            description: `Section ${a.section} has two classes on ${a.day_of_week} at ${a.start_time}`,
+          });
+        }
+      });
+    });
+
+    return conflicts;
+  }
+
+  // Teachers already teaching another section in the live timetable for an overlapping date range
+  private static async findPublishedTeacherClashes(
+    entries: LiveEntry[],
+    effectiveFrom: string,
+    effectiveTo: string | null
+  ): Promise<PublishConflict[]> {
+    const teacherIds = Array.from(new Set(entries.map(entry => entry.teacher_id)));
+    const sectionIds = Array.from(new Set(entries.map(entry => entry.section_id)));
+
+    const published = await Timetable.findAll({
+      where: {
+        teacher_id: teacherIds,
+        [Op.and]: [
+          { [Op.or]: [{ section_id: null }, { section_id: { [Op.notIn]: sectionIds } }] },
+          this.overlapsRange(effectiveFrom, effectiveTo),
+        ],
+      },
+    });
+
+    const conflicts: PublishConflict[] = [];
+    for (const entry of entries) {
+      for (const row of published) {
+        if (
+          row.teacher_id === entry.teacher_id &&
+          row.day_of_week === entry.day_of_week &&
+          overlaps(entry, row)
+        ) {
+          conflicts.push({
+            type: 'published_teacher_clash',
+            teacher_id: entry.teacher_id,
+            section: entry.section,
+            day_of_week: entry.day_of_week,
+            start_time: entry.start_time,
+            end_time: entry.end_time,
+            description: `Teacher ${entry.teacher_id} already teaches schedule ${row.schedule_id} (section ${
+              row.section_id ?? 'none'
+            }) on ${row.day_of_week} ${toHHMM(row.start_time)}-${toHHMM(row.end_time)}`,
+          });
+        }
+      }
+    }
+
+    return conflicts;
+  }
+
+  private static overlapsRange(effectiveFrom: string, effectiveTo: string | null): WhereOptions {
+    return {
+      [Op.and]: [
+        { [Op.or]: [{ effective_to: null }, { effective_to: { [Op.gte]: effectiveFrom } }] },
+        effectiveTo
+          ? { [Op.or]: [{ effective_from: null }, { effective_from: { [Op.lte]: effectiveTo } }] }
+          : {},
+      ],
+    };
+  }
+
+  /**
+   * Make room for the new entries of a section between effectiveFrom and
+   * effectiveTo (open-ended when null): older rows are trimmed, split around
+   * the range, or deleted when they fall entirely inside it
+   */
+  private static async clearRange(
+    sectionId: number,
+    effectiveFrom: string,
+    effectiveTo: string | null,
+    transaction: Transaction
+  ) {
+    const rows = await Timetable.findAll({
+      where: { section_id: sectionId, ...this.overlapsRange(effectiveFrom, effectiveTo) },
+      transaction,
+    });
+
+    const dayBefore = this.shiftDate(effectiveFrom, -1);
+    const dayAfter = effectiveTo ? this.shiftDate(effectiveTo, 1) : null;
+
+    for (const row of rows) {
+      const startsBefore = !row.effective_from || row.effective_from < effectiveFrom;
+      const endsAfter = dayAfter !== null && (!row.effective_to || row.effective_to > effectiveTo!);
+
+      if (startsBefore && endsAfter) {
+        // The new range sits in the middle: keep the tail as a separate row
+        await Timetable.create(
+          {
+            course_id: row.course_id,
+            teacher_id: row.teacher_id,
+            section_id: row.section_id,
+            day_of_week: row.day_of_week,
+            start_time: row.start_time,
+            end_time: row.end_time,
+            classroom: row.classroom,
+            class_type: row.class_type,
+            effective_from: dayAfter,
+            effective_to: row.effective_to,
+            request_id: row.request_id,
+          },
+          { transaction }
+        );
+      }
+
+      if (startsBefore) {
+        await row.update({ effective_to: dayBefore }, { transaction });
+      } else if (endsAfter) {
+        await row.update({ effective_from: dayAfter }, { transaction });
+      } else {
+        await row.destroy({ transaction });
+      }
+    }
+  }
+
+  private static shiftDate(date: string, days: number): string {
+    const shifted = new Date(`${date}T00:00:00Z`);
+    shifted.setUTCDate(shifted.getUTCDate() + days);
+    return shifted.toISOString().split('T')[0];
+  }
+}
+
+export default TimetablePublishService;
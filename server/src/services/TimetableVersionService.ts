@@ -0,0 +1,333 @@
+import { Transaction } from 'sequelize';
+import SavedTimetable from '../models/SavedTimetable';
+import SavedTimetableVersion, { VersionChangeType } from '../models/SavedTimetableVersion';
+import Section from '../models/Section';
+import Timetable, { effectiveOn } from '../models/Timetable';
+
+// One class in a week, in the shape shared by saved entries and live timetable rows
+export interface VersionEntry {
+  course_id: number;
+  teacher_id: number;
+  day_of_week: string;
+  start_time: string; // "09:00"
+  end_time: string;
+  classroom: string | null;
+  class_type: string;
+}
+
+export interface VersionChange {
+  type: 'added' | 'removed' | 'moved' | 'teacher_changed';
+  course_id: number;
+  from?: VersionEntry;
+  to?: VersionEntry;
+  teacher_changed?: boolean; // Also set on moves taught by a different teacher
+}
+
+export interface VersionDiff {
+  changes: VersionChange[];
+  summary: {
+    added: number;
+    removed: number;
+    moved: number;
+    teacher_changed: number;
+    unchanged: number;
+  };
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const shiftDate = (date: string, days: number): string => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+};
+
+interface EntryMatch {
+  unchanged: Array<[number, number]>;
+  changed: Array<[number, number]>;
+  removed: number[];
+  added: number[];
+}
+
+/**
+ * TimetableVersionService - Append-only history for saved timetables and
+ * syncing a version onto the live timetable rows of its section
+ */
+class TimetableVersionService {
+  /**
+   * Accept both the client's camelCase entries and snake_case timetable rows
+   */
+  static normalizeEntries(entries: any[] = []): VersionEntry[] {
+    return entries.map(entry => ({
+      course_id: Number(entry.course_id ?? entry.courseId),
+      teacher_id: Number(entry.teacher_id ?? entry.teacherId),
+      day_of_week: entry.day_of_week ?? entry.dayOfWeek,
+      start_time: String(entry.start_time ?? entry.startTime).substring(0, 5),
+      end_time: String(entry.end_time ?? entry.endTime).substring(0, 5),
+      classroom: entry.classroom || null,
+      class_type: String(entry.class_type ?? entry.classType ?? 'lecture').toLowerCase(),
+    }));
+  }
+
+  /**
+   * Pair classes across two lists: identical ones first, then the same class in
+   * the same slot (teacher or room changed), then the same class anywhere (moved)
+   */
+  static matchEntries(from: VersionEntry[], to: VersionEntry[]): EntryMatch {
+    const usedFrom = new Set<number>();
+    const usedTo = new Set<number>();
+
+    const sameClass = (a: VersionEntry, b: VersionEntry) =>
+      a.course_id === b.course_id && a.class_type === b.class_type;
+    const sameSlot = (a: VersionEntry, b: VersionEntry) =>
+      a.day_of_week === b.day_of_week && a.start_time === b.start_time;
+    const identical = (a: VersionEntry, b: VersionEntry) =>
+      sameClass(a, b) &&
+      sameSlot(a, b) &&
+      a.end_time === b.end_time &&
+      a.teacher_id === b.teacher_id &&
+      a.classroom === b.classroom;
+
+    const pair = (same: (a: VersionEntry, b: VersionEntry) => boolean) => {
+      const pairs: Array<[number, number]> = [];
+      from.forEach((a, i) => {
+        if (usedFrom.has(i)) return;
+        const j = to.findIndex((b, index) => !usedTo.has(index) && same(a, b));
+        if (j === -1) return;
+        usedFrom.add(i);
+        usedTo.add(j);
+        pairs.push([i, j]);
+      });
+      return pairs;
+    };
+
+    const unchanged = pair(identical);
+    const changed = [
+      ...pair((a, b) => sameClass(a, b) && sameSlot(a, b)),
+      ...pair((a, b) => sameClass(a, b) && a.teacher_id === b.teacher_id),
+      ...pair(sameClass),
+    ];
+
+    return {
+      unchanged,
+      changed,
+      removed: from.map((_, i) => i).filter(i => !usedFrom.has(i)),
+      added: to.map((_, j) => j).filter(j => !usedTo.has(j)),
+    };
+  }
+
+  /**
+   * Added, removed, moved and re-staffed classes between two sets of entries
+   */
+  static diffEntries(fromEntries: any[], toEntries: any[]): VersionDiff {
+    const from = this.normalizeEntries(fromEntries);
+    const to = this.normalizeEntries(toEntries);
+    const match = this.matchEntries(from, to);
+
+    const changes: VersionChange[] = [];
+    for (const [i, j] of match.changed) {
+      const a = from[i];
+      const b = to[j];
+      const teacherChanged = a.teacher_id !== b.teacher_id;
+      const moved =
+        a.day_of_week !== b.day_of_week ||
+        a.start_time !== b.start_time ||
+        a.end_time !== b.end_time ||
+        a.classroom !== b.classroom;
+
+      changes.push({
+        type: moved ? 'moved' : 'teacher_changed',
+        course_id: b.course_id,
+        from: a,
+        to: b,
+        teacher_changed: teacherChanged,
+      });
+    }
+    match.removed.forEach(i =>
+      changes.push({ type: 'removed', course_id: from[i].course_id, from: from[i] })
+    );
+    match.added.forEach(j =>
+      changes.push({ type: 'added', course_id: to[j].course_id, to: to[j] })
+    );
+
+    return {
+      changes,
+      summary: {
+        added: match.added.length,
+        removed: match.removed.length,
+        moved: changes.filter(c => c.type === 'moved').length,
+        teacher_changed: changes.filter(c => c.teacher_changed).length,
+        unchanged: match.unchanged.length,
+      },
+    };
+  }
+
+  /**
+   * Snapshot the saved timetable's current entries as its next version
+   */
+  static async recordVersion(
+    savedTimetable: SavedTimetable,
+    params: {
+      changeType: VersionChangeType;
+      reason?: string | null;
+      userId?: number | null;
+      sourceVersion?: number | null;
+    },
+    transaction?: Transaction
+  ) {
+    const latest = (await SavedTimetableVersion.max('version_number', {
+      where: { saved_timetable_id: savedTimetable.id },
+      transaction,
+    })) as number | null;
+
+    return SavedTimetableVersion.create(
+      {
+        saved_timetable_id: savedTimetable.id,
+        version_number: (latest || 0) + 1,
+        change_type: params.changeType,
+        reason: params.reason || null,
+        entries: savedTimetable.entries || [],
+        grid_settings: savedTimetable.gridSettings || {},
+        source_version: params.sourceVersion ?? null,
+        created_by: params.userId ?? null,
+      },
+      { transaction }
+    );
+  }
+
+  /**
+   * Snapshot the section's live timetable in effect on a date as the next
+   * version of the section's saved timetable, after a direct edit of the live
+   * rows or a request publish. The saved timetable is created (like the view
+   * settings one) when the section has none yet.
+   */
+  static async recordLiveChange(
+    sectionId: number,
+    date: string,
+    params: { changeType: VersionChangeType; reason?: string | null; userId?: number | null },
+    transaction?: Transaction
+  ) {
+    const rows = await Timetable.findAll({
+      where: { section_id: sectionId, ...effectiveOn(date) },
+      order: [
+        ['day_of_week', 'ASC'],
+        ['start_time', 'ASC'],
+      ],
+      transaction,
+    });
+    const entries = this.normalizeEntries(rows.map(row => row.toJSON()));
+
+    let savedTimetable = await SavedTimetable.findOne({
+      where: { section: String(sectionId) },
+      order: [['updatedAt', 'DESC']],
+      transaction,
+    });
+    if (savedTimetable) {
+      await savedTimetable.update({ entries }, { transaction });
+    } else {
+      const section = await Section.findByPk(sectionId, { transaction });
+      if (!section) return null;
+      savedTimetable = await SavedTimetable.create(
+        {
+          name: `Section ${section.section_name} Timetable`,
+          department: String(section.department_id),
+          semester: section.semester != null ? String(section.semester) : 'all',
+          section: String(sectionId),
+          entries,
+          gridSettings: {},
+          createdBy: params.userId ?? undefined,
+        },
+        { transaction }
+      );
+    }
+
+    return this.recordVersion(savedTimetable, params, transaction);
+  }
+
+  /**
+   * Change or remove one live row from today on. A row that started before
+   * today is end-dated yesterday and, when changed, replaced by a row that
+   * starts today, so attendance and smart-attendance records keep the
+   * schedule they were taken against. A row starting today or later can't
+   * end yesterday (effective_to must not precede effective_from), so it is
+   * edited in place or deleted. Returns the row in effect from today, or
+   * null when the class was removed.
+   */
+  static async replaceLiveRow(
+    row: Timetable,
+    entry: (VersionEntry & { section_id: number }) | null,
+    transaction: Transaction
+  ): Promise<Timetable | null> {
+    const from = today();
+    const values = entry && {
+      course_id: entry.course_id,
+      teacher_id: entry.teacher_id,
+      section_id: entry.section_id,
+      day_of_week: entry.day_of_week,
+      start_time: entry.start_time,
+      end_time: entry.end_time,
+      classroom: entry.classroom,
+      class_type: entry.class_type,
+    };
+
+    if (row.effective_from && row.effective_from >= from) {
+      if (!values) {
+        await row.destroy({ transaction });
+        return null;
+      }
+      return row.update(values, { transaction });
+    }
+
+    // A replaced row's end date and request still bound its replacement
+    const { effective_to: effectiveTo, request_id: requestId } = row;
+    await row.update({ effective_to: shiftDate(from, -1) }, { transaction });
+    if (!values) return null;
+    return Timetable.create(
+      { ...values, effective_from: from, effective_to: effectiveTo ?? null, request_id: requestId ?? null },
+      { transaction }
+    );
+  }
+
+  /**
+   * Make the section's live timetable match the given entries from today on,
+   * changing and removing rows through replaceLiveRow. Only rows in effect
+   * today are considered; ended or future-dated rows from a date-ranged
+   * publish are left alone.
+   */
+  static async applyToLive(sectionId: number, entries: any[], transaction: Transaction) {
+    const from = today();
+    const target = this.normalizeEntries(entries);
+    const liveRows = await Timetable.findAll({
+      where: { section_id: sectionId, ...effectiveOn(from) },
+      transaction,
+    });
+    const live = this.normalizeEntries(liveRows.map(row => row.toJSON()));
+    const match = this.matchEntries(live, target);
+
+    for (const [i, j] of match.changed) {
+      await this.replaceLiveRow(liveRows[i], { ...target[j], section_id: sectionId }, transaction);
+    }
+    for (const i of match.removed) {
+      await this.replaceLiveRow(liveRows[i], null, transaction);
+    }
+    for (const j of match.added) {
+      await Timetable.create(
+        {
+          ...target[j],
+          section_id: sectionId,
+          effective_from: from,
+        },
+        { transaction }
+      );
+    }
+
+    return {
+      unchanged: match.unchanged.length,
+      updated: match.changed.length,
+      removed: match.removed.length,
+      added: match.added.length,
+    };
+  }
+}
+
+export default TimetableVersionService;
@@ -0,0 +1,48 @@
+import AttendanceStatusService, { DEFAULT_STATUS_RULES, StatusRules } from "../AttendanceStatusService";
+
+describe("AttendanceStatusService.tally", () => {
+  it("weights statuses using the default rules", () => {
+    const tally = AttendanceStatusService.tally(DEFAULT_STATUS_RULES, [
+      "present",
+      "present",
+      "late",
+      "absent",
+      "on_duty",
+      "excused",
+      "medical",
+    ]);
+    // Excused and medical leave are left out; late earns half a class
+    expect(tally).toEqual({
+      total_records: 7,
+      total_classes: 5,
+      attended_classes: 3.5,
+      attendance_percentage: 70,
+      status_counts: { present: 2, absent: 1, late: 1, excused: 1, on_duty: 1, medical: 1 },
+    });
+  });
+
+  it("follows changed rules", () => {
+    const rules: StatusRules = {
+      ...DEFAULT_STATUS_RULES,
+      late: { ...DEFAULT_STATUS_RULES.late, weight: 0.75 },
+      medical: { ...DEFAULT_STATUS_RULES.medical, counts_towards_total: true, weight: 1 },
+    };
+    const tally = AttendanceStatusService.tally(rules, ["late", "late", "medical"]);
+    expect(tally.total_classes).toBe(3);
+    expect(tally.attended_classes).toBe(2.5);
+    expect(tally.attendance_percentage).toBe(83.33);
+  });
+
+  it("counts unknown statuses as records but not classes", () => {
+    const tally = AttendanceStatusService.tally(DEFAULT_STATUS_RULES, ["present", "unknown"]);
+    expect(tally.total_records).toBe(2);
+    expect(tally.total_classes).toBe(1);
+    expect(tally.attendance_percentage).toBe(100);
+  });
+
+  it("reports zero when no record counts", () => {
+    const tally = AttendanceStatusService.tally(DEFAULT_STATUS_RULES, ["excused", "medical"]);
+    expect(tally.total_classes).toBe(0);
+    expect(tally.attendance_percentage).toBe(0);
+  });
+});
@@ -0,0 +1,140 @@
+import Attendance from "../../models/Attendance";
+import AttendanceSyncBatch from "../../models/AttendanceSyncBatch";
+import Student from "../../models/Student";
+import Teacher from "../../models/Teacher";
+import Timetable from "../../models/Timetable";
+import AttendanceLedgerService from "../AttendanceLedgerService";
+import AttendanceSyncService from "../AttendanceSyncService";
+
+jest.mock("../../models/Attendance", () => ({ __esModule: true, default: { findOne: jest.fn() } }));
+jest.mock("../../models/AttendanceSyncBatch", () => ({
+  __esModule: true,
+  default: { findByPk: jest.fn(), create: jest.fn() },
+}));
+jest.mock("../../models/AttendanceStatusRule", () => ({ __esModule: true, default: {} }));
+jest.mock("../../models/Course", () => ({ __esModule: true, default: {} }));
+jest.mock("../../models/Student", () => ({ __esModule: true, default: { findAll: jest.fn() } }));
+jest.mock("../../models/Teacher", () => ({ __esModule: true, default: { findOne: jest.fn() } }));
+jest.mock("../../models/Timetable", () => ({ __esModule: true, default: { findAll: jest.fn() } }));
+jest.mock("../AcademicCalendarService", () => ({
+  __esModule: true,
+  default: { getDayStatus: jest.fn(async () => ({ teaching: true, timetable_day: "Monday" })) },
+}));
+jest.mock("../AttendanceAuditService", () => ({
+  __esModule: true,
+  default: { withActor: jest.fn((actor: any, run: any) => run({ LOCK: { UPDATE: "UPDATE" } })) },
+}));
+jest.mock("../AttendanceLedgerService", () => ({ __esModule: true, default: { record: jest.fn() } }));
+jest.mock("../AttendanceStatusService", () => ({
+  __esModule: true,
+  default: { isStatus: (status: string) => ["present", "absent", "late", "excused"].includes(status) },
+}));
+jest.mock("../LeaveRequestService", () => ({ __esModule: true, default: { leaveOn: jest.fn(async () => new Map()) } }));
+
+const findExisting = Attendance.findOne as unknown as jest.Mock;
+const findBatch = AttendanceSyncBatch.findByPk as unknown as jest.Mock;
+const createBatch = AttendanceSyncBatch.create as unknown as jest.Mock;
+const record = AttendanceLedgerService.record as unknown as jest.Mock;
+
+const teacher = { user_id: 20, role: "teacher" } as any;
+const date = "2026-10-12";
+const markedAt = "2026-10-12T09:30:00.000Z";
+
+const mark = (overrides: object = {}) => ({
+  schedule_id: 1,
+  student_id: 5,
+  date,
+  status: "absent",
+  marked_at: markedAt,
+  ...overrides,
+});
+
+const sync = async (marks: object[]) => {
+  await AttendanceSyncService.sync(teacher, { batch_id: "batch-0001", marks: marks as any });
+  return createBatch.mock.calls[0][0].results;
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  findBatch.mockResolvedValue(null);
+  createBatch.mockImplementation(async (values: any) => values);
+  findExisting.mockResolvedValue(null);
+  record.mockImplementation(async (values: any) => ({
+    record: { status: values.status, source: values.source },
+    previousStatus: null,
+  }));
+  (Teacher.findOne as jest.Mock).mockResolvedValue({ teacher_id: 3 });
+  (Timetable.findAll as jest.Mock).mockResolvedValue([
+    { schedule_id: 1, teacher_id: 3, day_of_week: "Monday", course: {} },
+    { schedule_id: 2, teacher_id: 4, day_of_week: "Monday", course: {} },
+  ]);
+  (Student.findAll as jest.Mock).mockResolvedValue([{ student_id: 5 }]);
+});
+
+describe("AttendanceSyncService.sync", () => {
+  it("returns the stored outcome for a batch id it has seen, without applying again", async () => {
+    findBatch.mockResolvedValue({ user_id: 20, results: [] });
+    const outcome = await AttendanceSyncService.sync(teacher, { batch_id: "batch-0001", marks: [mark()] });
+
+    expect(outcome.replayed).toBe(true);
+    expect(record).not.toHaveBeenCalled();
+    expect(createBatch).not.toHaveBeenCalled();
+  });
+
+  it("refuses a batch id another account already used", async () => {
+    findBatch.mockResolvedValue({ user_id: 99, results: [] });
+    const outcome = await AttendanceSyncService.sync(teacher, { batch_id: "batch-0001", marks: [mark()] });
+
+    expect(outcome.error).toMatch(/another account/);
+  });
+
+  it("applies a new mark and rejects one for another teacher's class", async () => {
+    const [applied, rejected] = await sync([mark(), mark({ schedule_id: 2 })]);
+
+    expect(applied).toMatchObject({ outcome: "applied", rule: "new_mark", recorded_status: "absent" });
+    expect(rejected).toMatchObject({ outcome: "rejected", rule: "invalid", message: "You can only mark your own classes" });
+    expect(record).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps only the latest mark for the same student and class", async () => {
+    const [earlier, later] = await sync([
+      mark({ status: "present" }),
+      mark({ status: "late", marked_at: "2026-10-12T09:45:00.000Z" }),
+    ]);
+
+    expect(earlier).toMatchObject({ outcome: "unchanged", rule: "superseded" });
+    expect(later).toMatchObject({ outcome: "applied", status: "late" });
+  });
+
+  it("keeps a verified scan over an offline absence", async () => {
+    findExisting.mockResolvedValue({
+      status: "present",
+      source: "qr_face",
+      verified_by_scan: true,
+      updated_at: new Date("2026-10-12T09:00:00.000Z"),
+    });
+    const [result] = await sync([mark()]);
+
+    expect(result).toMatchObject({ outcome: "kept_server", rule: "verified_presence", recorded_status: "present" });
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it("keeps a server mark made after the offline one, and overwrites an older one", async () => {
+    findExisting.mockResolvedValueOnce({
+      status: "late",
+      source: "manual",
+      updated_at: new Date("2026-10-12T10:00:00.000Z"),
+    });
+    const [kept] = await sync([mark()]);
+    expect(kept).toMatchObject({ outcome: "kept_server", rule: "newer_server_mark" });
+
+    createBatch.mockClear();
+    findExisting.mockResolvedValueOnce({
+      status: "late",
+      source: "manual",
+      updated_at: new Date("2026-10-12T09:00:00.000Z"),
+    });
+    const [applied] = await sync([mark()]);
+    expect(applied).toMatchObject({ outcome: "applied", rule: "offline_newer" });
+  });
+});
@@ -0,0 +1,58 @@
+import FaceAssignmentService from "../FaceAssignmentService";
+
+describe("FaceAssignmentService.assign", () => {
+  it("maximises the total similarity instead of taking each face's best match", () => {
+    // Greedy would give face 0 student 0 (0.9) and leave face 1 with 0.1
+    const scores = [
+      [0.9, 0.8],
+      [0.85, 0.1],
+    ];
+    const result = FaceAssignmentService.assign(scores, 0.5);
+    expect(result.map((r) => r.column)).toEqual([1, 0]);
+    expect(result[0].score).toBe(0.8);
+    expect(result[1].score).toBe(0.85);
+  });
+
+  it("leaves faces unmatched when nothing clears the threshold", () => {
+    const scores = [
+      [0.95, 0.2],
+      [0.3, 0.4],
+    ];
+    const result = FaceAssignmentService.assign(scores, 0.5);
+    expect(result[0].column).toBe(0);
+    expect(result[1]).toEqual({ column: null, score: 0, nearTie: false, candidates: [] });
+  });
+
+  it("handles more faces than students", () => {
+    const scores = [[0.7], [0.9], [0.6]];
+    const result = FaceAssignmentService.assign(scores, 0.5);
+    expect(result.map((r) => r.column)).toEqual([null, 0, null]);
+    expect(result[0].candidates).toEqual([{ column: 0, score: 0.7 }]);
+  });
+
+  it("flags a near tie with another student for the same face", () => {
+    const result = FaceAssignmentService.assign([[0.8, 0.79, 0.2]], 0.5);
+    expect(result[0].column).toBe(0);
+    expect(result[0].nearTie).toBe(true);
+  });
+
+  it("flags a near tie with another face for the same student", () => {
+    const scores = [[0.8], [0.78]];
+    const result = FaceAssignmentService.assign(scores, 0.5);
+    expect(result[0]).toMatchObject({ column: 0, nearTie: true });
+    expect(result[1].column).toBeNull();
+  });
+
+  it("does not flag rivals outside the margin or below the threshold", () => {
+    const scores = [
+      [0.9, 0.7],
+      [0.45, 0.95],
+    ];
+    const result = FaceAssignmentService.assign(scores, 0.5);
+    expect(result.map((r) => r.nearTie)).toEqual([false, false]);
+  });
+
+  it("returns nothing for an empty photo", () => {
+    expect(FaceAssignmentService.assign([], 0.5)).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+import crypto from "crypto";
+import NonceService from "../NonceService";
+import LivenessService, { LivenessChallenge, LivenessStep } from "../LivenessService";
+
+jest.mock("../NonceService", () => ({ __esModule: true, default: { consume: jest.fn() } }));
+
+const consume = NonceService.consume as unknown as jest.Mock;
+const face = [0.1, 0.2, 0.3];
+
+// Same layout as the client's signLivenessSummary
+const signed = (challenge: LivenessChallenge, steps: any[], overrides: object = {}) => {
+  const startedAt = Date.now() - 2000;
+  const completedAt = Date.now();
+  const payload = JSON.stringify([
+    challenge.challengeToken,
+    startedAt,
+    completedAt,
+    steps.map((step) => [step.action, step.frames, step.baseline, step.peak, step.at]),
+    face,
+  ]);
+  return {
+    challengeToken: challenge.challengeToken,
+    startedAt,
+    completedAt,
+    steps,
+    signature: crypto.createHmac("sha256", challenge.signingKey).update(payload).digest("hex"),
+    ...overrides,
+  };
+};
+
+const passing: Record<string, Omit<LivenessStep, "action" | "at">> = {
+  blink: { frames: 5, baseline: 0.3, peak: 0.15 },
+  turn_left: { frames: 5, baseline: 0, peak: 0.3 },
+  turn_right: { frames: 5, baseline: 0, peak: -0.3 },
+  smile: { frames: 5, baseline: 1, peak: 1.3 },
+};
+
+const stepsFor = (challenge: LivenessChallenge) =>
+  challenge.actions.map((action, i) => ({ action, ...passing[action], at: Date.now() - 1500 + i * 600 }));
+
+beforeAll(() => {
+  process.env.JWT_SECRET = "test-secret";
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  consume.mockResolvedValue(true);
+});
+
+describe("LivenessService.verify", () => {
+  it("passes a signed summary that follows the prompts", async () => {
+    const challenge = LivenessService.issueChallenge("s1", 7, 60);
+    const result = await LivenessService.verify(signed(challenge, stepsFor(challenge)), "s1", 7, face);
+
+    expect(result).toMatchObject({ passed: true, actions: challenge.actions });
+    expect(consume).toHaveBeenCalledWith("liveness", expect.any(String), expect.any(Date));
+  });
+
+  it("rejects a challenge that was already used", async () => {
+    consume.mockResolvedValue(false);
+    const challenge = LivenessService.issueChallenge("s1", 7, 60);
+    const result = await LivenessService.verify(signed(challenge, stepsFor(challenge)), "s1", 7, face);
+
+    expect(result).toMatchObject({ passed: false, reason: "challenge_used" });
+  });
+
+  it("reports null or non-numeric steps as malformed instead of throwing", async () => {
+    const challenge = LivenessService.issueChallenge("s1", 7, 60);
+
+    await expect(
+      LivenessService.verify({ ...signed(challenge, stepsFor(challenge)), steps: [null, null] }, "s1", 7, face)
+    ).resolves.toMatchObject({ passed: false, reason: "malformed" });
+    await expect(
+      LivenessService.verify({ ...signed(challenge, stepsFor(challenge)), steps: "blink" }, "s1", 7, face)
+    ).resolves.toMatchObject({ passed: false, reason: "malformed" });
+  });
+
+  it("rejects a summary submitted with a different face", async () => {
+    const challenge = LivenessService.issueChallenge("s1", 7, 60);
+    const result = await LivenessService.verify(signed(challenge, stepsFor(challenge)), "s1", 7, [0.9]);
+
+    expect(result).toMatchObject({ passed: false, reason: "bad_signature" });
+  });
+
+  it("rejects a challenge issued to another student", async () => {
+    const challenge = LivenessService.issueChallenge("s1", 8, 60);
+    const result = await LivenessService.verify(signed(challenge, stepsFor(challenge)), "s1", 7, face);
+
+    expect(result).toMatchObject({ passed: false, reason: "invalid_challenge" });
+    expect(consume).not.toHaveBeenCalled();
+  });
+
+  it("rejects prompts done out of order", async () => {
+    const challenge = LivenessService.issueChallenge("s1", 7, 60);
+    const steps = stepsFor(challenge).reverse();
+    const result = await LivenessService.verify(signed(challenge, steps), "s1", 7, face);
+
+    expect(result).toMatchObject({ passed: false, reason: "wrong_sequence" });
+  });
+});
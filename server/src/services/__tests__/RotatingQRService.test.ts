@@ -0,0 +1,51 @@
+import type AttendanceSession from "../../models/AttendanceSession";
+import RotatingQRService from "../RotatingQRService";
+
+const INTERVAL = 10;
+
+const session = {
+  session_id: "3f2a9c1e-5b7d-4e8f-9a0b-1c2d3e4f5a6b",
+  rotation_secret: "a".repeat(64),
+  rotation_interval_seconds: INTERVAL,
+} as AttendanceSession;
+
+const at = new Date("2026-03-02T09:00:05Z");
+const step = RotatingQRService.stepAt(INTERVAL, at);
+
+const tokenAt = (s: number) => RotatingQRService.parse(RotatingQRService.tokenFor(session, s))!;
+
+describe("RotatingQRService.check", () => {
+  it("accepts the current step", () => {
+    expect(RotatingQRService.check(session, tokenAt(step), at)).toBe("current");
+  });
+
+  it("accepts the previous step for scans that straddle a rotation", () => {
+    expect(RotatingQRService.check(session, tokenAt(step - 1), at)).toBe("previous");
+  });
+
+  it("rejects older steps as expired", () => {
+    expect(RotatingQRService.check(session, tokenAt(step - 2), at)).toBe("expired");
+  });
+
+  it("treats a step from the future as invalid", () => {
+    expect(RotatingQRService.check(session, tokenAt(step + 1), at)).toBe("invalid");
+  });
+
+  it("rejects a code minted under another secret", () => {
+    const other = { ...session, rotation_secret: "b".repeat(64) } as AttendanceSession;
+    const forged = RotatingQRService.parse(RotatingQRService.tokenFor(other, step))!;
+    expect(RotatingQRService.check(session, forged, at)).toBe("invalid");
+  });
+
+  it("rejects a code replayed with a different step number", () => {
+    const token = { ...tokenAt(step - 3), step };
+    expect(RotatingQRService.check(session, token, at)).toBe("invalid");
+  });
+
+  it("moves a token from current to previous to expired as time passes", () => {
+    const token = tokenAt(step);
+    const later = (steps: number) => new Date(at.getTime() + steps * INTERVAL * 1000);
+    expect(RotatingQRService.check(session, token, later(1))).toBe("previous");
+    expect(RotatingQRService.check(session, token, later(2))).toBe("expired");
+  });
+});
@@ -0,0 +1,63 @@
+import { sequelize } from "../../config/database";
+import Student from "../../models/Student";
+import SessionRosterService from "../SessionRosterService";
+
+jest.mock("../../config/database", () => ({ sequelize: { query: jest.fn() } }));
+jest.mock("../../models/Student", () => ({ __esModule: true, default: { findAll: jest.fn() } }));
+jest.mock("../../models/Course", () => ({ __esModule: true, default: {} }));
+
+const query = sequelize.query as unknown as jest.Mock;
+const findAll = Student.findAll as unknown as jest.Mock;
+
+const slot = (overrides: object = {}) => ({
+  course_id: 5,
+  section_id: null,
+  batch_id: null,
+  enrolled: 0,
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  findAll.mockResolvedValue([{ student_id: 1 }]);
+});
+
+describe("SessionRosterService.forSchedule", () => {
+  it("takes students enrolled in the course, narrowed to the section and batch", async () => {
+    query.mockResolvedValue([slot({ enrolled: 40, section_id: 3, batch_id: "2" })]);
+    await SessionRosterService.forSchedule(10);
+
+    const [options] = findAll.mock.calls[0];
+    expect(options.where).toEqual({ section_id: 3, batch_id: 2 });
+    expect(options.include[0]).toMatchObject({ as: "courses", where: { course_id: 5 } });
+  });
+
+  it("uses enrollment alone when the slot has no section", async () => {
+    query.mockResolvedValue([slot({ enrolled: 40 })]);
+    await SessionRosterService.forSchedule(10);
+
+    const [options] = findAll.mock.calls[0];
+    expect(options.where).toEqual({});
+    expect(options.include[0].where).toEqual({ course_id: 5 });
+  });
+
+  it("falls back to the section when nobody is enrolled in the course", async () => {
+    query.mockResolvedValue([slot({ section_id: 3 })]);
+    await SessionRosterService.forSchedule(10);
+
+    const [options] = findAll.mock.calls[0];
+    expect(options.where).toEqual({ section_id: 3 });
+    expect(options.include).toBeUndefined();
+  });
+
+  it("is empty rather than institution-wide with no enrollment or section", async () => {
+    query.mockResolvedValue([slot()]);
+    expect(await SessionRosterService.forSchedule(10)).toEqual([]);
+    expect(findAll).not.toHaveBeenCalled();
+  });
+
+  it("is empty for an unknown schedule", async () => {
+    query.mockResolvedValue([]);
+    expect(await SessionRosterService.forSchedule(10)).toEqual([]);
+  });
+});
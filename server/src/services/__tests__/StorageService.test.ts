@@ -0,0 +1,48 @@
+import LocalStorageDriver from "../storage/LocalStorageDriver";
+import StorageService from "../StorageService";
+
+jest.mock("sharp", () => jest.fn());
+jest.mock("../../models/StudentFace", () => ({ __esModule: true, default: {} }));
+jest.mock("../../models/StudentScanRecord", () => ({ __esModule: true, default: {} }));
+jest.mock("../../models/TeacherClassCapture", () => ({ __esModule: true, default: {} }));
+
+const signedParts = (url: string) => {
+  const parsed = new URL(url);
+  return {
+    base: `${parsed.origin}${parsed.pathname}`,
+    expires: Number(parsed.searchParams.get("expires")),
+    signature: parsed.searchParams.get("signature") || "",
+  };
+};
+
+beforeAll(() => {
+  process.env.JWT_SECRET = "test-secret";
+  delete process.env.STORAGE_DRIVER;
+});
+
+afterEach(() => {
+  delete process.env.PUBLIC_API_URL;
+});
+
+describe("StorageService signed URLs", () => {
+  it("point at PUBLIC_API_URL with a signature the download route accepts", async () => {
+    process.env.PUBLIC_API_URL = "https://attendance.example.edu/api/";
+    const { fileUrl } = await StorageService.signedFile("leave-documents/12/note.pdf");
+    const { base, expires, signature } = signedParts(fileUrl);
+
+    expect(base).toBe("https://attendance.example.edu/api/storage/files/leave-documents/12/note.pdf");
+    expect(LocalStorageDriver.verify("leave-documents/12/note.pdf", expires, signature)).toBe(true);
+  });
+
+  it("sign the image and its thumbnail", async () => {
+    process.env.PUBLIC_API_URL = "https://attendance.example.edu/api";
+    const signed = await StorageService.signedImage("attendance-images/s1/7.jpg");
+
+    expect(signedParts(signed.imageUrl).base).toBe(
+      "https://attendance.example.edu/api/storage/files/attendance-images/s1/7.jpg"
+    );
+    expect(signedParts(signed.thumbnailUrl).base).toBe(
+      `https://attendance.example.edu/api/storage/files/${StorageService.thumbnailKey("attendance-images/s1/7.jpg")}`
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import crypto from "crypto";
+import StudentDevice from "../../models/StudentDevice";
+import NonceService from "../NonceService";
+import SecurityEventService from "../SecurityEventService";
+import StudentDeviceService from "../StudentDeviceService";
+
+jest.mock("../../config/database", () => ({ sequelize: { query: jest.fn() } }));
+jest.mock("../../models/StudentDevice", () => ({ __esModule: true, default: { findByPk: jest.fn() } }));
+jest.mock("../../models/Student", () => ({ __esModule: true, default: {} }));
+jest.mock("../../models/User", () => ({ __esModule: true, default: {} }));
+jest.mock("../NonceService", () => ({ __esModule: true, default: { consume: jest.fn() } }));
+jest.mock("../NotificationService", () => ({ __esModule: true, default: {} }));
+jest.mock("../SecurityEventService", () => ({ __esModule: true, default: { record: jest.fn() } }));
+
+const findDevice = StudentDevice.findByPk as unknown as jest.Mock;
+const consume = NonceService.consume as unknown as jest.Mock;
+const recordEvent = SecurityEventService.record as unknown as jest.Mock;
+
+const keys = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+const device = (overrides: object = {}) => ({
+  device_id: 9,
+  student_id: 7,
+  status: "active",
+  public_key: keys.publicKey.export({ format: "der", type: "spki" }).toString("base64"),
+  update: jest.fn(),
+  ...overrides,
+});
+
+// Signs the way the scanner does: version, purpose, timestamp, nonce and body hash
+const signedRequest = (body: string, overrides: { timestamp?: number; sentBody?: string } = {}) => {
+  const timestamp = String(overrides.timestamp ?? Date.now());
+  const nonce = "nonce-1";
+  const message = [
+    "haazir-device-v1",
+    "verify-face",
+    timestamp,
+    nonce,
+    crypto.createHash("sha256").update(body).digest("hex"),
+  ].join("\n");
+  const signature = crypto
+    .sign("sha256", Buffer.from(message), { key: keys.privateKey, dsaEncoding: "ieee-p1363" })
+    .toString("hex");
+  const headers: Record<string, string> = {
+    "x-device-id": "9",
+    "x-device-timestamp": timestamp,
+    "x-device-nonce": nonce,
+    "x-device-signature": signature,
+  };
+  const sent = overrides.sentBody ?? body;
+  return {
+    get: (name: string) => headers[name.toLowerCase()],
+    rawBody: Buffer.from(sent),
+    body: JSON.parse(sent),
+  } as any;
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  consume.mockResolvedValue(true);
+});
+
+describe("StudentDeviceService.verifyRequest", () => {
+  it("accepts a fresh request signed by the student's active device", async () => {
+    findDevice.mockResolvedValue(device());
+    const check = await StudentDeviceService.verifyRequest(signedRequest('{"sessionId":"s1"}'), 7, "verify-face");
+
+    expect(check.device).toBeDefined();
+    expect(consume).toHaveBeenCalledWith("device", "9:nonce-1", expect.any(Date));
+  });
+
+  it("rejects a body changed after signing", async () => {
+    findDevice.mockResolvedValue(device());
+    const req = signedRequest('{"sessionId":"s1"}', { sentBody: '{"sessionId":"s2"}' });
+    const check = await StudentDeviceService.verifyRequest(req, 7, "verify-face");
+
+    expect(check.code).toBe("signature_invalid");
+    expect(recordEvent.mock.calls[0][1].details.reason).toBe("bad_signature");
+    expect(consume).not.toHaveBeenCalled();
+  });
+
+  it("rejects a replayed nonce", async () => {
+    findDevice.mockResolvedValue(device());
+    consume.mockResolvedValue(false);
+    const check = await StudentDeviceService.verifyRequest(signedRequest('{"sessionId":"s1"}'), 7, "verify-face");
+
+    expect(check.code).toBe("signature_invalid");
+    expect(recordEvent.mock.calls[0][1].details.reason).toBe("replayed_nonce");
+  });
+
+  it("rejects a stale timestamp", async () => {
+    findDevice.mockResolvedValue(device());
+    const req = signedRequest('{"sessionId":"s1"}', { timestamp: Date.now() - 10 * 60 * 1000 });
+    const check = await StudentDeviceService.verifyRequest(req, 7, "verify-face");
+
+    expect(check.code).toBe("signature_invalid");
+    expect(recordEvent.mock.calls[0][1].details.reason).toBe("stale_timestamp");
+  });
+
+  it("turns away another student's device and one waiting for approval", async () => {
+    findDevice.mockResolvedValueOnce(device({ student_id: 8 }));
+    await expect(
+      StudentDeviceService.verifyRequest(signedRequest("{}"), 7, "verify-face")
+    ).resolves.toMatchObject({ code: "device_required" });
+
+    findDevice.mockResolvedValueOnce(device({ status: "pending" }));
+    await expect(
+      StudentDeviceService.verifyRequest(signedRequest("{}"), 7, "verify-face")
+    ).resolves.toMatchObject({ code: "device_pending" });
+  });
+});
@@ -0,0 +1,121 @@
+import { sequelize } from "../../config/database";
+import TimetableGenerationQueue from "../TimetableGenerationQueue";
+
+jest.mock("../../config/database", () => ({
+  sequelize: {
+    query: jest.fn(),
+    transaction: jest.fn((run: (t: object) => unknown) => run({})),
+  },
+}));
+
+const solution = {
+  id: "solution_1",
+  name: "Balanced",
+  quality: { overall_score: 90 },
+  statistics: { sessions_scheduled: 1, total_sessions: 1, hard_violations: 0 },
+  schedule: [{ session_id: "CS101_Theory_A_1", time_slot_id: "MON_09:00" }],
+};
+
+jest.mock("../../ai/aiTimetableGenerator", () => ({
+  AITimetableGenerator: jest.fn().mockImplementation(() => ({
+    generateTimetables: jest.fn(async () => ({
+      success: true,
+      solutions: [solution],
+      recommendations: { best_overall: "solution_1" },
+    })),
+    getSession: () => ({
+      course_id: 1,
+      section: "A",
+      session_type: "theory",
+      teacher_id: 7,
+      duration_minutes: 60,
+    }),
+  })),
+}));
+
+const query = sequelize.query as unknown as jest.Mock;
+const queue = TimetableGenerationQueue as any;
+
+const request = {
+  request_id: 1,
+  department_id: 2,
+  department_name: "CSE",
+  semester: 3,
+  academic_year: "2026",
+  created_by: 9,
+  settings: {},
+};
+const courseSession = {
+  course_id: 1,
+  course_code: "CS101",
+  course_name: "Programming",
+  section: "A",
+  session_type: "theory",
+  teacher_id: 7,
+  sessions_per_week: 1,
+  session_duration: 1,
+};
+
+// Answer the queue's SQL by statement; jobStatus is what the job row holds when results are saved
+const database = (options: { jobStatus?: string; request?: object } = {}) =>
+  query.mockImplementation(async (sql: string) => {
+    if (sql.includes("FROM timetable_requests tr")) return [options.request ?? request];
+    if (sql.includes("FROM course_sessions cs")) return [courseSession];
+    if (sql.includes("FOR UPDATE")) return [{ status: options.jobStatus ?? "running" }];
+    if (sql.includes("UPDATE timetable_generation_jobs")) return sql.includes("RETURNING") ? [{ job_id: 5 }] : [];
+    if (sql.includes("FROM time_slots")) return [{ slot_id: 11, start_time: "09:00:00" }];
+    if (sql.includes("SELECT department_id, semester")) return [{ department_id: 2, semester: 3 }];
+    return [];
+  });
+
+const statements = () => query.mock.calls.map(([sql]) => String(sql));
+
+beforeAll(() => {
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+beforeEach(() => query.mockReset());
+
+describe("TimetableGenerationQueue jobs", () => {
+  const job = { job_id: 5, request_id: 1, status: "running" };
+
+  it("saves the best solution and completes a running job", async () => {
+    database();
+    await queue.runJob(job);
+
+    expect(statements().some((sql) => sql.includes("INSERT INTO generated_timetables"))).toBe(true);
+    const completed = query.mock.calls.find(([sql]) => sql.includes("SET status = $1"));
+    expect(completed[1].bind[0]).toBe("completed");
+    expect(completed[1].bind[7]).toEqual(["running"]);
+  });
+
+  it("saves nothing when the job was cancelled before its results were saved", async () => {
+    database({ jobStatus: "cancelled" });
+    await queue.runJob(job);
+
+    expect(statements().some((sql) => sql.includes("generated_timetables"))).toBe(false);
+    expect(statements().some((sql) => sql.includes("SET status = $1"))).toBe(false);
+  });
+
+  it("leaves the request alone when the job has already moved on", async () => {
+    query.mockResolvedValue([]);
+    const finished = await queue.finishJob(5, 1, ["running"], "completed", "generated", {});
+
+    expect(finished).toBe(false);
+    expect(statements().some((sql) => sql.includes("UPDATE timetable_requests"))).toBe(false);
+  });
+
+  it("fails a job whose request asks for Sunday classes", async () => {
+    database({
+      request: {
+        ...request,
+        settings: { timeConfiguration: { working_days: ["Monday", "Sunday"] } },
+      },
+    });
+    await queue.runJob(job);
+
+    const failed = query.mock.calls.find(([sql]) => sql.includes("SET status = $1"));
+    expect(failed[1].bind[0]).toBe("failed");
+    expect(failed[1].bind[3]).toMatch(/Sunday/);
+  });
+});
@@ -0,0 +1,95 @@
+import { sequelize } from "../../config/database";
+import TimetablePublishService from "../TimetablePublishService";
+
+jest.mock("../../config/database", () => ({ sequelize: { query: jest.fn() } }));
+jest.mock("../../models/Timetable", () => ({ __esModule: true, default: {} }));
+jest.mock("../TimetableVersionService", () => ({ __esModule: true, default: {} }));
+
+const query = sequelize.query as unknown as jest.Mock;
+const service = TimetablePublishService as any;
+
+beforeEach(() => query.mockReset());
+
+describe("TimetablePublishService.publish", () => {
+  it("refuses a start date in the past without allow_past_start", async () => {
+    const result = await TimetablePublishService.publish(1, 9, { effective_from: "2000-01-01" });
+    expect(result).toMatchObject({ ok: false, status: 400 });
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it("goes ahead with a past start date when allow_past_start is set", async () => {
+    query.mockResolvedValueOnce([]);
+    const result = await TimetablePublishService.publish(1, 9, {
+      effective_from: "2000-01-01",
+      allow_past_start: true,
+    });
+    // The request lookup ran, so the date check passed
+    expect(result).toMatchObject({ ok: false, status: 404 });
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("TimetablePublishService.transition", () => {
+  it("moves a generated request to review", async () => {
+    query.mockResolvedValueOnce([{ request_id: 1, status: "review" }]);
+    const result = await TimetablePublishService.transition(1, "submit", 9);
+    expect(result).toEqual({ ok: true, data: { request_id: 1, status: "review" } });
+    expect(query.mock.calls[0][1].bind.slice(0, 3)).toEqual([1, ["generated"], "review"]);
+  });
+
+  it("reports 409 when the request is in the wrong status", async () => {
+    query.mockResolvedValueOnce([]).mockResolvedValueOnce([{ status: "published" }]);
+    const result = await TimetablePublishService.transition(1, "approve", 9);
+    expect(result).toMatchObject({ ok: false, status: 409 });
+  });
+
+  it("reports 404 for an unknown request", async () => {
+    query.mockResolvedValueOnce([]).mockResolvedValueOnce([]);
+    const result = await TimetablePublishService.transition(1, "reject", 9);
+    expect(result).toMatchObject({ ok: false, status: 404 });
+  });
+});
+
+describe("publishing generated slots", () => {
+  const row = (start: string, end: string, extra: object = {}) => ({
+    section: "A",
+    course_id: 5,
+    teacher_id: 7,
+    day_of_week: "MONDAY",
+    start_time: start,
+    end_time: end,
+    room_assignment: "L1",
+    session_type: "lab",
+    ...extra,
+  });
+
+  it("joins back-to-back slots of one class into a single entry", () => {
+    const entries = service.mergeSlots(
+      [row("09:00:00", "10:00:00"), row("10:00:00", "11:00:00"), row("11:00:00", "12:00:00", { course_id: 6 })],
+      new Map([["A", 3]])
+    );
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      section_id: 3,
+      day_of_week: "Monday",
+      start_time: "09:00",
+      end_time: "11:00",
+      class_type: "lab",
+    });
+  });
+
+  it("finds teachers and sections booked twice", () => {
+    const entries = service.mergeSlots(
+      [row("09:00", "10:00"), row("09:30", "10:30", { section: "B", course_id: 6 })],
+      new Map([["A", 3], ["B", 4]])
+    );
+    const conflicts = service.findInternalClashes(entries);
+    expect(conflicts.map((c: any) => c.type)).toEqual(["teacher_clash"]);
+
+    const sameSection = service.mergeSlots(
+      [row("09:00", "10:00"), row("09:00", "10:00", { teacher_id: 8, course_id: 6 })],
+      new Map([["A", 3]])
+    );
+    expect(service.findInternalClashes(sameSection).map((c: any) => c.type)).toEqual(["section_clash"]);
+  });
+});
@@ -0,0 +1,152 @@
+import Timetable from "../../models/Timetable";
+import TimetableVersionService from "../TimetableVersionService";
+
+jest.mock("../../models/Timetable", () => ({
+  __esModule: true,
+  default: { findAll: jest.fn(), create: jest.fn() },
+  effectiveOn: (date: string) => ({ effectiveOn: date }),
+}));
+jest.mock("../../models/SavedTimetable", () => ({ __esModule: true, default: {} }));
+jest.mock("../../models/SavedTimetableVersion", () => ({ __esModule: true, default: {} }));
+jest.mock("../../models/Section", () => ({ __esModule: true, default: {} }));
+
+const findAll = Timetable.findAll as unknown as jest.Mock;
+const create = Timetable.create as unknown as jest.Mock;
+const transaction = {} as any;
+
+const TODAY = new Date().toISOString().split("T")[0];
+const shift = (days: number) => {
+  const date = new Date(`${TODAY}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+};
+
+const entry = (overrides: object = {}) => ({
+  course_id: 5,
+  teacher_id: 7,
+  day_of_week: "Monday",
+  start_time: "09:00",
+  end_time: "10:00",
+  classroom: "A1",
+  class_type: "lecture",
+  ...overrides,
+});
+
+// A live row as Sequelize would hand it back
+const liveRow = (overrides: object = {}) => {
+  const row: any = {
+    schedule_id: 1,
+    section_id: 3,
+    effective_from: null,
+    effective_to: null,
+    request_id: null,
+    ...entry(),
+    ...overrides,
+  };
+  row.toJSON = () => ({ ...row });
+  row.update = jest.fn(async (values: object) => Object.assign(row, values));
+  row.destroy = jest.fn();
+  return row;
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  create.mockImplementation(async (values: object) => ({ schedule_id: 99, ...values }));
+});
+
+describe("TimetableVersionService.diffEntries", () => {
+  it("tells moves, re-staffing, additions and removals apart", () => {
+    const diff = TimetableVersionService.diffEntries(
+      [entry(), entry({ course_id: 6 }), entry({ course_id: 8, start_time: "11:00", end_time: "12:00" })],
+      [
+        entry({ start_time: "10:00", end_time: "11:00" }),
+        entry({ course_id: 6, teacher_id: 9 }),
+        entry({ course_id: 10 }),
+      ]
+    );
+    expect(diff.summary).toEqual({ added: 1, removed: 1, moved: 1, teacher_changed: 1, unchanged: 0 });
+    expect(diff.changes.map((c) => [c.type, c.course_id])).toEqual([
+      ["teacher_changed", 6],
+      ["moved", 5],
+      ["removed", 8],
+      ["added", 10],
+    ]);
+  });
+
+  it("accepts camelCase saved entries against snake_case rows", () => {
+    const diff = TimetableVersionService.diffEntries(
+      [entry()],
+      [{ courseId: 5, teacherId: 7, dayOfWeek: "Monday", startTime: "09:00:00", endTime: "10:00:00", classroom: "A1" }]
+    );
+    expect(diff.summary.unchanged).toBe(1);
+  });
+});
+
+describe("TimetableVersionService.replaceLiveRow", () => {
+  it("end-dates an older row yesterday and inserts its replacement from today", async () => {
+    const row = liveRow({ effective_from: shift(-30), effective_to: shift(60), request_id: 4 });
+    const replacement = await TimetableVersionService.replaceLiveRow(
+      row,
+      { ...entry({ teacher_id: 9 }), section_id: 3 },
+      transaction
+    );
+    expect(row.update).toHaveBeenCalledWith({ effective_to: shift(-1) }, { transaction });
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ teacher_id: 9, effective_from: TODAY, effective_to: shift(60), request_id: 4 }),
+      { transaction }
+    );
+    expect(replacement).toMatchObject({ schedule_id: 99 });
+  });
+
+  it("edits a row that starts today in place instead of ending it before it began", async () => {
+    const row = liveRow({ effective_from: TODAY });
+    const replacement = await TimetableVersionService.replaceLiveRow(
+      row,
+      { ...entry({ start_time: "11:00", end_time: "12:00" }), section_id: 3 },
+      transaction
+    );
+    expect(row.update).toHaveBeenCalledWith(expect.objectContaining({ start_time: "11:00" }), { transaction });
+    expect(row.update).not.toHaveBeenCalledWith(expect.objectContaining({ effective_to: expect.anything() }), expect.anything());
+    expect(create).not.toHaveBeenCalled();
+    expect(replacement).toBe(row);
+  });
+
+  it("deletes a removed row that starts today and end-dates an older one", async () => {
+    const sameDay = liveRow({ effective_from: TODAY });
+    expect(await TimetableVersionService.replaceLiveRow(sameDay, null, transaction)).toBeNull();
+    expect(sameDay.destroy).toHaveBeenCalled();
+
+    const older = liveRow();
+    expect(await TimetableVersionService.replaceLiveRow(older, null, transaction)).toBeNull();
+    expect(older.destroy).not.toHaveBeenCalled();
+    expect(older.update).toHaveBeenCalledWith({ effective_to: shift(-1) }, { transaction });
+  });
+});
+
+describe("TimetableVersionService.applyToLive", () => {
+  it("keeps identical rows and replaces, removes and adds the rest", async () => {
+    const unchanged = liveRow({ schedule_id: 1 });
+    const changed = liveRow({ schedule_id: 2, course_id: 6 });
+    const removed = liveRow({ schedule_id: 3, course_id: 8, effective_from: TODAY });
+    findAll.mockResolvedValue([unchanged, changed, removed]);
+
+    const result = await TimetableVersionService.applyToLive(
+      3,
+      [entry(), entry({ course_id: 6, classroom: "B2" }), entry({ course_id: 10 })],
+      transaction
+    );
+
+    expect(result).toEqual({ unchanged: 1, updated: 1, removed: 1, added: 1 });
+    expect(unchanged.update).not.toHaveBeenCalled();
+    expect(changed.update).toHaveBeenCalledWith({ effective_to: shift(-1) }, { transaction });
+    expect(removed.destroy).toHaveBeenCalled();
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ course_id: 6, classroom: "B2", effective_from: TODAY }),
+      { transaction }
+    );
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ course_id: 10, section_id: 3, effective_from: TODAY }),
+      { transaction }
+    );
+  });
+});
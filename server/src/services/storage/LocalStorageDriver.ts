@@ -0,0 +1,63 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { jwtSecret } from '../../config/secrets';
+import { StorageDriver, assertSafeKey } from './StorageDriver';
+
+/**
+ * LocalStorageDriver - Files on the API server's disk, under
+ * STORAGE_LOCAL_DIR. Signed URLs point back at GET /api/storage/files/<key>,
+ * which checks the expiry and HMAC signature instead of a login.
+ */
+class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  constructor(private readonly root: string) {}
+
+  private pathFor(key: string) {
+    assertSafeKey(key);
+    return path.join(this.root, ...key.split('/'));
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.pathFor(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.pathFor(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+
+  async signedUrl(key: string, expiresInSeconds: number, baseUrl: string): Promise<string> {
+    assertSafeKey(key);
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return `${baseUrl}/storage/files/${encodedKey}?expires=${expires}&signature=${LocalStorageDriver.sign(key, expires)}`;
+  }
+
+  static sign(key: string, expires: number): string {
+    return crypto.createHmac('sha256', jwtSecret()).update(`storage:${key}:${expires}`).digest('hex');
+  }
+
+  /**
+   * Whether a signed URL's expiry and signature are valid for the key
+   */
+  static verify(key: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) return false;
+    const expected = Buffer.from(LocalStorageDriver.sign(key, expires));
+    const given = Buffer.from(String(signature || ''));
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  }
+}
+
+export default LocalStorageDriver;
@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import { StorageDriver, assertSafeKey } from './StorageDriver';
+
+export interface S3Config {
+  endpoint: string; // e.g. https://s3.ap-south-1.amazonaws.com or http://localhost:9000 for MinIO
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean; // MinIO and most self-hosted stores need path-style URLs
+}
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding as required by SigV4
+const encode = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+/**
+ * S3StorageDriver - Objects in an S3-compatible bucket (AWS S3, MinIO, R2...).
+ * Requests are signed with AWS Signature Version 4; downloads use presigned
+ * GET URLs so the browser fetches images straight from the bucket.
+ */
+class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+
+  constructor(private readonly config: S3Config) {}
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, body, { 'content-type': contentType });
+    if (!response.ok) {
+      throw new Error(`S3 upload of ${key} failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`S3 download of ${key} failed: ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete of ${key} failed: ${response.status}`);
+    }
+  }
+
+  async signedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const { url, host, path } = this.location(key);
+    const { amzDate, scope, signingKey } = this.signingContext();
+
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.config.accessKeyId}/${scope}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(expiresInSeconds),
+      'X-Amz-SignedHeaders': 'host',
+    };
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map((name) => `${encode(name)}=${encode(query[name])}`)
+      .join('&');
+
+    const canonicalRequest = ['GET', path, canonicalQuery, `host:${host}\n`, 'host', 'UNSIGNED-PAYLOAD'].join('\n');
+    const signature = this.signature(signingKey, amzDate, scope, canonicalRequest);
+    return `${url}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+
+  private request(method: string, key: string, body?: Buffer, extraHeaders: Record<string, string> = {}) {
+    const { url, host, path } = this.location(key);
+    const { amzDate, scope, signingKey } = this.signingContext();
+
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host,
+      'x-amz-content-sha256': sha256(body || ''),
+      'x-amz-date': amzDate,
+    };
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      path,
+      '',
+      signedHeaders.map((name) => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders.join(';'),
+      headers['x-amz-content-sha256'],
+    ].join('\n');
+    const signature = this.signature(signingKey, amzDate, scope, canonicalRequest);
+
+    const { host: _host, ...sendHeaders } = headers;
+    return fetch(url, {
+      method,
+      body: body ? new Uint8Array(body) : undefined,
+      headers: {
+        ...sendHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+    });
+  }
+
+  private location(key: string) {
+    assertSafeKey(key);
+    const endpoint = new URL(this.config.endpoint);
+    const encodedKey = key.split('/').map(encode).join('/');
+    const host = this.config.forcePathStyle ? endpoint.host : `${this.config.bucket}.${endpoint.host}`;
+    const path = this.config.forcePathStyle ? `/${this.config.bucket}/${encodedKey}` : `/${encodedKey}`;
+    return { url: `${endpoint.protocol}//${host}${path}`, host, path };
+  }
+
+  private signingContext() {
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${this.config.region}/s3/aws4_request`;
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.config.secretAccessKey}`, date), this.config.region), 's3'), 'aws4_request');
+    return { amzDate, scope, signingKey };
+  }
+
+  private signature(signingKey: Buffer, amzDate: string, scope: string, canonicalRequest: string) {
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+    return crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+}
+
+export default S3StorageDriver;
@@ -0,0 +1,29 @@
+/**
+ * Where uploaded images are kept. Keys are slash-separated relative paths
+ * such as "attendance-images/<sessionId>/<file>.jpg".
+ */
+export interface StorageDriver {
+  readonly name: string;
+
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Object contents, or null when the key doesn't exist
+   */
+  get(key: string): Promise<Buffer | null>;
+
+  delete(key: string): Promise<void>;
+
+  /**
+   * Download URL that stops working after expiresInSeconds. baseUrl is the
+   * API's own address, for drivers that serve files through the API.
+   */
+  signedUrl(key: string, expiresInSeconds: number, baseUrl: string): Promise<string>;
+}
+
+// Keys come from our own code, but never let one climb out of its root
+export const assertSafeKey = (key: string) => {
+  if (!key || key.startsWith('/') || key.split('/').some((part) => part === '' || part === '.' || part === '..')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+};
@@ -1,6 +1,7 @@
 import { Request, Response } from "express";
 import { Pool } from "pg";
 import * as XLSX from "xlsx";
+import PDFDocument from "pdfkit";
 import fs from "fs";
 import path from "path";
 
@@ -20,12 +21,31 @@ interface SavedTimetableSolution {
 interface ExportOptions {
   format: "pdf" | "csv" | "excel" | "json";
   include_metadata?: boolean;
-  group_by?: "day" | "teacher" | "section";
+  group_by?: "day" | "teacher" | "section" | "room";
   orientation?: "portrait" | "landscape";
   institution_name?: string;
   academic_year?: string;
 }
 
+// Cell colours for the PDF grid and its legend
+const SESSION_COLORS: Record<string, string> = {
+  theory: "#DBEAFE",
+  lab: "#DCFCE7",
+  tutorial: "#FEF3C7",
+};
+
+const PDF_DAYS = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
+const PDF_MARGIN = 30;
+
 class TimetableExportService {
   private db: Pool | null;
 
@@ -139,39 +159,59 @@ class TimetableExportService {
     }
   }
 
-  // Export timetable to PDF (simplified version - will need pdfkit package)
+  // Export timetable to PDF: one day x time-slot grid per section, teacher or room
   async exportToPDF(
     solution: any,
     options: ExportOptions
-  ): Promise<{ success: boolean; filePath?: string; message: string }> {
+  ): Promise<{ success: boolean; buffer?: Buffer; message: string }> {
     try {
-      // For now, return a simple HTML-to-PDF conversion message
-      // TODO: Implement proper PDF generation with pdfkit or puppeteer
+      const entries: any[] = solution.timetable_entries || [];
+      // A grid needs one owner per page, so "day" grouping falls back to sections
+      const groupBy = options.group_by && options.group_by !== "day" ? options.group_by : "section";
+      const groups = this.groupTimetableEntries(entries, groupBy);
+
+      const doc = new PDFDocument({
+        size: "A4",
+        layout: options.orientation || "landscape",
+        margin: PDF_MARGIN,
+        bufferPages: true,
+        info: {
+          Title: `Timetable - ${solution.name || "Export"}`,
+          Author: options.institution_name || "Educational Institution",
+        },
+      });
 
-      const fileName = `timetable_${solution.id}_${Date.now()}.html`;
-      const filePath = path.join(__dirname, "../../exports", fileName);
+      const chunks: Buffer[] = [];
+      doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+      const finished = new Promise<Buffer>((resolve, reject) => {
+        doc.on("end", () => resolve(Buffer.concat(chunks)));
+        doc.on("error", reject);
+      });
 
-      // Ensure exports directory exists
-      const exportDir = path.dirname(filePath);
-      if (!fs.existsSync(exportDir)) {
-        fs.mkdirSync(exportDir, { recursive: true });
+      const groupKeys = Object.keys(groups).sort((a, b) => a.localeCompare(b));
+      if (groupKeys.length === 0) {
+        this.drawPDFHeader(doc, solution, options, "No classes scheduled");
       }
+      groupKeys.forEach((groupKey, index) => {
+        if (index > 0) doc.addPage();
+        const label = { section: "Section", teacher: "Teacher", room: "Room" }[groupBy];
+        this.drawPDFHeader(doc, solution, options, `${label}: ${groupKey}`);
+        this.drawPDFGrid(doc, groups[groupKey], groupBy);
+      });
 
-      // Generate HTML version for now
-      const htmlContent = this.generateHTMLTimetable(solution, options);
-      fs.writeFileSync(filePath, htmlContent);
+      this.drawPDFFooters(doc, options);
+      doc.end();
 
       return {
         success: true,
-        filePath,
-        message:
-          "HTML timetable exported successfully (PDF export requires additional setup)",
+        buffer: await finished,
+        message: "PDF timetable exported successfully",
       };
     } catch (error) {
       console.error("Error exporting to PDF:", error);
       return {
         success: false,
-        message: "Failed to export timetable: " + (error as Error).message,
+        message: "Failed to export PDF: " + (error as Error).message,
       };
     }
   }
@@ -308,79 +348,194 @@ class TimetableExportService {
     }
   }
 
-  // Helper method to draw timetable grid in PDF
-  private generateHTMLTimetable(solution: any, options: ExportOptions): string {
-    const groupedEntries = this.groupTimetableEntries(
-      solution.timetable_entries || [],
-      options.group_by || "day"
-    );
+  // Branding, group title and session type legend at the top of a page
+  private drawPDFHeader(
+    doc: PDFKit.PDFDocument,
+    solution: any,
+    options: ExportOptions,
+    title: string
+  ) {
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+    const top = doc.page.margins.top;
+
+    doc.rect(left, top, width, 46).fill("#1E3A8A");
+    doc
+      .fillColor("#FFFFFF")
+      .font("Helvetica-Bold")
+      .fontSize(16)
+      .text(options.institution_name || "Educational Institution", left + 12, top + 8, {
+        width: width - 24,
+      });
+    doc
+      .font("Helvetica")
+      .fontSize(9)
+      .text(
+        `Class Timetable  |  Academic Year ${options.academic_year || "Current"}  |  ${solution.name || ""}`,
+        left + 12,
+        top + 29,
+        { width: width - 24 }
+      );
 
-    let html = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <title>Timetable - ${solution.name}</title>
-        <style>
-          body { font-family: Arial, sans-serif; margin: 20px; }
-          .header { text-align: center; margin-bottom: 30px; }
-          .info { margin-bottom: 20px; }
-          .group { margin-bottom: 20px; }
-          .group-title { font-weight: bold; font-size: 14px; margin-bottom: 10px; }
-          .entry { margin-bottom: 8px; padding: 5px; border-left: 3px solid #007bff; }
-          table { width: 100%; border-collapse: collapse; margin-top: 20px; }
-          th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
-          th { background-color: #f2f2f2; }
-        </style>
-      </head>
-      <body>
-        <div class="header">
-          <h1>${options.institution_name || "Educational Institution"}</h1>
-          <h2>Class Timetable</h2>
-          <p>Academic Year: ${options.academic_year || "Current"}</p>
-        </div>
-        
-        <div class="info">
-          <h3>Solution Information</h3>
-          <p><strong>Name:</strong> ${solution.name}</p>
-          <p><strong>Optimization:</strong> ${solution.optimization}</p>
-          <p><strong>Overall Score:</strong> ${solution.score}%</p>
-          <p><strong>Conflicts:</strong> ${solution.conflicts}</p>
-        </div>
-    `;
-
-    if (options.include_metadata && solution.quality) {
-      html += `
-        <div class="info">
-          <h3>Quality Metrics</h3>
-          <p>Teacher Satisfaction: ${solution.quality.teacher_satisfaction}%</p>
-          <p>Student Satisfaction: ${solution.quality.student_satisfaction}%</p>
-          <p>Resource Utilization: ${solution.quality.resource_utilization}%</p>
-        </div>
-      `;
-    }
+    doc
+      .fillColor("#111827")
+      .font("Helvetica-Bold")
+      .fontSize(13)
+      .text(title, left, top + 56, { width: width / 2 });
+
+    // Legend, right aligned on the title line
+    let x = left + width;
+    [...Object.keys(SESSION_COLORS)].reverse().forEach((type) => {
+      const label = type.charAt(0).toUpperCase() + type.slice(1);
+      const labelWidth = doc.font("Helvetica").fontSize(8).widthOfString(label);
+      x -= labelWidth + 24;
+      doc.rect(x, top + 58, 10, 10).fillAndStroke(SESSION_COLORS[type], "#9CA3AF");
+      doc.fillColor("#374151").text(label, x + 14, top + 59);
+    });
+  }
 
-    html += "<h3>Timetable Schedule</h3>";
+  // Days across, time slots down; each cell lists the classes in that slot
+  private drawPDFGrid(doc: PDFKit.PDFDocument, entries: any[], groupBy: string) {
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+    const top = doc.page.margins.top + 80;
+    const bottom = doc.page.height - doc.page.margins.bottom - 16;
 
-    Object.keys(groupedEntries).forEach((groupKey) => {
-      html += `
-        <div class="group">
-          <div class="group-title">${groupKey}</div>
-      `;
+    const presentDays = new Set(entries.map((entry) => entry.day));
+    const days = PDF_DAYS.filter(
+      (day, index) => index < 5 || presentDays.has(day)
+    );
+    const slots = Array.from(
+      new Set(entries.map((entry) => this.slotLabel(entry)))
+    ).sort((a, b) => this.slotStartMinutes(a) - this.slotStartMinutes(b));
+
+    const timeColumn = 70;
+    const dayColumn = (width - timeColumn) / days.length;
+    const headerHeight = 18;
+    const rowHeight = Math.max(
+      24,
+      Math.min(70, (bottom - top - headerHeight) / Math.max(slots.length, 1))
+    );
+
+    // Header row
+    doc.rect(left, top, width, headerHeight).fill("#E5E7EB");
+    doc.fillColor("#111827").font("Helvetica-Bold").fontSize(9);
+    doc.text("Time", left + 4, top + 5, { width: timeColumn - 8 });
+    days.forEach((day, i) => {
+      doc.text(day, left + timeColumn + i * dayColumn, top + 5, {
+        width: dayColumn,
+        align: "center",
+      });
+    });
 
-      groupedEntries[groupKey].forEach((entry: any) => {
-        html += `
-          <div class="entry">
-            <strong>${entry.timeSlot}</strong> - ${entry.courseCode} (${entry.courseName})<br>
-            Teacher: ${entry.teacherName}, Room: ${entry.roomNumber}, Section: ${entry.section}
-          </div>
-        `;
+    slots.forEach((slot, row) => {
+      const y = top + headerHeight + row * rowHeight;
+      doc
+        .fillColor("#111827")
+        .font("Helvetica-Bold")
+        .fontSize(8)
+        .text(slot, left + 4, y + 4, { width: timeColumn - 8 });
+
+      days.forEach((day, col) => {
+        const x = left + timeColumn + col * dayColumn;
+        const cellEntries = entries.filter(
+          (entry) => entry.day === day && this.slotLabel(entry) === slot
+        );
+        const type = this.sessionType(cellEntries[0]);
+        doc
+          .rect(x, y, dayColumn, rowHeight)
+          .fillAndStroke(cellEntries.length ? SESSION_COLORS[type] : "#FFFFFF", "#D1D5DB");
+
+        cellEntries.forEach((entry, i) => {
+          const lineTop = y + 3 + (i * (rowHeight - 6)) / cellEntries.length;
+          const details =
+            groupBy === "teacher"
+              ? [entry.section && `Sec ${entry.section}`, this.room(entry)]
+              : groupBy === "room"
+              ? [entry.section && `Sec ${entry.section}`, this.teacher(entry)]
+              : [this.teacher(entry), this.room(entry)];
+          doc
+            .fillColor("#111827")
+            .font("Helvetica-Bold")
+            .fontSize(7.5)
+            .text(entry.courseCode || entry.course_code || "", x + 3, lineTop, {
+              width: dayColumn - 6,
+              lineBreak: false,
+              ellipsis: true,
+            });
+          doc
+            .font("Helvetica")
+            .fontSize(6.5)
+            .fillColor("#374151")
+            .text(details.filter(Boolean).join(" | "), x + 3, lineTop + 9, {
+              width: dayColumn - 6,
+              lineBreak: false,
+              ellipsis: true,
+            });
+        });
       });
 
-      html += "</div>";
+      doc
+        .rect(left, y, timeColumn, rowHeight)
+        .stroke("#D1D5DB");
     });
+  }
+
+  // Export date and page numbers, written once all pages exist
+  private drawPDFFooters(doc: PDFKit.PDFDocument, options: ExportOptions) {
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      const bottomMargin = doc.page.margins.bottom;
+      // Writing inside the bottom margin would otherwise start a new page
+      doc.page.margins.bottom = 0;
+      doc
+        .font("Helvetica")
+        .fontSize(7)
+        .fillColor("#6B7280")
+        .text(
+          `${options.institution_name || "Educational Institution"} - generated ${new Date().toLocaleDateString()}  |  Page ${
+            i + 1
+          } of ${range.count}`,
+          doc.page.margins.left,
+          doc.page.height - bottomMargin - 10,
+          {
+            width: doc.page.width - doc.page.margins.left - doc.page.margins.right,
+            align: "right",
+          }
+        );
+      doc.page.margins.bottom = bottomMargin;
+    }
+  }
+
+  private slotLabel(entry: any): string {
+    const slot = String(entry.timeSlot || entry.time_slot || "");
+    return slot.replace(/\s*-\s*/, "-");
+  }
+
+  // Minutes since midnight of a label's start ("9:00 AM-10:00 AM" or "14:00-15:00"),
+  // so 9:00 sorts before 10:00; labels without a time go last
+  private slotStartMinutes(label: string): number {
+    const match = label.match(/(\d{1,2}):(\d{2})\s*(AM|PM)?/i);
+    if (!match) return Number.MAX_SAFE_INTEGER;
+    let hours = Number(match[1]) % (match[3] ? 12 : 24);
+    if (match[3]?.toUpperCase() === "PM") hours += 12;
+    return hours * 60 + Number(match[2]);
+  }
 
-    html += "</body></html>";
-    return html;
+  private sessionType(entry: any): string {
+    const type = String(
+      entry?.sessionType || entry?.session_type || entry?.class_type || "theory"
+    ).toLowerCase();
+    return type === "lecture" ? "theory" : SESSION_COLORS[type] ? type : "theory";
+  }
+
+  private teacher(entry: any): string {
+    return entry.teacherName || entry.teacher_name || "";
+  }
+
+  private room(entry: any): string {
+    return entry.roomNumber || entry.room_number || entry.classroom || "";
   }
 
   // Helper method to format timetable data for Excel/CSV
@@ -424,6 +579,9 @@ class TimetableExportService {
         case "section":
           key = entry.section;
           break;
+        case "room":
+          key = entry.roomNumber || entry.room_number || entry.classroom || "Unassigned";
+          break;
         case "day":
         default:
           key = entry.day;